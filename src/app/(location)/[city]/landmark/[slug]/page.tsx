@@ -0,0 +1,385 @@
+// src/app/[city]/landmark/[slug]/page.tsx
+'use client'
+
+import { useState, useEffect, use } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { notFound } from 'next/navigation'
+import {
+  businessService,
+  locationService,
+  tourismService,
+  type Area,
+  type Business,
+  type City,
+  type Landmark,
+  type NearbyFilter,
+  type TourismPlace
+} from '@/lib/database'
+import { formatDistance, getAreaPath, getLandmarkPath } from '@/lib/utils'
+import { MobileHeader } from '@/components/mobile/mobile-header'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { OpenStatusBadge } from '@/components/business/open-status-badge'
+import { BusinessThumbnail } from '@/components/business/business-thumbnail'
+
+// How far from a pinned landmark still counts as "near" it
+const LANDMARK_BUSINESS_RADIUS_KM = 1
+const LANDMARK_PLACE_RADIUS_KM = 3
+
+/**
+ * Search radius around the landmark, when it is pinned on the map
+ */
+function getLandmarkNearby(landmark: Landmark, radiusKm: number): NearbyFilter | null {
+  if (landmark.latitude == null || landmark.longitude == null) return null
+  return { latitude: landmark.latitude, longitude: landmark.longitude, radiusKm }
+}
+
+interface LandmarkPageProps {
+  params: Promise<{
+    city: string
+    slug: string
+  }>
+}
+
+export default function LandmarkPage({ params }: LandmarkPageProps) {
+  const resolvedParams = use(params)
+  const [landmark, setLandmark] = useState<Landmark | null>(null)
+  const [area, setArea] = useState<Area | null>(null)
+  const [city, setCity] = useState<City | null>(null)
+  const [otherLandmarks, setOtherLandmarks] = useState<Landmark[]>([])
+  const [businesses, setBusinesses] = useState<Business[]>([])
+  const [places, setPlaces] = useState<TourismPlace[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const router = useRouter()
+
+  useEffect(() => {
+    loadLandmarkData()
+  }, [resolvedParams.city, resolvedParams.slug])
+
+  const loadLandmarkData = async () => {
+    try {
+      setLoading(true)
+      setError(null)
+
+      const { data: landmarkData, error: landmarkError } = await locationService.getLandmarkBySlug(resolvedParams.slug, resolvedParams.city)
+
+      if (landmarkError || !landmarkData) {
+        notFound()
+        return
+      }
+
+      const businessNearby = getLandmarkNearby(landmarkData.landmark, LANDMARK_BUSINESS_RADIUS_KM)
+      const placeNearby = getLandmarkNearby(landmarkData.landmark, LANDMARK_PLACE_RADIUS_KM)
+
+      // Listings that name this landmark, plus any others pinned close to it
+      const [taggedResult, nearbyResult, placesResult, landmarksResult] = await Promise.all([
+        businessService.getBusinesses({ status: 'published', landmarkId: landmarkData.landmark.id, sortBy: 'name' }),
+        businessNearby
+          ? businessService.getBusinesses({ status: 'published', nearby: businessNearby })
+          : Promise.resolve({ data: [] as Business[], totalCount: 0, error: null }),
+        placeNearby
+          ? tourismService.getTourismPlaces({ status: 'published', nearby: placeNearby })
+          : tourismService.getTourismPlaces({ status: 'published', area: landmarkData.area.id }),
+        locationService.getLandmarksByArea(landmarkData.area.id)
+      ])
+
+      if (taggedResult.error || nearbyResult.error) {
+        throw new Error('Failed to load businesses')
+      }
+
+      const nearbyById = new Map((nearbyResult.data || []).map(business => [business.id, business]))
+      const tagged = (taggedResult.data || []).map(business => nearbyById.get(business.id) || business)
+      const taggedIds = new Set(tagged.map(business => business.id))
+
+      setLandmark(landmarkData.landmark)
+      setArea(landmarkData.area)
+      setCity(landmarkData.city)
+      setBusinesses([...tagged, ...(nearbyResult.data || []).filter(business => !taggedIds.has(business.id))])
+      setPlaces(placesResult.data || [])
+      setOtherLandmarks((landmarksResult.data || []).filter(other => other.id !== landmarkData.landmark.id))
+
+    } catch (err) {
+      console.error('Error loading landmark data:', err)
+      setError('Failed to load landmark data')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <MobileHeader title="Loading..." showBackButton />
+        <div className="px-4 py-6">
+          <LandmarkPageSkeleton />
+        </div>
+      </div>
+    )
+  }
+
+  if (error || !landmark || !area || !city) {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <MobileHeader title="Landmark Not Found" showBackButton />
+        <div className="px-4 py-6">
+          <Card>
+            <CardContent className="p-8 text-center">
+              <h2 className="text-xl font-semibold text-gray-900 mb-2">Landmark Not Found</h2>
+              <p className="text-gray-600 mb-4">
+                This landmark doesn&apos;t exist or has been removed.
+              </p>
+              <Button onClick={() => router.push('/')}>
+                Back to Home
+              </Button>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <MobileHeader title={landmark.name} showBackButton />
+
+      <div className="px-4 py-6 space-y-6">
+        {/* Landmark Header */}
+        <LandmarkHeader landmark={landmark} area={area} city={city} businessCount={businesses.length} />
+
+        {/* Businesses */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Businesses near {landmark.name}</CardTitle>
+          </CardHeader>
+          <CardContent className="p-4 space-y-4">
+            {businesses.length === 0 ? (
+              <p className="text-sm text-gray-600 text-center py-4">
+                No businesses listed near {landmark.name} yet.
+              </p>
+            ) : (
+              businesses.map(business => (
+                <NearbyBusinessCard
+                  key={business.id}
+                  business={business}
+                  onClick={() => router.push(`/business/${business.slug}`)}
+                />
+              ))
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Tourism Places */}
+        {places.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">
+                Places to visit {landmark.latitude != null ? `near ${landmark.name}` : `in ${area.name}`}
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="p-4 space-y-3">
+              {places.map(place => (
+                <NearbyPlaceCard
+                  key={place.id}
+                  place={place}
+                  onClick={() => router.push(`/tourism/${place.slug}`)}
+                />
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Other Landmarks */}
+        {otherLandmarks.length > 0 && (
+          <Card>
+            <CardContent className="p-4">
+              <h2 className="text-sm font-medium text-gray-700 mb-3">Other landmarks in {area.name}</h2>
+              <div className="flex flex-wrap gap-2">
+                {otherLandmarks.map(other => (
+                  <Link
+                    key={other.id}
+                    href={getLandmarkPath(city.slug, other.slug)}
+                    className="px-3 py-1.5 rounded-full text-sm bg-gray-100 text-gray-700 hover:bg-gray-200 transition-colors"
+                  >
+                    {other.name}
+                  </Link>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Landmark Actions */}
+        <LandmarkActions landmark={landmark} area={area} city={city} />
+      </div>
+    </div>
+  )
+}
+
+// Landmark Header Component
+interface LandmarkHeaderProps {
+  landmark: Landmark
+  area: Area
+  city: City
+  businessCount: number
+}
+
+function LandmarkHeader({ landmark, area, city, businessCount }: LandmarkHeaderProps) {
+  return (
+    <Card>
+      <CardContent className="p-6">
+        <div className="text-center space-y-4">
+          <div className="w-16 h-16 bg-gradient-to-br from-orange-100 to-orange-200 rounded-full flex items-center justify-center mx-auto">
+            <svg className="w-8 h-8 text-orange-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 21v-4m0 0V5a2 2 0 012-2h6.5l1 1H21l-3 6 3 6h-8.5l-1-1H5a2 2 0 00-2 2zm9-13.5V9" />
+            </svg>
+          </div>
+
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900 mb-1">{landmark.name}</h1>
+            <p className="text-gray-600 mb-3">
+              <Link href={getAreaPath(city.slug, area.slug)} className="hover:text-gray-900">{area.name}</Link>, {city.name}
+            </p>
+
+            {landmark.description && (
+              <p className="text-gray-600 mb-3">{landmark.description}</p>
+            )}
+
+            <div className="flex items-center justify-center gap-4 text-sm text-gray-500">
+              <span>{businessCount} businesses nearby</span>
+            </div>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
+
+// Nearby Business Card Component
+interface NearbyBusinessCardProps {
+  business: Business
+  onClick: () => void
+}
+
+function NearbyBusinessCard({ business, onClick }: NearbyBusinessCardProps) {
+  return (
+    <div
+      onClick={onClick}
+      className="p-3 border border-gray-200 rounded-lg cursor-pointer hover:border-gray-300 transition-colors touch-manipulation"
+    >
+      <div className="flex items-start gap-3">
+        <div className="w-12 h-12 bg-gradient-to-br from-gray-100 to-gray-200 rounded-lg flex items-center justify-center flex-shrink-0 overflow-hidden">
+          <BusinessThumbnail business={business} />
+        </div>
+        <div className="flex-1 min-w-0">
+          <div className="flex items-start justify-between gap-2 mb-1">
+            <h3 className="font-semibold text-gray-900 truncate">{business.name}</h3>
+            {business.is_verified && (
+              <Badge className="bg-blue-100 text-blue-800 text-xs flex-shrink-0">Verified</Badge>
+            )}
+          </div>
+          <p className="text-sm text-gray-600 truncate mb-1">
+            {business.address}
+            {business.distance_km !== undefined && (
+              <span className="text-gray-500"> · {formatDistance(business.distance_km)} away</span>
+            )}
+          </p>
+          <OpenStatusBadge hours={business.hours} overrides={business.hour_overrides} />
+        </div>
+      </div>
+    </div>
+  )
+}
+
+// Nearby Place Card Component
+interface NearbyPlaceCardProps {
+  place: TourismPlace
+  onClick: () => void
+}
+
+function NearbyPlaceCard({ place, onClick }: NearbyPlaceCardProps) {
+  return (
+    <div
+      onClick={onClick}
+      className="p-3 border border-gray-200 rounded-lg cursor-pointer hover:border-gray-300 transition-colors touch-manipulation"
+    >
+      <div className="flex items-start justify-between gap-2">
+        <div className="min-w-0">
+          <h3 className="font-medium text-gray-900 truncate">{place.name}</h3>
+          {place.short_description && (
+            <p className="text-sm text-gray-600 line-clamp-2">{place.short_description}</p>
+          )}
+        </div>
+        {place.distance_km !== undefined && (
+          <span className="text-xs text-gray-500 flex-shrink-0">{formatDistance(place.distance_km)}</span>
+        )}
+      </div>
+    </div>
+  )
+}
+
+// Landmark Actions Component
+interface LandmarkActionsProps {
+  landmark: Landmark
+  area: Area
+  city: City
+}
+
+function LandmarkActions({ landmark, area, city }: LandmarkActionsProps) {
+  const handleDirections = () => {
+    if (landmark.latitude != null && landmark.longitude != null) {
+      window.open(`https://www.google.com/maps/dir/?api=1&destination=${landmark.latitude},${landmark.longitude}`, '_blank')
+      return
+    }
+
+    const query = encodeURIComponent(`${landmark.name}, ${area.name}, ${city.name}`)
+    window.open(`https://www.google.com/maps/search/?api=1&query=${query}`, '_blank')
+  }
+
+  return (
+    <Card>
+      <CardContent className="p-4">
+        <Button
+          onClick={handleDirections}
+          variant="outline"
+          className="w-full justify-start"
+        >
+          <svg className="w-4 h-4 mr-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 20l-5.447-2.724A1 1 0 013 16.382V5.618a1 1 0 011.447-.894L9 7m0 13l6-3m-6 3V7m6 10l4.553 2.276A1 1 0 0021 18.382V7.618a1 1 0 00-.553-.894L15 4m0 13V4m0 0L9 7" />
+          </svg>
+          Get Directions to {landmark.name}
+        </Button>
+      </CardContent>
+    </Card>
+  )
+}
+
+// Loading Skeleton
+function LandmarkPageSkeleton() {
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardContent className="p-6">
+          <div className="text-center space-y-4">
+            <div className="w-16 h-16 bg-gray-200 rounded-full mx-auto animate-pulse"></div>
+            <div className="space-y-2">
+              <div className="h-6 bg-gray-200 rounded w-32 mx-auto animate-pulse"></div>
+              <div className="h-4 bg-gray-200 rounded w-48 mx-auto animate-pulse"></div>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {Array.from({ length: 4 }).map((_, i) => (
+        <Card key={i}>
+          <CardContent className="p-4">
+            <div className="h-4 bg-gray-200 rounded w-3/4 mb-2 animate-pulse"></div>
+            <div className="h-3 bg-gray-200 rounded w-1/2 animate-pulse"></div>
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  )
+}
@@ -3,22 +3,21 @@
 
 import { useState, useEffect, Suspense } from 'react'
 import { useRouter, useSearchParams } from 'next/navigation'
-import { locationService, businessService, type Area, type City } from '@/lib/database'
+import { directoryService, type AreaStats, type CityStats } from '@/lib/database'
+import { formatRating, getAreaPath } from '@/lib/utils'
 import { MobileHeader } from '@/components/mobile/mobile-header'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
 import Head from 'next/head'
 
-interface AreaWithCount extends Area {
-  businessCount: number
-  cityName: string
+interface AreaWithCount extends AreaStats {
   description?: string
 }
 
 interface LocationResults {
   areas: AreaWithCount[]
-  cities: City[]
+  cities: CityStats[]
   totalCount: number
   currentPage: number
   totalPages: number
@@ -54,63 +53,30 @@ function AreasPageContent() {
       setLoading(true)
       setError(null)
 
-      // Get all cities first
-      const { data: cities, error: citiesError } = await locationService.getCities()
-      
-      if (citiesError || !cities) {
-        throw new Error('Failed to load cities')
-      }
+      // Cities, areas and their listing counts in one request
+      const { data: overview, error: overviewError } = await directoryService.getOverview()
 
-      // Get all areas for all cities
-      const allAreas: AreaWithCount[] = []
-      
-      for (const city of cities) {
-        try {
-          const { data: areas, error: areasError } = await locationService.getAreasByCity(city.id)
-          
-          if (!areasError && areas) {
-            // Get business count for each area
-            const areasWithCounts = await Promise.all(
-              areas.map(async (area) => {
-                try {
-                  const { data: businesses } = await businessService.getBusinessesByArea(area.id)
-                  return {
-                    ...area,
-                    businessCount: businesses?.length || 0,
-                    cityName: city.name
-                  }
-                } catch (err) {
-                  console.error(`Error getting count for area ${area.slug}:`, err)
-                  return {
-                    ...area,
-                    businessCount: 0,
-                    cityName: city.name
-                  }
-                }
-              })
-            )
-            
-            allAreas.push(...areasWithCounts)
-          }
-        } catch (err) {
-          console.error(`Error loading areas for city ${city.name}:`, err)
-        }
+      if (overviewError || !overview) {
+        throw new Error('Failed to load areas')
       }
 
+      const { cities } = overview
+      const allAreas: AreaWithCount[] = overview.areas
+
       // Apply search filter if provided
       let filteredAreas = allAreas
       if (search.trim()) {
         filteredAreas = allAreas.filter(area =>
           area.name.toLowerCase().includes(search.toLowerCase()) ||
-          area.cityName.toLowerCase().includes(search.toLowerCase()) ||
+          area.city_name.toLowerCase().includes(search.toLowerCase()) ||
           (area.description && area.description.toLowerCase().includes(search.toLowerCase()))
         )
       }
 
       // Sort by business count (descending) then by name
       filteredAreas.sort((a, b) => {
-        if (b.businessCount !== a.businessCount) {
-          return b.businessCount - a.businessCount
+        if (b.business_count !== a.business_count) {
+          return b.business_count - a.business_count
         }
         return a.name.localeCompare(b.name)
       })
@@ -158,7 +124,8 @@ function AreasPageContent() {
   }
 
   const handleAreaClick = (area: AreaWithCount) => {
-    router.push(`/area/${area.slug}`)
+    const city = results.cities.find(c => c.id === area.city_id)
+    if (city) router.push(getAreaPath(city.slug, area.slug))
   }
 
   // SEO metadata
@@ -501,16 +468,16 @@ function AreaMobileCard({ area, onClick, searchQuery }: {
                 {highlightText(area.name, searchQuery)}
               </h3>
               <Badge 
-                variant={area.businessCount > 0 ? "default" : "secondary"}
+                variant={area.business_count > 0 ? "default" : "secondary"}
                 className="text-xs"
               >
-                {area.businessCount}
+                {area.business_count}
               </Badge>
             </div>
             
             {/* City */}
             <p className="text-sm text-gray-600 mb-2">
-              {highlightText(area.cityName, searchQuery)}
+              {highlightText(area.city_name, searchQuery)}
             </p>
             
             {/* Description */}
@@ -522,7 +489,9 @@ function AreaMobileCard({ area, onClick, searchQuery }: {
             
             {/* Business Count */}
             <p className="text-xs text-gray-500">
-              {area.businessCount} business{area.businessCount !== 1 ? 'es' : ''} in this area
+              {area.business_count} business{area.business_count !== 1 ? 'es' : ''} in this area
+              {area.average_rating !== null && ` • ★ ${formatRating(area.average_rating)}`}
+              {area.featured_count > 0 && ` • ${area.featured_count} featured`}
             </p>
           </div>
         </div>
@@ -575,7 +544,7 @@ function AreaDesktopCard({ area, onClick, searchQuery }: {
           </h3>
           
           <p className="text-gray-600 mb-3">
-            {highlightText(area.cityName, searchQuery)}
+            {highlightText(area.city_name, searchQuery)}
           </p>
           
           {area.description && (
@@ -585,11 +554,17 @@ function AreaDesktopCard({ area, onClick, searchQuery }: {
           )}
           
           <Badge 
-            variant={area.businessCount > 0 ? "default" : "secondary"}
+            variant={area.business_count > 0 ? "default" : "secondary"}
             className="text-sm px-3 py-1"
           >
-            {area.businessCount} business{area.businessCount !== 1 ? 'es' : ''}
+            {area.business_count} business{area.business_count !== 1 ? 'es' : ''}
           </Badge>
+
+          {area.average_rating !== null && (
+            <p className="text-xs text-gray-500 mt-2">
+              ★ {formatRating(area.average_rating)} from {area.review_count} review{area.review_count !== 1 ? 's' : ''}
+            </p>
+          )}
         </div>
       </CardContent>
     </Card>
@@ -0,0 +1,34 @@
+// src/app/landmark/[slug]/page.tsx
+import { cookies } from 'next/headers'
+import { notFound, permanentRedirect, redirect } from 'next/navigation'
+import { locationService } from '@/lib/database'
+import { APP_CONSTANTS, getLandmarkPath } from '@/lib/utils'
+
+interface LegacyLandmarkPageProps {
+  params: Promise<{
+    slug: string
+  }>
+}
+
+/**
+ * Landmark pages moved under their city (/[city]/landmark/[slug]); sends
+ * old links on the same way as area pages
+ */
+export default async function LegacyLandmarkPage({ params }: LegacyLandmarkPageProps) {
+  const { slug } = await params
+  const { data: matches } = await locationService.getLandmarksBySlug(slug)
+
+  if (!matches || matches.length === 0) {
+    notFound()
+  }
+
+  if (matches.length === 1) {
+    permanentRedirect(getLandmarkPath(matches[0].city.slug, matches[0].landmark.slug))
+  }
+
+  // Chosen by cookie, so only a temporary redirect
+  const preferredCity = (await cookies()).get(APP_CONSTANTS.CITY_COOKIE)?.value
+  const match = matches.find(m => m.city.slug === preferredCity) || matches[0]
+
+  redirect(getLandmarkPath(match.city.slug, match.landmark.slug))
+}
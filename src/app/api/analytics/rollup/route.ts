@@ -0,0 +1,38 @@
+// src/app/api/analytics/rollup/route.ts - Fold raw listing events and tourism place views into daily counts (scheduled, hourly)
+// Recounts today and yesterday by default; pass ?days=N (up to 90) to backfill.
+import { NextRequest, NextResponse } from 'next/server'
+import { isCronRequest } from '@/lib/cron'
+import { getSupabaseAdmin } from '@/lib/supabase-admin'
+import { getTodayInAppTimezone } from '@/lib/utils'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export async function POST(request: NextRequest) {
+  if (!isCronRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const days = Math.min(Math.max(Number(request.nextUrl.searchParams.get('days')) || 2, 1), 90)
+  const today = getTodayInAppTimezone()
+  const from = new Date(new Date(`${today}T00:00:00Z`).getTime() - (days - 1) * DAY_MS).toISOString().slice(0, 10)
+
+  const supabaseAdmin = getSupabaseAdmin()
+  const range = { p_from: from, p_to: today }
+
+  const [businessResult, tourismResult] = await Promise.all([
+    supabaseAdmin.rpc('rollup_business_events', range),
+    supabaseAdmin.rpc('rollup_tourism_place_views', range)
+  ])
+
+  if (businessResult.error || tourismResult.error) {
+    console.error('Error rolling up events:', businessResult.error || tourismResult.error)
+    return NextResponse.json({ error: 'Failed to roll up events' }, { status: 500 })
+  }
+
+  return NextResponse.json({
+    from,
+    to: today,
+    rows: businessResult.data,
+    tourismRows: tourismResult.data
+  })
+}
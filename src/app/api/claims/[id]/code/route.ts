@@ -0,0 +1,91 @@
+// src/app/api/claims/[id]/code/route.ts - Send a one-time code for a business claim
+import { NextRequest, NextResponse } from 'next/server'
+import { getRequestUser, getSupabaseAdmin } from '@/lib/supabase-admin'
+import { getOtpSender } from '@/lib/otp-sender'
+import { CLAIM_CODE_CONFIG, generateClaimCode, hashClaimCode } from '@/lib/claim-codes'
+import { maskContact } from '@/lib/utils'
+
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+
+  const user = await getRequestUser(request)
+  if (!user) {
+    return NextResponse.json({ error: 'Please sign in again' }, { status: 401 })
+  }
+
+  const admin = getSupabaseAdmin()
+
+  const { data: claim, error } = await admin
+    .from('business_claims')
+    .select('id, user_id, method, contact_value, status, businesses:business_id(name, email, phone)')
+    .eq('id', id)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error fetching claim:', error)
+    return NextResponse.json({ error: 'Failed to send code' }, { status: 500 })
+  }
+
+  if (!claim || claim.user_id !== user.id) {
+    return NextResponse.json({ error: 'Claim not found' }, { status: 404 })
+  }
+
+  if (claim.status !== 'pending_verification' || claim.method === 'document' || !claim.contact_value) {
+    return NextResponse.json({ error: 'This claim does not need a code' }, { status: 400 })
+  }
+
+  // Codes only ever go to contact details already on the listing
+  const business = claim.businesses as unknown as { name: string; email: string | null; phone: string[] | null } | null
+  const listed = claim.method === 'email'
+    ? business?.email?.toLowerCase() === claim.contact_value.toLowerCase()
+    : (business?.phone || []).includes(claim.contact_value)
+
+  if (!business || !listed) {
+    return NextResponse.json({ error: 'That contact is no longer on the listing' }, { status: 400 })
+  }
+
+  const { data: previous } = await admin
+    .from('business_claim_codes')
+    .select('sent_at')
+    .eq('claim_id', id)
+    .maybeSingle()
+
+  if (previous && Date.now() - new Date(previous.sent_at).getTime() < CLAIM_CODE_CONFIG.resendSeconds * 1000) {
+    return NextResponse.json({ error: 'Please wait a minute before asking for another code' }, { status: 429 })
+  }
+
+  const code = generateClaimCode()
+
+  const { error: saveError } = await admin
+    .from('business_claim_codes')
+    .upsert({
+      claim_id: id,
+      code_hash: hashClaimCode(id, code),
+      expires_at: new Date(Date.now() + CLAIM_CODE_CONFIG.ttlMinutes * 60 * 1000).toISOString(),
+      attempts: 0,
+      sent_at: new Date().toISOString()
+    })
+
+  if (saveError) {
+    console.error('Error saving claim code:', saveError)
+    return NextResponse.json({ error: 'Failed to send code' }, { status: 500 })
+  }
+
+  try {
+    await getOtpSender().send({
+      channel: claim.method,
+      to: claim.contact_value,
+      code,
+      subject: `Your code to claim ${business.name}`,
+      text: `Your code to claim ${business.name} is ${code}. It expires in ${CLAIM_CODE_CONFIG.ttlMinutes} minutes.`
+    })
+  } catch (sendError) {
+    console.error('Error sending claim code:', sendError)
+    return NextResponse.json({ error: 'We could not deliver the code. Please try again later.' }, { status: 502 })
+  }
+
+  return NextResponse.json({
+    sentTo: maskContact(claim.contact_value),
+    expiresInMinutes: CLAIM_CODE_CONFIG.ttlMinutes
+  })
+}
@@ -0,0 +1,81 @@
+// src/app/api/claims/[id]/verify/route.ts - Check a claim's one-time code
+import { NextRequest, NextResponse } from 'next/server'
+import { getRequestUser, getSupabaseAdmin } from '@/lib/supabase-admin'
+import { CLAIM_CODE_CONFIG, claimCodeMatches } from '@/lib/claim-codes'
+
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+
+  const user = await getRequestUser(request)
+  if (!user) {
+    return NextResponse.json({ error: 'Please sign in again' }, { status: 401 })
+  }
+
+  const body = await request.json().catch(() => null)
+  const code = typeof body?.code === 'string' ? body.code.trim() : ''
+  if (!/^\d+$/.test(code)) {
+    return NextResponse.json({ error: 'Enter the code we sent you' }, { status: 400 })
+  }
+
+  const admin = getSupabaseAdmin()
+
+  const { data: claim } = await admin
+    .from('business_claims')
+    .select('id, user_id, status')
+    .eq('id', id)
+    .maybeSingle()
+
+  if (!claim || claim.user_id !== user.id) {
+    return NextResponse.json({ error: 'Claim not found' }, { status: 404 })
+  }
+
+  if (claim.status !== 'pending_verification') {
+    return NextResponse.json({ error: 'This claim is already verified' }, { status: 400 })
+  }
+
+  const { data: stored } = await admin
+    .from('business_claim_codes')
+    .select('expires_at')
+    .eq('claim_id', id)
+    .maybeSingle()
+
+  if (!stored || new Date(stored.expires_at).getTime() < Date.now()) {
+    return NextResponse.json({ error: 'This code has expired. Please request a new one.' }, { status: 400 })
+  }
+
+  // Spend the attempt before comparing, so parallel guesses can't share one
+  const { data: attempt, error: attemptError } = await admin
+    .rpc('use_claim_code_attempt', { p_claim_id: id, p_max_attempts: CLAIM_CODE_CONFIG.maxAttempts })
+    .maybeSingle<{ code_hash: string }>()
+
+  if (attemptError) {
+    console.error('Error recording code attempt:', attemptError)
+    return NextResponse.json({ error: 'Failed to verify code' }, { status: 500 })
+  }
+
+  if (!attempt) {
+    return NextResponse.json({ error: 'Too many attempts. Please request a new code.' }, { status: 429 })
+  }
+
+  if (!claimCodeMatches(attempt.code_hash, id, code)) {
+    return NextResponse.json({ error: 'That code is not right' }, { status: 400 })
+  }
+
+  const { error: updateError } = await admin
+    .from('business_claims')
+    .update({
+      status: 'pending_review',
+      verified_at: new Date().toISOString(),
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', id)
+
+  if (updateError) {
+    console.error('Error verifying claim:', updateError)
+    return NextResponse.json({ error: 'Failed to verify code' }, { status: 500 })
+  }
+
+  await admin.from('business_claim_codes').delete().eq('claim_id', id)
+
+  return NextResponse.json({ success: true })
+}
@@ -0,0 +1,17 @@
+// src/app/api/mail/digest/route.ts - Queue the weekly owner digest (scheduled, Monday mornings)
+import { NextRequest, NextResponse } from 'next/server'
+import { isCronRequest } from '@/lib/cron'
+import { queueWeeklyDigests } from '@/lib/mail/digest'
+
+export async function POST(request: NextRequest) {
+  if (!isCronRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    return NextResponse.json(await queueWeeklyDigests())
+  } catch (error) {
+    console.error('Error queueing weekly digests:', error)
+    return NextResponse.json({ error: 'Failed to queue digests' }, { status: 500 })
+  }
+}
@@ -0,0 +1,17 @@
+// src/app/api/mail/process/route.ts - Deliver queued email (scheduled, every few minutes)
+import { NextRequest, NextResponse } from 'next/server'
+import { isCronRequest } from '@/lib/cron'
+import { processMailOutbox } from '@/lib/mail'
+
+export async function POST(request: NextRequest) {
+  if (!isCronRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    return NextResponse.json(await processMailOutbox())
+  } catch (error) {
+    console.error('Error processing mail outbox:', error)
+    return NextResponse.json({ error: 'Failed to process mail' }, { status: 500 })
+  }
+}
@@ -0,0 +1,32 @@
+// src/app/api/mail/unsubscribe/route.ts - Turn off an email category from a signed link
+// Mail apps POST here directly (List-Unsubscribe-Post); the /unsubscribe page
+// posts the same token after the user confirms.
+import { NextRequest, NextResponse } from 'next/server'
+import { getSupabaseAdmin } from '@/lib/supabase-admin'
+import { readUnsubscribeToken } from '@/lib/mail/unsubscribe'
+
+export async function POST(request: NextRequest) {
+  const body = await request.json().catch(() => null)
+  const token = request.nextUrl.searchParams.get('token') || (typeof body?.token === 'string' ? body.token : '')
+
+  const unsubscribe = token ? readUnsubscribeToken(token) : null
+  if (!unsubscribe) {
+    return NextResponse.json({ error: 'This unsubscribe link is not valid' }, { status: 400 })
+  }
+
+  const { error } = await getSupabaseAdmin()
+    .from('email_preferences')
+    .upsert({
+      user_id: unsubscribe.userId,
+      category: unsubscribe.category,
+      enabled: false,
+      updated_at: new Date().toISOString()
+    })
+
+  if (error) {
+    console.error('Error saving unsubscribe:', error)
+    return NextResponse.json({ error: 'Failed to unsubscribe' }, { status: 500 })
+  }
+
+  return NextResponse.json({ category: unsubscribe.category })
+}
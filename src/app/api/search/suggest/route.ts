@@ -0,0 +1,36 @@
+// src/app/api/search/suggest/route.ts - Typeahead suggestions for the search boxes
+import { NextRequest, NextResponse } from 'next/server'
+import { searchService } from '@/lib/services/search'
+
+const MAX_LIMIT = 10
+
+export async function GET(request: NextRequest) {
+  const query = request.nextUrl.searchParams.get('q')?.trim() || ''
+  const limit = Math.min(parseInt(request.nextUrl.searchParams.get('limit') || '8') || 8, MAX_LIMIT)
+
+  if (query.length < 2) {
+    return NextResponse.json({ suggestions: [], didYouMean: null })
+  }
+
+  const [suggestionsResult, didYouMeanResult] = await Promise.all([
+    searchService.getSuggestions(query, limit),
+    searchService.getDidYouMean(query)
+  ])
+
+  if (suggestionsResult.error) {
+    return NextResponse.json({ error: 'Failed to load suggestions' }, { status: 500 })
+  }
+
+  return NextResponse.json(
+    {
+      suggestions: suggestionsResult.data || [],
+      didYouMean: didYouMeanResult.data
+    },
+    {
+      headers: {
+        // Listings change rarely; let the CDN absorb repeated keystrokes
+        'Cache-Control': 'public, s-maxage=60, stale-while-revalidate=300'
+      }
+    }
+  )
+}
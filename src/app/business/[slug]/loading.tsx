@@ -0,0 +1,36 @@
+// src/app/business/[slug]/loading.tsx
+import { MobileHeader } from '@/components/mobile/mobile-header'
+import { Card, CardContent } from '@/components/ui/card'
+
+export default function BusinessDetailLoading() {
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <MobileHeader title="Loading..." showBackButton />
+      <div className="px-4 py-6">
+        <BusinessDetailSkeleton />
+      </div>
+    </div>
+  )
+}
+
+// Loading Skeleton Component
+function BusinessDetailSkeleton() {
+  return (
+    <div className="space-y-6">
+      {Array.from({ length: 4 }).map((_, i) => (
+        <Card key={i}>
+          <CardContent className="p-6">
+            <div className="animate-pulse">
+              <div className="h-4 bg-gray-200 rounded w-3/4 mb-2"></div>
+              <div className="h-3 bg-gray-200 rounded w-1/2 mb-4"></div>
+              <div className="space-y-2">
+                <div className="h-3 bg-gray-200 rounded"></div>
+                <div className="h-3 bg-gray-200 rounded w-2/3"></div>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,29 @@
+// src/app/business/[slug]/not-found.tsx
+import Link from 'next/link'
+import { MobileHeader } from '@/components/mobile/mobile-header'
+import { Card, CardContent } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+
+export default function BusinessNotFound() {
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <MobileHeader title="Business Not Found" showBackButton />
+      <div className="px-4 py-6">
+        <Card>
+          <CardContent className="p-8 text-center">
+            <svg className="w-12 h-12 text-gray-400 mx-auto mb-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 21V5a2 2 0 00-2-2H7a2 2 0 00-2 2v16m14 0h2m-2 0h-5m-9 0H3m2 0h5M9 7h1m-1 4h1m4-4h1m-1 4h1m-5 10v-5a1 1 0 011-1h2a1 1 0 011 1v5m-4 0h4" />
+            </svg>
+            <h2 className="text-xl font-semibold text-gray-900 mb-2">Business Not Found</h2>
+            <p className="text-gray-600 mb-4">
+              This business may have been removed or the link is incorrect.
+            </p>
+            <Link href="/">
+              <Button>Back to Home</Button>
+            </Link>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
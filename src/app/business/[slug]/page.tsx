@@ -1,15 +1,22 @@
 // src/app/business/[slug]/page.tsx
-'use client'
-
-import { useState, useEffect, use } from 'react'
-import { useRouter } from 'next/navigation'
+import { cache } from 'react'
+import type { Metadata } from 'next'
+import Link from 'next/link'
 import { notFound } from 'next/navigation'
 import { businessService, type Business } from '@/lib/database'
+import { formatAttributeValue } from '@/lib/services/category-attributes'
+import { APP_CONSTANTS, formatBusinessHours, getLandmarkPath } from '@/lib/utils'
 import { MobileHeader } from '@/components/mobile/mobile-header'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
-import { Button } from '@/components/ui/button'
+import { ContactActions } from '@/components/business/contact-actions'
+import { LocationSection } from '@/components/business/location-section'
+import { OpenStatusBadge } from '@/components/business/open-status-badge'
+import { BusinessPhotoCarousel } from '@/components/business/business-photo-carousel'
 import BusinessReviews from '@/components/reviews/business-reviews'
+import { ReportButton } from '@/components/reports/report-button'
+import { ClaimBusiness } from '@/components/business/claim-business'
+import { BusinessViewTracker, TrackedLink } from '@/components/business/business-activity-tracker'
 
 interface BusinessDetailPageProps {
   params: Promise<{
@@ -17,88 +24,66 @@ interface BusinessDetailPageProps {
   }>
 }
 
-export default function BusinessDetailPage({ params }: BusinessDetailPageProps) {
-  const resolvedParams = use(params)
-  const [business, setBusiness] = useState<Business | null>(null)
-  const [loading, setLoading] = useState(true)
-  const [error, setError] = useState<string | null>(null)
-  const router = useRouter()
-
-  useEffect(() => {
-    fetchBusiness()
-  }, [resolvedParams.slug])
-
-  const fetchBusiness = async () => {
-    try {
-      setLoading(true)
-      setError(null)
-
-      // Get all published businesses and find by slug
-      const { data: businesses, error: fetchError } = await businessService.getBusinesses({
-        status: 'published',
-        limit: 1000 // Get all to find by slug
-      })
-
-      if (fetchError) {
-        throw new Error('Failed to load business')
-      }
-
-      const foundBusiness = businesses?.find(b => b.slug === resolvedParams.slug)
-      
-      if (!foundBusiness) {
-        notFound()
-        return
-      }
-
-      setBusiness(foundBusiness)
-    } catch (err) {
-      console.error('Error fetching business:', err)
-      setError('Failed to load business details')
-    } finally {
-      setLoading(false)
-    }
+// Shared between generateMetadata and the page so the lookup runs once per request
+const getBusiness = cache(async (slug: string) => {
+  const { data } = await businessService.getBusinessBySlug(slug)
+  return data
+})
+
+export async function generateMetadata({ params }: BusinessDetailPageProps): Promise<Metadata> {
+  const { slug } = await params
+  const business = await getBusiness(slug)
+
+  if (!business) {
+    return { title: 'Business Not Found - Chittor Darpan' }
   }
 
-  if (loading) {
-    return (
-      <div className="min-h-screen bg-gray-50">
-        <MobileHeader title="Loading..." showBackButton />
-        <div className="px-4 py-6">
-          <BusinessDetailSkeleton />
-        </div>
-      </div>
-    )
+  const location = business.area_name ? `${business.area_name}, ${business.city_name}` : business.city_name
+  const title = business.meta_title || `${business.name} - ${location} | Chittor Darpan`
+  const description = business.meta_description ||
+    business.description?.slice(0, 160) ||
+    `${business.name} in ${location}. Find contact details, address, hours and reviews on Chittor Darpan.`
+  const url = `${APP_CONSTANTS.SITE_URL}/business/${business.slug}`
+
+  return {
+    title,
+    description,
+    alternates: { canonical: url },
+    openGraph: {
+      type: 'website',
+      url,
+      siteName: 'Chittor Darpan',
+      title,
+      description,
+      images: [business.cover_url || business.logo_url || `${APP_CONSTANTS.SITE_URL}/og-image.jpg`]
+    },
+    twitter: {
+      card: 'summary_large_image',
+      title,
+      description
+    }
   }
+}
 
-  if (error || !business) {
-    return (
-      <div className="min-h-screen bg-gray-50">
-        <MobileHeader title="Business Not Found" showBackButton />
-        <div className="px-4 py-6">
-          <Card>
-            <CardContent className="p-8 text-center">
-              <svg className="w-12 h-12 text-gray-400 mx-auto mb-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 21V5a2 2 0 00-2-2H7a2 2 0 00-2 2v16m14 0h2m-2 0h-5m-9 0H3m2 0h5M9 7h1m-1 4h1m4-4h1m-1 4h1m-5 10v-5a1 1 0 011-1h2a1 1 0 011 1v5m-4 0h4" />
-              </svg>
-              <h2 className="text-xl font-semibold text-gray-900 mb-2">Business Not Found</h2>
-              <p className="text-gray-600 mb-4">
-                This business may have been removed or the link is incorrect.
-              </p>
-              <Button onClick={() => router.push('/')}>
-                Back to Home
-              </Button>
-            </CardContent>
-          </Card>
-        </div>
-      </div>
-    )
+export default async function BusinessDetailPage({ params }: BusinessDetailPageProps) {
+  const { slug } = await params
+  const business = await getBusiness(slug)
+
+  if (!business) {
+    notFound()
   }
 
   return (
     <div className="min-h-screen bg-gray-50">
       <MobileHeader title={business.name} showBackButton />
-      
+      <BusinessViewTracker businessId={business.id} />
+
       <div className="px-4 py-6 space-y-6">
+        {/* Photos */}
+        {business.photos && business.photos.length > 0 && (
+          <BusinessPhotoCarousel photos={business.photos} businessName={business.name} />
+        )}
+
         {/* Business Header */}
         <BusinessHeader business={business} />
 
@@ -108,6 +93,9 @@ export default function BusinessDetailPage({ params }: BusinessDetailPageProps)
         {/* Business Details */}
         <BusinessDetails business={business} />
 
+        {/* Category Attributes */}
+        <BusinessAttributes business={business} />
+
         {/* Business Hours */}
         <BusinessHours business={business} />
 
@@ -117,12 +105,15 @@ export default function BusinessDetailPage({ params }: BusinessDetailPageProps)
         {/* Additional Info */}
         <AdditionalInfo business={business} />
 
-         {/* Reviews Section - ADD HERE */}
-      <BusinessReviews 
-        businessId={business.id}
-        businessName={business.name}
-        showAddReview={true}
-      />
+        {/* Claim Listing */}
+        <ClaimBusiness business={business} />
+
+        {/* Reviews Section */}
+        <BusinessReviews 
+          businessId={business.id}
+          businessName={business.name}
+          showAddReview={true}
+        />
       </div>
     </div>
   )
@@ -137,9 +128,18 @@ function BusinessHeader({ business }: { business: Business }) {
           {/* Business Name & Status */}
           <div>
             <div className="flex items-start justify-between gap-4 mb-2">
-              <h1 className="text-2xl font-bold text-gray-900 leading-tight">
-                {business.name}
-              </h1>
+              <div className="flex items-center gap-3 min-w-0">
+                {business.logo_url && (
+                  <img
+                    src={business.logo_url}
+                    alt={`${business.name} logo`}
+                    className="w-12 h-12 rounded-lg object-cover border border-gray-200 flex-shrink-0"
+                  />
+                )}
+                <h1 className="text-2xl font-bold text-gray-900 leading-tight">
+                  {business.name}
+                </h1>
+              </div>
               <div className="flex gap-2">
                 {business.is_verified && (
                   <Badge className="bg-blue-100 text-blue-800">
@@ -169,6 +169,17 @@ function BusinessHeader({ business }: { business: Business }) {
             </div>
           </div>
 
+          {/* Categories */}
+          {business.categories && business.categories.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {business.categories.map(category => (
+                <Link key={category.id} href={`/category/${category.slug}`}>
+                  <Badge variant="secondary">{category.name}</Badge>
+                </Link>
+              ))}
+            </div>
+          )}
+
           {/* Description */}
           {business.description && (
             <div>
@@ -178,6 +189,15 @@ function BusinessHeader({ business }: { business: Business }) {
 
           {/* Business Stats */}
           <div className="flex items-center gap-4 text-sm text-gray-600">
+            {business.review_stats && business.review_stats.totalReviews > 0 && (
+              <div className="flex items-center gap-1">
+                <svg className="w-4 h-4 text-yellow-400" fill="currentColor" viewBox="0 0 24 24">
+                  <path d="M12 2l3.09 6.26L22 9.27l-5 4.87 1.18 6.88L12 17.77l-6.18 3.25L7 14.14 2 9.27l6.91-1.01L12 2z" />
+                </svg>
+                <span className="font-medium text-gray-900">{business.review_stats.averageRating.toFixed(1)}</span>
+                <span>({business.review_stats.totalReviews} review{business.review_stats.totalReviews !== 1 ? 's' : ''})</span>
+              </div>
+            )}
             {business.established_year && (
               <div className="flex items-center gap-1">
                 <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -201,126 +221,6 @@ function BusinessHeader({ business }: { business: Business }) {
   )
 }
 
-// Contact Actions Component
-function ContactActions({ business }: { business: Business }) {
-  const handleCall = (phone: string) => {
-    window.location.href = `tel:${phone}`
-  }
-
-  const handleWhatsApp = (whatsapp: string) => {
-    const message = encodeURIComponent(`Hi! I found your business "${business.name}" on Chittor Darpan. I'd like to know more about your services.`)
-    window.open(`https://wa.me/${whatsapp}?text=${message}`, '_blank')
-  }
-
-  const handleWebsite = (website: string) => {
-    if (!website.startsWith('http')) {
-      website = `https://${website}`
-    }
-    window.open(website, '_blank')
-  }
-
-  const handleEmail = (email: string) => {
-    const subject = encodeURIComponent(`Inquiry about ${business.name}`)
-    const body = encodeURIComponent(`Hi,\n\nI found your business "${business.name}" on Chittor Darpan and would like to know more about your services.\n\nThanks!`)
-    window.location.href = `mailto:${email}?subject=${subject}&body=${body}`
-  }
-
-  const contactMethods = []
-
-  if (business.phone && business.phone.length > 0) {
-    contactMethods.push({
-      type: 'call',
-      label: 'Call Now',
-      value: business.phone[0],
-      icon: (
-        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 5a2 2 0 012-2h3.28a1 1 0 01.948.684l1.498 4.493a1 1 0 01-.502 1.21l-2.257 1.13a11.042 11.042 0 005.516 5.516l1.13-2.257a1 1 0 011.21-.502l4.493 1.498a1 1 0 01.684.949V19a2 2 0 01-2 2h-1C9.716 21 3 14.284 3 6V5z" />
-        </svg>
-      ),
-      action: () => handleCall(business.phone![0])
-    })
-  }
-
-  if (business.whatsapp) {
-    contactMethods.push({
-      type: 'whatsapp',
-      label: 'WhatsApp',
-      value: business.whatsapp,
-      icon: (
-        <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 24 24">
-          <path d="M17.472 14.382c-.297-.149-1.758-.867-2.03-.967-.273-.099-.471-.148-.67.15-.197.297-.767.966-.94 1.164-.173.199-.347.223-.644.075-.297-.15-1.255-.463-2.39-1.475-.883-.788-1.48-1.761-1.653-2.059-.173-.297-.018-.458.13-.606.134-.133.298-.347.446-.52.149-.174.198-.298.298-.497.099-.198.05-.371-.025-.52-.075-.149-.669-1.612-.916-2.207-.242-.579-.487-.5-.669-.51-.173-.008-.371-.01-.57-.01-.198 0-.52.074-.792.372-.272.297-1.04 1.016-1.04 2.479 0 1.462 1.065 2.875 1.213 3.074.149.198 2.096 3.2 5.077 4.487.709.306 1.262.489 1.694.625.712.227 1.36.195 1.871.118.571-.085 1.758-.719 2.006-1.413.248-.694.248-1.289.173-1.413-.074-.124-.272-.198-.57-.347m-5.421 7.403h-.004a9.87 9.87 0 01-5.031-1.378l-.361-.214-3.741.982.998-3.648-.235-.374a9.86 9.86 0 01-1.51-5.26c.001-5.45 4.436-9.884 9.888-9.884 2.64 0 5.122 1.03 6.988 2.898a9.825 9.825 0 012.893 6.994c-.003 5.45-4.437 9.884-9.885 9.884m8.413-18.297A11.815 11.815 0 0012.05 0C5.495 0 .16 5.335.157 11.892c0 2.096.547 4.142 1.588 5.945L.057 24l6.305-1.654a11.882 11.882 0 005.683 1.448h.005c6.554 0 11.89-5.335 11.893-11.893A11.821 11.821 0 0020.885 3.488"/>
-        </svg>
-      ),
-      action: () => handleWhatsApp(business.whatsapp!)
-    })
-  }
-
-  if (business.email) {
-    contactMethods.push({
-      type: 'email',
-      label: 'Email',
-      value: business.email,
-      icon: (
-        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 8l7.89 4.26a2 2 0 002.22 0L21 8M5 19h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v10a2 2 0 002 2z" />
-        </svg>
-      ),
-      action: () => handleEmail(business.email!)
-    })
-  }
-
-  if (business.website) {
-    contactMethods.push({
-      type: 'website',
-      label: 'Website',
-      value: business.website,
-      icon: (
-        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 12a9 9 0 01-9 9m9-9a9 9 0 00-9-9m9 9H3m9 9v-9m0-9v9m0 9c-5 0-9-4-9-9s4-9 9-9" />
-        </svg>
-      ),
-      action: () => handleWebsite(business.website!)
-    })
-  }
-
-  if (contactMethods.length === 0) {
-    return null
-  }
-
-  return (
-    <Card>
-      <CardHeader>
-        <CardTitle className="text-lg">Contact {business.name}</CardTitle>
-      </CardHeader>
-      <CardContent className="p-4">
-        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
-          {contactMethods.map((method, index) => (
-            <Button
-              key={index}
-              onClick={method.action}
-              className={`h-auto p-4 justify-start gap-3 ${
-                method.type === 'call' ? 'bg-green-600 hover:bg-green-700 text-white' :
-                method.type === 'whatsapp' ? 'bg-green-500 hover:bg-green-600 text-white' :
-                method.type === 'email' ? 'bg-blue-600 hover:bg-blue-700 text-white' :
-                'bg-gray-100 hover:bg-gray-200 text-gray-900'
-              }`}
-              fullWidth
-            >
-              {method.icon}
-              <div className="text-left">
-                <div className="font-medium">{method.label}</div>
-                <div className="text-sm opacity-90 truncate">{method.value}</div>
-              </div>
-            </Button>
-          ))}
-        </div>
-      </CardContent>
-    </Card>
-  )
-}
-
-
-
 // Business Details Component
 function BusinessDetails({ business }: { business: Business }) {
   return (
@@ -341,6 +241,14 @@ function BusinessDetails({ business }: { business: Business }) {
             <p className="text-gray-600 text-sm">
               {business.area_name ? `${business.area_name}, ` : ''}{business.city_name}
             </p>
+            {business.landmark_name && business.landmark_slug && business.city_slug && (
+              <p className="text-gray-600 text-sm">
+                Near{' '}
+                <Link href={getLandmarkPath(business.city_slug, business.landmark_slug)} className="text-gray-900 underline underline-offset-2 hover:text-black">
+                  {business.landmark_name}
+                </Link>
+              </p>
+            )}
           </div>
         </div>
 
@@ -355,9 +263,9 @@ function BusinessDetails({ business }: { business: Business }) {
               <div className="space-y-1">
                 {business.phone.map((phone, index) => (
                   <p key={index} className="text-gray-700">
-                    <a href={`tel:${phone}`} className="hover:text-blue-600 transition-colors">
+                    <TrackedLink href={`tel:${phone}`} businessId={business.id} event="call_tap" className="hover:text-blue-600 transition-colors">
                       {phone}
-                    </a>
+                    </TrackedLink>
                   </p>
                 ))}
               </div>
@@ -374,9 +282,9 @@ function BusinessDetails({ business }: { business: Business }) {
             <div>
               <h4 className="font-medium text-gray-900 mb-1">Email</h4>
               <p className="text-gray-700">
-                <a href={`mailto:${business.email}`} className="hover:text-blue-600 transition-colors break-all">
+                <TrackedLink href={`mailto:${business.email}`} businessId={business.id} event="email_tap" className="hover:text-blue-600 transition-colors break-all">
                   {business.email}
-                </a>
+                </TrackedLink>
               </p>
             </div>
           </div>
@@ -391,14 +299,16 @@ function BusinessDetails({ business }: { business: Business }) {
             <div>
               <h4 className="font-medium text-gray-900 mb-1">Website</h4>
               <p className="text-gray-700">
-                <a 
+                <TrackedLink
                   href={business.website.startsWith('http') ? business.website : `https://${business.website}`}
+                  businessId={business.id}
+                  event="website_click"
                   target="_blank"
                   rel="noopener noreferrer"
                   className="hover:text-blue-600 transition-colors break-all"
                 >
                   {business.website}
-                </a>
+                </TrackedLink>
               </p>
             </div>
           </div>
@@ -408,58 +318,97 @@ function BusinessDetails({ business }: { business: Business }) {
   )
 }
 
-// Business Hours Component (placeholder - will need business_hours table data)
+// Business Hours Component
 function BusinessHours({ business }: { business: Business }) {
-  // TODO: Fetch real business hours from business_hours table
-  // For now, show placeholder
+  const hours = business.hours || []
+  const overrides = business.hour_overrides || []
+
+  if (hours.length === 0) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Business Hours</CardTitle>
+        </CardHeader>
+        <CardContent className="p-4">
+          <div className="text-center py-6 text-gray-500">
+            <svg className="w-8 h-8 mx-auto mb-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+            </svg>
+            <p className="text-sm">Business hours not available</p>
+            <p className="text-xs">Contact the business for operating hours</p>
+          </div>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  // Monday-first, the way shop boards are written
+  const weekly = formatBusinessHours(hours)
+  const mondayFirst = [...weekly.slice(1), weekly[0]]
+
   return (
     <Card>
       <CardHeader>
         <CardTitle className="text-lg">Business Hours</CardTitle>
       </CardHeader>
-      <CardContent className="p-4">
-        <div className="text-center py-6 text-gray-500">
-          <svg className="w-8 h-8 mx-auto mb-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
-          </svg>
-          <p className="text-sm">Business hours not available</p>
-          <p className="text-xs">Contact the business for operating hours</p>
+      <CardContent className="p-4 space-y-4">
+        <OpenStatusBadge hours={hours} overrides={overrides} />
+
+        <div className="space-y-2 text-sm">
+          {mondayFirst.map(line => {
+            const [day, ...rest] = line.split(': ')
+            return (
+              <div key={day} className="flex justify-between gap-4">
+                <span className="text-gray-600">{day}</span>
+                <span className="font-medium text-gray-900 text-right">{rest.join(': ')}</span>
+              </div>
+            )
+          })}
         </div>
+
+        {overrides.length > 0 && (
+          <div className="border-t border-gray-100 pt-3 space-y-2 text-sm">
+            <h4 className="font-medium text-gray-900">Special hours</h4>
+            {overrides.map(override => (
+              <div key={override.id} className="flex justify-between gap-4">
+                <span className="text-gray-600">
+                  {new Date(`${override.override_date}T00:00:00`).toLocaleDateString('en-IN', { day: 'numeric', month: 'short' })}
+                  {override.note ? ` · ${override.note}` : ''}
+                </span>
+                <span className="font-medium text-gray-900 text-right">
+                  {override.is_closed
+                    ? 'Closed'
+                    : formatBusinessHours([{ ...override, day_of_week: 0 }])[0].replace('Sunday: ', '')}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
       </CardContent>
     </Card>
   )
 }
 
-// Location Section Component
-function LocationSection({ business }: { business: Business }) {
-  const handleDirections = () => {
-    const query = encodeURIComponent(`${business.address}, ${business.city_name}`)
-    window.open(`https://www.google.com/maps/search/?api=1&query=${query}`, '_blank')
+// Category Attributes Component
+function BusinessAttributes({ business }: { business: Business }) {
+  if (!business.attributes || business.attributes.length === 0) {
+    return null
   }
 
   return (
     <Card>
       <CardHeader>
-        <CardTitle className="text-lg">Location & Directions</CardTitle>
+        <CardTitle className="text-lg">Features</CardTitle>
       </CardHeader>
-      <CardContent className="p-4 space-y-4">
-        <div>
-          <p className="font-medium text-gray-900 mb-1">{business.address}</p>
-          <p className="text-gray-600">
-            {business.area_name ? `${business.area_name}, ` : ''}{business.city_name}
-          </p>
+      <CardContent className="p-4">
+        <div className="grid grid-cols-1 gap-3 text-sm">
+          {business.attributes.map(({ attribute, value }) => (
+            <div key={attribute.id} className="flex justify-between gap-4">
+              <span className="text-gray-600">{attribute.label}</span>
+              <span className="font-medium text-right">{formatAttributeValue(attribute, value)}</span>
+            </div>
+          ))}
         </div>
-        
-        <Button
-          onClick={handleDirections}
-          variant="outline"
-          className="w-full justify-center gap-2"
-        >
-          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 20l-5.447-2.724A1 1 0 013 16.382V5.618a1 1 0 011.447-.894L9 7m0 13l6-3m-6 3V7m6 10l4.553 2.276A1 1 0 0021 18.382V7.618a1 1 0 00-.553-.894L15 4m0 13V4m0 0L9 7" />
-          </svg>
-          Get Directions
-        </Button>
       </CardContent>
     </Card>
   )
@@ -513,29 +462,9 @@ function AdditionalInfo({ business }: { business: Business }) {
             </div>
           )}
         </div>
+
+        <ReportButton entityType="business" entityId={business.id} label="Report this listing" className="pt-2 border-t border-gray-100" />
       </CardContent>
     </Card>
   )
 }
-
-// Loading Skeleton Component
-function BusinessDetailSkeleton() {
-  return (
-    <div className="space-y-6">
-      {Array.from({ length: 4 }).map((_, i) => (
-        <Card key={i}>
-          <CardContent className="p-6">
-            <div className="animate-pulse">
-              <div className="h-4 bg-gray-200 rounded w-3/4 mb-2"></div>
-              <div className="h-3 bg-gray-200 rounded w-1/2 mb-4"></div>
-              <div className="space-y-2">
-                <div className="h-3 bg-gray-200 rounded"></div>
-                <div className="h-3 bg-gray-200 rounded w-2/3"></div>
-              </div>
-            </div>
-          </CardContent>
-        </Card>
-      ))}
-    </div>
-  )
-}
\ No newline at end of file
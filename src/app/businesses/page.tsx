@@ -1,13 +1,28 @@
 // src/app/businesses/page.tsx
 'use client'
 
-import { useState, useEffect, Suspense } from 'react'
+import { useState, useEffect, useRef, Suspense } from 'react'
 import { useRouter, useSearchParams } from 'next/navigation'
-import { businessService, categoryService, locationService, type Business, type Category, type City } from '@/lib/database'
+import {
+  businessService,
+  categoryService,
+  locationService,
+  type Business,
+  type BusinessFilters as BusinessQueryFilters,
+  type Category,
+  type City,
+  type MapBounds
+} from '@/lib/database'
+import { toMapMarkers, type MapMarker } from '@/lib/map'
 import { MobileHeader } from '@/components/mobile/mobile-header'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
+import { OpenStatusBadge } from '@/components/business/open-status-badge'
+import { NearLandmark } from '@/components/business/near-landmark'
+import { ListingMap } from '@/components/map/listing-map'
+import { MapListToggle, type ListingView } from '@/components/map/map-list-toggle'
+import { BusinessThumbnail } from '@/components/business/business-thumbnail'
 import Head from 'next/head'
 
 interface BusinessFilters {
@@ -16,7 +31,9 @@ interface BusinessFilters {
   city: string
   verified: boolean
   featured: boolean
+  openNow: boolean
   sortBy: 'newest' | 'name' | 'verified'
+  view: ListingView
 }
 
 interface BusinessResults {
@@ -26,6 +43,42 @@ interface BusinessResults {
   totalPages: number
 }
 
+interface MapResults {
+  markers: MapMarker[]
+  loading: boolean
+  onBoundsChange: (bounds: MapBounds) => void
+}
+
+// Most pins the map loads for one view; zooming in narrows the area
+const MAP_LISTING_LIMIT = 500
+
+const toQueryFilters = (filters: Omit<BusinessFilters, 'view'>): BusinessQueryFilters => {
+  const queryFilters: BusinessQueryFilters = {
+    status: 'published',
+    verified: filters.verified,
+    featured: filters.featured,
+    sortBy: filters.sortBy
+  }
+
+  if (filters.search.trim()) {
+    queryFilters.search = filters.search.trim()
+  }
+
+  if (filters.category !== 'all') {
+    queryFilters.categorySlug = filters.category
+  }
+
+  if (filters.city !== 'all') {
+    queryFilters.cityId = filters.city
+  }
+
+  if (filters.openNow) {
+    queryFilters.openNow = true
+  }
+
+  return queryFilters
+}
+
 // Main content component that uses useSearchParams
 function BusinessesPageContent() {
   const [results, setResults] = useState<BusinessResults>({
@@ -40,8 +93,14 @@ function BusinessesPageContent() {
     city: 'all',
     verified: false,
     featured: false,
-    sortBy: 'newest'
+    openNow: false,
+    sortBy: 'newest',
+    view: 'list'
   })
+  const [mapMarkers, setMapMarkers] = useState<MapMarker[]>([])
+  const [mapLoading, setMapLoading] = useState(false)
+  const mapBoundsRef = useRef<MapBounds | null>(null)
+  const mapRequestRef = useRef(0)
   const [categories, setCategories] = useState<Category[]>([])
   const [cities, setCities] = useState<City[]>([])
   const [loading, setLoading] = useState(true)
@@ -59,18 +118,28 @@ function BusinessesPageContent() {
     const page = parseInt(searchParams.get('page') || '1')
     const verified = searchParams.get('verified') === 'true'
     const featured = searchParams.get('featured') === 'true'
+    const openNow = searchParams.get('open') === 'true'
     const sortBy = (searchParams.get('sort') as BusinessFilters['sortBy']) || 'newest'
+    const view: ListingView = searchParams.get('view') === 'map' ? 'map' : 'list'
 
-    setFilters({
+    const urlFilters = {
       search,
       category,
       city,
       verified,
       featured,
-      sortBy
-    })
+      openNow,
+      sortBy,
+      view
+    }
+    setFilters(urlFilters)
 
-    loadBusinessesData(search, category, city, page, verified, featured, sortBy)
+    // The map reports its bounds when it mounts; after that, refetch the visible area here
+    if (view === 'map' && mapBoundsRef.current) {
+      loadMapBusinesses(urlFilters, mapBoundsRef.current)
+    }
+
+    loadBusinessesData(search, category, city, page, verified, featured, openNow, sortBy)
   }, [searchParams])
 
   const loadBusinessesData = async (
@@ -80,6 +149,7 @@ function BusinessesPageContent() {
     page: number,
     verified: boolean,
     featured: boolean,
+    openNow: boolean,
     sortBy: BusinessFilters['sortBy']
   ) => {
     try {
@@ -96,7 +166,7 @@ function BusinessesPageContent() {
       if (citiesResult.data) setCities(citiesResult.data)
 
       // Load businesses
-      await loadBusinesses(search, category, city, page, verified, featured, sortBy)
+      await loadBusinesses(search, category, city, page, verified, featured, openNow, sortBy)
 
     } catch (err) {
       console.error('Error loading businesses page:', err)
@@ -113,60 +183,29 @@ function BusinessesPageContent() {
     page: number,
     verified: boolean,
     featured: boolean,
+    openNow: boolean,
     sortBy: BusinessFilters['sortBy']
   ) => {
     try {
       // Build filters
-      const businessFilters: any = {
-        status: 'published',
-        limit: 1000 // Get all, then sort and paginate client-side
+      const businessFilters: BusinessQueryFilters = {
+        ...toQueryFilters({ search, category, city, verified, featured, openNow, sortBy }),
+        limit: ITEMS_PER_PAGE,
+        page
       }
 
-      if (search.trim()) {
-        businessFilters.search = search.trim()
-      }
-
-      if (category !== 'all') {
-        businessFilters.categorySlug = category
-      }
-
-      if (city !== 'all') {
-        businessFilters.cityId = city
-      }
-
-      // Get businesses
-      let { data: businesses, error: fetchError } = await businessService.getBusinesses(businessFilters)
+      // Get one page of businesses
+      const { data: businesses, totalCount, error: fetchError } = await businessService.getBusinesses(businessFilters)
 
       if (fetchError) {
         throw new Error('Failed to load businesses')
       }
 
-      businesses = businesses || []
-
-      // Apply additional filters
-      if (verified) {
-        businesses = businesses.filter(b => b.is_verified)
-      }
-
-      if (featured) {
-        businesses = businesses.filter(b => b.is_featured)
-      }
-
-      // Apply sorting
-      businesses = sortBusinesses(businesses, sortBy)
-
-      // Calculate pagination
-      const totalCount = businesses.length
-      const totalPages = Math.ceil(totalCount / ITEMS_PER_PAGE)
-      const startIndex = (page - 1) * ITEMS_PER_PAGE
-      const endIndex = startIndex + ITEMS_PER_PAGE
-      const paginatedBusinesses = businesses.slice(startIndex, endIndex)
-
       setResults({
-        businesses: paginatedBusinesses,
+        businesses: businesses || [],
         totalCount,
         currentPage: page,
-        totalPages
+        totalPages: Math.ceil(totalCount / ITEMS_PER_PAGE)
       })
 
     } catch (err) {
@@ -175,24 +214,42 @@ function BusinessesPageContent() {
     }
   }
 
-  const sortBusinesses = (businesses: Business[], sortBy: BusinessFilters['sortBy']) => {
-    switch (sortBy) {
-      case 'name':
-        return [...businesses].sort((a, b) => a.name.localeCompare(b.name))
-      case 'verified':
-        return [...businesses].sort((a, b) => {
-          if (a.is_verified && !b.is_verified) return -1
-          if (!a.is_verified && b.is_verified) return 1
-          return new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
-        })
-      case 'newest':
-      default:
-        return [...businesses].sort((a, b) => 
-          new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
-        )
+  const loadMapBusinesses = async (mapFilters: BusinessFilters, bounds: MapBounds) => {
+    // Panning fires several requests; only the latest one may update the map
+    const requestId = ++mapRequestRef.current
+
+    try {
+      setMapLoading(true)
+
+      const { data: businesses, error: fetchError } = await businessService.getBusinesses({
+        ...toQueryFilters(mapFilters),
+        bounds,
+        limit: MAP_LISTING_LIMIT
+      })
+
+      if (requestId !== mapRequestRef.current) return
+
+      if (fetchError) {
+        throw new Error('Failed to load map')
+      }
+
+      setMapMarkers(toMapMarkers(businesses || [], business => ({
+        subtitle: business.address,
+        url: `/business/${business.slug}`
+      })))
+
+    } catch (err) {
+      console.error('Error loading businesses map:', err)
+    } finally {
+      if (requestId === mapRequestRef.current) setMapLoading(false)
     }
   }
 
+  const handleMapBoundsChange = (bounds: MapBounds) => {
+    mapBoundsRef.current = bounds
+    loadMapBusinesses(filters, bounds)
+  }
+
   const updateURL = (newFilters: Partial<BusinessFilters>, page: number = 1) => {
     const params = new URLSearchParams()
     
@@ -201,7 +258,9 @@ function BusinessesPageContent() {
     if (newFilters.city && newFilters.city !== 'all') params.set('city', newFilters.city)
     if (newFilters.verified) params.set('verified', 'true')
     if (newFilters.featured) params.set('featured', 'true')
+    if (newFilters.openNow) params.set('open', 'true')
     if (newFilters.sortBy && newFilters.sortBy !== 'newest') params.set('sort', newFilters.sortBy)
+    if (newFilters.view === 'map') params.set('view', 'map')
     if (page > 1) params.set('page', page.toString())
 
     const newURL = `/businesses${params.toString() ? `?${params.toString()}` : ''}`
@@ -265,6 +324,7 @@ function BusinessesPageContent() {
             onFilterChange={handleFilterChange}
             onPageChange={handlePageChange}
             onBusinessClick={(business) => router.push(`/business/${business.slug}`)}
+            map={{ markers: mapMarkers, loading: mapLoading, onBoundsChange: handleMapBoundsChange }}
           />
         </div>
       </div>
@@ -281,6 +341,7 @@ function BusinessesPageContent() {
           onFilterChange={handleFilterChange}
           onPageChange={handlePageChange}
           onBusinessClick={(business) => router.push(`/business/${business.slug}`)}
+          map={{ markers: mapMarkers, loading: mapLoading, onBoundsChange: handleMapBoundsChange }}
         />
       </div>
     </>
@@ -314,6 +375,7 @@ interface BusinessesContentProps {
   onFilterChange: (filters: Partial<BusinessFilters>) => void
   onPageChange: (page: number) => void
   onBusinessClick: (business: Business) => void
+  map: MapResults
 }
 
 function MobileBusinessesContent({
@@ -325,7 +387,8 @@ function MobileBusinessesContent({
   error,
   onFilterChange,
   onPageChange,
-  onBusinessClick
+  onBusinessClick,
+  map
 }: BusinessesContentProps) {
   if (error) {
     return (
@@ -347,7 +410,7 @@ function MobileBusinessesContent({
   return (
     <>
       {/* Page Header */}
-      <BusinessesHeader results={results} filters={filters} />
+      <BusinessesHeader results={results} filters={filters} onViewChange={(view) => onFilterChange({ view })} />
 
       {/* Filters & Sort */}
       <MobileBusinessFilters
@@ -358,7 +421,14 @@ function MobileBusinessesContent({
       />
 
       {/* Results */}
-      {loading ? (
+      {filters.view === 'map' ? (
+        <ListingMap
+          markers={map.markers}
+          loading={map.loading}
+          onBoundsChange={map.onBoundsChange}
+          className="h-[60vh]"
+        />
+      ) : loading ? (
         <BusinessesSkeleton />
       ) : results.businesses.length > 0 ? (
         <>
@@ -390,6 +460,7 @@ function MobileBusinessesContent({
             city: 'all',
             verified: false,
             featured: false,
+            openNow: false,
             sortBy: 'newest'
           })} 
         />
@@ -408,7 +479,8 @@ function DesktopBusinessesLayout({
   error,
   onFilterChange,
   onPageChange,
-  onBusinessClick
+  onBusinessClick,
+  map
 }: BusinessesContentProps) {
   return (
     <div className="max-w-7xl mx-auto px-8 py-12">
@@ -498,9 +570,16 @@ function DesktopBusinessesLayout({
             </Card>
           ) : (
             <>
-              <BusinessesHeader results={results} filters={filters} />
+              <BusinessesHeader results={results} filters={filters} onViewChange={(view) => onFilterChange({ view })} />
               
-              {loading ? (
+              {filters.view === 'map' ? (
+                <ListingMap
+                  markers={map.markers}
+                  loading={map.loading}
+                  onBoundsChange={map.onBoundsChange}
+                  className="h-[70vh] mt-6"
+                />
+              ) : loading ? (
                 <div className="grid grid-cols-1 xl:grid-cols-2 gap-6 mt-6">
                   {Array.from({ length: 6 }).map((_, i) => (
                     <BusinessListCardSkeleton key={i} />
@@ -537,6 +616,7 @@ function DesktopBusinessesLayout({
                     city: 'all',
                     verified: false,
                     featured: false,
+                    openNow: false,
                     sortBy: 'newest'
                   })} 
                 />
@@ -550,7 +630,11 @@ function DesktopBusinessesLayout({
 }
 
 // Shared Components (keeping all existing components exactly the same)
-function BusinessesHeader({ results, filters }: { results: BusinessResults; filters: BusinessFilters }) {
+function BusinessesHeader({ results, filters, onViewChange }: {
+  results: BusinessResults
+  filters: BusinessFilters
+  onViewChange: (view: ListingView) => void
+}) {
   const getHeaderText = () => {
     if (filters.search) {
       return `Businesses matching "${filters.search}"`
@@ -571,12 +655,15 @@ function BusinessesHeader({ results, filters }: { results: BusinessResults; filt
             </h2>
             <p className="text-sm lg:text-base text-gray-600">
               {results.totalCount} businesses found
-              {results.totalPages > 1 && ` • Page ${results.currentPage} of ${results.totalPages}`}
+              {filters.view === 'list' && results.totalPages > 1 && ` • Page ${results.currentPage} of ${results.totalPages}`}
             </p>
           </div>
-          <Badge variant="secondary" className="lg:text-sm">
-            {results.totalCount}
-          </Badge>
+          <div className="flex items-center gap-3">
+            <MapListToggle view={filters.view} onChange={onViewChange} />
+            <Badge variant="secondary" className="lg:text-sm">
+              {results.totalCount}
+            </Badge>
+          </div>
         </div>
       </CardContent>
     </Card>
@@ -661,6 +748,16 @@ function MobileBusinessFilters({ filters, categories, cities, onFilterChange }:
             />
             <span className="text-sm text-gray-700">Featured only</span>
           </label>
+
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={filters.openNow}
+              onChange={(e) => onFilterChange({ openNow: e.target.checked })}
+              className="rounded border-gray-300 text-black focus:ring-black"
+            />
+            <span className="text-sm text-gray-700">Open now</span>
+          </label>
         </div>
       </CardContent>
     </Card>
@@ -736,6 +833,16 @@ function DesktopBusinessFilters({ filters, categories, cities, onFilterChange }:
               />
               <span className="text-sm text-gray-700">Featured businesses</span>
             </label>
+
+            <label className="flex items-center gap-3">
+              <input
+                type="checkbox"
+                checked={filters.openNow}
+                onChange={(e) => onFilterChange({ openNow: e.target.checked })}
+                className="rounded border-gray-300 text-black focus:ring-black h-4 w-4"
+              />
+              <span className="text-sm text-gray-700">Open now</span>
+            </label>
           </div>
 
           {/* Clear Filters */}
@@ -745,7 +852,8 @@ function DesktopBusinessFilters({ filters, categories, cities, onFilterChange }:
               category: 'all',
               city: 'all',
               verified: false,
-              featured: false
+              featured: false,
+              openNow: false
             })}
             className="w-full"
           >
@@ -777,8 +885,8 @@ function BusinessListCard({ business, onClick }: {
       <CardContent className="p-4 lg:p-6">
         <div className="flex items-start gap-4">
           {/* Business Avatar */}
-          <div className="w-12 h-12 lg:w-16 lg:h-16 bg-gradient-to-br from-gray-100 to-gray-200 rounded-lg flex items-center justify-center flex-shrink-0 group-hover:from-blue-100 group-hover:to-blue-200 transition-colors">
-            <span className="text-lg lg:text-xl">🏢</span>
+          <div className="w-12 h-12 lg:w-16 lg:h-16 bg-gradient-to-br from-gray-100 to-gray-200 rounded-lg flex items-center justify-center flex-shrink-0 overflow-hidden group-hover:from-blue-100 group-hover:to-blue-200 transition-colors">
+            <BusinessThumbnail business={business} emojiClassName="text-lg lg:text-xl" />
           </div>
           
           {/* Business Info */}
@@ -817,6 +925,12 @@ function BusinessListCard({ business, onClick }: {
                 {business.area_name ? `${business.area_name}, ` : ''}{business.city_name}
               </span>
             </div>
+
+            {/* Landmark */}
+            <NearLandmark business={business} className="mb-2" />
+
+            {/* Open status */}
+            <OpenStatusBadge hours={business.hours} overrides={business.hour_overrides} className="mb-2" />
             
             {/* Description */}
             {business.description && (
@@ -942,7 +1056,7 @@ function BusinessesEmptyState({ filters, onClearFilters }: {
   filters: BusinessFilters
   onClearFilters: () => void
 }) {
-  const hasActiveFilters = filters.search || filters.category !== 'all' || filters.city !== 'all' || filters.verified || filters.featured
+  const hasActiveFilters = filters.search || filters.category !== 'all' || filters.city !== 'all' || filters.verified || filters.featured || filters.openNow
 
   return (
     <Card>
@@ -3,17 +3,22 @@
 
 import { useState, useEffect, Suspense } from 'react'
 import { useRouter, useSearchParams } from 'next/navigation'
-import { categoryService, businessService, type Category } from '@/lib/database'
+import { directoryService, type CategoryStats } from '@/lib/database'
+import { buildCategoryTree } from '@/lib/category-tree'
+import { formatRating } from '@/lib/utils'
 import { MobileHeader } from '@/components/mobile/mobile-header'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
 import Head from 'next/head'
 
-interface CategoryWithCount extends Category {
-  businessCount: number
+interface CategoryWithCount extends CategoryStats {
+  description?: string
+  subcategories?: CategoryStats[]
 }
 
+const MAX_SUBCATEGORY_CHIPS = 4
+
 interface CategoryResults {
   categories: CategoryWithCount[]
   totalCount: number
@@ -50,45 +55,34 @@ function CategoriesPageContent() {
       setLoading(true)
       setError(null)
 
-      // Get all categories
-      const { data: categories, error: categoriesError } = await categoryService.getBusinessCategories()
-      
-      if (categoriesError || !categories) {
+      // Categories and their listing counts in one request
+      const { data: overview, error: overviewError } = await directoryService.getOverview()
+
+      if (overviewError || !overview) {
         throw new Error('Failed to load categories')
       }
 
-      // Get business counts for each category
-      const categoriesWithCounts = await Promise.all(
-        categories.map(async (category) => {
-          try {
-            const { data: businesses } = await businessService.getBusinessesByCategory(category.slug)
-            return {
-              ...category,
-              businessCount: businesses?.length || 0
-            }
-          } catch (err) {
-            console.error(`Error getting count for category ${category.slug}:`, err)
-            return {
-              ...category,
-              businessCount: 0
-            }
-          }
-        })
-      )
+      const categoriesWithCounts: CategoryWithCount[] = overview.categories
 
-      // Filter by search if provided
-      let filteredCategories = categoriesWithCounts
+      // Searching looks through every category; browsing starts from the top
+      // level, with subcategories listed on their parent's card
+      let filteredCategories: CategoryWithCount[]
       if (search.trim()) {
         filteredCategories = categoriesWithCounts.filter(category =>
           category.name.toLowerCase().includes(search.toLowerCase()) ||
           (category.description && category.description.toLowerCase().includes(search.toLowerCase()))
         )
+      } else {
+        filteredCategories = buildCategoryTree(categoriesWithCounts).map(node => ({
+          ...node,
+          subcategories: node.children
+        }))
       }
 
       // Sort by business count (descending) then by name
       filteredCategories.sort((a, b) => {
-        if (b.businessCount !== a.businessCount) {
-          return b.businessCount - a.businessCount
+        if (b.business_count !== a.business_count) {
+          return b.business_count - a.business_count
         }
         return a.name.localeCompare(b.name)
       })
@@ -265,6 +259,7 @@ function MobileCategoriesContent({
                 key={category.id}
                 category={category}
                 onClick={() => onCategoryClick(category)}
+                onSubcategoryClick={onCategoryClick}
                 searchQuery={searchQuery}
               />
             ))}
@@ -376,6 +371,7 @@ function DesktopCategoriesLayout({
                     key={category.id}
                     category={category}
                     onClick={() => onCategoryClick(category)}
+                    onSubcategoryClick={onCategoryClick}
                     searchQuery={searchQuery}
                   />
                 ))}
@@ -428,9 +424,10 @@ function CategoriesHeader({ results, searchQuery }: {
   )
 }
 
-function CategoryMobileCard({ category, onClick, searchQuery }: {
+function CategoryMobileCard({ category, onClick, onSubcategoryClick, searchQuery }: {
   category: CategoryWithCount
   onClick: () => void
+  onSubcategoryClick: (subcategory: CategoryStats) => void
   searchQuery: string
 }) {
   const getCategoryIcon = (categoryName: string) => {
@@ -486,25 +483,31 @@ function CategoryMobileCard({ category, onClick, searchQuery }: {
             {highlightText(category.name, searchQuery)}
           </h3>
           <p className="text-xs text-gray-600 mb-2">
-            {category.businessCount} business{category.businessCount !== 1 ? 'es' : ''}
+            {category.business_count} business{category.business_count !== 1 ? 'es' : ''}
+            {category.average_rating !== null && ` • ★ ${formatRating(category.average_rating)}`}
           </p>
           
           {/* Business Count Badge */}
           <Badge 
-            variant={category.businessCount > 0 ? "default" : "secondary"}
+            variant={category.business_count > 0 ? "default" : "secondary"}
             className="text-xs"
           >
-            {category.businessCount}
+            {category.business_count}
           </Badge>
+
+          {category.subcategories && category.subcategories.length > 0 && (
+            <SubcategoryChips subcategories={category.subcategories} onClick={onSubcategoryClick} />
+          )}
         </div>
       </CardContent>
     </Card>
   )
 }
 
-function CategoryDesktopCard({ category, onClick, searchQuery }: {
+function CategoryDesktopCard({ category, onClick, onSubcategoryClick, searchQuery }: {
   category: CategoryWithCount
   onClick: () => void
+  onSubcategoryClick: (subcategory: CategoryStats) => void
   searchQuery: string
 }) {
   const getCategoryIcon = (categoryName: string) => {
@@ -568,18 +571,56 @@ function CategoryDesktopCard({ category, onClick, searchQuery }: {
           
           <div className="flex items-center justify-center gap-2">
             <Badge 
-              variant={category.businessCount > 0 ? "default" : "secondary"}
+              variant={category.business_count > 0 ? "default" : "secondary"}
               className="text-sm px-3 py-1"
             >
-              {category.businessCount} business{category.businessCount !== 1 ? 'es' : ''}
+              {category.business_count} business{category.business_count !== 1 ? 'es' : ''}
             </Badge>
           </div>
+
+          {category.average_rating !== null && (
+            <p className="text-xs text-gray-500 mt-2">
+              ★ {formatRating(category.average_rating)} from {category.review_count} review{category.review_count !== 1 ? 's' : ''}
+            </p>
+          )}
+
+          {category.subcategories && category.subcategories.length > 0 && (
+            <SubcategoryChips subcategories={category.subcategories} onClick={onSubcategoryClick} />
+          )}
         </div>
       </CardContent>
     </Card>
   )
 }
 
+function SubcategoryChips({ subcategories, onClick }: {
+  subcategories: CategoryStats[]
+  onClick: (subcategory: CategoryStats) => void
+}) {
+  const visible = subcategories.slice(0, MAX_SUBCATEGORY_CHIPS)
+  const hidden = subcategories.length - visible.length
+
+  return (
+    <div className="flex flex-wrap justify-center gap-1 mt-3">
+      {visible.map(subcategory => (
+        <button
+          key={subcategory.id}
+          onClick={(e) => {
+            e.stopPropagation()
+            onClick(subcategory)
+          }}
+          className="px-2 py-0.5 rounded-full text-xs bg-gray-100 text-gray-700 hover:bg-gray-200 transition-colors"
+        >
+          {subcategory.name}
+        </button>
+      ))}
+      {hidden > 0 && (
+        <span className="px-2 py-0.5 text-xs text-gray-500">+{hidden} more</span>
+      )}
+    </div>
+  )
+}
+
 function CategoriesPagination({ currentPage, totalPages, onPageChange }: {
   currentPage: number
   totalPages: number
@@ -2,13 +2,24 @@
 'use client'
 
 import { useState, useEffect, use } from 'react'
+import Link from 'next/link'
 import { useRouter } from 'next/navigation'
 import { notFound } from 'next/navigation'
-import { businessService, categoryService, type Business, type Category } from '@/lib/database'
+import { businessService, categoryService, categoryAttributeService, directoryService, type Business, type BusinessFilters, type Category, type CategoryAttribute, type CategoryStats, type FacetSelections } from '@/lib/database'
+import { getCategoryAncestors, getCategoryChildren, getCategoryDescendantIds } from '@/lib/category-tree'
+import { toAttributeFilters } from '@/lib/services/category-attributes'
 import { MobileHeader } from '@/components/mobile/mobile-header'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
+import { OpenStatusBadge } from '@/components/business/open-status-badge'
+import { NearLandmark } from '@/components/business/near-landmark'
+import { BusinessThumbnail } from '@/components/business/business-thumbnail'
+import { AttributeFacets } from '@/components/search/attribute-facets'
+
+type QuickFilter = 'all' | 'verified' | 'featured' | 'newest'
+
+const PAGE_SIZE = 12
 
 interface CategoryPageProps {
   params: Promise<{
@@ -19,54 +30,117 @@ interface CategoryPageProps {
 export default function CategoryPage({ params }: CategoryPageProps) {
   const resolvedParams = use(params)
   const [category, setCategory] = useState<Category | null>(null)
+  const [ancestors, setAncestors] = useState<Category[]>([])
+  const [subcategories, setSubcategories] = useState<Category[]>([])
+  const [descendantIds, setDescendantIds] = useState<string[]>([])
+  const [categoryStats, setCategoryStats] = useState<CategoryStats[]>([])
   const [businesses, setBusinesses] = useState<Business[]>([])
+  const [totalCount, setTotalCount] = useState(0)
+  const [page, setPage] = useState(1)
   const [loading, setLoading] = useState(true)
+  const [loadingBusinesses, setLoadingBusinesses] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [searchQuery, setSearchQuery] = useState('')
+  const [activeFilter, setActiveFilter] = useState<QuickFilter>('all')
+  const [attributes, setAttributes] = useState<CategoryAttribute[]>([])
+  const [facets, setFacets] = useState<FacetSelections>({})
   const router = useRouter()
 
   useEffect(() => {
     loadCategoryData()
   }, [resolvedParams.slug])
 
+  // Search, quick filters and facets run in the database, starting again from page 1
+  useEffect(() => {
+    if (category) {
+      loadBusinesses(1, descendantIds)
+    }
+  }, [searchQuery, activeFilter, facets])
+
   const loadCategoryData = async () => {
     try {
       setLoading(true)
       setError(null)
 
-      // Get category by slug using enhanced service
-      const { data: foundCategory, error: categoryError } = await categoryService.getCategoryBySlug(resolvedParams.slug)
-      
-      if (categoryError || !foundCategory) {
+      setFacets(prev => Object.keys(prev).length > 0 ? {} : prev)
+
+      // The whole category list is small; the tree is worked out from it
+      const [categoriesResult, statsResult] = await Promise.all([
+        categoryService.getBusinessCategories(),
+        directoryService.getOverview()
+      ])
+
+      const categories = categoriesResult.data || []
+      const foundCategory = categories.find(cat => cat.slug === resolvedParams.slug)
+
+      if (!foundCategory) {
+        // Merged categories send their old links to the category they joined
+        const { data: mergedSlug } = await categoryService.getMergedCategorySlug(resolvedParams.slug)
+        if (mergedSlug) {
+          router.replace(`/category/${mergedSlug}`)
+          return
+        }
+
         notFound()
         return
       }
 
+      // Listings of every subcategory show on the parent's page
+      const ids = getCategoryDescendantIds(categories, foundCategory.id)
+      const { data: categoryAttributes } = await categoryAttributeService.getForCategories([foundCategory.id])
+
       setCategory(foundCategory)
+      setAncestors(getCategoryAncestors(categories, foundCategory.id))
+      setSubcategories(getCategoryChildren(categories, foundCategory.id))
+      setDescendantIds(ids)
+      setCategoryStats(statsResult.data?.categories || [])
+      setAttributes(categoryAttributes || [])
 
-      // Load businesses for this specific category using enhanced service
-      const { data: categoryBusinesses, error: businessError } = await businessService.getBusinessesByCategory(resolvedParams.slug)
+      await loadBusinesses(1, ids)
+
+    } catch (err) {
+      console.error('Error loading category data:', err)
+      setError('Failed to load category data')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  // Load one page; page 1 replaces the list, later pages append to it
+  const loadBusinesses = async (pageToLoad: number, categoryIds: string[]) => {
+    try {
+      setLoadingBusinesses(true)
+
+      const filters: BusinessFilters = {
+        status: 'published',
+        categoryIds,
+        search: searchQuery.trim() || undefined,
+        verified: activeFilter === 'verified',
+        featured: activeFilter === 'featured',
+        attributes: toAttributeFilters(facets, attributes),
+        sortBy: 'newest',
+        limit: PAGE_SIZE,
+        page: pageToLoad
+      }
+
+      const { data, totalCount: count, error: businessError } = await businessService.getBusinesses(filters)
 
       if (businessError) {
         throw new Error('Failed to load businesses')
       }
 
-      setBusinesses(categoryBusinesses || [])
+      setBusinesses(prev => pageToLoad === 1 ? (data || []) : [...prev, ...(data || [])])
+      setTotalCount(count)
+      setPage(pageToLoad)
 
     } catch (err) {
-      console.error('Error loading category data:', err)
+      console.error('Error loading category businesses:', err)
       setError('Failed to load category data')
     } finally {
-      setLoading(false)
+      setLoadingBusinesses(false)
     }
   }
 
-  const filteredBusinesses = businesses.filter(business => 
-    !searchQuery.trim() || 
-    business.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-    business.description?.toLowerCase().includes(searchQuery.toLowerCase())
-  )
-
   const getCategoryIcon = (categoryName: string) => {
     const iconMap: { [key: string]: string } = {
       'restaurants': '🍽️',
@@ -133,11 +207,42 @@ export default function CategoryPage({ params }: CategoryPageProps) {
       />
       
       <div className="px-4 py-6 space-y-6">
+        {/* Breadcrumb */}
+        {ancestors.length > 0 && (
+          <CategoryBreadcrumb ancestors={ancestors} category={category} />
+        )}
+
         {/* Category Header */}
-        <CategoryHeader category={category} businessCount={filteredBusinesses.length} />
+        <CategoryHeader category={category} businessCount={totalCount} />
+
+        {/* Subcategories */}
+        {subcategories.length > 0 && (
+          <SubcategoryChips
+            subcategories={subcategories}
+            stats={categoryStats}
+            onSelect={(subcategory) => router.push(`/category/${subcategory.slug}`)}
+          />
+        )}
 
         {/* Filter Options */}
-        <FilterSection />
+        <FilterSection activeFilter={activeFilter} onFilterChange={setActiveFilter} />
+
+        {/* Attribute Facets */}
+        {attributes.some(attribute => attribute.is_filterable) && (
+          <Card>
+            <CardContent className="p-4 space-y-3">
+              <div className="flex items-center justify-between">
+                <h2 className="text-sm font-medium text-gray-700">Refine</h2>
+                {Object.keys(facets).length > 0 && (
+                  <Button variant="ghost" size="sm" onClick={() => setFacets({})}>
+                    Clear
+                  </Button>
+                )}
+              </div>
+              <AttributeFacets attributes={attributes} facets={facets} onChange={setFacets} />
+            </CardContent>
+          </Card>
+        )}
 
         {/* Search Results Info */}
         {searchQuery.trim() && (
@@ -145,7 +250,7 @@ export default function CategoryPage({ params }: CategoryPageProps) {
             <CardContent className="p-4">
               <div className="flex items-center justify-between">
                 <p className="text-sm text-gray-600">
-                  {filteredBusinesses.length} results for "{searchQuery}"
+                  {totalCount} results for "{searchQuery}"
                 </p>
                 <Button
                   variant="outline"
@@ -161,17 +266,32 @@ export default function CategoryPage({ params }: CategoryPageProps) {
 
         {/* Business Listings */}
         <BusinessListings 
-          businesses={filteredBusinesses}
-          loading={loading}
+          businesses={businesses}
+          loading={loadingBusinesses && page === 1}
           onBusinessClick={(business) => router.push(`/business/${business.slug}`)}
         />
 
+        {/* Load More */}
+        {businesses.length < totalCount && (
+          <Button
+            variant="outline"
+            className="w-full"
+            onClick={() => loadBusinesses(page + 1, descendantIds)}
+            disabled={loadingBusinesses}
+          >
+            {loadingBusinesses ? 'Loading...' : `Show more (${totalCount - businesses.length} remaining)`}
+          </Button>
+        )}
+
         {/* Empty State */}
-        {filteredBusinesses.length === 0 && !loading && (
+        {businesses.length === 0 && !loading && !loadingBusinesses && (
           <EmptyState 
             category={category}
-            hasSearch={!!searchQuery.trim()}
-            onClearSearch={() => setSearchQuery('')}
+            hasSearch={!!searchQuery.trim() || Object.keys(facets).length > 0}
+            onClearSearch={() => {
+              setSearchQuery('')
+              setFacets({})
+            }}
           />
         )}
       </div>
@@ -179,6 +299,60 @@ export default function CategoryPage({ params }: CategoryPageProps) {
   )
 }
 
+// Category Breadcrumb Component
+interface CategoryBreadcrumbProps {
+  ancestors: Category[]
+  category: Category
+}
+
+function CategoryBreadcrumb({ ancestors, category }: CategoryBreadcrumbProps) {
+  return (
+    <nav aria-label="Breadcrumb" className="flex items-center flex-wrap gap-1 text-sm text-gray-600">
+      <Link href="/categories" className="hover:text-gray-900">Categories</Link>
+      {ancestors.map(ancestor => (
+        <span key={ancestor.id} className="flex items-center gap-1">
+          <span className="text-gray-400">/</span>
+          <Link href={`/category/${ancestor.slug}`} className="hover:text-gray-900">{ancestor.name}</Link>
+        </span>
+      ))}
+      <span className="text-gray-400">/</span>
+      <span className="text-gray-900 font-medium">{category.name}</span>
+    </nav>
+  )
+}
+
+// Subcategory Chips Component
+interface SubcategoryChipsProps {
+  subcategories: Category[]
+  stats: CategoryStats[]
+  onSelect: (subcategory: Category) => void
+}
+
+function SubcategoryChips({ subcategories, stats, onSelect }: SubcategoryChipsProps) {
+  const countFor = (categoryId: string) =>
+    stats.find(stat => stat.id === categoryId)?.business_count ?? 0
+
+  return (
+    <Card>
+      <CardContent className="p-4">
+        <h2 className="text-sm font-medium text-gray-700 mb-3">Subcategories</h2>
+        <div className="flex flex-wrap gap-2">
+          {subcategories.map(subcategory => (
+            <button
+              key={subcategory.id}
+              onClick={() => onSelect(subcategory)}
+              className="px-3 py-1.5 rounded-full text-sm bg-gray-100 text-gray-700 hover:bg-gray-200 transition-colors touch-manipulation"
+            >
+              {subcategory.name}
+              <span className="ml-1 text-xs opacity-75">({countFor(subcategory.id)})</span>
+            </button>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
+
 // Category Header Component
 interface CategoryHeaderProps {
   category: Category
@@ -226,10 +400,13 @@ function CategoryHeader({ category, businessCount }: CategoryHeaderProps) {
 }
 
 // Filter Section Component
-function FilterSection() {
-  const [activeFilter, setActiveFilter] = useState('all')
-  
-  const filters = [
+interface FilterSectionProps {
+  activeFilter: QuickFilter
+  onFilterChange: (filter: QuickFilter) => void
+}
+
+function FilterSection({ activeFilter, onFilterChange }: FilterSectionProps) {
+  const filters: { key: QuickFilter; label: string; count: number | null }[] = [
     { key: 'all', label: 'All', count: null },
     { key: 'verified', label: 'Verified', count: null },
     { key: 'featured', label: 'Featured', count: null },
@@ -243,7 +420,7 @@ function FilterSection() {
           {filters.map(filter => (
             <button
               key={filter.key}
-              onClick={() => setActiveFilter(filter.key)}
+              onClick={() => onFilterChange(filter.key)}
               className={`px-4 py-2 rounded-lg text-sm font-medium whitespace-nowrap transition-colors touch-manipulation ${
                 activeFilter === filter.key
                   ? 'bg-black text-white'
@@ -316,8 +493,8 @@ function BusinessCard({ business, onClick }: BusinessCardProps) {
       <CardContent className="p-4">
         <div className="flex items-start gap-4">
           {/* Business Avatar */}
-          <div className="w-12 h-12 bg-gradient-to-br from-gray-100 to-gray-200 rounded-lg flex items-center justify-center flex-shrink-0">
-            <span className="text-lg">🏢</span>
+          <div className="w-12 h-12 bg-gradient-to-br from-gray-100 to-gray-200 rounded-lg flex items-center justify-center flex-shrink-0 overflow-hidden">
+            <BusinessThumbnail business={business} />
           </div>
           
           {/* Business Info */}
@@ -354,6 +531,12 @@ function BusinessCard({ business, onClick }: BusinessCardProps) {
                 {business.area_name ? `${business.area_name}, ` : ''}{business.city_name}
               </span>
             </div>
+
+            {/* Landmark */}
+            <NearLandmark business={business} className="mb-2" />
+
+            {/* Open status */}
+            <OpenStatusBadge hours={business.hours} overrides={business.hour_overrides} className="mb-2" />
             
             {/* Description */}
             {business.description && (
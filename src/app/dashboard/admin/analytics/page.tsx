@@ -0,0 +1,6 @@
+// src/app/dashboard/admin/analytics/page.tsx
+import AdminAnalytics from '@/components/admin/admin-analytics'
+
+export default function AdminAnalyticsPage() {
+  return <AdminAnalytics />
+}
@@ -0,0 +1,6 @@
+// src/app/dashboard/admin/audit/page.tsx
+import AdminAuditLog from '@/components/admin/admin-audit-log'
+
+export default function AdminAuditPage() {
+  return <AdminAuditLog />
+}
@@ -0,0 +1,6 @@
+// src/app/dashboard/admin/categories/page.tsx
+import AdminCategories from '@/components/admin/admin-categories'
+
+export default function AdminCategoriesPage() {
+  return <AdminCategories />
+}
@@ -0,0 +1,6 @@
+// src/app/dashboard/admin/claims/page.tsx
+import AdminClaims from '@/components/admin/admin-claims'
+
+export default function AdminClaimsPage() {
+  return <AdminClaims />
+}
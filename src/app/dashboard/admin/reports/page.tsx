@@ -0,0 +1,6 @@
+// src/app/dashboard/admin/reports/page.tsx
+import AdminReports from '@/components/admin/admin-reports'
+
+export default function AdminReportsPage() {
+  return <AdminReports />
+}
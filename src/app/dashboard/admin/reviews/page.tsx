@@ -0,0 +1,6 @@
+// src/app/dashboard/admin/reviews/page.tsx
+import AdminReviewModeration from '@/components/admin/admin-review-moderation'
+
+export default function AdminReviewsPage() {
+  return <AdminReviewModeration />
+}
@@ -10,6 +10,8 @@ import { MobileHeader } from '@/components/mobile/mobile-header'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
+import { IMAGE_UPLOAD_LIMITS } from '@/lib/image-processing'
+import { getErrorMessage } from '@/lib/utils'
 
 interface TourismImage {
   id: string
@@ -90,12 +92,12 @@ export default function AdminTourismImagesPage() {
     try {
       const uploadPromises = Array.from(files).map(async (file) => {
         // Validate file
-        if (!file.type.startsWith('image/')) {
-          throw new Error(`${file.name} is not a valid image file`)
+        if (!IMAGE_UPLOAD_LIMITS.acceptedTypes.includes(file.type)) {
+          throw new Error(`${file.name} is not a supported image file`)
         }
 
-        if (file.size > 10 * 1024 * 1024) { // 10MB limit
-          throw new Error(`${file.name} is too large (max 10MB)`)
+        if (file.size > IMAGE_UPLOAD_LIMITS.maxFileSizeMb * 1024 * 1024) {
+          throw new Error(`${file.name} is too large (max ${IMAGE_UPLOAD_LIMITS.maxFileSizeMb}MB)`)
         }
 
         // Upload image
@@ -151,7 +153,7 @@ export default function AdminTourismImagesPage() {
         setSuccess('Image deleted successfully')
         await loadImages()
       } else {
-        setError(error || 'Failed to delete image')
+        setError(getErrorMessage(error, 'Failed to delete image'))
       }
     } catch (err) {
       console.error('Error deleting image:', err)
@@ -351,7 +353,7 @@ function MobileTourismImageManagement({
                   <input
                     type="file"
                     multiple
-                    accept="image/*"
+                    accept={IMAGE_UPLOAD_LIMITS.acceptedTypes.join(',')}
                     onChange={(e) => onFileUpload(e.target.files)}
                     disabled={uploading}
                     className="block w-full text-sm text-gray-500 file:mr-4 file:py-2 file:px-4 file:rounded-lg file:border-0 file:text-sm file:font-medium file:bg-blue-50 file:text-blue-700 hover:file:bg-blue-100"
@@ -498,7 +500,7 @@ function DesktopTourismImageManagement({
                       <input
                         type="file"
                         multiple
-                        accept="image/*"
+                        accept={IMAGE_UPLOAD_LIMITS.acceptedTypes.join(',')}
                         onChange={(e) => onFileUpload(e.target.files)}
                         disabled={uploading}
                         className="block w-full text-sm text-gray-500 file:mr-4 file:py-3 file:px-6 file:rounded-lg file:border-0 file:text-sm file:font-medium file:bg-blue-50 file:text-blue-700 hover:file:bg-blue-100"
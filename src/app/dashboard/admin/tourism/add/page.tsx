@@ -11,6 +11,7 @@ import { MobileHeader } from '@/components/mobile/mobile-header'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
+import { LocationPicker } from '@/components/map/location-picker'
 
 export default function AdminAddTourismPage() {
   const [formData, setFormData] = useState<TourismFormData>({
@@ -507,6 +508,15 @@ function MobileAddTourismForm({
               />
             </div>
           </div>
+          <LocationPicker
+            value={formData.latitude !== undefined && formData.longitude !== undefined
+              ? { latitude: formData.latitude, longitude: formData.longitude }
+              : null}
+            onChange={(point) => {
+              onInputChange('latitude', point?.latitude)
+              onInputChange('longitude', point?.longitude)
+            }}
+          />
         </CardContent>
       </Card>
 
@@ -781,6 +791,16 @@ function DesktopAddTourismForm(props: TourismFormProps) {
                   />
                 </div>
               </div>
+              <LocationPicker
+                className="mt-4"
+                value={formData.latitude !== undefined && formData.longitude !== undefined
+                  ? { latitude: formData.latitude, longitude: formData.longitude }
+                  : null}
+                onChange={(point) => {
+                  onInputChange('latitude', point?.latitude)
+                  onInputChange('longitude', point?.longitude)
+                }}
+              />
             </div>
           </CardContent>
         </Card>
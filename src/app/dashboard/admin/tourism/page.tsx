@@ -10,6 +10,7 @@ import { MobileHeader } from '@/components/mobile/mobile-header'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
+import { AuditHistory, DetailsHistoryTabs } from '@/components/admin/audit-history'
 
 interface TourismFilters {
   status: 'all' | 'draft' | 'published' | 'rejected'
@@ -81,11 +82,18 @@ export default function AdminTourismManagementPage() {
   }
 
   const handleStatusChange = async (placeId: string, newStatus: 'draft' | 'published' | 'rejected') => {
+    let reason: string | undefined
+    if (newStatus === 'rejected') {
+      const answer = prompt('Reason for rejecting this place (optional):')
+      if (answer === null) return
+      reason = answer
+    }
+
     try {
       setActionLoading(placeId)
       setError(null)
 
-      const { success, error: updateError } = await tourismService.updateTourismStatus(placeId, newStatus)
+      const { success, error: updateError } = await tourismService.updateTourismStatus(placeId, newStatus, reason)
 
       if (!success || updateError) {
         throw new Error('Failed to update status')
@@ -508,6 +516,8 @@ function TourismPlaceCard({
   onStatusChange: (id: string, status: 'draft' | 'published' | 'rejected') => void
   onDelete: (id: string, name: string) => void
 }) {
+  const [tab, setTab] = useState<'details' | 'history'>('details')
+
   const getStatusBadge = (status: string) => {
     switch (status) {
       case 'draft':
@@ -524,144 +534,152 @@ function TourismPlaceCard({
   return (
     <Card>
       <CardContent className="p-4 lg:p-6">
-        <div className="flex items-start gap-4">
-          {/* Place Icon */}
-          <div className="w-12 h-12 lg:w-16 lg:h-16 bg-gradient-to-br from-green-100 to-green-200 rounded-lg flex items-center justify-center flex-shrink-0">
-            <span className="text-lg lg:text-xl">🏛️</span>
-          </div>
-          
-          {/* Place Info */}
-          <div className="flex-1 min-w-0">
-            <div className="flex items-start justify-between gap-2 mb-2">
-              <h3 className="font-semibold text-gray-900 text-base lg:text-lg truncate">
-                {place.name}
-              </h3>
-              <div className="flex gap-1 flex-shrink-0">
-                {place.is_featured && (
-                  <Badge className="bg-yellow-100 text-yellow-800 text-xs">Featured</Badge>
-                )}
-                {getStatusBadge(place.status)}
+        <DetailsHistoryTabs value={tab} onChange={setTab} />
+
+        <div className="pt-4">
+          {tab === 'history' ? (
+            <AuditHistory entityType="tourism_place" entityId={place.id} />
+          ) : (
+            <div className="flex items-start gap-4">
+              {/* Place Icon */}
+              <div className="w-12 h-12 lg:w-16 lg:h-16 bg-gradient-to-br from-green-100 to-green-200 rounded-lg flex items-center justify-center flex-shrink-0">
+                <span className="text-lg lg:text-xl">🏛️</span>
               </div>
-            </div>
+          
+              {/* Place Info */}
+              <div className="flex-1 min-w-0">
+                <div className="flex items-start justify-between gap-2 mb-2">
+                  <h3 className="font-semibold text-gray-900 text-base lg:text-lg truncate">
+                    {place.name}
+                  </h3>
+                  <div className="flex gap-1 flex-shrink-0">
+                    {place.is_featured && (
+                      <Badge className="bg-yellow-100 text-yellow-800 text-xs">Featured</Badge>
+                    )}
+                    {getStatusBadge(place.status)}
+                  </div>
+                </div>
             
-            {/* Location */}
-            <div className="flex items-center gap-1 text-sm text-gray-600 mb-2">
-              <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17.657 16.657L13.414 20.9a1.998 1.998 0 01-2.827 0l-4.244-4.243a8 8 0 1111.314 0z" />
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 11a3 3 0 11-6 0 3 3 0 016 0z" />
-              </svg>
-              <span className="truncate">
-                {place.area_name ? `${place.area_name}, ` : ''}{place.city_name}
-              </span>
-            </div>
+                {/* Location */}
+                <div className="flex items-center gap-1 text-sm text-gray-600 mb-2">
+                  <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17.657 16.657L13.414 20.9a1.998 1.998 0 01-2.827 0l-4.244-4.243a8 8 0 1111.314 0z" />
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 11a3 3 0 11-6 0 3 3 0 016 0z" />
+                  </svg>
+                  <span className="truncate">
+                    {place.area_name ? `${place.area_name}, ` : ''}{place.city_name}
+                  </span>
+                </div>
             
-            {/* Category */}
-            {place.category_name && (
-              <div className="flex items-center gap-1 text-sm text-gray-600 mb-3">
-                <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 7h.01M7 3h5c.512 0 1.024.195 1.414.586l7 7a2 2 0 010 2.828l-7 7a2 2 0 01-2.828 0l-7-7A1.994 1.994 0 013 12V7a4 4 0 014-4z" />
-                </svg>
-                <span className="truncate">{place.category_name}</span>
-              </div>
-            )}
+                {/* Category */}
+                {place.category_name && (
+                  <div className="flex items-center gap-1 text-sm text-gray-600 mb-3">
+                    <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 7h.01M7 3h5c.512 0 1.024.195 1.414.586l7 7a2 2 0 010 2.828l-7 7a2 2 0 01-2.828 0l-7-7A1.994 1.994 0 013 12V7a4 4 0 014-4z" />
+                    </svg>
+                    <span className="truncate">{place.category_name}</span>
+                  </div>
+                )}
             
-            {/* Short Description */}
-            {place.short_description && (
-              <p className="text-sm text-gray-600 line-clamp-2 mb-4">
-                {place.short_description}
-              </p>
-            )}
+                {/* Short Description */}
+                {place.short_description && (
+                  <p className="text-sm text-gray-600 line-clamp-2 mb-4">
+                    {place.short_description}
+                  </p>
+                )}
             
-            {/* Actions */}
-            <div className="flex items-center gap-2 flex-wrap">
-              {actionLoading ? (
-                <div className="flex items-center gap-2 text-sm text-gray-500">
-                  <div className="w-4 h-4 border-2 border-gray-300 border-t-black rounded-full animate-spin"></div>
-                  Processing...
-                </div>
-              ) : (
-                <>
-                  {/* Status Change Buttons */}
-                  {place.status !== 'published' && (
-                    <Button
-                      size="sm"
-                      onClick={() => onStatusChange(place.id, 'published')}
-                      className="bg-green-600 hover:bg-green-700 text-white"
-                    >
-                      Publish
-                    </Button>
-                  )}
+                {/* Actions */}
+                <div className="flex items-center gap-2 flex-wrap">
+                  {actionLoading ? (
+                    <div className="flex items-center gap-2 text-sm text-gray-500">
+                      <div className="w-4 h-4 border-2 border-gray-300 border-t-black rounded-full animate-spin"></div>
+                      Processing...
+                    </div>
+                  ) : (
+                    <>
+                      {/* Status Change Buttons */}
+                      {place.status !== 'published' && (
+                        <Button
+                          size="sm"
+                          onClick={() => onStatusChange(place.id, 'published')}
+                          className="bg-green-600 hover:bg-green-700 text-white"
+                        >
+                          Publish
+                        </Button>
+                      )}
                   
-                  {place.status !== 'draft' && (
-                    <Button
-                      size="sm"
-                      variant="outline"
-                      onClick={() => onStatusChange(place.id, 'draft')}
-                    >
-                      Draft
-                    </Button>
-                  )}
+                      {place.status !== 'draft' && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => onStatusChange(place.id, 'draft')}
+                        >
+                          Draft
+                        </Button>
+                      )}
                   
-                  {place.status !== 'rejected' && (
-                    <Button
-                      size="sm"
-                      variant="outline"
-                      onClick={() => onStatusChange(place.id, 'rejected')}
-                      className="border-red-300 text-red-700 hover:bg-red-50"
-                    >
-                      Reject
-                    </Button>
-                  )}
+                      {place.status !== 'rejected' && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => onStatusChange(place.id, 'rejected')}
+                          className="border-red-300 text-red-700 hover:bg-red-50"
+                        >
+                          Reject
+                        </Button>
+                      )}
                   
-                  {/* View Link */}
-                  {place.status === 'published' && (
-                    <Button
-                      size="sm"
-                      variant="outline"
-                      onClick={() => window.open(`/tourism/${place.slug}`, '_blank')}
-                    >
-                      <svg className="w-3 h-3 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z" />
-                      </svg>
-                      View
-                    </Button>
-                  )}
+                      {/* View Link */}
+                      {place.status === 'published' && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => window.open(`/tourism/${place.slug}`, '_blank')}
+                        >
+                          <svg className="w-3 h-3 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z" />
+                          </svg>
+                          View
+                        </Button>
+                      )}
                   
-                  {/* Images Button */}
-                  <Button
-                    size="sm"
-                    variant="outline"
-                    onClick={() => window.location.href = `/dashboard/admin/tourism/${place.id}/images`}
-                    className="border-blue-300 text-blue-700 hover:bg-blue-50"
-                  >
-                    <svg className="w-3 h-3 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
-                    </svg>
-                    Images
-                  </Button>
+                      {/* Images Button */}
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => window.location.href = `/dashboard/admin/tourism/${place.id}/images`}
+                        className="border-blue-300 text-blue-700 hover:bg-blue-50"
+                      >
+                        <svg className="w-3 h-3 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
+                        </svg>
+                        Images
+                      </Button>
                   
-                  {/* Delete Button */}
-                  <Button
-                    size="sm"
-                    variant="outline"
-                    onClick={() => onDelete(place.id, place.name)}
-                    className="border-red-300 text-red-700 hover:bg-red-50"
-                  >
-                    <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
-                    </svg>
-                  </Button>
-                </>
-              )}
-            </div>
+                      {/* Delete Button */}
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => onDelete(place.id, place.name)}
+                        className="border-red-300 text-red-700 hover:bg-red-50"
+                      >
+                        <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                        </svg>
+                      </Button>
+                    </>
+                  )}
+                </div>
             
-            {/* Created Date */}
-            <div className="text-xs text-gray-500 mt-3">
-              Created: {new Date(place.created_at).toLocaleDateString()}
-              {place.creator_name && ` by ${place.creator_name}`}
+                {/* Created Date */}
+                <div className="text-xs text-gray-500 mt-3">
+                  Created: {new Date(place.created_at).toLocaleDateString()}
+                  {place.creator_name && ` by ${place.creator_name}`}
+                </div>
+              </div>
             </div>
-          </div>
+          )}
         </div>
       </CardContent>
     </Card>
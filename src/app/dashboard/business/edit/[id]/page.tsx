@@ -1,39 +1,95 @@
 // src/app/dashboard/business/edit/[id]/page.tsx
 'use client'
 
+import { use, useEffect, useState } from 'react'
 import { useRouter } from 'next/navigation'
-import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { useAuth, useBusinessOwnership } from '@/lib/auth'
+import {
+  businessService,
+  businessStatusService,
+  type BusinessEditData,
+  type BusinessStatusChange
+} from '@/lib/database'
+import { BUSINESS_ROLE_PERMISSIONS } from '@/lib/services/business-members'
+import BusinessAddForm from '@/components/business/business-add-form'
+import { BusinessPhotoManager } from '@/components/business/business-photo-manager'
+import { BusinessHoursCard } from '@/components/business/business-hours-card'
+import { BusinessTeamManager } from '@/components/business/business-team-manager'
+import { StatusDecisionNotice } from '@/components/business/status-decision-notice'
+import { Card, CardContent } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 
 interface EditBusinessPageProps {
-  params: { id: string }
+  params: Promise<{ id: string }>
 }
 
 export default function EditBusinessPage({ params }: EditBusinessPageProps) {
+  const { id } = use(params)
   const router = useRouter()
+  const { user } = useAuth()
+  const { isOwner, memberRole, loading: ownershipLoading, userRole } = useBusinessOwnership(id)
+  const [editData, setEditData] = useState<BusinessEditData | null>(null)
+  const [statusChange, setStatusChange] = useState<BusinessStatusChange | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
 
-  return (
-    <div className="space-y-6">
-      <div>
-        <h1 className="text-2xl font-bold text-gray-900 mb-2">Edit Business</h1>
-        <p className="text-gray-600">Update your business information and settings</p>
+  useEffect(() => {
+    if (ownershipLoading) return
+
+    if (!isOwner) {
+      setLoading(false)
+      return
+    }
+
+    loadBusiness()
+  }, [id, isOwner, ownershipLoading])
+
+  const loadBusiness = async () => {
+    try {
+      setLoading(true)
+      setError(null)
+
+      const { data, error: fetchError } = await businessService.getBusinessForEdit(id)
+
+      if (fetchError || !data) {
+        throw new Error('Failed to load business')
+      }
+
+      setEditData(data)
+
+      if (data.business.status === 'rejected' || data.business.status === 'suspended') {
+        const { data: changes } = await businessStatusService.getLatestChanges([id])
+        setStatusChange(changes?.[id] || null)
+      }
+    } catch (err) {
+      console.error('Error loading business for edit:', err)
+      setError('Failed to load this business. Please try again.')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  if (ownershipLoading || loading) {
+    return (
+      <div className="text-center py-12">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-black mx-auto mb-4"></div>
+        <p className="text-gray-600">Loading business...</p>
       </div>
+    )
+  }
 
+  if (!isOwner || error || !editData) {
+    return (
       <Card>
-        <CardHeader>
-          <CardTitle>Business Edit Form</CardTitle>
-        </CardHeader>
-        <CardContent className="p-6 text-center">
-          <div className="mb-4">
-            <svg className="w-12 h-12 text-gray-400 mx-auto mb-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
-            </svg>
-          </div>
-          <h3 className="text-lg font-medium text-gray-900 mb-2">Business Edit Form</h3>
+        <CardContent className="p-8 text-center">
+          <svg className="w-12 h-12 text-gray-400 mx-auto mb-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" />
+          </svg>
+          <h3 className="text-lg font-medium text-gray-900 mb-2">
+            {isOwner ? 'Business unavailable' : 'You can’t edit this business'}
+          </h3>
           <p className="text-gray-600 mb-4">
-            Business ID: {params.id}
-            <br />
-            This feature will be implemented in the next development phase.
+            {error || 'Only members of this business’s team can make changes to it.'}
           </p>
           <div className="flex gap-2 justify-center">
             <Button
@@ -42,14 +98,56 @@ export default function EditBusinessPage({ params }: EditBusinessPageProps) {
             >
               Back to Listings
             </Button>
-            <Button
-              onClick={() => router.push('/dashboard/business')}
-            >
-              Dashboard
-            </Button>
+            {error && (
+              <Button onClick={loadBusiness}>
+                Retry
+              </Button>
+            )}
           </div>
         </CardContent>
       </Card>
+    )
+  }
+
+  // Show the submitted-but-unreviewed version so owners keep editing from there
+  const initialData = editData.pendingChange
+    ? { ...editData.pendingChange.changes, hours: editData.formData.hours }
+    : editData.formData
+
+  const canEditListing = !!memberRole && BUSINESS_ROLE_PERMISSIONS.editListing.includes(memberRole)
+  const canManageTeam = !!memberRole && BUSINESS_ROLE_PERMISSIONS.manageTeam.includes(memberRole)
+
+  return (
+    <div className="space-y-6">
+      <StatusDecisionNotice
+        business={editData.business}
+        change={statusChange}
+        canResubmit={canEditListing}
+        showResubmit={false}
+      />
+
+      {canEditListing ? (
+        <>
+          <BusinessAddForm
+            business={editData.business}
+            initialData={initialData}
+            pendingChange={editData.pendingChange}
+            applyImmediately={userRole === 'admin'}
+          />
+
+          <BusinessPhotoManager businessId={id} autoApprove={userRole === 'admin'} />
+        </>
+      ) : (
+        <BusinessHoursCard
+          businessId={id}
+          businessName={editData.business.name}
+          initialHours={editData.formData.hours}
+        />
+      )}
+
+      {user && (
+        <BusinessTeamManager businessId={id} currentUserId={user.id} canManage={canManageTeam} />
+      )}
     </div>
   )
-}
\ No newline at end of file
+}
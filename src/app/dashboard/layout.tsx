@@ -4,17 +4,21 @@
 import { useEffect, useState } from 'react'
 import { useRouter, usePathname } from 'next/navigation'
 import { useAuth } from '@/lib/auth'
-import { userService } from '@/lib/database'
+import { businessMemberService, userService } from '@/lib/database'
 import DashboardLayout from '@/components/admin/dashboard-layout'
 
 // Define route permissions
 const ROUTE_PERMISSIONS = {
   '/dashboard/admin': ['admin'],
   '/dashboard/admin/listings': ['admin'],
+  '/dashboard/admin/reviews': ['admin'],
+  '/dashboard/admin/reports': ['admin'],
+  '/dashboard/admin/claims': ['admin'],
+  '/dashboard/admin/audit': ['admin'],
   '/dashboard/admin/tourism/add': ['admin'],
-  '/dashboard/business': ['business_owner', 'admin'],
-  '/dashboard/business/edit': ['business_owner', 'admin'],
-  '/dashboard/business/my-listings': ['business_owner', 'admin']
+  '/dashboard/business': ['business_owner', 'admin', 'business_member'],
+  '/dashboard/business/edit': ['business_owner', 'admin', 'business_member'],
+  '/dashboard/business/my-listings': ['business_owner', 'admin', 'business_member']
 } as const
 
 // Loading component
@@ -85,6 +89,7 @@ export default function ProtectedDashboardLayout({
   const pathname = usePathname()
   
   const [userRole, setUserRole] = useState<string | null>(null)
+  const [isMember, setIsMember] = useState(false) // On a business team without the business_owner role
   const [roleLoading, setRoleLoading] = useState(true)
   const [hasAccess, setHasAccess] = useState(false)
 
@@ -102,6 +107,11 @@ export default function ProtectedDashboardLayout({
         try {
           const { data: role } = await userService.getCurrentUserRole(user.id)
           setUserRole(role || 'user')
+
+          if (!role || role === 'user') {
+            const { data: memberships } = await businessMemberService.getMemberships(user.id)
+            setIsMember((memberships || []).length > 0)
+          }
         } catch (error) {
           console.error('Error fetching user role:', error)
           setUserRole('user') // Default to user if error
@@ -123,14 +133,17 @@ export default function ProtectedDashboardLayout({
       ) as keyof typeof ROUTE_PERMISSIONS
 
       if (routeKey) {
-        const allowedRoles = ROUTE_PERMISSIONS[routeKey]
-        setHasAccess(allowedRoles.includes(userRole as any))
+        const allowedRoles: readonly string[] = ROUTE_PERMISSIONS[routeKey]
+        setHasAccess(
+          allowedRoles.includes(userRole) ||
+          (isMember && allowedRoles.includes('business_member'))
+        )
       } else {
         // Default to no access for unknown dashboard routes
         setHasAccess(false)
       }
     }
-  }, [userRole, pathname])
+  }, [userRole, isMember, pathname])
 
   // Show loading while checking auth or role
   if (authLoading || roleLoading) {
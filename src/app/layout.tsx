@@ -4,6 +4,7 @@ import './globals.css'
 import { cn } from '@/lib/utils'
 import { BottomNavigation, type NavigationItem } from '@/components/mobile/bottom-navigation'
 import { AuthProvider } from '@/lib/auth'
+import { CityProvider } from '@/lib/city'
 
 const inter = Inter({ 
   subsets: ['latin'],
@@ -158,29 +159,31 @@ export default function RootLayout({
           Skip to main content
         </a>
 
-        {/* Auth Provider Wrapper */}
+        {/* Auth and City Provider Wrappers */}
         <AuthProvider>
-          {/* Main app container */}
-          <div className="flex flex-col min-h-screen">
-            {/* Main content area */}
-            <main 
-              id="main-content"
-              className={cn(
-                'flex-1',
-                // Account for bottom navigation on mobile
-                'pb-16 md:pb-0'
-              )}
-            >
-              {children}
-            </main>
+          <CityProvider>
+            {/* Main app container */}
+            <div className="flex flex-col min-h-screen">
+              {/* Main content area */}
+              <main 
+                id="main-content"
+                className={cn(
+                  'flex-1',
+                  // Account for bottom navigation on mobile
+                  'pb-16 md:pb-0'
+                )}
+              >
+                {children}
+              </main>
 
-            {/* Mobile bottom navigation */}
-            <BottomNavigation 
-              items={mainNavItems}
-              showLabels={true}
-              autoHide={true}
-            />
-          </div>
+              {/* Mobile bottom navigation */}
+              <BottomNavigation 
+                items={mainNavItems}
+                showLabels={true}
+                autoHide={true}
+              />
+            </div>
+          </CityProvider>
         </AuthProvider>
 
         {/* Global loading indicator (for future use) */}
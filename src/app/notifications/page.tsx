@@ -0,0 +1,48 @@
+// src/app/notifications/page.tsx
+'use client'
+
+import { useEffect } from 'react'
+import { useRouter } from 'next/navigation'
+import { useRequireAuth } from '@/lib/auth'
+import { MobileHeader } from '@/components/mobile/mobile-header'
+import NotificationCenter from '@/components/notifications/notification-center'
+
+export default function NotificationsPage() {
+  const router = useRouter()
+  const { user, loading, shouldRedirect } = useRequireAuth()
+
+  useEffect(() => {
+    if (shouldRedirect) {
+      router.push('/login')
+    }
+  }, [shouldRedirect, router])
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Mobile Header */}
+      <div className="block lg:hidden">
+        <MobileHeader title="Notifications" showBackButton={true} showNotifications={false} />
+      </div>
+
+      {/* Desktop Header */}
+      <div className="hidden lg:block bg-white border-b">
+        <div className="max-w-4xl mx-auto px-8 py-4">
+          <h1 className="text-2xl font-bold text-gray-900">Notifications</h1>
+        </div>
+      </div>
+
+      <div className="max-w-4xl mx-auto px-4 lg:px-8 py-6">
+        {loading || !user ? (
+          <div className="text-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-black mx-auto"></div>
+          </div>
+        ) : (
+          <NotificationCenter />
+        )}
+
+        {/* Bottom Spacing for Mobile */}
+        <div className="h-20 lg:h-8"></div>
+      </div>
+    </div>
+  )
+}
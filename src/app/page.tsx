@@ -2,48 +2,56 @@
 'use client'
 
 import { useState, useEffect } from 'react'
+import Link from 'next/link'
 import { useRouter } from 'next/navigation'
 import { MobileHeader } from '@/components/mobile/mobile-header'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
-import { businessService, categoryService, userService, type Business, type Category } from '@/lib/database'
+import { BusinessThumbnail } from '@/components/business/business-thumbnail'
+import { businessService, directoryService, userService, type Business, type CategoryStats } from '@/lib/database'
+import { useCity } from '@/lib/city'
+import { APP_CONSTANTS } from '@/lib/utils'
 
 interface HomeStats {
-  businessCount: number
   userCount: number
   publishedBusinessCount: number
 }
 
 export default function HomePage() {
   const [searchQuery, setSearchQuery] = useState('')
-  const [categories, setCategories] = useState<Category[]>([])
+  const [categories, setCategories] = useState<CategoryStats[]>([])
   const [featuredBusinesses, setFeaturedBusinesses] = useState<Business[]>([])
   const [recentBusinesses, setRecentBusinesses] = useState<Business[]>([])
-  const [stats, setStats] = useState<HomeStats>({ businessCount: 0, userCount: 0, publishedBusinessCount: 0 })
+  const [stats, setStats] = useState<HomeStats>({ userCount: 0, publishedBusinessCount: 0 })
   const [loading, setLoading] = useState(true)
   const [searchLoading, setSearchLoading] = useState(false)
+  const { city, loading: cityLoading } = useCity()
   const router = useRouter()
 
   useEffect(() => {
+    if (cityLoading) return
     loadHomeData()
-  }, [])
+  }, [cityLoading, city?.id])
 
   const loadHomeData = async () => {
     try {
       setLoading(true)
 
       // Load all data in parallel for better performance
-      const [categoriesResult, businessesResult, statsResult, userCountResult] = await Promise.all([
-        categoryService.getBusinessCategories(),
-        businessService.getBusinesses({ status: 'published', limit: 50 }),
-        businessService.getCounts(),
+      const [directoryResult, businessesResult, userCountResult] = await Promise.all([
+        directoryService.getOverview(),
+        businessService.getBusinesses({ status: 'published', cityId: city?.id, limit: 50 }),
         userService.getCount()
       ])
 
-      // Set categories
-      if (categoriesResult.data) {
-        setCategories(categoriesResult.data.slice(0, 8)) // Show top 8 categories
+      // Set top-level categories, busiest first; their counts include subcategories
+      if (directoryResult.data) {
+        const topCategories = directoryResult.data.categories
+          .filter(category => !category.parent_id)
+          .sort((a, b) => b.business_count - a.business_count || a.name.localeCompare(b.name))
+          .slice(0, 8) // Show top 8 categories
+        setCategories(topCategories)
       }
 
       // Set businesses
@@ -61,11 +69,11 @@ export default function HomePage() {
         setRecentBusinesses(recent)
       }
 
-      // Set stats
-      if (statsResult.data && userCountResult.data !== null) {
+      // Set stats for the chosen city
+      if (directoryResult.data && userCountResult.data !== null) {
+        const cityStats = directoryResult.data.cities.find(c => c.id === city?.id)
         setStats({
-          businessCount: statsResult.data.total,
-          publishedBusinessCount: statsResult.data.published,
+          publishedBusinessCount: (cityStats || directoryResult.data.totals).business_count,
           userCount: userCountResult.data
         })
       }
@@ -91,7 +99,10 @@ export default function HomePage() {
     }
   }
 
-  const handleCategoryClick = (category: Category) => {
+  // Listings of the chosen city, which the businesses page can widen to all cities
+  const businessesUrl = city ? `/businesses?city=${city.id}` : '/businesses'
+
+  const handleCategoryClick = (category: CategoryStats) => {
     router.push(`/category/${category.slug}`)
   }
 
@@ -118,7 +129,7 @@ export default function HomePage() {
   if (loading) {
     return (
       <div className="min-h-screen bg-gray-50">
-        <MobileHeader title="Chittor Darpan" showSearch={false} autoHide={false} />
+        <MobileHeader title="Chittor Darpan" showSearch={false} showCitySwitcher autoHide={false} />
         <HomePageSkeleton />
       </div>
     )
@@ -126,15 +137,15 @@ export default function HomePage() {
 
   return (
     <div className="min-h-screen bg-gray-50">
-      <MobileHeader title="Chittor Darpan" showSearch={false} autoHide={false} />
+      <MobileHeader title="Chittor Darpan" showSearch={false} showCitySwitcher autoHide={false} />
 
       <div className="px-4 py-6 space-y-6">
         {/* Welcome Section */}
         <div className="text-center space-y-2">
-          <h1 className="text-2xl font-bold text-gray-900">Welcome to Chittorgarh</h1>
+          <h1 className="text-2xl font-bold text-gray-900">Welcome to {city?.name || APP_CONSTANTS.DEFAULT_CITY_NAME}</h1>
           <p className="text-gray-600">Discover local businesses in your city</p>
           <p className="text-sm text-blue-600">
-            <a href="/login" className="underline">Sign in</a> to manage your business listings
+            <Link href="/login" className="underline">Sign in</Link> to manage your business listings
           </p>
         </div>
 
@@ -212,7 +223,9 @@ export default function HomePage() {
                     <span className="text-2xl">{getCategoryIcon(category.name)}</span>
                     <div className="text-center">
                       <div className="font-medium text-sm">{category.name}</div>
-                      <div className="text-xs text-gray-500">Browse businesses</div>
+                      <div className="text-xs text-gray-500">
+                        {category.business_count} business{category.business_count !== 1 ? 'es' : ''}
+                      </div>
                     </div>
                   </Button>
                 ))}
@@ -276,7 +289,7 @@ export default function HomePage() {
               <div className="mt-4 pt-4 border-t border-gray-200">
                 <Button 
                   variant="outline" 
-                  onClick={() => router.push('/businesses')}
+                  onClick={() => router.push(businessesUrl)}
                   className="w-full"
                 >
                   View All Businesses
@@ -303,7 +316,7 @@ export default function HomePage() {
             </Button>
             
             <Button 
-              onClick={() => router.push('/businesses')}
+              onClick={() => router.push(businessesUrl)}
               variant="outline"
               className="w-full justify-start"
             >
@@ -333,7 +346,7 @@ export default function HomePage() {
           </CardHeader>
           <CardContent className="p-4 text-sm space-y-2">
             <p className="text-gray-700">
-              Chittor Darpan is your local business directory for Chittorgarh. 
+              Chittor Darpan is your local business directory for Chittorgarh and nearby towns. 
               Discover restaurants, shops, services, and more in your neighborhood.
             </p>
             <div className="flex items-center gap-4 pt-2 text-gray-600">
@@ -361,8 +374,8 @@ function FeaturedBusinessCard({ business, onClick }: FeaturedBusinessCardProps)
       className="p-3 border border-gray-200 rounded-lg cursor-pointer hover:border-gray-300 transition-colors touch-manipulation"
     >
       <div className="flex items-center gap-3">
-        <div className="w-12 h-12 bg-gradient-to-br from-purple-100 to-purple-200 rounded-lg flex items-center justify-center">
-          <span className="text-lg">🏢</span>
+        <div className="w-12 h-12 bg-gradient-to-br from-purple-100 to-purple-200 rounded-lg flex items-center justify-center overflow-hidden">
+          <BusinessThumbnail business={business} />
         </div>
         <div className="flex-1 min-w-0">
           <h4 className="font-medium text-gray-900 truncate">{business.name}</h4>
@@ -410,8 +423,8 @@ function RecentBusinessCard({ business, onClick }: RecentBusinessCardProps) {
       className="p-3 border border-gray-200 rounded-lg cursor-pointer hover:border-gray-300 transition-colors touch-manipulation"
     >
       <div className="flex items-center gap-3">
-        <div className="w-10 h-10 bg-gradient-to-br from-green-100 to-green-200 rounded-lg flex items-center justify-center">
-          <span className="text-sm">🏢</span>
+        <div className="w-10 h-10 bg-gradient-to-br from-green-100 to-green-200 rounded-lg flex items-center justify-center overflow-hidden">
+          <BusinessThumbnail business={business} emojiClassName="text-sm" />
         </div>
         <div className="flex-1 min-w-0">
           <h4 className="font-medium text-gray-900 truncate">{business.name}</h4>
@@ -35,6 +35,9 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
+import { IMAGE_UPLOAD_LIMITS } from '@/lib/image-processing'
+import { TeamInvitations } from '@/components/business/team-invitations'
+import { NotificationPreferences } from '@/components/notifications/notification-preferences'
 
 export default function ProfilePage() {
   const [user, setUser] = useState<User | null>(null)
@@ -330,6 +333,9 @@ export default function ProfilePage() {
       {/* Main Content */}
       <div className="max-w-4xl mx-auto px-4 lg:px-8 py-6 space-y-6">
         
+        {/* Business team invitations */}
+        <TeamInvitations />
+
         {/* Profile Header */}
         <Card className="overflow-hidden">
           <div className="bg-gradient-to-r from-blue-500 to-purple-600 h-20 lg:h-24 relative">
@@ -369,7 +375,7 @@ export default function ProfilePage() {
                   )}
                   <input
                     type="file"
-                    accept="image/*"
+                    accept={IMAGE_UPLOAD_LIMITS.acceptedTypes.join(',')}
                     onChange={handleAvatarUpload}
                     disabled={avatarUploading}
                     className="sr-only"
@@ -592,6 +598,9 @@ export default function ProfilePage() {
           </CardContent>
         </Card>
 
+        {/* Notification settings */}
+        {user && <NotificationPreferences userId={user.id} />}
+
         {/* Account Settings */}
         <Card>
           <CardHeader>
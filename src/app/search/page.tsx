@@ -1,46 +1,80 @@
 // src/app/search/page.tsx
 'use client'
 
-import { useState, useEffect, Suspense } from 'react'
+import { useState, useEffect, useRef, Suspense } from 'react'
 import { useRouter, useSearchParams } from 'next/navigation'
-import { businessService, categoryService, locationService, type Business, type Category, type City } from '@/lib/database'
+import { useCity } from '@/lib/city'
+import { analyticsService, businessService, categoryService, categoryAttributeService, locationService, type AttributeFilters, type Business, type BusinessFilters, type Category, type CategoryAttribute, type City, type FacetSelections } from '@/lib/database'
 import { MobileHeader } from '@/components/mobile/mobile-header'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
+import { formatDistance } from '@/lib/utils'
+import { OpenStatusBadge } from '@/components/business/open-status-badge'
+import { NearLandmark } from '@/components/business/near-landmark'
+import { HighlightedText } from '@/components/search/highlighted-text'
+import { SearchAutocomplete } from '@/components/search/search-autocomplete'
+import { NearMeFilter } from '@/components/search/near-me-filter'
+import { AttributeFacets } from '@/components/search/attribute-facets'
+import { BusinessThumbnail } from '@/components/business/business-thumbnail'
+import { parseNearbyParams, setNearbyParams, type NearbyFilter } from '@/lib/services/geo'
+import { parseFacetParams, setFacetParams, toAttributeFilters } from '@/lib/services/category-attributes'
+import { normalizeSearchText, searchService, type SearchResultItem, type SearchResultType, type UnifiedSearchResults } from '@/lib/services/search'
 import Head from 'next/head'
 
+type SearchTab = 'all' | SearchResultType
+
+const SEARCH_TABS: { value: SearchTab; label: string; noun: string }[] = [
+  { value: 'all', label: 'All', noun: 'results' },
+  { value: 'business', label: 'Businesses', noun: 'businesses' },
+  { value: 'tourism', label: 'Places', noun: 'places' },
+  { value: 'blog', label: 'Blog', noun: 'articles' }
+]
+
 interface SearchFilters {
   query: string
+  type: SearchTab
   category: string
   city: string
   verified: boolean
   featured: boolean
+  openNow: boolean
+  nearby: NearbyFilter | null
+  facets: FacetSelections // Attribute filters of the chosen category
 }
 
 interface SearchResults {
   businesses: Business[]
+  unified: UnifiedSearchResults | null // Set when searching by keyword rather than browsing
   totalCount: number
   currentPage: number
   totalPages: number
+  didYouMean: string | null // Offered when a keyword search comes up empty
 }
 
 // Main content component that uses useSearchParams
 function SearchPageContent() {
   const [results, setResults] = useState<SearchResults>({
     businesses: [],
+    unified: null,
     totalCount: 0,
     currentPage: 1,
-    totalPages: 1
+    totalPages: 1,
+    didYouMean: null
   })
   const [filters, setFilters] = useState<SearchFilters>({
     query: '',
+    type: 'all',
     category: 'all',
     city: 'all',
     verified: false,
-    featured: false
+    featured: false,
+    openNow: false,
+    nearby: null,
+    facets: {}
   })
   const [categories, setCategories] = useState<Category[]>([])
+  const [attributes, setAttributes] = useState<CategoryAttribute[]>([])
   const [cities, setCities] = useState<City[]>([])
   const [loading, setLoading] = useState(true)
   const [searching, setSearching] = useState(false)
@@ -48,35 +82,55 @@ function SearchPageContent() {
   
   const router = useRouter()
   const searchParams = useSearchParams()
+  const { city: selectedCity, loading: cityLoading } = useCity()
+  const lastLoggedQuery = useRef<string | null>(null)
   const ITEMS_PER_PAGE = 12
 
+  // Without a city in the URL, search the visitor's chosen city; city=all widens it
+  const defaultCity = selectedCity?.id || 'all'
+
   useEffect(() => {
+    if (cityLoading) return
+
     // Initialize from URL params
     const query = searchParams.get('q') || ''
+    const typeParam = searchParams.get('type')
+    const type = SEARCH_TABS.find(tab => tab.value === typeParam)?.value || 'all'
     const category = searchParams.get('category') || 'all'
-    const city = searchParams.get('city') || 'all'
+    const city = searchParams.get('city') || defaultCity
     const page = parseInt(searchParams.get('page') || '1')
     const verified = searchParams.get('verified') === 'true'
     const featured = searchParams.get('featured') === 'true'
+    const openNow = searchParams.get('open') === 'true'
+    const nearby = parseNearbyParams(searchParams.get('near'), searchParams.get('radius'))
+    const facets = category !== 'all' ? parseFacetParams(searchParams) : {}
 
     setFilters({
       query,
+      type,
       category,
       city,
       verified,
-      featured
+      featured,
+      openNow,
+      nearby,
+      facets
     })
 
-    loadInitialData(query, category, city, page, verified, featured)
-  }, [searchParams])
+    loadInitialData(query, type, category, city, page, verified, featured, openNow, nearby, facets)
+  }, [searchParams, cityLoading, defaultCity])
 
   const loadInitialData = async (
     query: string, 
+    type: SearchTab,
     category: string, 
     city: string, 
     page: number,
     verified: boolean,
-    featured: boolean
+    featured: boolean,
+    openNow: boolean,
+    nearby: NearbyFilter | null,
+    facets: FacetSelections
   ) => {
     try {
       setLoading(true)
@@ -91,8 +145,15 @@ function SearchPageContent() {
       if (categoriesResult.data) setCategories(categoriesResult.data)
       if (citiesResult.data) setCities(citiesResult.data)
 
+      // Facets come from the chosen category's attributes
+      const selectedCategory = (categoriesResult.data || []).find(c => c.slug === category)
+      const { data: categoryAttributes } = selectedCategory
+        ? await categoryAttributeService.getForCategories([selectedCategory.id])
+        : { data: [] }
+      setAttributes(categoryAttributes || [])
+
       // Perform search
-      await performSearch(query, category, city, page, verified, featured)
+      await performSearch(query, type, category, city, page, verified, featured, openNow, nearby, toAttributeFilters(facets, categoryAttributes || []))
 
     } catch (err) {
       console.error('Error loading search page:', err)
@@ -104,23 +165,73 @@ function SearchPageContent() {
 
   const performSearch = async (
     query: string, 
+    type: SearchTab,
     category: string, 
     city: string, 
     page: number,
     verified: boolean,
-    featured: boolean
+    featured: boolean,
+    openNow: boolean,
+    nearby: NearbyFilter | null,
+    attributeFilters: AttributeFilters
   ) => {
     try {
       setSearching(true)
 
-      // Build search filters
-      const searchFilters: any = {
-        status: 'published',
-        limit: 1000 // Get all, then paginate client-side for now
+      // Keyword searches go through the unified, ranked search
+      if (query.trim()) {
+        const { data: unified, error: searchError } = await searchService.search(query, {
+          type,
+          page,
+          pageSize: ITEMS_PER_PAGE,
+          cityId: city !== 'all' ? city : undefined,
+          categorySlug: category !== 'all' ? category : undefined,
+          verified,
+          featured,
+          openNow,
+          attributes: attributeFilters,
+          nearby: nearby || undefined
+        })
+
+        if (searchError || !unified) {
+          throw new Error('Search failed')
+        }
+
+        const overallCount = unified.totals.business + unified.totals.tourism + unified.totals.blog
+        const totalCount = type === 'all' ? overallCount : unified.totals[type]
+
+        // Log each new query once, not again for every tab or page
+        const normalizedQuery = normalizeSearchText(query)
+        if (lastLoggedQuery.current !== normalizedQuery) {
+          lastLoggedQuery.current = normalizedQuery
+          searchService.logSearch(query)
+        }
+
+        const { data: didYouMean } = overallCount === 0
+          ? await searchService.getDidYouMean(query)
+          : { data: null }
+
+        const businesses = unified.groups.business.flatMap(item => item.business ? [item.business] : [])
+        analyticsService.trackEvents(businesses.map(business => ({ businessId: business.id, type: 'search_impression' })))
+
+        setResults({
+          businesses,
+          unified,
+          totalCount,
+          currentPage: page,
+          totalPages: type === 'all' ? 1 : Math.ceil(totalCount / ITEMS_PER_PAGE),
+          didYouMean
+        })
+        return
       }
 
-      if (query.trim()) {
-        searchFilters.search = query.trim()
+      // Build browse filters
+      const searchFilters: BusinessFilters = {
+        status: 'published',
+        limit: ITEMS_PER_PAGE,
+        page,
+        verified,
+        featured
       }
 
       if (category !== 'all') {
@@ -131,36 +242,34 @@ function SearchPageContent() {
         searchFilters.cityId = city
       }
 
-      // Get businesses
-      let { data: businesses, error: searchError } = await businessService.getBusinesses(searchFilters)
-
-      if (searchError) {
-        throw new Error('Search failed')
+      if (openNow) {
+        searchFilters.openNow = true
       }
 
-      businesses = businesses || []
+      if (nearby) {
+        searchFilters.nearby = nearby
+      }
 
-      // Apply additional filters
-      if (verified) {
-        businesses = businesses.filter(b => b.is_verified)
+      if (Object.keys(attributeFilters).length > 0) {
+        searchFilters.attributes = attributeFilters
       }
 
-      if (featured) {
-        businesses = businesses.filter(b => b.is_featured)
+      // Get one page of businesses
+      const { data: businesses, totalCount, error: searchError } = await businessService.getBusinesses(searchFilters)
+
+      if (searchError) {
+        throw new Error('Search failed')
       }
 
-      // Calculate pagination
-      const totalCount = businesses.length
-      const totalPages = Math.ceil(totalCount / ITEMS_PER_PAGE)
-      const startIndex = (page - 1) * ITEMS_PER_PAGE
-      const endIndex = startIndex + ITEMS_PER_PAGE
-      const paginatedBusinesses = businesses.slice(startIndex, endIndex)
+      analyticsService.trackEvents((businesses || []).map(business => ({ businessId: business.id, type: 'search_impression' })))
 
       setResults({
-        businesses: paginatedBusinesses,
+        businesses: businesses || [],
+        unified: null,
         totalCount,
         currentPage: page,
-        totalPages
+        totalPages: Math.ceil(totalCount / ITEMS_PER_PAGE),
+        didYouMean: null
       })
 
     } catch (err) {
@@ -175,10 +284,14 @@ function SearchPageContent() {
     const params = new URLSearchParams()
     
     if (newFilters.query?.trim()) params.set('q', newFilters.query.trim())
+    if (newFilters.query?.trim() && newFilters.type && newFilters.type !== 'all') params.set('type', newFilters.type)
     if (newFilters.category && newFilters.category !== 'all') params.set('category', newFilters.category)
-    if (newFilters.city && newFilters.city !== 'all') params.set('city', newFilters.city)
+    if (newFilters.city && newFilters.city !== defaultCity) params.set('city', newFilters.city)
     if (newFilters.verified) params.set('verified', 'true')
     if (newFilters.featured) params.set('featured', 'true')
+    if (newFilters.openNow) params.set('open', 'true')
+    setNearbyParams(params, newFilters.nearby)
+    if (newFilters.category && newFilters.category !== 'all') setFacetParams(params, newFilters.facets)
     if (page > 1) params.set('page', page.toString())
 
     const newURL = `/search${params.toString() ? `?${params.toString()}` : ''}`
@@ -187,6 +300,10 @@ function SearchPageContent() {
 
   const handleFilterChange = (newFilters: Partial<SearchFilters>) => {
     const updatedFilters = { ...filters, ...newFilters }
+    // Facets belong to one category
+    if (newFilters.category !== undefined && newFilters.category !== filters.category && !newFilters.facets) {
+      updatedFilters.facets = {}
+    }
     setFilters(updatedFilters)
     updateURL(updatedFilters, 1) // Reset to page 1 when filters change
   }
@@ -195,17 +312,30 @@ function SearchPageContent() {
     updateURL(filters, page)
   }
 
+  const handleTabChange = (type: SearchTab) => {
+    handleFilterChange({ type })
+  }
+
+  // Typing only edits the box; the search runs on submit
+  const handleQueryChange = (query: string) => {
+    setFilters(prev => ({ ...prev, query }))
+  }
+
+  const handleSearchSubmit = (query: string) => {
+    handleFilterChange({ query, type: 'all' })
+  }
+
   // SEO metadata
   const getPageTitle = () => {
     if (filters.query) {
       return `Search results for "${filters.query}" - Chittor Darpan`
     }
-    return 'Search Businesses - Chittor Darpan'
+    return 'Search Businesses, Places and Articles - Chittor Darpan'
   }
 
   const getPageDescription = () => {
     if (filters.query) {
-      return `Find businesses related to "${filters.query}" in Chittorgarh. Browse ${results.totalCount} local businesses and services.`
+      return `Find businesses, places and articles related to "${filters.query}" in Chittorgarh. Browse ${results.totalCount} matching results.`
     }
     return 'Search and discover local businesses in Chittorgarh. Find restaurants, shops, services and more.'
   }
@@ -226,8 +356,9 @@ function SearchPageContent() {
           showBackButton
           showSearch
           searchValue={filters.query}
-          onSearchChange={(value) => handleFilterChange({ query: value })}
-          searchPlaceholder="Search businesses..."
+          onSearchChange={handleQueryChange}
+          onSearchSubmit={handleSearchSubmit}
+          searchPlaceholder="Search businesses, places, articles..."
         />
         
         <div className="px-4 py-6 space-y-6">
@@ -235,12 +366,17 @@ function SearchPageContent() {
             results={results}
             filters={filters}
             categories={categories}
+            attributes={attributes}
             cities={cities}
             loading={loading || searching}
             error={error}
             onFilterChange={handleFilterChange}
             onPageChange={handlePageChange}
+            onTabChange={handleTabChange}
+            onQueryChange={handleQueryChange}
+            onSearchSubmit={handleSearchSubmit}
             onBusinessClick={(business) => router.push(`/business/${business.slug}`)}
+            onResultClick={(item) => router.push(item.url)}
           />
         </div>
       </div>
@@ -251,12 +387,17 @@ function SearchPageContent() {
           results={results}
           filters={filters}
           categories={categories}
+          attributes={attributes}
           cities={cities}
           loading={loading || searching}
           error={error}
           onFilterChange={handleFilterChange}
           onPageChange={handlePageChange}
+          onTabChange={handleTabChange}
+          onQueryChange={handleQueryChange}
+          onSearchSubmit={handleSearchSubmit}
           onBusinessClick={(business) => router.push(`/business/${business.slug}`)}
+          onResultClick={(item) => router.push(item.url)}
         />
       </div>
     </>
@@ -284,24 +425,33 @@ interface SearchContentProps {
   results: SearchResults
   filters: SearchFilters
   categories: Category[]
+  attributes: CategoryAttribute[]
   cities: City[]
   loading: boolean
   error: string | null
   onFilterChange: (filters: Partial<SearchFilters>) => void
   onPageChange: (page: number) => void
+  onTabChange: (type: SearchTab) => void
+  onQueryChange: (query: string) => void
+  onSearchSubmit: (query: string) => void
   onBusinessClick: (business: Business) => void
+  onResultClick: (item: SearchResultItem) => void
 }
 
 function MobileSearchContent({
   results,
   filters,
   categories,
+  attributes,
   cities,
   loading,
   error,
   onFilterChange,
   onPageChange,
-  onBusinessClick
+  onTabChange,
+  onSearchSubmit,
+  onBusinessClick,
+  onResultClick
 }: SearchContentProps) {
   if (error) {
     return (
@@ -329,13 +479,30 @@ function MobileSearchContent({
       <MobileFilters
         filters={filters}
         categories={categories}
+        attributes={attributes}
         cities={cities}
         onFilterChange={onFilterChange}
       />
 
+      {/* Result type tabs */}
+      {results.unified && (
+        <SearchTabs unified={results.unified} activeTab={filters.type} onTabChange={onTabChange} />
+      )}
+
       {/* Results */}
       {loading ? (
         <SearchResultsSkeleton />
+      ) : results.unified && filters.type !== 'business' && results.totalCount > 0 ? (
+        <UnifiedResultsList
+          results={results}
+          unified={results.unified}
+          activeTab={filters.type}
+          listClassName="space-y-4"
+          onTabChange={onTabChange}
+          onPageChange={onPageChange}
+          onBusinessClick={onBusinessClick}
+          onResultClick={onResultClick}
+        />
       ) : results.businesses.length > 0 ? (
         <>
           <div className="space-y-4">
@@ -344,7 +511,7 @@ function MobileSearchContent({
                 key={business.id}
                 business={business}
                 onClick={() => onBusinessClick(business)}
-                searchQuery={filters.query}
+                terms={results.unified?.terms || []}
               />
             ))}
           </div>
@@ -359,12 +526,15 @@ function MobileSearchContent({
           )}
         </>
       ) : (
-        <SearchEmptyState filters={filters} onClearFilters={() => onFilterChange({
+        <SearchEmptyState filters={filters} didYouMean={results.didYouMean} onSearch={onSearchSubmit} onClearFilters={() => onFilterChange({
           query: '',
           category: 'all',
           city: 'all',
           verified: false,
-          featured: false
+          featured: false,
+          openNow: false,
+          nearby: null,
+          facets: {}
         })} />
       )}
     </>
@@ -376,12 +546,17 @@ function DesktopSearchLayout({
   results,
   filters,
   categories,
+  attributes,
   cities,
   loading,
   error,
   onFilterChange,
   onPageChange,
-  onBusinessClick
+  onTabChange,
+  onQueryChange,
+  onSearchSubmit,
+  onBusinessClick,
+  onResultClick
 }: SearchContentProps) {
   return (
     <div className="max-w-7xl mx-auto px-8 py-12">
@@ -405,24 +580,16 @@ function DesktopSearchLayout({
         <Card>
           <CardContent className="p-6">
             <div className="flex gap-4">
-              <div className="flex-1 relative">
-                <svg 
-                  className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5"
-                  fill="none" 
-                  stroke="currentColor" 
-                  viewBox="0 0 24 24"
-                >
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
-                </svg>
-                <input
-                  type="text"
-                  placeholder="Search businesses, services..."
-                  value={filters.query}
-                  onChange={(e) => onFilterChange({ query: e.target.value })}
-                  className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-black focus:border-transparent text-lg"
-                />
-              </div>
+              <SearchAutocomplete
+                value={filters.query}
+                onChange={onQueryChange}
+                onSubmit={onSearchSubmit}
+                placeholder="Search businesses, places, articles..."
+                className="flex-1"
+                inputClassName="text-lg"
+              />
               <Button 
+                onClick={() => onSearchSubmit(filters.query)}
                 disabled={loading}
                 className="px-8 py-3 text-lg"
               >
@@ -439,6 +606,7 @@ function DesktopSearchLayout({
           <DesktopFilters
             filters={filters}
             categories={categories}
+            attributes={attributes}
             cities={cities}
             onFilterChange={onFilterChange}
           />
@@ -462,6 +630,12 @@ function DesktopSearchLayout({
           ) : (
             <>
               <SearchResultsHeader results={results} filters={filters} />
+
+              {results.unified && (
+                <div className="mt-6">
+                  <SearchTabs unified={results.unified} activeTab={filters.type} onTabChange={onTabChange} />
+                </div>
+              )}
               
               {loading ? (
                 <div className="grid grid-cols-1 xl:grid-cols-2 gap-6 mt-6">
@@ -469,6 +643,19 @@ function DesktopSearchLayout({
                     <BusinessSearchCardSkeleton key={i} />
                   ))}
                 </div>
+              ) : results.unified && filters.type !== 'business' && results.totalCount > 0 ? (
+                <div className="mt-6">
+                  <UnifiedResultsList
+                    results={results}
+                    unified={results.unified}
+                    activeTab={filters.type}
+                    listClassName="grid grid-cols-1 xl:grid-cols-2 gap-6"
+                    onTabChange={onTabChange}
+                    onPageChange={onPageChange}
+                    onBusinessClick={onBusinessClick}
+                    onResultClick={onResultClick}
+                  />
+                </div>
               ) : results.businesses.length > 0 ? (
                 <>
                   <div className="grid grid-cols-1 xl:grid-cols-2 gap-6 mt-6">
@@ -477,7 +664,7 @@ function DesktopSearchLayout({
                         key={business.id}
                         business={business}
                         onClick={() => onBusinessClick(business)}
-                        searchQuery={filters.query}
+                        terms={results.unified?.terms || []}
                       />
                     ))}
                   </div>
@@ -495,12 +682,17 @@ function DesktopSearchLayout({
               ) : (
                 <SearchEmptyState 
                   filters={filters} 
+                  didYouMean={results.didYouMean}
+                  onSearch={onSearchSubmit}
                   onClearFilters={() => onFilterChange({
                     query: '',
                     category: 'all',
                     city: 'all',
                     verified: false,
-                    featured: false
+                    featured: false,
+                    openNow: false,
+                    nearby: null,
+                    facets: {}
                   })} 
                 />
               )}
@@ -515,6 +707,10 @@ function DesktopSearchLayout({
 // Shared Components (keeping exactly the same from your original file)
 
 function SearchResultsHeader({ results, filters }: { results: SearchResults; filters: SearchFilters }) {
+  const noun = results.unified
+    ? SEARCH_TABS.find(tab => tab.value === filters.type)?.noun || 'results'
+    : 'businesses'
+
   return (
     <Card>
       <CardContent className="p-4 lg:p-6">
@@ -524,7 +720,7 @@ function SearchResultsHeader({ results, filters }: { results: SearchResults; fil
               {filters.query ? `Results for "${filters.query}"` : 'All Businesses'}
             </h2>
             <p className="text-sm lg:text-base text-gray-600">
-              {results.totalCount} businesses found
+              {results.totalCount} {noun} found
               {results.totalPages > 1 && ` • Page ${results.currentPage} of ${results.totalPages}`}
             </p>
           </div>
@@ -537,9 +733,10 @@ function SearchResultsHeader({ results, filters }: { results: SearchResults; fil
   )
 }
 
-function MobileFilters({ filters, categories, cities, onFilterChange }: {
+function MobileFilters({ filters, categories, attributes, cities, onFilterChange }: {
   filters: SearchFilters
   categories: Category[]
+  attributes: CategoryAttribute[]
   cities: City[]
   onFilterChange: (filters: Partial<SearchFilters>) => void
 }) {
@@ -604,15 +801,32 @@ function MobileFilters({ filters, categories, cities, onFilterChange }: {
             />
             <span className="text-sm text-gray-700">Featured businesses only</span>
           </label>
+
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={filters.openNow}
+              onChange={(e) => onFilterChange({ openNow: e.target.checked })}
+              className="rounded border-gray-300 text-black focus:ring-black"
+            />
+            <span className="text-sm text-gray-700">Open now</span>
+          </label>
         </div>
+
+        {/* Distance */}
+        <NearMeFilter nearby={filters.nearby} onChange={(nearby) => onFilterChange({ nearby })} />
+
+        {/* Category attributes */}
+        <AttributeFacets attributes={attributes} facets={filters.facets} onChange={(facets) => onFilterChange({ facets })} />
       </CardContent>
     </Card>
   )
 }
 
-function DesktopFilters({ filters, categories, cities, onFilterChange }: {
+function DesktopFilters({ filters, categories, attributes, cities, onFilterChange }: {
   filters: SearchFilters
   categories: Category[]
+  attributes: CategoryAttribute[]
   cities: City[]
   onFilterChange: (filters: Partial<SearchFilters>) => void
 }) {
@@ -679,8 +893,24 @@ function DesktopFilters({ filters, categories, cities, onFilterChange }: {
               />
               <span className="text-sm text-gray-700">Featured businesses</span>
             </label>
+
+            <label className="flex items-center gap-3">
+              <input
+                type="checkbox"
+                checked={filters.openNow}
+                onChange={(e) => onFilterChange({ openNow: e.target.checked })}
+                className="rounded border-gray-300 text-black focus:ring-black h-4 w-4"
+              />
+              <span className="text-sm text-gray-700">Open now</span>
+            </label>
           </div>
 
+          {/* Distance */}
+          <NearMeFilter nearby={filters.nearby} onChange={(nearby) => onFilterChange({ nearby })} />
+
+          {/* Category attributes */}
+          <AttributeFacets attributes={attributes} facets={filters.facets} onChange={(facets) => onFilterChange({ facets })} />
+
           {/* Clear Filters */}
           <Button
             variant="outline"
@@ -688,7 +918,10 @@ function DesktopFilters({ filters, categories, cities, onFilterChange }: {
               category: 'all',
               city: 'all',
               verified: false,
-              featured: false
+              featured: false,
+              openNow: false,
+              nearby: null,
+              facets: {}
             })}
             className="w-full"
           >
@@ -700,43 +933,185 @@ function DesktopFilters({ filters, categories, cities, onFilterChange }: {
   )
 }
 
-function BusinessSearchCard({ business, onClick, searchQuery }: {
-  business: Business
-  onClick: () => void
-  searchQuery: string
+function SearchTabs({ unified, activeTab, onTabChange }: {
+  unified: UnifiedSearchResults
+  activeTab: SearchTab
+  onTabChange: (type: SearchTab) => void
 }) {
-  // Highlight search terms in business name and description
-  const highlightText = (text: string, query: string) => {
-    if (!query.trim()) return text
-    
-    const regex = new RegExp(`(${query.trim()})`, 'gi')
-    const parts = text.split(regex)
-    
-    return parts.map((part, index) => 
-      regex.test(part) ? (
-        <mark key={index} className="bg-yellow-200 px-1 rounded">
-          {part}
-        </mark>
-      ) : (
-        part
-      )
+  const countFor = (tab: SearchTab) => tab === 'all'
+    ? unified.totals.business + unified.totals.tourism + unified.totals.blog
+    : unified.totals[tab]
+
+  return (
+    <div className="flex gap-2 overflow-x-auto pb-1">
+      {SEARCH_TABS.map(tab => (
+        <Button
+          key={tab.value}
+          variant={activeTab === tab.value ? 'default' : 'outline'}
+          size="sm"
+          onClick={() => onTabChange(tab.value)}
+          className="flex-shrink-0"
+        >
+          {tab.label}
+          <span className="ml-1 opacity-70">({countFor(tab.value)})</span>
+        </Button>
+      ))}
+    </div>
+  )
+}
+
+function UnifiedResultsList({
+  results,
+  unified,
+  activeTab,
+  listClassName,
+  onTabChange,
+  onPageChange,
+  onBusinessClick,
+  onResultClick
+}: {
+  results: SearchResults
+  unified: UnifiedSearchResults
+  activeTab: SearchTab
+  listClassName: string
+  onTabChange: (type: SearchTab) => void
+  onPageChange: (page: number) => void
+  onBusinessClick: (business: Business) => void
+  onResultClick: (item: SearchResultItem) => void
+}) {
+  const renderItem = (item: SearchResultItem) => item.business ? (
+    <BusinessSearchCard
+      key={item.id}
+      business={item.business}
+      onClick={() => onBusinessClick(item.business!)}
+      terms={unified.terms}
+    />
+  ) : (
+    <SearchResultCard
+      key={`${item.type}-${item.id}`}
+      item={item}
+      terms={unified.terms}
+      onClick={() => onResultClick(item)}
+    />
+  )
+
+  // The "All" tab shows a short preview of each group
+  if (activeTab === 'all') {
+    return (
+      <div className="space-y-8">
+        {SEARCH_TABS.filter(tab => tab.value !== 'all' && unified.groups[tab.value as SearchResultType].length > 0).map(tab => {
+          const type = tab.value as SearchResultType
+
+          return (
+            <section key={type}>
+              <div className="flex items-center justify-between mb-3">
+                <h3 className="text-lg font-semibold text-gray-900">{tab.label}</h3>
+                {unified.totals[type] > unified.groups[type].length && (
+                  <Button variant="ghost" size="sm" onClick={() => onTabChange(type)}>
+                    See all {unified.totals[type]}
+                  </Button>
+                )}
+              </div>
+              <div className={listClassName}>
+                {unified.groups[type].map(renderItem)}
+              </div>
+            </section>
+          )
+        })}
+      </div>
     )
   }
 
+  return (
+    <>
+      <div className={listClassName}>
+        {unified.groups[activeTab].map(renderItem)}
+      </div>
+
+      {results.totalPages > 1 && (
+        <div className="mt-6">
+          <SearchPagination
+            currentPage={results.currentPage}
+            totalPages={results.totalPages}
+            onPageChange={onPageChange}
+          />
+        </div>
+      )}
+    </>
+  )
+}
+
+function SearchResultCard({ item, terms, onClick }: {
+  item: SearchResultItem
+  terms: string[]
+  onClick: () => void
+}) {
+  const subtitle = item.place
+    ? [
+        [item.place.area_name, item.place.city_name].filter(Boolean).join(', '),
+        item.place.distance_km !== undefined ? `${formatDistance(item.place.distance_km)} away` : null
+      ].filter(Boolean).join(' · ')
+    : item.post
+      ? new Date(item.post.publishedAt).toLocaleDateString('en-US', {
+          month: 'short',
+          day: 'numeric',
+          year: 'numeric'
+        })
+      : ''
+
   return (
     <Card className="hover:shadow-lg transition-all duration-200 cursor-pointer group" onClick={onClick}>
       <CardContent className="p-4 lg:p-6">
         <div className="flex items-start gap-4">
-          {/* Business Avatar */}
           <div className="w-12 h-12 lg:w-16 lg:h-16 bg-gradient-to-br from-gray-100 to-gray-200 rounded-lg flex items-center justify-center flex-shrink-0 group-hover:from-blue-100 group-hover:to-blue-200 transition-colors">
-            <span className="text-lg lg:text-xl">🏢</span>
+            <span className="text-lg lg:text-xl">{item.type === 'tourism' ? '🏛️' : '📰'}</span>
+          </div>
+
+          <div className="flex-1 min-w-0">
+            <div className="flex items-start justify-between gap-2 mb-2">
+              <h3 className="font-semibold text-gray-900 text-base lg:text-lg group-hover:text-blue-600 transition-colors">
+                <HighlightedText text={item.title} terms={terms} />
+              </h3>
+              <Badge variant="secondary" className="text-xs flex-shrink-0">
+                {item.type === 'tourism' ? 'Place' : 'Blog'}
+              </Badge>
+            </div>
+
+            {subtitle && (
+              <p className="text-sm text-gray-600 mb-2">{subtitle}</p>
+            )}
+
+            {item.snippet && (
+              <p className="text-sm text-gray-600 line-clamp-2">
+                <HighlightedText text={item.snippet} terms={terms} />
+              </p>
+            )}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
+
+function BusinessSearchCard({ business, onClick, terms }: {
+  business: Business
+  onClick: () => void
+  terms: string[]
+}) {
+  return (
+    <Card className="hover:shadow-lg transition-all duration-200 cursor-pointer group" onClick={onClick}>
+      <CardContent className="p-4 lg:p-6">
+        <div className="flex items-start gap-4">
+          {/* Business Avatar */}
+          <div className="w-12 h-12 lg:w-16 lg:h-16 bg-gradient-to-br from-gray-100 to-gray-200 rounded-lg flex items-center justify-center flex-shrink-0 overflow-hidden group-hover:from-blue-100 group-hover:to-blue-200 transition-colors">
+            <BusinessThumbnail business={business} emojiClassName="text-lg lg:text-xl" />
           </div>
           
           {/* Business Info */}
           <div className="flex-1 min-w-0">
             <div className="flex items-start justify-between gap-2 mb-2">
               <h3 className="font-semibold text-gray-900 text-base lg:text-lg group-hover:text-blue-600 transition-colors">
-                {highlightText(business.name, searchQuery)}
+                <HighlightedText text={business.name} terms={terms} />
               </h3>
               <div className="flex gap-1 flex-shrink-0">
                 {business.is_featured && (
@@ -762,12 +1137,21 @@ function BusinessSearchCard({ business, onClick, searchQuery }: {
               <span>
                 {business.area_name ? `${business.area_name}, ` : ''}{business.city_name}
               </span>
+              {business.distance_km !== undefined && (
+                <span className="text-gray-500">· {formatDistance(business.distance_km)} away</span>
+              )}
             </div>
+
+            {/* Landmark */}
+            <NearLandmark business={business} className="mb-2" />
+
+            {/* Open status */}
+            <OpenStatusBadge hours={business.hours} overrides={business.hour_overrides} className="mb-2" />
             
             {/* Description */}
             {business.description && (
               <p className="text-sm text-gray-600 line-clamp-2 mb-3">
-                {highlightText(business.description, searchQuery)}
+                <HighlightedText text={business.description} terms={terms} />
               </p>
             )}
             
@@ -884,11 +1268,13 @@ function SearchPagination({ currentPage, totalPages, onPageChange }: {
   )
 }
 
-function SearchEmptyState({ filters, onClearFilters }: {
+function SearchEmptyState({ filters, didYouMean, onSearch, onClearFilters }: {
   filters: SearchFilters
+  didYouMean: string | null
+  onSearch: (query: string) => void
   onClearFilters: () => void
 }) {
-  const hasActiveFilters = filters.category !== 'all' || filters.city !== 'all' || filters.verified || filters.featured
+  const hasActiveFilters = filters.category !== 'all' || filters.city !== 'all' || filters.verified || filters.featured || filters.openNow || !!filters.nearby || Object.keys(filters.facets).length > 0
 
   return (
     <Card>
@@ -897,11 +1283,13 @@ function SearchEmptyState({ filters, onClearFilters }: {
           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
         </svg>
         
-        <h3 className="text-xl lg:text-2xl font-medium text-gray-900 mb-2">No businesses found</h3>
+        <h3 className="text-xl lg:text-2xl font-medium text-gray-900 mb-2">
+          {filters.query ? 'No results found' : 'No businesses found'}
+        </h3>
         
         {filters.query ? (
           <p className="text-gray-600 mb-4 lg:text-lg">
-            No businesses match "{filters.query}"
+            Nothing matches &quot;{filters.query}&quot;
             {hasActiveFilters && ' with your current filters'}.
           </p>
         ) : (
@@ -909,6 +1297,20 @@ function SearchEmptyState({ filters, onClearFilters }: {
             No businesses match your current filters.
           </p>
         )}
+
+        {didYouMean && (
+          <p className="text-gray-600 mb-4 lg:text-lg">
+            Did you mean{' '}
+            <button
+              type="button"
+              onClick={() => onSearch(didYouMean)}
+              className="font-medium text-blue-600 hover:text-blue-800 underline"
+            >
+              {didYouMean}
+            </button>
+            ?
+          </p>
+        )}
         
         <div className="space-y-3">
           {hasActiveFilters && (
@@ -8,7 +8,7 @@ import dynamic from 'next/dynamic'
 import Head from 'next/head'
 
 // Services
-import { tourismService, tourismImageService, tourismReviewService } from '@/lib/database'
+import { tourismService, tourismImageService, tourismReviewService, analyticsService } from '@/lib/database'
 import type { TourismPlace, TourismImage } from '@/lib/database'
 
 // Components
@@ -23,6 +23,11 @@ const TourismReviews = dynamic(() => import('@/components/tourism/tourism-review
   loading: () => <ReviewsSkeleton />
 })
 
+const LocationPinMap = dynamic(() => import('@/components/map/location-pin-map').then(mod => mod.LocationPinMap), {
+  ssr: false,
+  loading: () => <div className="h-48 bg-gray-100 rounded-lg animate-pulse" />
+})
+
 const TourismGallery = dynamic(() => import('@/components/tourism/tourism-gallery'), {
   ssr: false,
   loading: () => <GallerySkeleton />
@@ -32,6 +37,7 @@ const TourismGallery = dynamic(() => import('@/components/tourism/tourism-galler
 interface GalleryImage {
   id: string
   url: string
+  thumbnail_url?: string | null
   alt_text: string | null
   caption: string | null
   type: 'admin' | 'user'
@@ -79,6 +85,7 @@ export default function TourismPlacePage({ params }: PageProps) {
       }
 
       setPlace(placeData)
+      analyticsService.trackTourismPlaceView(placeData.id)
 
       // Load images in parallel
       const [adminImagesResult, userImagesResult] = await Promise.allSettled([
@@ -109,6 +116,7 @@ export default function TourismPlacePage({ params }: PageProps) {
     const adminGalleryImages: GalleryImage[] = adminImages.map(img => ({
       id: img.id,
       url: img.image_url,
+      thumbnail_url: img.thumbnail_url,
       alt_text: img.alt_text,
       caption: img.caption,
       type: 'admin' as const,
@@ -120,6 +128,7 @@ export default function TourismPlacePage({ params }: PageProps) {
     const userGalleryImages: GalleryImage[] = userImages.map(img => ({
       id: img.id,
       url: img.image_url,
+      thumbnail_url: img.thumbnail_url,
       alt_text: img.alt_text,
       caption: img.caption,
       type: 'user' as const,
@@ -545,7 +554,11 @@ function LocationCard({ place }: { place: TourismPlace }) {
       <CardHeader>
         <CardTitle>Location & Address</CardTitle>
       </CardHeader>
-      <CardContent>
+      <CardContent className="space-y-4">
+        {place.latitude !== null && place.longitude !== null && (
+          <LocationPinMap latitude={place.latitude} longitude={place.longitude} title={place.name} />
+        )}
+
         <div className="flex items-start gap-3">
           <div className="w-8 h-8 bg-red-100 rounded-full flex items-center justify-center flex-shrink-0 mt-1">
             <svg className="w-4 h-4 text-red-600" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
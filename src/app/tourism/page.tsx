@@ -1,21 +1,33 @@
 // src/app/tourism/page.tsx
 'use client'
 
-import { useState, useEffect, Suspense } from 'react'
+import { useState, useEffect, useRef, Suspense } from 'react'
 import { useRouter, useSearchParams } from 'next/navigation'
 import { tourismService, categoryService, locationService, type City } from '@/lib/database'
-import { type TourismPlace, type TourismCategory } from '@/types/database'
+import {
+  type TourismPlace,
+  type TourismCategory,
+  type TourismFilters as TourismQueryFilters
+} from '@/types/database'
 import { MobileHeader } from '@/components/mobile/mobile-header'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
+import { NearMeFilter } from '@/components/search/near-me-filter'
+import { ListingMap } from '@/components/map/listing-map'
+import { MapListToggle, type ListingView } from '@/components/map/map-list-toggle'
+import { parseNearbyParams, setNearbyParams, type MapBounds, type NearbyFilter } from '@/lib/services/geo'
+import { toMapMarkers, type MapMarker } from '@/lib/map'
+import { formatDistance } from '@/lib/utils'
 import Head from 'next/head'
 
 interface TourismFilters {
   search: string
   category: string
   city: string
-  sortBy: 'newest' | 'name' | 'featured'
+  nearby: NearbyFilter | null
+  sortBy: 'newest' | 'name' | 'featured' | 'distance'
+  view: ListingView
 }
 
 interface TourismResults {
@@ -25,6 +37,44 @@ interface TourismResults {
   totalPages: number
 }
 
+interface MapResults {
+  markers: MapMarker[]
+  loading: boolean
+  onBoundsChange: (bounds: MapBounds) => void
+}
+
+// Most pins the map loads for one view; zooming in narrows the area
+const MAP_LISTING_LIMIT = 500
+
+const toQueryFilters = (
+  search: string,
+  category: string,
+  city: string,
+  nearby: NearbyFilter | null
+): TourismQueryFilters => {
+  const queryFilters: TourismQueryFilters = {
+    status: 'published'
+  }
+
+  if (search.trim()) {
+    queryFilters.search = search.trim()
+  }
+
+  if (category !== 'all') {
+    queryFilters.categorySlug = category
+  }
+
+  if (city !== 'all') {
+    queryFilters.city = city
+  }
+
+  if (nearby) {
+    queryFilters.nearby = nearby
+  }
+
+  return queryFilters
+}
+
 // Main content component that uses useSearchParams
 function TourismPageContent() {
   const [results, setResults] = useState<TourismResults>({
@@ -37,8 +87,14 @@ function TourismPageContent() {
     search: '',
     category: 'all',
     city: 'all',
-    sortBy: 'newest'
+    nearby: null,
+    sortBy: 'newest',
+    view: 'list'
   })
+  const [mapMarkers, setMapMarkers] = useState<MapMarker[]>([])
+  const [mapLoading, setMapLoading] = useState(false)
+  const mapBoundsRef = useRef<MapBounds | null>(null)
+  const mapRequestRef = useRef(0)
   const [categories, setCategories] = useState<TourismCategory[]>([])
   const [cities, setCities] = useState<City[]>([])
   const [loading, setLoading] = useState(true)
@@ -55,21 +111,32 @@ function TourismPageContent() {
     const city = searchParams.get('city') || 'all'
     const page = parseInt(searchParams.get('page') || '1')
     const sortBy = (searchParams.get('sort') as TourismFilters['sortBy']) || 'newest'
+    const nearby = parseNearbyParams(searchParams.get('near'), searchParams.get('radius'))
+    const view: ListingView = searchParams.get('view') === 'map' ? 'map' : 'list'
 
-    setFilters({
+    const urlFilters = {
       search,
       category,
       city,
-      sortBy
-    })
+      nearby,
+      sortBy,
+      view
+    }
+    setFilters(urlFilters)
 
-    loadTourismData(search, category, city, page, sortBy)
+    // The map reports its bounds when it mounts; after that, refetch the visible area here
+    if (view === 'map' && mapBoundsRef.current) {
+      loadMapPlaces(urlFilters, mapBoundsRef.current)
+    }
+
+    loadTourismData(search, category, city, nearby, page, sortBy)
   }, [searchParams])
 
   const loadTourismData = async (
     search: string,
     category: string,
     city: string,
+    nearby: NearbyFilter | null,
     page: number,
     sortBy: TourismFilters['sortBy']
   ) => {
@@ -87,7 +154,7 @@ function TourismPageContent() {
       if (citiesResult.data) setCities(citiesResult.data)
 
       // Load tourism places
-      await loadTourismPlaces(search, category, city, page, sortBy)
+      await loadTourismPlaces(search, category, city, nearby, page, sortBy)
 
     } catch (err) {
       console.error('Error loading tourism data:', err)
@@ -101,28 +168,17 @@ function TourismPageContent() {
     search: string,
     category: string,
     city: string,
+    nearby: NearbyFilter | null,
     page: number,
     sortBy: TourismFilters['sortBy']
   ) => {
     try {
       // Build filters
-      const tourismFilters: any = {
-        status: 'published',
+      const tourismFilters: TourismQueryFilters = {
+        ...toQueryFilters(search, category, city, nearby),
         limit: 1000 // Get all, then sort and paginate client-side
       }
 
-      if (search.trim()) {
-        tourismFilters.search = search.trim()
-      }
-
-      if (category !== 'all') {
-        tourismFilters.categorySlug = category
-      }
-
-      if (city !== 'all') {
-        tourismFilters.city = city
-      }
-
       // Get tourism places
       let { data: places, error: fetchError } = await tourismService.getTourismPlaces(tourismFilters)
 
@@ -165,6 +221,8 @@ function TourismPageContent() {
           if (!a.is_featured && b.is_featured) return 1
           return new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
         })
+      case 'distance':
+        return [...places].sort((a, b) => (a.distance_km ?? Infinity) - (b.distance_km ?? Infinity))
       case 'newest':
       default:
         return [...places].sort((a, b) => 
@@ -173,6 +231,42 @@ function TourismPageContent() {
     }
   }
 
+  const loadMapPlaces = async (mapFilters: TourismFilters, bounds: MapBounds) => {
+    // Panning fires several requests; only the latest one may update the map
+    const requestId = ++mapRequestRef.current
+
+    try {
+      setMapLoading(true)
+
+      const { data: places, error: fetchError } = await tourismService.getTourismPlaces({
+        ...toQueryFilters(mapFilters.search, mapFilters.category, mapFilters.city, mapFilters.nearby),
+        bounds,
+        limit: MAP_LISTING_LIMIT
+      })
+
+      if (requestId !== mapRequestRef.current) return
+
+      if (fetchError) {
+        throw new Error('Failed to load map')
+      }
+
+      setMapMarkers(toMapMarkers(places || [], place => ({
+        subtitle: place.short_description,
+        url: `/tourism/${place.slug}`
+      })))
+
+    } catch (err) {
+      console.error('Error loading tourism map:', err)
+    } finally {
+      if (requestId === mapRequestRef.current) setMapLoading(false)
+    }
+  }
+
+  const handleMapBoundsChange = (bounds: MapBounds) => {
+    mapBoundsRef.current = bounds
+    loadMapPlaces(filters, bounds)
+  }
+
   const updateURL = (newFilters: Partial<TourismFilters>, page: number = 1) => {
     const params = new URLSearchParams()
     
@@ -180,6 +274,8 @@ function TourismPageContent() {
     if (newFilters.category && newFilters.category !== 'all') params.set('category', newFilters.category)
     if (newFilters.city && newFilters.city !== 'all') params.set('city', newFilters.city)
     if (newFilters.sortBy && newFilters.sortBy !== 'newest') params.set('sort', newFilters.sortBy)
+    setNearbyParams(params, newFilters.nearby)
+    if (newFilters.view === 'map') params.set('view', 'map')
     if (page > 1) params.set('page', page.toString())
 
     const newURL = `/tourism${params.toString() ? `?${params.toString()}` : ''}`
@@ -188,6 +284,13 @@ function TourismPageContent() {
 
   const handleFilterChange = (newFilters: Partial<TourismFilters>) => {
     const updatedFilters = { ...filters, ...newFilters }
+
+    // Nearest first when "near me" is switched on; drop that sort when it's switched off
+    if ('nearby' in newFilters) {
+      if (newFilters.nearby && !filters.nearby) updatedFilters.sortBy = 'distance'
+      if (!newFilters.nearby && updatedFilters.sortBy === 'distance') updatedFilters.sortBy = 'newest'
+    }
+
     setFilters(updatedFilters)
     updateURL(updatedFilters, 1) // Reset to page 1 when filters change
   }
@@ -243,6 +346,7 @@ function TourismPageContent() {
             onFilterChange={handleFilterChange}
             onPageChange={handlePageChange}
             onPlaceClick={(place) => router.push(`/tourism/${place.slug}`)}
+            map={{ markers: mapMarkers, loading: mapLoading, onBoundsChange: handleMapBoundsChange }}
           />
         </div>
       </div>
@@ -259,6 +363,7 @@ function TourismPageContent() {
           onFilterChange={handleFilterChange}
           onPageChange={handlePageChange}
           onPlaceClick={(place) => router.push(`/tourism/${place.slug}`)}
+          map={{ markers: mapMarkers, loading: mapLoading, onBoundsChange: handleMapBoundsChange }}
         />
       </div>
     </>
@@ -292,6 +397,7 @@ interface TourismContentProps {
   onFilterChange: (filters: Partial<TourismFilters>) => void
   onPageChange: (page: number) => void
   onPlaceClick: (place: TourismPlace) => void
+  map: MapResults
 }
 
 function MobileTourismContent({
@@ -303,7 +409,8 @@ function MobileTourismContent({
   error,
   onFilterChange,
   onPageChange,
-  onPlaceClick
+  onPlaceClick,
+  map
 }: TourismContentProps) {
   if (error) {
     return (
@@ -325,7 +432,7 @@ function MobileTourismContent({
   return (
     <>
       {/* Page Header */}
-      <TourismHeader results={results} filters={filters} />
+      <TourismHeader results={results} filters={filters} onViewChange={(view) => onFilterChange({ view })} />
 
       {/* Filters & Sort */}
       <MobileTourismFilters
@@ -336,7 +443,14 @@ function MobileTourismContent({
       />
 
       {/* Results */}
-      {loading ? (
+      {filters.view === 'map' ? (
+        <ListingMap
+          markers={map.markers}
+          loading={map.loading}
+          onBoundsChange={map.onBoundsChange}
+          className="h-[60vh]"
+        />
+      ) : loading ? (
         <TourismSkeleton />
       ) : results.places.length > 0 ? (
         <>
@@ -366,6 +480,7 @@ function MobileTourismContent({
             search: '',
             category: 'all',
             city: 'all',
+            nearby: null,
             sortBy: 'newest'
           })} 
         />
@@ -384,7 +499,8 @@ function DesktopTourismLayout({
   error,
   onFilterChange,
   onPageChange,
-  onPlaceClick
+  onPlaceClick,
+  map
 }: TourismContentProps) {
   return (
     <div className="max-w-7xl mx-auto px-8 py-12">
@@ -416,6 +532,7 @@ function DesktopTourismLayout({
               <option value="newest">Newest First</option>
               <option value="name">Name A-Z</option>
               <option value="featured">Featured First</option>
+              {filters.nearby && <option value="distance">Nearest First</option>}
             </select>
           </div>
         </div>
@@ -474,9 +591,16 @@ function DesktopTourismLayout({
             </Card>
           ) : (
             <>
-              <TourismHeader results={results} filters={filters} />
+              <TourismHeader results={results} filters={filters} onViewChange={(view) => onFilterChange({ view })} />
               
-              {loading ? (
+              {filters.view === 'map' ? (
+                <ListingMap
+                  markers={map.markers}
+                  loading={map.loading}
+                  onBoundsChange={map.onBoundsChange}
+                  className="h-[70vh] mt-6"
+                />
+              ) : loading ? (
                 <div className="grid grid-cols-1 xl:grid-cols-2 gap-6 mt-6">
                   {Array.from({ length: 6 }).map((_, i) => (
                     <TourismPlaceCardSkeleton key={i} />
@@ -511,6 +635,7 @@ function DesktopTourismLayout({
                     search: '',
                     category: 'all',
                     city: 'all',
+                    nearby: null,
                     sortBy: 'newest'
                   })} 
                 />
@@ -525,7 +650,11 @@ function DesktopTourismLayout({
 
 // Shared Components
 
-function TourismHeader({ results, filters }: { results: TourismResults; filters: TourismFilters }) {
+function TourismHeader({ results, filters, onViewChange }: {
+  results: TourismResults
+  filters: TourismFilters
+  onViewChange: (view: ListingView) => void
+}) {
   const getHeaderText = () => {
     if (filters.search) {
       return `Tourism places matching "${filters.search}"`
@@ -546,12 +675,15 @@ function TourismHeader({ results, filters }: { results: TourismResults; filters:
             </h2>
             <p className="text-sm lg:text-base text-gray-600">
               {results.totalCount} places found
-              {results.totalPages > 1 && ` • Page ${results.currentPage} of ${results.totalPages}`}
+              {filters.view === 'list' && results.totalPages > 1 && ` • Page ${results.currentPage} of ${results.totalPages}`}
             </p>
           </div>
-          <Badge variant="secondary" className="lg:text-sm">
-            {results.totalCount}
-          </Badge>
+          <div className="flex items-center gap-3">
+            <MapListToggle view={filters.view} onChange={onViewChange} />
+            <Badge variant="secondary" className="lg:text-sm">
+              {results.totalCount}
+            </Badge>
+          </div>
         </div>
       </CardContent>
     </Card>
@@ -577,6 +709,7 @@ function MobileTourismFilters({ filters, categories, cities, onFilterChange }: {
             <option value="newest">Newest</option>
             <option value="name">A-Z</option>
             <option value="featured">Featured</option>
+            {filters.nearby && <option value="distance">Nearest</option>}
           </select>
         </CardTitle>
       </CardHeader>
@@ -614,6 +747,9 @@ function MobileTourismFilters({ filters, categories, cities, onFilterChange }: {
             ))}
           </select>
         </div>
+
+        {/* Distance */}
+        <NearMeFilter nearby={filters.nearby} onChange={(nearby) => onFilterChange({ nearby })} />
       </CardContent>
     </Card>
   )
@@ -666,12 +802,16 @@ function DesktopTourismFilters({ filters, categories, cities, onFilterChange }:
             </select>
           </div>
 
+          {/* Distance */}
+          <NearMeFilter nearby={filters.nearby} onChange={(nearby) => onFilterChange({ nearby })} />
+
           {/* Clear Filters */}
           <Button
             variant="outline"
             onClick={() => onFilterChange({
               category: 'all',
-              city: 'all'
+              city: 'all',
+              nearby: null
             })}
             className="w-full"
           >
@@ -723,6 +863,9 @@ function TourismPlaceCard({ place, onClick }: {
               <span className="truncate">
                 {place.area_name ? `${place.area_name}, ` : ''}{place.city_name}
               </span>
+              {place.distance_km !== undefined && (
+                <span className="text-gray-500 flex-shrink-0">· {formatDistance(place.distance_km)} away</span>
+              )}
             </div>
             
             {/* Short Description */}
@@ -849,7 +992,7 @@ function TourismEmptyState({ filters, onClearFilters }: {
   filters: TourismFilters
   onClearFilters: () => void
 }) {
-  const hasActiveFilters = filters.search || filters.category !== 'all' || filters.city !== 'all'
+  const hasActiveFilters = filters.search || filters.category !== 'all' || filters.city !== 'all' || filters.nearby
 
   return (
     <Card>
@@ -0,0 +1,101 @@
+// src/app/unsubscribe/page.tsx
+'use client'
+
+import { Suspense, useState } from 'react'
+import { useRouter, useSearchParams } from 'next/navigation'
+import { EMAIL_CATEGORY_OPTIONS } from '@/lib/services/notifications'
+import { Button } from '@/components/ui/button'
+
+type UnsubscribeState = 'idle' | 'saving' | 'done' | 'error'
+
+// Links are opened by people, but also prefetched by mail scanners, so nothing changes until they confirm
+function UnsubscribeContent() {
+  const router = useRouter()
+  const searchParams = useSearchParams()
+  const token = searchParams.get('token') || ''
+  const [state, setState] = useState<UnsubscribeState>('idle')
+  const [error, setError] = useState<string | null>(null)
+
+  // The category travels in the clear inside the token; the server checks the signature
+  const category = token.split('.')[1]
+  const label = EMAIL_CATEGORY_OPTIONS.find(option => option.value === category)?.label.toLowerCase() || 'all emails'
+
+  const handleUnsubscribe = async () => {
+    setState('saving')
+    setError(null)
+
+    try {
+      const response = await fetch('/api/mail/unsubscribe', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token })
+      })
+
+      if (!response.ok) {
+        const result = await response.json().catch(() => ({}))
+        throw new Error(result.error || 'Failed to unsubscribe')
+      }
+
+      setState('done')
+    } catch (err) {
+      console.error('Error unsubscribing:', err)
+      setError(err instanceof Error ? err.message : 'Failed to unsubscribe')
+      setState('error')
+    }
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 px-4">
+      <div className="max-w-md w-full text-center">
+        <div className="bg-white rounded-lg shadow-lg p-8">
+          {!token ? (
+            <>
+              <h1 className="text-2xl font-bold text-gray-900 mb-4">Link not valid</h1>
+              <p className="text-gray-600 mb-8">
+                This unsubscribe link is incomplete. You can manage your emails from your profile instead.
+              </p>
+            </>
+          ) : state === 'done' ? (
+            <>
+              <h1 className="text-2xl font-bold text-gray-900 mb-4">You’re unsubscribed</h1>
+              <p className="text-gray-600 mb-8">
+                We won’t send you {label} any more. You can turn them back on from your profile at any time.
+              </p>
+            </>
+          ) : (
+            <>
+              <h1 className="text-2xl font-bold text-gray-900 mb-4">Unsubscribe</h1>
+              <p className="text-gray-600 mb-6">
+                Stop receiving {label} from Chittor Darpan?
+              </p>
+              {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+              <Button
+                onClick={handleUnsubscribe}
+                disabled={state === 'saving'}
+                className="w-full mb-3"
+              >
+                {state === 'saving' ? 'Unsubscribing...' : 'Unsubscribe'}
+              </Button>
+            </>
+          )}
+
+          <Button onClick={() => router.push('/profile')} variant="outline" className="w-full">
+            Email Settings
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default function UnsubscribePage() {
+  return (
+    <Suspense fallback={
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-black"></div>
+      </div>
+    }>
+      <UnsubscribeContent />
+    </Suspense>
+  )
+}
@@ -0,0 +1,472 @@
+// src/components/admin/admin-analytics.tsx
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import {
+  analyticsService,
+  type AdminDailyActivity,
+  type ApprovalTurnaround,
+  type CoverageGap,
+  type DateRange,
+  type TopSearch,
+  type TopViewedPage
+} from '@/lib/database'
+import { getTodayInAppTimezone } from '@/lib/utils'
+import { downloadCsv } from '@/lib/csv'
+import { TrendChart } from '@/components/analytics/trend-chart'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const MAX_RANGE_DAYS = 365
+
+const RANGE_PRESETS = [
+  { value: '7', label: 'Last 7 days' },
+  { value: '30', label: 'Last 30 days' },
+  { value: '90', label: 'Last 90 days' },
+  { value: 'custom', label: 'Custom range' }
+]
+
+type ActivityMetric = 'signups' | 'listings' | 'turnaround' | 'reviews' | 'searches'
+
+const ACTIVITY_METRICS: {
+  value: ActivityMetric
+  label: string
+  description: string
+  compareLabel?: string
+}[] = [
+  { value: 'signups', label: 'Signups', description: 'New accounts per day' },
+  { value: 'listings', label: 'Listings submitted', description: 'New listings per day, with approvals as the line', compareLabel: 'Approved' },
+  { value: 'turnaround', label: 'Approval time (hours)', description: 'Average wait of listings approved or rejected that day' },
+  { value: 'reviews', label: 'Reviews', description: 'Business and tourism reviews written per day' },
+  { value: 'searches', label: 'Searches', description: 'Searches per day, with searches that found nothing as the line', compareLabel: 'No results' }
+]
+
+const shiftDay = (day: string, days: number) =>
+  new Date(new Date(`${day}T00:00:00Z`).getTime() + days * DAY_MS).toISOString().slice(0, 10)
+
+const daysBetween = (from: string, to: string) =>
+  Math.round((new Date(`${to}T00:00:00Z`).getTime() - new Date(`${from}T00:00:00Z`).getTime()) / DAY_MS) + 1
+
+const presetRange = (days: number): DateRange => {
+  const today = getTodayInAppTimezone()
+  return { from: shiftDay(today, -(days - 1)), to: today }
+}
+
+const formatDay = (day: string) =>
+  new Date(`${day}T00:00:00`).toLocaleDateString('en-IN', { day: 'numeric', month: 'short' })
+
+const formatHours = (hours: number | null) => {
+  if (hours === null) return '—'
+  if (hours < 1) return `${Math.round(hours * 60)} min`
+  if (hours < 48) return `${hours.toFixed(1)} h`
+  return `${(hours / 24).toFixed(1)} days`
+}
+
+const formatRate = (part: number, total: number) =>
+  total > 0 ? `${Math.round((part / total) * 100)}%` : '—'
+
+const sum = (rows: AdminDailyActivity[], pick: (row: AdminDailyActivity) => number) =>
+  rows.reduce((total, row) => total + pick(row), 0)
+
+/**
+ * Site-wide trends for admins: signups, listing approvals, reviews, search
+ * demand, most viewed pages and gaps in category coverage, each exportable as CSV
+ */
+export default function AdminAnalytics() {
+  const [preset, setPreset] = useState('30')
+  const [range, setRange] = useState<DateRange>(() => presetRange(30))
+  const [metric, setMetric] = useState<ActivityMetric>('signups')
+  const [activity, setActivity] = useState<AdminDailyActivity[]>([])
+  const [turnaround, setTurnaround] = useState<ApprovalTurnaround | null>(null)
+  const [searches, setSearches] = useState<TopSearch[]>([])
+  const [viewed, setViewed] = useState<TopViewedPage[]>([])
+  const [gaps, setGaps] = useState<CoverageGap[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const rangeError = range.from > range.to
+    ? 'The start date must be on or before the end date'
+    : daysBetween(range.from, range.to) > MAX_RANGE_DAYS
+      ? `Pick a range of at most ${MAX_RANGE_DAYS} days`
+      : null
+
+  const fetchAnalytics = async () => {
+    if (rangeError) return
+
+    try {
+      setLoading(true)
+      setError(null)
+
+      const [activityResult, turnaroundResult, searchesResult, viewedResult, gapsResult] = await Promise.all([
+        analyticsService.getAdminDailyActivity(range),
+        analyticsService.getApprovalTurnaround(range),
+        analyticsService.getTopSearches(range, 25),
+        analyticsService.getTopViewed(range, 10),
+        analyticsService.getCoverageGaps(range, 50)
+      ])
+
+      if (activityResult.error || turnaroundResult.error || searchesResult.error || viewedResult.error || gapsResult.error) {
+        throw new Error('Failed to load analytics')
+      }
+
+      setActivity(activityResult.data || [])
+      setTurnaround(turnaroundResult.data)
+      setSearches(searchesResult.data || [])
+      setViewed(viewedResult.data || [])
+      setGaps(gapsResult.data || [])
+    } catch (err) {
+      console.error('Error fetching site analytics:', err)
+      setError('Failed to load analytics. Please try again.')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchAnalytics()
+  }, [range.from, range.to])
+
+  const handlePresetChange = (value: string) => {
+    setPreset(value)
+    if (value !== 'custom') {
+      setRange(presetRange(Number(value)))
+    }
+  }
+
+  const fileSuffix = `${range.from}-to-${range.to}`
+  const selected = ACTIVITY_METRICS.find(option => option.value === metric)!
+
+  const chartPoints = activity.map(row => {
+    const label = formatDay(row.day)
+    switch (metric) {
+      case 'listings':
+        return { label, value: row.listings_submitted, compare: row.listings_approved }
+      case 'turnaround':
+        return { label, value: row.avg_turnaround_hours === null ? 0 : Math.round(row.avg_turnaround_hours) }
+      case 'reviews':
+        return { label, value: row.reviews }
+      case 'searches':
+        return { label, value: row.searches, compare: row.zero_result_searches }
+      default:
+        return { label, value: row.signups }
+    }
+  })
+
+  const totals = {
+    signups: sum(activity, row => row.signups),
+    submitted: sum(activity, row => row.listings_submitted),
+    approved: sum(activity, row => row.listings_approved),
+    rejected: sum(activity, row => row.listings_rejected),
+    reviews: sum(activity, row => row.reviews),
+    searches: sum(activity, row => row.searches),
+    zeroResults: sum(activity, row => row.zero_result_searches)
+  }
+
+  const viewedBusinesses = viewed.filter(page => page.entity_type === 'business')
+  const viewedTourism = viewed.filter(page => page.entity_type === 'tourism')
+
+  const exportActivity = () => downloadCsv(`daily-activity-${fileSuffix}`, activity, [
+    { header: 'Day', value: row => row.day },
+    { header: 'Signups', value: row => row.signups },
+    { header: 'Listings submitted', value: row => row.listings_submitted },
+    { header: 'Listings approved', value: row => row.listings_approved },
+    { header: 'Listings rejected', value: row => row.listings_rejected },
+    { header: 'Average approval time (hours)', value: row => row.avg_turnaround_hours },
+    { header: 'Reviews', value: row => row.reviews },
+    { header: 'Searches', value: row => row.searches },
+    { header: 'Searches with no results', value: row => row.zero_result_searches }
+  ])
+
+  const exportSearches = () => downloadCsv(`top-searches-${fileSuffix}`, searches, [
+    { header: 'Search term', value: row => row.query },
+    { header: 'Searches', value: row => row.searches },
+    { header: 'Searches with no results', value: row => row.zero_result_searches },
+    { header: 'No result rate', value: row => formatRate(row.zero_result_searches, row.searches) }
+  ])
+
+  const exportViewed = () => downloadCsv(`most-viewed-${fileSuffix}`, viewed, [
+    { header: 'Type', value: row => row.entity_type === 'business' ? 'Business' : 'Tourism place' },
+    { header: 'Name', value: row => row.name },
+    { header: 'Slug', value: row => row.slug },
+    { header: 'Views', value: row => row.views }
+  ])
+
+  const exportGaps = () => downloadCsv(`coverage-gaps-${fileSuffix}`, gaps, [
+    { header: 'Area', value: row => row.area_name },
+    { header: 'City', value: row => row.city_name },
+    { header: 'Category', value: row => row.category_name },
+    { header: 'Listings in other areas', value: row => row.city_listings },
+    { header: 'Searches for category', value: row => row.searches }
+  ])
+
+  const inputClass = 'px-3 py-2 border border-gray-300 rounded-lg text-sm bg-white'
+
+  return (
+    <div className="space-y-6">
+      {/* Page header */}
+      <div className="flex flex-col lg:flex-row lg:items-end lg:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 mb-2">Site Analytics</h1>
+          <p className="text-gray-600">Growth, moderation speed and what people look for</p>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <select value={preset} onChange={(e) => handlePresetChange(e.target.value)} className={inputClass}>
+            {RANGE_PRESETS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+          <input
+            type="date"
+            value={range.from}
+            max={range.to}
+            onChange={(e) => {
+              if (!e.target.value) return
+              setPreset('custom')
+              setRange(prev => ({ ...prev, from: e.target.value }))
+            }}
+            className={inputClass}
+            aria-label="From"
+          />
+          <span className="text-sm text-gray-500">to</span>
+          <input
+            type="date"
+            value={range.to}
+            min={range.from}
+            max={getTodayInAppTimezone()}
+            onChange={(e) => {
+              if (!e.target.value) return
+              setPreset('custom')
+              setRange(prev => ({ ...prev, to: e.target.value }))
+            }}
+            className={inputClass}
+            aria-label="To"
+          />
+        </div>
+      </div>
+
+      {rangeError ? (
+        <Card className="border-yellow-200 bg-yellow-50">
+          <CardContent className="p-4 text-sm text-yellow-800">{rangeError}</CardContent>
+        </Card>
+      ) : error ? (
+        <Card className="border-red-200 bg-red-50">
+          <CardContent className="p-6 text-center">
+            <p className="text-red-700 mb-4">{error}</p>
+            <Button onClick={fetchAnalytics} variant="outline">
+              Try Again
+            </Button>
+          </CardContent>
+        </Card>
+      ) : loading ? (
+        <div className="text-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-black mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading analytics...</p>
+        </div>
+      ) : (
+        <>
+          {/* Totals for the period */}
+          <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4">
+            <SummaryTile label="Signups" value={totals.signups} />
+            <SummaryTile label="Listings submitted" value={totals.submitted} />
+            <SummaryTile
+              label="Listings approved"
+              value={totals.approved}
+              note={`${totals.rejected} rejected`}
+            />
+            <SummaryTile
+              label="Median approval time"
+              value={formatHours(turnaround?.median_hours ?? null)}
+              note={turnaround?.decisions ? `${turnaround.decisions} decisions` : 'No decisions'}
+            />
+            <SummaryTile label="Reviews" value={totals.reviews} />
+            <SummaryTile
+              label="Searches"
+              value={totals.searches}
+              note={`${formatRate(totals.zeroResults, totals.searches)} found nothing`}
+            />
+          </div>
+
+          {/* Daily trends */}
+          <Card>
+            <CardHeader className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+              <CardTitle>Daily activity</CardTitle>
+              <Button onClick={exportActivity} variant="outline" size="sm" disabled={activity.length === 0}>
+                Export CSV
+              </Button>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex flex-wrap gap-2">
+                {ACTIVITY_METRICS.map(option => (
+                  <button
+                    key={option.value}
+                    onClick={() => setMetric(option.value)}
+                    className={`px-3 py-1.5 text-sm rounded-full border transition-colors touch-manipulation ${
+                      metric === option.value
+                        ? 'border-black bg-black text-white'
+                        : 'border-gray-200 text-gray-700 hover:bg-gray-50'
+                    }`}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+              <p className="text-xs text-gray-500">{selected.description}</p>
+              <TrendChart
+                points={chartPoints}
+                valueLabel={selected.label}
+                compareLabel={selected.compareLabel}
+              />
+              {metric === 'turnaround' && turnaround && turnaround.decisions > 0 && (
+                <p className="text-xs text-gray-500">
+                  Across the period: average {formatHours(turnaround.average_hours)},
+                  median {formatHours(turnaround.median_hours)},
+                  and 90% of listings decided within {formatHours(turnaround.p90_hours)}.
+                  Resubmitted listings are timed from their latest submission.
+                </p>
+              )}
+            </CardContent>
+          </Card>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            {/* Search demand */}
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between gap-3">
+                <CardTitle>Top searches</CardTitle>
+                <Button onClick={exportSearches} variant="outline" size="sm" disabled={searches.length === 0}>
+                  Export CSV
+                </Button>
+              </CardHeader>
+              <CardContent>
+                {searches.length === 0 ? (
+                  <p className="text-sm text-gray-500 text-center py-8">No searches in this period</p>
+                ) : (
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-xs text-gray-500 border-b border-gray-200">
+                        <th className="py-2 font-medium">Search term</th>
+                        <th className="py-2 font-medium text-right">Searches</th>
+                        <th className="py-2 font-medium text-right">No results</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {searches.map(search => (
+                        <tr key={search.query} className="border-b border-gray-100 last:border-0">
+                          <td className="py-2 pr-2 text-gray-900 break-all">{search.query}</td>
+                          <td className="py-2 text-right text-gray-700">{search.searches}</td>
+                          <td className={`py-2 text-right ${
+                            search.zero_result_searches > search.searches / 2 ? 'text-red-600 font-medium' : 'text-gray-500'
+                          }`}>
+                            {formatRate(search.zero_result_searches, search.searches)}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Most viewed */}
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between gap-3">
+                <CardTitle>Most viewed</CardTitle>
+                <Button onClick={exportViewed} variant="outline" size="sm" disabled={viewed.length === 0}>
+                  Export CSV
+                </Button>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                <ViewedList title="Businesses" pages={viewedBusinesses} basePath="/business" />
+                <ViewedList title="Tourism places" pages={viewedTourism} basePath="/tourism" />
+                <p className="text-xs text-gray-500">View counts update every hour.</p>
+              </CardContent>
+            </Card>
+          </div>
+
+          {/* Coverage gaps */}
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between gap-3">
+              <div>
+                <CardTitle>Coverage gaps</CardTitle>
+                <p className="text-sm text-gray-600 mt-1">
+                  Areas with no published listing in a category that is listed elsewhere or that people searched for (searches from up to the last 90 days of the range)
+                </p>
+              </div>
+              <Button onClick={exportGaps} variant="outline" size="sm" disabled={gaps.length === 0}>
+                Export CSV
+              </Button>
+            </CardHeader>
+            <CardContent>
+              {gaps.length === 0 ? (
+                <p className="text-sm text-gray-500 text-center py-8">No gaps found for this period</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-xs text-gray-500 border-b border-gray-200">
+                        <th className="py-2 font-medium">Area</th>
+                        <th className="py-2 font-medium">Category</th>
+                        <th className="py-2 font-medium text-right">Listed in other areas</th>
+                        <th className="py-2 font-medium text-right">Searches</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {gaps.map(gap => (
+                        <tr key={`${gap.area_id}-${gap.category_id}`} className="border-b border-gray-100 last:border-0">
+                          <td className="py-2 pr-2 text-gray-900">
+                            {gap.area_name}
+                            {gap.city_name && <span className="text-gray-500">, {gap.city_name}</span>}
+                          </td>
+                          <td className="py-2 pr-2 text-gray-700">{gap.category_name}</td>
+                          <td className="py-2 text-right text-gray-700">{gap.city_listings}</td>
+                          <td className="py-2 text-right text-gray-700">{gap.searches}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  )
+}
+
+function SummaryTile({ label, value, note }: { label: string; value: number | string; note?: string }) {
+  return (
+    <Card>
+      <CardContent className="p-4">
+        <p className="text-xs font-medium text-gray-600 mb-1">{label}</p>
+        <p className="text-2xl font-bold text-gray-900">{value}</p>
+        {note && <p className="text-xs text-gray-500 mt-1">{note}</p>}
+      </CardContent>
+    </Card>
+  )
+}
+
+function ViewedList({ title, pages, basePath }: { title: string; pages: TopViewedPage[]; basePath: string }) {
+  return (
+    <div>
+      <p className="text-sm font-medium text-gray-900 mb-2">{title}</p>
+      {pages.length === 0 ? (
+        <p className="text-sm text-gray-500">No views in this period</p>
+      ) : (
+        <ol className="space-y-1.5">
+          {pages.map((page, index) => (
+            <li key={page.entity_id} className="flex items-center gap-3 text-sm">
+              <span className="w-5 text-right text-gray-400">{index + 1}</span>
+              <Link href={`${basePath}/${page.slug}`} className="flex-1 truncate text-gray-900 hover:underline">
+                {page.name}
+              </Link>
+              <span className="text-gray-600">{page.views}</span>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,186 @@
+// src/components/admin/admin-audit-log.tsx
+'use client'
+
+import { useState, useEffect } from 'react'
+import { auditService, type AuditEvent, type AuditFilters } from '@/lib/database'
+import { AUDIT_ACTION_LABELS, AUDIT_ENTITY_LABELS, type AuditAction, type AuditEntityType } from '@/lib/services/audit'
+import { AuditEventRow } from '@/components/admin/audit-history'
+import { Card, CardContent } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+
+const PAGE_SIZE = 50
+
+/**
+ * Filterable, newest-first view of the audit log
+ */
+export default function AdminAuditLog() {
+  const [events, setEvents] = useState<AuditEvent[]>([])
+  const [filters, setFilters] = useState<AuditFilters>({ entityType: 'all', action: 'all' })
+  const [actorInput, setActorInput] = useState('')
+  const [loading, setLoading] = useState(true)
+  const [loadingMore, setLoadingMore] = useState(false)
+  const [hasMore, setHasMore] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchEvents = async (offset: number = 0) => {
+    try {
+      if (offset === 0) {
+        setLoading(true)
+      } else {
+        setLoadingMore(true)
+      }
+      setError(null)
+
+      const { data, hasMore: more, error: fetchError } = await auditService.getEvents(filters, PAGE_SIZE, offset)
+
+      if (fetchError) {
+        throw new Error('Failed to load audit log')
+      }
+
+      setEvents(prev => offset === 0 ? data || [] : [...prev, ...(data || [])])
+      setHasMore(more)
+    } catch (err) {
+      console.error('Error fetching audit log:', err)
+      setError('Failed to load the audit log. Please try again.')
+    } finally {
+      setLoading(false)
+      setLoadingMore(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchEvents()
+  }, [filters])
+
+  // Search the actor after typing pauses
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setFilters(prev => (prev.actorSearch || '') === actorInput ? prev : { ...prev, actorSearch: actorInput })
+    }, 400)
+    return () => clearTimeout(timer)
+  }, [actorInput])
+
+  const updateFilter = (updates: Partial<AuditFilters>) => {
+    setFilters(prev => ({ ...prev, ...updates }))
+  }
+
+  const selectClass = 'px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-black focus:border-transparent'
+
+  return (
+    <div className="space-y-6">
+      {/* Page header */}
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900 mb-2">Audit Log</h1>
+        <p className="text-gray-600">Who changed what, when and why</p>
+      </div>
+
+      {/* Filters */}
+      <Card>
+        <CardContent className="p-4">
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-3">
+            <select
+              value={filters.entityType}
+              onChange={(e) => updateFilter({ entityType: e.target.value as AuditEntityType | 'all' })}
+              className={selectClass}
+            >
+              <option value="all">All entities</option>
+              {Object.entries(AUDIT_ENTITY_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+
+            <select
+              value={filters.action}
+              onChange={(e) => updateFilter({ action: e.target.value as AuditAction | 'all' })}
+              className={selectClass}
+            >
+              <option value="all">All actions</option>
+              {Object.entries(AUDIT_ACTION_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+
+            <input
+              type="text"
+              value={actorInput}
+              onChange={(e) => setActorInput(e.target.value)}
+              placeholder="Actor name or email"
+              className={selectClass}
+            />
+
+            <input
+              type="date"
+              value={filters.from || ''}
+              onChange={(e) => updateFilter({ from: e.target.value || undefined })}
+              aria-label="From date"
+              className={selectClass}
+            />
+
+            <input
+              type="date"
+              value={filters.to || ''}
+              onChange={(e) => updateFilter({ to: e.target.value || undefined })}
+              aria-label="To date"
+              className={selectClass}
+            />
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Error state */}
+      {error && (
+        <Card className="border-red-200 bg-red-50">
+          <CardContent className="p-4">
+            <div className="flex items-center gap-3">
+              <p className="text-red-700">{error}</p>
+              <Button onClick={() => fetchEvents()} variant="outline" size="sm" className="ml-auto">
+                Retry
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {loading ? (
+        <div className="text-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-black mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading audit log...</p>
+        </div>
+      ) : events.length === 0 ? (
+        <Card>
+          <CardContent className="p-8 text-center">
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No events</h3>
+            <p className="text-gray-600">Nothing matches these filters.</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <CardContent className="p-4 space-y-4">
+            {events.map(event => (
+              <div key={event.id} className="flex items-start gap-3">
+                <Badge variant="secondary" className="text-xs flex-shrink-0 mt-0.5">
+                  {AUDIT_ENTITY_LABELS[event.entity_type]}
+                </Badge>
+                <div className="flex-1 min-w-0">
+                  <AuditEventRow event={event} showEntity />
+                </div>
+              </div>
+            ))}
+
+            {hasMore && (
+              <Button
+                onClick={() => fetchEvents(events.length)}
+                disabled={loadingMore}
+                variant="outline"
+                className="w-full"
+              >
+                {loadingMore ? 'Loading...' : 'Load More'}
+              </Button>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
@@ -7,6 +7,12 @@ import { businessService, type Business, type BusinessFilters } from '@/lib/data
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
+import AdminPendingChanges from '@/components/admin/admin-pending-changes'
+import AdminPhotoModeration from '@/components/admin/admin-photo-moderation'
+import { AuditHistory, DetailsHistoryTabs } from '@/components/admin/audit-history'
+import { StatusReasonForm } from '@/components/admin/status-reason-form'
+import type { StatusDecision, StatusReason } from '@/lib/status-reasons'
+import { getErrorMessage } from '@/lib/utils'
 
 type StatusFilter = 'all' | 'pending' | 'published' | 'rejected' | 'suspended'
 
@@ -46,14 +52,18 @@ export default function AdminBusinessListings() {
   }
 
   // Update business status using clean database service
-  const updateBusinessStatus = async (businessId: string, newStatus: 'published' | 'rejected' | 'suspended') => {
+  const updateBusinessStatus = async (
+    businessId: string,
+    newStatus: 'published' | 'rejected' | 'suspended',
+    reason?: StatusReason
+  ) => {
     try {
       setActionLoading(businessId)
 
-      const { success, error } = await businessService.updateStatus(businessId, newStatus)
+      const { success, error } = await businessService.updateStatus(businessId, newStatus, reason)
 
       if (!success) {
-        throw new Error(error?.message || 'Update failed')
+        throw new Error(getErrorMessage(error, 'Update failed'))
       }
 
       // Update local state
@@ -66,9 +76,11 @@ export default function AdminBusinessListings() {
       )
 
       console.log(`✅ Business ${newStatus} successfully`)
+      return true
     } catch (err) {
       console.error('Error updating business:', err)
       alert(`Failed to ${newStatus} business. Please try again.`)
+      return false
     } finally {
       setActionLoading(null)
     }
@@ -105,6 +117,12 @@ export default function AdminBusinessListings() {
         <p className="text-gray-600">Manage all business submissions and listings</p>
       </div>
 
+      {/* Owner edits awaiting approval */}
+      <AdminPendingChanges onReviewed={fetchBusinesses} />
+
+      {/* Owner photos awaiting approval */}
+      <AdminPhotoModeration />
+
       {/* Search bar */}
       <Card>
         <CardContent className="p-4">
@@ -213,11 +231,22 @@ export default function AdminBusinessListings() {
 // Individual business card component
 interface BusinessCardProps {
   business: Business
-  onUpdateStatus: (id: string, status: 'published' | 'rejected' | 'suspended') => Promise<void>
+  onUpdateStatus: (id: string, status: 'published' | 'rejected' | 'suspended', reason?: StatusReason) => Promise<boolean>
   actionLoading: boolean
 }
 
 function BusinessCard({ business, onUpdateStatus, actionLoading }: BusinessCardProps) {
+  const [tab, setTab] = useState<'details' | 'history'>('details')
+  const [decision, setDecision] = useState<StatusDecision | null>(null)
+
+  const submitDecision = async (reason: StatusReason) => {
+    if (!decision) return
+    // Keep the form open if it fails so the note isn't lost
+    if (await onUpdateStatus(business.id, decision, reason)) {
+      setDecision(null)
+    }
+  }
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'pending': return 'bg-yellow-100 text-yellow-800'
@@ -259,156 +288,174 @@ function BusinessCard({ business, onUpdateStatus, actionLoading }: BusinessCardP
       </CardHeader>
 
       <CardContent className="space-y-4">
-        {/* Business details */}
-        <div>
-          <p className="text-sm text-gray-600 mb-2">{business.description || 'No description provided'}</p>
-          <p className="text-sm text-gray-500">{business.address}</p>
-        </div>
+        <DetailsHistoryTabs value={tab} onChange={setTab} />
 
-        {/* Owner info */}
-        {business.owner_email && (
-          <div className="flex items-center gap-2 text-sm text-gray-600">
-            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M16 7a4 4 0 11-8 0 4 4 0 018 0zM12 14a7 7 0 00-7 7h14a7 7 0 00-7-7z" />
-            </svg>
-            <span>{business.owner_name || business.owner_email}</span>
+        {tab === 'history' ? (
+          <AuditHistory entityType="business" entityId={business.id} />
+        ) : (
+          <>
+          {/* Business details */}
+          <div>
+            <p className="text-sm text-gray-600 mb-2">{business.description || 'No description provided'}</p>
+            <p className="text-sm text-gray-500">{business.address}</p>
           </div>
-        )}
-
-        {/* Contact info */}
-        <div className="flex flex-wrap gap-4 text-sm text-gray-600">
-          {business.phone && business.phone.length > 0 && (
-            <div className="flex items-center gap-2">
-              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 5a2 2 0 012-2h3.28a1 1 0 01.948.684l1.498 4.493a1 1 0 01-.502 1.21l-2.257 1.13a11.042 11.042 0 005.516 5.516l1.13-2.257a1 1 0 011.21-.502l4.493 1.498a1 1 0 01.684.949V19a2 2 0 01-2 2h-1C9.716 21 3 14.284 3 6V5z" />
-              </svg>
-              <span>{business.phone[0]}</span>
-            </div>
-          )}
-          
-          {business.email && (
-            <div className="flex items-center gap-2">
-              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 8l7.89 4.26a2 2 0 002.22 0L21 8M5 19h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v10a2 2 0 002 2z" />
-              </svg>
-              <span className="break-all">{business.email}</span>
-            </div>
-          )}
 
-          {business.website && (
-            <div className="flex items-center gap-2">
+          {/* Owner info */}
+          {business.owner_email && (
+            <div className="flex items-center gap-2 text-sm text-gray-600">
               <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 12a9 9 0 01-9 9m9-9a9 9 0 00-9-9m9 9H3m9 9v-9m0-9v9m0 9c-5 0-9-4-9-9s4-9 9-9" />
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M16 7a4 4 0 11-8 0 4 4 0 018 0zM12 14a7 7 0 00-7 7h14a7 7 0 00-7-7z" />
               </svg>
-              <span className="break-all">{business.website}</span>
+              <span>{business.owner_name || business.owner_email}</span>
             </div>
           )}
-        </div>
 
-        {/* Business details */}
-        {(business.established_year || business.employee_count) && (
+          {/* Contact info */}
           <div className="flex flex-wrap gap-4 text-sm text-gray-600">
-            {business.established_year && (
+            {business.phone && business.phone.length > 0 && (
               <div className="flex items-center gap-2">
                 <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 5a2 2 0 012-2h3.28a1 1 0 01.948.684l1.498 4.493a1 1 0 01-.502 1.21l-2.257 1.13a11.042 11.042 0 005.516 5.516l1.13-2.257a1 1 0 011.21-.502l4.493 1.498a1 1 0 01.684.949V19a2 2 0 01-2 2h-1C9.716 21 3 14.284 3 6V5z" />
                 </svg>
-                <span>Est. {business.established_year}</span>
+                <span>{business.phone[0]}</span>
               </div>
             )}
-            
-            {business.employee_count && (
+          
+            {business.email && (
+              <div className="flex items-center gap-2">
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 8l7.89 4.26a2 2 0 002.22 0L21 8M5 19h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v10a2 2 0 002 2z" />
+                </svg>
+                <span className="break-all">{business.email}</span>
+              </div>
+            )}
+
+            {business.website && (
               <div className="flex items-center gap-2">
                 <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0zm6 3a2 2 0 11-4 0 2 2 0 014 0zM7 10a2 2 0 11-4 0 2 2 0 014 0z" />
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 12a9 9 0 01-9 9m9-9a9 9 0 00-9-9m9 9H3m9 9v-9m0-9v9m0 9c-5 0-9-4-9-9s4-9 9-9" />
                 </svg>
-                <span>{business.employee_count} employees</span>
+                <span className="break-all">{business.website}</span>
               </div>
             )}
           </div>
-        )}
 
-        {/* Status badges */}
-        <div className="flex flex-wrap gap-2">
-          {business.is_featured && (
-            <Badge className="bg-purple-100 text-purple-800">
-              Featured
-            </Badge>
-          )}
-          {business.is_verified && (
-            <Badge className="bg-blue-100 text-blue-800">
-              Verified
-            </Badge>
+          {/* Business details */}
+          {(business.established_year || business.employee_count) && (
+            <div className="flex flex-wrap gap-4 text-sm text-gray-600">
+              {business.established_year && (
+                <div className="flex items-center gap-2">
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
+                  </svg>
+                  <span>Est. {business.established_year}</span>
+                </div>
+              )}
+            
+              {business.employee_count && (
+                <div className="flex items-center gap-2">
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0zm6 3a2 2 0 11-4 0 2 2 0 014 0zM7 10a2 2 0 11-4 0 2 2 0 014 0z" />
+                  </svg>
+                  <span>{business.employee_count} employees</span>
+                </div>
+              )}
+            </div>
           )}
-        </div>
-
-        {/* Dates */}
-        <div className="flex items-center justify-between text-xs text-gray-500">
-          <span>Created: {formatDate(business.created_at)}</span>
-          <span>Updated: {formatDate(business.updated_at)}</span>
-        </div>
 
-        {/* Action buttons */}
-        {business.status === 'pending' && (
-          <div className="flex gap-2 pt-2">
-            <Button
-              onClick={() => onUpdateStatus(business.id, 'published')}
-              disabled={actionLoading}
-              className="flex-1 bg-green-600 hover:bg-green-700"
-              size="sm"
-            >
-              {actionLoading ? 'Approving...' : 'Approve'}
-            </Button>
-            <Button
-              onClick={() => onUpdateStatus(business.id, 'rejected')}
-              disabled={actionLoading}
-              variant="outline"
-              className="flex-1 text-red-600 border-red-300 hover:bg-red-50"
-              size="sm"
-            >
-              {actionLoading ? 'Rejecting...' : 'Reject'}
-            </Button>
+          {/* Status badges */}
+          <div className="flex flex-wrap gap-2">
+            {business.is_featured && (
+              <Badge className="bg-purple-100 text-purple-800">
+                Featured
+              </Badge>
+            )}
+            {business.is_verified && (
+              <Badge className="bg-blue-100 text-blue-800">
+                Verified
+              </Badge>
+            )}
           </div>
-        )}
 
-        {business.status === 'published' && (
-          <div className="flex gap-2 pt-2">
-            <Button
-              onClick={() => onUpdateStatus(business.id, 'suspended')}
-              disabled={actionLoading}
-              variant="outline"
-              className="flex-1 text-orange-600 border-orange-300 hover:bg-orange-50"
-              size="sm"
-            >
-              {actionLoading ? 'Suspending...' : 'Suspend'}
-            </Button>
+          {/* Dates */}
+          <div className="flex items-center justify-between text-xs text-gray-500">
+            <span>Created: {formatDate(business.created_at)}</span>
+            <span>Updated: {formatDate(business.updated_at)}</span>
           </div>
-        )}
 
-        {business.status === 'rejected' && (
-          <div className="flex gap-2 pt-2">
-            <Button
-              onClick={() => onUpdateStatus(business.id, 'published')}
-              disabled={actionLoading}
-              className="flex-1 bg-green-600 hover:bg-green-700"
-              size="sm"
-            >
-              {actionLoading ? 'Approving...' : 'Approve'}
-            </Button>
-          </div>
-        )}
+          {/* Reason for a rejection or suspension */}
+          {decision && (
+            <StatusReasonForm
+              decision={decision}
+              loading={actionLoading}
+              onSubmit={submitDecision}
+              onCancel={() => setDecision(null)}
+            />
+          )}
 
-        {business.status === 'suspended' && (
-          <div className="flex gap-2 pt-2">
-            <Button
-              onClick={() => onUpdateStatus(business.id, 'published')}
-              disabled={actionLoading}
-              className="flex-1 bg-green-600 hover:bg-green-700"
-              size="sm"
-            >
-              {actionLoading ? 'Reactivating...' : 'Reactivate'}
-            </Button>
-          </div>
+          {/* Action buttons */}
+          {!decision && business.status === 'pending' && (
+            <div className="flex gap-2 pt-2">
+              <Button
+                onClick={() => onUpdateStatus(business.id, 'published')}
+                disabled={actionLoading}
+                className="flex-1 bg-green-600 hover:bg-green-700"
+                size="sm"
+              >
+                {actionLoading ? 'Approving...' : 'Approve'}
+              </Button>
+              <Button
+                onClick={() => setDecision('rejected')}
+                disabled={actionLoading}
+                variant="outline"
+                className="flex-1 text-red-600 border-red-300 hover:bg-red-50"
+                size="sm"
+              >
+                Reject
+              </Button>
+            </div>
+          )}
+
+          {!decision && business.status === 'published' && (
+            <div className="flex gap-2 pt-2">
+              <Button
+                onClick={() => setDecision('suspended')}
+                disabled={actionLoading}
+                variant="outline"
+                className="flex-1 text-orange-600 border-orange-300 hover:bg-orange-50"
+                size="sm"
+              >
+                Suspend
+              </Button>
+            </div>
+          )}
+
+          {business.status === 'rejected' && (
+            <div className="flex gap-2 pt-2">
+              <Button
+                onClick={() => onUpdateStatus(business.id, 'published')}
+                disabled={actionLoading}
+                className="flex-1 bg-green-600 hover:bg-green-700"
+                size="sm"
+              >
+                {actionLoading ? 'Approving...' : 'Approve'}
+              </Button>
+            </div>
+          )}
+
+          {business.status === 'suspended' && (
+            <div className="flex gap-2 pt-2">
+              <Button
+                onClick={() => onUpdateStatus(business.id, 'published')}
+                disabled={actionLoading}
+                className="flex-1 bg-green-600 hover:bg-green-700"
+                size="sm"
+              >
+                {actionLoading ? 'Reactivating...' : 'Reactivate'}
+              </Button>
+            </div>
+          )}
+          </>
         )}
       </CardContent>
     </Card>
@@ -0,0 +1,496 @@
+// src/components/admin/admin-categories.tsx
+'use client'
+
+import { useState, useEffect } from 'react'
+import {
+  categoryAdminService,
+  type AdminCategory,
+  type CategoryFeatureType,
+  type CategoryFormData
+} from '@/lib/database'
+import { buildCategoryTree, getCategoryChildren, getCategoryDescendantIds, type CategoryNode } from '@/lib/category-tree'
+import { createSlug, getErrorMessage } from '@/lib/utils'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { CategoryAttributesPanel } from '@/components/admin/category-attributes-panel'
+
+const FEATURE_TYPES: { value: CategoryFeatureType; label: string }[] = [
+  { value: 'business', label: 'Business categories' },
+  { value: 'tourism', label: 'Tourism categories' }
+]
+
+const EMPTY_FORM: CategoryFormData = { name: '', slug: '', description: '', parentId: null }
+
+type Editor =
+  | { mode: 'create' }
+  | { mode: 'edit'; category: AdminCategory }
+
+type PendingAction = {
+  kind: 'merge' | 'deactivate'
+  category: AdminCategory
+  targetId: string
+}
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm bg-white focus:ring-2 focus:ring-black focus:border-transparent'
+
+/**
+ * Flatten a tree into display order with each category's depth, for selects
+ */
+const flattenTree = (nodes: CategoryNode<AdminCategory>[], depth = 0): { category: AdminCategory; depth: number }[] =>
+  nodes.flatMap(node => [{ category: node, depth }, ...flattenTree(node.children, depth + 1)])
+
+/**
+ * Category taxonomy for admins: nest, rename and reorder categories, merge
+ * duplicates and switch off ones no longer needed. Listings are always moved
+ * somewhere first, so no business is left without its category.
+ */
+export default function AdminCategories() {
+  const [featureType, setFeatureType] = useState<CategoryFeatureType>('business')
+  const [categories, setCategories] = useState<AdminCategory[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+  const [busy, setBusy] = useState(false)
+
+  const [editor, setEditor] = useState<Editor | null>(null)
+  const [form, setForm] = useState<CategoryFormData>(EMPTY_FORM)
+  const [slugEdited, setSlugEdited] = useState(false)
+  const [pending, setPending] = useState<PendingAction | null>(null)
+  const [attributesFor, setAttributesFor] = useState<AdminCategory | null>(null)
+
+  const fetchCategories = async () => {
+    try {
+      setLoading(true)
+      setError(null)
+
+      const { data, error: fetchError } = await categoryAdminService.getAll(featureType)
+
+      if (fetchError) {
+        throw new Error('Failed to load categories')
+      }
+
+      setCategories(data || [])
+    } catch (err) {
+      console.error('Error fetching categories:', err)
+      setError('Failed to load categories. Please try again.')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    setEditor(null)
+    setPending(null)
+    setAttributesFor(null)
+    setMessage(null)
+    fetchCategories()
+  }, [featureType])
+
+  const tree = buildCategoryTree(categories)
+  const activeOptions = flattenTree(buildCategoryTree(categories.filter(category => category.is_active)))
+  const nameOf = (categoryId: string | null) =>
+    categories.find(category => category.id === categoryId)?.name || 'another category'
+
+  // A category can't sit under itself or one of its own subcategories
+  const parentOptions = editor?.mode === 'edit'
+    ? activeOptions.filter(option => !getCategoryDescendantIds(categories, editor.category.id).includes(option.category.id))
+    : activeOptions
+
+  // Listings can go to any active category outside the one being removed
+  const targetOptions = pending
+    ? activeOptions.filter(option => !getCategoryDescendantIds(categories, pending.category.id).includes(option.category.id))
+    : []
+
+  const openCreate = (parentId: string | null = null) => {
+    setPending(null)
+    setMessage(null)
+    setEditor({ mode: 'create' })
+    setForm({ ...EMPTY_FORM, parentId })
+    setSlugEdited(false)
+  }
+
+  const openEdit = (category: AdminCategory) => {
+    setPending(null)
+    setMessage(null)
+    setEditor({ mode: 'edit', category })
+    setForm({
+      name: category.name,
+      slug: category.slug,
+      description: category.description || '',
+      parentId: category.parent_id
+    })
+    setSlugEdited(true)
+  }
+
+  const openAction = (kind: PendingAction['kind'], category: AdminCategory) => {
+    setEditor(null)
+    setMessage(null)
+    setPending({ kind, category, targetId: '' })
+  }
+
+  const handleNameChange = (name: string) => {
+    setForm(prev => ({ ...prev, name, slug: slugEdited ? prev.slug : createSlug(name) }))
+  }
+
+  const handleSave = async () => {
+    if (!editor) return
+
+    const formData = { ...form, slug: createSlug(form.slug) }
+
+    if (!formData.name.trim() || !formData.slug) {
+      setMessage('Name and slug are required')
+      return
+    }
+
+    setBusy(true)
+    setMessage(null)
+
+    if (editor.mode === 'create') {
+      const siblings = getCategoryChildren(categories, formData.parentId)
+      const sortOrder = siblings.reduce((max, sibling) => Math.max(max, sibling.sort_order), 0) + 1
+      const { error: createError } = await categoryAdminService.create(featureType, formData, sortOrder)
+
+      if (createError) {
+        setMessage(getErrorMessage(createError, 'Failed to create category. Please try again.'))
+      } else {
+        setMessage(`Added ${form.name.trim()}`)
+        setEditor(null)
+        await fetchCategories()
+      }
+    } else {
+      const { success, error: updateError } = await categoryAdminService.update(editor.category, formData)
+
+      if (!success) {
+        setMessage(getErrorMessage(updateError, 'Failed to save category. Please try again.'))
+      } else {
+        setMessage(`Saved ${form.name.trim()}`)
+        setEditor(null)
+        await fetchCategories()
+      }
+    }
+
+    setBusy(false)
+  }
+
+  const handleMove = async (category: AdminCategory, direction: -1 | 1) => {
+    const siblings = getCategoryChildren(categories, category.parent_id)
+    const index = siblings.findIndex(sibling => sibling.id === category.id)
+    const swapWith = index + direction
+
+    if (index < 0 || swapWith < 0 || swapWith >= siblings.length) return
+
+    const ids = siblings.map(sibling => sibling.id)
+    ;[ids[index], ids[swapWith]] = [ids[swapWith], ids[index]]
+
+    setBusy(true)
+    setMessage(null)
+
+    const { success } = await categoryAdminService.reorder(ids)
+
+    if (!success) {
+      setMessage('Failed to reorder categories. Please try again.')
+    } else {
+      await fetchCategories()
+    }
+
+    setBusy(false)
+  }
+
+  const handleConfirmAction = async () => {
+    if (!pending) return
+
+    const target = categories.find(category => category.id === pending.targetId) || null
+
+    if (pending.kind === 'merge' && !target) {
+      setMessage('Choose the category to merge into')
+      return
+    }
+
+    setBusy(true)
+    setMessage(null)
+
+    const { data: moved, error: actionError } = pending.kind === 'merge'
+      ? await categoryAdminService.merge(pending.category, target!)
+      : await categoryAdminService.setActive(pending.category, false, target)
+
+    if (actionError) {
+      setMessage(getErrorMessage(actionError, 'Something went wrong. Please try again.'))
+    } else {
+      const movedNote = moved ? ` and moved ${moved} listing${moved !== 1 ? 's' : ''} to ${target?.name}` : ''
+      setMessage(pending.kind === 'merge'
+        ? `Merged ${pending.category.name} into ${target!.name}${movedNote}`
+        : `Deactivated ${pending.category.name}${movedNote}`)
+      setPending(null)
+      await fetchCategories()
+    }
+
+    setBusy(false)
+  }
+
+  const handleReactivate = async (category: AdminCategory) => {
+    setBusy(true)
+    setMessage(null)
+
+    const { error: activateError } = await categoryAdminService.setActive(category, true)
+
+    if (activateError) {
+      setMessage(getErrorMessage(activateError, 'Failed to reactivate category. Please try again.'))
+    } else {
+      setMessage(`Reactivated ${category.name}`)
+      await fetchCategories()
+    }
+
+    setBusy(false)
+  }
+
+  const renderNode = (node: CategoryNode<AdminCategory>, depth: number, index: number, siblingCount: number) => (
+    <div key={node.id}>
+      <div
+        className={`flex flex-col md:flex-row md:items-center md:justify-between gap-2 py-3 border-b border-gray-100 ${
+          node.is_active ? '' : 'opacity-60'
+        }`}
+        style={{ paddingLeft: `${depth * 1.5}rem` }}
+      >
+        <div className="min-w-0">
+          <div className="flex items-center flex-wrap gap-2">
+            <span className="font-medium text-gray-900">{node.name}</span>
+            {!node.is_active && (
+              <Badge className="bg-gray-100 text-gray-700 text-xs">
+                {node.merged_into_id ? `Merged into ${nameOf(node.merged_into_id)}` : 'Inactive'}
+              </Badge>
+            )}
+          </div>
+          <p className="text-xs text-gray-500">/{node.slug}</p>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-1">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => handleMove(node, -1)}
+            disabled={busy || index === 0}
+            aria-label={`Move ${node.name} up`}
+          >
+            ↑
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => handleMove(node, 1)}
+            disabled={busy || index === siblingCount - 1}
+            aria-label={`Move ${node.name} down`}
+          >
+            ↓
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => openEdit(node)} disabled={busy}>
+            Edit
+          </Button>
+          {featureType === 'business' && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setAttributesFor(attributesFor?.id === node.id ? null : node)}
+              disabled={busy}
+            >
+              Attributes
+            </Button>
+          )}
+          {node.is_active ? (
+            <>
+              <Button variant="outline" size="sm" onClick={() => openCreate(node.id)} disabled={busy}>
+                Add subcategory
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => openAction('merge', node)} disabled={busy}>
+                Merge
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => openAction('deactivate', node)} disabled={busy}>
+                Deactivate
+              </Button>
+            </>
+          ) : (
+            <Button variant="outline" size="sm" onClick={() => handleReactivate(node)} disabled={busy}>
+              Reactivate
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {pending?.category.id === node.id && (
+        <div className="my-3 p-4 rounded-lg bg-gray-50 border border-gray-200 space-y-3" style={{ marginLeft: `${depth * 1.5}rem` }}>
+          <p className="text-sm text-gray-700">
+            {pending.kind === 'merge'
+              ? `Listings, tourism places and subcategories of ${node.name} will move to the category you choose. Old links to ${node.name} will redirect there.`
+              : `If ${node.name} still has listings, choose where they should go. Subcategories must be moved or deactivated first.`}
+          </p>
+          <select
+            value={pending.targetId}
+            onChange={(e) => setPending({ ...pending, targetId: e.target.value })}
+            className={inputClass}
+          >
+            <option value="">{pending.kind === 'merge' ? 'Choose a category...' : 'No listings to move'}</option>
+            {targetOptions.map(option => (
+              <option key={option.category.id} value={option.category.id}>
+                {'— '.repeat(option.depth)}{option.category.name}
+              </option>
+            ))}
+          </select>
+          <div className="flex gap-2">
+            <Button size="sm" onClick={handleConfirmAction} disabled={busy}>
+              {busy ? 'Working...' : pending.kind === 'merge' ? 'Merge' : 'Deactivate'}
+            </Button>
+            <Button size="sm" variant="outline" onClick={() => setPending(null)} disabled={busy}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {attributesFor?.id === node.id && (
+        <div className="my-3 p-4 rounded-lg bg-gray-50 border border-gray-200" style={{ marginLeft: `${depth * 1.5}rem` }}>
+          <CategoryAttributesPanel category={node} onClose={() => setAttributesFor(null)} />
+        </div>
+      )}
+
+      {node.children.map((child, childIndex) => renderNode(child, depth + 1, childIndex, node.children.length))}
+    </div>
+  )
+
+  return (
+    <div className="space-y-6">
+      {/* Page header */}
+      <div className="flex flex-col lg:flex-row lg:items-end lg:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 mb-2">Categories</h1>
+          <p className="text-gray-600">Organise categories into subcategories, set the attributes owners fill in, merge duplicates and retire old ones</p>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            value={featureType}
+            onChange={(e) => setFeatureType(e.target.value as CategoryFeatureType)}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm bg-white"
+          >
+            {FEATURE_TYPES.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+          <Button onClick={() => openCreate()} disabled={busy}>
+            Add Category
+          </Button>
+        </div>
+      </div>
+
+      {message && (
+        <Card>
+          <CardContent className="p-4 text-sm text-gray-700">{message}</CardContent>
+        </Card>
+      )}
+
+      {/* Create / edit form */}
+      {editor && (
+        <Card>
+          <CardHeader>
+            <CardTitle>{editor.mode === 'create' ? 'New category' : `Edit ${editor.category.name}`}</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+                <input
+                  type="text"
+                  value={form.name}
+                  onChange={(e) => handleNameChange(e.target.value)}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Slug</label>
+                <input
+                  type="text"
+                  value={form.slug}
+                  onChange={(e) => {
+                    setSlugEdited(true)
+                    setForm(prev => ({ ...prev, slug: e.target.value.toLowerCase() }))
+                  }}
+                  className={inputClass}
+                />
+                {editor.mode === 'edit' && createSlug(form.slug) !== editor.category.slug && (
+                  <p className="text-xs text-yellow-700 mt-1">Changing the slug breaks existing links to this category</p>
+                )}
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Parent category</label>
+              <select
+                value={form.parentId || ''}
+                onChange={(e) => setForm(prev => ({ ...prev, parentId: e.target.value || null }))}
+                className={inputClass}
+              >
+                <option value="">None (top level)</option>
+                {parentOptions.map(option => (
+                  <option key={option.category.id} value={option.category.id}>
+                    {'— '.repeat(option.depth)}{option.category.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Description</label>
+              <textarea
+                value={form.description || ''}
+                onChange={(e) => setForm(prev => ({ ...prev, description: e.target.value }))}
+                rows={2}
+                className={inputClass}
+              />
+            </div>
+
+            <div className="flex gap-2">
+              <Button onClick={handleSave} disabled={busy} size="sm">
+                {busy ? 'Saving...' : editor.mode === 'create' ? 'Add Category' : 'Save Changes'}
+              </Button>
+              <Button onClick={() => setEditor(null)} disabled={busy} size="sm" variant="outline">
+                Cancel
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Category tree */}
+      {error ? (
+        <Card className="border-red-200 bg-red-50">
+          <CardContent className="p-6 text-center">
+            <p className="text-red-700 mb-4">{error}</p>
+            <Button onClick={fetchCategories} variant="outline">
+              Try Again
+            </Button>
+          </CardContent>
+        </Card>
+      ) : loading ? (
+        <div className="text-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-black mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading categories...</p>
+        </div>
+      ) : (
+        <Card>
+          <CardHeader>
+            <CardTitle>
+              {categories.filter(category => category.is_active).length} active
+              {' '}of {categories.length} categories
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {tree.length === 0 ? (
+              <p className="text-sm text-gray-500 text-center py-6">No categories yet</p>
+            ) : (
+              tree.map((node, index) => renderNode(node, 0, index, tree.length))
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,276 @@
+// src/components/admin/admin-claims.tsx
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useAuth } from '@/lib/auth'
+import { claimService, type BusinessClaim, type ClaimStatus } from '@/lib/database'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { getErrorMessage } from '@/lib/utils'
+
+const statusFilters: { key: ClaimStatus; label: string }[] = [
+  { key: 'pending_review', label: 'Awaiting Review' },
+  { key: 'pending_verification', label: 'Awaiting Code' },
+  { key: 'approved', label: 'Approved' },
+  { key: 'rejected', label: 'Rejected' }
+]
+
+const METHOD_LABELS: Record<BusinessClaim['method'], string> = {
+  email: 'Email code',
+  phone: 'Phone code',
+  document: 'Document'
+}
+
+/**
+ * Admin review of business ownership claims
+ */
+export default function AdminClaims() {
+  const { user } = useAuth()
+  const [claims, setClaims] = useState<BusinessClaim[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [statusFilter, setStatusFilter] = useState<ClaimStatus>('pending_review')
+  const [actionLoading, setActionLoading] = useState<string | null>(null)
+
+  const fetchClaims = async () => {
+    try {
+      setLoading(true)
+      setError(null)
+
+      const { data, error: fetchError } = await claimService.getClaimsForReview(statusFilter)
+
+      if (fetchError) {
+        throw new Error('Failed to load claims')
+      }
+
+      setClaims(data || [])
+    } catch (err) {
+      console.error('Error fetching claims:', err)
+      setError('Failed to load claims. Please try again.')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchClaims()
+  }, [statusFilter])
+
+  const review = async (claim: BusinessClaim, decision: 'approved' | 'rejected', note: string) => {
+    if (!user) return
+
+    if (decision === 'rejected' && !note.trim()) {
+      alert('Please add a note explaining the rejection.')
+      return
+    }
+
+    try {
+      setActionLoading(claim.id)
+
+      const { success, error: reviewError } = await claimService.reviewClaim(claim, user.id, decision, note)
+
+      if (!success) {
+        throw new Error(getErrorMessage(reviewError, 'Failed to review claim'))
+      }
+
+      // Approving closes the other open claims for the same business
+      setClaims(prev => prev.filter(other =>
+        other.id !== claim.id && !(decision === 'approved' && other.business_id === claim.business_id)
+      ))
+    } catch (err) {
+      console.error('Error reviewing claim:', err)
+      alert('Failed to review claim. Please try again.')
+    } finally {
+      setActionLoading(null)
+    }
+  }
+
+  const openDocument = async (path: string) => {
+    const { data, error: urlError } = await claimService.getDocumentUrl(path)
+    if (urlError || !data) {
+      alert('Could not open the document.')
+      return
+    }
+    window.open(data, '_blank', 'noopener,noreferrer')
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Page header */}
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900 mb-2">Business Claims</h1>
+        <p className="text-gray-600">Requests from owners to take over their listings</p>
+      </div>
+
+      {/* Status filters */}
+      <Card>
+        <CardContent className="p-4">
+          <div className="flex gap-2 overflow-x-auto pb-2">
+            {statusFilters.map(filter => (
+              <button
+                key={filter.key}
+                onClick={() => setStatusFilter(filter.key)}
+                className={`px-4 py-2 rounded-lg text-sm font-medium whitespace-nowrap transition-colors touch-manipulation ${
+                  statusFilter === filter.key
+                    ? 'bg-black text-white'
+                    : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                }`}
+              >
+                {filter.label}
+              </button>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Error state */}
+      {error && (
+        <Card className="border-red-200 bg-red-50">
+          <CardContent className="p-4">
+            <div className="flex items-center gap-3">
+              <p className="text-red-700">{error}</p>
+              <Button onClick={fetchClaims} variant="outline" size="sm" className="ml-auto">
+                Retry
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {loading ? (
+        <div className="text-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-black mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading claims...</p>
+        </div>
+      ) : claims.length === 0 ? (
+        <Card>
+          <CardContent className="p-8 text-center">
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No claims</h3>
+            <p className="text-gray-600">
+              {statusFilter === 'pending_review' ? 'Nothing needs review right now.' : 'No claims with this status.'}
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-4">
+          {claims.map(claim => (
+            <ClaimCard
+              key={claim.id}
+              claim={claim}
+              onReview={(decision, note) => review(claim, decision, note)}
+              onOpenDocument={openDocument}
+              actionLoading={actionLoading === claim.id}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+// One claim with its evidence
+interface ClaimCardProps {
+  claim: BusinessClaim
+  onReview: (decision: 'approved' | 'rejected', note: string) => void
+  onOpenDocument: (path: string) => void
+  actionLoading: boolean
+}
+
+function ClaimCard({ claim, onReview, onOpenDocument, actionLoading }: ClaimCardProps) {
+  const [note, setNote] = useState('')
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric'
+    })
+  }
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-start justify-between gap-4">
+          <div className="min-w-0">
+            <div className="flex items-center gap-2 mb-1">
+              <Badge variant="secondary" className="text-xs">{METHOD_LABELS[claim.method]}</Badge>
+              {claim.verified_at && (
+                <Badge className="bg-green-100 text-green-800 text-xs">Code verified</Badge>
+              )}
+            </div>
+            <CardTitle className="text-base">
+              {claim.business_slug ? (
+                <a href={`/business/${claim.business_slug}`} target="_blank" rel="noopener noreferrer" className="hover:text-blue-600">
+                  {claim.business_name}
+                </a>
+              ) : (
+                claim.business_name || 'Business'
+              )}
+            </CardTitle>
+          </div>
+          <span className="text-xs text-gray-500 flex-shrink-0">{formatDate(claim.created_at)}</span>
+        </div>
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        <div className="text-sm space-y-1">
+          <p className="text-gray-900">
+            {claim.claimant_name || 'User'}
+            {claim.claimant_email && <span className="text-gray-500"> · {claim.claimant_email}</span>}
+          </p>
+          {claim.contact_value && (
+            <p className="text-gray-600">Verified via {claim.contact_value}</p>
+          )}
+          {claim.message && (
+            <p className="text-gray-700 bg-gray-50 rounded-lg p-3 whitespace-pre-line break-words">{claim.message}</p>
+          )}
+        </div>
+
+        {claim.document_path && (
+          <Button onClick={() => onOpenDocument(claim.document_path!)} variant="outline" size="sm">
+            View Document
+          </Button>
+        )}
+
+        {claim.status === 'pending_review' ? (
+          <div className="space-y-2 pt-2 border-t border-gray-100">
+            <input
+              type="text"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="Note to the claimant (required to reject)"
+              maxLength={200}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-black focus:border-transparent"
+            />
+            <div className="flex gap-2">
+              <Button
+                onClick={() => onReview('approved', note)}
+                disabled={actionLoading}
+                size="sm"
+                className="flex-1 bg-green-600 hover:bg-green-700"
+              >
+                Approve & Transfer
+              </Button>
+              <Button
+                onClick={() => onReview('rejected', note)}
+                disabled={actionLoading}
+                variant="outline"
+                size="sm"
+                className="flex-1 text-red-600 border-red-200 hover:bg-red-50"
+              >
+                Reject
+              </Button>
+            </div>
+          </div>
+        ) : (
+          claim.review_note && (
+            <p className="text-xs text-gray-500 pt-2 border-t border-gray-100">
+              Note: {claim.review_note}
+            </p>
+          )
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -172,7 +172,7 @@ export default function AdminOverview() {
           iconColor="text-purple-600"
         />
 
-<Card>
+<Card interactive onClick={() => router.push('/dashboard/admin/reviews')}>
   <CardContent className="p-4 text-center">
     <div className="text-2xl font-bold text-yellow-600">{reviewCounts?.pending || 0}</div>
     <div className="text-sm text-gray-600">Pending Reviews</div>
@@ -222,6 +222,42 @@ export default function AdminOverview() {
                 </div>
               </div>
             </Button>
+
+            <Button
+              onClick={() => router.push('/dashboard/admin/reviews')}
+              className="justify-start h-auto p-4"
+              variant="outline"
+            >
+              <div className="flex items-center gap-3">
+                <div className="p-2 bg-orange-100 rounded-lg">
+                  <svg className="w-5 h-5 text-orange-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11.049 2.927c.3-.921 1.603-.921 1.902 0l1.519 4.674a1 1 0 00.95.69h4.915c.969 0 1.371 1.24.588 1.81l-3.976 2.888a1 1 0 00-.363 1.118l1.518 4.674c.3.922-.755 1.688-1.538 1.118l-3.976-2.888a1 1 0 00-1.176 0l-3.976 2.888c-.783.57-1.838-.197-1.538-1.118l1.518-4.674a1 1 0 00-.363-1.118l-3.976-2.888c-.784-.57-.38-1.81.588-1.81h4.914a1 1 0 00.951-.69l1.519-4.674z" />
+                  </svg>
+                </div>
+                <div className="text-left">
+                  <div className="font-medium">Moderate Reviews</div>
+                  <div className="text-sm text-gray-600">{reviewCounts.pending} awaiting approval</div>
+                </div>
+              </div>
+            </Button>
+
+            <Button
+              onClick={() => router.push('/dashboard/admin/analytics')}
+              className="justify-start h-auto p-4"
+              variant="outline"
+            >
+              <div className="flex items-center gap-3">
+                <div className="p-2 bg-purple-100 rounded-lg">
+                  <svg className="w-5 h-5 text-purple-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 12l3-3 3 3 4-4M8 21l4-4 4 4M3 4h18M4 4h16v12a1 1 0 01-1 1H5a1 1 0 01-1-1V4z" />
+                  </svg>
+                </div>
+                <div className="text-left">
+                  <div className="font-medium">Site Analytics</div>
+                  <div className="text-sm text-gray-600">Signups, approvals, searches and coverage</div>
+                </div>
+              </div>
+            </Button>
           </div>
         </CardContent>
       </Card>
@@ -0,0 +1,282 @@
+// src/components/admin/admin-pending-changes.tsx
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useAuth } from '@/lib/auth'
+import {
+  businessService,
+  categoryService,
+  categoryAttributeService,
+  locationService,
+  type BusinessFormData,
+  type BusinessPendingChange,
+  type Area,
+  type Landmark,
+  type Category,
+  type CategoryAttribute,
+  type City
+} from '@/lib/database'
+import { formatAttributeValue } from '@/lib/services/category-attributes'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { getErrorMessage } from '@/lib/utils'
+
+interface FieldChange {
+  label: string
+  before: string
+  after: string
+}
+
+const FIELD_LABELS: { key: keyof BusinessFormData; label: string }[] = [
+  { key: 'name', label: 'Name' },
+  { key: 'description', label: 'Description' },
+  { key: 'address', label: 'Address' },
+  { key: 'city_id', label: 'City' },
+  { key: 'area_id', label: 'Area' },
+  { key: 'landmark_id', label: 'Landmark' },
+  { key: 'phone', label: 'Phone' },
+  { key: 'email', label: 'Email' },
+  { key: 'website', label: 'Website' },
+  { key: 'whatsapp', label: 'WhatsApp' },
+  { key: 'established_year', label: 'Established' },
+  { key: 'employee_count', label: 'Employees' },
+  { key: 'category_ids', label: 'Categories' },
+  { key: 'primary_category_id', label: 'Primary category' },
+  { key: 'attributes', label: 'Features' },
+  { key: 'latitude', label: 'Latitude' },
+  { key: 'longitude', label: 'Longitude' }
+]
+
+/**
+ * Owner edits to published listings, waiting for approval
+ */
+export default function AdminPendingChanges({ onReviewed }: { onReviewed?: () => void }) {
+  const { user } = useAuth()
+  const [changes, setChanges] = useState<BusinessPendingChange[]>([])
+  const [cities, setCities] = useState<City[]>([])
+  const [areas, setAreas] = useState<Area[]>([])
+  const [landmarks, setLandmarks] = useState<Landmark[]>([])
+  const [categories, setCategories] = useState<Category[]>([])
+  const [attributes, setAttributes] = useState<CategoryAttribute[]>([])
+  const [loading, setLoading] = useState(true)
+  const [actionLoading, setActionLoading] = useState<string | null>(null)
+
+  const fetchChanges = async () => {
+    try {
+      setLoading(true)
+
+      const [changesResult, citiesResult, categoriesResult] = await Promise.all([
+        businessService.getPendingChanges(),
+        locationService.getCities(),
+        categoryService.getBusinessCategories()
+      ])
+
+      if (changesResult.error) {
+        throw new Error('Failed to load pending changes')
+      }
+
+      const pendingChanges = changesResult.data || []
+      setChanges(pendingChanges)
+      if (citiesResult.data) setCities(citiesResult.data)
+      if (categoriesResult.data) setCategories(categoriesResult.data)
+
+      // Area names for every city involved, so area edits read as names
+      const cityIds = new Set(pendingChanges.flatMap(change => [change.changes.city_id, change.current?.city_id]))
+      const areaResults = await Promise.all(
+        [...cityIds].filter((id): id is string => !!id).map(id => locationService.getAreasByCity(id))
+      )
+      setAreas(areaResults.flatMap(result => result.data || []))
+
+      const areaIds = new Set(pendingChanges.flatMap(change => [change.changes.area_id, change.current?.area_id]))
+      const landmarkResults = await Promise.all(
+        [...areaIds].filter((id): id is string => !!id).map(id => locationService.getLandmarksByArea(id))
+      )
+      setLandmarks(landmarkResults.flatMap(result => result.data || []))
+
+      // Attribute definitions for every category involved, so values read as labels
+      const categoryIds = new Set(pendingChanges.flatMap(change => [...change.changes.category_ids, ...(change.current?.category_ids || [])]))
+      const { data: attributeData } = await categoryAttributeService.getForCategories([...categoryIds])
+      setAttributes(attributeData || [])
+    } catch (err) {
+      console.error('Error fetching pending changes:', err)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchChanges()
+  }, [])
+
+  const reviewChange = async (changeId: string, decision: 'approve' | 'reject') => {
+    if (!user) return
+
+    let note: string | undefined
+    if (decision === 'reject') {
+      const input = window.prompt('Reason for rejecting these changes (shown to the owner):')
+      if (input === null) return
+      note = input
+    }
+
+    try {
+      setActionLoading(changeId)
+
+      const { success, error } = decision === 'approve'
+        ? await businessService.approvePendingChange(changeId, user.id)
+        : await businessService.rejectPendingChange(changeId, user.id, note)
+
+      if (!success) {
+        throw new Error(getErrorMessage(error, 'Review failed'))
+      }
+
+      setChanges(prev => prev.filter(change => change.id !== changeId))
+      onReviewed?.()
+    } catch (err) {
+      console.error('Error reviewing business changes:', err)
+      alert(`Failed to ${decision} changes. Please try again.`)
+    } finally {
+      setActionLoading(null)
+    }
+  }
+
+  const formatValue = (key: keyof BusinessFormData, value: BusinessFormData[keyof BusinessFormData]): string => {
+    if (key === 'city_id') {
+      return cities.find(city => city.id === value)?.name || '—'
+    }
+    if (key === 'primary_category_id') {
+      return categories.find(category => category.id === value)?.name || '—'
+    }
+    if (key === 'attributes' && value && typeof value === 'object' && !Array.isArray(value)) {
+      return Object.entries(value)
+        .flatMap(([attributeId, attributeValue]) => {
+          const attribute = attributes.find(a => a.id === attributeId)
+          return attribute ? [`${attribute.label}: ${formatAttributeValue(attribute, attributeValue)}`] : []
+        })
+        .sort()
+        .join('; ') || '—'
+    }
+    if (key === 'category_ids' && Array.isArray(value)) {
+      return value
+        .map(id => categories.find(category => category.id === id)?.name || 'Unknown')
+        .sort()
+        .join(', ') || '—'
+    }
+    if (Array.isArray(value)) {
+      return value.filter(Boolean).join(', ') || '—'
+    }
+    if (key === 'area_id') {
+      return areas.find(area => area.id === value)?.name || '—'
+    }
+    if (key === 'landmark_id') {
+      return landmarks.find(landmark => landmark.id === value)?.name || '—'
+    }
+    return value ? String(value) : '—'
+  }
+
+  const getFieldChanges = (change: BusinessPendingChange): FieldChange[] => {
+    if (!change.current) return []
+
+    // The primary category falls back to the first one, as it does when saved
+    const withPrimary = (data: BusinessFormData): BusinessFormData => ({
+      ...data,
+      primary_category_id: data.primary_category_id && data.category_ids.includes(data.primary_category_id)
+        ? data.primary_category_id
+        : data.category_ids[0]
+    })
+    const current = withPrimary(change.current)
+    const proposed = withPrimary(change.changes)
+
+    return FIELD_LABELS
+      // Attributes left out of a submission stay as they are
+      .filter(({ key }) => key !== 'attributes' || proposed.attributes !== undefined)
+      .map(({ key, label }) => ({
+        label,
+        before: formatValue(key, current[key]),
+        after: formatValue(key, proposed[key])
+      }))
+      .filter(field => field.before !== field.after)
+  }
+
+  if (loading || changes.length === 0) {
+    return null
+  }
+
+  return (
+    <Card className="border-yellow-200">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          Pending Edits
+          <Badge className="bg-yellow-100 text-yellow-800">{changes.length}</Badge>
+        </CardTitle>
+        <p className="text-sm text-gray-600">Changes to live listings submitted by their owners</p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {changes.map(change => {
+          const fieldChanges = getFieldChanges(change)
+
+          return (
+            <div key={change.id} className="border border-gray-200 rounded-lg p-4 space-y-3">
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <p className="font-medium text-gray-900">{change.business_name}</p>
+                  <p className="text-sm text-gray-600">
+                    By {change.submitter_name || change.submitter_email} · {new Date(change.updated_at).toLocaleDateString('en-US', {
+                      month: 'short',
+                      day: 'numeric',
+                      year: 'numeric'
+                    })}
+                  </p>
+                </div>
+                {change.business_slug && (
+                  <a
+                    href={`/business/${change.business_slug}`}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-sm text-blue-600 hover:text-blue-800 whitespace-nowrap"
+                  >
+                    View live
+                  </a>
+                )}
+              </div>
+
+              {fieldChanges.length > 0 ? (
+                <dl className="space-y-2 text-sm">
+                  {fieldChanges.map(field => (
+                    <div key={field.label}>
+                      <dt className="font-medium text-gray-700">{field.label}</dt>
+                      <dd className="text-red-700 line-through break-words">{field.before}</dd>
+                      <dd className="text-green-700 break-words">{field.after}</dd>
+                    </div>
+                  ))}
+                </dl>
+              ) : (
+                <p className="text-sm text-gray-500">No differences from the live listing</p>
+              )}
+
+              <div className="flex gap-2 pt-2">
+                <Button
+                  onClick={() => reviewChange(change.id, 'approve')}
+                  disabled={actionLoading === change.id}
+                  className="flex-1 bg-green-600 hover:bg-green-700"
+                  size="sm"
+                >
+                  {actionLoading === change.id ? 'Saving...' : 'Approve'}
+                </Button>
+                <Button
+                  onClick={() => reviewChange(change.id, 'reject')}
+                  disabled={actionLoading === change.id}
+                  variant="outline"
+                  className="flex-1 text-red-600 border-red-300 hover:bg-red-50"
+                  size="sm"
+                >
+                  Reject
+                </Button>
+              </div>
+            </div>
+          )
+        })}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,152 @@
+// src/components/admin/admin-photo-moderation.tsx
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useAuth } from '@/lib/auth'
+import { businessMediaService, type BusinessPhoto } from '@/lib/database'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { getErrorMessage } from '@/lib/utils'
+
+const PHOTO_TYPE_LABELS: Record<BusinessPhoto['image_type'], string> = {
+  logo: 'Logo',
+  cover: 'Cover',
+  gallery: 'Gallery'
+}
+
+/**
+ * Owner-uploaded business photos, waiting for approval
+ */
+export default function AdminPhotoModeration() {
+  const { user } = useAuth()
+  const [photos, setPhotos] = useState<BusinessPhoto[]>([])
+  const [loading, setLoading] = useState(true)
+  const [actionLoading, setActionLoading] = useState<string | null>(null)
+
+  const fetchPhotos = async () => {
+    try {
+      setLoading(true)
+
+      const { data, error } = await businessMediaService.getPendingPhotos()
+
+      if (error) {
+        throw new Error('Failed to load pending photos')
+      }
+
+      setPhotos(data || [])
+    } catch (err) {
+      console.error('Error fetching pending photos:', err)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchPhotos()
+  }, [])
+
+  const moderatePhoto = async (photoId: string, decision: 'approved' | 'rejected') => {
+    if (!user) return
+
+    try {
+      setActionLoading(photoId)
+
+      const { success, error } = await businessMediaService.moderatePhoto(photoId, user.id, decision)
+
+      if (!success) {
+        throw new Error(getErrorMessage(error, 'Moderation failed'))
+      }
+
+      setPhotos(prev => prev.filter(photo => photo.id !== photoId))
+    } catch (err) {
+      console.error('Error moderating photo:', err)
+      alert(`Failed to ${decision === 'approved' ? 'approve' : 'reject'} photo. Please try again.`)
+    } finally {
+      setActionLoading(null)
+    }
+  }
+
+  if (loading || photos.length === 0) {
+    return null
+  }
+
+  return (
+    <Card className="border-yellow-200">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          Pending Photos
+          <Badge className="bg-yellow-100 text-yellow-800">{photos.length}</Badge>
+        </CardTitle>
+        <p className="text-sm text-gray-600">Logos, covers and gallery photos uploaded by owners</p>
+      </CardHeader>
+      <CardContent>
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+          {photos.map(photo => (
+            <div key={photo.id} className="border border-gray-200 rounded-lg overflow-hidden">
+              <a href={photo.url} target="_blank" rel="noopener noreferrer">
+                <img
+                  src={photo.url}
+                  alt={photo.caption || `Photo for ${photo.business_name}`}
+                  className="w-full aspect-video object-cover bg-gray-100"
+                />
+              </a>
+
+              <div className="p-3 space-y-2">
+                <div className="flex items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    {photo.business_slug ? (
+                      <a
+                        href={`/business/${photo.business_slug}`}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="font-medium text-gray-900 hover:text-blue-600 truncate block"
+                      >
+                        {photo.business_name}
+                      </a>
+                    ) : (
+                      <p className="font-medium text-gray-900 truncate">{photo.business_name || 'Unknown business'}</p>
+                    )}
+                    <p className="text-xs text-gray-500">
+                      By {photo.uploader_name || 'owner'} · {new Date(photo.created_at).toLocaleDateString('en-US', {
+                        month: 'short',
+                        day: 'numeric'
+                      })}
+                    </p>
+                  </div>
+                  <Badge variant="secondary" className="text-xs flex-shrink-0">
+                    {PHOTO_TYPE_LABELS[photo.image_type]}
+                  </Badge>
+                </div>
+
+                {photo.caption && (
+                  <p className="text-sm text-gray-700 break-words">{photo.caption}</p>
+                )}
+
+                <div className="flex gap-2">
+                  <Button
+                    onClick={() => moderatePhoto(photo.id, 'approved')}
+                    disabled={actionLoading === photo.id}
+                    className="flex-1 bg-green-600 hover:bg-green-700"
+                    size="sm"
+                  >
+                    {actionLoading === photo.id ? 'Saving...' : 'Approve'}
+                  </Button>
+                  <Button
+                    onClick={() => moderatePhoto(photo.id, 'rejected')}
+                    disabled={actionLoading === photo.id}
+                    variant="outline"
+                    className="flex-1 text-red-600 border-red-300 hover:bg-red-50"
+                    size="sm"
+                  >
+                    Reject
+                  </Button>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,274 @@
+// src/components/admin/admin-reports.tsx
+'use client'
+
+import { useState, useEffect } from 'react'
+import { reportService, type ReportedItem, type ReportStatus } from '@/lib/database'
+import { REPORT_ENTITY_LABELS, REPORT_REASONS } from '@/lib/services/reports'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { getErrorMessage } from '@/lib/utils'
+
+const statusFilters: { key: ReportStatus; label: string }[] = [
+  { key: 'open', label: 'Open' },
+  { key: 'actioned', label: 'Removed' },
+  { key: 'dismissed', label: 'Dismissed' }
+]
+
+const REASON_LABELS = Object.fromEntries(REPORT_REASONS.map(reason => [reason.value, reason.label]))
+
+const ACTION_LABELS: Record<ReportedItem['entity_type'], string> = {
+  review: 'Remove review',
+  tourism_review: 'Remove review',
+  review_reply: 'Hide reply',
+  business: 'Suspend listing'
+}
+
+/**
+ * Triage for user reports, grouped by the reported item
+ */
+export default function AdminReports() {
+  const [items, setItems] = useState<ReportedItem[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [statusFilter, setStatusFilter] = useState<ReportStatus>('open')
+  const [actionLoading, setActionLoading] = useState<string | null>(null)
+
+  const fetchReports = async () => {
+    try {
+      setLoading(true)
+      setError(null)
+
+      const { data, error: fetchError } = await reportService.getReportedItems(statusFilter)
+
+      if (fetchError) {
+        throw new Error('Failed to load reports')
+      }
+
+      setItems(data || [])
+    } catch (err) {
+      console.error('Error fetching reports:', err)
+      setError('Failed to load reports. Please try again.')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchReports()
+  }, [statusFilter])
+
+  const resolve = async (item: ReportedItem, outcome: 'actioned' | 'dismissed', note: string) => {
+    const key = `${item.entity_type}:${item.entity_id}`
+
+    try {
+      setActionLoading(key)
+
+      const { success, error: resolveError } = await reportService.resolveReports(
+        item.entity_type,
+        item.entity_id,
+        outcome,
+        note
+      )
+
+      if (!success) {
+        throw new Error(getErrorMessage(resolveError, 'Failed to resolve reports'))
+      }
+
+      setItems(prev => prev.filter(other => `${other.entity_type}:${other.entity_id}` !== key))
+    } catch (err) {
+      console.error('Error resolving reports:', err)
+      alert('Failed to resolve reports. Please try again.')
+    } finally {
+      setActionLoading(null)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Page header */}
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900 mb-2">Reports</h1>
+        <p className="text-gray-600">Reviews, replies and listings flagged by users</p>
+      </div>
+
+      {/* Status filters */}
+      <Card>
+        <CardContent className="p-4">
+          <div className="flex gap-2 overflow-x-auto pb-2">
+            {statusFilters.map(filter => (
+              <button
+                key={filter.key}
+                onClick={() => setStatusFilter(filter.key)}
+                className={`px-4 py-2 rounded-lg text-sm font-medium whitespace-nowrap transition-colors touch-manipulation ${
+                  statusFilter === filter.key
+                    ? 'bg-black text-white'
+                    : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                }`}
+              >
+                {filter.label}
+              </button>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Error state */}
+      {error && (
+        <Card className="border-red-200 bg-red-50">
+          <CardContent className="p-4">
+            <div className="flex items-center gap-3">
+              <p className="text-red-700">{error}</p>
+              <Button onClick={fetchReports} variant="outline" size="sm" className="ml-auto">
+                Retry
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {loading ? (
+        <div className="text-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-black mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading reports...</p>
+        </div>
+      ) : items.length === 0 ? (
+        <Card>
+          <CardContent className="p-8 text-center">
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No reports</h3>
+            <p className="text-gray-600">
+              {statusFilter === 'open' ? 'Nothing needs attention right now.' : 'No reports with this outcome yet.'}
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-4">
+          {items.map(item => (
+            <ReportedItemCard
+              key={`${item.entity_type}:${item.entity_id}`}
+              item={item}
+              onResolve={(outcome, note) => resolve(item, outcome, note)}
+              actionLoading={actionLoading === `${item.entity_type}:${item.entity_id}`}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+// One reported item with its reports
+interface ReportedItemCardProps {
+  item: ReportedItem
+  onResolve: (outcome: 'actioned' | 'dismissed', note: string) => void
+  actionLoading: boolean
+}
+
+function ReportedItemCard({ item, onResolve, actionLoading }: ReportedItemCardProps) {
+  const [note, setNote] = useState('')
+
+  const isOpen = item.reports.every(report => report.status === 'open')
+  const reasonCounts = item.reports.reduce<Record<string, number>>((counts, report) => {
+    counts[report.reason] = (counts[report.reason] || 0) + 1
+    return counts
+  }, {})
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric'
+    })
+  }
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-start justify-between gap-4">
+          <div className="min-w-0">
+            <div className="flex items-center gap-2 mb-1">
+              <Badge variant="secondary" className="text-xs">{REPORT_ENTITY_LABELS[item.entity_type]}</Badge>
+              <Badge className="bg-red-100 text-red-800 text-xs">
+                {item.reports.length} report{item.reports.length === 1 ? '' : 's'}
+              </Badge>
+            </div>
+            <CardTitle className="text-base">
+              {item.href ? (
+                <a href={item.href} target="_blank" rel="noopener noreferrer" className="hover:text-blue-600">
+                  {item.title}
+                </a>
+              ) : (
+                item.title
+              )}
+            </CardTitle>
+          </div>
+          <span className="text-xs text-gray-500 flex-shrink-0">{formatDate(item.latest_report_at)}</span>
+        </div>
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        {item.excerpt && (
+          <p className="text-sm text-gray-700 bg-gray-50 rounded-lg p-3 whitespace-pre-line break-words">{item.excerpt}</p>
+        )}
+
+        <div className="flex flex-wrap gap-2">
+          {Object.entries(reasonCounts).map(([reason, count]) => (
+            <Badge key={reason} variant="secondary" className="text-xs">
+              {REASON_LABELS[reason] || reason} × {count}
+            </Badge>
+          ))}
+        </div>
+
+        <div className="space-y-2">
+          {item.reports.map(report => (
+            <div key={report.id} className="text-sm border-l-2 border-gray-200 pl-3">
+              <p className="text-gray-900">
+                {REASON_LABELS[report.reason] || report.reason}
+                <span className="text-gray-500"> · {report.reporter_name || 'User'} · {formatDate(report.created_at)}</span>
+              </p>
+              {report.details && <p className="text-gray-600 break-words">{report.details}</p>}
+            </div>
+          ))}
+        </div>
+
+        {isOpen ? (
+          <div className="space-y-2 pt-2 border-t border-gray-100">
+            <input
+              type="text"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="Outcome note (optional)"
+              maxLength={200}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-black focus:border-transparent"
+            />
+            <div className="flex gap-2">
+              <Button
+                onClick={() => onResolve('actioned', note)}
+                disabled={actionLoading}
+                size="sm"
+                className="flex-1 bg-red-600 hover:bg-red-700"
+              >
+                {ACTION_LABELS[item.entity_type]}
+              </Button>
+              <Button
+                onClick={() => onResolve('dismissed', note)}
+                disabled={actionLoading}
+                variant="outline"
+                size="sm"
+                className="flex-1"
+              >
+                Dismiss
+              </Button>
+            </div>
+          </div>
+        ) : (
+          item.reports[0].outcome_note && (
+            <p className="text-xs text-gray-500 pt-2 border-t border-gray-100">
+              Outcome: {item.reports[0].outcome_note}
+            </p>
+          )
+        )}
+      </CardContent>
+    </Card>
+  )
+}
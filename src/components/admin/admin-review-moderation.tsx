@@ -0,0 +1,416 @@
+// src/components/admin/admin-review-moderation.tsx
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useAuth } from '@/lib/auth'
+import {
+  reviewModerationService,
+  type ModerationReview,
+  type ReviewQueueFilters
+} from '@/lib/database'
+import { REVIEW_HELD_REASON_LABELS, REVIEW_REJECTION_REASONS } from '@/lib/services/review-moderation'
+import { Card, CardContent } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import StarRating from '@/components/reviews/star-rating'
+import AdminReviewPolicy from '@/components/admin/admin-review-policy'
+
+type StatusFilter = NonNullable<ReviewQueueFilters['status']>
+
+const statusFilters: { key: StatusFilter; label: string }[] = [
+  { key: 'pending', label: 'Pending' },
+  { key: 'published', label: 'Published' },
+  { key: 'rejected', label: 'Rejected' },
+  { key: 'all', label: 'All' }
+]
+
+const reviewKey = (review: ModerationReview) => `${review.kind}:${review.id}`
+
+/**
+ * Queue of business and tourism reviews with filters and bulk decisions
+ */
+export default function AdminReviewModeration() {
+  const { user } = useAuth()
+  const [reviews, setReviews] = useState<ModerationReview[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [filters, setFilters] = useState<ReviewQueueFilters>({ status: 'pending', kind: 'all' })
+  const [entitySearch, setEntitySearch] = useState('')
+  const [selected, setSelected] = useState<Set<string>>(new Set())
+  const [rejectReason, setRejectReason] = useState(REVIEW_REJECTION_REASONS[0])
+  const [rejectNote, setRejectNote] = useState('')
+  const [actionLoading, setActionLoading] = useState(false)
+
+  const fetchReviews = async () => {
+    try {
+      setLoading(true)
+      setError(null)
+
+      const { data, error: fetchError } = await reviewModerationService.getReviewQueue({
+        ...filters,
+        entitySearch: entitySearch.trim()
+      })
+
+      if (fetchError) {
+        throw new Error('Failed to load reviews')
+      }
+
+      setReviews(data || [])
+      setSelected(new Set())
+    } catch (err) {
+      console.error('Error fetching review queue:', err)
+      setError('Failed to load reviews. Please try again.')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  // Debounce the name search; other filters apply straight away
+  useEffect(() => {
+    const timeout = setTimeout(fetchReviews, entitySearch ? 300 : 0)
+    return () => clearTimeout(timeout)
+  }, [filters, entitySearch])
+
+  const handleFilterChange = (changes: Partial<ReviewQueueFilters>) => {
+    setFilters(prev => ({ ...prev, ...changes }))
+  }
+
+  const toggleSelected = (review: ModerationReview) => {
+    setSelected(prev => {
+      const next = new Set(prev)
+      const key = reviewKey(review)
+      if (next.has(key)) {
+        next.delete(key)
+      } else {
+        next.add(key)
+      }
+      return next
+    })
+  }
+
+  const toggleAll = () => {
+    setSelected(prev => prev.size === reviews.length ? new Set() : new Set(reviews.map(reviewKey)))
+  }
+
+  const moderate = async (targets: ModerationReview[], decision: 'published' | 'rejected') => {
+    if (!user || targets.length === 0) return
+
+    const reason = decision === 'rejected'
+      ? [rejectReason, rejectNote.trim()].filter(Boolean).join(': ')
+      : undefined
+
+    try {
+      setActionLoading(true)
+
+      const { success, error: moderateError } = await reviewModerationService.moderateReviews(
+        targets.map(review => ({ id: review.id, kind: review.kind })),
+        user.id,
+        decision,
+        reason
+      )
+
+      if (!success) {
+        throw new Error(typeof moderateError === 'string' ? moderateError : 'Moderation failed')
+      }
+
+      setRejectNote('')
+      await fetchReviews()
+    } catch (err) {
+      console.error('Error moderating reviews:', err)
+      alert(err instanceof Error ? err.message : 'Failed to update reviews. Please try again.')
+    } finally {
+      setActionLoading(false)
+    }
+  }
+
+  const selectedReviews = reviews.filter(review => selected.has(reviewKey(review)))
+
+  return (
+    <div className="space-y-6">
+      {/* Page header */}
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900 mb-2">Review Moderation</h1>
+        <p className="text-gray-600">Approve or reject business and tourism reviews</p>
+      </div>
+
+      <AdminReviewPolicy />
+
+      {/* Filters */}
+      <Card>
+        <CardContent className="p-4 space-y-4">
+          <div className="flex gap-2 overflow-x-auto pb-2">
+            {statusFilters.map(filter => (
+              <button
+                key={filter.key}
+                onClick={() => handleFilterChange({ status: filter.key })}
+                className={`px-4 py-2 rounded-lg text-sm font-medium whitespace-nowrap transition-colors touch-manipulation ${
+                  filters.status === filter.key
+                    ? 'bg-black text-white'
+                    : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                }`}
+              >
+                {filter.label}
+              </button>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3">
+            <input
+              type="text"
+              placeholder="Business or place name..."
+              value={entitySearch}
+              onChange={(e) => setEntitySearch(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-black focus:border-transparent"
+            />
+            <select
+              value={filters.kind || 'all'}
+              onChange={(e) => handleFilterChange({ kind: e.target.value as ReviewQueueFilters['kind'] })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm bg-white"
+            >
+              <option value="all">Businesses & places</option>
+              <option value="business">Businesses only</option>
+              <option value="tourism">Tourism places only</option>
+            </select>
+            <select
+              value={filters.rating || ''}
+              onChange={(e) => handleFilterChange({ rating: e.target.value ? Number(e.target.value) : undefined })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm bg-white"
+            >
+              <option value="">Any rating</option>
+              {[5, 4, 3, 2, 1].map(rating => (
+                <option key={rating} value={rating}>{rating} star{rating === 1 ? '' : 's'}</option>
+              ))}
+            </select>
+            <select
+              value={filters.minReports || ''}
+              onChange={(e) => handleFilterChange({ minReports: e.target.value ? Number(e.target.value) : undefined })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm bg-white"
+            >
+              <option value="">Any reports</option>
+              <option value="1">Reported at least once</option>
+              <option value="3">3+ reports</option>
+              <option value="5">5+ reports</option>
+            </select>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Bulk actions */}
+      {reviews.length > 0 && (
+        <Card>
+          <CardContent className="p-4 space-y-3">
+            <div className="flex flex-wrap items-center gap-3">
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={selected.size === reviews.length}
+                  onChange={toggleAll}
+                  className="rounded border-gray-300"
+                />
+                {selected.size > 0 ? `${selected.size} selected` : 'Select all'}
+              </label>
+
+              <div className="flex gap-2 ml-auto">
+                <Button
+                  onClick={() => moderate(selectedReviews, 'published')}
+                  disabled={actionLoading || selected.size === 0}
+                  className="bg-green-600 hover:bg-green-700"
+                  size="sm"
+                >
+                  Approve
+                </Button>
+                <Button
+                  onClick={() => moderate(selectedReviews, 'rejected')}
+                  disabled={actionLoading || selected.size === 0}
+                  variant="outline"
+                  className="text-red-600 border-red-300 hover:bg-red-50"
+                  size="sm"
+                >
+                  Reject
+                </Button>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              <select
+                value={rejectReason}
+                onChange={(e) => setRejectReason(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm bg-white"
+              >
+                {REVIEW_REJECTION_REASONS.map(reason => (
+                  <option key={reason} value={reason}>{reason}</option>
+                ))}
+              </select>
+              <input
+                type="text"
+                placeholder="Note for rejection (optional)"
+                value={rejectNote}
+                onChange={(e) => setRejectNote(e.target.value)}
+                maxLength={200}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-black focus:border-transparent"
+              />
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Error state */}
+      {error && (
+        <Card className="border-red-200 bg-red-50">
+          <CardContent className="p-4">
+            <div className="flex items-center gap-3">
+              <p className="text-red-700">{error}</p>
+              <Button onClick={fetchReviews} variant="outline" size="sm" className="ml-auto">
+                Retry
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Review list */}
+      {loading && reviews.length === 0 ? (
+        <div className="text-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-black mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading reviews...</p>
+        </div>
+      ) : reviews.length === 0 ? (
+        <Card>
+          <CardContent className="p-8 text-center">
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No reviews found</h3>
+            <p className="text-gray-600">
+              {filters.status === 'pending' ? 'Nothing is waiting for approval.' : 'Try different filters.'}
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-3">
+          {reviews.map(review => (
+            <ModerationReviewCard
+              key={reviewKey(review)}
+              review={review}
+              selected={selected.has(reviewKey(review))}
+              onToggle={() => toggleSelected(review)}
+              onApprove={() => moderate([review], 'published')}
+              onReject={() => moderate([review], 'rejected')}
+              disabled={actionLoading}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+// Individual review in the queue
+interface ModerationReviewCardProps {
+  review: ModerationReview
+  selected: boolean
+  onToggle: () => void
+  onApprove: () => void
+  onReject: () => void
+  disabled: boolean
+}
+
+function ModerationReviewCard({ review, selected, onToggle, onApprove, onReject, disabled }: ModerationReviewCardProps) {
+  const getStatusColor = (status: string) => {
+    switch (status) {
+      case 'pending': return 'bg-yellow-100 text-yellow-800'
+      case 'published': return 'bg-green-100 text-green-800'
+      case 'rejected': return 'bg-red-100 text-red-800'
+      default: return 'bg-gray-100 text-gray-800'
+    }
+  }
+
+  const entityHref = review.entity_slug
+    ? `/${review.kind === 'business' ? 'business' : 'tourism'}/${review.entity_slug}`
+    : null
+
+  return (
+    <Card className={selected ? 'ring-2 ring-black' : ''}>
+      <CardContent className="p-4">
+        <div className="flex gap-3">
+          <input
+            type="checkbox"
+            checked={selected}
+            onChange={onToggle}
+            aria-label="Select review"
+            className="mt-1 rounded border-gray-300"
+          />
+
+          <div className="flex-1 min-w-0 space-y-2">
+            <div className="flex flex-wrap items-center gap-2">
+              {entityHref ? (
+                <a
+                  href={entityHref}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="font-medium text-gray-900 hover:text-blue-600"
+                >
+                  {review.entity_name}
+                </a>
+              ) : (
+                <span className="font-medium text-gray-900">{review.entity_name || 'Unknown'}</span>
+              )}
+              <Badge variant="secondary" className="text-xs">
+                {review.kind === 'business' ? 'Business' : 'Tourism'}
+              </Badge>
+              <Badge className={`text-xs ${getStatusColor(review.status)}`}>{review.status}</Badge>
+              {review.held_reason && review.status === 'pending' && (
+                <Badge className="text-xs bg-orange-100 text-orange-800">
+                  {REVIEW_HELD_REASON_LABELS[review.held_reason]}
+                </Badge>
+              )}
+              {review.report_count > 0 && (
+                <Badge className="text-xs bg-red-100 text-red-800">
+                  {review.report_count} report{review.report_count === 1 ? '' : 's'}
+                </Badge>
+              )}
+            </div>
+
+            <div className="flex items-center gap-2 text-sm text-gray-600">
+              <StarRating rating={review.rating} size="sm" />
+              <span>by {review.user_name || 'Anonymous'}</span>
+              <span>·</span>
+              <span>
+                {new Date(review.created_at).toLocaleDateString('en-US', {
+                  month: 'short',
+                  day: 'numeric',
+                  year: 'numeric'
+                })}
+              </span>
+            </div>
+
+            {review.title && <p className="font-medium text-gray-900">{review.title}</p>}
+            {review.content && (
+              <p className="text-sm text-gray-700 whitespace-pre-line break-words">{review.content}</p>
+            )}
+
+            {review.moderation_reason && (
+              <p className="text-xs text-gray-500">Reason: {review.moderation_reason}</p>
+            )}
+
+            <div className="flex gap-2 pt-1">
+              {review.status !== 'published' && (
+                <Button onClick={onApprove} disabled={disabled} size="sm" className="bg-green-600 hover:bg-green-700">
+                  Approve
+                </Button>
+              )}
+              {review.status !== 'rejected' && (
+                <Button
+                  onClick={onReject}
+                  disabled={disabled}
+                  variant="outline"
+                  size="sm"
+                  className="text-red-600 border-red-300 hover:bg-red-50"
+                >
+                  Reject
+                </Button>
+              )}
+            </div>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
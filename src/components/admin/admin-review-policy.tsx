@@ -0,0 +1,105 @@
+// src/components/admin/admin-review-policy.tsx
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useAuth } from '@/lib/auth'
+import { reviewModerationService, type ReviewModerationPolicy } from '@/lib/database'
+import { REVIEW_POLICY_OPTIONS } from '@/lib/services/review-moderation'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+
+/**
+ * Site-wide policy deciding which new reviews wait for approval
+ */
+export default function AdminReviewPolicy() {
+  const { user } = useAuth()
+  const [policy, setPolicy] = useState<ReviewModerationPolicy>('auto_publish')
+  const [bannedWords, setBannedWords] = useState('')
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [message, setMessage] = useState<string | null>(null)
+
+  useEffect(() => {
+    const loadSettings = async () => {
+      const { data } = await reviewModerationService.getSettings()
+      if (data) {
+        setPolicy(data.policy)
+        setBannedWords(data.banned_words.join(', '))
+      }
+      setLoading(false)
+    }
+
+    loadSettings()
+  }, [])
+
+  const handleSave = async () => {
+    if (!user) return
+
+    try {
+      setSaving(true)
+      setMessage(null)
+
+      const { success } = await reviewModerationService.updateSettings({
+        policy,
+        bannedWords: bannedWords.split(/[,\n]/)
+      }, user.id)
+
+      setMessage(success ? 'Policy saved' : 'Failed to save policy')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (loading) {
+    return null
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Publishing Policy</CardTitle>
+        <p className="text-sm text-gray-600">Applies to new reviews; reviews already submitted keep their status</p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          {REVIEW_POLICY_OPTIONS.map(option => (
+            <label key={option.value} className="flex items-start gap-3 cursor-pointer">
+              <input
+                type="radio"
+                name="review-policy"
+                value={option.value}
+                checked={policy === option.value}
+                onChange={() => setPolicy(option.value)}
+                className="mt-1"
+              />
+              <span>
+                <span className="block text-sm font-medium text-gray-900">{option.label}</span>
+                <span className="block text-xs text-gray-500">{option.description}</span>
+              </span>
+            </label>
+          ))}
+        </div>
+
+        {policy === 'hold_flagged' && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Banned words</label>
+            <textarea
+              value={bannedWords}
+              onChange={(e) => setBannedWords(e.target.value)}
+              rows={3}
+              placeholder="Separate words with commas"
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-black focus:border-transparent"
+            />
+          </div>
+        )}
+
+        <div className="flex items-center gap-3">
+          <Button onClick={handleSave} disabled={saving} size="sm">
+            {saving ? 'Saving...' : 'Save Policy'}
+          </Button>
+          {message && <p className="text-sm text-gray-600">{message}</p>}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,134 @@
+// src/components/admin/audit-history.tsx
+'use client'
+
+import { useState, useEffect } from 'react'
+import { auditService, type AuditEntityType, type AuditEvent } from '@/lib/database'
+import { AUDIT_ACTION_LABELS } from '@/lib/services/audit'
+
+export const formatAuditValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === '') return '—'
+  if (typeof value === 'string') return value
+  return JSON.stringify(value)
+}
+
+export const formatAuditDate = (dateString: string) => {
+  return new Date(dateString).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit'
+  })
+}
+
+/**
+ * One audit event: what happened, who did it, the field changes and the reason
+ */
+export function AuditEventRow({ event, showEntity = false }: { event: AuditEvent; showEntity?: boolean }) {
+  const changes = Object.entries(event.changes)
+
+  return (
+    <div className="text-sm border-l-2 border-gray-200 pl-3 space-y-1">
+      <p className="text-gray-900">
+        <span className="font-medium">{AUDIT_ACTION_LABELS[event.action] || event.action}</span>
+        {showEntity && event.entity_label && <span> · {event.entity_label}</span>}
+      </p>
+      <p className="text-xs text-gray-500">
+        {event.actor_name || 'Unknown user'}
+        {event.actor_role && ` (${event.actor_role.replace('_', ' ')})`} · {formatAuditDate(event.created_at)}
+      </p>
+      {changes.length > 0 && (
+        <ul className="text-xs text-gray-700 space-y-0.5">
+          {changes.map(([field, change]) => (
+            <li key={field} className="break-words">
+              <span className="text-gray-500">{field.replace(/_/g, ' ')}:</span>{' '}
+              {formatAuditValue(change.from)} → {formatAuditValue(change.to)}
+            </li>
+          ))}
+        </ul>
+      )}
+      {event.reason && <p className="text-xs text-gray-700 italic break-words">“{event.reason}”</p>}
+    </div>
+  )
+}
+
+/**
+ * History tab for a single business, tourism place or user
+ */
+export function AuditHistory({ entityType, entityId }: { entityType: AuditEntityType; entityId: string }) {
+  const [events, setEvents] = useState<AuditEvent[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const fetchHistory = async () => {
+      setLoading(true)
+      setError(null)
+
+      const { data, error: fetchError } = await auditService.getEntityHistory(entityType, entityId)
+
+      if (fetchError) {
+        setError('Failed to load history')
+      } else {
+        setEvents(data || [])
+      }
+      setLoading(false)
+    }
+
+    fetchHistory()
+  }, [entityType, entityId])
+
+  if (loading) {
+    return (
+      <div className="text-center py-4">
+        <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-black mx-auto"></div>
+      </div>
+    )
+  }
+
+  if (error) {
+    return <p className="text-sm text-red-600">{error}</p>
+  }
+
+  if (events.length === 0) {
+    return <p className="text-sm text-gray-500">No recorded changes yet.</p>
+  }
+
+  return (
+    <div className="space-y-3">
+      {events.map(event => (
+        <AuditEventRow key={event.id} event={event} />
+      ))}
+    </div>
+  )
+}
+
+/**
+ * Details / History switch used on admin entity cards
+ */
+export function DetailsHistoryTabs({
+  value,
+  onChange
+}: {
+  value: 'details' | 'history'
+  onChange: (value: 'details' | 'history') => void
+}) {
+  return (
+    <div className="flex gap-1 border-b border-gray-200">
+      {(['details', 'history'] as const).map(tab => (
+        <button
+          key={tab}
+          type="button"
+          onClick={() => onChange(tab)}
+          className={`px-3 py-1.5 text-sm font-medium border-b-2 -mb-px transition-colors ${
+            value === tab
+              ? 'border-black text-gray-900'
+              : 'border-transparent text-gray-500 hover:text-gray-700'
+          }`}
+        >
+          {tab === 'details' ? 'Details' : 'History'}
+        </button>
+      ))}
+    </div>
+  )
+}
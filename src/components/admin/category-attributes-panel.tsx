@@ -0,0 +1,293 @@
+// src/components/admin/category-attributes-panel.tsx
+'use client'
+
+import { useState, useEffect } from 'react'
+import {
+  categoryAttributeService,
+  type AdminCategory,
+  type AttributeType,
+  type CategoryAttribute
+} from '@/lib/database'
+import { getPriceBands } from '@/lib/services/category-attributes'
+import { createSlug, getErrorMessage } from '@/lib/utils'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+
+const ATTRIBUTE_TYPES: { value: AttributeType; label: string }[] = [
+  { value: 'boolean', label: 'Yes / no' },
+  { value: 'enum', label: 'One of a list' },
+  { value: 'price_range', label: 'Price range' }
+]
+
+interface AttributeForm {
+  label: string
+  attributeType: AttributeType
+  options: string // Comma-separated
+  unit: string
+  isFilterable: boolean
+}
+
+const EMPTY_FORM: AttributeForm = { label: '', attributeType: 'boolean', options: '', unit: '', isFilterable: true }
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm bg-white focus:ring-2 focus:ring-black focus:border-transparent'
+
+/**
+ * Attributes owners fill in for listings in one category. Subcategories
+ * inherit them, so shared ones belong on the parent.
+ */
+export function CategoryAttributesPanel({ category, onClose }: { category: AdminCategory; onClose: () => void }) {
+  const [attributes, setAttributes] = useState<CategoryAttribute[]>([])
+  const [loading, setLoading] = useState(true)
+  const [busy, setBusy] = useState(false)
+  const [message, setMessage] = useState<string | null>(null)
+  const [editing, setEditing] = useState<CategoryAttribute | 'new' | null>(null)
+  const [form, setForm] = useState<AttributeForm>(EMPTY_FORM)
+
+  const fetchAttributes = async () => {
+    setLoading(true)
+    const { data, error } = await categoryAttributeService.getByCategory(category.id)
+    if (error) {
+      setMessage('Failed to load attributes. Please try again.')
+    } else {
+      setAttributes(data || [])
+    }
+    setLoading(false)
+  }
+
+  useEffect(() => {
+    setEditing(null)
+    setMessage(null)
+    fetchAttributes()
+  }, [category.id])
+
+  const openCreate = () => {
+    setMessage(null)
+    setEditing('new')
+    setForm(EMPTY_FORM)
+  }
+
+  const openEdit = (attribute: CategoryAttribute) => {
+    setMessage(null)
+    setEditing(attribute)
+    setForm({
+      label: attribute.label,
+      attributeType: attribute.attribute_type,
+      options: attribute.options.join(', '),
+      unit: attribute.unit || '',
+      isFilterable: attribute.is_filterable
+    })
+  }
+
+  const handleSave = async () => {
+    if (!editing) return
+
+    const formData = {
+      key: editing === 'new' ? createSlug(form.label) : editing.key,
+      label: form.label,
+      attributeType: form.attributeType,
+      options: form.options.split(','),
+      unit: form.unit,
+      isFilterable: form.isFilterable
+    }
+
+    if (!formData.label.trim() || !formData.key) {
+      setMessage('A label is required')
+      return
+    }
+    if (formData.attributeType === 'enum' && !formData.options.some(option => option.trim())) {
+      setMessage('List at least one choice')
+      return
+    }
+
+    setBusy(true)
+    setMessage(null)
+
+    const { error } = editing === 'new'
+      ? await categoryAttributeService.create(
+          category.id,
+          formData,
+          attributes.reduce((max, attribute) => Math.max(max, attribute.sort_order), 0) + 1
+        )
+      : await categoryAttributeService.update(editing, formData)
+
+    if (error) {
+      setMessage(getErrorMessage(error, 'Failed to save attribute. Please try again.'))
+    } else {
+      setMessage(`Saved ${formData.label.trim()}`)
+      setEditing(null)
+      await fetchAttributes()
+    }
+
+    setBusy(false)
+  }
+
+  const handleRemove = async (attribute: CategoryAttribute) => {
+    if (!window.confirm(`Remove "${attribute.label}"? Every listing's answer to it will be deleted.`)) return
+
+    setBusy(true)
+    setMessage(null)
+
+    const { error } = await categoryAttributeService.remove(attribute)
+
+    if (error) {
+      setMessage(getErrorMessage(error, 'Failed to remove attribute. Please try again.'))
+    } else {
+      setMessage(`Removed ${attribute.label}`)
+      await fetchAttributes()
+    }
+
+    setBusy(false)
+  }
+
+  const describe = (attribute: CategoryAttribute) => {
+    if (attribute.attribute_type === 'enum') return attribute.options.join(', ')
+    if (attribute.attribute_type === 'price_range') {
+      const bands = getPriceBands(attribute).map(band => band.label).join(', ')
+      return [attribute.unit, bands ? `Filters: ${bands}` : 'No filter bands'].filter(Boolean).join(' · ')
+    }
+    return 'Yes / no'
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-sm font-medium text-gray-900">Attributes of {category.name}</p>
+        <div className="flex gap-2">
+          <Button size="sm" variant="outline" onClick={openCreate} disabled={busy}>
+            Add attribute
+          </Button>
+          <Button size="sm" variant="outline" onClick={onClose} disabled={busy}>
+            Close
+          </Button>
+        </div>
+      </div>
+
+      {message && <p className="text-sm text-gray-700">{message}</p>}
+
+      {loading ? (
+        <p className="text-sm text-gray-500">Loading attributes...</p>
+      ) : attributes.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          No attributes yet. Listings here still get those of parent categories.
+        </p>
+      ) : (
+        <div className="divide-y divide-gray-200">
+          {attributes.map(attribute => (
+            <div key={attribute.id} className="flex flex-col md:flex-row md:items-center md:justify-between gap-2 py-2">
+              <div className="min-w-0">
+                <div className="flex items-center flex-wrap gap-2">
+                  <span className="text-sm font-medium text-gray-900">{attribute.label}</span>
+                  <Badge className="bg-gray-100 text-gray-700 text-xs">
+                    {ATTRIBUTE_TYPES.find(type => type.value === attribute.attribute_type)?.label}
+                  </Badge>
+                  {!attribute.is_filterable && (
+                    <Badge className="bg-gray-100 text-gray-700 text-xs">Not a filter</Badge>
+                  )}
+                </div>
+                <p className="text-xs text-gray-500">{describe(attribute)}</p>
+              </div>
+              <div className="flex gap-1">
+                <Button size="sm" variant="outline" onClick={() => openEdit(attribute)} disabled={busy}>
+                  Edit
+                </Button>
+                <Button size="sm" variant="outline" onClick={() => handleRemove(attribute)} disabled={busy}>
+                  Remove
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {editing && (
+        <div className="p-3 rounded-lg bg-white border border-gray-200 space-y-3">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Label</label>
+              <input
+                type="text"
+                value={form.label}
+                onChange={(e) => setForm(prev => ({ ...prev, label: e.target.value }))}
+                placeholder="e.g. Home delivery"
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Type</label>
+              <select
+                value={form.attributeType}
+                onChange={(e) => setForm(prev => ({ ...prev, attributeType: e.target.value as AttributeType }))}
+                disabled={editing !== 'new'}
+                className={inputClass}
+              >
+                {ATTRIBUTE_TYPES.map(type => (
+                  <option key={type.value} value={type.value}>{type.label}</option>
+                ))}
+              </select>
+              {editing !== 'new' && (
+                <p className="text-xs text-gray-500 mt-1">The type can&apos;t change once listings may have answered</p>
+              )}
+            </div>
+          </div>
+
+          {form.attributeType === 'enum' && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Choices (comma-separated)</label>
+              <input
+                type="text"
+                value={form.options}
+                onChange={(e) => setForm(prev => ({ ...prev, options: e.target.value }))}
+                placeholder="e.g. Veg only, Veg and non-veg"
+                className={inputClass}
+              />
+            </div>
+          )}
+
+          {form.attributeType === 'price_range' && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Filter band limits in ₹ (comma-separated)</label>
+                <input
+                  type="text"
+                  value={form.options}
+                  onChange={(e) => setForm(prev => ({ ...prev, options: e.target.value }))}
+                  placeholder="e.g. 200, 500, 1000"
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Unit</label>
+                <input
+                  type="text"
+                  value={form.unit}
+                  onChange={(e) => setForm(prev => ({ ...prev, unit: e.target.value }))}
+                  placeholder="e.g. for two"
+                  className={inputClass}
+                />
+              </div>
+            </div>
+          )}
+
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={form.isFilterable}
+              onChange={(e) => setForm(prev => ({ ...prev, isFilterable: e.target.checked }))}
+              className="rounded border-gray-300 text-black focus:ring-black"
+            />
+            <span className="text-sm text-gray-700">Offer as a filter on category and search pages</span>
+          </label>
+
+          <div className="flex gap-2">
+            <Button size="sm" onClick={handleSave} disabled={busy}>
+              {busy ? 'Saving...' : editing === 'new' ? 'Add Attribute' : 'Save Changes'}
+            </Button>
+            <Button size="sm" variant="outline" onClick={() => setEditing(null)} disabled={busy}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,85 @@
+// src/components/admin/status-reason-form.tsx
+'use client'
+
+import { useState } from 'react'
+import {
+  STATUS_REASON_TEMPLATES,
+  getStatusReasonOptions,
+  type StatusDecision,
+  type StatusReason,
+  type StatusReasonCode
+} from '@/lib/status-reasons'
+import { Button } from '@/components/ui/button'
+
+interface StatusReasonFormProps {
+  decision: StatusDecision
+  loading: boolean
+  onSubmit: (reason: StatusReason) => void
+  onCancel: () => void
+}
+
+/**
+ * Pick a reason template and add a note before rejecting or suspending a listing.
+ * The owner sees both, so the preview shows exactly what they'll read.
+ */
+export function StatusReasonForm({ decision, loading, onSubmit, onCancel }: StatusReasonFormProps) {
+  const options = getStatusReasonOptions(decision)
+  const [code, setCode] = useState<StatusReasonCode>(options[0].value)
+  const [note, setNote] = useState('')
+
+  const noteRequired = code === 'other'
+  const canSubmit = !loading && (!noteRequired || note.trim().length > 0)
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!canSubmit) return
+    onSubmit({ code, note: note.trim() || undefined })
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3 p-3 border border-gray-200 rounded-lg bg-gray-50">
+      <p className="text-sm font-medium text-gray-900">
+        {decision === 'rejected' ? 'Why is this listing being rejected?' : 'Why is this listing being suspended?'}
+      </p>
+
+      <select
+        value={code}
+        onChange={(e) => setCode(e.target.value as StatusReasonCode)}
+        className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm bg-white"
+      >
+        {options.map(option => (
+          <option key={option.value} value={option.value}>{option.label}</option>
+        ))}
+      </select>
+
+      <p className="text-xs text-gray-600">{STATUS_REASON_TEMPLATES[code].message}</p>
+
+      <textarea
+        value={note}
+        onChange={(e) => setNote(e.target.value)}
+        rows={3}
+        maxLength={1000}
+        placeholder={noteRequired ? 'Explain what needs to change (required)' : 'Add details for the owner (optional)'}
+        className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-black focus:border-transparent"
+      />
+
+      <p className="text-xs text-gray-500">The owner is emailed this reason and sees it on their dashboard.</p>
+
+      <div className="flex gap-2">
+        <Button
+          type="submit"
+          disabled={!canSubmit}
+          className="flex-1 bg-red-600 hover:bg-red-700"
+          size="sm"
+        >
+          {loading
+            ? decision === 'rejected' ? 'Rejecting...' : 'Suspending...'
+            : decision === 'rejected' ? 'Reject Listing' : 'Suspend Listing'}
+        </Button>
+        <Button type="button" onClick={onCancel} disabled={loading} variant="outline" size="sm">
+          Cancel
+        </Button>
+      </div>
+    </form>
+  )
+}
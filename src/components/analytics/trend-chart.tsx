@@ -0,0 +1,110 @@
+// src/components/analytics/trend-chart.tsx
+'use client'
+
+export interface TrendPoint {
+  label: string // Shown on hover and under the first, middle and last bars
+  value: number
+  compare?: number | null // Drawn as a line over the bars, e.g. an average of similar businesses
+}
+
+interface TrendChartProps {
+  points: TrendPoint[]
+  valueLabel: string
+  compareLabel?: string
+  height?: number
+}
+
+/**
+ * Daily bars with an optional comparison line. Plain SVG, stretched to the
+ * container width.
+ */
+export function TrendChart({ points, valueLabel, compareLabel, height = 160 }: TrendChartProps) {
+  if (points.length === 0) {
+    return <p className="text-sm text-gray-500 text-center py-8">No data for this period</p>
+  }
+
+  const hasCompare = points.some(point => point.compare !== null && point.compare !== undefined)
+  const max = Math.max(1, ...points.map(point => Math.max(point.value, point.compare || 0)))
+  const slot = 100 / points.length
+  const barWidth = slot * 0.7
+  const toY = (value: number) => 100 - (value / max) * 100
+
+  const compareLine = points
+    .map((point, index) => `${index * slot + slot / 2},${toY(point.compare || 0)}`)
+    .join(' ')
+
+  const axisLabels = [0, Math.floor((points.length - 1) / 2), points.length - 1]
+    .filter((index, position, list) => list.indexOf(index) === position)
+
+  return (
+    <div>
+      <div className="flex items-stretch gap-2">
+        <div className="flex flex-col justify-between text-[10px] text-gray-400 text-right w-6" style={{ height }}>
+          <span>{Math.round(max)}</span>
+          <span>0</span>
+        </div>
+        <svg
+          viewBox="0 0 100 100"
+          preserveAspectRatio="none"
+          className="flex-1 overflow-visible"
+          style={{ height }}
+          role="img"
+          aria-label={`${valueLabel} per day`}
+        >
+          <line x1="0" y1="100" x2="100" y2="100" stroke="#e5e7eb" vectorEffect="non-scaling-stroke" />
+          {points.map((point, index) => (
+            <rect
+              key={point.label}
+              x={index * slot + (slot - barWidth) / 2}
+              y={toY(point.value)}
+              width={barWidth}
+              height={100 - toY(point.value)}
+              className="fill-gray-900 hover:fill-gray-600"
+            >
+              <title>
+                {`${point.label}: ${point.value} ${valueLabel.toLowerCase()}${
+                  hasCompare && compareLabel ? `, ${compareLabel.toLowerCase()} ${point.compare ?? 0}` : ''
+                }`}
+              </title>
+            </rect>
+          ))}
+          {hasCompare && (
+            <polyline
+              points={compareLine}
+              fill="none"
+              stroke="#2563eb"
+              strokeWidth={2}
+              strokeDasharray="4 3"
+              vectorEffect="non-scaling-stroke"
+            />
+          )}
+        </svg>
+      </div>
+
+      <div className="relative h-4 mt-1 ml-8 text-[10px] text-gray-500">
+        {axisLabels.map(index => (
+          <span
+            key={index}
+            className="absolute -translate-x-1/2 whitespace-nowrap"
+            style={{ left: `${index * slot + slot / 2}%` }}
+          >
+            {points[index].label}
+          </span>
+        ))}
+      </div>
+
+      <div className="flex items-center gap-4 mt-2 text-xs text-gray-600">
+        <span className="flex items-center gap-1.5">
+          <span className="w-3 h-3 bg-gray-900 rounded-sm" />
+          {valueLabel}
+        </span>
+        {hasCompare && compareLabel && (
+          <span className="flex items-center gap-1.5">
+            <span className="w-4 border-t-2 border-dashed border-blue-600" />
+            {compareLabel}
+          </span>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,37 @@
+// src/components/business/business-activity-tracker.tsx
+'use client'
+
+import { useEffect, type AnchorHTMLAttributes } from 'react'
+import { analyticsService, type BusinessEventType } from '@/lib/database'
+
+/**
+ * Counts a profile view for the owner's analytics. Renders nothing.
+ */
+export function BusinessViewTracker({ businessId }: { businessId: string }) {
+  useEffect(() => {
+    analyticsService.trackEvent(businessId, 'profile_view')
+  }, [businessId])
+
+  return null
+}
+
+interface TrackedLinkProps extends AnchorHTMLAttributes<HTMLAnchorElement> {
+  businessId: string
+  event: BusinessEventType
+}
+
+/**
+ * Plain link that records a contact tap before the browser follows it,
+ * so server-rendered pages can track clicks too
+ */
+export function TrackedLink({ businessId, event, onClick, ...props }: TrackedLinkProps) {
+  return (
+    <a
+      {...props}
+      onClick={(e) => {
+        analyticsService.trackEvent(businessId, event)
+        onClick?.(e)
+      }}
+    />
+  )
+}
@@ -8,14 +8,25 @@ import {
   businessService, 
   locationService, 
   categoryService,
+  categoryAttributeService,
+  type Business,
   type BusinessFormData,
+  type BusinessPendingChange,
   type City,
   type Area,
-  type Category
+  type Landmark,
+  type Category,
+  type CategoryAttribute
 } from '@/lib/database'
+import { createDefaultHoursForm, validateHoursForm } from '@/lib/services/business-hours'
+import { validateAttributeValues } from '@/lib/services/category-attributes'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
+import { BusinessHoursEditor } from '@/components/business/business-hours-editor'
+import { CategoryAttributeFields } from '@/components/business/category-attribute-fields'
+import { LocationPicker } from '@/components/map/location-picker'
+import { getErrorMessage } from '@/lib/utils'
 
 interface FormErrors {
   name?: string
@@ -26,26 +37,52 @@ interface FormErrors {
   email?: string
   website?: string
   category_ids?: string
+  attributes?: string
+  hours?: string
 }
 
-export default function BusinessAddForm() {
+interface BusinessAddFormProps {
+  /**
+   * Edit mode: the listing being edited and its current form values
+   */
+  business?: Business
+  initialData?: BusinessFormData
+  pendingChange?: BusinessPendingChange | null
+  /**
+   * Skip the review queue for published listings (admins)
+   */
+  applyImmediately?: boolean
+}
+
+export default function BusinessAddForm({
+  business,
+  initialData,
+  pendingChange,
+  applyImmediately = false
+}: BusinessAddFormProps = {}) {
   const { user } = useAuth()
   const router = useRouter()
+  const isEditing = !!business
+  const requiresReview = isEditing && business.status === 'published' && !applyImmediately
+  const isResubmission = isEditing && (business.status === 'rejected' || business.status === 'suspended') && !applyImmediately
   
   // Form data state
-  const [formData, setFormData] = useState<BusinessFormData>({
+  const [formData, setFormData] = useState<BusinessFormData>(initialData || {
     name: '',
     description: '',
     address: '',
     city_id: '',
     area_id: '',
+    landmark_id: '',
     phone: [''],
     email: '',
     website: '',
     whatsapp: '',
     established_year: undefined,
     employee_count: undefined,
-    category_ids: []
+    category_ids: [],
+    attributes: {},
+    hours: createDefaultHoursForm()
   })
 
   // Form state
@@ -56,7 +93,9 @@ export default function BusinessAddForm() {
   // Dropdown data
   const [cities, setCities] = useState<City[]>([])
   const [areas, setAreas] = useState<Area[]>([])
+  const [landmarks, setLandmarks] = useState<Landmark[]>([])
   const [categories, setCategories] = useState<Category[]>([])
+  const [attributes, setAttributes] = useState<CategoryAttribute[]>([])
   const [loadingAreas, setLoadingAreas] = useState(false)
 
   // Load initial data
@@ -70,10 +109,24 @@ export default function BusinessAddForm() {
       loadAreas(formData.city_id)
     } else {
       setAreas([])
-      setFormData(prev => ({ ...prev, area_id: '' }))
+      setFormData(prev => ({ ...prev, area_id: '', landmark_id: '' }))
     }
   }, [formData.city_id])
 
+  // Landmarks belong to an area
+  useEffect(() => {
+    if (formData.area_id) {
+      loadLandmarks(formData.area_id)
+    } else {
+      setLandmarks([])
+    }
+  }, [formData.area_id])
+
+  // Load the attributes that apply when categories change
+  useEffect(() => {
+    loadAttributes(formData.category_ids)
+  }, [formData.category_ids.join(',')])
+
   const loadInitialData = async () => {
     try {
       setLoading(true)
@@ -105,6 +158,16 @@ export default function BusinessAddForm() {
     }
   }
 
+  const loadLandmarks = async (areaId: string) => {
+    const { data } = await locationService.getLandmarksByArea(areaId)
+    setLandmarks(data || [])
+  }
+
+  const loadAttributes = async (categoryIds: string[]) => {
+    const { data } = await categoryAttributeService.getForCategories(categoryIds)
+    setAttributes(data || [])
+  }
+
   // Form validation
   const validateForm = (): boolean => {
     const newErrors: FormErrors = {}
@@ -148,6 +211,16 @@ export default function BusinessAddForm() {
       newErrors.category_ids = 'Please select at least one category'
     }
 
+    const attributesError = validateAttributeValues(attributes, formData.attributes || {})
+    if (attributesError) {
+      newErrors.attributes = attributesError
+    }
+
+    const hoursError = formData.hours ? validateHoursForm(formData.hours) : null
+    if (hoursError) {
+      newErrors.hours = hoursError
+    }
+
     setErrors(newErrors)
     return Object.keys(newErrors).length === 0
   }
@@ -190,8 +263,15 @@ export default function BusinessAddForm() {
       : [...formData.category_ids, categoryId]
     
     handleInputChange('category_ids', newCategories)
+    if (isSelected && formData.primary_category_id === categoryId) {
+      handleInputChange('primary_category_id', undefined)
+    }
   }
 
+  const primaryCategoryId = formData.primary_category_id && formData.category_ids.includes(formData.primary_category_id)
+    ? formData.primary_category_id
+    : formData.category_ids[0]
+
   // Handle form submission
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
@@ -209,6 +289,19 @@ export default function BusinessAddForm() {
     try {
       setSubmitting(true)
 
+      if (isEditing) {
+        const { data, error } = await businessService.submitChanges(business.id, formData, user!.id, {
+          applyImmediately
+        })
+
+        if (error || !data) {
+          throw new Error(getErrorMessage(error, 'Failed to update business listing'))
+        }
+
+        router.push(`/dashboard/business/my-listings?success=${data.requiresReview ? 'changes_submitted' : 'updated'}`)
+        return
+      }
+
       const { data, error } = await businessService.create(formData, user!.id)
 
       if (error) {
@@ -219,13 +312,23 @@ export default function BusinessAddForm() {
       router.push('/dashboard/business/my-listings?success=created')
 
     } catch (err) {
-      console.error('Error creating business:', err)
-      alert('Failed to create business listing. Please try again.')
+      console.error(isEditing ? 'Error updating business:' : 'Error creating business:', err)
+      alert(isEditing
+        ? 'Failed to save your changes. Please try again.'
+        : 'Failed to create business listing. Please try again.')
     } finally {
       setSubmitting(false)
     }
   }
 
+  const submitNote = requiresReview
+    ? 'Your listing stays live as it is while our team reviews these changes. Business hours update straight away.'
+    : isResubmission
+      ? 'Your updated listing will go back to our team for review.'
+      : isEditing
+        ? 'Your changes will be saved to this listing.'
+        : 'Your business listing will be reviewed by our team before going live. This usually takes 1-2 business days.'
+
   if (loading) {
     return (
       <div className="text-center py-12">
@@ -239,10 +342,34 @@ export default function BusinessAddForm() {
     <div className="space-y-6">
       {/* Page header */}
       <div>
-        <h1 className="text-2xl font-bold text-gray-900 mb-2">Add New Business</h1>
-        <p className="text-gray-600">Create a new business listing for the directory</p>
+        <h1 className="text-2xl font-bold text-gray-900 mb-2">
+          {isEditing ? 'Edit Business' : 'Add New Business'}
+        </h1>
+        <p className="text-gray-600">
+          {isEditing ? `Update the details for ${business.name}` : 'Create a new business listing for the directory'}
+        </p>
       </div>
 
+      {/* Changes awaiting review */}
+      {pendingChange && (
+        <Card className="border-yellow-200 bg-yellow-50">
+          <CardContent className="p-4">
+            <div className="flex items-start gap-3">
+              <svg className="w-5 h-5 text-yellow-600 flex-shrink-0 mt-0.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+              </svg>
+              <div>
+                <p className="text-yellow-800 font-medium">Changes awaiting review</p>
+                <p className="text-yellow-700 text-sm">
+                  The form shows the changes you submitted on {new Date(pendingChange.updated_at).toLocaleDateString('en-IN')}.
+                  Saving again replaces them.
+                </p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       <form onSubmit={handleSubmit} className="space-y-6">
         {/* Basic Information */}
         <Card>
@@ -344,7 +471,10 @@ export default function BusinessAddForm() {
                 id="area_id"
                 name="area_id"
                 value={formData.area_id}
-                onChange={(e) => handleInputChange('area_id', e.target.value)}
+                onChange={(e) => {
+                  handleInputChange('area_id', e.target.value)
+                  handleInputChange('landmark_id', '')
+                }}
                 disabled={!formData.city_id || loadingAreas}
                 className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-black focus:border-transparent disabled:bg-gray-100"
               >
@@ -359,6 +489,32 @@ export default function BusinessAddForm() {
               </select>
             </div>
 
+            {/* Landmark */}
+            {landmarks.length > 0 && (
+              <div>
+                <label htmlFor="landmark_id" className="block text-sm font-medium text-gray-700 mb-2">
+                  Nearby Landmark
+                </label>
+                <select
+                  id="landmark_id"
+                  name="landmark_id"
+                  value={formData.landmark_id || ''}
+                  onChange={(e) => handleInputChange('landmark_id', e.target.value)}
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-black focus:border-transparent"
+                >
+                  <option value="">Select a landmark (optional)</option>
+                  {landmarks.map(landmark => (
+                    <option key={landmark.id} value={landmark.id}>
+                      {landmark.name}
+                    </option>
+                  ))}
+                </select>
+                <p className="mt-1 text-sm text-gray-500">
+                  Shown as &quot;Near {landmarks.find(l => l.id === formData.landmark_id)?.name || 'landmark'}&quot; on your listing
+                </p>
+              </div>
+            )}
+
             {/* Address */}
             <div>
               <label htmlFor="address" className="block text-sm font-medium text-gray-700 mb-2">
@@ -379,6 +535,23 @@ export default function BusinessAddForm() {
                 <p className="mt-1 text-sm text-red-600">{errors.address}</p>
               )}
             </div>
+
+            {/* Map Pin */}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Map Location
+              </label>
+              <LocationPicker
+                value={formData.latitude !== undefined && formData.longitude !== undefined
+                  ? { latitude: formData.latitude, longitude: formData.longitude }
+                  : null}
+                onChange={(point) => setFormData(prev => ({
+                  ...prev,
+                  latitude: point?.latitude,
+                  longitude: point?.longitude
+                }))}
+              />
+            </div>
           </CardContent>
         </Card>
 
@@ -542,6 +715,40 @@ export default function BusinessAddForm() {
               </p>
             </div>
 
+            {/* Primary Category */}
+            {formData.category_ids.length > 1 && (
+              <div>
+                <label htmlFor="primary_category_id" className="block text-sm font-medium text-gray-700 mb-2">
+                  Primary Category
+                </label>
+                <select
+                  id="primary_category_id"
+                  name="primary_category_id"
+                  value={primaryCategoryId}
+                  onChange={(e) => handleInputChange('primary_category_id', e.target.value)}
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-black focus:border-transparent"
+                >
+                  {formData.category_ids.map(categoryId => {
+                    const category = categories.find(c => c.id === categoryId)
+                    return category ? (
+                      <option key={categoryId} value={categoryId}>{category.name}</option>
+                    ) : null
+                  })}
+                </select>
+                <p className="mt-1 text-sm text-gray-500">
+                  Shown first on your listing
+                </p>
+              </div>
+            )}
+
+            {/* Category Attributes */}
+            <CategoryAttributeFields
+              attributes={attributes}
+              value={formData.attributes || {}}
+              onChange={(values) => handleInputChange('attributes', values)}
+              error={errors.attributes}
+            />
+
             {/* Established Year */}
             <div>
               <label htmlFor="established_year" className="block text-sm font-medium text-gray-700 mb-2">
@@ -582,14 +789,32 @@ export default function BusinessAddForm() {
           </CardContent>
         </Card>
 
+        {/* Business Hours */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <span className="w-6 h-6 bg-teal-600 text-white rounded-full flex items-center justify-center text-sm font-bold">5</span>
+              Business Hours
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <BusinessHoursEditor
+              value={formData.hours!}
+              onChange={(hours) => handleInputChange('hours', hours)}
+              error={errors.hours}
+            />
+          </CardContent>
+        </Card>
+
         {/* Submit Section */}
         <Card>
           <CardContent className="p-6">
             <div className="text-center space-y-4">
-              <h3 className="text-lg font-medium text-gray-900">Ready to Submit?</h3>
+              <h3 className="text-lg font-medium text-gray-900">
+                {isEditing ? 'Save Changes?' : 'Ready to Submit?'}
+              </h3>
               <p className="text-gray-600">
-                Your business listing will be reviewed by our team before going live. 
-                This usually takes 1-2 business days.
+                {submitNote}
               </p>
               
               {/* Selected Categories Display */}
@@ -601,7 +826,7 @@ export default function BusinessAddForm() {
                       const category = categories.find(c => c.id === categoryId)
                       return category ? (
                         <Badge key={categoryId} className="bg-gray-100 text-gray-800">
-                          {category.name}
+                          {category.name}{categoryId === primaryCategoryId && formData.category_ids.length > 1 ? ' (primary)' : ''}
                         </Badge>
                       ) : null
                     })}
@@ -613,7 +838,7 @@ export default function BusinessAddForm() {
                 <Button
                   type="button"
                   variant="outline"
-                  onClick={() => router.push('/dashboard/business')}
+                  onClick={() => router.push(isEditing ? '/dashboard/business/my-listings' : '/dashboard/business')}
                   disabled={submitting}
                 >
                   Cancel
@@ -626,10 +851,12 @@ export default function BusinessAddForm() {
                   {submitting ? (
                     <div className="flex items-center gap-2">
                       <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
-                      Submitting...
+                      {isEditing ? 'Saving...' : 'Submitting...'}
                     </div>
-                  ) : (
+                  ) : requiresReview || isResubmission || !isEditing ? (
                     'Submit for Review'
+                  ) : (
+                    'Save Changes'
                   )}
                 </Button>
               </div>
@@ -0,0 +1,169 @@
+// src/components/business/business-analytics.tsx
+'use client'
+
+import { useState, useEffect } from 'react'
+import {
+  analyticsService,
+  type Business,
+  type BusinessAnalytics as Analytics,
+  type BusinessEventType
+} from '@/lib/database'
+import { BUSINESS_EVENT_OPTIONS } from '@/lib/services/analytics'
+import { TrendChart } from '@/components/analytics/trend-chart'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+
+const RANGE_OPTIONS = [
+  { value: 7, label: 'Last 7 days' },
+  { value: 30, label: 'Last 30 days' },
+  { value: 90, label: 'Last 90 days' }
+]
+
+const formatDay = (day: string) =>
+  new Date(`${day}T00:00:00`).toLocaleDateString('en-IN', { day: 'numeric', month: 'short' })
+
+/**
+ * "+40% vs similar", or null when there's nothing to compare with
+ */
+const formatComparison = (total: number, peerTotal: number | undefined) => {
+  if (peerTotal === undefined) return null
+  if (peerTotal === 0) return total > 0 ? 'Ahead of similar' : null
+
+  const change = Math.round(((total - peerTotal) / peerTotal) * 100)
+  if (change === 0) return 'Same as similar'
+  return `${change > 0 ? '+' : ''}${change}% vs similar`
+}
+
+/**
+ * Views, contact taps and search appearances over time for one published
+ * listing, next to the average of similar businesses nearby
+ */
+export function BusinessAnalytics({ businesses }: { businesses: Business[] }) {
+  const [businessId, setBusinessId] = useState(businesses[0]?.id || '')
+  const [days, setDays] = useState(30)
+  const [metric, setMetric] = useState<BusinessEventType>('profile_view')
+  const [analytics, setAnalytics] = useState<Analytics | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchAnalytics = async () => {
+    if (!businessId) return
+
+    setLoading(true)
+    setError(null)
+
+    const { data, error: fetchError } = await analyticsService.getBusinessAnalytics(businessId, days)
+
+    if (fetchError) {
+      setError('Failed to load analytics')
+    } else {
+      setAnalytics(data)
+    }
+    setLoading(false)
+  }
+
+  useEffect(() => {
+    fetchAnalytics()
+  }, [businessId, days])
+
+  if (businesses.length === 0) {
+    return null
+  }
+
+  const selected = BUSINESS_EVENT_OPTIONS.find(option => option.value === metric)!
+  const peerLabel = analytics?.categoryName
+    ? `Average ${analytics.categoryName.toLowerCase()} business${analytics.areaName ? ` in ${analytics.areaName}` : ''}`
+    : 'Average similar business'
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+        <CardTitle>Performance</CardTitle>
+        <div className="flex gap-2">
+          {businesses.length > 1 && (
+            <select
+              value={businessId}
+              onChange={(e) => setBusinessId(e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm bg-white max-w-[12rem]"
+            >
+              {businesses.map(business => (
+                <option key={business.id} value={business.id}>{business.name}</option>
+              ))}
+            </select>
+          )}
+          <select
+            value={days}
+            onChange={(e) => setDays(Number(e.target.value))}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm bg-white"
+          >
+            {RANGE_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {error ? (
+          <div className="flex items-center gap-3">
+            <p className="text-sm text-red-600">{error}</p>
+            <Button onClick={fetchAnalytics} variant="outline" size="sm" className="ml-auto">
+              Retry
+            </Button>
+          </div>
+        ) : loading || !analytics ? (
+          <div className="text-center py-12">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-black mx-auto"></div>
+          </div>
+        ) : (
+          <>
+            {/* Totals for the period; pick one to chart it */}
+            <div className="grid grid-cols-2 sm:grid-cols-4 lg:grid-cols-7 gap-2">
+              {BUSINESS_EVENT_OPTIONS.map(option => {
+                const comparison = formatComparison(
+                  analytics.totals[option.value],
+                  analytics.peerTotals?.[option.value]
+                )
+
+                return (
+                  <button
+                    key={option.value}
+                    onClick={() => setMetric(option.value)}
+                    title={option.description}
+                    className={`text-left p-3 rounded-lg border transition-colors touch-manipulation ${
+                      metric === option.value ? 'border-black bg-gray-50' : 'border-gray-200 hover:bg-gray-50'
+                    }`}
+                  >
+                    <p className="text-xs text-gray-600">{option.label}</p>
+                    <p className="text-xl font-bold text-gray-900">{analytics.totals[option.value]}</p>
+                    {comparison && <p className="text-[11px] text-gray-500">{comparison}</p>}
+                  </button>
+                )
+              })}
+            </div>
+
+            <div>
+              <p className="text-sm font-medium text-gray-900">{selected.label}</p>
+              <p className="text-xs text-gray-500 mb-3">{selected.description}</p>
+              <TrendChart
+                points={analytics.series[metric].map(point => ({
+                  label: formatDay(point.day),
+                  value: point.count,
+                  compare: point.peerAverage
+                }))}
+                valueLabel={selected.label}
+                compareLabel={peerLabel}
+              />
+            </div>
+
+            <p className="text-xs text-gray-500">
+              {analytics.peerTotals
+                ? `Compared with the average of ${analytics.peerCount} similar businesses listed in the same category and area.`
+                : 'There aren’t enough similar businesses in your category and area to compare with yet.'}
+              {' '}Figures update every hour, and visits from your own team aren’t counted.
+            </p>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -4,7 +4,18 @@
 import { useState, useEffect } from 'react'
 import { useRouter } from 'next/navigation'
 import { useAuth } from '@/lib/auth'
-import { businessService, type Business, type BusinessOwnerStats } from '@/lib/database'
+import {
+  businessService,
+  businessMemberService,
+  businessStatusService,
+  type Business,
+  type BusinessMemberRole,
+  type BusinessOwnerStats,
+  type BusinessStatusChange
+} from '@/lib/database'
+import { BUSINESS_ROLE_PERMISSIONS } from '@/lib/services/business-members'
+import { StatusDecisionNotice } from '@/components/business/status-decision-notice'
+import { BusinessAnalytics } from '@/components/business/business-analytics'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
@@ -12,13 +23,21 @@ import { Badge } from '@/components/ui/badge'
 interface DashboardData {
   stats: BusinessOwnerStats
   recentBusinesses: Business[]
+  publishedBusinesses: Business[]
+  needsAttention: Business[] // Rejected or suspended
+  statusChanges: Record<string, BusinessStatusChange>
+  roles: Record<string, BusinessMemberRole>
 }
 
 export default function BusinessOwnerOverview() {
   const { user } = useAuth()
   const [data, setData] = useState<DashboardData>({
     stats: { totalBusinesses: 0, publishedBusinesses: 0, pendingBusinesses: 0, totalReviews: 0, averageRating: 0 },
-    recentBusinesses: []
+    recentBusinesses: [],
+    publishedBusinesses: [],
+    needsAttention: [],
+    statusChanges: {},
+    roles: {}
   })
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
@@ -32,10 +51,14 @@ export default function BusinessOwnerOverview() {
       setLoading(true)
       setError(null)
 
-      // Get stats and recent businesses for this owner
-      const [statsResult, businessesResult] = await Promise.all([
+      // Get stats and recent businesses for every team this user is on
+      const [statsResult, businessesResult, publishedResult, rejectedResult, suspendedResult, membershipsResult] = await Promise.all([
         businessService.getOwnerStats(user.id),
-        businessService.getBusinesses({ ownerId: user.id, limit: 3 })
+        businessService.getBusinesses({ memberId: user.id, limit: 3 }),
+        businessService.getBusinesses({ memberId: user.id, status: 'published' }),
+        businessService.getBusinesses({ memberId: user.id, status: 'rejected' }),
+        businessService.getBusinesses({ memberId: user.id, status: 'suspended' }),
+        businessMemberService.getMemberships(user.id)
       ])
 
       // Check for errors
@@ -46,9 +69,21 @@ export default function BusinessOwnerOverview() {
         throw new Error('Failed to load your businesses')
       }
 
+      // Decisions the owner hasn't acted on yet, with the admin's reasons
+      const needsAttention = [...(rejectedResult.data || []), ...(suspendedResult.data || [])]
+      const { data: statusChanges } = await businessStatusService.getLatestChanges(
+        needsAttention.map(business => business.id)
+      )
+
       setData({
         stats: statsResult.data || { totalBusinesses: 0, publishedBusinesses: 0, pendingBusinesses: 0, totalReviews: 0, averageRating: 0 },
-        recentBusinesses: businessesResult.data || []
+        recentBusinesses: businessesResult.data || [],
+        publishedBusinesses: publishedResult.data || [],
+        needsAttention,
+        statusChanges: statusChanges || {},
+        roles: Object.fromEntries(
+          (membershipsResult.data || []).map(membership => [membership.business_id, membership.role])
+        )
       })
 
     } catch (err) {
@@ -97,6 +132,27 @@ export default function BusinessOwnerOverview() {
         <p className="text-gray-600">Manage your business listings and track performance</p>
       </div>
 
+      {/* Rejected and suspended listings */}
+      {data.needsAttention.length > 0 && (
+        <Card className="border-red-200">
+          <CardHeader>
+            <CardTitle>Needs Attention</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {data.needsAttention.map(business => (
+              <div key={business.id} className="space-y-2">
+                <h3 className="font-medium text-gray-900">{business.name}</h3>
+                <StatusDecisionNotice
+                  business={business}
+                  change={data.statusChanges[business.id] || null}
+                  canResubmit={BUSINESS_ROLE_PERMISSIONS.editListing.includes(data.roles[business.id] || 'owner')}
+                />
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
       {/* Stats cards */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
         <StatsCard
@@ -153,6 +209,9 @@ export default function BusinessOwnerOverview() {
         />
       </div>
 
+      {/* Views and contact taps over time */}
+      <BusinessAnalytics businesses={data.publishedBusinesses} />
+
       {/* Quick actions */}
       <Card>
         <CardHeader>
@@ -317,8 +376,8 @@ function BusinessCard({ business }: BusinessCardProps) {
     switch (status) {
       case 'pending': return 'Awaiting admin approval'
       case 'published': return 'Live and visible to customers'
-      case 'rejected': return 'Review required - please contact support'
-      case 'suspended': return 'Temporarily suspended'
+      case 'rejected': return 'Needs changes - see the reason above'
+      case 'suspended': return 'Suspended - see the reason above'
       default: return ''
     }
   }
@@ -0,0 +1,77 @@
+// src/components/business/business-hours-card.tsx
+'use client'
+
+import { useState } from 'react'
+import { businessHoursService, type BusinessHoursFormData } from '@/lib/database'
+import { createDefaultHoursForm, validateHoursForm } from '@/lib/services/business-hours'
+import { BusinessHoursEditor } from '@/components/business/business-hours-editor'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { getErrorMessage } from '@/lib/utils'
+
+interface BusinessHoursCardProps {
+  businessId: string
+  businessName: string
+  initialHours?: BusinessHoursFormData
+}
+
+/**
+ * Hours on their own, for team members who can't edit the rest of the listing.
+ * Hours skip review, so saving updates the live listing straight away.
+ */
+export function BusinessHoursCard({ businessId, businessName, initialHours }: BusinessHoursCardProps) {
+  const [hours, setHours] = useState<BusinessHoursFormData>(initialHours || createDefaultHoursForm())
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | undefined>(undefined)
+  const [saved, setSaved] = useState(false)
+
+  const handleSave = async () => {
+    const validationError = validateHoursForm(hours)
+    if (validationError) {
+      setError(validationError)
+      return
+    }
+
+    try {
+      setSaving(true)
+      setError(undefined)
+      setSaved(false)
+
+      const { success, error: saveError } = await businessHoursService.saveBusinessHours(businessId, hours)
+      if (!success) {
+        throw new Error(getErrorMessage(saveError, 'Failed to save hours'))
+      }
+
+      setSaved(true)
+    } catch (err) {
+      console.error('Error saving hours:', err)
+      setError('Failed to save hours. Please try again.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Hours for {businessName}</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <BusinessHoursEditor
+          value={hours}
+          onChange={(value) => {
+            setHours(value)
+            setSaved(false)
+          }}
+          error={error}
+        />
+
+        {saved && <p className="text-sm text-green-700">Hours saved. Customers see them right away.</p>}
+
+        <Button onClick={handleSave} disabled={saving} className="w-full">
+          {saving ? 'Saving...' : 'Save Hours'}
+        </Button>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,266 @@
+// src/components/business/business-hours-editor.tsx
+'use client'
+
+import {
+  MAX_SHIFTS_PER_DAY,
+  type BusinessHoursDay,
+  type BusinessHoursFormData,
+  type BusinessHoursOverrideInput
+} from '@/lib/services/business-hours'
+import { getTodayInAppTimezone } from '@/lib/utils'
+import { Button } from '@/components/ui/button'
+
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
+// Monday-first, the way shop boards are written
+const DISPLAY_ORDER = [1, 2, 3, 4, 5, 6, 0]
+
+interface BusinessHoursEditorProps {
+  value: BusinessHoursFormData
+  onChange: (value: BusinessHoursFormData) => void
+  error?: string
+}
+
+/**
+ * Weekly hours editor with split shifts, 24-hour days and holiday overrides
+ */
+export function BusinessHoursEditor({ value, onChange, error }: BusinessHoursEditorProps) {
+  const updateDay = (dayOfWeek: number, updates: Partial<BusinessHoursDay>) => {
+    onChange({
+      ...value,
+      weekly: value.weekly.map(day => day.day_of_week === dayOfWeek ? { ...day, ...updates } : day)
+    })
+  }
+
+  const updateShift = (dayOfWeek: number, index: number, field: 'opens_at' | 'closes_at', time: string) => {
+    const day = value.weekly.find(d => d.day_of_week === dayOfWeek)
+    if (!day) return
+    updateDay(dayOfWeek, {
+      shifts: day.shifts.map((shift, i) => i === index ? { ...shift, [field]: time } : shift)
+    })
+  }
+
+  const addShift = (dayOfWeek: number) => {
+    const day = value.weekly.find(d => d.day_of_week === dayOfWeek)
+    if (!day || day.shifts.length >= MAX_SHIFTS_PER_DAY) return
+    const lastClose = day.shifts[day.shifts.length - 1]?.closes_at || '14:00'
+    updateDay(dayOfWeek, {
+      shifts: [...day.shifts, { opens_at: lastClose, closes_at: '21:00' }]
+    })
+  }
+
+  const removeShift = (dayOfWeek: number, index: number) => {
+    const day = value.weekly.find(d => d.day_of_week === dayOfWeek)
+    if (!day || day.shifts.length <= 1) return
+    updateDay(dayOfWeek, { shifts: day.shifts.filter((_, i) => i !== index) })
+  }
+
+  const copyToAllDays = (dayOfWeek: number) => {
+    const source = value.weekly.find(d => d.day_of_week === dayOfWeek)
+    if (!source) return
+    onChange({
+      ...value,
+      weekly: value.weekly.map(day => ({
+        ...source,
+        day_of_week: day.day_of_week,
+        shifts: source.shifts.map(shift => ({ ...shift }))
+      }))
+    })
+  }
+
+  const updateOverride = (index: number, updates: Partial<BusinessHoursOverrideInput>) => {
+    onChange({
+      ...value,
+      overrides: value.overrides.map((override, i) => i === index ? { ...override, ...updates } : override)
+    })
+  }
+
+  const addOverride = () => {
+    onChange({
+      ...value,
+      overrides: [
+        ...value.overrides,
+        { override_date: '', is_closed: true, is_24_hours: false, opens_at: '10:00', closes_at: '20:00', note: '' }
+      ]
+    })
+  }
+
+  const removeOverride = (index: number) => {
+    onChange({ ...value, overrides: value.overrides.filter((_, i) => i !== index) })
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Weekly schedule */}
+      <div className="space-y-3">
+        {DISPLAY_ORDER.map(dayOfWeek => {
+          const day = value.weekly.find(d => d.day_of_week === dayOfWeek)
+          if (!day) return null
+
+          const mode = day.is_closed ? 'closed' : day.is_24_hours ? '24h' : 'open'
+
+          return (
+            <div key={dayOfWeek} className="border border-gray-200 rounded-lg p-3 space-y-3">
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-medium text-gray-900 w-24">{DAY_NAMES[dayOfWeek]}</span>
+                <select
+                  value={mode}
+                  onChange={(e) => updateDay(dayOfWeek, {
+                    is_closed: e.target.value === 'closed',
+                    is_24_hours: e.target.value === '24h'
+                  })}
+                  className="flex-1 max-w-[160px] px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-black focus:border-transparent"
+                  aria-label={`${DAY_NAMES[dayOfWeek]} status`}
+                >
+                  <option value="open">Open</option>
+                  <option value="24h">Open 24 hours</option>
+                  <option value="closed">Closed</option>
+                </select>
+                <button
+                  type="button"
+                  onClick={() => copyToAllDays(dayOfWeek)}
+                  className="text-xs text-blue-600 hover:text-blue-800 whitespace-nowrap"
+                >
+                  Copy to all
+                </button>
+              </div>
+
+              {mode === 'open' && (
+                <div className="space-y-2">
+                  {day.shifts.map((shift, index) => (
+                    <div key={index} className="flex items-center gap-2">
+                      <input
+                        type="time"
+                        value={shift.opens_at}
+                        onChange={(e) => updateShift(dayOfWeek, index, 'opens_at', e.target.value)}
+                        className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-black focus:border-transparent"
+                        aria-label={`${DAY_NAMES[dayOfWeek]} shift ${index + 1} opens`}
+                      />
+                      <span className="text-gray-500 text-sm">to</span>
+                      <input
+                        type="time"
+                        value={shift.closes_at}
+                        onChange={(e) => updateShift(dayOfWeek, index, 'closes_at', e.target.value)}
+                        className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-black focus:border-transparent"
+                        aria-label={`${DAY_NAMES[dayOfWeek]} shift ${index + 1} closes`}
+                      />
+                      {day.shifts.length > 1 && (
+                        <button
+                          type="button"
+                          onClick={() => removeShift(dayOfWeek, index)}
+                          className="p-2 text-gray-400 hover:text-red-600"
+                          aria-label="Remove shift"
+                        >
+                          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                          </svg>
+                        </button>
+                      )}
+                    </div>
+                  ))}
+                  {day.shifts.length < MAX_SHIFTS_PER_DAY && (
+                    <button
+                      type="button"
+                      onClick={() => addShift(dayOfWeek)}
+                      className="text-xs text-blue-600 hover:text-blue-800"
+                    >
+                      + Add break / second shift
+                    </button>
+                  )}
+                </div>
+              )}
+            </div>
+          )
+        })}
+        <p className="text-sm text-gray-500">
+          A closing time earlier than the opening time means you close after midnight.
+        </p>
+      </div>
+
+      {/* Holiday overrides */}
+      <div className="space-y-3">
+        <div>
+          <h4 className="text-sm font-medium text-gray-700">Holidays & special hours</h4>
+          <p className="text-sm text-gray-500">Festivals, holidays or one-off timings that replace the weekly schedule</p>
+        </div>
+
+        {value.overrides.map((override, index) => (
+          <div key={index} className="border border-gray-200 rounded-lg p-3 space-y-2">
+            <div className="flex items-center gap-2">
+              <input
+                type="date"
+                value={override.override_date}
+                min={getTodayInAppTimezone()}
+                onChange={(e) => updateOverride(index, { override_date: e.target.value })}
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-black focus:border-transparent"
+                aria-label="Special day date"
+              />
+              <select
+                value={override.is_closed ? 'closed' : override.is_24_hours ? '24h' : 'open'}
+                onChange={(e) => updateOverride(index, {
+                  is_closed: e.target.value === 'closed',
+                  is_24_hours: e.target.value === '24h'
+                })}
+                className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-black focus:border-transparent"
+                aria-label="Special day status"
+              >
+                <option value="closed">Closed</option>
+                <option value="open">Special hours</option>
+                <option value="24h">Open 24 hours</option>
+              </select>
+              <button
+                type="button"
+                onClick={() => removeOverride(index)}
+                className="p-2 text-gray-400 hover:text-red-600"
+                aria-label="Remove special day"
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </div>
+
+            {!override.is_closed && !override.is_24_hours && (
+              <div className="flex items-center gap-2">
+                <input
+                  type="time"
+                  value={override.opens_at}
+                  onChange={(e) => updateOverride(index, { opens_at: e.target.value })}
+                  className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-black focus:border-transparent"
+                  aria-label="Special day opens"
+                />
+                <span className="text-gray-500 text-sm">to</span>
+                <input
+                  type="time"
+                  value={override.closes_at}
+                  onChange={(e) => updateOverride(index, { closes_at: e.target.value })}
+                  className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-black focus:border-transparent"
+                  aria-label="Special day closes"
+                />
+              </div>
+            )}
+
+            <input
+              type="text"
+              value={override.note}
+              onChange={(e) => updateOverride(index, { note: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-black focus:border-transparent"
+              placeholder="Reason (e.g. Diwali)"
+              maxLength={60}
+            />
+          </div>
+        ))}
+
+        <Button type="button" variant="outline" size="sm" onClick={addOverride}>
+          <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6v6m0 0v6m0-6h6m-6 0H6" />
+          </svg>
+          Add Holiday / Special Hours
+        </Button>
+      </div>
+
+      {error && (
+        <p className="text-sm text-red-600">{error}</p>
+      )}
+    </div>
+  )
+}
@@ -4,23 +4,51 @@
 import { useState, useEffect } from 'react'
 import { useRouter, useSearchParams } from 'next/navigation'
 import { useAuth } from '@/lib/auth'
-import { businessService, type Business, type BusinessFilters } from '@/lib/database'
+import {
+  businessService,
+  businessMemberService,
+  businessStatusService,
+  type Business,
+  type BusinessFilters,
+  type BusinessMemberRole,
+  type BusinessStatusChange
+} from '@/lib/database'
+import { BUSINESS_ROLE_LABELS, BUSINESS_ROLE_PERMISSIONS } from '@/lib/services/business-members'
+import { StatusDecisionNotice } from '@/components/business/status-decision-notice'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
 
 type StatusFilter = 'all' | 'pending' | 'published' | 'rejected' | 'suspended'
+type SuccessType = 'created' | 'updated' | 'changes_submitted'
+
+const SUCCESS_MESSAGES: Record<SuccessType, { title: string; description: string }> = {
+  created: {
+    title: 'Business listing created successfully!',
+    description: 'Your business is now pending review and will be live within 1-2 business days.'
+  },
+  updated: {
+    title: 'Business listing updated successfully!',
+    description: 'Your changes have been saved.'
+  },
+  changes_submitted: {
+    title: 'Changes submitted for review',
+    description: 'Your live listing stays as it is until our team approves the changes, usually within 1-2 business days.'
+  }
+}
 
 export default function BusinessOwnerListings() {
   const { user } = useAuth()
   const router = useRouter()
   const searchParams = useSearchParams()
   const [businesses, setBusinesses] = useState<Business[]>([])
+  const [roles, setRoles] = useState<Record<string, BusinessMemberRole>>({})
+  const [statusChanges, setStatusChanges] = useState<Record<string, BusinessStatusChange>>({})
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [statusFilter, setStatusFilter] = useState<StatusFilter>('all')
   const [searchQuery, setSearchQuery] = useState('')
-  const [showSuccess, setShowSuccess] = useState(false)
+  const [successType, setSuccessType] = useState<SuccessType | null>(null)
 
   // Get initial filter from URL params
   useEffect(() => {
@@ -30,16 +58,16 @@ export default function BusinessOwnerListings() {
     }
 
     // Check for success message
-    const successType = searchParams.get('success')
-    if (successType === 'created') {
-      setShowSuccess(true)
+    const success = searchParams.get('success') as SuccessType
+    if (success && success in SUCCESS_MESSAGES) {
+      setSuccessType(success)
       // Clear the success param from URL
       const newUrl = new URL(window.location.href)
       newUrl.searchParams.delete('success')
       window.history.replaceState({}, '', newUrl.toString())
       
       // Auto-hide success message after 5 seconds
-      setTimeout(() => setShowSuccess(false), 5000)
+      setTimeout(() => setSuccessType(null), 5000)
     }
   }, [searchParams])
 
@@ -52,18 +80,31 @@ export default function BusinessOwnerListings() {
       setError(null)
 
       const filters: BusinessFilters = {
-        ownerId: user.id, // Only get businesses owned by current user
+        memberId: user.id, // Only get businesses the current user helps run
         status: statusFilter,
         search: searchQuery.trim()
       }
 
-      const { data, error: fetchError } = await businessService.getBusinesses(filters)
+      const [businessesResult, membershipsResult] = await Promise.all([
+        businessService.getBusinesses(filters),
+        businessMemberService.getMemberships(user.id)
+      ])
 
-      if (fetchError) {
+      if (businessesResult.error || membershipsResult.error) {
         throw new Error('Failed to load your businesses')
       }
 
-      setBusinesses(data || [])
+      setBusinesses(businessesResult.data || [])
+      setRoles(Object.fromEntries(
+        (membershipsResult.data || []).map(membership => [membership.business_id, membership.role])
+      ))
+
+      // Reasons for rejected and suspended listings
+      const decided = (businessesResult.data || []).filter(
+        business => business.status === 'rejected' || business.status === 'suspended'
+      )
+      const { data: changes } = await businessStatusService.getLatestChanges(decided.map(business => business.id))
+      setStatusChanges(changes || {})
     } catch (err) {
       console.error('Error fetching businesses:', err)
       setError('Failed to load your businesses. Please try again.')
@@ -100,7 +141,7 @@ export default function BusinessOwnerListings() {
   return (
     <div className="space-y-6">
       {/* Success Message */}
-      {showSuccess && (
+      {successType && (
         <Card className="border-green-200 bg-green-50">
           <CardContent className="p-4">
             <div className="flex items-center gap-3">
@@ -108,11 +149,11 @@ export default function BusinessOwnerListings() {
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" />
               </svg>
               <div className="flex-1">
-                <p className="text-green-800 font-medium">Business listing created successfully!</p>
-                <p className="text-green-700 text-sm">Your business is now pending review and will be live within 1-2 business days.</p>
+                <p className="text-green-800 font-medium">{SUCCESS_MESSAGES[successType].title}</p>
+                <p className="text-green-700 text-sm">{SUCCESS_MESSAGES[successType].description}</p>
               </div>
               <Button 
-                onClick={() => setShowSuccess(false)}
+                onClick={() => setSuccessType(null)}
                 variant="outline"
                 size="sm"
                 className="text-green-700 border-green-300"
@@ -250,6 +291,8 @@ export default function BusinessOwnerListings() {
             <BusinessOwnerCard 
               key={business.id} 
               business={business}
+              role={roles[business.id] || 'owner'}
+              statusChange={statusChanges[business.id] || null}
               onRefresh={fetchBusinesses}
             />
           ))
@@ -269,10 +312,12 @@ export default function BusinessOwnerListings() {
 // Individual business card for business owners
 interface BusinessOwnerCardProps {
   business: Business
+  role: BusinessMemberRole
+  statusChange: BusinessStatusChange | null
   onRefresh: () => void
 }
 
-function BusinessOwnerCard({ business, onRefresh }: BusinessOwnerCardProps) {
+function BusinessOwnerCard({ business, role, statusChange, onRefresh }: BusinessOwnerCardProps) {
   const router = useRouter()
 
   const getStatusColor = (status: string) => {
@@ -289,8 +334,6 @@ function BusinessOwnerCard({ business, onRefresh }: BusinessOwnerCardProps) {
     switch (status) {
       case 'pending': return 'Your business is being reviewed by our team. This usually takes 1-2 business days.'
       case 'published': return 'Your business is live and visible to customers searching in your area.'
-      case 'rejected': return 'Your listing needs attention. Please contact support for guidance on resubmission.'
-      case 'suspended': return 'Your business listing is temporarily suspended. Contact support for more information.'
       default: return ''
     }
   }
@@ -319,9 +362,16 @@ function BusinessOwnerCard({ business, onRefresh }: BusinessOwnerCardProps) {
               )}
             </div>
           </div>
-          <Badge className={getStatusColor(business.status)}>
-            {business.status}
-          </Badge>
+          <div className="flex flex-col items-end gap-1">
+            <Badge className={getStatusColor(business.status)}>
+              {business.status}
+            </Badge>
+            {role !== 'owner' && (
+              <Badge variant="secondary" className="text-xs">
+                {BUSINESS_ROLE_LABELS[role]}
+              </Badge>
+            )}
+          </div>
         </div>
       </CardHeader>
 
@@ -333,14 +383,19 @@ function BusinessOwnerCard({ business, onRefresh }: BusinessOwnerCardProps) {
         </div>
 
         {/* Status explanation */}
-        <div className={`p-3 rounded-lg border ${
-          business.status === 'published' ? 'bg-green-50 border-green-200' :
-          business.status === 'pending' ? 'bg-yellow-50 border-yellow-200' :
-          business.status === 'rejected' ? 'bg-red-50 border-red-200' :
-          'bg-gray-50 border-gray-200'
-        }`}>
-          <p className="text-sm text-gray-700">{getStatusMessage(business.status)}</p>
-        </div>
+        {business.status === 'rejected' || business.status === 'suspended' ? (
+          <StatusDecisionNotice
+            business={business}
+            change={statusChange}
+            canResubmit={BUSINESS_ROLE_PERMISSIONS.editListing.includes(role)}
+          />
+        ) : (
+          <div className={`p-3 rounded-lg border ${
+            business.status === 'published' ? 'bg-green-50 border-green-200' : 'bg-yellow-50 border-yellow-200'
+          }`}>
+            <p className="text-sm text-gray-700">{getStatusMessage(business.status)}</p>
+          </div>
+        )}
 
         {/* Contact info */}
         <div className="flex flex-wrap gap-4 text-sm text-gray-600">
@@ -405,7 +460,7 @@ function BusinessOwnerCard({ business, onRefresh }: BusinessOwnerCardProps) {
             <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
             </svg>
-            Edit Details
+            {role === 'editor' ? 'Update Hours' : 'Edit Details'}
           </Button>
 
           {business.status === 'published' && (
@@ -422,19 +477,6 @@ function BusinessOwnerCard({ business, onRefresh }: BusinessOwnerCardProps) {
               View Live
             </Button>
           )}
-
-          {business.status === 'rejected' && (
-            <Button
-              onClick={() => router.push(`/dashboard/business/edit/${business.id}?resubmit=true`)}
-              className="flex-1 bg-green-600 hover:bg-green-700"
-              size="sm"
-            >
-              <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
-              </svg>
-              Resubmit
-            </Button>
-          )}
         </div>
       </CardContent>
     </Card>
@@ -0,0 +1,120 @@
+// src/components/business/business-photo-carousel.tsx
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import useEmblaCarousel from 'embla-carousel-react'
+import { type BusinessPhoto } from '@/lib/database'
+import { Card, CardContent } from '@/components/ui/card'
+
+interface BusinessPhotoCarouselProps {
+  photos: BusinessPhoto[]
+  businessName: string
+}
+
+/**
+ * Swipeable photo carousel for the business detail page. The cover leads,
+ * followed by the gallery; the logo is shown in the header instead.
+ */
+export function BusinessPhotoCarousel({ photos, businessName }: BusinessPhotoCarouselProps) {
+  const slides = [
+    ...photos.filter(photo => photo.image_type === 'cover'),
+    ...photos.filter(photo => photo.image_type === 'gallery')
+  ]
+  const [emblaRef, emblaApi] = useEmblaCarousel({ loop: slides.length > 1 })
+  const [selectedIndex, setSelectedIndex] = useState(0)
+
+  const scrollPrev = useCallback(() => emblaApi?.scrollPrev(), [emblaApi])
+  const scrollNext = useCallback(() => emblaApi?.scrollNext(), [emblaApi])
+
+  useEffect(() => {
+    if (!emblaApi) return
+
+    const handleSelect = () => setSelectedIndex(emblaApi.selectedScrollSnap())
+    handleSelect()
+    emblaApi.on('select', handleSelect)
+    emblaApi.on('reInit', handleSelect)
+
+    return () => {
+      emblaApi.off('select', handleSelect)
+      emblaApi.off('reInit', handleSelect)
+    }
+  }, [emblaApi])
+
+  if (slides.length === 0) {
+    return null
+  }
+
+  const current = slides[selectedIndex]
+
+  return (
+    <Card className="overflow-hidden">
+      <div className="relative">
+        <div className="overflow-hidden" ref={emblaRef}>
+          <div className="flex">
+            {slides.map((photo, index) => (
+              <div key={photo.id} className="flex-[0_0_100%] min-w-0">
+                <img
+                  src={photo.url}
+                  alt={photo.alt_text || photo.caption || `${businessName} photo ${index + 1}`}
+                  className="w-full aspect-video object-cover bg-gray-100"
+                  loading={index === 0 ? 'eager' : 'lazy'}
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {slides.length > 1 && (
+          <>
+            <button
+              type="button"
+              onClick={scrollPrev}
+              aria-label="Previous photo"
+              className="absolute left-2 top-1/2 -translate-y-1/2 w-9 h-9 rounded-full bg-white/80 hover:bg-white shadow flex items-center justify-center"
+            >
+              <svg className="w-5 h-5 text-gray-800" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+              </svg>
+            </button>
+            <button
+              type="button"
+              onClick={scrollNext}
+              aria-label="Next photo"
+              className="absolute right-2 top-1/2 -translate-y-1/2 w-9 h-9 rounded-full bg-white/80 hover:bg-white shadow flex items-center justify-center"
+            >
+              <svg className="w-5 h-5 text-gray-800" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+              </svg>
+            </button>
+            <span className="absolute top-2 right-2 bg-black/60 text-white text-xs px-2 py-1 rounded-full">
+              {selectedIndex + 1} / {slides.length}
+            </span>
+          </>
+        )}
+      </div>
+
+      {(current?.caption || slides.length > 1) && (
+        <CardContent className="p-3 space-y-2">
+          {current?.caption && (
+            <p className="text-sm text-gray-700">{current.caption}</p>
+          )}
+          {slides.length > 1 && (
+            <div className="flex justify-center gap-1.5">
+              {slides.map((photo, index) => (
+                <button
+                  key={photo.id}
+                  type="button"
+                  onClick={() => emblaApi?.scrollTo(index)}
+                  aria-label={`Go to photo ${index + 1}`}
+                  className={`h-1.5 rounded-full transition-all ${
+                    index === selectedIndex ? 'w-4 bg-gray-900' : 'w-1.5 bg-gray-300'
+                  }`}
+                />
+              ))}
+            </div>
+          )}
+        </CardContent>
+      )}
+    </Card>
+  )
+}
@@ -0,0 +1,305 @@
+// src/components/business/business-photo-manager.tsx
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { useAuth } from '@/lib/auth'
+import { businessMediaService, type BusinessPhoto, type BusinessPhotoType } from '@/lib/database'
+import { BUSINESS_PHOTO_LIMITS } from '@/lib/services/business-media'
+import { IMAGE_UPLOAD_LIMITS } from '@/lib/image-processing'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+
+interface BusinessPhotoManagerProps {
+  businessId: string
+  /**
+   * Publish uploads without moderation (admins)
+   */
+  autoApprove?: boolean
+}
+
+const SINGLE_PHOTO_SLOTS: { type: Exclude<BusinessPhotoType, 'gallery'>; label: string; hint: string }[] = [
+  { type: 'logo', label: 'Logo', hint: 'Square image, shown next to your name in listings' },
+  { type: 'cover', label: 'Cover Photo', hint: 'Wide image, shown first on your listing page' }
+]
+
+/**
+ * Owner uploads for logo, cover and gallery. New photos stay hidden until an
+ * admin approves them.
+ */
+export function BusinessPhotoManager({ businessId, autoApprove = false }: BusinessPhotoManagerProps) {
+  const { user } = useAuth()
+  const [photos, setPhotos] = useState<BusinessPhoto[]>([])
+  const [loading, setLoading] = useState(true)
+  const [uploading, setUploading] = useState<BusinessPhotoType | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const gallery = photos.filter(photo => photo.image_type === 'gallery')
+
+  const loadPhotos = async () => {
+    const { data, error: fetchError } = await businessMediaService.getBusinessPhotos(businessId, { includeUnapproved: true })
+
+    if (fetchError) {
+      setError('Failed to load photos')
+    } else {
+      setPhotos(data || [])
+    }
+    setLoading(false)
+  }
+
+  useEffect(() => {
+    loadPhotos()
+  }, [businessId])
+
+  const handleUpload = async (files: FileList | null, imageType: BusinessPhotoType) => {
+    if (!user || !files || files.length === 0) return
+
+    const selected = imageType === 'gallery'
+      ? Array.from(files).slice(0, BUSINESS_PHOTO_LIMITS.maxGalleryPhotos - gallery.length)
+      : [files[0]]
+
+    if (selected.length === 0) {
+      setError(`You can add up to ${BUSINESS_PHOTO_LIMITS.maxGalleryPhotos} gallery photos`)
+      return
+    }
+
+    try {
+      setUploading(imageType)
+      setError(null)
+
+      for (const [index, file] of selected.entries()) {
+        const { error: uploadError } = await businessMediaService.uploadBusinessPhoto(file, businessId, user.id, {
+          imageType,
+          sortOrder: imageType === 'gallery' ? gallery.length + index : 0,
+          autoApprove
+        })
+
+        if (uploadError) {
+          throw new Error(typeof uploadError === 'string' ? uploadError : 'Upload failed')
+        }
+      }
+    } catch (err) {
+      console.error('Error uploading business photo:', err)
+      setError(err instanceof Error ? err.message : 'Upload failed')
+    } finally {
+      setUploading(null)
+      loadPhotos()
+    }
+  }
+
+  const handleDelete = async (photo: BusinessPhoto) => {
+    if (!confirm('Remove this photo?')) return
+
+    const { success } = await businessMediaService.deleteBusinessPhoto(photo.id)
+    if (!success) {
+      setError('Failed to remove photo')
+      return
+    }
+
+    setPhotos(prev => prev.filter(item => item.id !== photo.id))
+  }
+
+  const handleCaptionSave = async (photo: BusinessPhoto, caption: string) => {
+    if ((photo.caption || '') === caption.trim()) return
+
+    const { success } = await businessMediaService.updateBusinessPhoto(photo.id, { caption })
+    if (!success) {
+      setError('Failed to save caption')
+      return
+    }
+
+    // New wording is reviewed like a new photo
+    setPhotos(prev => prev.map(item => item.id === photo.id
+      ? { ...item, caption: caption.trim() || null, moderation_status: autoApprove ? item.moderation_status : 'pending' }
+      : item
+    ))
+  }
+
+  const handleMove = async (index: number, direction: -1 | 1) => {
+    const reordered = [...gallery]
+    const [moved] = reordered.splice(index, 1)
+    reordered.splice(index + direction, 0, moved)
+
+    setPhotos(prev => [
+      ...prev.filter(photo => photo.image_type !== 'gallery'),
+      ...reordered.map((photo, position) => ({ ...photo, sort_order: position }))
+    ])
+
+    const { success } = await businessMediaService.reorderBusinessPhotos(reordered.map(photo => photo.id))
+    if (!success) {
+      setError('Failed to save photo order')
+      loadPhotos()
+    }
+  }
+
+  if (loading) {
+    return (
+      <Card>
+        <CardContent className="p-6">
+          <div className="animate-pulse h-32 bg-gray-100 rounded-lg"></div>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Photos</CardTitle>
+        <p className="text-sm text-gray-600">
+          {autoApprove
+            ? 'Photos are published as soon as they upload.'
+            : 'New photos appear on your listing once our team has reviewed them.'}
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-3">
+            <p className="text-sm text-red-800">{error}</p>
+          </div>
+        )}
+
+        {/* Logo & Cover */}
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          {SINGLE_PHOTO_SLOTS.map(slot => {
+            // Newest first, so a replacement under review shows over the live one
+            const slotPhotos = photos
+              .filter(photo => photo.image_type === slot.type)
+              .sort((a, b) => b.created_at.localeCompare(a.created_at))
+            const current = slotPhotos[0]
+
+            return (
+              <div key={slot.type} className="space-y-2">
+                <p className="text-sm font-medium text-gray-700">{slot.label}</p>
+                {current ? (
+                  <PhotoTile photo={current} onDelete={() => handleDelete(current)} aspect={slot.type === 'logo' ? 'square' : 'wide'} />
+                ) : (
+                  <div className={`border-2 border-dashed border-gray-300 rounded-lg flex items-center justify-center text-xs text-gray-500 p-4 text-center ${
+                    slot.type === 'logo' ? 'aspect-square max-w-[10rem]' : 'aspect-video'
+                  }`}>
+                    {slot.hint}
+                  </div>
+                )}
+                <UploadButton
+                  label={current ? `Replace ${slot.label.toLowerCase()}` : `Upload ${slot.label.toLowerCase()}`}
+                  uploading={uploading === slot.type}
+                  disabled={uploading !== null}
+                  onSelect={(files) => handleUpload(files, slot.type)}
+                />
+              </div>
+            )
+          })}
+        </div>
+
+        {/* Gallery */}
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <p className="text-sm font-medium text-gray-700">
+              Gallery ({gallery.length}/{BUSINESS_PHOTO_LIMITS.maxGalleryPhotos})
+            </p>
+            <UploadButton
+              label="Add photos"
+              multiple
+              uploading={uploading === 'gallery'}
+              disabled={uploading !== null || gallery.length >= BUSINESS_PHOTO_LIMITS.maxGalleryPhotos}
+              onSelect={(files) => handleUpload(files, 'gallery')}
+            />
+          </div>
+
+          {gallery.length === 0 ? (
+            <p className="text-sm text-gray-500">Show customers your storefront, products and team.</p>
+          ) : (
+            <div className="grid grid-cols-2 sm:grid-cols-3 gap-4">
+              {gallery.map((photo, index) => (
+                <div key={photo.id} className="space-y-2">
+                  <PhotoTile photo={photo} onDelete={() => handleDelete(photo)} aspect="wide" />
+                  <input
+                    type="text"
+                    defaultValue={photo.caption || ''}
+                    onBlur={(e) => handleCaptionSave(photo, e.target.value)}
+                    placeholder="Caption (optional)"
+                    maxLength={120}
+                    className="w-full px-2 py-1 text-sm border border-gray-300 rounded focus:ring-2 focus:ring-black focus:border-transparent"
+                  />
+                  <div className="flex justify-between">
+                    <Button type="button" variant="ghost" size="sm" disabled={index === 0} onClick={() => handleMove(index, -1)}>
+                      ← Earlier
+                    </Button>
+                    <Button type="button" variant="ghost" size="sm" disabled={index === gallery.length - 1} onClick={() => handleMove(index, 1)}>
+                      Later →
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
+
+function PhotoTile({ photo, onDelete, aspect }: {
+  photo: BusinessPhoto
+  onDelete: () => void
+  aspect: 'square' | 'wide'
+}) {
+  return (
+    <div className={`relative rounded-lg overflow-hidden bg-gray-100 ${aspect === 'square' ? 'aspect-square max-w-[10rem]' : 'aspect-video'}`}>
+      <img src={photo.thumbnail_url || photo.url} alt={photo.alt_text || photo.caption || ''} className="w-full h-full object-cover" />
+
+      {photo.moderation_status === 'pending' && (
+        <Badge className="absolute top-2 left-2 bg-yellow-100 text-yellow-800 text-xs">Under review</Badge>
+      )}
+      {photo.moderation_status === 'rejected' && (
+        <Badge className="absolute top-2 left-2 bg-red-100 text-red-800 text-xs">Not approved</Badge>
+      )}
+
+      <button
+        type="button"
+        onClick={onDelete}
+        aria-label="Remove photo"
+        className="absolute top-2 right-2 w-7 h-7 rounded-full bg-white/90 hover:bg-white shadow flex items-center justify-center text-gray-700"
+      >
+        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+        </svg>
+      </button>
+    </div>
+  )
+}
+
+function UploadButton({ label, multiple = false, uploading, disabled, onSelect }: {
+  label: string
+  multiple?: boolean
+  uploading: boolean
+  disabled: boolean
+  onSelect: (files: FileList | null) => void
+}) {
+  const inputRef = useRef<HTMLInputElement>(null)
+
+  return (
+    <>
+      <input
+        ref={inputRef}
+        type="file"
+        accept={IMAGE_UPLOAD_LIMITS.acceptedTypes.join(',')}
+        multiple={multiple}
+        className="hidden"
+        onChange={(e) => {
+          onSelect(e.target.files)
+          e.target.value = ''
+        }}
+      />
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        disabled={disabled}
+        onClick={() => inputRef.current?.click()}
+      >
+        {uploading ? 'Uploading...' : label}
+      </Button>
+    </>
+  )
+}
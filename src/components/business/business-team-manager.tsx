@@ -0,0 +1,293 @@
+// src/components/business/business-team-manager.tsx
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useRouter } from 'next/navigation'
+import {
+  businessMemberService,
+  type BusinessInvitation,
+  type BusinessMember,
+  type BusinessMemberRole
+} from '@/lib/database'
+import { BUSINESS_ROLE_LABELS, BUSINESS_ROLE_OPTIONS } from '@/lib/services/business-members'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { getErrorMessage } from '@/lib/utils'
+
+type InviteRole = Exclude<BusinessMemberRole, 'owner'>
+
+const INVITE_ROLE_OPTIONS = BUSINESS_ROLE_OPTIONS.filter(option => option.value !== 'owner')
+
+interface BusinessTeamManagerProps {
+  businessId: string
+  currentUserId: string
+  canManage: boolean // Owner or admin
+}
+
+/**
+ * Team for one business: roles, invitations, leaving and ownership transfer
+ */
+export function BusinessTeamManager({ businessId, currentUserId, canManage }: BusinessTeamManagerProps) {
+  const router = useRouter()
+  const [members, setMembers] = useState<BusinessMember[]>([])
+  const [invitations, setInvitations] = useState<BusinessInvitation[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [inviteEmail, setInviteEmail] = useState('')
+  const [inviteRole, setInviteRole] = useState<InviteRole>('editor')
+  const [inviteError, setInviteError] = useState<string | null>(null)
+  const [actionLoading, setActionLoading] = useState<string | null>(null)
+
+  const loadTeam = async () => {
+    try {
+      setLoading(true)
+      setError(null)
+
+      const [membersResult, invitationsResult] = await Promise.all([
+        businessMemberService.getMembers(businessId),
+        canManage ? businessMemberService.getInvitations(businessId) : Promise.resolve({ data: [], error: null })
+      ])
+
+      if (membersResult.error || invitationsResult.error) {
+        throw new Error('Failed to load team')
+      }
+
+      setMembers(membersResult.data || [])
+      setInvitations(invitationsResult.data || [])
+    } catch (err) {
+      console.error('Error loading team:', err)
+      setError('Failed to load the team. Please try again.')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadTeam()
+  }, [businessId, canManage])
+
+  const runAction = async (key: string, action: () => Promise<{ success: boolean; error: unknown }>, failure: string) => {
+    try {
+      setActionLoading(key)
+
+      const { success, error: actionError } = await action()
+      if (!success) {
+        throw new Error(getErrorMessage(actionError, failure))
+      }
+
+      await loadTeam()
+      return true
+    } catch (err) {
+      console.error(failure, err)
+      alert(err instanceof Error ? err.message : failure)
+      return false
+    } finally {
+      setActionLoading(null)
+    }
+  }
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!inviteEmail.trim()) return
+
+    setActionLoading('invite')
+    setInviteError(null)
+
+    const { error: createError } = await businessMemberService.inviteMember(
+      businessId,
+      inviteEmail,
+      inviteRole,
+      currentUserId
+    )
+
+    setActionLoading(null)
+
+    if (createError) {
+      setInviteError(getErrorMessage(createError, 'Failed to send invitation'))
+      return
+    }
+
+    setInviteEmail('')
+    loadTeam()
+  }
+
+  const handleTransfer = async (member: BusinessMember) => {
+    const name = member.full_name || member.email || 'this member'
+    if (!confirm(`Make ${name} the owner? You will stay on the team as a manager.`)) return
+
+    await runAction(
+      `transfer:${member.user_id}`,
+      () => businessMemberService.transferOwnership(businessId, member.user_id),
+      'Failed to transfer ownership'
+    )
+  }
+
+  const handleLeave = async () => {
+    if (!confirm('Leave this business team? You will lose access to it.')) return
+
+    const left = await runAction(
+      'leave',
+      () => businessMemberService.removeMember(businessId, currentUserId),
+      'Failed to leave the team'
+    )
+
+    if (left) {
+      router.push('/dashboard/business/my-listings')
+    }
+  }
+
+  const currentMember = members.find(member => member.user_id === currentUserId)
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Team</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {error && (
+          <div className="flex items-center gap-3 p-3 bg-red-50 border border-red-200 rounded-lg">
+            <p className="text-sm text-red-700">{error}</p>
+            <Button onClick={loadTeam} variant="outline" size="sm" className="ml-auto">
+              Retry
+            </Button>
+          </div>
+        )}
+
+        {loading ? (
+          <div className="text-center py-6">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-black mx-auto"></div>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {members.map(member => (
+              <div key={member.user_id} className="flex items-center gap-3 p-3 border border-gray-200 rounded-lg">
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium text-gray-900 truncate">
+                    {member.full_name || member.email || 'Team member'}
+                    {member.user_id === currentUserId && <span className="text-gray-500"> (you)</span>}
+                  </p>
+                  {member.email && <p className="text-xs text-gray-500 truncate">{member.email}</p>}
+                </div>
+
+                {canManage && member.role !== 'owner' ? (
+                  <div className="flex items-center gap-2 flex-shrink-0">
+                    <select
+                      value={member.role}
+                      onChange={(e) => runAction(
+                        `role:${member.user_id}`,
+                        () => businessMemberService.updateMemberRole(businessId, member.user_id, e.target.value as InviteRole),
+                        'Failed to change role'
+                      )}
+                      disabled={actionLoading !== null}
+                      className="px-2 py-1 border border-gray-300 rounded-lg text-sm"
+                    >
+                      {INVITE_ROLE_OPTIONS.map(option => (
+                        <option key={option.value} value={option.value}>{option.label}</option>
+                      ))}
+                    </select>
+                    <Button
+                      onClick={() => handleTransfer(member)}
+                      disabled={actionLoading !== null}
+                      variant="outline"
+                      size="sm"
+                    >
+                      Make Owner
+                    </Button>
+                    <Button
+                      onClick={() => runAction(
+                        `remove:${member.user_id}`,
+                        () => businessMemberService.removeMember(businessId, member.user_id),
+                        'Failed to remove member'
+                      )}
+                      disabled={actionLoading !== null}
+                      variant="outline"
+                      size="sm"
+                      className="text-red-600 border-red-200 hover:bg-red-50"
+                    >
+                      Remove
+                    </Button>
+                  </div>
+                ) : (
+                  <Badge variant="secondary" className="text-xs flex-shrink-0">{BUSINESS_ROLE_LABELS[member.role]}</Badge>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {canManage && (
+          <div className="space-y-3 pt-4 border-t border-gray-100">
+            <h4 className="text-sm font-medium text-gray-900">Invite someone</h4>
+
+            <form onSubmit={handleInvite} className="space-y-2">
+              <div className="flex gap-2">
+                <input
+                  type="email"
+                  value={inviteEmail}
+                  onChange={(e) => setInviteEmail(e.target.value)}
+                  placeholder="name@example.com"
+                  className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-black focus:border-transparent"
+                />
+                <select
+                  value={inviteRole}
+                  onChange={(e) => setInviteRole(e.target.value as InviteRole)}
+                  className="px-2 py-2 border border-gray-300 rounded-lg text-sm"
+                >
+                  {INVITE_ROLE_OPTIONS.map(option => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+              </div>
+              <p className="text-xs text-gray-500">
+                {INVITE_ROLE_OPTIONS.find(option => option.value === inviteRole)?.description}.
+                They&apos;ll find the invitation on their profile after signing in with this email.
+              </p>
+              {inviteError && <p className="text-sm text-red-600">{inviteError}</p>}
+              <Button type="submit" size="sm" disabled={!inviteEmail.trim() || actionLoading !== null}>
+                {actionLoading === 'invite' ? 'Inviting...' : 'Send Invitation'}
+              </Button>
+            </form>
+
+            {invitations.length > 0 && (
+              <div className="space-y-2">
+                {invitations.map(invitation => (
+                  <div key={invitation.id} className="flex items-center gap-3 text-sm">
+                    <span className="flex-1 min-w-0 truncate text-gray-700">{invitation.email}</span>
+                    <Badge variant="secondary" className="text-xs">{BUSINESS_ROLE_LABELS[invitation.role]}</Badge>
+                    <button
+                      type="button"
+                      onClick={() => runAction(
+                        `revoke:${invitation.id}`,
+                        () => businessMemberService.revokeInvitation(invitation.id),
+                        'Failed to cancel invitation'
+                      )}
+                      disabled={actionLoading !== null}
+                      className="text-xs text-red-600 hover:text-red-700"
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        {currentMember && currentMember.role !== 'owner' && (
+          <div className="pt-4 border-t border-gray-100">
+            <Button
+              onClick={handleLeave}
+              disabled={actionLoading !== null}
+              variant="outline"
+              size="sm"
+              className="text-red-600 border-red-200 hover:bg-red-50"
+            >
+              Leave Team
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
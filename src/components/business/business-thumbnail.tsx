@@ -0,0 +1,27 @@
+// src/components/business/business-thumbnail.tsx
+
+interface BusinessThumbnailProps {
+  business: { name: string; logo_url?: string | null; cover_url?: string | null }
+  emojiClassName?: string
+}
+
+/**
+ * Logo (or cover) for list cards, falling back to the generic shop emoji.
+ * Fills its parent, so the card keeps control of size and shape.
+ */
+export function BusinessThumbnail({ business, emojiClassName = 'text-lg' }: BusinessThumbnailProps) {
+  const src = business.logo_url || business.cover_url
+
+  if (!src) {
+    return <span className={emojiClassName}>🏢</span>
+  }
+
+  return (
+    <img
+      src={src}
+      alt={business.name}
+      loading="lazy"
+      className="w-full h-full object-cover"
+    />
+  )
+}
@@ -0,0 +1,116 @@
+// src/components/business/category-attribute-fields.tsx
+'use client'
+
+import type {
+  AttributeValue,
+  BusinessAttributeValues,
+  CategoryAttribute
+} from '@/lib/services/category-attributes'
+
+interface CategoryAttributeFieldsProps {
+  attributes: CategoryAttribute[]
+  value: BusinessAttributeValues
+  onChange: (value: BusinessAttributeValues) => void
+  error?: string
+}
+
+const INPUT_CLASS = 'w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-black focus:border-transparent'
+
+/**
+ * Inputs for the attributes of the listing's categories. Every field is
+ * optional; blank ones are left off the listing.
+ */
+export function CategoryAttributeFields({ attributes, value, onChange, error }: CategoryAttributeFieldsProps) {
+  if (attributes.length === 0) return null
+
+  const setValue = (attributeId: string, attributeValue: AttributeValue | undefined) => {
+    const next = { ...value }
+    if (attributeValue === undefined) {
+      delete next[attributeId]
+    } else {
+      next[attributeId] = attributeValue
+    }
+    onChange(next)
+  }
+
+  const setPriceLimit = (attribute: CategoryAttribute, field: 'min' | 'max', input: string) => {
+    const current = value[attribute.id]
+    const range = typeof current === 'object' ? current : { min: NaN, max: NaN }
+    const next = { ...range, [field]: input === '' ? NaN : Number(input) }
+
+    setValue(attribute.id, Number.isNaN(next.min) && Number.isNaN(next.max) ? undefined : next)
+  }
+
+  return (
+    <div className="space-y-4">
+      {attributes.map(attribute => {
+        const current = value[attribute.id]
+        const inputId = `attribute-${attribute.id}`
+
+        return (
+          <div key={attribute.id}>
+            <label htmlFor={inputId} className="block text-sm font-medium text-gray-700 mb-2">
+              {attribute.label}
+              {attribute.unit && <span className="font-normal text-gray-500"> ({attribute.unit})</span>}
+            </label>
+
+            {attribute.attribute_type === 'boolean' && (
+              <select
+                id={inputId}
+                value={typeof current === 'boolean' ? String(current) : ''}
+                onChange={(e) => setValue(attribute.id, e.target.value === '' ? undefined : e.target.value === 'true')}
+                className={INPUT_CLASS}
+              >
+                <option value="">Not specified</option>
+                <option value="true">Yes</option>
+                <option value="false">No</option>
+              </select>
+            )}
+
+            {attribute.attribute_type === 'enum' && (
+              <select
+                id={inputId}
+                value={typeof current === 'string' ? current : ''}
+                onChange={(e) => setValue(attribute.id, e.target.value || undefined)}
+                className={INPUT_CLASS}
+              >
+                <option value="">Not specified</option>
+                {attribute.options.map(option => (
+                  <option key={option} value={option}>{option}</option>
+                ))}
+              </select>
+            )}
+
+            {attribute.attribute_type === 'price_range' && (
+              <div className="flex items-center gap-2">
+                <input
+                  type="number"
+                  id={inputId}
+                  min="0"
+                  value={typeof current === 'object' && Number.isFinite(current.min) ? current.min : ''}
+                  onChange={(e) => setPriceLimit(attribute, 'min', e.target.value)}
+                  className={INPUT_CLASS}
+                  placeholder="Lowest ₹"
+                />
+                <span className="text-gray-500">to</span>
+                <input
+                  type="number"
+                  min="0"
+                  aria-label={`${attribute.label} highest price`}
+                  value={typeof current === 'object' && Number.isFinite(current.max) ? current.max : ''}
+                  onChange={(e) => setPriceLimit(attribute, 'max', e.target.value)}
+                  className={INPUT_CLASS}
+                  placeholder="Highest ₹"
+                />
+              </div>
+            )}
+          </div>
+        )
+      })}
+
+      {error && (
+        <p className="text-sm text-red-600">{error}</p>
+      )}
+    </div>
+  )
+}
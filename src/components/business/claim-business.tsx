@@ -0,0 +1,288 @@
+// src/components/business/claim-business.tsx
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useRouter } from 'next/navigation'
+import { useAuth } from '@/lib/auth'
+import { claimService, type Business, type BusinessClaim, type ClaimMethod } from '@/lib/database'
+import { CLAIM_DOCUMENT_LIMITS } from '@/lib/services/claims'
+import { getErrorMessage, maskContact } from '@/lib/utils'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+
+interface ClaimOption {
+  key: string
+  method: ClaimMethod
+  contactValue?: string
+  label: string
+}
+
+/**
+ * "Claim this business" card for unverified listings. Owners prove it with a
+ * code sent to a listed email/phone or with a document, then an admin approves.
+ */
+export function ClaimBusiness({ business }: { business: Business }) {
+  const { user, loading: authLoading } = useAuth()
+  const router = useRouter()
+  const [claim, setClaim] = useState<BusinessClaim | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [open, setOpen] = useState(false)
+  const [selected, setSelected] = useState<string | null>(null)
+  const [document, setDocument] = useState<File | null>(null)
+  const [message, setMessage] = useState('')
+  const [code, setCode] = useState('')
+  const [sentTo, setSentTo] = useState<string | null>(null)
+  const [submitting, setSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const options: ClaimOption[] = [
+    ...(business.email ? [{
+      key: 'email',
+      method: 'email' as const,
+      contactValue: business.email,
+      label: `Email a code to ${maskContact(business.email)}`
+    }] : []),
+    ...(business.phone || []).map((phone, index) => ({
+      key: `phone-${index}`,
+      method: 'phone' as const,
+      contactValue: phone,
+      label: `Text a code to ${maskContact(phone)}`
+    })),
+    { key: 'document', method: 'document', label: 'Upload a document (business licence, GST or utility bill)' }
+  ]
+
+  useEffect(() => {
+    if (authLoading) return
+
+    if (!user) {
+      setLoading(false)
+      return
+    }
+
+    const fetchClaim = async () => {
+      const { data } = await claimService.getMyClaim(business.id, user.id)
+      setClaim(data)
+      setLoading(false)
+    }
+
+    fetchClaim()
+  }, [user, authLoading, business.id])
+
+  if (business.is_verified || loading || (user && business.owner_id === user.id)) {
+    return null
+  }
+
+  const handleOpen = () => {
+    if (!user) {
+      router.push('/login')
+      return
+    }
+    setOpen(true)
+  }
+
+  const sendCode = async (claimId: string) => {
+    const { data, error: sendError } = await claimService.sendClaimCode(claimId)
+    if (sendError) {
+      setError(getErrorMessage(sendError, 'Failed to send code'))
+      return
+    }
+    setSentTo(data?.sentTo || null)
+  }
+
+  const handleStart = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const option = options.find(item => item.key === selected)
+    if (!user || !option) return
+
+    try {
+      setSubmitting(true)
+      setError(null)
+
+      const { data, error: startError } = await claimService.startClaim(business.id, user.id, {
+        method: option.method,
+        contactValue: option.contactValue,
+        document: document || undefined,
+        message
+      })
+
+      if (startError || !data) {
+        setError(getErrorMessage(startError, 'Failed to start claim'))
+        return
+      }
+
+      setClaim(data)
+      if (data.status === 'pending_verification') {
+        await sendCode(data.id)
+      }
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const handleVerify = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!claim) return
+
+    try {
+      setSubmitting(true)
+      setError(null)
+
+      const { success, error: verifyError } = await claimService.verifyClaimCode(claim.id, code.trim())
+      if (!success) {
+        setError(getErrorMessage(verifyError, 'Failed to verify code'))
+        return
+      }
+
+      setClaim({ ...claim, status: 'pending_review', verified_at: new Date().toISOString() })
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const handleResend = async () => {
+    if (!claim) return
+
+    try {
+      setSubmitting(true)
+      setError(null)
+      await sendCode(claim.id)
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const renderBody = () => {
+    if (claim?.status === 'pending_review') {
+      return (
+        <p className="text-sm text-gray-700">
+          Thanks! Your claim is with our team for review. We&apos;ll update this listing once it&apos;s approved.
+        </p>
+      )
+    }
+
+    if (claim?.status === 'approved') {
+      return <p className="text-sm text-gray-700">Your claim was approved. This listing is now yours to manage.</p>
+    }
+
+    if (claim?.status === 'pending_verification') {
+      return (
+        <form onSubmit={handleVerify} className="space-y-3">
+          <p className="text-sm text-gray-700">
+            {sentTo
+              ? `Enter the 6-digit code we sent to ${sentTo}.`
+              : `Enter the code sent to ${claim.contact_value ? maskContact(claim.contact_value) : 'the listed contact'}.`}
+          </p>
+          <input
+            type="text"
+            inputMode="numeric"
+            autoComplete="one-time-code"
+            value={code}
+            onChange={(e) => setCode(e.target.value.replace(/\D/g, '').slice(0, 6))}
+            placeholder="123456"
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-center tracking-widest focus:ring-2 focus:ring-black focus:border-transparent"
+          />
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          <div className="flex gap-2">
+            <Button type="submit" size="sm" disabled={code.length !== 6 || submitting} className="flex-1">
+              {submitting ? 'Checking...' : 'Verify'}
+            </Button>
+            <Button type="button" variant="outline" size="sm" onClick={handleResend} disabled={submitting}>
+              Resend code
+            </Button>
+          </div>
+        </form>
+      )
+    }
+
+    if (!open) {
+      return (
+        <div className="space-y-3">
+          {claim?.status === 'rejected' && (
+            <p className="text-sm text-red-600">
+              Your previous claim was not approved{claim.review_note ? `: ${claim.review_note}` : '.'}
+            </p>
+          )}
+          <p className="text-sm text-gray-600">
+            Own or run this business? Claim the listing to keep its details up to date and reply to reviews.
+          </p>
+          <Button onClick={handleOpen} variant="outline" size="sm" className="w-full">
+            Claim this business
+          </Button>
+        </div>
+      )
+    }
+
+    const selectedOption = options.find(item => item.key === selected)
+
+    return (
+      <form onSubmit={handleStart} className="space-y-3">
+        <p className="text-sm font-medium text-gray-900">How would you like to verify?</p>
+
+        <div className="space-y-2">
+          {options.map(option => (
+            <label key={option.key} className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+              <input
+                type="radio"
+                name="claim-method"
+                value={option.key}
+                checked={selected === option.key}
+                onChange={() => setSelected(option.key)}
+              />
+              {option.label}
+            </label>
+          ))}
+        </div>
+
+        {selectedOption?.method === 'document' && (
+          <div>
+            <input
+              type="file"
+              accept={CLAIM_DOCUMENT_LIMITS.acceptedTypes.join(',')}
+              onChange={(e) => setDocument(e.target.files?.[0] || null)}
+              className="w-full text-sm"
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              PDF or image, up to {CLAIM_DOCUMENT_LIMITS.maxFileSizeMb} MB. Only our team can see it.
+            </p>
+          </div>
+        )}
+
+        <textarea
+          value={message}
+          onChange={(e) => setMessage(e.target.value)}
+          placeholder="Your role at the business (optional)"
+          maxLength={1000}
+          rows={2}
+          className="w-full p-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-black focus:border-transparent"
+        />
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        <div className="flex gap-2">
+          <Button
+            type="submit"
+            size="sm"
+            disabled={!selectedOption || (selectedOption.method === 'document' && !document) || submitting}
+            className="flex-1"
+          >
+            {submitting ? 'Submitting...' : selectedOption?.method === 'document' ? 'Submit Claim' : 'Send Code'}
+          </Button>
+          <Button type="button" variant="outline" size="sm" onClick={() => setOpen(false)}>
+            Cancel
+          </Button>
+        </div>
+      </form>
+    )
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Is this your business?</CardTitle>
+      </CardHeader>
+      <CardContent className="p-4">
+        {renderBody()}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,130 @@
+// src/components/business/contact-actions.tsx
+'use client'
+
+import { analyticsService, type Business } from '@/lib/database'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+
+/**
+ * Call / WhatsApp / Email / Website quick actions for a business listing
+ */
+export function ContactActions({ business }: { business: Business }) {
+  const handleCall = (phone: string) => {
+    analyticsService.trackEvent(business.id, 'call_tap')
+    window.location.href = `tel:${phone}`
+  }
+
+  const handleWhatsApp = (whatsapp: string) => {
+    analyticsService.trackEvent(business.id, 'whatsapp_tap')
+    const message = encodeURIComponent(`Hi! I found your business "${business.name}" on Chittor Darpan. I'd like to know more about your services.`)
+    window.open(`https://wa.me/${whatsapp}?text=${message}`, '_blank')
+  }
+
+  const handleWebsite = (website: string) => {
+    analyticsService.trackEvent(business.id, 'website_click')
+    if (!website.startsWith('http')) {
+      website = `https://${website}`
+    }
+    window.open(website, '_blank')
+  }
+
+  const handleEmail = (email: string) => {
+    analyticsService.trackEvent(business.id, 'email_tap')
+    const subject = encodeURIComponent(`Inquiry about ${business.name}`)
+    const body = encodeURIComponent(`Hi,\n\nI found your business "${business.name}" on Chittor Darpan and would like to know more about your services.\n\nThanks!`)
+    window.location.href = `mailto:${email}?subject=${subject}&body=${body}`
+  }
+
+  const contactMethods = []
+
+  if (business.phone && business.phone.length > 0) {
+    contactMethods.push({
+      type: 'call',
+      label: 'Call Now',
+      value: business.phone[0],
+      icon: (
+        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 5a2 2 0 012-2h3.28a1 1 0 01.948.684l1.498 4.493a1 1 0 01-.502 1.21l-2.257 1.13a11.042 11.042 0 005.516 5.516l1.13-2.257a1 1 0 011.21-.502l4.493 1.498a1 1 0 01.684.949V19a2 2 0 01-2 2h-1C9.716 21 3 14.284 3 6V5z" />
+        </svg>
+      ),
+      action: () => handleCall(business.phone![0])
+    })
+  }
+
+  if (business.whatsapp) {
+    contactMethods.push({
+      type: 'whatsapp',
+      label: 'WhatsApp',
+      value: business.whatsapp,
+      icon: (
+        <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 24 24">
+          <path d="M17.472 14.382c-.297-.149-1.758-.867-2.03-.967-.273-.099-.471-.148-.67.15-.197.297-.767.966-.94 1.164-.173.199-.347.223-.644.075-.297-.15-1.255-.463-2.39-1.475-.883-.788-1.48-1.761-1.653-2.059-.173-.297-.018-.458.13-.606.134-.133.298-.347.446-.52.149-.174.198-.298.298-.497.099-.198.05-.371-.025-.52-.075-.149-.669-1.612-.916-2.207-.242-.579-.487-.5-.669-.51-.173-.008-.371-.01-.57-.01-.198 0-.52.074-.792.372-.272.297-1.04 1.016-1.04 2.479 0 1.462 1.065 2.875 1.213 3.074.149.198 2.096 3.2 5.077 4.487.709.306 1.262.489 1.694.625.712.227 1.36.195 1.871.118.571-.085 1.758-.719 2.006-1.413.248-.694.248-1.289.173-1.413-.074-.124-.272-.198-.57-.347m-5.421 7.403h-.004a9.87 9.87 0 01-5.031-1.378l-.361-.214-3.741.982.998-3.648-.235-.374a9.86 9.86 0 01-1.51-5.26c.001-5.45 4.436-9.884 9.888-9.884 2.64 0 5.122 1.03 6.988 2.898a9.825 9.825 0 012.893 6.994c-.003 5.45-4.437 9.884-9.885 9.884m8.413-18.297A11.815 11.815 0 0012.05 0C5.495 0 .16 5.335.157 11.892c0 2.096.547 4.142 1.588 5.945L.057 24l6.305-1.654a11.882 11.882 0 005.683 1.448h.005c6.554 0 11.89-5.335 11.893-11.893A11.821 11.821 0 0020.885 3.488"/>
+        </svg>
+      ),
+      action: () => handleWhatsApp(business.whatsapp!)
+    })
+  }
+
+  if (business.email) {
+    contactMethods.push({
+      type: 'email',
+      label: 'Email',
+      value: business.email,
+      icon: (
+        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 8l7.89 4.26a2 2 0 002.22 0L21 8M5 19h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v10a2 2 0 002 2z" />
+        </svg>
+      ),
+      action: () => handleEmail(business.email!)
+    })
+  }
+
+  if (business.website) {
+    contactMethods.push({
+      type: 'website',
+      label: 'Website',
+      value: business.website,
+      icon: (
+        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 12a9 9 0 01-9 9m9-9a9 9 0 00-9-9m9 9H3m9 9v-9m0-9v9m0 9c-5 0-9-4-9-9s4-9 9-9" />
+        </svg>
+      ),
+      action: () => handleWebsite(business.website!)
+    })
+  }
+
+  if (contactMethods.length === 0) {
+    return null
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Contact {business.name}</CardTitle>
+      </CardHeader>
+      <CardContent className="p-4">
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          {contactMethods.map((method, index) => (
+            <Button
+              key={index}
+              onClick={method.action}
+              className={`h-auto p-4 justify-start gap-3 ${
+                method.type === 'call' ? 'bg-green-600 hover:bg-green-700 text-white' :
+                method.type === 'whatsapp' ? 'bg-green-500 hover:bg-green-600 text-white' :
+                method.type === 'email' ? 'bg-blue-600 hover:bg-blue-700 text-white' :
+                'bg-gray-100 hover:bg-gray-200 text-gray-900'
+              }`}
+              fullWidth
+            >
+              {method.icon}
+              <div className="text-left">
+                <div className="font-medium">{method.label}</div>
+                <div className="text-sm opacity-90 truncate">{method.value}</div>
+              </div>
+            </Button>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,66 @@
+// src/components/business/location-section.tsx
+'use client'
+
+import Link from 'next/link'
+import { analyticsService, type Business } from '@/lib/database'
+import { getLandmarkPath } from '@/lib/utils'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { LocationPinMap } from '@/components/map/location-pin-map'
+
+/**
+ * Address block with the map pin (when set) and a "Get Directions" deep link to Google Maps
+ */
+export function LocationSection({ business }: { business: Business }) {
+  const handleDirections = () => {
+    analyticsService.trackEvent(business.id, 'directions_click')
+
+    // Pinned coordinates beat geocoding the address, which is often vague locally
+    if (business.latitude !== null && business.longitude !== null) {
+      window.open(`https://www.google.com/maps/dir/?api=1&destination=${business.latitude},${business.longitude}`, '_blank')
+      return
+    }
+
+    const query = encodeURIComponent(`${business.address}, ${business.city_name}`)
+    window.open(`https://www.google.com/maps/search/?api=1&query=${query}`, '_blank')
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Location & Directions</CardTitle>
+      </CardHeader>
+      <CardContent className="p-4 space-y-4">
+        {business.latitude !== null && business.longitude !== null && (
+          <LocationPinMap latitude={business.latitude} longitude={business.longitude} title={business.name} />
+        )}
+
+        <div>
+          <p className="font-medium text-gray-900 mb-1">{business.address}</p>
+          <p className="text-gray-600">
+            {business.area_name ? `${business.area_name}, ` : ''}{business.city_name}
+          </p>
+          {business.landmark_name && business.landmark_slug && business.city_slug && (
+            <p className="text-gray-600 text-sm">
+              Near{' '}
+              <Link href={getLandmarkPath(business.city_slug, business.landmark_slug)} className="text-gray-900 underline underline-offset-2 hover:text-black">
+                {business.landmark_name}
+              </Link>
+            </p>
+          )}
+        </div>
+        
+        <Button
+          onClick={handleDirections}
+          variant="outline"
+          className="w-full justify-center gap-2"
+        >
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 20l-5.447-2.724A1 1 0 013 16.382V5.618a1 1 0 011.447-.894L9 7m0 13l6-3m-6 3V7m6 10l4.553 2.276A1 1 0 0021 18.382V7.618a1 1 0 00-.553-.894L15 4m0 13V4m0 0L9 7" />
+          </svg>
+          Get Directions
+        </Button>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,25 @@
+// src/components/business/near-landmark.tsx
+import { cn } from '@/lib/utils'
+
+interface NearLandmarkProps {
+  business: { landmark_name?: string | null }
+  className?: string
+}
+
+/**
+ * "Near Fort Road bus stand" line for list cards, the way locals give directions
+ */
+export function NearLandmark({ business, className }: NearLandmarkProps) {
+  if (!business.landmark_name) {
+    return null
+  }
+
+  return (
+    <div className={cn('flex items-center gap-1 text-sm text-gray-600', className)}>
+      <svg className="w-3 h-3 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 21v-4m0 0V5a2 2 0 012-2h6.5l1 1H21l-3 6 3 6h-8.5l-1-1H5a2 2 0 00-2 2zm9-13.5V9" />
+      </svg>
+      <span className="truncate">Near {business.landmark_name}</span>
+    </div>
+  )
+}
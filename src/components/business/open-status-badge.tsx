@@ -0,0 +1,47 @@
+// src/components/business/open-status-badge.tsx
+'use client'
+
+import { useEffect, useState } from 'react'
+import { cn, getBusinessStatus, type HoursSlot, type HoursOverrideSlot } from '@/lib/utils'
+import { Badge } from '@/components/ui/badge'
+
+interface OpenStatusBadgeProps {
+  hours?: HoursSlot[]
+  overrides?: HoursOverrideSlot[]
+  /**
+   * Show the "Closes at 9 PM" detail next to the badge
+   */
+  showMessage?: boolean
+  className?: string
+}
+
+/**
+ * Live "Open now / Closed" badge, re-evaluated every minute.
+ * Renders nothing until mounted so the server clock never leaks into the markup.
+ */
+export function OpenStatusBadge({ hours = [], overrides = [], showMessage = true, className }: OpenStatusBadgeProps) {
+  const [now, setNow] = useState<Date | null>(null)
+
+  useEffect(() => {
+    setNow(new Date())
+    const interval = setInterval(() => setNow(new Date()), 60 * 1000)
+    return () => clearInterval(interval)
+  }, [])
+
+  if (!now || (hours.length === 0 && overrides.length === 0)) {
+    return null
+  }
+
+  const status = getBusinessStatus(hours, { overrides, now })
+
+  return (
+    <div className={cn('flex items-center gap-2 text-sm', className)}>
+      <Badge variant={status.isOpen ? 'open' : 'closed'}>
+        {status.isOpen ? 'Open now' : 'Closed'}
+      </Badge>
+      {showMessage && (
+        <span className="text-gray-600">{status.message}</span>
+      )}
+    </div>
+  )
+}
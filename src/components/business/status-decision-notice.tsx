@@ -0,0 +1,67 @@
+// src/components/business/status-decision-notice.tsx
+'use client'
+
+import { useRouter } from 'next/navigation'
+import type { Business, BusinessStatusChange } from '@/lib/database'
+import { STATUS_REASON_TEMPLATES } from '@/lib/status-reasons'
+import { Button } from '@/components/ui/button'
+
+interface StatusDecisionNoticeProps {
+  business: Pick<Business, 'id' | 'name' | 'status'>
+  change: BusinessStatusChange | null
+  canResubmit: boolean // Owners and managers
+  showResubmit?: boolean // Off on the edit page, where saving resubmits
+}
+
+/**
+ * Why a listing was rejected or suspended, and how to send it back for review
+ */
+export function StatusDecisionNotice({ business, change, canResubmit, showResubmit = true }: StatusDecisionNoticeProps) {
+  const router = useRouter()
+
+  if (business.status !== 'rejected' && business.status !== 'suspended') return null
+
+  // Older decisions were made before reasons were recorded
+  const decision = change?.to_status === business.status ? change : null
+  const template = decision?.reason_code ? STATUS_REASON_TEMPLATES[decision.reason_code] : null
+
+  return (
+    <div className={`p-3 rounded-lg border space-y-2 ${
+      business.status === 'rejected' ? 'bg-red-50 border-red-200' : 'bg-gray-50 border-gray-200'
+    }`}>
+      <p className="text-sm font-medium text-gray-900">
+        {business.status === 'rejected' ? 'Not approved' : 'Suspended'}
+        {template && `: ${template.label}`}
+        {decision && (
+          <span className="font-normal text-gray-500"> · {new Date(decision.created_at).toLocaleDateString('en-IN')}</span>
+        )}
+      </p>
+
+      <p className="text-sm text-gray-700">
+        {template?.message || (business.status === 'rejected'
+          ? 'Your listing needs attention before it can go live.'
+          : 'Your listing is hidden from the directory for now.')}
+      </p>
+
+      {decision?.reason_note && (
+        <p className="text-sm text-gray-700 italic break-words">“{decision.reason_note}”</p>
+      )}
+
+      <p className="text-xs text-gray-600">
+        {canResubmit
+          ? 'Fix the listing and save it to send it back to our team for review.'
+          : 'Ask the owner or a manager to fix the listing and resubmit it.'}
+      </p>
+
+      {canResubmit && showResubmit && (
+        <Button
+          onClick={() => router.push(`/dashboard/business/edit/${business.id}?resubmit=true`)}
+          size="sm"
+          className="bg-green-600 hover:bg-green-700"
+        >
+          Fix and Resubmit
+        </Button>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,99 @@
+// src/components/business/team-invitations.tsx
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useRouter } from 'next/navigation'
+import { businessMemberService, type BusinessInvitation } from '@/lib/database'
+import { BUSINESS_ROLE_OPTIONS } from '@/lib/services/business-members'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+
+/**
+ * Invitations to join a business team, addressed to the signed-in user's email.
+ * Renders nothing when there are none.
+ */
+export function TeamInvitations() {
+  const router = useRouter()
+  const [invitations, setInvitations] = useState<BusinessInvitation[]>([])
+  const [actionLoading, setActionLoading] = useState<string | null>(null)
+
+  useEffect(() => {
+    const fetchInvitations = async () => {
+      const { data } = await businessMemberService.getMyInvitations()
+      setInvitations(data || [])
+    }
+
+    fetchInvitations()
+  }, [])
+
+  if (invitations.length === 0) {
+    return null
+  }
+
+  const handleAccept = async (invitation: BusinessInvitation) => {
+    setActionLoading(invitation.id)
+    const { error } = await businessMemberService.acceptInvitation(invitation.id)
+    setActionLoading(null)
+
+    if (error) {
+      alert(error)
+      return
+    }
+
+    router.push(`/dashboard/business/edit/${invitation.business_id}`)
+  }
+
+  const handleDecline = async (invitation: BusinessInvitation) => {
+    setActionLoading(invitation.id)
+    const { success } = await businessMemberService.declineInvitation(invitation.id)
+    setActionLoading(null)
+
+    if (!success) {
+      alert('Failed to decline invitation. Please try again.')
+      return
+    }
+
+    setInvitations(prev => prev.filter(other => other.id !== invitation.id))
+  }
+
+  return (
+    <Card className="border-blue-200 bg-blue-50">
+      <CardHeader>
+        <CardTitle className="text-lg">Team Invitations</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {invitations.map(invitation => {
+          const role = BUSINESS_ROLE_OPTIONS.find(option => option.value === invitation.role)
+
+          return (
+            <div key={invitation.id} className="p-3 bg-white border border-blue-100 rounded-lg space-y-2">
+              <p className="text-sm text-gray-900">
+                Join <span className="font-medium">{invitation.business_name || 'a business'}</span> as {role?.label.toLowerCase()}
+              </p>
+              <p className="text-xs text-gray-500">{role?.description}</p>
+              <div className="flex gap-2">
+                <Button
+                  onClick={() => handleAccept(invitation)}
+                  disabled={actionLoading === invitation.id}
+                  size="sm"
+                  className="flex-1"
+                >
+                  Accept
+                </Button>
+                <Button
+                  onClick={() => handleDecline(invitation)}
+                  disabled={actionLoading === invitation.id}
+                  variant="outline"
+                  size="sm"
+                  className="flex-1"
+                >
+                  Decline
+                </Button>
+              </div>
+            </div>
+          )
+        })}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,169 @@
+// src/components/map/listing-map.tsx
+'use client'
+
+import { useEffect, useMemo, useRef } from 'react'
+import Supercluster from 'supercluster'
+import type * as Leaflet from 'leaflet'
+import { cn } from '@/lib/utils'
+import { MAP_CONFIG, type MapMarker } from '@/lib/map'
+import type { GeoPoint, MapBounds } from '@/lib/services/geo'
+import { createPinIcon, toMapBounds, useLeafletMap } from './use-leaflet-map'
+
+interface ListingMapProps {
+  markers: MapMarker[]
+  /**
+   * Called once the map is ready and after every pan or zoom, so the
+   * parent can refetch listings for the visible area
+   */
+  onBoundsChange?: (bounds: MapBounds) => void
+  center?: GeoPoint
+  zoom?: number
+  loading?: boolean
+  className?: string
+}
+
+/**
+ * Popup content built from DOM nodes so listing names are never parsed as HTML
+ */
+function buildPopup(marker: MapMarker): HTMLElement {
+  const container = document.createElement('div')
+
+  const title = document.createElement(marker.url ? 'a' : 'p')
+  title.textContent = marker.title
+  title.className = 'font-semibold text-gray-900'
+  if (marker.url && title instanceof HTMLAnchorElement) {
+    title.href = marker.url
+    title.className += ' hover:text-blue-600'
+  }
+  container.appendChild(title)
+
+  if (marker.subtitle) {
+    const subtitle = document.createElement('p')
+    subtitle.textContent = marker.subtitle
+    subtitle.className = 'text-xs text-gray-600'
+    subtitle.style.margin = '2px 0 0'
+    container.appendChild(subtitle)
+  }
+
+  return container
+}
+
+/**
+ * Listings as clustered pins. Nearby pins merge into a numbered bubble
+ * that zooms in when clicked.
+ */
+export function ListingMap({
+  markers,
+  onBoundsChange,
+  center,
+  zoom,
+  loading = false,
+  className
+}: ListingMapProps) {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const leaflet = useLeafletMap(containerRef, { center, zoom })
+  const layerRef = useRef<Leaflet.LayerGroup | null>(null)
+  const onBoundsChangeRef = useRef(onBoundsChange)
+  onBoundsChangeRef.current = onBoundsChange
+
+  const index = useMemo(() => {
+    const clusterIndex = new Supercluster<{ marker: MapMarker }>({ radius: 60, maxZoom: MAP_CONFIG.maxZoom - 2 })
+    clusterIndex.load(markers.map(marker => ({
+      type: 'Feature' as const,
+      properties: { marker },
+      geometry: { type: 'Point' as const, coordinates: [marker.longitude, marker.latitude] }
+    })))
+    return clusterIndex
+  }, [markers])
+
+  // Report the visible area now and after every move
+  useEffect(() => {
+    if (!leaflet) return
+    const { map } = leaflet
+
+    const handleMoveEnd = () => onBoundsChangeRef.current?.(toMapBounds(map.getBounds()))
+
+    handleMoveEnd()
+    map.on('moveend', handleMoveEnd)
+
+    return () => {
+      map.off('moveend', handleMoveEnd)
+    }
+  }, [leaflet])
+
+  // Redraw clusters for the current view whenever markers or the view change
+  useEffect(() => {
+    if (!leaflet) return
+    const { L, map } = leaflet
+
+    if (!layerRef.current) {
+      layerRef.current = L.layerGroup().addTo(map)
+    }
+    const layer = layerRef.current
+    const pinIcon = createPinIcon(L)
+
+    const render = () => {
+      layer.clearLayers()
+
+      const bounds = map.getBounds()
+      const clusters = index.getClusters(
+        [bounds.getWest(), bounds.getSouth(), bounds.getEast(), bounds.getNorth()],
+        Math.round(map.getZoom())
+      )
+
+      clusters.forEach(feature => {
+        const [longitude, latitude] = feature.geometry.coordinates
+
+        if ('cluster' in feature.properties && feature.properties.cluster) {
+          const count = feature.properties.point_count
+          const size = count < 10 ? 32 : count < 100 ? 40 : 48
+          const clusterId = feature.properties.cluster_id
+
+          L.marker([latitude, longitude], {
+            icon: L.divIcon({
+              className: '',
+              html: `<div class="flex items-center justify-center rounded-full bg-blue-600 text-white text-sm font-semibold shadow-md border-2 border-white" style="width:${size}px;height:${size}px">${count}</div>`,
+              iconSize: [size, size],
+              iconAnchor: [size / 2, size / 2]
+            })
+          })
+            .on('click', () => {
+              map.setView([latitude, longitude], Math.min(index.getClusterExpansionZoom(clusterId), MAP_CONFIG.maxZoom))
+            })
+            .addTo(layer)
+          return
+        }
+
+        const { marker } = feature.properties as { marker: MapMarker }
+        L.marker([latitude, longitude], { icon: pinIcon, title: marker.title })
+          .bindPopup(() => buildPopup(marker))
+          .addTo(layer)
+      })
+    }
+
+    render()
+    map.on('zoomend moveend', render)
+
+    return () => {
+      map.off('zoomend moveend', render)
+    }
+  }, [leaflet, index])
+
+  return (
+    <div className={cn('relative rounded-lg overflow-hidden border border-gray-200', className)}>
+      <div ref={containerRef} className="absolute inset-0 z-0" />
+
+      {loading && (
+        <div className="absolute top-3 left-1/2 -translate-x-1/2 z-[1000] bg-white/90 px-3 py-1 rounded-full shadow text-sm text-gray-700">
+          Loading...
+        </div>
+      )}
+
+      {!loading && leaflet && markers.length === 0 && (
+        <div className="absolute top-3 left-1/2 -translate-x-1/2 z-[1000] bg-white/90 px-3 py-1 rounded-full shadow text-sm text-gray-700">
+          Nothing pinned in this area
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,114 @@
+// src/components/map/location-picker.tsx
+'use client'
+
+import { useEffect, useRef } from 'react'
+import type * as Leaflet from 'leaflet'
+import { cn } from '@/lib/utils'
+import { MAP_CONFIG } from '@/lib/map'
+import { useGeolocation } from '@/hooks/use-mobile'
+import type { GeoPoint } from '@/lib/services/geo'
+import { Button } from '@/components/ui/button'
+import { createPinIcon, useLeafletMap } from './use-leaflet-map'
+
+interface LocationPickerProps {
+  value: GeoPoint | null
+  onChange: (point: GeoPoint | null) => void
+  className?: string
+}
+
+// ~1m precision is plenty for a storefront
+const roundCoordinate = (value: number) => Math.round(value * 1e6) / 1e6
+
+const toGeoPoint = (latlng: { lat: number; lng: number }): GeoPoint => ({
+  latitude: roundCoordinate(latlng.lat),
+  longitude: roundCoordinate(latlng.lng)
+})
+
+/**
+ * Map for placing a listing's pin. Click to drop it, drag to adjust.
+ */
+export function LocationPicker({ value, onChange, className }: LocationPickerProps) {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const leaflet = useLeafletMap(containerRef, {
+    center: value ?? MAP_CONFIG.defaultCenter,
+    zoom: value ? MAP_CONFIG.pinZoom : MAP_CONFIG.defaultZoom
+  })
+  const markerRef = useRef<Leaflet.Marker | null>(null)
+  const onChangeRef = useRef(onChange)
+  onChangeRef.current = onChange
+  const { requestLocation, isLocating, isSupported, error } = useGeolocation()
+
+  // Clicking the map drops the pin there
+  useEffect(() => {
+    if (!leaflet) return
+    const { map } = leaflet
+
+    const handleClick = (event: Leaflet.LeafletMouseEvent) => onChangeRef.current(toGeoPoint(event.latlng))
+    map.on('click', handleClick)
+
+    return () => {
+      map.off('click', handleClick)
+    }
+  }, [leaflet])
+
+  // Keep the marker in sync with the value
+  useEffect(() => {
+    if (!leaflet) return
+    const { L, map } = leaflet
+
+    if (!value) {
+      markerRef.current?.remove()
+      markerRef.current = null
+      return
+    }
+
+    if (markerRef.current) {
+      markerRef.current.setLatLng([value.latitude, value.longitude])
+      return
+    }
+
+    const marker = L.marker([value.latitude, value.longitude], { icon: createPinIcon(L), draggable: true }).addTo(map)
+    marker.on('dragend', () => onChangeRef.current(toGeoPoint(marker.getLatLng())))
+    markerRef.current = marker
+  }, [leaflet, value])
+
+  const handleUseMyLocation = async () => {
+    const point = await requestLocation()
+    if (!point) return
+
+    onChange(toGeoPoint({ lat: point.latitude, lng: point.longitude }))
+    leaflet?.map.setView([point.latitude, point.longitude], MAP_CONFIG.pinZoom)
+  }
+
+  return (
+    <div className={cn('space-y-2', className)}>
+      <div className="relative h-64 rounded-lg overflow-hidden border border-gray-300">
+        <div ref={containerRef} className="absolute inset-0 z-0" />
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="text-xs text-gray-500">
+          {value
+            ? `Pinned at ${value.latitude.toFixed(5)}, ${value.longitude.toFixed(5)}. Drag the pin to adjust.`
+            : 'Click the map to drop a pin.'}
+        </p>
+        <div className="flex gap-2">
+          {isSupported && (
+            <Button type="button" variant="outline" size="sm" onClick={handleUseMyLocation} disabled={isLocating}>
+              {isLocating ? 'Finding you...' : 'Use my location'}
+            </Button>
+          )}
+          {value && (
+            <Button type="button" variant="ghost" size="sm" onClick={() => onChange(null)}>
+              Remove pin
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {error && (
+        <p className="text-xs text-red-600">{error}</p>
+      )}
+    </div>
+  )
+}
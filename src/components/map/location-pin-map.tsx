@@ -0,0 +1,44 @@
+// src/components/map/location-pin-map.tsx
+'use client'
+
+import { useEffect, useRef } from 'react'
+import { cn } from '@/lib/utils'
+import { MAP_CONFIG } from '@/lib/map'
+import { createPinIcon, useLeafletMap } from './use-leaflet-map'
+
+interface LocationPinMapProps {
+  latitude: number
+  longitude: number
+  title: string
+  className?: string
+}
+
+/**
+ * Small embedded map with a single pin, for detail pages
+ */
+export function LocationPinMap({ latitude, longitude, title, className }: LocationPinMapProps) {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const leaflet = useLeafletMap(containerRef, {
+    center: { latitude, longitude },
+    zoom: MAP_CONFIG.pinZoom,
+    scrollWheelZoom: false
+  })
+
+  useEffect(() => {
+    if (!leaflet) return
+    const { L, map } = leaflet
+
+    const marker = L.marker([latitude, longitude], { icon: createPinIcon(L), title }).addTo(map)
+    map.setView([latitude, longitude])
+
+    return () => {
+      marker.remove()
+    }
+  }, [leaflet, latitude, longitude, title])
+
+  return (
+    <div className={cn('relative h-48 rounded-lg overflow-hidden border border-gray-200', className)}>
+      <div ref={containerRef} className="absolute inset-0 z-0" />
+    </div>
+  )
+}
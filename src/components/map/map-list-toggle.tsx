@@ -0,0 +1,38 @@
+// src/components/map/map-list-toggle.tsx
+'use client'
+
+import { cn } from '@/lib/utils'
+
+export type ListingView = 'list' | 'map'
+
+interface MapListToggleProps {
+  view: ListingView
+  onChange: (view: ListingView) => void
+  className?: string
+}
+
+const VIEWS: { value: ListingView; label: string }[] = [
+  { value: 'list', label: 'List' },
+  { value: 'map', label: 'Map' }
+]
+
+export function MapListToggle({ view, onChange, className }: MapListToggleProps) {
+  return (
+    <div className={cn('inline-flex rounded-lg border border-gray-300 p-0.5 bg-white', className)}>
+      {VIEWS.map(option => (
+        <button
+          key={option.value}
+          type="button"
+          onClick={() => onChange(option.value)}
+          aria-pressed={view === option.value}
+          className={cn(
+            'px-3 py-1 text-sm rounded-md transition-colors',
+            view === option.value ? 'bg-black text-white' : 'text-gray-700 hover:bg-gray-100'
+          )}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  )
+}
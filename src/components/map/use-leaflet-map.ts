@@ -0,0 +1,85 @@
+// src/components/map/use-leaflet-map.ts
+'use client'
+
+import { useEffect, useRef, useState, type RefObject } from 'react'
+import type * as Leaflet from 'leaflet'
+import { MAP_CONFIG } from '@/lib/map'
+import type { GeoPoint, MapBounds } from '@/lib/services/geo'
+import 'leaflet/dist/leaflet.css'
+
+type LeafletModule = typeof Leaflet
+
+interface LeafletMapOptions {
+  center?: GeoPoint
+  zoom?: number
+  scrollWheelZoom?: boolean
+}
+
+/**
+ * Creates a Leaflet map with the configured tiles inside the container.
+ * Leaflet touches window on import, so it's loaded client-side only.
+ */
+export function useLeafletMap(
+  containerRef: RefObject<HTMLDivElement | null>,
+  { center = MAP_CONFIG.defaultCenter, zoom = MAP_CONFIG.defaultZoom, scrollWheelZoom = true }: LeafletMapOptions = {}
+) {
+  const [leaflet, setLeaflet] = useState<{ L: LeafletModule; map: Leaflet.Map } | null>(null)
+  // The map is created once with these; later center/zoom changes are applied by callers
+  const initialOptions = useRef({ center, zoom, scrollWheelZoom })
+
+  useEffect(() => {
+    let cancelled = false
+    let map: Leaflet.Map | null = null
+
+    import('leaflet').then(({ default: L }) => {
+      if (cancelled || !containerRef.current) return
+
+      const { center, zoom, scrollWheelZoom } = initialOptions.current
+      map = L.map(containerRef.current, {
+        center: [center.latitude, center.longitude],
+        zoom,
+        scrollWheelZoom
+      })
+
+      L.tileLayer(MAP_CONFIG.tileUrl, {
+        attribution: MAP_CONFIG.attribution,
+        maxZoom: MAP_CONFIG.maxZoom
+      }).addTo(map)
+
+      setLeaflet({ L, map })
+    })
+
+    return () => {
+      cancelled = true
+      map?.remove()
+    }
+  }, [containerRef])
+
+  return leaflet
+}
+
+/**
+ * Map pin as an inline SVG, avoiding Leaflet's default icon images
+ * (their URLs break under bundlers)
+ */
+export function createPinIcon(L: LeafletModule, color: string = '#2563eb'): Leaflet.DivIcon {
+  return L.divIcon({
+    className: '',
+    html: `<svg width="28" height="40" viewBox="0 0 28 40" xmlns="http://www.w3.org/2000/svg">
+      <path d="M14 0C6.3 0 0 6.3 0 14c0 10.5 14 26 14 26s14-15.5 14-26C28 6.3 21.7 0 14 0z" fill="${color}"/>
+      <circle cx="14" cy="14" r="5" fill="white"/>
+    </svg>`,
+    iconSize: [28, 40],
+    iconAnchor: [14, 40],
+    popupAnchor: [0, -36]
+  })
+}
+
+export function toMapBounds(bounds: Leaflet.LatLngBounds): MapBounds {
+  return {
+    north: bounds.getNorth(),
+    south: bounds.getSouth(),
+    east: bounds.getEast(),
+    west: bounds.getWest()
+  }
+}
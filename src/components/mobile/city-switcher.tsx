@@ -0,0 +1,48 @@
+'use client'
+
+import * as React from 'react'
+import { cn } from '@/lib/utils'
+import { useCity } from '@/lib/city'
+
+export interface CitySwitcherProps {
+  /**
+   * Additional class names
+   */
+  className?: string
+}
+
+/**
+ * Compact city picker for the header. The choice is remembered across
+ * visits; hidden while there is only one city to choose from.
+ */
+export function CitySwitcher({ className }: CitySwitcherProps) {
+  const { city, cities, setCity } = useCity()
+
+  if (!city || cities.length < 2) {
+    return null
+  }
+
+  const handleChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const next = cities.find(c => c.slug === e.target.value)
+    if (next) setCity(next)
+  }
+
+  return (
+    <label className={cn('relative flex items-center flex-shrink-0', className)}>
+      <span className="sr-only">City</span>
+      <svg className="absolute left-2 w-3.5 h-3.5 text-gray-500 pointer-events-none" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17.657 16.657L13.414 20.9a1.998 1.998 0 01-2.827 0l-4.244-4.243a8 8 0 1111.314 0z" />
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 11a3 3 0 11-6 0 3 3 0 016 0z" />
+      </svg>
+      <select
+        value={city.slug}
+        onChange={handleChange}
+        className="appearance-none max-w-[9rem] truncate pl-7 pr-3 py-1 rounded-full bg-gray-100 text-sm font-medium text-gray-900 touch-manipulation focus:outline-none focus:ring-2 focus:ring-black"
+      >
+        {cities.map(c => (
+          <option key={c.id} value={c.slug}>{c.name}</option>
+        ))}
+      </select>
+    </label>
+  )
+}
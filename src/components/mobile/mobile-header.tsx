@@ -5,6 +5,9 @@ import { cn } from '@/lib/utils'
 import { useMobile, useMobileScroll } from '@/hooks/use-mobile'
 import { Button, IconButton } from '@/components/ui/button'
 import { SearchInput } from '@/components/ui/input'
+import { SearchAutocomplete } from '@/components/search/search-autocomplete'
+import { NotificationBell } from '@/components/notifications/notification-bell'
+import { CitySwitcher } from './city-switcher'
 
 export interface MobileHeaderProps {
   /**
@@ -31,6 +34,10 @@ export interface MobileHeaderProps {
    * Search change handler
    */
   onSearchChange?: (value: string) => void
+  /**
+   * Search submit handler; when set, the search box offers typeahead suggestions
+   */
+  onSearchSubmit?: (query: string) => void
   /**
    * Search placeholder
    */
@@ -39,6 +46,14 @@ export interface MobileHeaderProps {
    * Right side actions
    */
   actions?: React.ReactNode
+  /**
+   * Whether to show the city switcher (only when there are several cities)
+   */
+  showCitySwitcher?: boolean
+  /**
+   * Whether to show the notification bell (signed-in users only)
+   */
+  showNotifications?: boolean
   /**
    * Whether header should auto-hide on scroll down
    */
@@ -64,8 +79,11 @@ export function MobileHeader({
   showSearch = false,
   searchValue = '',
   onSearchChange,
+  onSearchSubmit,
   searchPlaceholder = 'Search...',
   actions,
+  showCitySwitcher = false,
+  showNotifications = true,
   autoHide = true,
   className,
   sticky = true
@@ -108,7 +126,11 @@ export function MobileHeader({
       <header className="bg-white border-b border-gray-200 px-4 py-3">
         <div className="flex items-center justify-between">
           <h1 className="text-lg font-semibold text-gray-900">{title}</h1>
-          {actions}
+          <div className="flex items-center gap-1">
+            {showCitySwitcher && <CitySwitcher />}
+            {showNotifications && <NotificationBell />}
+            {actions}
+          </div>
         </div>
       </header>
     )
@@ -158,6 +180,8 @@ export function MobileHeader({
 
         {/* Right section */}
         <div className="flex items-center gap-1 flex-shrink-0">
+          {showCitySwitcher && <CitySwitcher />}
+
           {showSearch && (
             <IconButton
               icon={
@@ -171,6 +195,8 @@ export function MobileHeader({
               size="sm"
             />
           )}
+
+          {showNotifications && <NotificationBell />}
           
           {actions}
         </div>
@@ -192,13 +218,23 @@ export function MobileHeader({
           />
           
           <div className="flex-1">
-            <SearchInput
-              value={searchValue}
-              onChange={(e) => onSearchChange?.(e.target.value)}
-              placeholder={searchPlaceholder}
-              onClear={() => onSearchChange?.('')}
-              autoFocus
-            />
+            {onSearchSubmit ? (
+              <SearchAutocomplete
+                value={searchValue}
+                onChange={(value) => onSearchChange?.(value)}
+                onSubmit={onSearchSubmit}
+                placeholder={searchPlaceholder}
+                autoFocus
+              />
+            ) : (
+              <SearchInput
+                value={searchValue}
+                onChange={(e) => onSearchChange?.(e.target.value)}
+                placeholder={searchPlaceholder}
+                onClear={() => onSearchChange?.('')}
+                autoFocus
+              />
+            )}
           </div>
         </div>
       )}
@@ -320,6 +356,7 @@ export const HeaderVariants = {
     <MobileHeader
       title="Chittor Darpan"
       showSearch={true}
+      showCitySwitcher={true}
       autoHide={false}
       {...props}
     />
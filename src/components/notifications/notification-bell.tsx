@@ -0,0 +1,40 @@
+// src/components/notifications/notification-bell.tsx
+'use client'
+
+import { useRouter } from 'next/navigation'
+import { useAuth } from '@/lib/auth'
+import { useUnreadNotificationCount } from '@/hooks/use-notifications'
+import { IconButton } from '@/components/ui/button'
+
+/**
+ * Bell with the unread count that opens the notification center.
+ * Renders nothing while signed out.
+ */
+export function NotificationBell() {
+  const router = useRouter()
+  const { user } = useAuth()
+  const unreadCount = useUnreadNotificationCount()
+
+  if (!user) return null
+
+  return (
+    <div className="relative">
+      <IconButton
+        icon={
+          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 17h5l-1.405-1.405A2.032 2.032 0 0118 14.158V11a6.002 6.002 0 00-4-5.659V5a2 2 0 10-4 0v.341C7.67 6.165 6 8.388 6 11v3.159c0 .538-.214 1.055-.595 1.436L4 17h5m6 0v1a3 3 0 11-6 0v-1m6 0H9" />
+          </svg>
+        }
+        onClick={() => router.push('/notifications')}
+        aria-label={unreadCount > 0 ? `Notifications, ${unreadCount} unread` : 'Notifications'}
+        variant="ghost"
+        size="sm"
+      />
+      {unreadCount > 0 && (
+        <span className="absolute -top-0.5 -right-0.5 min-w-[18px] h-[18px] px-1 rounded-full bg-red-600 text-white text-[10px] font-semibold flex items-center justify-center pointer-events-none">
+          {unreadCount > 99 ? '99+' : unreadCount}
+        </span>
+      )}
+    </div>
+  )
+}
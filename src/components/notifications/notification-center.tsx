@@ -0,0 +1,234 @@
+// src/components/notifications/notification-center.tsx
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useRouter } from 'next/navigation'
+import { useAuth } from '@/lib/auth'
+import { notificationService, type UserNotification } from '@/lib/database'
+import { Card, CardContent } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+
+const PAGE_SIZE = 20
+
+type ReadFilter = 'all' | 'unread'
+
+const formatNotificationTime = (dateString: string) => {
+  const minutes = Math.floor((Date.now() - new Date(dateString).getTime()) / 60000)
+
+  if (minutes < 1) return 'Just now'
+  if (minutes < 60) return `${minutes}m ago`
+  if (minutes < 60 * 24) return `${Math.floor(minutes / 60)}h ago`
+  if (minutes < 60 * 24 * 7) return `${Math.floor(minutes / (60 * 24))}d ago`
+
+  return new Date(dateString).toLocaleDateString('en-IN', { day: 'numeric', month: 'short' })
+}
+
+/**
+ * Everything sent to the signed-in user, with read/unread and live updates
+ */
+export default function NotificationCenter() {
+  const router = useRouter()
+  const { user } = useAuth()
+  const [notifications, setNotifications] = useState<UserNotification[]>([])
+  const [filter, setFilter] = useState<ReadFilter>('all')
+  const [loading, setLoading] = useState(true)
+  const [loadingMore, setLoadingMore] = useState(false)
+  const [hasMore, setHasMore] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchNotifications = async (offset: number = 0) => {
+    if (!user?.id) return
+
+    try {
+      if (offset === 0) {
+        setLoading(true)
+      } else {
+        setLoadingMore(true)
+      }
+      setError(null)
+
+      const { data, hasMore: more, error: fetchError } = await notificationService.getNotifications(user.id, {
+        unreadOnly: filter === 'unread',
+        limit: PAGE_SIZE,
+        offset
+      })
+
+      if (fetchError) {
+        throw new Error('Failed to load notifications')
+      }
+
+      setNotifications(prev => offset === 0 ? data || [] : [...prev, ...(data || [])])
+      setHasMore(more)
+    } catch (err) {
+      console.error('Error fetching notifications:', err)
+      setError('Failed to load notifications. Please try again.')
+    } finally {
+      setLoading(false)
+      setLoadingMore(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchNotifications()
+  }, [user?.id, filter])
+
+  // New notifications appear at the top; reads from other tabs are mirrored here
+  useEffect(() => {
+    if (!user?.id) return
+
+    return notificationService.subscribe(user.id, (event, notification) => {
+      setNotifications(prev => {
+        if (event === 'INSERT') {
+          return prev.some(item => item.id === notification.id) ? prev : [notification, ...prev]
+        }
+        if (event === 'DELETE') {
+          return prev.filter(item => item.id !== notification.id)
+        }
+        return prev.map(item => item.id === notification.id ? notification : item)
+      })
+    })
+  }, [user?.id])
+
+  const setReadLocally = (ids: string[], readAt: string | null) => {
+    setNotifications(prev => prev.map(item => ids.includes(item.id) ? { ...item, read_at: readAt } : item))
+  }
+
+  const handleOpen = async (notification: UserNotification) => {
+    if (!notification.read_at) {
+      setReadLocally([notification.id], new Date().toISOString())
+      await notificationService.markAsRead([notification.id])
+    }
+
+    if (notification.link) {
+      router.push(notification.link)
+    }
+  }
+
+  const handleToggleRead = async (notification: UserNotification) => {
+    if (notification.read_at) {
+      setReadLocally([notification.id], null)
+      await notificationService.markAsUnread(notification.id)
+    } else {
+      setReadLocally([notification.id], new Date().toISOString())
+      await notificationService.markAsRead([notification.id])
+    }
+  }
+
+  const handleMarkAllRead = async () => {
+    if (!user?.id) return
+
+    setReadLocally(notifications.map(item => item.id), new Date().toISOString())
+    const { success } = await notificationService.markAllAsRead(user.id)
+    if (!success) {
+      fetchNotifications()
+    }
+  }
+
+  const visible = filter === 'unread' ? notifications.filter(item => !item.read_at) : notifications
+  const hasUnread = notifications.some(item => !item.read_at)
+
+  return (
+    <div className="space-y-4">
+      {/* Filters and bulk action */}
+      <div className="flex items-center gap-2">
+        {(['all', 'unread'] as const).map(key => (
+          <button
+            key={key}
+            onClick={() => setFilter(key)}
+            className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors touch-manipulation ${
+              filter === key ? 'bg-black text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+            }`}
+          >
+            {key === 'all' ? 'All' : 'Unread'}
+          </button>
+        ))}
+        <Button
+          onClick={handleMarkAllRead}
+          disabled={!hasUnread}
+          variant="outline"
+          size="sm"
+          className="ml-auto"
+        >
+          Mark all read
+        </Button>
+      </div>
+
+      {/* Error state */}
+      {error && (
+        <Card className="border-red-200 bg-red-50">
+          <CardContent className="p-4">
+            <div className="flex items-center gap-3">
+              <p className="text-red-700">{error}</p>
+              <Button onClick={() => fetchNotifications()} variant="outline" size="sm" className="ml-auto">
+                Retry
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {loading ? (
+        <div className="text-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-black mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading notifications...</p>
+        </div>
+      ) : visible.length === 0 ? (
+        <Card>
+          <CardContent className="p-8 text-center">
+            <h3 className="text-lg font-medium text-gray-900 mb-2">
+              {filter === 'unread' ? 'You’re all caught up' : 'No notifications yet'}
+            </h3>
+            <p className="text-gray-600">
+              Replies, reviews and listing updates will show up here.
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <CardContent className="p-0 divide-y divide-gray-100">
+            {visible.map(notification => (
+              <div
+                key={notification.id}
+                className={`flex items-start gap-3 p-4 ${notification.read_at ? '' : 'bg-blue-50/50'}`}
+              >
+                <span
+                  className={`mt-1.5 w-2 h-2 rounded-full flex-shrink-0 ${notification.read_at ? 'bg-transparent' : 'bg-blue-600'}`}
+                  aria-hidden="true"
+                />
+                <button
+                  onClick={() => handleOpen(notification)}
+                  className="flex-1 min-w-0 text-left touch-manipulation"
+                >
+                  <p className={`text-sm ${notification.read_at ? 'text-gray-700' : 'text-gray-900 font-medium'}`}>
+                    {notification.title}
+                  </p>
+                  {notification.body && (
+                    <p className="text-sm text-gray-600 line-clamp-2 break-words">{notification.body}</p>
+                  )}
+                  <p className="text-xs text-gray-500 mt-1">{formatNotificationTime(notification.created_at)}</p>
+                </button>
+                <button
+                  onClick={() => handleToggleRead(notification)}
+                  className="text-xs text-gray-500 hover:text-gray-800 flex-shrink-0 touch-manipulation"
+                >
+                  {notification.read_at ? 'Mark unread' : 'Mark read'}
+                </button>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      {hasMore && !loading && (
+        <Button
+          onClick={() => fetchNotifications(notifications.length)}
+          disabled={loadingMore}
+          variant="outline"
+          className="w-full"
+        >
+          {loadingMore ? 'Loading...' : 'Load More'}
+        </Button>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,164 @@
+// src/components/notifications/notification-preferences.tsx
+'use client'
+
+import { useState, useEffect } from 'react'
+import {
+  businessMemberService,
+  notificationService,
+  userService,
+  type EmailPreferences,
+  type NotificationPreferences as Preferences,
+  type NotificationType
+} from '@/lib/database'
+import { EMAIL_CATEGORY_OPTIONS, NOTIFICATION_TYPE_OPTIONS } from '@/lib/services/notifications'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+
+/**
+ * Per-type on/off switches for in-app notifications and email. Only lists
+ * the types this user can receive.
+ */
+export function NotificationPreferences({ userId }: { userId: string }) {
+  const [preferences, setPreferences] = useState<Preferences | null>(null)
+  const [audiences, setAudiences] = useState<string[]>(['everyone'])
+  const [emailPreferences, setEmailPreferences] = useState<EmailPreferences | null>(null)
+  const [saving, setSaving] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const loadPreferences = async () => {
+      const [preferencesResult, emailResult, roleResult, membershipsResult] = await Promise.all([
+        notificationService.getPreferences(userId),
+        notificationService.getEmailPreferences(userId),
+        userService.getCurrentUserRole(userId),
+        businessMemberService.getMemberships(userId)
+      ])
+
+      if (preferencesResult.error || emailResult.error) {
+        setError('Failed to load notification settings')
+        return
+      }
+
+      const role = roleResult.data
+      setAudiences([
+        'everyone',
+        ...(role === 'admin' || role === 'business_owner' || (membershipsResult.data || []).length > 0 ? ['business'] : []),
+        ...(role === 'admin' ? ['admin'] : [])
+      ])
+      setPreferences(preferencesResult.data)
+      setEmailPreferences(emailResult.data)
+    }
+
+    loadPreferences()
+  }, [userId])
+
+  const handleToggle = async (type: NotificationType, enabled: boolean) => {
+    if (!preferences) return
+
+    setSaving(type)
+    setError(null)
+    setPreferences({ ...preferences, [type]: enabled })
+
+    const { success } = await notificationService.updatePreference(userId, type, enabled)
+
+    if (!success) {
+      setPreferences(prev => prev && { ...prev, [type]: !enabled })
+      setError('Failed to save. Please try again.')
+    }
+    setSaving(null)
+  }
+
+  const handleEmailToggle = async (category: keyof EmailPreferences, enabled: boolean) => {
+    if (!emailPreferences) return
+
+    setSaving(`email:${category}`)
+    setError(null)
+    setEmailPreferences({ ...emailPreferences, [category]: enabled })
+
+    const { success } = await notificationService.updateEmailPreference(userId, category, enabled)
+
+    if (!success) {
+      setEmailPreferences(prev => prev && { ...prev, [category]: !enabled })
+      setError('Failed to save. Please try again.')
+    }
+    setSaving(null)
+  }
+
+  const options = NOTIFICATION_TYPE_OPTIONS.filter(option => audiences.includes(option.audience))
+  const emailOptions = EMAIL_CATEGORY_OPTIONS.filter(option => audiences.includes(option.audience))
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Notifications</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        {!preferences || !emailPreferences ? (
+          !error && (
+            <div className="text-center py-4">
+              <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-black mx-auto"></div>
+            </div>
+          )
+        ) : (
+          <>
+            <p className="text-xs font-medium text-gray-500 uppercase tracking-wide">In the app</p>
+            {options.map(option => (
+              <label
+                key={option.value}
+                className="flex items-start justify-between gap-4 p-3 hover:bg-gray-50 rounded-lg transition-colors cursor-pointer"
+              >
+                <div>
+                  <p className="text-sm font-medium text-gray-900">{option.label}</p>
+                  <p className="text-xs text-gray-500">{option.description}</p>
+                </div>
+                <input
+                  type="checkbox"
+                  checked={preferences[option.value]}
+                  onChange={(e) => handleToggle(option.value, e.target.checked)}
+                  disabled={saving === option.value}
+                  className="mt-1 h-4 w-4 flex-shrink-0 accent-black"
+                />
+              </label>
+            ))}
+
+            <p className="text-xs font-medium text-gray-500 uppercase tracking-wide pt-2">By email</p>
+            <label className="flex items-start justify-between gap-4 p-3 hover:bg-gray-50 rounded-lg transition-colors cursor-pointer">
+              <div>
+                <p className="text-sm font-medium text-gray-900">All emails</p>
+                <p className="text-xs text-gray-500">Turn off to stop every email from Chittor Darpan</p>
+              </div>
+              <input
+                type="checkbox"
+                checked={emailPreferences.all}
+                onChange={(e) => handleEmailToggle('all', e.target.checked)}
+                disabled={saving === 'email:all'}
+                className="mt-1 h-4 w-4 flex-shrink-0 accent-black"
+              />
+            </label>
+            {emailOptions.map(option => (
+              <label
+                key={option.value}
+                className={`flex items-start justify-between gap-4 p-3 hover:bg-gray-50 rounded-lg transition-colors cursor-pointer ${
+                  emailPreferences.all ? '' : 'opacity-50'
+                }`}
+              >
+                <div>
+                  <p className="text-sm font-medium text-gray-900">{option.label}</p>
+                  <p className="text-xs text-gray-500">{option.description}</p>
+                </div>
+                <input
+                  type="checkbox"
+                  checked={emailPreferences.all && emailPreferences[option.value]}
+                  onChange={(e) => handleEmailToggle(option.value, e.target.checked)}
+                  disabled={!emailPreferences.all || saving === `email:${option.value}`}
+                  className="mt-1 h-4 w-4 flex-shrink-0 accent-black"
+                />
+              </label>
+            ))}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
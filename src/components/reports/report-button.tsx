@@ -0,0 +1,129 @@
+// src/components/reports/report-button.tsx
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { useAuth } from '@/lib/auth'
+import { reportService, type ReportEntityType, type ReportReason } from '@/lib/database'
+import { REPORT_REASONS } from '@/lib/services/reports'
+import { Button } from '@/components/ui/button'
+import { getErrorMessage } from '@/lib/utils'
+
+interface ReportButtonProps {
+  entityType: ReportEntityType
+  entityId: string
+  label?: string
+  className?: string
+}
+
+/**
+ * "Report" link that expands into a reason picker
+ */
+export function ReportButton({ entityType, entityId, label = 'Report', className = '' }: ReportButtonProps) {
+  const { user } = useAuth()
+  const router = useRouter()
+  const [open, setOpen] = useState(false)
+  const [reason, setReason] = useState<ReportReason | null>(null)
+  const [details, setDetails] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [submitted, setSubmitted] = useState(false)
+
+  const reasons = REPORT_REASONS.filter(option => option.appliesTo.includes(entityType))
+
+  const handleOpen = () => {
+    if (!user) {
+      router.push('/login')
+      return
+    }
+    setOpen(prev => !prev)
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!user || !reason) return
+
+    try {
+      setSubmitting(true)
+      setError(null)
+
+      const { success, error: submitError } = await reportService.submitReport(
+        entityType,
+        entityId,
+        user.id,
+        reason,
+        details
+      )
+
+      if (!success) {
+        setError(getErrorMessage(submitError, 'Failed to submit report'))
+        return
+      }
+
+      setSubmitted(true)
+      setOpen(false)
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  if (submitted) {
+    return <p className={`text-xs text-gray-500 ${className}`}>Thanks, our team will take a look.</p>
+  }
+
+  return (
+    <div className={className}>
+      <button
+        type="button"
+        onClick={handleOpen}
+        className="inline-flex items-center gap-1 text-xs text-gray-500 hover:text-red-600 transition-colors"
+      >
+        <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 21v-4m0 0V5a2 2 0 012-2h6.5l1 1H21l-3 6 3 6h-8.5l-1-1H5a2 2 0 00-2 2z" />
+        </svg>
+        {label}
+      </button>
+
+      {open && (
+        <form onSubmit={handleSubmit} className="mt-2 p-3 border border-gray-200 rounded-lg bg-white space-y-3">
+          <p className="text-sm font-medium text-gray-900">What&apos;s wrong?</p>
+
+          <div className="space-y-1">
+            {reasons.map(option => (
+              <label key={option.value} className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+                <input
+                  type="radio"
+                  name={`report-reason-${entityId}`}
+                  value={option.value}
+                  checked={reason === option.value}
+                  onChange={() => setReason(option.value)}
+                />
+                {option.label}
+              </label>
+            ))}
+          </div>
+
+          <textarea
+            value={details}
+            onChange={(e) => setDetails(e.target.value)}
+            placeholder="Anything else we should know? (optional)"
+            maxLength={500}
+            rows={2}
+            className="w-full p-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-black focus:border-transparent"
+          />
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          <div className="flex gap-2">
+            <Button type="submit" size="sm" disabled={!reason || submitting}>
+              {submitting ? 'Sending...' : 'Send Report'}
+            </Button>
+            <Button type="button" variant="outline" size="sm" onClick={() => setOpen(false)}>
+              Cancel
+            </Button>
+          </div>
+        </form>
+      )}
+    </div>
+  )
+}
@@ -4,6 +4,7 @@
 import { useState, useEffect } from 'react'
 import { useAuth } from '@/lib/auth'
 import { reviewService, businessOwnerService } from '@/lib/database'
+import { BUSINESS_ROLE_PERMISSIONS } from '@/lib/services/business-members'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 
@@ -44,6 +45,7 @@ export default function BusinessReviews({
   const [editingReview, setEditingReview] = useState<Review | null>(null)
   const [userReview, setUserReview] = useState<Review | null>(null)
   const [isBusinessOwner, setIsBusinessOwner] = useState(false)
+  const [heldForModeration, setHeldForModeration] = useState(false)
 
   // Load data on mount and when dependencies change
   useEffect(() => {
@@ -104,7 +106,7 @@ export default function BusinessReviews({
     }
   }
 
-  // Check if current user owns this business
+  // Check if current user can reply for this business
   const checkBusinessOwnership = async () => {
     if (!user) {
       setIsBusinessOwner(false)
@@ -112,7 +114,11 @@ export default function BusinessReviews({
     }
     
     try {
-      const isOwner = await businessOwnerService.isBusinessOwner(user.id, businessId)
+      const isOwner = await businessOwnerService.isBusinessOwner(
+        user.id,
+        businessId,
+        BUSINESS_ROLE_PERMISSIONS.replyToReviews
+      )
       setIsBusinessOwner(isOwner)
     } catch (error) {
       console.error('Error checking business ownership:', error)
@@ -121,7 +127,8 @@ export default function BusinessReviews({
   }
 
   // Handle successful review submission (real-time update)
-  const handleReviewSuccess = () => {
+  const handleReviewSuccess = (status?: Review['status']) => {
+    setHeldForModeration(status === 'pending')
     setShowReviewForm(false)
     setEditingReview(null)
     // Refresh reviews immediately
@@ -161,7 +168,16 @@ export default function BusinessReviews({
       <ReviewStatsCard stats={reviewStats} />
 
       {/* Add Review Button */}
-      {showAddReview && user && !userReview && !showReviewForm && !editingReview && (
+      {/* Held by the moderation policy */}
+      {heldForModeration && (
+        <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
+          <p className="text-sm text-yellow-800">
+            Thanks for your review! It will appear here once our team has checked it.
+          </p>
+        </div>
+      )}
+
+      {showAddReview && user && !userReview && !heldForModeration && !showReviewForm && !editingReview && (
         <Card>
           <CardContent className="p-4">
             <div className="text-center">
@@ -8,6 +8,7 @@ import { Button } from '@/components/ui/button'
 import StarRating from './star-rating'
 import type { Review } from '@/types/reviews'
 import ReviewReplyForm from './review-reply-form'
+import { ReportButton } from '@/components/reports/report-button'
 
 interface ReviewCardProps {
   review: Review
@@ -171,6 +172,10 @@ export default function ReviewCard({
         </div>
       )}
 
+      {!isOwner && (
+        <ReportButton entityType="review" entityId={review.id} />
+      )}
+
       {/* Business Reply */}
       {review.reply && (
         <div className="mt-4 ml-4 p-3 bg-gray-50 rounded-lg border-l-4 border-blue-500">
@@ -184,6 +189,9 @@ export default function ReviewCard({
             </span>
           </div>
           <p className="text-gray-700 text-sm">{review.reply.content}</p>
+          {!isBusinessOwner && (
+            <ReportButton entityType="review_reply" entityId={review.reply.id} className="mt-2" />
+          )}
         </div>
       )}
 
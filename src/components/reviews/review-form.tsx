@@ -6,12 +6,15 @@ import { reviewService } from '@/lib/database'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import StarRating from './star-rating'
-import type { ReviewFormData } from '@/types/reviews'
+import type { ReviewFormData, Review } from '@/types/reviews'
+import { getErrorMessage } from '@/lib/utils'
+
+type ReviewStatus = Review['status']
 
 interface ReviewFormProps {
   businessId: string
   businessName: string
-  onSuccess: () => void
+  onSuccess: (status?: ReviewStatus) => void
   onCancel: () => void
 }
 
@@ -52,21 +55,21 @@ export default function ReviewForm({
       setSubmitting(true)
       setError(null)
 
-      const { success, error: submitError } = await reviewService.submitReview(
+      const { success, error: submitError, status } = await reviewService.submitReview(
         businessId, 
         user.id, 
         formData
       )
 
       if (!success) {
-        throw new Error(submitError || 'Failed to submit review')
+        throw new Error(getErrorMessage(submitError, 'Failed to submit review'))
       }
 
       // Reset form
       setFormData({ rating: 0, title: '', content: '' })
       
       // Notify parent component to refresh reviews
-      onSuccess()
+      onSuccess(status)
       
     } catch (err) {
       console.error('Error submitting review:', err)
@@ -0,0 +1,103 @@
+// src/components/search/attribute-facets.tsx
+'use client'
+
+import {
+  getEnumSelections,
+  getPriceBands,
+  toggleEnumSelection,
+  type CategoryAttribute,
+  type FacetSelections
+} from '@/lib/services/category-attributes'
+
+interface AttributeFacetsProps {
+  attributes: CategoryAttribute[]
+  facets: FacetSelections
+  onChange: (facets: FacetSelections) => void
+}
+
+const chipClass = (selected: boolean) => `px-3 py-1.5 rounded-full text-sm border transition-colors ${
+  selected
+    ? 'bg-black text-white border-black'
+    : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+}`
+
+/**
+ * Filter chips for a category's attributes: yes/no toggles, any-of choices
+ * and price bands
+ */
+export function AttributeFacets({ attributes, facets, onChange }: AttributeFacetsProps) {
+  const filterable = attributes.filter(attribute => attribute.is_filterable)
+  if (filterable.length === 0) return null
+
+  const setFacet = (key: string, value: string) => {
+    const next = { ...facets }
+    if (value) {
+      next[key] = value
+    } else {
+      delete next[key]
+    }
+    onChange(next)
+  }
+
+  const toggles = filterable.filter(attribute => attribute.attribute_type === 'boolean')
+  const choiceGroups = filterable.filter(attribute => attribute.attribute_type !== 'boolean')
+
+  return (
+    <div className="space-y-3">
+      {toggles.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {toggles.map(attribute => (
+            <button
+              key={attribute.id}
+              type="button"
+              onClick={() => setFacet(attribute.key, facets[attribute.key] === 'yes' ? '' : 'yes')}
+              className={chipClass(facets[attribute.key] === 'yes')}
+            >
+              {attribute.label}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {choiceGroups.map(attribute => {
+        const current = facets[attribute.key]
+        const choices = attribute.attribute_type === 'enum'
+          ? attribute.options.map(option => ({ value: option, label: option }))
+          : getPriceBands(attribute)
+        if (choices.length === 0) return null
+
+        return (
+          <div key={attribute.id}>
+            <p className="text-sm font-medium text-gray-700 mb-2">
+              {attribute.label}
+              {attribute.unit && <span className="font-normal text-gray-500"> ({attribute.unit})</span>}
+            </p>
+            <div className="flex flex-wrap gap-2">
+              {choices.map(choice => {
+                const selected = attribute.attribute_type === 'enum'
+                  ? getEnumSelections(current).includes(choice.value)
+                  : current === choice.value
+
+                return (
+                  <button
+                    key={choice.value}
+                    type="button"
+                    onClick={() => setFacet(
+                      attribute.key,
+                      attribute.attribute_type === 'enum'
+                        ? toggleEnumSelection(current, choice.value)
+                        : selected ? '' : choice.value
+                    )}
+                    className={chipClass(selected)}
+                  >
+                    {choice.label}
+                  </button>
+                )
+              })}
+            </div>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
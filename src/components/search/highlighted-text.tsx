@@ -0,0 +1,42 @@
+// src/components/search/highlighted-text.tsx
+'use client'
+
+import { Fragment } from 'react'
+import { findHighlightRanges } from '@/lib/services/search'
+
+interface HighlightedTextProps {
+  text: string
+  terms: string[]
+}
+
+/**
+ * Wraps words matching the search terms (including typos and synonyms) in <mark>
+ */
+export function HighlightedText({ text, terms }: HighlightedTextProps) {
+  const ranges = findHighlightRanges(text, terms)
+
+  if (ranges.length === 0) {
+    return <>{text}</>
+  }
+
+  const parts: React.ReactNode[] = []
+  let cursor = 0
+
+  ranges.forEach(([start, end], index) => {
+    if (start > cursor) {
+      parts.push(<Fragment key={`text-${index}`}>{text.slice(cursor, start)}</Fragment>)
+    }
+    parts.push(
+      <mark key={`mark-${index}`} className="bg-yellow-200 px-0.5 rounded">
+        {text.slice(start, end)}
+      </mark>
+    )
+    cursor = end
+  })
+
+  if (cursor < text.length) {
+    parts.push(<Fragment key="text-end">{text.slice(cursor)}</Fragment>)
+  }
+
+  return <>{parts}</>
+}
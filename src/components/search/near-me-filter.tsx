@@ -0,0 +1,73 @@
+// src/components/search/near-me-filter.tsx
+'use client'
+
+import { useGeolocation } from '@/hooks/use-mobile'
+import { DEFAULT_NEARBY_RADIUS_KM, NEARBY_RADIUS_OPTIONS, type NearbyFilter } from '@/lib/services/geo'
+import { Button } from '@/components/ui/button'
+
+interface NearMeFilterProps {
+  nearby: NearbyFilter | null
+  onChange: (nearby: NearbyFilter | null) => void
+}
+
+/**
+ * "Near me" toggle with a radius picker. Asks for location only when clicked.
+ */
+export function NearMeFilter({ nearby, onChange }: NearMeFilterProps) {
+  const { requestLocation, isLocating, isSupported, error } = useGeolocation()
+
+  const handleNearMe = async () => {
+    const point = await requestLocation()
+    if (point) {
+      onChange({ ...point, radiusKm: DEFAULT_NEARBY_RADIUS_KM })
+    }
+  }
+
+  if (!isSupported) {
+    return null
+  }
+
+  if (nearby) {
+    return (
+      <div className="space-y-2">
+        <label className="block text-sm font-medium text-gray-700">Near me</label>
+        <div className="flex items-center gap-2">
+          <select
+            value={nearby.radiusKm}
+            onChange={(e) => onChange({ ...nearby, radiusKm: Number(e.target.value) })}
+            className="flex-1 p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-black focus:border-transparent"
+          >
+            {[...new Set([...NEARBY_RADIUS_OPTIONS, nearby.radiusKm])].sort((a, b) => a - b).map(radius => (
+              <option key={radius} value={radius}>
+                Within {radius} km
+              </option>
+            ))}
+          </select>
+          <Button variant="ghost" size="sm" onClick={() => onChange(null)}>
+            Clear
+          </Button>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-1">
+      <Button
+        variant="outline"
+        onClick={handleNearMe}
+        disabled={isLocating}
+        className="w-full justify-center gap-2"
+      >
+        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17.657 16.657L13.414 20.9a1.998 1.998 0 01-2.827 0l-4.244-4.243a8 8 0 1111.314 0z" />
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 11a3 3 0 11-6 0 3 3 0 016 0z" />
+        </svg>
+        {isLocating ? 'Finding you...' : 'Near me'}
+      </Button>
+      {error && (
+        <p className="text-xs text-red-600">{error}</p>
+      )}
+    </div>
+  )
+}
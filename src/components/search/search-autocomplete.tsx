@@ -0,0 +1,219 @@
+// src/components/search/search-autocomplete.tsx
+'use client'
+
+import { useState, useEffect, useMemo, useRef } from 'react'
+import { useRouter } from 'next/navigation'
+import { useAuth } from '@/lib/auth'
+import { cn, debounce, APP_CONSTANTS } from '@/lib/utils'
+import { searchService, type RecentSearch, type SearchSuggestion, type SearchSuggestionType } from '@/lib/services/search'
+import { SearchInput } from '@/components/ui/input'
+
+interface SearchAutocompleteProps {
+  value: string
+  onChange: (value: string) => void
+  onSubmit: (query: string) => void
+  placeholder?: string
+  autoFocus?: boolean
+  className?: string
+  inputClassName?: string
+}
+
+type DropdownOption =
+  | { kind: 'suggestion'; suggestion: SearchSuggestion }
+  | { kind: 'query'; query: string; label: string; isCorrection?: boolean }
+
+const TYPE_LABELS: Record<SearchSuggestionType, string> = {
+  business: 'Business',
+  category: 'Category',
+  area: 'Area',
+  tourism: 'Place'
+}
+
+/**
+ * Search box with typeahead suggestions, recent searches and "did you mean"
+ */
+export function SearchAutocomplete({
+  value,
+  onChange,
+  onSubmit,
+  placeholder = 'Search...',
+  autoFocus = false,
+  className,
+  inputClassName
+}: SearchAutocompleteProps) {
+  const router = useRouter()
+  const { user } = useAuth()
+  const [open, setOpen] = useState(false)
+  const [suggestions, setSuggestions] = useState<SearchSuggestion[]>([])
+  const [didYouMean, setDidYouMean] = useState<string | null>(null)
+  const [recentSearches, setRecentSearches] = useState<RecentSearch[]>([])
+  const [activeIndex, setActiveIndex] = useState(-1)
+  const latestRequest = useRef(0)
+
+  const fetchSuggestions = useMemo(() => debounce(async (query: string) => {
+    const requestId = ++latestRequest.current
+
+    try {
+      const response = await fetch(`/api/search/suggest?q=${encodeURIComponent(query)}`)
+      if (!response.ok) throw new Error('Failed to load suggestions')
+
+      const data: { suggestions: SearchSuggestion[]; didYouMean: string | null } = await response.json()
+
+      // Ignore answers to keystrokes the user has already typed past
+      if (requestId !== latestRequest.current) return
+
+      setSuggestions(data.suggestions)
+      setDidYouMean(data.didYouMean)
+    } catch (err) {
+      console.error('Error fetching search suggestions:', err)
+    }
+  }, APP_CONSTANTS.DEBOUNCE_DELAY), [])
+
+  useEffect(() => {
+    setActiveIndex(-1)
+
+    if (value.trim().length < APP_CONSTANTS.MIN_SEARCH_LENGTH) {
+      latestRequest.current++
+      setSuggestions([])
+      setDidYouMean(null)
+      return
+    }
+
+    fetchSuggestions(value.trim())
+  }, [value, fetchSuggestions])
+
+  useEffect(() => {
+    if (!open || !user) return
+
+    searchService.getRecentSearches(user.id).then(({ data }) => {
+      if (data) setRecentSearches(data)
+    })
+  }, [open, user])
+
+  const showRecent = value.trim().length < APP_CONSTANTS.MIN_SEARCH_LENGTH
+
+  const options: DropdownOption[] = showRecent
+    ? recentSearches.map(recent => ({ kind: 'query' as const, query: recent.query, label: recent.query }))
+    : [
+        ...(didYouMean ? [{ kind: 'query' as const, query: didYouMean, label: `Did you mean "${didYouMean}"?`, isCorrection: true }] : []),
+        ...suggestions.map(suggestion => ({ kind: 'suggestion' as const, suggestion })),
+        { kind: 'query' as const, query: value.trim(), label: `Search for "${value.trim()}"` }
+      ]
+
+  const selectOption = (option: DropdownOption) => {
+    setOpen(false)
+
+    if (option.kind === 'suggestion') {
+      router.push(option.suggestion.url)
+      return
+    }
+
+    onChange(option.query)
+    onSubmit(option.query)
+  }
+
+  const clearRecentSearches = async () => {
+    if (!user) return
+
+    const { success } = await searchService.clearRecentSearches(user.id)
+    if (success) setRecentSearches([])
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault()
+      setOpen(true)
+      setActiveIndex(index => Math.min(index + 1, options.length - 1))
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault()
+      setActiveIndex(index => Math.max(index - 1, -1))
+    } else if (e.key === 'Enter') {
+      e.preventDefault()
+      if (open && activeIndex >= 0 && options[activeIndex]) {
+        selectOption(options[activeIndex])
+      } else {
+        setOpen(false)
+        onSubmit(value.trim())
+      }
+    } else if (e.key === 'Escape') {
+      setOpen(false)
+    }
+  }
+
+  const showDropdown = open && options.length > 0
+
+  return (
+    <div className={cn('relative', className)}>
+      <SearchInput
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value)
+          setOpen(true)
+        }}
+        onFocus={() => setOpen(true)}
+        onBlur={() => setOpen(false)}
+        onKeyDown={handleKeyDown}
+        onClear={() => onChange('')}
+        placeholder={placeholder}
+        autoFocus={autoFocus}
+        className={inputClassName}
+        role="combobox"
+        aria-expanded={showDropdown}
+        aria-autocomplete="list"
+        aria-controls="search-autocomplete-list"
+      />
+
+      {showDropdown && (
+        <div className="absolute left-0 right-0 top-full mt-1 bg-white border border-gray-200 rounded-lg shadow-lg z-50 overflow-hidden">
+          {showRecent && (
+            <div className="flex items-center justify-between px-3 py-2 border-b border-gray-100">
+              <span className="text-xs font-medium text-gray-500 uppercase tracking-wide">Recent searches</span>
+              <button
+                type="button"
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={clearRecentSearches}
+                className="text-xs text-gray-500 hover:text-gray-900"
+              >
+                Clear
+              </button>
+            </div>
+          )}
+
+          <ul id="search-autocomplete-list" role="listbox" className="max-h-80 overflow-y-auto py-1">
+            {options.map((option, index) => (
+              <li
+                key={option.kind === 'suggestion' ? `${option.suggestion.type}-${option.suggestion.id}` : `query-${option.label}`}
+                role="option"
+                aria-selected={index === activeIndex}
+                // Keep focus in the input so blur doesn't close the list before the click lands
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => selectOption(option)}
+                onMouseEnter={() => setActiveIndex(index)}
+                className={cn(
+                  'flex items-center justify-between gap-3 px-3 py-2 cursor-pointer text-sm',
+                  index === activeIndex ? 'bg-gray-100' : 'hover:bg-gray-50'
+                )}
+              >
+                {option.kind === 'suggestion' ? (
+                  <>
+                    <div className="min-w-0">
+                      <p className="text-gray-900 truncate">{option.suggestion.label}</p>
+                      {option.suggestion.sublabel && (
+                        <p className="text-xs text-gray-500 truncate">{option.suggestion.sublabel}</p>
+                      )}
+                    </div>
+                    <span className="text-xs text-gray-400 flex-shrink-0">{TYPE_LABELS[option.suggestion.type]}</span>
+                  </>
+                ) : (
+                  <span className={cn('truncate', option.isCorrection ? 'text-blue-600' : 'text-gray-700')}>
+                    {option.label}
+                  </span>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  )
+}
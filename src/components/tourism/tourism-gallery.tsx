@@ -9,6 +9,7 @@ import { Button } from '@/components/ui/button'
 interface GalleryImage {
   id: string
   url: string
+  thumbnail_url?: string | null
   alt_text: string | null
   caption: string | null
   type: 'admin' | 'user'
@@ -120,7 +121,7 @@ export default function TourismGallery({
                   onClick={() => setSelectedImageIndex(index)}
                 >
                   <img
-                    src={image.url}
+                    src={image.thumbnail_url || image.url}
                     alt={image.alt_text || 'Gallery image'}
                     className="w-full h-full object-cover"
                   />
@@ -162,7 +163,7 @@ export default function TourismGallery({
                   onClick={() => setSelectedImageIndex(index)}
                 >
                   <img
-                    src={image.url}
+                    src={image.thumbnail_url || image.url}
                     alt={image.alt_text || 'Gallery image'}
                     className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-200"
                   />
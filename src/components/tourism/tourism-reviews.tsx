@@ -8,6 +8,9 @@ import { type TourismReview, type TourismReviewFormData } from '@/lib/services/t
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
+import { IMAGE_UPLOAD_LIMITS } from '@/lib/image-processing'
+import { ReportButton } from '@/components/reports/report-button'
+import { getErrorMessage } from '@/lib/utils'
 
 interface TourismReviewsProps {
   placeId: string
@@ -57,7 +60,7 @@ export default function TourismReviews({ placeId, placeName }: TourismReviewsPro
     setSuccess(null)
 
     try {
-      const { success, error } = await tourismReviewService.submitTourismReview(
+      const { success, error, status } = await tourismReviewService.submitTourismReview(
         placeId,
         user.id,
         reviewData,
@@ -65,11 +68,13 @@ export default function TourismReviews({ placeId, placeName }: TourismReviewsPro
       )
 
       if (success) {
-        setSuccess('Review submitted successfully!')
+        setSuccess(status === 'pending'
+          ? 'Thanks! Your review will appear once our team has checked it.'
+          : 'Review submitted successfully!')
         setShowReviewForm(false)
         await loadReviewsData() // Reload reviews
       } else {
-        setError(error || 'Failed to submit review')
+        setError(getErrorMessage(error, 'Failed to submit review'))
       }
 
     } catch (err) {
@@ -260,12 +265,12 @@ function ReviewForm({ placeName, submitting, onSubmit, onCancel }: ReviewFormPro
 
     // Validate images
     const validImages = files.filter(file => {
-      if (!file.type.startsWith('image/')) {
-        setImageError(`${file.name} is not a valid image file`)
+      if (!IMAGE_UPLOAD_LIMITS.acceptedTypes.includes(file.type)) {
+        setImageError(`${file.name} is not a supported image (JPEG, PNG, WebP, AVIF or GIF)`)
         return false
       }
-      if (file.size > 10 * 1024 * 1024) { // 10MB limit
-        setImageError(`${file.name} is too large (max 10MB)`)
+      if (file.size > IMAGE_UPLOAD_LIMITS.maxFileSizeMb * 1024 * 1024) {
+        setImageError(`${file.name} is too large (max ${IMAGE_UPLOAD_LIMITS.maxFileSizeMb}MB)`)
         return false
       }
       return true
@@ -386,7 +391,7 @@ function ReviewForm({ placeName, submitting, onSubmit, onCancel }: ReviewFormPro
                   <input
                     type="file"
                     multiple
-                    accept="image/*"
+                    accept={IMAGE_UPLOAD_LIMITS.acceptedTypes.join(',')}
                     onChange={handleImageChange}
                     className="block w-full text-sm text-gray-500 file:mr-4 file:py-2 file:px-4 file:rounded-lg file:border-0 file:text-sm file:font-medium file:bg-blue-50 file:text-blue-700 hover:file:bg-blue-100"
                   />
@@ -460,6 +465,8 @@ function ReviewForm({ placeName, submitting, onSubmit, onCancel }: ReviewFormPro
 
 // Review Card Component
 function ReviewCard({ review }: { review: TourismReview }) {
+  const { user } = useAuth()
+
   return (
     <Card>
       <CardContent className="p-4 lg:p-6">
@@ -527,7 +534,7 @@ function ReviewCard({ review }: { review: TourismReview }) {
                 {review.images.map((image, index) => (
                   <img
                     key={image.id}
-                    src={image.image_url}
+                    src={image.thumbnail_url || image.image_url}
                     alt={image.alt_text || `Review image ${index + 1}`}
                     className="w-20 h-20 lg:w-24 lg:h-24 object-cover rounded-lg flex-shrink-0 cursor-pointer hover:opacity-90 transition-opacity"
                     onClick={() => {
@@ -538,6 +545,10 @@ function ReviewCard({ review }: { review: TourismReview }) {
                 ))}
               </div>
             )}
+
+            {user?.id !== review.user_id && (
+              <ReportButton entityType="tourism_review" entityId={review.id} className="mt-2" />
+            )}
           </div>
         </div>
       </CardContent>
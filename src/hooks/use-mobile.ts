@@ -1,5 +1,6 @@
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useCallback } from 'react'
 import { mobileUtils } from '@/lib/utils'
+import type { GeoPoint } from '@/lib/services/geo'
 
 /**
  * Custom hook for mobile detection and responsive behavior
@@ -318,4 +319,95 @@ export function useTouchGestures() {
     detectSwipe,
     isTouch
   }
-}
\ No newline at end of file
+}
+
+export type GeolocationStatus =
+  | 'unsupported' // No geolocation API (or not a secure context)
+  | 'prompt' // Browser will ask when we request
+  | 'locating'
+  | 'granted'
+  | 'denied'
+  | 'error' // Permission granted but no fix (timeout, no signal)
+
+/**
+ * Hook for the browser geolocation permission flow.
+ * Only asks for location when requestLocation() is called, never on mount.
+ */
+export function useGeolocation() {
+  const [status, setStatus] = useState<GeolocationStatus>('prompt')
+  const [position, setPosition] = useState<(GeoPoint & { accuracy: number }) | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (typeof navigator === 'undefined' || !('geolocation' in navigator)) {
+      setStatus('unsupported')
+      return
+    }
+
+    // Reflect an earlier allow/deny without prompting (not supported everywhere, e.g. older Safari)
+    let permission: PermissionStatus | null = null
+    const syncPermission = () => {
+      if (permission?.state === 'denied') setStatus('denied')
+      else if (permission?.state === 'prompt') setStatus(current => current === 'denied' ? 'prompt' : current)
+    }
+
+    navigator.permissions?.query({ name: 'geolocation' })
+      .then(result => {
+        permission = result
+        syncPermission()
+        permission.addEventListener('change', syncPermission)
+      })
+      .catch(() => {
+        // Permissions API unavailable; we'll find out when requesting
+      })
+
+    return () => {
+      permission?.removeEventListener('change', syncPermission)
+    }
+  }, [])
+
+  const requestLocation = useCallback((): Promise<GeoPoint | null> => {
+    if (typeof navigator === 'undefined' || !('geolocation' in navigator)) {
+      setStatus('unsupported')
+      return Promise.resolve(null)
+    }
+
+    setStatus('locating')
+    setError(null)
+
+    return new Promise(resolve => {
+      navigator.geolocation.getCurrentPosition(
+        ({ coords }) => {
+          const point = { latitude: coords.latitude, longitude: coords.longitude }
+          setPosition({ ...point, accuracy: coords.accuracy })
+          setStatus('granted')
+          resolve(point)
+        },
+        (geoError) => {
+          if (geoError.code === geoError.PERMISSION_DENIED) {
+            setStatus('denied')
+            setError('Location access is blocked. Allow it in your browser settings to search nearby.')
+          } else {
+            setStatus('error')
+            setError('We couldn\'t find your location. Please try again.')
+          }
+          resolve(null)
+        },
+        {
+          enableHighAccuracy: false,
+          timeout: 10000,
+          maximumAge: 5 * 60 * 1000 // A few minutes' old fix is fine for "near me"
+        }
+      )
+    })
+  }, [])
+
+  return {
+    status,
+    position,
+    error,
+    requestLocation,
+    isSupported: status !== 'unsupported',
+    isLocating: status === 'locating'
+  }
+}
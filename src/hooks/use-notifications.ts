@@ -0,0 +1,41 @@
+import { useState, useEffect } from 'react'
+import { useAuth } from '@/lib/auth'
+import { notificationService } from '@/lib/database'
+
+/**
+ * Unread notification count for the signed-in user, kept live through a
+ * realtime subscription. Zero while signed out.
+ */
+export function useUnreadNotificationCount() {
+  const { user } = useAuth()
+  const [count, setCount] = useState(0)
+
+  useEffect(() => {
+    if (!user?.id) {
+      setCount(0)
+      return
+    }
+
+    const userId = user.id
+    let active = true
+
+    const refresh = async () => {
+      const { data } = await notificationService.getUnreadCount(userId)
+      if (active) setCount(data)
+    }
+
+    refresh()
+
+    // Recount on any change rather than patching, so reads elsewhere stay in sync
+    const unsubscribe = notificationService.subscribe(userId, () => {
+      refresh()
+    })
+
+    return () => {
+      active = false
+      unsubscribe()
+    }
+  }, [user?.id])
+
+  return count
+}
@@ -4,7 +4,7 @@ import { createContext, useContext, useEffect, useState } from 'react'
 import { User, Session } from '@supabase/supabase-js'
 import { supabase } from './supabase'
 import { useRouter } from 'next/navigation'
-import { businessService, userService } from './database'
+import { businessMemberService, userService, type BusinessMemberRole } from './database'
 
 
 
@@ -244,10 +244,11 @@ export function useIsBusinessOwner() {
   return { isBusinessOwner, loading }
 }
 
-// Check if user owns specific business
+// Check if user is on a specific business's team, and in which role
 export function useBusinessOwnership(businessId: string) {
   const { user, userRole, loading } = useAuthWithRole()
   const [isOwner, setIsOwner] = useState(false)
+  const [memberRole, setMemberRole] = useState<BusinessMemberRole | null>(null)
   const [checkLoading, setCheckLoading] = useState(true)
 
   useEffect(() => {
@@ -257,25 +258,23 @@ export function useBusinessOwnership(businessId: string) {
         return
       }
 
-      // Admins have access to all businesses
+      // Admins have full access to all businesses
       if (userRole === 'admin') {
         setIsOwner(true)
+        setMemberRole('owner')
         setCheckLoading(false)
         return
       }
 
-      // Check if user owns this specific business
+      // Check the user's role on this specific business
       try {
-        const { data: businesses } = await businessService.getBusinesses({
-          ownerId: user.id,
-          status: 'all'
-        })
-
-        const ownsThisBusiness = businesses?.some(b => b.id === businessId) || false
-        setIsOwner(ownsThisBusiness)
+        const { data: role } = await businessMemberService.getRole(user.id, businessId)
+        setIsOwner(!!role)
+        setMemberRole(role)
       } catch (error) {
         console.error('Error checking business ownership:', error)
         setIsOwner(false)
+        setMemberRole(null)
       } finally {
         setCheckLoading(false)
       }
@@ -286,6 +285,7 @@ export function useBusinessOwnership(businessId: string) {
 
   return {
     isOwner,
+    memberRole,
     loading: loading || checkLoading,
     userRole
   }
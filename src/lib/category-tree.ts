@@ -0,0 +1,82 @@
+// src/lib/category-tree.ts - Walking the category hierarchy
+// Categories are few, so callers load the flat list once and these helpers
+// derive children, ancestors and subtrees from parent_id in memory.
+
+export interface TreeCategory {
+  id: string
+  name: string
+  parent_id?: string | null
+  sort_order?: number | null
+}
+
+export type CategoryNode<T extends TreeCategory> = T & { children: CategoryNode<T>[] }
+
+/**
+ * Sibling order: sort_order first, then name
+ */
+export function compareCategories(a: TreeCategory, b: TreeCategory): number {
+  return (a.sort_order ?? 0) - (b.sort_order ?? 0) || a.name.localeCompare(b.name)
+}
+
+/**
+ * Direct subcategories, in sibling order. Pass null for the top level.
+ */
+export function getCategoryChildren<T extends TreeCategory>(categories: T[], parentId: string | null): T[] {
+  return categories
+    .filter(category => (category.parent_id ?? null) === parentId)
+    .sort(compareCategories)
+}
+
+/**
+ * Parents of a category from the top level down, not including the category
+ */
+export function getCategoryAncestors<T extends TreeCategory>(categories: T[], categoryId: string): T[] {
+  const byId = new Map(categories.map(category => [category.id, category]))
+  const ancestors: T[] = []
+  let parentId = byId.get(categoryId)?.parent_id
+
+  // The database rejects cycles, but a missing parent ends the walk here too
+  while (parentId && !ancestors.some(ancestor => ancestor.id === parentId)) {
+    const parent = byId.get(parentId)
+    if (!parent) break
+    ancestors.unshift(parent)
+    parentId = parent.parent_id
+  }
+
+  return ancestors
+}
+
+/**
+ * Ids of a category and everything below it
+ */
+export function getCategoryDescendantIds(categories: TreeCategory[], categoryId: string): string[] {
+  const ids = [categoryId]
+
+  for (let index = 0; index < ids.length; index++) {
+    for (const category of categories) {
+      if (category.parent_id === ids[index] && !ids.includes(category.id)) {
+        ids.push(category.id)
+      }
+    }
+  }
+
+  return ids
+}
+
+/**
+ * Nested tree in sibling order. Categories whose parent isn't in the list
+ * (e.g. under an inactive parent) become top-level nodes.
+ */
+export function buildCategoryTree<T extends TreeCategory>(categories: T[]): CategoryNode<T>[] {
+  const ids = new Set(categories.map(category => category.id))
+
+  const build = (parentId: string | null): CategoryNode<T>[] =>
+    categories
+      .filter(category => parentId === null
+        ? !category.parent_id || !ids.has(category.parent_id)
+        : category.parent_id === parentId)
+      .sort(compareCategories)
+      .map(category => ({ ...category, children: build(category.id) }))
+
+  return build(null)
+}
@@ -0,0 +1,84 @@
+'use client'
+
+import { createContext, useContext, useEffect, useState } from 'react'
+import { locationService, type City } from './database'
+import { APP_CONSTANTS } from './utils'
+
+const CITY_COOKIE_MAX_AGE = 60 * 60 * 24 * 365 // One year
+
+interface CityContextType {
+  city: City | null // The visitor's chosen city, or the default one
+  cities: City[]
+  loading: boolean
+
+  setCity: (city: City) => void
+}
+
+const CityContext = createContext<CityContextType | null>(null)
+
+function readCityCookie(): string | null {
+  const match = document.cookie.match(new RegExp(`(?:^|; )${APP_CONSTANTS.CITY_COOKIE}=([^;]*)`))
+  return match ? decodeURIComponent(match[1]) : null
+}
+
+// A cookie rather than localStorage so redirects on the server can use it too
+function writeCityCookie(slug: string) {
+  document.cookie = `${APP_CONSTANTS.CITY_COOKIE}=${encodeURIComponent(slug)}; path=/; max-age=${CITY_COOKIE_MAX_AGE}; samesite=lax`
+}
+
+export function CityProvider({ children }: { children: React.ReactNode }) {
+  const [city, setCityState] = useState<City | null>(null)
+  const [cities, setCities] = useState<City[]>([])
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    const initializeCity = async () => {
+      try {
+        const { data, error } = await locationService.getCities()
+
+        if (error || !data) {
+          console.error('City initialization error:', error)
+          return
+        }
+
+        // A saved city that has since been deactivated falls back to the default
+        const savedSlug = readCityCookie()
+        const selected = data.find(c => c.slug === savedSlug)
+          || data.find(c => c.slug === APP_CONSTANTS.DEFAULT_CITY_SLUG)
+          || data[0]
+          || null
+
+        setCities(data)
+        setCityState(selected)
+      } catch (error) {
+        console.error('City initialization failed:', error)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    initializeCity()
+  }, [])
+
+  const setCity = (next: City) => {
+    writeCityCookie(next.slug)
+    setCityState(next)
+  }
+
+  const value = {
+    city,
+    cities,
+    loading,
+    setCity,
+  }
+
+  return <CityContext.Provider value={value}>{children}</CityContext.Provider>
+}
+
+export function useCity() {
+  const context = useContext(CityContext)
+  if (!context) {
+    throw new Error('useCity must be used within a CityProvider')
+  }
+  return context
+}
@@ -0,0 +1,24 @@
+// src/lib/claim-codes.ts - One-time codes for business claims (server only)
+import { createHash, randomInt, timingSafeEqual } from 'crypto'
+
+export const CLAIM_CODE_CONFIG = {
+  length: 6,
+  ttlMinutes: 10,
+  maxAttempts: 5,
+  resendSeconds: 60
+}
+
+export function generateClaimCode(): string {
+  return randomInt(0, 10 ** CLAIM_CODE_CONFIG.length).toString().padStart(CLAIM_CODE_CONFIG.length, '0')
+}
+
+// Salted with the claim id so equal codes on different claims hash differently
+export function hashClaimCode(claimId: string, code: string): string {
+  return createHash('sha256').update(`${claimId}:${code}`).digest('hex')
+}
+
+export function claimCodeMatches(codeHash: string, claimId: string, code: string): boolean {
+  const expected = Buffer.from(codeHash, 'hex')
+  const actual = Buffer.from(hashClaimCode(claimId, code.trim()), 'hex')
+  return expected.length === actual.length && timingSafeEqual(expected, actual)
+}
@@ -0,0 +1,14 @@
+// src/lib/cron.ts - Guards scheduled-job endpoints (server only)
+// Schedulers call them with "Authorization: Bearer $CRON_SECRET". Without
+// CRON_SECRET set, every request is refused.
+import { timingSafeEqual } from 'crypto'
+
+export function isCronRequest(request: Request): boolean {
+  const secret = process.env.CRON_SECRET
+  const token = request.headers.get('authorization')?.replace(/^Bearer\s+/i, '')
+  if (!secret || !token) return false
+
+  const expected = Buffer.from(secret)
+  const actual = Buffer.from(token)
+  return expected.length === actual.length && timingSafeEqual(expected, actual)
+}
@@ -0,0 +1,50 @@
+// src/lib/csv.ts - CSV export for admin reports
+// Spreadsheet apps run cells starting with =, +, - or @ as formulas, and search
+// terms are user input, so those cells are prefixed with a quote.
+
+export type CsvValue = string | number | boolean | null | undefined
+
+export interface CsvColumn<T> {
+  header: string
+  value: (row: T) => CsvValue
+}
+
+const escapeCell = (value: CsvValue): string => {
+  if (value === null || value === undefined) return ''
+
+  let text = String(value)
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`
+  }
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * Rows as CSV text with a header line
+ */
+export function toCsv<T>(rows: T[], columns: CsvColumn<T>[]): string {
+  const lines = [
+    columns.map(column => escapeCell(column.header)).join(','),
+    ...rows.map(row => columns.map(column => escapeCell(column.value(row))).join(','))
+  ]
+  return lines.join('\r\n')
+}
+
+/**
+ * Save rows as a .csv file in the browser
+ */
+export function downloadCsv<T>(filename: string, rows: T[], columns: CsvColumn<T>[]): void {
+  // Leading BOM so Excel reads the file as UTF-8
+  const blob = new Blob(['\uFEFF', toCsv(rows, columns)], { type: 'text/csv;charset=utf-8' })
+  const url = URL.createObjectURL(blob)
+
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename.endsWith('.csv') ? filename : `${filename}.csv`
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+
+  URL.revokeObjectURL(url)
+}
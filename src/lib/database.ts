@@ -25,14 +25,152 @@ import {
   type ProfileUpdateData
 } from './services/user'
 
+import {
+  businessHoursService,
+  toHoursFormData,
+  type BusinessHours,
+  type BusinessHourOverride,
+  type BusinessHoursFormData
+} from './services/business-hours'
+
+import {
+  businessMediaService,
+  type BusinessPhoto,
+  type BusinessPhotoType,
+  type PhotoModerationStatus
+} from './services/business-media'
+
+import {
+  geoService,
+  type GeoPoint,
+  type MapBounds,
+  type NearbyFilter,
+  type NearbyMatch
+} from './services/geo'
+
+import { getTodayInAppTimezone } from './utils'
+
+import {
+  analyticsService,
+  type AdminDailyActivity,
+  type AnalyticsPoint,
+  type ApprovalTurnaround,
+  type BusinessAnalytics,
+  type BusinessEventType,
+  type CoverageGap,
+  type DateRange,
+  type TopSearch,
+  type TopViewedPage
+} from './services/analytics'
+
+import {
+  directoryService,
+  type AreaStats,
+  type CategoryStats,
+  type CityStats,
+  type DirectoryOverview,
+  type DirectoryStats
+} from './services/directory'
+
 import { 
   reviewService as reviewServiceImport,
   type Review,
   type ReviewReply,
   type ReviewFormData,
-  type ReviewStats
+  type ReviewStats,
+  type ReviewCounts,
+  type StatsOptions
 } from './services/reviews'
 
+import {
+  reviewModerationService,
+  type ModerationReview,
+  type ReviewKind,
+  type ReviewModerationPolicy,
+  type ReviewModerationSettings,
+  type ReviewQueueFilters
+} from './services/review-moderation'
+
+import {
+  reportService,
+  type Report,
+  type ReportEntityType,
+  type ReportReason,
+  type ReportStatus,
+  type ReportedItem
+} from './services/reports'
+
+import {
+  claimService,
+  type BusinessClaim,
+  type ClaimMethod,
+  type ClaimStatus
+} from './services/claims'
+
+import {
+  auditService,
+  type AuditAction,
+  type AuditChanges,
+  type AuditEntityType,
+  type AuditEvent,
+  type AuditFilters
+} from './services/audit'
+
+import {
+  businessMemberService,
+  type BusinessInvitation,
+  type BusinessMember,
+  type BusinessMemberRole,
+  type BusinessMembership,
+  type InvitationStatus
+} from './services/business-members'
+
+import {
+  businessStatusService,
+  type BusinessStatusChange
+} from './services/business-status'
+
+import { type StatusReason } from './status-reasons'
+
+import {
+  categoryAttributeService,
+  type AttributeFilter,
+  type AttributeFilters,
+  type AttributeType,
+  type AttributeValue,
+  type BusinessAttribute,
+  type BusinessAttributeValues,
+  type BusinessAttributeValueRow,
+  type CategoryAttribute,
+  type CategoryAttributeFormData,
+  type FacetSelections,
+  type PriceRange
+} from './services/category-attributes'
+
+import {
+  categoryAdminService,
+  type AdminCategory,
+  type CategoryFeatureType,
+  type CategoryFormData
+} from './services/category-admin'
+
+import {
+  buildCategoryTree,
+  getCategoryAncestors,
+  getCategoryChildren,
+  getCategoryDescendantIds,
+  type CategoryNode
+} from './category-tree'
+
+import {
+  notificationService,
+  type EmailCategory,
+  type EmailPreferences,
+  type NotificationPreferences,
+  type NotificationType,
+  type UserNotification
+} from './services/notifications'
+
 // Types for business services (keep existing)
 export interface Business {
   id: string
@@ -51,15 +189,32 @@ export interface Business {
   owner_id: string | null
   city_id: string | null
   area_id: string | null
+  landmark_id: string | null
+  latitude: number | null
+  longitude: number | null
   established_year: number | null
   employee_count: '1-10' | '11-50' | '51-200' | '200+' | null
   whatsapp: string | null
+  meta_title: string | null
+  meta_description: string | null
+  published_at: string | null
+  logo_url: string | null // Approved logo, kept in sync from media_files
+  cover_url: string | null // Approved cover, kept in sync from media_files
   // Related data
   city_name?: string
+  city_slug?: string | null
   area_name?: string | null
+  landmark_name?: string | null
+  landmark_slug?: string | null
   owner_email?: string
   owner_name?: string | null
-  categories?: Category[]
+  categories?: Category[] // Primary category first
+  attributes?: BusinessAttribute[]
+  hours?: BusinessHours[]
+  hour_overrides?: BusinessHourOverride[]
+  review_stats?: ReviewStats | null
+  photos?: BusinessPhoto[]
+  distance_km?: number // Set for nearby searches
 }
 
 export interface BusinessFilters {
@@ -68,9 +223,22 @@ export interface BusinessFilters {
   limit?: number
   cityId?: string
   areaId?: string
+  landmarkId?: string
   categoryId?: string
+  categoryIds?: string[] // Any of these, e.g. a category and its subcategories
   categorySlug?: string
+  attributes?: AttributeFilters // Must match all
   ownerId?: string
+  memberId?: string // Businesses this user is on the team of, in any role
+  ids?: string[]
+  openNow?: boolean
+  verified?: boolean
+  featured?: boolean
+  nearby?: NearbyFilter // Only businesses within the radius; sorts by distance unless sortBy says otherwise
+  bounds?: MapBounds // Only businesses pinned inside the visible map area
+  sortBy?: 'newest' | 'name' | 'verified' | 'distance'
+  page?: number // 1-based, with limit as the page size
+  offset?: number // Takes precedence over page
 }
 
 export interface BusinessCounts {
@@ -94,6 +262,8 @@ export interface City {
   name: string
   slug: string
   state?: string
+  latitude?: number | null
+  longitude?: number | null
 }
 
 export interface Area {
@@ -104,12 +274,29 @@ export interface Area {
   description?: string
 }
 
+export interface Landmark {
+  id: string
+  name: string
+  slug: string
+  area_id: string
+  description?: string | null
+  latitude?: number | null
+  longitude?: number | null
+}
+
 export interface Category {
   id: string
   name: string
   slug: string
   feature_type: string
   description?: string
+  parent_id?: string | null
+  sort_order?: number
+}
+
+export interface CategoryBreadcrumb {
+  name: string
+  slug: string
 }
 
 export interface BusinessFormData {
@@ -118,6 +305,7 @@ export interface BusinessFormData {
   address: string
   city_id: string
   area_id?: string
+  landmark_id?: string // One of the area's landmarks
   phone: string[]
   email?: string
   website?: string
@@ -125,24 +313,172 @@ export interface BusinessFormData {
   established_year?: number
   employee_count?: '1-10' | '11-50' | '51-200' | '200+'
   category_ids: string[]
+  primary_category_id?: string // One of category_ids; the first when unset
+  attributes?: BusinessAttributeValues // Left untouched when unset
+  latitude?: number
+  longitude?: number
+  hours?: BusinessHoursFormData
+}
+
+export interface BusinessPendingChange {
+  id: string
+  business_id: string
+  submitted_by: string
+  changes: BusinessFormData // Listing fields only; hours are saved straight away
+  status: 'pending' | 'approved' | 'rejected'
+  review_note: string | null
+  reviewed_by: string | null
+  reviewed_at: string | null
+  created_at: string
+  updated_at: string
+  // Related data
+  business_name?: string
+  business_slug?: string
+  submitter_email?: string
+  submitter_name?: string | null
+  current?: BusinessFormData // Live values, for comparing against changes
+}
+
+export interface BusinessEditData {
+  business: Business
+  formData: BusinessFormData
+  pendingChange: BusinessPendingChange | null
+}
+
+// Row shape returned by the getBusinesses select
+type BusinessListRow = Business & {
+  cities: { name: string; slug: string } | null
+  areas: { name: string } | null
+  landmarks: { name: string; slug: string } | null
+  profiles: { full_name: string | null; email: string } | null
+  business_hours: BusinessHours[] | null
+  business_hour_overrides: BusinessHourOverride[] | null
+}
+
+/**
+ * URL slug from a business name
+ */
+function generateSlug(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+}
+
+/**
+ * Editable business columns from form data (shared by create and edit)
+ */
+function toBusinessRow(formData: BusinessFormData) {
+  const phones = formData.phone.filter(p => p.trim())
+
+  return {
+    name: formData.name.trim(),
+    description: formData.description.trim() || null,
+    address: formData.address.trim(),
+    city_id: formData.city_id,
+    area_id: formData.area_id || null,
+    landmark_id: (formData.area_id && formData.landmark_id) || null,
+    phone: phones.length > 0 ? phones : null,
+    email: formData.email?.trim() || null,
+    website: formData.website?.trim() || null,
+    whatsapp: formData.whatsapp?.trim() || null,
+    established_year: formData.established_year || null,
+    employee_count: formData.employee_count || null,
+    latitude: formData.latitude ?? null,
+    longitude: formData.longitude ?? null
+  }
+}
+
+/**
+ * The listing's primary category, falling back to the first one chosen
+ */
+function getPrimaryCategoryId(formData: BusinessFormData): string | undefined {
+  return formData.primary_category_id && formData.category_ids.includes(formData.primary_category_id)
+    ? formData.primary_category_id
+    : formData.category_ids[0]
+}
+
+/**
+ * business_categories rows for form data
+ */
+function toCategoryRows(businessId: string, formData: BusinessFormData) {
+  const primaryCategoryId = getPrimaryCategoryId(formData)
+
+  return formData.category_ids.map(categoryId => ({
+    business_id: businessId,
+    category_id: categoryId,
+    is_primary: categoryId === primaryCategoryId
+  }))
+}
+
+/**
+ * Form values for an existing business (hours are loaded separately)
+ */
+function toBusinessFormData(
+  business: Omit<Business, 'id'>,
+  categoryRows: { category_id: string; is_primary: boolean }[],
+  attributes: BusinessAttributeValues
+): BusinessFormData {
+  return {
+    name: business.name,
+    description: business.description || '',
+    address: business.address,
+    city_id: business.city_id || '',
+    area_id: business.area_id || '',
+    landmark_id: business.landmark_id || '',
+    phone: business.phone && business.phone.length > 0 ? business.phone : [''],
+    email: business.email || '',
+    website: business.website || '',
+    whatsapp: business.whatsapp || '',
+    established_year: business.established_year || undefined,
+    employee_count: business.employee_count || undefined,
+    category_ids: categoryRows.map(row => row.category_id),
+    primary_category_id: categoryRows.find(row => row.is_primary)?.category_id,
+    attributes,
+    latitude: business.latitude ?? undefined,
+    longitude: business.longitude ?? undefined
+  }
 }
 
 // Business Service - All business-related database operations
 export const businessService = {
   /**
-   * Get businesses with optional filters and relationships
+   * Get businesses with optional filters and relationships.
+   * Filtering, sorting and paging all run in the database; totalCount is the
+   * exact number of matches ignoring limit/page. Rows come from the
+   * filter_businesses RPC, which applies the open-now, attribute and nearby
+   * filters in the same query.
    */
-  async getBusinesses(filters: BusinessFilters = {}): Promise<{ data: Business[] | null; error: any }> {
+  async getBusinesses(filters: BusinessFilters = {}): Promise<{ data: Business[] | null; totalCount: number; error: unknown }> {
     try {
+      // Inner join only when filtering by category, so unfiltered lists keep uncategorised businesses
+      const categoryJoin = filters.categorySlug
+        ? ', business_categories!inner(category_id, categories!inner(slug))'
+        : filters.categoryId || filters.categoryIds
+          ? ', business_categories!inner(category_id)'
+          : ''
+
+      const columns: string = `
+        *,
+        cities:city_id(name, slug),
+        areas:area_id(name),
+        landmarks:landmark_id(name, slug),
+        profiles:owner_id(full_name, email),
+        business_hours(*),
+        business_hour_overrides(*)${categoryJoin}
+      `
+
+      const hasAttributes = !!filters.attributes && Object.keys(filters.attributes).length > 0
+
       let query = supabase
-        .from('businesses')
-        .select(`
-          *,
-          cities:city_id(name),
-          areas:area_id(name),
-          profiles:owner_id(full_name, email)
-        `)
-        .order('created_at', { ascending: false })
+        .rpc('filter_businesses', {
+          p_open_now: !!filters.openNow,
+          p_attributes: hasAttributes ? filters.attributes : null,
+          p_near_latitude: filters.nearby?.latitude ?? null,
+          p_near_longitude: filters.nearby?.longitude ?? null,
+          p_near_radius_km: filters.nearby?.radiusKm
+        }, { count: 'exact' })
+        .gte('business_hour_overrides.override_date', getTodayInAppTimezone())
 
       // Apply basic filters
       if (filters.status && filters.status !== 'all') {
@@ -161,97 +497,133 @@ export const businessService = {
         query = query.eq('area_id', filters.areaId)
       }
 
+      if (filters.landmarkId) {
+        query = query.eq('landmark_id', filters.landmarkId)
+      }
+
       if (filters.ownerId) {
         query = query.eq('owner_id', filters.ownerId)
       }
 
-      if (filters.limit) {
-        query = query.limit(filters.limit)
+      if (filters.memberId) {
+        const { data: memberships, error: memberError } = await businessMemberService.getMemberships(filters.memberId)
+        if (memberError) {
+          return { data: null, totalCount: 0, error: memberError }
+        }
+        query = query.in('id', (memberships || []).map(membership => membership.business_id))
       }
 
-      const { data, error } = await query
-
-      if (error) {
-        console.error('Error fetching businesses:', error)
-        return { data: null, error }
+      if (filters.ids) {
+        query = query.in('id', filters.ids)
       }
 
-      let businesses: Business[] = (data || []).map(item => ({
-        ...item,
-        city_name: item.cities?.name || 'Unknown City',
-        area_name: item.areas?.name || null,
-        owner_email: item.profiles?.email || 'Unknown Owner',
-        owner_name: item.profiles?.full_name || null
-      }))
-
-      // Category filtering (many-to-many relationship)
-      if (filters.categoryId || filters.categorySlug) {
-        const categoryFilteredBusinesses = await this.filterBusinessesByCategory(
-          businesses, 
-          filters.categoryId, 
-          filters.categorySlug
-        )
-        businesses = categoryFilteredBusinesses
+      if (filters.verified) {
+        query = query.eq('is_verified', true)
       }
 
-      return { data: businesses, error: null }
+      if (filters.featured) {
+        query = query.eq('is_featured', true)
+      }
 
-    } catch (error) {
-      console.error('Unexpected error in getBusinesses:', error)
-      return { data: null, error }
-    }
-  },
+      if (filters.bounds) {
+        query = query
+          .gte('latitude', filters.bounds.south)
+          .lte('latitude', filters.bounds.north)
+          .gte('longitude', filters.bounds.west)
+          .lte('longitude', filters.bounds.east)
+      }
 
-  /**
-   * Filter businesses by category (handles many-to-many relationship)
-   */
-  async filterBusinessesByCategory(
-    businesses: Business[], 
-    categoryId?: string, 
-    categorySlug?: string
-  ): Promise<Business[]> {
-    try {
-      let targetCategoryId = categoryId
+      // Category filtering (many-to-many relationship)
+      if (filters.categorySlug) {
+        query = query.eq('business_categories.categories.slug', filters.categorySlug)
+      } else if (filters.categoryId) {
+        query = query.eq('business_categories.category_id', filters.categoryId)
+      } else if (filters.categoryIds) {
+        query = query.in('business_categories.category_id', filters.categoryIds)
+      }
 
-      if (categorySlug && !categoryId) {
-        const { data: categories } = await categoryService.getBusinessCategories()
-        const category = categories?.find(cat => cat.slug === categorySlug)
-        if (!category) {
-          return []
+      // The RPC only filters by distance; the distances themselves are for display and sorting
+      let distances: Map<string, number> | null = null
+      if (filters.nearby) {
+        const { data: matches, error: nearbyError } = await geoService.getNearby('business', filters.nearby)
+        if (nearbyError) {
+          return { data: null, totalCount: 0, error: nearbyError }
         }
-        targetCategoryId = category.id
+        if (!matches || matches.length === 0) {
+          return { data: [], totalCount: 0, error: null }
+        }
+        distances = new Map(matches.map(match => [match.id, match.distance_km]))
+      }
+
+      // Distance isn't a column, so distance-sorted results are ordered and paged after fetching
+      const sortBy = filters.sortBy || (filters.nearby ? 'distance' : 'newest')
+      const sortByDistance = sortBy === 'distance' && distances !== null
+
+      let sortedQuery = query.select<string, BusinessListRow>(columns)
+
+      // Sorting
+      switch (sortBy) {
+        case 'name':
+          sortedQuery = sortedQuery.order('name', { ascending: true })
+          break
+        case 'verified':
+          sortedQuery = sortedQuery
+            .order('is_verified', { ascending: false })
+            .order('created_at', { ascending: false })
+          break
+        case 'newest':
+        default:
+          sortedQuery = sortedQuery.order('created_at', { ascending: false })
       }
 
-      if (!targetCategoryId) {
-        return businesses
+      // Paging
+      const offset = filters.limit
+        ? filters.offset ?? (filters.page ? (filters.page - 1) * filters.limit : 0)
+        : 0
+      if (filters.limit && !sortByDistance) {
+        sortedQuery = sortedQuery.range(offset, offset + filters.limit - 1)
       }
 
-      const { data: businessCategories, error } = await supabase
-        .from('business_categories')
-        .select('business_id')
-        .eq('category_id', targetCategoryId)
+      const { data, count, error } = await sortedQuery
 
       if (error) {
-        console.error('Error fetching business categories:', error)
-        return businesses
+        console.error('Error fetching businesses:', error)
+        return { data: null, totalCount: 0, error }
       }
 
-      const categoryBusinessIds = new Set(
-        businessCategories?.map(bc => bc.business_id) || []
-      )
+      let businesses: Business[] = (data || []).map(item => ({
+        ...item,
+        city_name: item.cities?.name || 'Unknown City',
+        city_slug: item.cities?.slug || null,
+        area_name: item.areas?.name || null,
+        landmark_name: item.landmarks?.name || null,
+        landmark_slug: item.landmarks?.slug || null,
+        owner_email: item.profiles?.email || 'Unknown Owner',
+        owner_name: item.profiles?.full_name || null,
+        hours: item.business_hours || [],
+        hour_overrides: item.business_hour_overrides || [],
+        distance_km: distances?.get(item.id)
+      }))
+
+      if (sortByDistance) {
+        businesses.sort((a, b) => (a.distance_km ?? Infinity) - (b.distance_km ?? Infinity))
+        if (filters.limit) {
+          businesses = businesses.slice(offset, offset + filters.limit)
+        }
+      }
 
-      return businesses.filter(business => categoryBusinessIds.has(business.id))
+      return { data: businesses, totalCount: count ?? businesses.length, error: null }
 
     } catch (error) {
-      console.error('Error filtering businesses by category:', error)
-      return businesses
+      console.error('Unexpected error in getBusinesses:', error)
+      return { data: null, totalCount: 0, error }
     }
   },
 
   /**
    * Get businesses by category slug
    */
-  async getBusinessesByCategory(categorySlug: string): Promise<{ data: Business[] | null; error: any }> {
+  async getBusinessesByCategory(categorySlug: string): Promise<{ data: Business[] | null; totalCount: number; error: unknown }> {
     return this.getBusinesses({
       status: 'published',
       categorySlug: categorySlug,
@@ -262,7 +634,7 @@ export const businessService = {
   /**
    * Get businesses by area ID
    */
-  async getBusinessesByArea(areaId: string): Promise<{ data: Business[] | null; error: any }> {
+  async getBusinessesByArea(areaId: string): Promise<{ data: Business[] | null; totalCount: number; error: unknown }> {
     return this.getBusinesses({
       status: 'published',
       areaId: areaId,
@@ -279,8 +651,9 @@ export const businessService = {
         .from('businesses')
         .select(`
           *,
-          cities:city_id(name),
+          cities:city_id(name, slug),
           areas:area_id(name),
+          landmarks:landmark_id(name, slug),
           profiles:owner_id(full_name, email)
         `)
         .eq('id', id)
@@ -294,7 +667,10 @@ export const businessService = {
       const business: Business = {
         ...data,
         city_name: data.cities?.name || 'Unknown City',
+        city_slug: data.cities?.slug || null,
         area_name: data.areas?.name || null,
+        landmark_name: data.landmarks?.name || null,
+        landmark_slug: data.landmarks?.slug || null,
         owner_email: data.profiles?.email || 'Unknown Owner',
         owner_name: data.profiles?.full_name || null
       }
@@ -308,17 +684,98 @@ export const businessService = {
   },
 
   /**
-   * Update business status (admin function)
+   * Get a single published business by slug with everything the detail page needs
    */
-  async updateStatus(id: string, status: Business['status']): Promise<{ success: boolean; error: any }> {
+  async getBusinessBySlug(slug: string): Promise<{ data: Business | null; error: unknown }> {
     try {
-      const { error } = await supabase
+      const { data, error } = await supabase
         .from('businesses')
-        .update({ 
-          status,
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', id)
+        .select(`
+          *,
+          cities:city_id(name, slug),
+          areas:area_id(name),
+          landmarks:landmark_id(name, slug),
+          profiles:owner_id(full_name, email),
+          business_categories(is_primary, categories:category_id(id, name, slug, feature_type, description)),
+          business_hours(*),
+          business_hour_overrides(*)
+        `)
+        .gte('business_hour_overrides.override_date', getTodayInAppTimezone())
+        .eq('slug', slug)
+        .eq('status', 'published')
+        .maybeSingle()
+
+      if (error) {
+        console.error('Error fetching business by slug:', error)
+        return { data: null, error }
+      }
+
+      if (!data) {
+        return { data: null, error: 'Business not found' }
+      }
+
+      // Primary category first, then alphabetical
+      const categoryRows: { is_primary: boolean; categories: Category | null }[] = data.business_categories || []
+      const categories: Category[] = categoryRows
+        .filter((row): row is { is_primary: boolean; categories: Category } => !!row.categories)
+        .sort((a, b) => Number(b.is_primary) - Number(a.is_primary) || a.categories.name.localeCompare(b.categories.name))
+        .map(row => row.categories)
+
+      const hours: BusinessHours[] = (data.business_hours || [])
+        .sort((a: BusinessHours, b: BusinessHours) => a.day_of_week - b.day_of_week || a.sort_order - b.sort_order)
+
+      const [{ data: reviewStats }, { data: photos }, { data: attributes }] = await Promise.all([
+        reviewServiceImport.getReviewStats(data.id),
+        businessMediaService.getBusinessPhotos(data.id),
+        categoryAttributeService.getBusinessAttributes(data.id)
+      ])
+
+      const business: Business = {
+        ...data,
+        city_name: data.cities?.name || 'Unknown City',
+        city_slug: data.cities?.slug || null,
+        area_name: data.areas?.name || null,
+        landmark_name: data.landmarks?.name || null,
+        landmark_slug: data.landmarks?.slug || null,
+        owner_email: data.profiles?.email || 'Unknown Owner',
+        owner_name: data.profiles?.full_name || null,
+        categories,
+        attributes: attributes || [],
+        hours,
+        hour_overrides: data.business_hour_overrides || [],
+        review_stats: reviewStats,
+        photos: photos || []
+      }
+
+      return { data: business, error: null }
+
+    } catch (error) {
+      console.error('Unexpected error in getBusinessBySlug:', error)
+      return { data: null, error }
+    }
+  },
+
+  /**
+   * Change a listing's status and record it in the status history. Rejecting or
+   * suspending needs a reason, which the owner is emailed along with approvals.
+   * Admins can make any change; owners and managers can only resubmit.
+   */
+  async updateStatus(id: string, status: Business['status'], reason?: StatusReason): Promise<{ success: boolean; error: unknown }> {
+    try {
+      if ((status === 'rejected' || status === 'suspended') && !reason?.code) {
+        return { success: false, error: 'Please choose a reason' }
+      }
+
+      if (reason?.code === 'other' && !reason.note?.trim()) {
+        return { success: false, error: 'Please explain the reason' }
+      }
+
+      const { error } = await supabase.rpc('set_business_status', {
+        p_business_id: id,
+        p_status: status,
+        p_reason_code: reason?.code ?? null,
+        p_reason_note: reason?.note?.trim() || null
+      })
 
       if (error) {
         console.error('Error updating business status:', error)
@@ -364,37 +821,46 @@ export const businessService = {
   },
 
   /**
-   * Get business owner stats (for business dashboard)
+   * Get business owner stats (for business dashboard), across every business
+   * the user is a member of. Review figures can be taken as of an earlier time.
    */
-  async getOwnerStats(ownerId: string): Promise<{ data: BusinessOwnerStats | null; error: any }> {
+  async getOwnerStats(ownerId: string, options: StatsOptions = {}): Promise<{ data: BusinessOwnerStats | null; error: unknown }> {
     try {
-      const { data: businesses, error: businessError } = await supabase
+      const client = options.client || supabase
+      const { data: memberships, error: memberError } = await businessMemberService.getMemberships(ownerId, client)
+
+      if (memberError) {
+        return { data: null, error: memberError }
+      }
+
+      const { data: businesses, error: businessError } = await client
         .from('businesses')
-        .select('status')
-        .eq('owner_id', ownerId)
+        .select('id, status')
+        .in('id', (memberships || []).map(membership => membership.business_id))
 
       if (businessError) {
         console.error('Error getting owner business counts:', businessError)
         return { data: null, error: businessError }
       }
 
-      const { data: businessIds } = await supabase
-        .from('businesses')
-        .select('id')
-        .eq('owner_id', ownerId)
-
       let totalReviews = 0
       let averageRating = 0
 
-      if (businessIds && businessIds.length > 0) {
-        const businessIdList = businessIds.map(b => b.id)
+      if (businesses && businesses.length > 0) {
+        const businessIdList = businesses.map(b => b.id)
         
-        const { data: reviews, error: reviewError } = await supabase
+        let reviewQuery = client
           .from('reviews')
           .select('rating')
           .in('business_id', businessIdList)
           .eq('status', 'published')
 
+        if (options.before) {
+          reviewQuery = reviewQuery.lt('created_at', options.before)
+        }
+
+        const { data: reviews, error: reviewError } = await reviewQuery
+
         if (!reviewError && reviews) {
           totalReviews = reviews.length
           if (totalReviews > 0) {
@@ -423,7 +889,7 @@ export const businessService = {
   /**
    * Get recent businesses (for dashboard)
    */
-  async getRecent(limit: number = 5): Promise<{ data: Business[] | null; error: any }> {
+  async getRecent(limit: number = 5): Promise<{ data: Business[] | null; totalCount: number; error: unknown }> {
     return this.getBusinesses({ limit })
   },
 
@@ -432,24 +898,9 @@ export const businessService = {
    */
   async create(formData: BusinessFormData, ownerId: string): Promise<{ data: Business | null; error: any }> {
     try {
-      const slug = formData.name
-        .toLowerCase()
-        .replace(/[^a-z0-9]+/g, '-')
-        .replace(/^-+|-+$/g, '')
-
       const businessData = {
-        name: formData.name.trim(),
-        slug: slug,
-        description: formData.description.trim() || null,
-        address: formData.address.trim(),
-        city_id: formData.city_id,
-        area_id: formData.area_id || null,
-        phone: formData.phone.filter(p => p.trim()).length > 0 ? formData.phone.filter(p => p.trim()) : null,
-        email: formData.email?.trim() || null,
-        website: formData.website?.trim() || null,
-        whatsapp: formData.whatsapp?.trim() || null,
-        established_year: formData.established_year || null,
-        employee_count: formData.employee_count || null,
+        ...toBusinessRow(formData),
+        slug: generateSlug(formData.name),
         owner_id: ownerId,
         status: 'pending' as const,
         is_featured: false,
@@ -468,25 +919,35 @@ export const businessService = {
       }
 
       if (formData.category_ids.length > 0) {
-        const categoryData = formData.category_ids.map(categoryId => ({
-          business_id: data.id,
-          category_id: categoryId,
-          is_primary: false
-        }))
-
         const { error: categoryError } = await supabase
           .from('business_categories')
-          .insert(categoryData)
+          .insert(toCategoryRows(data.id, formData))
 
         if (categoryError) {
           console.error('Error adding business categories:', categoryError)
         }
       }
 
+      if (formData.attributes) {
+        const { error: attributesError } = await categoryAttributeService.saveBusinessValues(data.id, formData.category_ids, formData.attributes)
+
+        if (attributesError) {
+          console.error('Error adding business attributes:', attributesError)
+        }
+      }
+
+      if (formData.hours) {
+        const { error: hoursError } = await businessHoursService.saveBusinessHours(data.id, formData.hours)
+
+        if (hoursError) {
+          console.error('Error adding business hours:', hoursError)
+        }
+      }
+
       // Auto-promote user to business_owner if they're just a regular user
       const { data: currentRole } = await userServiceImport.getUserProfile(ownerId)
       if (currentRole && currentRole.user_type === 'user') {
-        await userServiceImport.updateUserRole(ownerId, 'business_owner')
+        await userServiceImport.updateUserRole(ownerId, 'business_owner', 'Listed a business')
       }
 
       return { data, error: null }
@@ -526,14 +987,362 @@ export const businessService = {
   },
 
   /**
-   * Delete business (admin function)
+   * Load a business in the shape the edit form expects, plus any change set awaiting review
    */
-  async delete(id: string): Promise<{ success: boolean; error: any }> {
+  async getBusinessForEdit(id: string): Promise<{ data: BusinessEditData | null; error: unknown }> {
     try {
-      const { error } = await supabase
+      const [businessResult, categoriesResult, attributesResult, hoursResult, pendingResult] = await Promise.all([
+        this.getBusinessById(id),
+        supabase
+          .from('business_categories')
+          .select('category_id, is_primary')
+          .eq('business_id', id),
+        categoryAttributeService.getBusinessValues(id),
+        businessHoursService.getBusinessHours(id),
+        this.getPendingChange(id)
+      ])
+
+      if (businessResult.error || !businessResult.data) {
+        return { data: null, error: businessResult.error || 'Business not found' }
+      }
+
+      if (categoriesResult.error) {
+        console.error('Error fetching business categories:', categoriesResult.error)
+        return { data: null, error: categoriesResult.error }
+      }
+
+      const business = businessResult.data
+      const hours = hoursResult.data
+        ? toHoursFormData(hoursResult.data.hours, hoursResult.data.overrides)
+        : undefined
+
+      const formData: BusinessFormData = {
+        ...toBusinessFormData(business, categoriesResult.data || [], attributesResult.data || {}),
+        hours
+      }
+
+      return {
+        data: { business, formData, pendingChange: pendingResult.data },
+        error: null
+      }
+
+    } catch (error) {
+      console.error('Unexpected error in getBusinessForEdit:', error)
+      return { data: null, error }
+    }
+  },
+
+  /**
+   * Save an owner's edits. Published listings keep their live content until an admin
+   * approves the change set; drafts and rejected listings are updated in place.
+   * Hours are operational and always saved immediately.
+   */
+  async submitChanges(
+    id: string,
+    formData: BusinessFormData,
+    userId: string,
+    options: { applyImmediately?: boolean } = {}
+  ): Promise<{ data: { requiresReview: boolean } | null; error: unknown }> {
+    try {
+      const { data: current, error: fetchError } = await supabase
+        .from('businesses')
+        .select('id, status')
+        .eq('id', id)
+        .single()
+
+      if (fetchError || !current) {
+        console.error('Error fetching business for edit:', fetchError)
+        return { data: null, error: fetchError || 'Business not found' }
+      }
+
+      if (current.status !== 'published' || options.applyImmediately) {
+        // Editing a rejected or suspended listing sends it back to the review queue.
+        // Resubmit first: the RPC refuses editors, and if it fails nothing has been
+        // written, while a failed edit afterwards leaves a pending listing to retry.
+        if ((current.status === 'rejected' || current.status === 'suspended') && !options.applyImmediately) {
+          const { error: statusError } = await this.updateStatus(id, 'pending')
+          if (statusError) {
+            return { data: null, error: statusError }
+          }
+        }
+
+        const { error } = await this.applyChanges(id, formData)
+        if (error) {
+          return { data: null, error }
+        }
+
+        return { data: { requiresReview: false }, error: null }
+      }
+
+      if (formData.hours) {
+        const { error: hoursError } = await businessHoursService.saveBusinessHours(id, formData.hours)
+        if (hoursError) {
+          return { data: null, error: hoursError }
+        }
+      }
+
+      const changes: BusinessFormData = { ...formData, hours: undefined }
+
+      // Resubmitting replaces the open change set rather than queueing another
+      const { data: existing } = await this.getPendingChange(id)
+
+      const { error } = existing
+        ? await supabase
+            .from('business_pending_changes')
+            .update({
+              changes,
+              submitted_by: userId,
+              updated_at: new Date().toISOString()
+            })
+            .eq('id', existing.id)
+        : await supabase
+            .from('business_pending_changes')
+            .insert([{ business_id: id, submitted_by: userId, changes }])
+
+      if (error) {
+        console.error('Error saving pending business changes:', error)
+        return { data: null, error }
+      }
+
+      return { data: { requiresReview: true }, error: null }
+
+    } catch (error) {
+      console.error('Unexpected error in submitChanges:', error)
+      return { data: null, error }
+    }
+  },
+
+  /**
+   * Write form data to the live listing: fields, categories, attributes and hours.
+   * The slug only changes when the name no longer matches it.
+   */
+  async applyChanges(id: string, formData: BusinessFormData): Promise<{ data: Business | null; error: unknown }> {
+    try {
+      const { data: current, error: fetchError } = await supabase
         .from('businesses')
-        .delete()
+        .select('slug')
         .eq('id', id)
+        .single()
+
+      if (fetchError || !current) {
+        console.error('Error fetching business slug:', fetchError)
+        return { data: null, error: fetchError || 'Business not found' }
+      }
+
+      const updates: Partial<Business> = toBusinessRow(formData)
+
+      const baseSlug = generateSlug(formData.name)
+      const slugStillMatches = current.slug === baseSlug || new RegExp(`^${baseSlug}-\\d+$`).test(current.slug)
+
+      if (!slugStillMatches) {
+        const { data: taken } = await supabase
+          .from('businesses')
+          .select('slug')
+          .like('slug', `${baseSlug}%`)
+          .neq('id', id)
+
+        const takenSlugs = new Set((taken || []).map(row => row.slug))
+        let slug = baseSlug
+        for (let suffix = 2; takenSlugs.has(slug); suffix++) {
+          slug = `${baseSlug}-${suffix}`
+        }
+        updates.slug = slug
+      }
+
+      const { data, error } = await this.update(id, updates)
+      if (error) {
+        return { data: null, error }
+      }
+
+      let attributeRows: BusinessAttributeValueRow[] | null = null
+      if (formData.attributes) {
+        const { data: rows, error: attributesError } = await categoryAttributeService.getValuesToSave(formData.category_ids, formData.attributes)
+        if (attributesError) {
+          return { data: null, error: attributesError }
+        }
+        attributeRows = rows
+      }
+
+      // Categories and attributes are swapped in one transaction so a failure can't leave the listing without them
+      const { error: categoryError } = await supabase.rpc('replace_business_categories', {
+        p_business_id: id,
+        p_categories: toCategoryRows(id, formData),
+        p_attributes: attributeRows
+      })
+
+      if (categoryError) {
+        console.error('Error saving business categories:', categoryError)
+        return { data: null, error: categoryError }
+      }
+
+      if (formData.hours) {
+        const { error: hoursError } = await businessHoursService.saveBusinessHours(id, formData.hours)
+        if (hoursError) {
+          return { data: null, error: hoursError }
+        }
+      }
+
+      return { data, error: null }
+
+    } catch (error) {
+      console.error('Unexpected error in applyChanges:', error)
+      return { data: null, error }
+    }
+  },
+
+  /**
+   * Get the open change set for a business, if any
+   */
+  async getPendingChange(businessId: string): Promise<{ data: BusinessPendingChange | null; error: unknown }> {
+    try {
+      const { data, error } = await supabase
+        .from('business_pending_changes')
+        .select('*')
+        .eq('business_id', businessId)
+        .eq('status', 'pending')
+        .maybeSingle()
+
+      if (error) {
+        console.error('Error fetching pending business change:', error)
+        return { data: null, error }
+      }
+
+      return { data, error: null }
+
+    } catch (error) {
+      console.error('Unexpected error in getPendingChange:', error)
+      return { data: null, error }
+    }
+  },
+
+  /**
+   * Get change sets awaiting review, oldest first (admin function)
+   */
+  async getPendingChanges(): Promise<{ data: BusinessPendingChange[] | null; error: unknown }> {
+    try {
+      const { data, error } = await supabase
+        .from('business_pending_changes')
+        .select(`
+          *,
+          businesses:business_id(*, business_categories(category_id, is_primary), business_attributes(attribute_id, value)),
+          profiles:submitted_by(full_name, email)
+        `)
+        .eq('status', 'pending')
+        .order('created_at', { ascending: true })
+
+      if (error) {
+        console.error('Error fetching pending business changes:', error)
+        return { data: null, error }
+      }
+
+      const changes: BusinessPendingChange[] = (data || []).map(({ businesses, profiles, ...change }) => ({
+        ...change,
+        business_name: businesses?.name || 'Unknown Business',
+        business_slug: businesses?.slug,
+        submitter_email: profiles?.email || 'Unknown User',
+        submitter_name: profiles?.full_name || null,
+        current: businesses
+          ? toBusinessFormData(
+              businesses,
+              businesses.business_categories || [],
+              Object.fromEntries((businesses.business_attributes || []).map((row: { attribute_id: string; value: AttributeValue }) => [row.attribute_id, row.value]))
+            )
+          : undefined
+      }))
+
+      return { data: changes, error: null }
+
+    } catch (error) {
+      console.error('Unexpected error in getPendingChanges:', error)
+      return { data: null, error }
+    }
+  },
+
+  /**
+   * Publish a change set to the live listing (admin function)
+   */
+  async approvePendingChange(changeId: string, adminId: string): Promise<{ success: boolean; error: unknown }> {
+    try {
+      const { data: change, error: fetchError } = await supabase
+        .from('business_pending_changes')
+        .select('*')
+        .eq('id', changeId)
+        .eq('status', 'pending')
+        .single()
+
+      if (fetchError || !change) {
+        console.error('Error fetching pending business change:', fetchError)
+        return { success: false, error: fetchError || 'Change not found' }
+      }
+
+      const { error: applyError } = await this.applyChanges(change.business_id, change.changes)
+      if (applyError) {
+        return { success: false, error: applyError }
+      }
+
+      const { error } = await supabase
+        .from('business_pending_changes')
+        .update({
+          status: 'approved',
+          reviewed_by: adminId,
+          reviewed_at: new Date().toISOString(),
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', changeId)
+
+      if (error) {
+        console.error('Error approving business change:', error)
+        return { success: false, error }
+      }
+
+      return { success: true, error: null }
+
+    } catch (error) {
+      console.error('Unexpected error in approvePendingChange:', error)
+      return { success: false, error }
+    }
+  },
+
+  /**
+   * Discard a change set; the live listing stays as it was (admin function)
+   */
+  async rejectPendingChange(changeId: string, adminId: string, note?: string): Promise<{ success: boolean; error: unknown }> {
+    try {
+      const { error } = await supabase
+        .from('business_pending_changes')
+        .update({
+          status: 'rejected',
+          review_note: note?.trim() || null,
+          reviewed_by: adminId,
+          reviewed_at: new Date().toISOString(),
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', changeId)
+        .eq('status', 'pending')
+
+      if (error) {
+        console.error('Error rejecting business change:', error)
+        return { success: false, error }
+      }
+
+      return { success: true, error: null }
+
+    } catch (error) {
+      console.error('Unexpected error in rejectPendingChange:', error)
+      return { success: false, error }
+    }
+  },
+
+  /**
+   * Delete business (admin function)
+   */
+  async delete(id: string, reason?: string): Promise<{ success: boolean; error: unknown }> {
+    try {
+      // The database logs the deletion with this reason
+      const { error } = await supabase.rpc('admin_delete_business', {
+        p_business_id: id,
+        p_reason: reason?.trim() || null
+      })
 
       if (error) {
         console.error('Error deleting business:', error)
@@ -558,7 +1367,7 @@ export const locationService = {
     try {
       const { data, error } = await supabase
         .from('cities')
-        .select('id, name, slug')
+        .select('id, name, slug, state, latitude, longitude')
         .eq('is_active', true)
         .order('name')
 
@@ -601,51 +1410,188 @@ export const locationService = {
   },
 
   /**
-   * Get area by slug
+   * Get an active area by slug, with its city. Area slugs are only unique
+   * within a city, so pass the city slug when it is known.
    */
-  async getAreaBySlug(slug: string): Promise<{ data: { area: Area; city: City } | null; error: any }> {
+  async getAreaBySlug(slug: string, citySlug?: string): Promise<{ data: { area: Area; city: City } | null; error: unknown }> {
     try {
-      const { data: cities, error: citiesError } = await this.getCities()
-      
-      if (citiesError || !cities) {
-        return { data: null, error: citiesError }
+      let query = supabase
+        .from('areas')
+        .select('id, name, slug, city_id, cities:city_id!inner(id, name, slug, state, latitude, longitude)')
+        .eq('slug', slug)
+        .eq('is_active', true)
+        .eq('cities.is_active', true)
+
+      if (citySlug) {
+        query = query.eq('cities.slug', citySlug)
       }
 
-      for (const city of cities) {
-        const { data: areas, error: areasError } = await this.getAreasByCity(city.id)
-        
-        if (!areasError && areas) {
-          const matchingArea = areas.find(a => a.slug === slug)
-          if (matchingArea) {
-            return { 
-              data: { area: matchingArea, city }, 
-              error: null 
-            }
-          }
-        }
+      const { data, error } = await query.limit(1).maybeSingle()
+
+      if (error) {
+        console.error('Error fetching area by slug:', error)
+        return { data: null, error }
       }
 
-      return { data: null, error: 'Area not found' }
+      const { cities: city, ...area } = (data || {}) as Area & { cities?: City | null }
+
+      if (!data || !city) {
+        return { data: null, error: 'Area not found' }
+      }
+
+      return { data: { area, city }, error: null }
 
     } catch (error) {
       console.error('Unexpected error in getAreaBySlug:', error)
       return { data: null, error }
     }
+  },
+
+  /**
+   * Every active area with this slug, one per city that has one
+   */
+  async getAreasBySlug(slug: string): Promise<{ data: { area: Area; city: City }[] | null; error: unknown }> {
+    try {
+      const { data, error } = await supabase
+        .from('areas')
+        .select('id, name, slug, city_id, cities:city_id!inner(id, name, slug, state, latitude, longitude)')
+        .eq('slug', slug)
+        .eq('is_active', true)
+        .eq('cities.is_active', true)
+        .overrideTypes<(Area & { cities: City | null })[], { merge: false }>()
+
+      if (error) {
+        console.error('Error fetching areas by slug:', error)
+        return { data: null, error }
+      }
+
+      const matches = (data || []).flatMap(({ cities: city, ...area }) => city ? [{ area, city }] : [])
+
+      return { data: matches, error: null }
+
+    } catch (error) {
+      console.error('Unexpected error in getAreasBySlug:', error)
+      return { data: null, error }
+    }
+  },
+
+  /**
+   * Get active landmarks in an area
+   */
+  async getLandmarksByArea(areaId: string): Promise<{ data: Landmark[] | null; error: unknown }> {
+    try {
+      const { data, error } = await supabase
+        .from('landmarks')
+        .select('id, name, slug, area_id, description, latitude, longitude')
+        .eq('area_id', areaId)
+        .eq('is_active', true)
+        .order('name')
+
+      if (error) {
+        console.error('Error fetching landmarks:', error)
+        return { data: null, error }
+      }
+
+      return { data: data || [], error: null }
+
+    } catch (error) {
+      console.error('Unexpected error in getLandmarksByArea:', error)
+      return { data: null, error }
+    }
+  },
+
+  /**
+   * Get an active landmark by slug, with its area and city. Pass the city
+   * slug when it is known, as for areas.
+   */
+  async getLandmarkBySlug(slug: string, citySlug?: string): Promise<{ data: { landmark: Landmark; area: Area; city: City } | null; error: unknown }> {
+    try {
+      let query = supabase
+        .from('landmarks')
+        .select(`
+          id, name, slug, area_id, description, latitude, longitude,
+          areas:area_id!inner(id, name, slug, city_id, cities:city_id!inner(id, name, slug, state, latitude, longitude))
+        `)
+        .eq('slug', slug)
+        .eq('is_active', true)
+
+      if (citySlug) {
+        query = query.eq('areas.cities.slug', citySlug)
+      }
+
+      const { data, error } = await query.limit(1).maybeSingle()
+
+      if (error) {
+        console.error('Error fetching landmark by slug:', error)
+        return { data: null, error }
+      }
+
+      const { areas, ...landmark } = (data || {}) as Landmark & {
+        areas?: (Area & { cities: City | null }) | null
+      }
+
+      if (!data || !areas?.cities) {
+        return { data: null, error: 'Landmark not found' }
+      }
+
+      const { cities: city, ...area } = areas
+
+      return { data: { landmark, area, city }, error: null }
+
+    } catch (error) {
+      console.error('Unexpected error in getLandmarkBySlug:', error)
+      return { data: null, error }
+    }
+  },
+
+  /**
+   * Every active landmark with this slug, with its area and city
+   */
+  async getLandmarksBySlug(slug: string): Promise<{ data: { landmark: Landmark; area: Area; city: City }[] | null; error: unknown }> {
+    try {
+      const { data, error } = await supabase
+        .from('landmarks')
+        .select(`
+          id, name, slug, area_id, description, latitude, longitude,
+          areas:area_id!inner(id, name, slug, city_id, cities:city_id!inner(id, name, slug, state, latitude, longitude))
+        `)
+        .eq('slug', slug)
+        .eq('is_active', true)
+        .overrideTypes<(Landmark & { areas: (Area & { cities: City | null }) | null })[], { merge: false }>()
+
+      if (error) {
+        console.error('Error fetching landmarks by slug:', error)
+        return { data: null, error }
+      }
+
+      const matches = (data || []).flatMap(({ areas, ...landmark }) => {
+        if (!areas?.cities) return []
+        const { cities: city, ...area } = areas
+        return [{ landmark, area, city }]
+      })
+
+      return { data: matches, error: null }
+
+    } catch (error) {
+      console.error('Unexpected error in getLandmarksBySlug:', error)
+      return { data: null, error }
+    }
   }
 }
 
 // Category Service - For form categories
 export const categoryService = {
   /**
-   * Get business categories
+   * Get active business categories as a flat list, subcategories included
    */
   async getBusinessCategories(): Promise<{ data: Category[] | null; error: any }> {
     try {
       const { data, error } = await supabase
         .from('categories')
-        .select('id, name, slug, feature_type')
+        .select('id, name, slug, feature_type, description, parent_id, sort_order')
         .eq('feature_type', 'business')
         .eq('is_active', true)
+        .order('sort_order')
         .order('name')
 
       if (error) {
@@ -683,27 +1629,103 @@ export const categoryService = {
       console.error('Unexpected error in getCategoryBySlug:', error)
       return { data: null, error }
     }
+  },
+
+  /**
+   * Active business categories nested under their parents
+   */
+  async getCategoryTree(): Promise<{ data: CategoryNode<Category>[] | null; error: unknown }> {
+    const { data: categories, error } = await this.getBusinessCategories()
+    return { data: categories ? buildCategoryTree(categories) : null, error }
+  },
+
+  /**
+   * Direct subcategories of a category, or the top level for null
+   */
+  async getChildren(categoryId: string | null): Promise<{ data: Category[] | null; error: unknown }> {
+    const { data: categories, error } = await this.getBusinessCategories()
+    return { data: categories ? getCategoryChildren(categories, categoryId) : null, error }
+  },
+
+  /**
+   * Parents of a category from the top level down
+   */
+  async getAncestors(categoryId: string): Promise<{ data: Category[] | null; error: unknown }> {
+    const { data: categories, error } = await this.getBusinessCategories()
+    return { data: categories ? getCategoryAncestors(categories, categoryId) : null, error }
+  },
+
+  /**
+   * Ids of a category and all its subcategories, for filtering listings
+   */
+  async getDescendantIds(categoryId: string): Promise<{ data: string[] | null; error: unknown }> {
+    const { data: categories, error } = await this.getBusinessCategories()
+    return { data: categories ? getCategoryDescendantIds(categories, categoryId) : null, error }
+  },
+
+  /**
+   * Path from the top-level category down to this one, inclusive
+   */
+  async getBreadcrumb(slug: string): Promise<{ data: CategoryBreadcrumb[] | null; error: unknown }> {
+    const { data: categories, error } = await this.getBusinessCategories()
+
+    const category = categories?.find(cat => cat.slug === slug)
+    if (error || !categories || !category) {
+      return { data: null, error: error || 'Category not found' }
+    }
+
+    return {
+      data: [...getCategoryAncestors(categories, category.id), category].map(({ name, slug }) => ({ name, slug })),
+      error: null
+    }
+  },
+
+  /**
+   * Slug of the category an inactive category was merged into, so old links
+   * can redirect. Null when the slug wasn't merged.
+   */
+  async getMergedCategorySlug(slug: string): Promise<{ data: string | null; error: unknown }> {
+    try {
+      const { data, error } = await supabase
+        .from('categories')
+        .select('merged_into:merged_into_id(slug, is_active)')
+        .eq('slug', slug)
+        .not('merged_into_id', 'is', null)
+        .maybeSingle()
+
+      if (error) {
+        console.error('Error fetching merged category:', error)
+        return { data: null, error }
+      }
+
+      const target = data?.merged_into as unknown as { slug: string; is_active: boolean } | null
+      return { data: target?.is_active ? target.slug : null, error: null }
+
+    } catch (error) {
+      console.error('Unexpected error in getMergedCategorySlug:', error)
+      return { data: null, error }
+    }
   }
 }
 
 // Business Owner Service
 export const businessOwnerService = {
   /**
-   * Check if user owns a specific business
+   * Check if user is on a business's team, optionally in one of the given roles
    */
-  async isBusinessOwner(userId: string, businessId: string): Promise<boolean> {
+  async isBusinessOwner(
+    userId: string,
+    businessId: string,
+    roles: BusinessMemberRole[] = ['owner', 'manager', 'editor']
+  ): Promise<boolean> {
     try {
-      const { data, error } = await supabase
-        .from('businesses')
-        .select('owner_id')
-        .eq('id', businessId)
-        .single()
+      const { data: role, error } = await businessMemberService.getRole(userId, businessId)
       
-      if (error || !data) {
+      if (error || !role) {
         return false
       }
       
-      return data.owner_id === userId
+      return roles.includes(role)
     } catch (error) {
       console.error('Error checking business ownership:', error)
       return false
@@ -711,14 +1733,20 @@ export const businessOwnerService = {
   },
 
   /**
-   * Get businesses owned by user
+   * Get published businesses the user is a member of
    */
   async getUserBusinesses(userId: string): Promise<{ data: any[] | null; error: any }> {
     try {
+      const { data: memberships, error: memberError } = await businessMemberService.getMemberships(userId)
+
+      if (memberError) {
+        return { data: null, error: memberError }
+      }
+
       const { data, error } = await supabase
         .from('businesses')
         .select('id, name, slug')
-        .eq('owner_id', userId)
+        .in('id', (memberships || []).map(membership => membership.business_id))
         .eq('status', 'published')
 
       if (error) {
@@ -741,12 +1769,92 @@ export const reviewService = reviewServiceImport
 
 // Export all services and types
 export {
+  analyticsService,
+  auditService,
+  businessHoursService,
+  businessMediaService,
+  businessMemberService,
+  businessStatusService,
+  categoryAdminService,
+  categoryAttributeService,
+  claimService,
+  directoryService,
+  geoService,
+  notificationService,
+  reportService,
+  reviewModerationService,
   tourismService,
   tourismImageService,
   tourismReviewService
 }
 
 export type {
+  // Analytics types
+  AdminDailyActivity,
+  AnalyticsPoint,
+  ApprovalTurnaround,
+  BusinessAnalytics,
+  BusinessEventType,
+  CoverageGap,
+  DateRange,
+  TopSearch,
+  TopViewedPage,
+  // Audit types
+  AuditAction,
+  AuditChanges,
+  AuditEntityType,
+  AuditEvent,
+  AuditFilters,
+  // Category types
+  AdminCategory,
+  AttributeFilter,
+  AttributeFilters,
+  AttributeType,
+  AttributeValue,
+  BusinessAttribute,
+  BusinessAttributeValueRow,
+  BusinessAttributeValues,
+  CategoryAttribute,
+  CategoryAttributeFormData,
+  CategoryFeatureType,
+  CategoryFormData,
+  CategoryNode,
+  FacetSelections,
+  PriceRange,
+  // Business hours types
+  BusinessHours,
+  BusinessHourOverride,
+  BusinessHoursFormData,
+  // Business member types
+  BusinessInvitation,
+  BusinessMember,
+  BusinessMemberRole,
+  BusinessMembership,
+  InvitationStatus,
+  // Business status types
+  BusinessStatusChange,
+  StatusReason,
+  // Business media types
+  BusinessPhoto,
+  BusinessPhotoType,
+  PhotoModerationStatus,
+  // Directory types
+  AreaStats,
+  CategoryStats,
+  CityStats,
+  DirectoryOverview,
+  DirectoryStats,
+  // Geo types
+  GeoPoint,
+  MapBounds,
+  NearbyFilter,
+  NearbyMatch,
+  // Notification types
+  EmailCategory,
+  EmailPreferences,
+  NotificationPreferences,
+  NotificationType,
+  UserNotification,
   // Tourism types
   TourismPlace,
   TourismFormData,
@@ -764,17 +1872,48 @@ export type {
   Review,
   ReviewReply,
   ReviewFormData,
-  ReviewStats
+  ReviewStats,
+  ReviewCounts,
+  StatsOptions,
+  // Review moderation types
+  ModerationReview,
+  ReviewKind,
+  ReviewModerationPolicy,
+  ReviewModerationSettings,
+  ReviewQueueFilters,
+  // Report types
+  Report,
+  ReportEntityType,
+  ReportReason,
+  ReportStatus,
+  ReportedItem,
+  // Claim types
+  BusinessClaim,
+  ClaimMethod,
+  ClaimStatus
 }
 
 // Main export for convenience
 export default {
+  analytics: analyticsService,
+  audit: auditService,
   business: businessService,
   location: locationService,
   category: categoryService,
+  categoryAdmin: categoryAdminService,
+  categoryAttributes: categoryAttributeService,
   user: userService,
   review: reviewService,
+  reviewModeration: reviewModerationService,
+  report: reportService,
   businessOwner: businessOwnerService,
+  claim: claimService,
+  directory: directoryService,
+  notifications: notificationService,
+  businessHours: businessHoursService,
+  businessMedia: businessMediaService,
+  businessMembers: businessMemberService,
+  businessStatus: businessStatusService,
   tourism: tourismService,
   tourismImage: tourismImageService,
   tourismReview: tourismReviewService
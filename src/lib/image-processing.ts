@@ -0,0 +1,198 @@
+// src/lib/image-processing.ts - Browser-side image preparation before upload
+// Every upload is re-encoded through a canvas, which drops EXIF (including
+// GPS) and other metadata, caps dimensions and converts to a modern format.
+import { encode } from 'blurhash'
+
+export type ImagePreset = 'avatar' | 'logo' | 'gallery' | 'review'
+
+export interface ImageVariantSpec {
+  name: string
+  maxSize: number // Longest edge in px
+}
+
+interface ImagePresetConfig {
+  maxSize: number
+  quality: number
+  square?: boolean // Centre-crop to a square (avatars)
+  variants: ImageVariantSpec[]
+}
+
+export interface ProcessedImageVariant {
+  name: string
+  blob: Blob
+  width: number
+  height: number
+  mimeType: string
+  extension: string
+}
+
+export interface ProcessedImage extends ProcessedImageVariant {
+  blurhash: string
+  originalName: string
+  variants: ProcessedImageVariant[]
+}
+
+export const IMAGE_UPLOAD_LIMITS = {
+  maxFileSizeMb: 15,
+  acceptedTypes: ['image/jpeg', 'image/png', 'image/webp', 'image/avif', 'image/gif'],
+  minDimension: 64
+}
+
+const IMAGE_PRESETS: Record<ImagePreset, ImagePresetConfig> = {
+  avatar: { maxSize: 512, quality: 0.85, square: true, variants: [{ name: 'thumb', maxSize: 128 }] },
+  logo: { maxSize: 512, quality: 0.9, variants: [{ name: 'thumb', maxSize: 128 }] },
+  gallery: {
+    maxSize: 1920,
+    quality: 0.82,
+    variants: [
+      { name: 'medium', maxSize: 960 },
+      { name: 'thumb', maxSize: 400 }
+    ]
+  },
+  review: { maxSize: 1600, quality: 0.8, variants: [{ name: 'thumb', maxSize: 400 }] }
+}
+
+// Tried in order; browsers that can't encode a format fall through to the next
+const OUTPUT_FORMATS = [
+  { mimeType: 'image/avif', extension: 'avif' },
+  { mimeType: 'image/webp', extension: 'webp' },
+  { mimeType: 'image/jpeg', extension: 'jpg' }
+]
+
+/**
+ * Detect the real image type from the file's first bytes; the browser-reported
+ * type only reflects the file extension
+ */
+export async function sniffImageType(file: Blob): Promise<string | null> {
+  const bytes = new Uint8Array(await file.slice(0, 16).arrayBuffer())
+  const ascii = (start: number, end: number) => String.fromCharCode(...bytes.slice(start, end))
+
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return 'image/jpeg'
+  if (bytes[0] === 0x89 && ascii(1, 4) === 'PNG') return 'image/png'
+  if (ascii(0, 6) === 'GIF87a' || ascii(0, 6) === 'GIF89a') return 'image/gif'
+  if (ascii(0, 4) === 'RIFF' && ascii(8, 12) === 'WEBP') return 'image/webp'
+  if (ascii(4, 8) === 'ftyp' && ['avif', 'avis'].includes(ascii(8, 12))) return 'image/avif'
+
+  return null
+}
+
+/**
+ * Check size and real type; throws with a user-facing message
+ */
+export async function validateImageFile(file: File): Promise<string> {
+  if (file.size > IMAGE_UPLOAD_LIMITS.maxFileSizeMb * 1024 * 1024) {
+    throw new Error(`Images must be under ${IMAGE_UPLOAD_LIMITS.maxFileSizeMb} MB`)
+  }
+
+  const mimeType = await sniffImageType(file)
+  if (!mimeType || !IMAGE_UPLOAD_LIMITS.acceptedTypes.includes(mimeType)) {
+    throw new Error('Please choose a JPEG, PNG, WebP, AVIF or GIF image')
+  }
+
+  return mimeType
+}
+
+function fitWithin(width: number, height: number, maxSize: number) {
+  const scale = Math.min(1, maxSize / Math.max(width, height))
+  return {
+    width: Math.max(1, Math.round(width * scale)),
+    height: Math.max(1, Math.round(height * scale))
+  }
+}
+
+function drawToCanvas(
+  source: CanvasImageSource,
+  crop: { x: number; y: number; width: number; height: number },
+  width: number,
+  height: number
+): HTMLCanvasElement {
+  const canvas = document.createElement('canvas')
+  canvas.width = width
+  canvas.height = height
+
+  const context = canvas.getContext('2d')
+  if (!context) {
+    throw new Error('Your browser could not process this image')
+  }
+
+  context.imageSmoothingQuality = 'high'
+  context.drawImage(source, crop.x, crop.y, crop.width, crop.height, 0, 0, width, height)
+  return canvas
+}
+
+async function encodeCanvas(canvas: HTMLCanvasElement, quality: number) {
+  for (const format of OUTPUT_FORMATS) {
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, format.mimeType, quality))
+    // Unsupported formats silently come back as PNG
+    if (blob && blob.type === format.mimeType) {
+      return { blob, ...format }
+    }
+  }
+
+  throw new Error('Your browser could not process this image')
+}
+
+function computeBlurhash(source: HTMLCanvasElement): string {
+  const { width, height } = fitWithin(source.width, source.height, 32)
+  const small = drawToCanvas(source, { x: 0, y: 0, width: source.width, height: source.height }, width, height)
+  const pixels = small.getContext('2d')!.getImageData(0, 0, width, height)
+  return encode(pixels.data, width, height, 4, 3)
+}
+
+/**
+ * Validate, strip metadata, downscale and re-encode an image, plus smaller
+ * variants for thumbnails. Browser only.
+ */
+export async function processImage(file: File, preset: ImagePreset): Promise<ProcessedImage> {
+  if (typeof document === 'undefined') {
+    throw new Error('Images can only be processed in the browser')
+  }
+
+  await validateImageFile(file)
+  const config = IMAGE_PRESETS[preset]
+
+  let bitmap: ImageBitmap
+  try {
+    // Applies the EXIF orientation before the metadata is dropped
+    bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' })
+  } catch {
+    throw new Error('This image appears to be damaged')
+  }
+
+  try {
+    if (Math.min(bitmap.width, bitmap.height) < IMAGE_UPLOAD_LIMITS.minDimension) {
+      throw new Error(`Images must be at least ${IMAGE_UPLOAD_LIMITS.minDimension}px on each side`)
+    }
+
+    const side = Math.min(bitmap.width, bitmap.height)
+    const crop = config.square
+      ? { x: (bitmap.width - side) / 2, y: (bitmap.height - side) / 2, width: side, height: side }
+      : { x: 0, y: 0, width: bitmap.width, height: bitmap.height }
+
+    const mainSize = fitWithin(crop.width, crop.height, config.maxSize)
+    const mainCanvas = drawToCanvas(bitmap, crop, mainSize.width, mainSize.height)
+    const main = await encodeCanvas(mainCanvas, config.quality)
+
+    // Variants are scaled from the main canvas, skipping any that wouldn't be smaller
+    const variants: ProcessedImageVariant[] = []
+    for (const spec of config.variants) {
+      if (spec.maxSize >= Math.max(mainSize.width, mainSize.height)) continue
+
+      const size = fitWithin(mainSize.width, mainSize.height, spec.maxSize)
+      const canvas = drawToCanvas(mainCanvas, { x: 0, y: 0, width: mainSize.width, height: mainSize.height }, size.width, size.height)
+      const encoded = await encodeCanvas(canvas, config.quality)
+      variants.push({ name: spec.name, ...size, ...encoded })
+    }
+
+    return {
+      name: 'main',
+      ...mainSize,
+      ...main,
+      blurhash: computeBlurhash(mainCanvas),
+      originalName: file.name,
+      variants
+    }
+  } finally {
+    bitmap.close()
+  }
+}
@@ -0,0 +1,125 @@
+// src/lib/mail/digest.ts - Weekly review digest for business owners (server only)
+import { businessService, reviewService } from '../database'
+import { getSupabaseAdmin } from '../supabase-admin'
+import { enqueueMail } from './index'
+import type { DigestBusinessSummary, MailTemplateData } from './templates'
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000
+
+/**
+ * One owner's week: review counts and rating change across all their
+ * businesses and for each published one. Null for a quiet week.
+ */
+export async function buildWeeklyDigest(
+  ownerId: string,
+  weekEnd: Date
+): Promise<{ data: MailTemplateData['weekly_digest'] | null; error: unknown }> {
+  const client = getSupabaseAdmin()
+  const weekStart = new Date(weekEnd.getTime() - WEEK_MS)
+  const now = { client, before: weekEnd.toISOString() }
+  const lastWeek = { client, before: weekStart.toISOString() }
+
+  const [{ data: current, error: currentError }, { data: previous, error: previousError }] = await Promise.all([
+    businessService.getOwnerStats(ownerId, now),
+    businessService.getOwnerStats(ownerId, lastWeek)
+  ])
+
+  if (currentError || previousError || !current || !previous) {
+    return { data: null, error: currentError || previousError }
+  }
+
+  const newReviews = current.totalReviews - previous.totalReviews
+  if (newReviews <= 0) {
+    return { data: null, error: null }
+  }
+
+  const { data: businesses, error: businessError } = await client
+    .from('business_members')
+    .select('businesses:business_id(id, name, slug, status)')
+    .eq('user_id', ownerId)
+
+  if (businessError) {
+    return { data: null, error: businessError }
+  }
+
+  const summaries: DigestBusinessSummary[] = []
+  for (const row of businesses || []) {
+    const business = row.businesses as unknown as { id: string; name: string; slug: string; status: string } | null
+    if (business?.status !== 'published') continue
+
+    const [{ data: stats }, { data: earlier }] = await Promise.all([
+      reviewService.getReviewStats(business.id, now),
+      reviewService.getReviewStats(business.id, lastWeek)
+    ])
+
+    if (!stats || !earlier) continue
+
+    summaries.push({
+      business_name: business.name,
+      business_slug: business.slug,
+      new_reviews: stats.totalReviews - earlier.totalReviews,
+      average_rating: stats.averageRating,
+      previous_average_rating: earlier.averageRating
+    })
+  }
+
+  summaries.sort((a, b) => b.new_reviews - a.new_reviews)
+
+  return {
+    data: {
+      week_start: weekStart.toISOString(),
+      week_end: weekEnd.toISOString(),
+      total_reviews: current.totalReviews,
+      new_reviews: newReviews,
+      average_rating: current.averageRating,
+      previous_average_rating: previous.averageRating,
+      businesses: summaries
+    },
+    error: null
+  }
+}
+
+/**
+ * Queue this week's digest for every business owner who hasn't had it yet.
+ * The week ends at midnight UTC today, so reruns on the same day are no-ops.
+ */
+export async function queueWeeklyDigests(): Promise<{ queued: number; skipped: number }> {
+  const admin = getSupabaseAdmin()
+  const weekEnd = new Date()
+  weekEnd.setUTCHours(0, 0, 0, 0)
+
+  const [{ data: owners, error: ownerError }, { data: alreadyQueued, error: queuedError }] = await Promise.all([
+    admin.from('business_members').select('user_id').eq('role', 'owner'),
+    admin
+      .from('mail_outbox')
+      .select('user_id')
+      .eq('template', 'weekly_digest')
+      .eq('data->>week_end', weekEnd.toISOString())
+  ])
+
+  if (ownerError || queuedError) {
+    throw new Error(`Could not load digest recipients: ${(ownerError || queuedError)!.message}`)
+  }
+
+  const done = new Set((alreadyQueued || []).map(row => row.user_id))
+  const ownerIds = [...new Set((owners || []).map(row => row.user_id))].filter(id => !done.has(id))
+  const counts = { queued: 0, skipped: 0 }
+
+  for (const ownerId of ownerIds) {
+    const { data, error } = await buildWeeklyDigest(ownerId, weekEnd)
+
+    if (error) {
+      console.error('Error building weekly digest:', error)
+    }
+
+    if (!data) {
+      counts.skipped++
+      continue
+    }
+
+    const { success } = await enqueueMail(ownerId, 'weekly_digest', data)
+    counts[success ? 'queued' : 'skipped']++
+  }
+
+  return counts
+}
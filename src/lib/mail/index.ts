@@ -0,0 +1,143 @@
+// src/lib/mail/index.ts - Sends templated email to users (server only)
+// Database triggers and the weekly digest queue messages in mail_outbox;
+// processMailOutbox renders and delivers them, honouring email preferences.
+import { getSupabaseAdmin } from '../supabase-admin'
+import { EMAIL_CATEGORY_OPTIONS } from '../services/notifications'
+import { APP_CONSTANTS } from '../utils'
+import { getMailProvider } from './providers'
+import { MAIL_TEMPLATES, renderMailTemplate, type MailTemplate, type MailTemplateData } from './templates'
+import { createUnsubscribeToken, getUnsubscribeUrl } from './unsubscribe'
+
+export type MailResult = 'sent' | 'skipped'
+
+const OUTBOX_CONFIG = {
+  batchSize: 25,
+  maxAttempts: 5,
+  retryMinutes: 10, // Multiplied by the attempt number
+  claimTimeoutMinutes: 15 // Rows a run left in 'sending' longer than this are retried
+}
+
+/**
+ * Render a template for one user and send it, unless they've turned that
+ * category (or all email) off. Throws when delivery fails.
+ */
+export async function sendMail<T extends MailTemplate>(
+  userId: string,
+  template: T,
+  data: MailTemplateData[T]
+): Promise<MailResult> {
+  const admin = getSupabaseAdmin()
+  const category = MAIL_TEMPLATES[template].category
+
+  const [{ data: profile, error: profileError }, { data: optOuts, error: preferenceError }] = await Promise.all([
+    admin.from('profiles').select('email, full_name').eq('id', userId).maybeSingle(),
+    admin
+      .from('email_preferences')
+      .select('category')
+      .eq('user_id', userId)
+      .eq('enabled', false)
+      .in('category', category ? [category, 'all'] : ['all'])
+  ])
+
+  if (profileError || preferenceError) {
+    throw new Error(`Could not load recipient: ${(profileError || preferenceError)!.message}`)
+  }
+
+  if (!profile?.email || (optOuts || []).length > 0) {
+    return 'skipped'
+  }
+
+  const { subject, text } = renderMailTemplate(template, data, { name: profile.full_name })
+
+  // The footer link opens a confirmation page; the header link is for one-click unsubscribe in mail apps
+  const token = createUnsubscribeToken(userId, category || 'all')
+  const label = EMAIL_CATEGORY_OPTIONS.find(option => option.value === category)?.label.toLowerCase() || 'all emails'
+  const footer = [
+    '--',
+    `Unsubscribe from ${label}: ${getUnsubscribeUrl(token)}`,
+    `Email settings: ${APP_CONSTANTS.SITE_URL}/profile`
+  ].join('\n')
+
+  await getMailProvider().send({
+    to: profile.email,
+    subject,
+    text: `${text}\n\n${footer}`,
+    headers: {
+      'List-Unsubscribe': `<${APP_CONSTANTS.SITE_URL}/api/mail/unsubscribe?token=${encodeURIComponent(token)}>`,
+      'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click'
+    }
+  })
+
+  return 'sent'
+}
+
+/**
+ * Queue an email for the next outbox run
+ */
+export async function enqueueMail<T extends MailTemplate>(
+  userId: string,
+  template: T,
+  data: MailTemplateData[T]
+): Promise<{ success: boolean; error: unknown }> {
+  const { error } = await getSupabaseAdmin()
+    .from('mail_outbox')
+    .insert({ user_id: userId, template, data })
+
+  if (error) {
+    console.error('Error queueing email:', error)
+    return { success: false, error }
+  }
+
+  return { success: true, error: null }
+}
+
+/**
+ * Deliver one batch of queued email. Failures are retried with a growing
+ * delay and given up on after a few attempts.
+ */
+export async function processMailOutbox(): Promise<{ sent: number; skipped: number; failed: number }> {
+  const admin = getSupabaseAdmin()
+  const counts = { sent: 0, skipped: 0, failed: 0 }
+
+  const { data: batch, error } = await admin.rpc('claim_mail_outbox', {
+    p_limit: OUTBOX_CONFIG.batchSize,
+    p_max_attempts: OUTBOX_CONFIG.maxAttempts,
+    p_timeout_minutes: OUTBOX_CONFIG.claimTimeoutMinutes
+  })
+
+  if (error) {
+    throw new Error(`Could not claim outbox batch: ${error.message}`)
+  }
+
+  for (const item of batch || []) {
+    try {
+      if (!(item.template in MAIL_TEMPLATES)) {
+        throw new Error(`Unknown template "${item.template}"`)
+      }
+
+      const result = await sendMail(item.user_id, item.template as MailTemplate, item.data)
+      counts[result]++
+
+      await admin
+        .from('mail_outbox')
+        .update({ status: result, sent_at: result === 'sent' ? new Date().toISOString() : null, last_error: null })
+        .eq('id', item.id)
+
+    } catch (sendError) {
+      console.error('Error sending queued email:', sendError)
+      counts.failed++
+
+      const giveUp = item.attempts >= OUTBOX_CONFIG.maxAttempts
+      await admin
+        .from('mail_outbox')
+        .update({
+          status: giveUp ? 'failed' : 'pending',
+          last_error: sendError instanceof Error ? sendError.message : String(sendError),
+          send_after: new Date(Date.now() + item.attempts * OUTBOX_CONFIG.retryMinutes * 60 * 1000).toISOString()
+        })
+        .eq('id', item.id)
+    }
+  }
+
+  return counts
+}
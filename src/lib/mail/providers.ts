@@ -0,0 +1,177 @@
+// src/lib/mail/providers.ts - Delivers email (server only)
+// The provider is picked with MAIL_PROVIDER:
+//   smtp     (default) speaks plain SMTP to SMTP_HOST:SMTP_PORT (default localhost:1025),
+//            which is where local mail catchers such as Mailpit or MailHog listen. There is
+//            no TLS or AUTH, so point it at a catcher or a relay on a trusted network.
+//   console  logs each message to the server console instead of sending it
+// MAIL_FROM sets the sender (default no-reply@localhost).
+//
+// Other providers only need to implement MailProvider and be added to PROVIDERS.
+import { connect, type Socket } from 'net'
+import { randomUUID } from 'crypto'
+import { hostname } from 'os'
+
+export interface MailMessage {
+  to: string
+  subject: string
+  text: string
+  headers?: Record<string, string> // Extra headers such as List-Unsubscribe
+}
+
+export interface MailProvider {
+  send(message: MailMessage): Promise<void>
+}
+
+const SMTP_TIMEOUT_MS = 10000
+
+const getMailFrom = () => process.env.MAIL_FROM || 'no-reply@localhost'
+
+// Header values must stay on one line
+const headerSafe = (value: string) => value.replace(/[\r\n]+/g, ' ').trim()
+
+const isValidAddress = (address: string) => /^[^\s<>@]+@[^\s<>@]+$/.test(address)
+
+const consoleProvider: MailProvider = {
+  async send(message) {
+    console.log(`[mail] to ${message.to}: ${message.subject}\n${message.text}`)
+  }
+}
+
+/**
+ * Resolves one complete SMTP reply at a time, joining multi-line replies
+ * ("250-first", "250 last")
+ */
+function createReplyReader(socket: Socket) {
+  let buffer = ''
+  let failure: Error | null = null
+  let waiting: { resolve: (reply: string) => void; reject: (error: Error) => void } | null = null
+  const replies: string[] = []
+
+  const settle = () => {
+    let match = buffer.match(/^(?:\d{3}-[^\r\n]*\r\n)*\d{3}(?: [^\r\n]*)?\r\n/)
+    while (match) {
+      replies.push(match[0])
+      buffer = buffer.slice(match[0].length)
+      match = buffer.match(/^(?:\d{3}-[^\r\n]*\r\n)*\d{3}(?: [^\r\n]*)?\r\n/)
+    }
+
+    if (!waiting) return
+
+    const current = waiting
+    if (replies.length > 0) {
+      waiting = null
+      current.resolve(replies.shift()!)
+    } else if (failure) {
+      waiting = null
+      current.reject(failure)
+    }
+  }
+
+  socket.on('data', chunk => {
+    buffer += chunk.toString()
+    settle()
+  })
+  socket.on('timeout', () => {
+    failure = new Error('SMTP server timed out')
+    socket.destroy()
+  })
+  socket.on('error', error => {
+    failure = failure || error
+    settle()
+  })
+  socket.on('close', () => {
+    failure = failure || new Error('SMTP connection closed')
+    settle()
+  })
+
+  return () => new Promise<string>((resolve, reject) => {
+    waiting = { resolve, reject }
+    settle()
+  })
+}
+
+/**
+ * RFC 5322 message with a UTF-8 body. Base64 keeps long lines and leading dots
+ * out of the DATA stream.
+ */
+function formatMessage(from: string, message: MailMessage): string {
+  const subject = /^[\x20-\x7e]*$/.test(message.subject)
+    ? headerSafe(message.subject)
+    : `=?UTF-8?B?${Buffer.from(headerSafe(message.subject)).toString('base64')}?=`
+
+  const body = Buffer.from(message.text.replace(/\r?\n/g, '\r\n'))
+    .toString('base64')
+    .replace(/.{1,76}/g, '$&\r\n')
+
+  return [
+    `From: ${from}`,
+    `To: ${message.to}`,
+    `Subject: ${subject}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${from.split('@')[1]}>`,
+    ...Object.entries(message.headers || {}).map(([name, value]) => `${headerSafe(name)}: ${headerSafe(value)}`),
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    body
+  ].join('\r\n')
+}
+
+const smtpProvider: MailProvider = {
+  async send(message) {
+    const from = getMailFrom()
+    const to = headerSafe(message.to)
+
+    if (!isValidAddress(from) || !isValidAddress(to)) {
+      throw new Error(`Invalid email address "${isValidAddress(from) ? to : from}"`)
+    }
+
+    const socket = connect({
+      host: process.env.SMTP_HOST || 'localhost',
+      port: Number(process.env.SMTP_PORT || 1025)
+    })
+    socket.setTimeout(SMTP_TIMEOUT_MS)
+
+    const readReply = createReplyReader(socket)
+
+    const expect = async (step: string, code: number, line?: string) => {
+      if (line !== undefined) {
+        socket.write(`${line}\r\n`)
+      }
+
+      const reply = await readReply()
+      if (!reply.startsWith(String(code))) {
+        throw new Error(`SMTP ${step} failed: ${reply.trim()}`)
+      }
+    }
+
+    try {
+      await expect('greeting', 220)
+      await expect('EHLO', 250, `EHLO ${hostname() || 'localhost'}`)
+      await expect('MAIL FROM', 250, `MAIL FROM:<${from}>`)
+      await expect('RCPT TO', 250, `RCPT TO:<${to}>`)
+      await expect('DATA', 354, 'DATA')
+      await expect('message', 250, `${formatMessage(from, { ...message, to })}\r\n.`)
+      await expect('QUIT', 221, 'QUIT')
+    } finally {
+      socket.end()
+    }
+  }
+}
+
+const PROVIDERS: Record<string, MailProvider> = {
+  console: consoleProvider,
+  smtp: smtpProvider
+}
+
+export function getMailProvider(): MailProvider {
+  const name = process.env.MAIL_PROVIDER || 'smtp'
+  const provider = PROVIDERS[name]
+
+  if (!provider) {
+    throw new Error(`Unknown MAIL_PROVIDER "${name}"`)
+  }
+
+  return provider
+}
@@ -0,0 +1,254 @@
+// src/lib/mail/templates.ts - Subjects and bodies for every email we send
+// Outbox rows store a template key and its data; the migration's triggers build
+// the same data shapes in SQL, so keep the two in step when adding fields.
+import type { EmailCategory } from '../services/notifications'
+import { STATUS_REASON_TEMPLATES, type StatusReasonCode } from '../status-reasons'
+import { APP_CONSTANTS, formatRating } from '../utils'
+
+interface ListingDecisionData {
+  business_id: string
+  business_name: string
+  business_slug: string
+  reason_code: StatusReasonCode | null
+  reason_note: string | null
+}
+
+export interface DigestBusinessSummary {
+  business_name: string
+  business_slug: string
+  new_reviews: number
+  average_rating: number
+  previous_average_rating: number
+}
+
+export interface MailTemplateData {
+  welcome: Record<string, never>
+  listing_submitted: {
+    business_id: string
+    business_name: string
+  }
+  listing_approved: ListingDecisionData
+  listing_rejected: ListingDecisionData
+  listing_suspended: ListingDecisionData
+  new_review: {
+    business_id: string
+    business_name: string
+    business_slug: string
+    rating: number
+    review_title: string | null
+    review_excerpt: string | null
+  }
+  review_reply: {
+    business_name: string
+    business_slug: string
+    reply_excerpt: string
+  }
+  claim_result: {
+    business_id: string
+    business_name: string
+    business_slug: string
+    approved: boolean
+    review_note: string | null
+  }
+  weekly_digest: {
+    week_start: string
+    week_end: string
+    total_reviews: number
+    new_reviews: number
+    average_rating: number
+    previous_average_rating: number
+    businesses: DigestBusinessSummary[]
+  }
+}
+
+export type MailTemplate = keyof MailTemplateData
+
+export interface MailRecipient {
+  name: string | null
+}
+
+export interface RenderedMail {
+  subject: string
+  text: string
+}
+
+interface MailTemplateDefinition<T extends MailTemplate> {
+  category: EmailCategory | null // null means the email can't be turned off
+  render(data: MailTemplateData[T], recipient: MailRecipient): RenderedMail
+}
+
+const greet = (recipient: MailRecipient) => `Hello${recipient.name ? ` ${recipient.name}` : ''},`
+
+const businessUrl = (slug: string) => `${APP_CONSTANTS.SITE_URL}/business/${slug}`
+
+const editUrl = (businessId: string) => `${APP_CONSTANTS.SITE_URL}/dashboard/business/edit/${businessId}`
+
+const formatReason = (data: ListingDecisionData) => {
+  const template = data.reason_code ? STATUS_REASON_TEMPLATES[data.reason_code] : null
+
+  return [
+    template && `Reason: ${template.label}. ${template.message}`,
+    data.reason_note && `Note from our team: ${data.reason_note}`
+  ].filter(Boolean).join('\n\n')
+}
+
+const formatDigestDate = (date: string) =>
+  new Date(date).toLocaleDateString('en-IN', { day: 'numeric', month: 'short', timeZone: APP_CONSTANTS.TIMEZONE })
+
+/**
+ * "4.3 (up 0.2)", or just the rating when there's nothing to compare with
+ */
+export function formatRatingChange(current: number, previous: number): string {
+  if (current === 0) return 'no ratings yet'
+  if (previous === 0) return formatRating(current)
+
+  const change = Math.round((current - previous) * 10) / 10
+  if (change === 0) return `${formatRating(current)} (unchanged)`
+
+  return `${formatRating(current)} (${change > 0 ? 'up' : 'down'} ${formatRating(Math.abs(change))})`
+}
+
+export const MAIL_TEMPLATES: { [T in MailTemplate]: MailTemplateDefinition<T> } = {
+  welcome: {
+    category: null,
+    render: (_data, recipient) => ({
+      subject: 'Welcome to Chittor Darpan',
+      text: [
+        greet(recipient),
+        `Thanks for joining Chittor Darpan, the local guide to ${APP_CONSTANTS.DEFAULT_CITY_NAME} and nearby towns.`,
+        'Find businesses and places to visit, leave reviews, or list your own business for free:',
+        APP_CONSTANTS.SITE_URL
+      ].join('\n\n')
+    })
+  },
+
+  listing_submitted: {
+    category: 'listing_updates',
+    render: (data, recipient) => ({
+      subject: `We received ${data.business_name}`,
+      text: [
+        greet(recipient),
+        `Thanks for adding ${data.business_name}. Our team reviews new listings within a couple of days, and we'll email you as soon as it's decided.`,
+        `You can keep editing the listing while you wait:\n${editUrl(data.business_id)}`
+      ].join('\n\n')
+    })
+  },
+
+  listing_approved: {
+    category: 'listing_updates',
+    render: (data, recipient) => ({
+      subject: `${data.business_name} is now live`,
+      text: [
+        greet(recipient),
+        `Good news: ${data.business_name} has been approved and is now visible in the directory.`,
+        businessUrl(data.business_slug)
+      ].join('\n\n')
+    })
+  },
+
+  listing_rejected: {
+    category: 'listing_updates',
+    render: (data, recipient) => ({
+      subject: `${data.business_name} needs changes before it can go live`,
+      text: [
+        greet(recipient),
+        `We couldn't approve ${data.business_name} yet.`,
+        formatReason(data),
+        `Fix the listing and save it to send it back for review:\n${editUrl(data.business_id)}`
+      ].filter(Boolean).join('\n\n')
+    })
+  },
+
+  listing_suspended: {
+    category: 'listing_updates',
+    render: (data, recipient) => ({
+      subject: `${data.business_name} has been suspended`,
+      text: [
+        greet(recipient),
+        `${data.business_name} has been hidden from the directory for now.`,
+        formatReason(data),
+        `Once the listing is fixed, save it to send it back for review:\n${editUrl(data.business_id)}`
+      ].filter(Boolean).join('\n\n')
+    })
+  },
+
+  new_review: {
+    category: 'new_reviews',
+    render: (data, recipient) => ({
+      subject: `New ${data.rating}-star review for ${data.business_name}`,
+      text: [
+        greet(recipient),
+        `${data.business_name} has a new ${data.rating}-star review.`,
+        [data.review_title, data.review_excerpt].filter(Boolean).join('\n'),
+        `Read it and reply:\n${businessUrl(data.business_slug)}`
+      ].filter(Boolean).join('\n\n')
+    })
+  },
+
+  review_reply: {
+    category: 'review_replies',
+    render: (data, recipient) => ({
+      subject: `${data.business_name} replied to your review`,
+      text: [
+        greet(recipient),
+        `${data.business_name} replied to your review:`,
+        data.reply_excerpt,
+        businessUrl(data.business_slug)
+      ].join('\n\n')
+    })
+  },
+
+  claim_result: {
+    category: 'listing_updates',
+    render: (data, recipient) => data.approved
+      ? {
+          subject: `Your claim for ${data.business_name} was approved`,
+          text: [
+            greet(recipient),
+            `You now own ${data.business_name} on Chittor Darpan and can edit the listing, reply to reviews and invite your team.`,
+            editUrl(data.business_id)
+          ].join('\n\n')
+        }
+      : {
+          subject: `Your claim for ${data.business_name} was not approved`,
+          text: [
+            greet(recipient),
+            `We couldn't confirm that you own ${data.business_name}.`,
+            data.review_note && `Note from our team: ${data.review_note}`,
+            `You can start a new claim from the listing:\n${businessUrl(data.business_slug)}`
+          ].filter(Boolean).join('\n\n')
+        }
+  },
+
+  weekly_digest: {
+    category: 'weekly_digest',
+    render: (data, recipient) => ({
+      subject: data.new_reviews === 1
+        ? 'Your week on Chittor Darpan: 1 new review'
+        : `Your week on Chittor Darpan: ${data.new_reviews} new reviews`,
+      text: [
+        greet(recipient),
+        `Here's how your businesses did from ${formatDigestDate(data.week_start)} to ${formatDigestDate(data.week_end)}.`,
+        [
+          `New reviews: ${data.new_reviews}`,
+          `Total reviews: ${data.total_reviews}`,
+          `Average rating: ${formatRatingChange(data.average_rating, data.previous_average_rating)}`
+        ].join('\n'),
+        data.businesses.map(business => [
+          business.business_name,
+          `  ${business.new_reviews} new, rated ${formatRatingChange(business.average_rating, business.previous_average_rating)}`,
+          `  ${businessUrl(business.business_slug)}`
+        ].join('\n')).join('\n\n'),
+        `See everything in your dashboard:\n${APP_CONSTANTS.SITE_URL}/dashboard/business`
+      ].filter(Boolean).join('\n\n')
+    })
+  }
+}
+
+export function renderMailTemplate<T extends MailTemplate>(
+  template: T,
+  data: MailTemplateData[T],
+  recipient: MailRecipient
+): RenderedMail {
+  return MAIL_TEMPLATES[template].render(data, recipient)
+}
@@ -0,0 +1,46 @@
+// src/lib/mail/unsubscribe.ts - Signed one-click unsubscribe links (server only)
+// Tokens are signed with MAIL_UNSUBSCRIBE_SECRET, falling back to the service role key.
+// They don't expire, since old emails must keep working.
+import { createHmac, timingSafeEqual } from 'crypto'
+import type { EmailCategory } from '../services/notifications'
+import { APP_CONSTANTS } from '../utils'
+
+export type UnsubscribeCategory = EmailCategory | 'all'
+
+const CATEGORIES: UnsubscribeCategory[] = ['listing_updates', 'new_reviews', 'review_replies', 'weekly_digest', 'all']
+
+function sign(payload: string): string {
+  const secret = process.env.MAIL_UNSUBSCRIBE_SECRET || process.env.SUPABASE_SERVICE_ROLE_KEY
+  if (!secret) {
+    throw new Error('Missing MAIL_UNSUBSCRIBE_SECRET or SUPABASE_SERVICE_ROLE_KEY environment variable')
+  }
+
+  return createHmac('sha256', secret).update(payload).digest('base64url')
+}
+
+export function createUnsubscribeToken(userId: string, category: UnsubscribeCategory): string {
+  const payload = `${userId}.${category}`
+  return `${payload}.${sign(payload)}`
+}
+
+/**
+ * The user and category a token unsubscribes, or null if it was tampered with
+ */
+export function readUnsubscribeToken(token: string): { userId: string; category: UnsubscribeCategory } | null {
+  const [userId, category, signature] = token.split('.')
+  if (!userId || !signature || !CATEGORIES.includes(category as UnsubscribeCategory)) {
+    return null
+  }
+
+  const expected = Buffer.from(sign(`${userId}.${category}`))
+  const actual = Buffer.from(signature)
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null
+  }
+
+  return { userId, category: category as UnsubscribeCategory }
+}
+
+export function getUnsubscribeUrl(token: string): string {
+  return `${APP_CONSTANTS.SITE_URL}/unsubscribe?token=${encodeURIComponent(token)}`
+}
@@ -0,0 +1,49 @@
+// src/lib/map.ts - Map tiles and defaults
+// Tiles are configurable so deployments can point at their own tile server:
+//   NEXT_PUBLIC_MAP_TILE_URL          e.g. http://tiles.local/{z}/{x}/{y}.png
+//   NEXT_PUBLIC_MAP_TILE_ATTRIBUTION  HTML shown in the map corner
+//   NEXT_PUBLIC_MAP_MAX_ZOOM          highest zoom the tile server renders
+import { APP_CONSTANTS } from './utils'
+import type { GeoPoint } from './services/geo'
+
+export interface MapMarker extends GeoPoint {
+  id: string
+  title: string
+  subtitle?: string | null
+  url?: string
+}
+
+export const MAP_CONFIG = {
+  tileUrl: process.env.NEXT_PUBLIC_MAP_TILE_URL || 'https://tile.openstreetmap.org/{z}/{x}/{y}.png',
+  attribution: process.env.NEXT_PUBLIC_MAP_TILE_ATTRIBUTION
+    || '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors',
+  maxZoom: Number(process.env.NEXT_PUBLIC_MAP_MAX_ZOOM) || 19,
+  defaultCenter: {
+    latitude: APP_CONSTANTS.DEFAULT_COORDINATES.lat,
+    longitude: APP_CONSTANTS.DEFAULT_COORDINATES.lng
+  } as GeoPoint,
+  defaultZoom: 13,
+  pinZoom: 16
+}
+
+/**
+ * Where a city's maps open; cities without coordinates use the default
+ */
+export function getCityCenter(city?: { latitude?: number | null; longitude?: number | null } | null): GeoPoint {
+  return city?.latitude != null && city?.longitude != null
+    ? { latitude: city.latitude, longitude: city.longitude }
+    : MAP_CONFIG.defaultCenter
+}
+
+/**
+ * Markers for anything with coordinates; unpinned items are skipped
+ */
+export function toMapMarkers<T extends { id: string; name: string; latitude: number | null; longitude: number | null }>(
+  items: T[],
+  getDetails: (item: T) => { subtitle?: string | null; url: string }
+): MapMarker[] {
+  return items.flatMap(item => item.latitude !== null && item.longitude !== null
+    ? [{ id: item.id, title: item.name, latitude: item.latitude, longitude: item.longitude, ...getDetails(item) }]
+    : []
+  )
+}
@@ -0,0 +1,76 @@
+// src/lib/otp-sender.ts - Delivers one-time codes by email or SMS (server only)
+// The sender is picked with OTP_SENDER:
+//   console  logs the code to the server console; local development only, and
+//            the default there
+//   webhook  POSTs { channel, to, code, subject, text } as JSON to OTP_WEBHOOK_URL,
+//            so any SMS/email provider can sit behind a small relay
+//
+// Production refuses to send until a real sender is configured, so live codes
+// never end up in logs. Other senders only need to implement OtpSender and be
+// added to SENDERS.
+
+export type OtpChannel = 'email' | 'phone'
+
+export interface OtpMessage {
+  channel: OtpChannel
+  to: string
+  code: string
+  subject: string
+  text: string
+}
+
+export interface OtpSender {
+  send(message: OtpMessage): Promise<void>
+}
+
+const consoleSender: OtpSender = {
+  async send(message) {
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error('The console OTP sender is for development only')
+    }
+
+    console.log(`[otp] ${message.channel} to ${message.to}: ${message.text}`)
+  }
+}
+
+const webhookSender: OtpSender = {
+  async send(message) {
+    const url = process.env.OTP_WEBHOOK_URL
+    if (!url) {
+      throw new Error('OTP_WEBHOOK_URL is not set')
+    }
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(process.env.OTP_WEBHOOK_SECRET && { Authorization: `Bearer ${process.env.OTP_WEBHOOK_SECRET}` })
+      },
+      body: JSON.stringify(message)
+    })
+
+    if (!response.ok) {
+      throw new Error(`OTP webhook responded with ${response.status}`)
+    }
+  }
+}
+
+const SENDERS: Record<string, OtpSender> = {
+  console: consoleSender,
+  webhook: webhookSender
+}
+
+export function getOtpSender(): OtpSender {
+  const name = process.env.OTP_SENDER || (process.env.NODE_ENV === 'production' ? null : 'console')
+  if (!name) {
+    throw new Error('OTP_SENDER is not set')
+  }
+
+  const sender = SENDERS[name]
+
+  if (!sender) {
+    throw new Error(`Unknown OTP_SENDER "${name}"`)
+  }
+
+  return sender
+}
@@ -0,0 +1,383 @@
+// src/lib/services/analytics.ts - Visitor activity on listings, owner analytics and site-wide admin analytics
+import { supabase } from '../supabase'
+
+export type BusinessEventType =
+  | 'profile_view'
+  | 'call_tap'
+  | 'whatsapp_tap'
+  | 'email_tap'
+  | 'directions_click'
+  | 'website_click'
+  | 'search_impression'
+
+export interface BusinessEventOption {
+  value: BusinessEventType
+  label: string
+  description: string
+}
+
+export const BUSINESS_EVENT_OPTIONS: BusinessEventOption[] = [
+  { value: 'profile_view', label: 'Profile views', description: 'Visits to your listing page' },
+  { value: 'search_impression', label: 'Search appearances', description: 'Times your listing showed up in search results' },
+  { value: 'call_tap', label: 'Calls', description: 'Taps on Call Now' },
+  { value: 'whatsapp_tap', label: 'WhatsApp', description: 'Taps on WhatsApp' },
+  { value: 'email_tap', label: 'Emails', description: 'Taps on Email' },
+  { value: 'directions_click', label: 'Directions', description: 'Requests for directions' },
+  { value: 'website_click', label: 'Website visits', description: 'Clicks through to your website' }
+]
+
+export interface AnalyticsPoint {
+  day: string
+  count: number
+  peerAverage: number | null // Null when there are too few similar businesses to compare with
+}
+
+export interface BusinessAnalytics {
+  days: string[]
+  series: Record<BusinessEventType, AnalyticsPoint[]>
+  totals: Record<BusinessEventType, number>
+  peerTotals: Record<BusinessEventType, number> | null
+  peerCount: number
+  categoryName: string | null
+  areaName: string | null
+}
+
+export interface DateRange {
+  from: string // YYYY-MM-DD, inclusive, in the app timezone
+  to: string
+}
+
+export interface AdminDailyActivity {
+  day: string
+  signups: number
+  listings_submitted: number
+  listings_approved: number
+  listings_rejected: number
+  avg_turnaround_hours: number | null // Null on days without decisions
+  reviews: number // Business and tourism reviews
+  searches: number
+  zero_result_searches: number
+}
+
+export interface ApprovalTurnaround {
+  decisions: number
+  average_hours: number | null
+  median_hours: number | null
+  p90_hours: number | null
+}
+
+export interface TopSearch {
+  query: string
+  searches: number
+  zero_result_searches: number
+}
+
+export interface TopViewedPage {
+  entity_type: 'business' | 'tourism'
+  entity_id: string
+  name: string
+  slug: string
+  views: number
+}
+
+export interface CoverageGap {
+  area_id: string
+  area_name: string
+  city_name: string | null
+  category_id: string
+  category_name: string
+  city_listings: number // Published listings in this category across all areas
+  searches: number // Searches mentioning the category during the period
+}
+
+const toNumberOrNull = (value: number | string | null) => value === null ? null : Number(value)
+
+const ANALYTICS_SESSION_KEY = 'chittor-darpan-analytics-session'
+
+/**
+ * Per-tab id the server uses to count repeat taps once
+ */
+function getAnalyticsSessionId(): string | null {
+  if (typeof window === 'undefined') return null
+
+  let sessionId = window.sessionStorage.getItem(ANALYTICS_SESSION_KEY)
+  if (!sessionId) {
+    sessionId = crypto.randomUUID()
+    window.sessionStorage.setItem(ANALYTICS_SESSION_KEY, sessionId)
+  }
+  return sessionId
+}
+
+// Analytics Service
+export const analyticsService = {
+  /**
+   * Record visitor activity on one or more listings. Tracking never blocks
+   * the page, so failures are only logged.
+   */
+  async trackEvents(events: { businessId: string; type: BusinessEventType }[]): Promise<{ success: boolean; error: unknown }> {
+    try {
+      const sessionId = getAnalyticsSessionId()
+      if (!sessionId || events.length === 0) {
+        return { success: true, error: null }
+      }
+
+      const { error } = await supabase.rpc('track_business_events', {
+        p_session_id: sessionId,
+        p_events: events.slice(0, 50).map(event => ({ business_id: event.businessId, event_type: event.type }))
+      })
+
+      if (error) {
+        console.error('Error tracking business events:', error)
+        return { success: false, error }
+      }
+
+      return { success: true, error: null }
+
+    } catch (error) {
+      console.error('Unexpected error in trackEvents:', error)
+      return { success: false, error }
+    }
+  },
+
+  /**
+   * Record a single event on one listing
+   */
+  async trackEvent(businessId: string, type: BusinessEventType): Promise<{ success: boolean; error: unknown }> {
+    return this.trackEvents([{ businessId, type }])
+  },
+
+  /**
+   * Record a visit to a tourism place page, counted once per tab every 30 minutes
+   */
+  async trackTourismPlaceView(tourismPlaceId: string): Promise<{ success: boolean; error: unknown }> {
+    try {
+      const sessionId = getAnalyticsSessionId()
+      if (!sessionId) {
+        return { success: true, error: null }
+      }
+
+      const { error } = await supabase.rpc('track_tourism_place_view', {
+        p_session_id: sessionId,
+        p_tourism_place_id: tourismPlaceId
+      })
+
+      if (error) {
+        console.error('Error tracking tourism place view:', error)
+        return { success: false, error }
+      }
+
+      return { success: true, error: null }
+
+    } catch (error) {
+      console.error('Unexpected error in trackTourismPlaceView:', error)
+      return { success: false, error }
+    }
+  },
+
+  /**
+   * Daily activity for a listing over the last few days, with the average of
+   * similar businesses in the same category and area (team members and admins)
+   */
+  async getBusinessAnalytics(businessId: string, days: number = 30): Promise<{ data: BusinessAnalytics | null; error: unknown }> {
+    try {
+      const { data, error } = await supabase.rpc('get_business_analytics', {
+        p_business_id: businessId,
+        p_days: days
+      })
+
+      if (error) {
+        console.error('Error fetching business analytics:', error)
+        return { data: null, error }
+      }
+
+      const rows: {
+        day: string
+        event_type: BusinessEventType
+        event_count: number
+        peer_average: number | null
+        peer_count: number
+        category_name: string | null
+        area_name: string | null
+      }[] = data || []
+
+      const emptyTotals = () => Object.fromEntries(
+        BUSINESS_EVENT_OPTIONS.map(option => [option.value, 0])
+      ) as Record<BusinessEventType, number>
+
+      const series = Object.fromEntries(
+        BUSINESS_EVENT_OPTIONS.map(option => [option.value, [] as AnalyticsPoint[]])
+      ) as Record<BusinessEventType, AnalyticsPoint[]>
+      const totals = emptyTotals()
+      const peerTotals = emptyTotals()
+      const dayList: string[] = []
+
+      for (const row of rows) {
+        if (!series[row.event_type]) continue
+
+        if (dayList[dayList.length - 1] !== row.day) {
+          dayList.push(row.day)
+        }
+
+        const peerAverage = row.peer_average === null ? null : Number(row.peer_average)
+        series[row.event_type].push({ day: row.day, count: row.event_count, peerAverage })
+        totals[row.event_type] += row.event_count
+        peerTotals[row.event_type] += peerAverage || 0
+      }
+
+      const hasPeers = rows.some(row => row.peer_average !== null)
+
+      return {
+        data: {
+          days: dayList,
+          series,
+          totals,
+          peerTotals: hasPeers ? peerTotals : null,
+          peerCount: rows[0]?.peer_count || 0,
+          categoryName: rows[0]?.category_name || null,
+          areaName: rows[0]?.area_name || null
+        },
+        error: null
+      }
+
+    } catch (error) {
+      console.error('Unexpected error in getBusinessAnalytics:', error)
+      return { data: null, error }
+    }
+  },
+
+  /**
+   * Signups, listing submissions and decisions, reviews and searches per day,
+   * with every day in the range present (admin only)
+   */
+  async getAdminDailyActivity(range: DateRange): Promise<{ data: AdminDailyActivity[] | null; error: unknown }> {
+    try {
+      const { data, error } = await supabase.rpc('admin_daily_activity', {
+        p_from: range.from,
+        p_to: range.to
+      })
+
+      if (error) {
+        console.error('Error fetching daily activity:', error)
+        return { data: null, error }
+      }
+
+      const rows = (data || []) as AdminDailyActivity[]
+      return {
+        data: rows.map(row => ({ ...row, avg_turnaround_hours: toNumberOrNull(row.avg_turnaround_hours) })),
+        error: null
+      }
+
+    } catch (error) {
+      console.error('Unexpected error in getAdminDailyActivity:', error)
+      return { data: null, error }
+    }
+  },
+
+  /**
+   * How long pending listings waited for approval or rejection, for decisions
+   * made in the range (admin only)
+   */
+  async getApprovalTurnaround(range: DateRange): Promise<{ data: ApprovalTurnaround | null; error: unknown }> {
+    try {
+      const { data, error } = await supabase.rpc('admin_approval_turnaround', {
+        p_from: range.from,
+        p_to: range.to
+      })
+
+      if (error) {
+        console.error('Error fetching approval turnaround:', error)
+        return { data: null, error }
+      }
+
+      const row = (data || [])[0] as ApprovalTurnaround | undefined
+      return {
+        data: {
+          decisions: row?.decisions || 0,
+          average_hours: toNumberOrNull(row?.average_hours ?? null),
+          median_hours: toNumberOrNull(row?.median_hours ?? null),
+          p90_hours: toNumberOrNull(row?.p90_hours ?? null)
+        },
+        error: null
+      }
+
+    } catch (error) {
+      console.error('Unexpected error in getApprovalTurnaround:', error)
+      return { data: null, error }
+    }
+  },
+
+  /**
+   * Most searched terms in the range and how often each found nothing (admin only)
+   */
+  async getTopSearches(range: DateRange, limit: number = 20): Promise<{ data: TopSearch[] | null; error: unknown }> {
+    try {
+      const { data, error } = await supabase.rpc('admin_top_searches', {
+        p_from: range.from,
+        p_to: range.to,
+        p_limit: limit
+      })
+
+      if (error) {
+        console.error('Error fetching top searches:', error)
+        return { data: null, error }
+      }
+
+      return { data: (data || []) as TopSearch[], error: null }
+
+    } catch (error) {
+      console.error('Unexpected error in getTopSearches:', error)
+      return { data: null, error }
+    }
+  },
+
+  /**
+   * Most viewed businesses and tourism places in the range, up to `limit` of
+   * each (admin only). Counts come from the hourly rollup.
+   */
+  async getTopViewed(range: DateRange, limit: number = 10): Promise<{ data: TopViewedPage[] | null; error: unknown }> {
+    try {
+      const { data, error } = await supabase.rpc('admin_top_viewed', {
+        p_from: range.from,
+        p_to: range.to,
+        p_limit: limit
+      })
+
+      if (error) {
+        console.error('Error fetching most viewed pages:', error)
+        return { data: null, error }
+      }
+
+      return { data: (data || []) as TopViewedPage[], error: null }
+
+    } catch (error) {
+      console.error('Unexpected error in getTopViewed:', error)
+      return { data: null, error }
+    }
+  },
+
+  /**
+   * Areas with no published listing in an active category that is listed
+   * elsewhere or that people searched for in the range, most in demand first.
+   * Searches count from at most the last 90 days of the range (admin only)
+   */
+  async getCoverageGaps(range: DateRange, limit: number = 50): Promise<{ data: CoverageGap[] | null; error: unknown }> {
+    try {
+      const { data, error } = await supabase.rpc('admin_coverage_gaps', {
+        p_from: range.from,
+        p_to: range.to,
+        p_limit: limit
+      })
+
+      if (error) {
+        console.error('Error fetching coverage gaps:', error)
+        return { data: null, error }
+      }
+
+      return { data: (data || []) as CoverageGap[], error: null }
+
+    } catch (error) {
+      console.error('Unexpected error in getCoverageGaps:', error)
+      return { data: null, error }
+    }
+  }
+}
@@ -0,0 +1,191 @@
+// src/lib/services/audit.ts - Append-only log of admin and owner actions
+import { supabase } from '../supabase'
+import { formatStatusReason } from '../status-reasons'
+
+export type AuditEntityType = 'business' | 'tourism_place' | 'user' | 'category'
+export type AuditAction =
+  | 'business.status_changed'
+  | 'business.deleted'
+  | 'tourism_place.status_changed'
+  | 'tourism_place.deleted'
+  | 'tourism_place.image_deleted'
+  | 'user.role_changed'
+  | 'category.created'
+  | 'category.updated'
+  | 'category.merged'
+  | 'category.deactivated'
+  | 'category.reactivated'
+
+export type AuditChanges = Record<string, { from: unknown; to: unknown }>
+
+export interface AuditEvent {
+  id: string
+  actor_id: string | null
+  actor_role: string | null
+  actor_name: string | null
+  action: AuditAction
+  entity_type: AuditEntityType
+  entity_id: string
+  entity_label: string | null
+  changes: AuditChanges
+  reason: string | null
+  context: Record<string, unknown>
+  created_at: string
+}
+
+interface AuditEventRow extends Omit<AuditEvent, 'actor_name' | 'changes' | 'context'> {
+  changes: AuditChanges | null
+  context: { reason_code?: string } | null
+  profiles: { full_name: string | null } | null
+}
+
+export interface AuditFilters {
+  entityType?: AuditEntityType | 'all'
+  action?: AuditAction | 'all'
+  actorSearch?: string // Actor name or email
+  from?: string // YYYY-MM-DD, inclusive
+  to?: string // YYYY-MM-DD, inclusive
+}
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  'business.status_changed': 'Business status changed',
+  'business.deleted': 'Business deleted',
+  'tourism_place.status_changed': 'Place status changed',
+  'tourism_place.deleted': 'Place deleted',
+  'tourism_place.image_deleted': 'Place image deleted',
+  'user.role_changed': 'User role changed',
+  'category.created': 'Category created',
+  'category.updated': 'Category updated',
+  'category.merged': 'Category merged',
+  'category.deactivated': 'Category deactivated',
+  'category.reactivated': 'Category reactivated'
+}
+
+export const AUDIT_ENTITY_LABELS: Record<AuditEntityType, string> = {
+  business: 'Business',
+  tourism_place: 'Tourism place',
+  user: 'User',
+  category: 'Category'
+}
+
+// Audit Service. Events are written by database triggers as changes happen;
+// the app only reads them.
+export const auditService = {
+  /**
+   * Events for the admin log, newest first
+   */
+  async getEvents(
+    filters: AuditFilters = {},
+    limit: number = 50,
+    offset: number = 0
+  ): Promise<{ data: AuditEvent[] | null; hasMore: boolean; error: unknown }> {
+    try {
+      // Resolve the actor search to ids first, the way the review queue does for names
+      let actorIds: string[] | null = null
+      if (filters.actorSearch?.trim()) {
+        const term = filters.actorSearch.trim().replace(/[,()]/g, ' ') // Reserved in PostgREST or-filters
+        const { data: profiles, error: profileError } = await supabase
+          .from('profiles')
+          .select('id')
+          .or(`full_name.ilike.%${term}%,email.ilike.%${term}%`)
+          .limit(50)
+
+        if (profileError) {
+          console.error('Error searching audit actors:', profileError)
+          return { data: null, hasMore: false, error: profileError }
+        }
+
+        actorIds = (profiles || []).map(profile => profile.id)
+        if (actorIds.length === 0) {
+          return { data: [], hasMore: false, error: null }
+        }
+      }
+
+      let query = supabase
+        .from('audit_events')
+        .select('*, profiles:actor_id(full_name)')
+        .order('created_at', { ascending: false })
+        .range(offset, offset + limit) // One extra row tells us whether there is another page
+
+      if (filters.entityType && filters.entityType !== 'all') {
+        query = query.eq('entity_type', filters.entityType)
+      }
+      if (filters.action && filters.action !== 'all') {
+        query = query.eq('action', filters.action)
+      }
+      if (actorIds) {
+        query = query.in('actor_id', actorIds)
+      }
+      if (filters.from) {
+        query = query.gte('created_at', `${filters.from}T00:00:00`)
+      }
+      if (filters.to) {
+        query = query.lte('created_at', `${filters.to}T23:59:59.999`)
+      }
+
+      const { data, error } = await query.overrideTypes<AuditEventRow[], { merge: false }>()
+
+      if (error) {
+        console.error('Error fetching audit events:', error)
+        return { data: null, hasMore: false, error }
+      }
+
+      const events = (data || []).map(toAuditEvent)
+
+      return { data: events.slice(0, limit), hasMore: events.length > limit, error: null }
+
+    } catch (error) {
+      console.error('Unexpected error in getEvents:', error)
+      return { data: null, hasMore: false, error }
+    }
+  },
+
+  /**
+   * Everything recorded against one entity, newest first
+   */
+  async getEntityHistory(
+    entityType: AuditEntityType,
+    entityId: string,
+    limit: number = 50
+  ): Promise<{ data: AuditEvent[] | null; error: unknown }> {
+    try {
+      const { data, error } = await supabase
+        .from('audit_events')
+        .select('*, profiles:actor_id(full_name)')
+        .eq('entity_type', entityType)
+        .eq('entity_id', entityId)
+        .order('created_at', { ascending: false })
+        .limit(limit)
+        .overrideTypes<AuditEventRow[], { merge: false }>()
+
+      if (error) {
+        console.error('Error fetching entity history:', error)
+        return { data: null, error }
+      }
+
+      return { data: (data || []).map(toAuditEvent), error: null }
+
+    } catch (error) {
+      console.error('Unexpected error in getEntityHistory:', error)
+      return { data: null, error }
+    }
+  }
+}
+
+function toAuditEvent(item: AuditEventRow): AuditEvent {
+  return {
+    id: item.id,
+    actor_id: item.actor_id,
+    actor_role: item.actor_role,
+    actor_name: item.profiles?.full_name || null,
+    action: item.action,
+    entity_type: item.entity_type,
+    entity_id: item.entity_id,
+    entity_label: item.entity_label,
+    changes: item.changes || {},
+    // Status changes keep the reason template's key; show the wording the owner saw
+    reason: item.context?.reason_code ? formatStatusReason(item.context.reason_code, item.reason) : item.reason,
+    context: item.context || {},
+    created_at: item.created_at
+  }
+}
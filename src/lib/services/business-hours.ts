@@ -0,0 +1,302 @@
+// src/lib/services/business-hours.ts - Weekly hours, split shifts and holiday overrides
+import { supabase } from '../supabase'
+import { getTodayInAppTimezone } from '../utils'
+
+export interface BusinessHours {
+  id: string
+  business_id: string
+  day_of_week: number // 0=Sunday, 1=Monday, etc.
+  opens_at: string | null
+  closes_at: string | null
+  is_closed: boolean
+  is_24_hours: boolean
+  sort_order: number // Shift position within the day (split shifts)
+}
+
+export interface BusinessHourOverride {
+  id: string
+  business_id: string
+  override_date: string // YYYY-MM-DD
+  opens_at: string | null
+  closes_at: string | null
+  is_closed: boolean
+  is_24_hours: boolean
+  note: string | null
+}
+
+// Editor shapes (what BusinessHoursEditor reads and writes)
+export interface BusinessHoursShift {
+  opens_at: string
+  closes_at: string
+}
+
+export interface BusinessHoursDay {
+  day_of_week: number
+  is_closed: boolean
+  is_24_hours: boolean
+  shifts: BusinessHoursShift[]
+}
+
+export interface BusinessHoursOverrideInput {
+  override_date: string
+  is_closed: boolean
+  is_24_hours: boolean
+  opens_at: string
+  closes_at: string
+  note: string
+}
+
+export interface BusinessHoursFormData {
+  weekly: BusinessHoursDay[]
+  overrides: BusinessHoursOverrideInput[]
+}
+
+export const MAX_SHIFTS_PER_DAY = 3
+
+/**
+ * Default editor state: Mon-Sat 10 AM - 8 PM, closed Sunday
+ */
+export function createDefaultHoursForm(): BusinessHoursFormData {
+  return {
+    weekly: Array.from({ length: 7 }, (_, day) => ({
+      day_of_week: day,
+      is_closed: day === 0,
+      is_24_hours: false,
+      shifts: [{ opens_at: '10:00', closes_at: '20:00' }]
+    })),
+    overrides: []
+  }
+}
+
+/**
+ * Build editor state from stored rows (days without rows are treated as closed)
+ */
+export function toHoursFormData(hours: BusinessHours[], overrides: BusinessHourOverride[] = []): BusinessHoursFormData {
+  if (hours.length === 0 && overrides.length === 0) {
+    return createDefaultHoursForm()
+  }
+
+  return {
+    weekly: Array.from({ length: 7 }, (_, day) => {
+      const rows = hours
+        .filter(h => h.day_of_week === day)
+        .sort((a, b) => a.sort_order - b.sort_order)
+      const openRows = rows.filter(h => !h.is_closed && h.opens_at && h.closes_at)
+
+      return {
+        day_of_week: day,
+        is_closed: rows.length === 0 || rows.every(h => h.is_closed),
+        is_24_hours: rows.some(h => h.is_24_hours && !h.is_closed),
+        shifts: openRows.length > 0
+          ? openRows.map(h => ({ opens_at: h.opens_at!.slice(0, 5), closes_at: h.closes_at!.slice(0, 5) }))
+          : [{ opens_at: '10:00', closes_at: '20:00' }]
+      }
+    }),
+    overrides: overrides.map(o => ({
+      override_date: o.override_date,
+      is_closed: o.is_closed,
+      is_24_hours: o.is_24_hours,
+      opens_at: o.opens_at?.slice(0, 5) || '10:00',
+      closes_at: o.closes_at?.slice(0, 5) || '20:00',
+      note: o.note || ''
+    }))
+  }
+}
+
+/**
+ * Validate editor state; returns a user-facing message or null when valid
+ */
+export function validateHoursForm(form: BusinessHoursFormData): string | null {
+  const dayNames = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
+
+  for (const day of form.weekly) {
+    if (day.is_closed || day.is_24_hours) continue
+
+    if (day.shifts.length === 0) {
+      return `${dayNames[day.day_of_week]}: add at least one shift or mark the day closed`
+    }
+
+    const sorted = [...day.shifts].sort((a, b) => a.opens_at.localeCompare(b.opens_at))
+    for (let i = 0; i < sorted.length; i++) {
+      const shift = sorted[i]
+      if (!shift.opens_at || !shift.closes_at || shift.opens_at === shift.closes_at) {
+        return `${dayNames[day.day_of_week]}: each shift needs different opening and closing times`
+      }
+      // Only the last shift of the day may run past midnight
+      const overnight = shift.closes_at < shift.opens_at
+      if (overnight && i < sorted.length - 1) {
+        return `${dayNames[day.day_of_week]}: only the last shift can close after midnight`
+      }
+      if (i > 0 && shift.opens_at < sorted[i - 1].closes_at) {
+        return `${dayNames[day.day_of_week]}: shifts overlap`
+      }
+    }
+  }
+
+  const seenDates = new Set<string>()
+  for (const override of form.overrides) {
+    if (!override.override_date) {
+      return 'Each special day needs a date'
+    }
+    if (seenDates.has(override.override_date)) {
+      return `Special hours for ${override.override_date} are listed twice`
+    }
+    seenDates.add(override.override_date)
+
+    if (!override.is_closed && !override.is_24_hours && override.opens_at === override.closes_at) {
+      return `Special hours for ${override.override_date} need different opening and closing times`
+    }
+  }
+
+  return null
+}
+
+// Business Hours Service
+export const businessHoursService = {
+  /**
+   * Get weekly hours and upcoming overrides for a business
+   */
+  async getBusinessHours(businessId: string): Promise<{
+    data: { hours: BusinessHours[]; overrides: BusinessHourOverride[] } | null
+    error: unknown
+  }> {
+    try {
+      const [hoursResult, overridesResult] = await Promise.all([
+        supabase
+          .from('business_hours')
+          .select('*')
+          .eq('business_id', businessId)
+          .order('day_of_week')
+          .order('sort_order'),
+        supabase
+          .from('business_hour_overrides')
+          .select('*')
+          .eq('business_id', businessId)
+          .gte('override_date', getTodayInAppTimezone())
+          .order('override_date')
+      ])
+
+      if (hoursResult.error) {
+        console.error('Error fetching business hours:', hoursResult.error)
+        return { data: null, error: hoursResult.error }
+      }
+
+      if (overridesResult.error) {
+        console.error('Error fetching business hour overrides:', overridesResult.error)
+        return { data: null, error: overridesResult.error }
+      }
+
+      return {
+        data: {
+          hours: hoursResult.data || [],
+          overrides: overridesResult.data || []
+        },
+        error: null
+      }
+
+    } catch (error) {
+      console.error('Unexpected error in getBusinessHours:', error)
+      return { data: null, error }
+    }
+  },
+
+  /**
+   * Replace the weekly schedule and upcoming overrides for a business
+   */
+  async saveBusinessHours(businessId: string, form: BusinessHoursFormData): Promise<{ success: boolean; error: unknown }> {
+    try {
+      const validationError = validateHoursForm(form)
+      if (validationError) {
+        return { success: false, error: validationError }
+      }
+
+      const hourRows = form.weekly.flatMap((day): Omit<BusinessHours, 'id'>[] => {
+        if (day.is_closed || day.is_24_hours) {
+          return [{
+            business_id: businessId,
+            day_of_week: day.day_of_week,
+            opens_at: null,
+            closes_at: null,
+            is_closed: day.is_closed,
+            is_24_hours: !day.is_closed && day.is_24_hours,
+            sort_order: 0
+          }]
+        }
+
+        return [...day.shifts]
+          .sort((a, b) => a.opens_at.localeCompare(b.opens_at))
+          .map((shift, index) => ({
+            business_id: businessId,
+            day_of_week: day.day_of_week,
+            opens_at: shift.opens_at,
+            closes_at: shift.closes_at,
+            is_closed: false,
+            is_24_hours: false,
+            sort_order: index
+          }))
+      })
+
+      const { error: deleteHoursError } = await supabase
+        .from('business_hours')
+        .delete()
+        .eq('business_id', businessId)
+
+      if (deleteHoursError) {
+        console.error('Error clearing business hours:', deleteHoursError)
+        return { success: false, error: deleteHoursError }
+      }
+
+      const { error: insertHoursError } = await supabase
+        .from('business_hours')
+        .insert(hourRows)
+
+      if (insertHoursError) {
+        console.error('Error saving business hours:', insertHoursError)
+        return { success: false, error: insertHoursError }
+      }
+
+      // Past overrides are kept as history; only today onwards is replaced
+      const today = getTodayInAppTimezone()
+
+      const { error: deleteOverridesError } = await supabase
+        .from('business_hour_overrides')
+        .delete()
+        .eq('business_id', businessId)
+        .gte('override_date', today)
+
+      if (deleteOverridesError) {
+        console.error('Error clearing business hour overrides:', deleteOverridesError)
+        return { success: false, error: deleteOverridesError }
+      }
+
+      const overrideRows = form.overrides
+        .filter(o => o.override_date >= today)
+        .map(o => ({
+          business_id: businessId,
+          override_date: o.override_date,
+          opens_at: o.is_closed || o.is_24_hours ? null : o.opens_at,
+          closes_at: o.is_closed || o.is_24_hours ? null : o.closes_at,
+          is_closed: o.is_closed,
+          is_24_hours: !o.is_closed && o.is_24_hours,
+          note: o.note.trim() || null
+        }))
+
+      if (overrideRows.length > 0) {
+        const { error: insertOverridesError } = await supabase
+          .from('business_hour_overrides')
+          .insert(overrideRows)
+
+        if (insertOverridesError) {
+          console.error('Error saving business hour overrides:', insertOverridesError)
+          return { success: false, error: insertOverridesError }
+        }
+      }
+
+      return { success: true, error: null }
+
+    } catch (error) {
+      console.error('Unexpected error in saveBusinessHours:', error)
+      return { success: false, error }
+    }
+  }
+}
@@ -0,0 +1,370 @@
+// src/lib/services/business-media.ts - Logo, cover and gallery photos for business listings
+import { supabase } from '../supabase'
+import { getStoredImagePaths, mediaUploadService, toMediaFileColumns, type StoredImageVariant } from './media-upload'
+
+export type BusinessPhotoType = 'logo' | 'cover' | 'gallery'
+export type PhotoModerationStatus = 'pending' | 'approved' | 'rejected'
+
+export interface BusinessPhoto {
+  id: string
+  business_id: string
+  url: string
+  image_path: string
+  image_type: BusinessPhotoType
+  thumbnail_url: string | null
+  width: number | null
+  height: number | null
+  blurhash: string | null
+  alt_text: string | null
+  caption: string | null
+  sort_order: number
+  moderation_status: PhotoModerationStatus
+  uploaded_by: string | null
+  created_at: string
+  // Related data
+  uploader_name?: string | null
+  business_name?: string
+  business_slug?: string
+}
+
+export const BUSINESS_PHOTO_LIMITS = {
+  maxGalleryPhotos: 20
+}
+
+const BUCKET = 'business-images'
+
+// Row shape from media_files selects
+type MediaFileRow = {
+  id: string
+  entity_id: string
+  url: string
+  image_path: string | null
+  image_type: BusinessPhotoType | null
+  width: number | null
+  height: number | null
+  blurhash: string | null
+  variants: Record<string, StoredImageVariant> | null
+  alt_text: string | null
+  caption: string | null
+  sort_order: number | null
+  moderation_status: PhotoModerationStatus
+  uploaded_by: string | null
+  created_at: string
+  profiles?: { full_name: string | null } | null
+}
+
+function toBusinessPhoto(row: MediaFileRow): BusinessPhoto {
+  return {
+    id: row.id,
+    business_id: row.entity_id,
+    url: row.url,
+    image_path: row.image_path || '',
+    image_type: row.image_type || 'gallery',
+    thumbnail_url: row.variants?.thumb?.url || null,
+    width: row.width,
+    height: row.height,
+    blurhash: row.blurhash,
+    alt_text: row.alt_text,
+    caption: row.caption,
+    sort_order: row.sort_order || 0,
+    moderation_status: row.moderation_status,
+    uploaded_by: row.uploaded_by,
+    created_at: row.created_at,
+    uploader_name: row.profiles?.full_name || null
+  }
+}
+
+// Business Media Service
+export const businessMediaService = {
+  /**
+   * Photos for a business, in display order. Public pages get approved photos
+   * only; owners pass includeUnapproved to see their uploads under review.
+   */
+  async getBusinessPhotos(
+    businessId: string,
+    options: { includeUnapproved?: boolean } = {}
+  ): Promise<{ data: BusinessPhoto[] | null; error: unknown }> {
+    try {
+      let query = supabase
+        .from('media_files')
+        .select('*')
+        .eq('entity_type', 'business')
+        .eq('entity_id', businessId)
+        .eq('is_active', true)
+        .order('sort_order')
+        .order('created_at')
+
+      if (!options.includeUnapproved) {
+        query = query.eq('moderation_status', 'approved')
+      }
+
+      const { data, error } = await query
+
+      if (error) {
+        console.error('Error fetching business photos:', error)
+        return { data: null, error }
+      }
+
+      return { data: (data || []).map(toBusinessPhoto), error: null }
+
+    } catch (error) {
+      console.error('Unexpected error in getBusinessPhotos:', error)
+      return { data: null, error }
+    }
+  },
+
+  /**
+   * Upload a photo for a business. Owner uploads wait for moderation;
+   * admins can publish straight away with autoApprove.
+   */
+  async uploadBusinessPhoto(
+    file: File,
+    businessId: string,
+    userId: string,
+    options: {
+      imageType?: BusinessPhotoType
+      caption?: string
+      altText?: string
+      sortOrder?: number
+      autoApprove?: boolean
+    } = {}
+  ): Promise<{ data: BusinessPhoto | null; error: unknown }> {
+    try {
+      const imageType = options.imageType || 'gallery'
+
+      const { data: image, error: uploadError } = await mediaUploadService.uploadImage(file, {
+        bucket: BUCKET,
+        basePath: `business/${businessId}/${userId}/${Date.now()}-${Math.random().toString(36).substring(2)}`,
+        preset: imageType === 'logo' ? 'logo' : 'gallery'
+      })
+
+      if (uploadError || !image) {
+        console.error('Error uploading business photo:', uploadError)
+        return { data: null, error: uploadError || 'Failed to upload image' }
+      }
+
+      const { data, error } = await supabase
+        .from('media_files')
+        .insert([{
+          ...toMediaFileColumns(image),
+          alt_text: options.altText?.trim() || null,
+          caption: options.caption?.trim() || null,
+          image_type: imageType,
+          is_featured: false,
+          sort_order: options.sortOrder ?? 0,
+          entity_type: 'business',
+          entity_id: businessId,
+          uploaded_by: userId,
+          is_active: true,
+          moderation_status: options.autoApprove ? 'approved' : 'pending',
+          ...(options.autoApprove && { reviewed_by: userId, reviewed_at: new Date().toISOString() })
+        }])
+        .select()
+        .single()
+
+      if (error) {
+        console.error('Error saving business photo:', error)
+
+        // Don't leave orphaned files behind
+        await mediaUploadService.removeImage(BUCKET, getStoredImagePaths({ image_path: image.path, variants: image.variants }))
+
+        return { data: null, error: `Failed to save image record: ${error.message}` }
+      }
+
+      return { data: toBusinessPhoto(data), error: null }
+
+    } catch (error) {
+      console.error('Unexpected error in uploadBusinessPhoto:', error)
+      return { data: null, error: `Failed to upload image: ${error}` }
+    }
+  },
+
+  /**
+   * Update caption, alt text or position. A new caption or alt text from
+   * anyone but an admin sends the photo back for review.
+   */
+  async updateBusinessPhoto(
+    photoId: string,
+    updates: { caption?: string; altText?: string; sortOrder?: number }
+  ): Promise<{ success: boolean; error: unknown }> {
+    try {
+      const updateData: Record<string, string | number | null> = {}
+
+      if (updates.caption !== undefined) updateData.caption = updates.caption.trim() || null
+      if (updates.altText !== undefined) updateData.alt_text = updates.altText.trim() || null
+      if (updates.sortOrder !== undefined) updateData.sort_order = updates.sortOrder
+
+      const { error } = await supabase
+        .from('media_files')
+        .update(updateData)
+        .eq('id', photoId)
+        .eq('entity_type', 'business')
+
+      if (error) {
+        console.error('Error updating business photo:', error)
+        return { success: false, error }
+      }
+
+      return { success: true, error: null }
+
+    } catch (error) {
+      console.error('Unexpected error in updateBusinessPhoto:', error)
+      return { success: false, error }
+    }
+  },
+
+  /**
+   * Save a new gallery order (photo ids first to last)
+   */
+  async reorderBusinessPhotos(photoIds: string[]): Promise<{ success: boolean; error: unknown }> {
+    try {
+      const results = await Promise.all(
+        photoIds.map((id, index) => this.updateBusinessPhoto(id, { sortOrder: index }))
+      )
+
+      const failed = results.find(result => !result.success)
+      if (failed) {
+        return { success: false, error: failed.error }
+      }
+
+      return { success: true, error: null }
+
+    } catch (error) {
+      console.error('Unexpected error in reorderBusinessPhotos:', error)
+      return { success: false, error }
+    }
+  },
+
+  /**
+   * Remove a photo: the file is deleted and the record deactivated
+   */
+  async deleteBusinessPhoto(photoId: string): Promise<{ success: boolean; error: unknown }> {
+    try {
+      const { data: photo, error: fetchError } = await supabase
+        .from('media_files')
+        .select('image_path, variants')
+        .eq('id', photoId)
+        .eq('entity_type', 'business')
+        .single()
+
+      if (fetchError || !photo) {
+        console.error('Error fetching business photo:', fetchError)
+        return { success: false, error: fetchError || 'Photo not found' }
+      }
+
+      const { error: dbError } = await supabase
+        .from('media_files')
+        .update({ is_active: false })
+        .eq('id', photoId)
+        .eq('entity_type', 'business')
+
+      if (dbError) {
+        console.error('Error deleting business photo:', dbError)
+        return { success: false, error: dbError }
+      }
+
+      // The record is already gone from listings, so a storage failure isn't fatal
+      await mediaUploadService.removeImage(BUCKET, getStoredImagePaths(photo))
+
+      return { success: true, error: null }
+
+    } catch (error) {
+      console.error('Unexpected error in deleteBusinessPhoto:', error)
+      return { success: false, error }
+    }
+  },
+
+  /**
+   * Photos waiting for moderation, oldest first (admin)
+   */
+  async getPendingPhotos(limit: number = 50): Promise<{ data: BusinessPhoto[] | null; error: unknown }> {
+    try {
+      const { data, error } = await supabase
+        .from('media_files')
+        .select('*, profiles:uploaded_by(full_name)')
+        .eq('entity_type', 'business')
+        .eq('is_active', true)
+        .eq('moderation_status', 'pending')
+        .order('created_at', { ascending: true })
+        .limit(limit)
+
+      if (error) {
+        console.error('Error fetching pending photos:', error)
+        return { data: null, error }
+      }
+
+      const photos = (data || []).map(toBusinessPhoto)
+
+      // media_files has no foreign key to businesses, so names are looked up separately
+      const businessIds = [...new Set(photos.map(photo => photo.business_id))]
+      if (businessIds.length > 0) {
+        const { data: businesses } = await supabase
+          .from('businesses')
+          .select('id, name, slug')
+          .in('id', businessIds)
+
+        const businessMap = new Map((businesses || []).map(business => [business.id, business]))
+        photos.forEach(photo => {
+          photo.business_name = businessMap.get(photo.business_id)?.name
+          photo.business_slug = businessMap.get(photo.business_id)?.slug
+        })
+      }
+
+      return { data: photos, error: null }
+
+    } catch (error) {
+      console.error('Unexpected error in getPendingPhotos:', error)
+      return { data: null, error }
+    }
+  },
+
+  /**
+   * Approve or reject an uploaded photo (admin). An approved logo or cover
+   * replaces the previous one.
+   */
+  async moderatePhoto(
+    photoId: string,
+    adminId: string,
+    decision: 'approved' | 'rejected'
+  ): Promise<{ success: boolean; error: unknown }> {
+    try {
+      const { data: photo, error } = await supabase
+        .from('media_files')
+        .update({
+          moderation_status: decision,
+          reviewed_by: adminId,
+          reviewed_at: new Date().toISOString()
+        })
+        .eq('id', photoId)
+        .eq('entity_type', 'business')
+        .select('entity_id, image_type')
+        .single()
+
+      if (error) {
+        console.error('Error moderating business photo:', error)
+        return { success: false, error }
+      }
+
+      if (decision === 'approved' && (photo.image_type === 'logo' || photo.image_type === 'cover')) {
+        const { error: replaceError } = await supabase
+          .from('media_files')
+          .update({ is_active: false })
+          .eq('entity_type', 'business')
+          .eq('entity_id', photo.entity_id)
+          .eq('image_type', photo.image_type)
+          .eq('moderation_status', 'approved')
+          .neq('id', photoId)
+
+        if (replaceError) {
+          console.error('Error retiring previous business photo:', replaceError)
+        }
+      }
+
+      return { success: true, error: null }
+
+    } catch (error) {
+      console.error('Unexpected error in moderatePhoto:', error)
+      return { success: false, error }
+    }
+  }
+}
@@ -0,0 +1,394 @@
+// src/lib/services/business-members.ts - Business teams, invitations and ownership transfer
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { supabase } from '../supabase'
+
+export type BusinessMemberRole = 'owner' | 'manager' | 'editor'
+export type InvitationStatus = 'pending' | 'accepted' | 'declined' | 'revoked'
+
+export interface BusinessMember {
+  business_id: string
+  user_id: string
+  role: BusinessMemberRole
+  created_at: string
+  full_name: string | null
+  email: string | null
+}
+
+export interface BusinessMembership {
+  business_id: string
+  role: BusinessMemberRole
+}
+
+export interface BusinessInvitation {
+  id: string
+  business_id: string
+  email: string
+  role: Exclude<BusinessMemberRole, 'owner'>
+  status: InvitationStatus
+  expires_at: string
+  created_at: string
+  // Related data
+  business_name?: string
+  business_slug?: string
+}
+
+interface MemberRow extends Omit<BusinessMember, 'full_name' | 'email'> {
+  profiles: { full_name: string | null; email: string } | null
+}
+
+interface InvitationRow extends Omit<BusinessInvitation, 'business_name' | 'business_slug'> {
+  businesses: { name: string; slug: string } | null
+}
+
+export const BUSINESS_ROLE_OPTIONS: { value: BusinessMemberRole; label: string; description: string }[] = [
+  { value: 'owner', label: 'Owner', description: 'Full control, including the team and ownership' },
+  { value: 'manager', label: 'Manager', description: 'Edits listing details, photos and hours, and replies to reviews' },
+  { value: 'editor', label: 'Editor', description: 'Updates hours and replies to reviews' }
+]
+
+export const BUSINESS_ROLE_LABELS = Object.fromEntries(
+  BUSINESS_ROLE_OPTIONS.map(option => [option.value, option.label])
+) as Record<BusinessMemberRole, string>
+
+// What each role may do; the database policies enforce the same split
+export const BUSINESS_ROLE_PERMISSIONS = {
+  editListing: ['owner', 'manager'] as BusinessMemberRole[],
+  editHours: ['owner', 'manager', 'editor'] as BusinessMemberRole[],
+  replyToReviews: ['owner', 'manager', 'editor'] as BusinessMemberRole[],
+  manageTeam: ['owner'] as BusinessMemberRole[]
+}
+
+// Business Member Service
+export const businessMemberService = {
+  /**
+   * Businesses the user belongs to, with their role in each. Server code
+   * passes its own client to read another user's memberships.
+   */
+  async getMemberships(userId: string, client: SupabaseClient = supabase): Promise<{ data: BusinessMembership[] | null; error: unknown }> {
+    try {
+      const { data, error } = await client
+        .from('business_members')
+        .select('business_id, role')
+        .eq('user_id', userId)
+
+      if (error) {
+        console.error('Error fetching memberships:', error)
+        return { data: null, error }
+      }
+
+      return { data: data || [], error: null }
+
+    } catch (error) {
+      console.error('Unexpected error in getMemberships:', error)
+      return { data: null, error }
+    }
+  },
+
+  /**
+   * The user's role in one business, or null if they are not on the team
+   */
+  async getRole(userId: string, businessId: string): Promise<{ data: BusinessMemberRole | null; error: unknown }> {
+    try {
+      const { data, error } = await supabase
+        .from('business_members')
+        .select('role')
+        .eq('business_id', businessId)
+        .eq('user_id', userId)
+        .maybeSingle()
+
+      if (error) {
+        console.error('Error fetching member role:', error)
+        return { data: null, error }
+      }
+
+      return { data: data?.role || null, error: null }
+
+    } catch (error) {
+      console.error('Unexpected error in getRole:', error)
+      return { data: null, error }
+    }
+  },
+
+  /**
+   * Everyone on a business's team, owner first
+   */
+  async getMembers(businessId: string): Promise<{ data: BusinessMember[] | null; error: unknown }> {
+    try {
+      const { data, error } = await supabase
+        .from('business_members')
+        .select('business_id, user_id, role, created_at, profiles:user_id(full_name, email)')
+        .eq('business_id', businessId)
+        .order('created_at', { ascending: true })
+        .overrideTypes<MemberRow[], { merge: false }>()
+
+      if (error) {
+        console.error('Error fetching members:', error)
+        return { data: null, error }
+      }
+
+      const roleOrder = BUSINESS_ROLE_OPTIONS.map(option => option.value)
+      const members: BusinessMember[] = (data || [])
+        .map(item => ({
+          business_id: item.business_id,
+          user_id: item.user_id,
+          role: item.role,
+          created_at: item.created_at,
+          full_name: item.profiles?.full_name || null,
+          email: item.profiles?.email || null
+        }))
+        .sort((a, b) => roleOrder.indexOf(a.role) - roleOrder.indexOf(b.role))
+
+      return { data: members, error: null }
+
+    } catch (error) {
+      console.error('Unexpected error in getMembers:', error)
+      return { data: null, error }
+    }
+  },
+
+  /**
+   * Switch a member between manager and editor (owner only)
+   */
+  async updateMemberRole(
+    businessId: string,
+    userId: string,
+    role: Exclude<BusinessMemberRole, 'owner'>
+  ): Promise<{ success: boolean; error: unknown }> {
+    try {
+      const { error } = await supabase
+        .from('business_members')
+        .update({ role })
+        .eq('business_id', businessId)
+        .eq('user_id', userId)
+
+      if (error) {
+        console.error('Error updating member role:', error)
+        return { success: false, error }
+      }
+
+      return { success: true, error: null }
+
+    } catch (error) {
+      console.error('Unexpected error in updateMemberRole:', error)
+      return { success: false, error }
+    }
+  },
+
+  /**
+   * Remove a member, or leave a team when userId is yourself. The owner
+   * has to transfer the business first.
+   */
+  async removeMember(businessId: string, userId: string): Promise<{ success: boolean; error: unknown }> {
+    try {
+      const { error } = await supabase
+        .from('business_members')
+        .delete()
+        .eq('business_id', businessId)
+        .eq('user_id', userId)
+        .neq('role', 'owner')
+
+      if (error) {
+        console.error('Error removing member:', error)
+        return { success: false, error }
+      }
+
+      return { success: true, error: null }
+
+    } catch (error) {
+      console.error('Unexpected error in removeMember:', error)
+      return { success: false, error }
+    }
+  },
+
+  /**
+   * Open invitations for a business (owner)
+   */
+  async getInvitations(businessId: string): Promise<{ data: BusinessInvitation[] | null; error: unknown }> {
+    try {
+      const { data, error } = await supabase
+        .from('business_invitations')
+        .select('*')
+        .eq('business_id', businessId)
+        .eq('status', 'pending')
+        .order('created_at', { ascending: false })
+
+      if (error) {
+        console.error('Error fetching invitations:', error)
+        return { data: null, error }
+      }
+
+      return { data: data || [], error: null }
+
+    } catch (error) {
+      console.error('Unexpected error in getInvitations:', error)
+      return { data: null, error }
+    }
+  },
+
+  /**
+   * Invite someone by email. They join when they accept from their account.
+   */
+  async inviteMember(
+    businessId: string,
+    email: string,
+    role: Exclude<BusinessMemberRole, 'owner'>,
+    invitedBy: string
+  ): Promise<{ data: BusinessInvitation | null; error: unknown }> {
+    try {
+      const normalizedEmail = email.trim().toLowerCase()
+      if (!/^[^@\s]+@[^@\s]+\.[^@\s]+$/.test(normalizedEmail)) {
+        return { data: null, error: 'Please enter a valid email address' }
+      }
+
+      const { data, error } = await supabase
+        .from('business_invitations')
+        .insert([{
+          business_id: businessId,
+          email: normalizedEmail,
+          role,
+          invited_by: invitedBy
+        }])
+        .select()
+        .single()
+
+      if (error) {
+        console.error('Error creating invitation:', error)
+
+        if (error.code === '23505') {
+          return { data: null, error: 'This email already has an open invitation' }
+        }
+        return { data: null, error: 'Failed to send invitation' }
+      }
+
+      return { data, error: null }
+
+    } catch (error) {
+      console.error('Unexpected error in inviteMember:', error)
+      return { data: null, error: 'Failed to send invitation' }
+    }
+  },
+
+  /**
+   * Cancel an invitation that hasn't been answered (owner)
+   */
+  async revokeInvitation(invitationId: string): Promise<{ success: boolean; error: unknown }> {
+    try {
+      const { error } = await supabase
+        .from('business_invitations')
+        .update({ status: 'revoked', responded_at: new Date().toISOString() })
+        .eq('id', invitationId)
+        .eq('status', 'pending')
+
+      if (error) {
+        console.error('Error revoking invitation:', error)
+        return { success: false, error }
+      }
+
+      return { success: true, error: null }
+
+    } catch (error) {
+      console.error('Unexpected error in revokeInvitation:', error)
+      return { success: false, error }
+    }
+  },
+
+  /**
+   * Unexpired invitations addressed to the signed-in user's email
+   */
+  async getMyInvitations(): Promise<{ data: BusinessInvitation[] | null; error: unknown }> {
+    try {
+      const { data, error } = await supabase
+        .from('business_invitations')
+        .select('*, businesses:business_id(name, slug)')
+        .eq('status', 'pending')
+        .gt('expires_at', new Date().toISOString())
+        .order('created_at', { ascending: false })
+        .overrideTypes<InvitationRow[], { merge: false }>()
+
+      if (error) {
+        console.error('Error fetching my invitations:', error)
+        return { data: null, error }
+      }
+
+      const invitations: BusinessInvitation[] = (data || []).map(item => ({
+        ...item,
+        business_name: item.businesses?.name,
+        business_slug: item.businesses?.slug
+      }))
+
+      return { data: invitations, error: null }
+
+    } catch (error) {
+      console.error('Unexpected error in getMyInvitations:', error)
+      return { data: null, error }
+    }
+  },
+
+  /**
+   * Join the team from an invitation
+   */
+  async acceptInvitation(invitationId: string): Promise<{ data: string | null; error: unknown }> {
+    try {
+      const { data, error } = await supabase.rpc('accept_business_invitation', {
+        p_invitation_id: invitationId
+      })
+
+      if (error) {
+        console.error('Error accepting invitation:', error)
+        return { data: null, error: error.message || 'Failed to accept invitation' }
+      }
+
+      return { data, error: null }
+
+    } catch (error) {
+      console.error('Unexpected error in acceptInvitation:', error)
+      return { data: null, error: 'Failed to accept invitation' }
+    }
+  },
+
+  /**
+   * Turn an invitation down
+   */
+  async declineInvitation(invitationId: string): Promise<{ success: boolean; error: unknown }> {
+    try {
+      const { error } = await supabase
+        .from('business_invitations')
+        .update({ status: 'declined', responded_at: new Date().toISOString() })
+        .eq('id', invitationId)
+
+      if (error) {
+        console.error('Error declining invitation:', error)
+        return { success: false, error }
+      }
+
+      return { success: true, error: null }
+
+    } catch (error) {
+      console.error('Unexpected error in declineInvitation:', error)
+      return { success: false, error }
+    }
+  },
+
+  /**
+   * Make another member the owner; the current owner becomes a manager
+   */
+  async transferOwnership(businessId: string, newOwnerId: string): Promise<{ success: boolean; error: unknown }> {
+    try {
+      const { error } = await supabase.rpc('transfer_business_ownership', {
+        p_business_id: businessId,
+        p_new_owner_id: newOwnerId
+      })
+
+      if (error) {
+        console.error('Error transferring ownership:', error)
+        return { success: false, error: error.message || 'Failed to transfer ownership' }
+      }
+
+      return { success: true, error: null }
+
+    } catch (error) {
+      console.error('Unexpected error in transferOwnership:', error)
+      return { success: false, error: 'Failed to transfer ownership' }
+    }
+  }
+}
@@ -0,0 +1,99 @@
+// src/lib/services/business-status.ts - Status history for business listings
+import { supabase } from '../supabase'
+import type { Business } from '@/types/database'
+import type { StatusReasonCode } from '../status-reasons'
+
+export interface BusinessStatusChange {
+  id: string
+  business_id: string
+  from_status: Business['status'] | null
+  to_status: Business['status']
+  reason_code: StatusReasonCode | null
+  reason_note: string | null
+  changed_by: string | null
+  changed_by_name: string | null
+  created_at: string
+}
+
+interface StatusChangeRow extends Omit<BusinessStatusChange, 'changed_by_name'> {
+  profiles: { full_name: string | null } | null
+}
+
+// Business Status Service
+export const businessStatusService = {
+  /**
+   * Every status change for a listing, newest first
+   */
+  async getHistory(businessId: string): Promise<{ data: BusinessStatusChange[] | null; error: unknown }> {
+    try {
+      const { data, error } = await supabase
+        .from('business_status_history')
+        .select('*, profiles:changed_by(full_name)')
+        .eq('business_id', businessId)
+        .order('created_at', { ascending: false })
+        .overrideTypes<StatusChangeRow[], { merge: false }>()
+
+      if (error) {
+        console.error('Error fetching status history:', error)
+        return { data: null, error }
+      }
+
+      return { data: (data || []).map(toStatusChange), error: null }
+
+    } catch (error) {
+      console.error('Unexpected error in getHistory:', error)
+      return { data: null, error }
+    }
+  },
+
+  /**
+   * The change that put each listing in its current status, keyed by business id.
+   * Owners read the reason for a rejection or suspension from here.
+   */
+  async getLatestChanges(businessIds: string[]): Promise<{ data: Record<string, BusinessStatusChange> | null; error: unknown }> {
+    try {
+      if (businessIds.length === 0) {
+        return { data: {}, error: null }
+      }
+
+      const { data, error } = await supabase
+        .from('business_status_history')
+        .select('*, profiles:changed_by(full_name)')
+        .in('business_id', businessIds)
+        .order('created_at', { ascending: false })
+        .overrideTypes<StatusChangeRow[], { merge: false }>()
+
+      if (error) {
+        console.error('Error fetching latest status changes:', error)
+        return { data: null, error }
+      }
+
+      const latest: Record<string, BusinessStatusChange> = {}
+      for (const item of data || []) {
+        if (!latest[item.business_id]) {
+          latest[item.business_id] = toStatusChange(item)
+        }
+      }
+
+      return { data: latest, error: null }
+
+    } catch (error) {
+      console.error('Unexpected error in getLatestChanges:', error)
+      return { data: null, error }
+    }
+  }
+}
+
+function toStatusChange(item: StatusChangeRow): BusinessStatusChange {
+  return {
+    id: item.id,
+    business_id: item.business_id,
+    from_status: item.from_status,
+    to_status: item.to_status,
+    reason_code: item.reason_code,
+    reason_note: item.reason_note,
+    changed_by: item.changed_by,
+    changed_by_name: item.profiles?.full_name || null,
+    created_at: item.created_at
+  }
+}
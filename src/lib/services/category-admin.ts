@@ -0,0 +1,196 @@
+// src/lib/services/category-admin.ts - Admin management of the category hierarchy
+import { supabase } from '../supabase'
+
+export type CategoryFeatureType = 'business' | 'tourism'
+
+export interface AdminCategory {
+  id: string
+  name: string
+  slug: string
+  feature_type: CategoryFeatureType
+  description: string | null
+  parent_id: string | null
+  sort_order: number
+  is_active: boolean
+  merged_into_id: string | null
+}
+
+export interface CategoryFormData {
+  name: string
+  slug: string
+  description?: string | null
+  parentId: string | null
+}
+
+const ADMIN_CATEGORY_COLUMNS = 'id, name, slug, feature_type, description, parent_id, sort_order, is_active, merged_into_id'
+
+// Category Admin Service
+export const categoryAdminService = {
+  /**
+   * Every category of a feature type, inactive and merged ones included
+   */
+  async getAll(featureType: CategoryFeatureType = 'business'): Promise<{ data: AdminCategory[] | null; error: unknown }> {
+    try {
+      const { data, error } = await supabase
+        .from('categories')
+        .select(ADMIN_CATEGORY_COLUMNS)
+        .eq('feature_type', featureType)
+        .order('sort_order')
+        .order('name')
+
+      if (error) {
+        console.error('Error fetching categories:', error)
+        return { data: null, error }
+      }
+
+      return { data: (data || []) as AdminCategory[], error: null }
+
+    } catch (error) {
+      console.error('Unexpected error in getAll:', error)
+      return { data: null, error }
+    }
+  },
+
+  /**
+   * Add a category at the end of its siblings
+   */
+  async create(
+    featureType: CategoryFeatureType,
+    formData: CategoryFormData,
+    sortOrder: number
+  ): Promise<{ data: AdminCategory | null; error: unknown }> {
+    try {
+      const { data, error } = await supabase
+        .from('categories')
+        .insert({
+          name: formData.name.trim(),
+          slug: formData.slug.trim(),
+          description: formData.description?.trim() || null,
+          parent_id: formData.parentId,
+          feature_type: featureType,
+          sort_order: sortOrder,
+          is_active: true
+        })
+        .select(ADMIN_CATEGORY_COLUMNS)
+        .single()
+
+      if (error) {
+        console.error('Error creating category:', error)
+        return { data: null, error }
+      }
+
+      return { data: data as AdminCategory, error: null }
+
+    } catch (error) {
+      console.error('Unexpected error in create:', error)
+      return { data: null, error }
+    }
+  },
+
+  /**
+   * Rename, re-slug, describe or move a category under another parent
+   */
+  async update(category: AdminCategory, formData: CategoryFormData): Promise<{ success: boolean; error: unknown }> {
+    try {
+      const updates = {
+        name: formData.name.trim(),
+        slug: formData.slug.trim(),
+        description: formData.description?.trim() || null,
+        parent_id: formData.parentId
+      }
+
+      const { error } = await supabase
+        .from('categories')
+        .update(updates)
+        .eq('id', category.id)
+
+      if (error) {
+        console.error('Error updating category:', error)
+        return { success: false, error }
+      }
+
+      return { success: true, error: null }
+
+    } catch (error) {
+      console.error('Unexpected error in update:', error)
+      return { success: false, error }
+    }
+  },
+
+  /**
+   * Save the order of one set of siblings, top first
+   */
+  async reorder(categoryIds: string[]): Promise<{ success: boolean; error: unknown }> {
+    try {
+      const { error } = await supabase.rpc('admin_reorder_categories', {
+        p_category_ids: categoryIds
+      })
+
+      if (error) {
+        console.error('Error reordering categories:', error)
+        return { success: false, error }
+      }
+
+      return { success: true, error: null }
+
+    } catch (error) {
+      console.error('Unexpected error in reorder:', error)
+      return { success: false, error }
+    }
+  },
+
+  /**
+   * Fold a category into another. Its listings, tourism places and
+   * subcategories move to the target and it stays behind, inactive, so old
+   * links redirect. Returns how many listings were moved.
+   */
+  async merge(source: AdminCategory, target: AdminCategory): Promise<{ data: number | null; error: unknown }> {
+    try {
+      const { data, error } = await supabase.rpc('admin_merge_categories', {
+        p_source_id: source.id,
+        p_target_id: target.id
+      })
+
+      if (error) {
+        console.error('Error merging categories:', error)
+        return { data: null, error }
+      }
+
+      return { data: data as number, error: null }
+
+    } catch (error) {
+      console.error('Unexpected error in merge:', error)
+      return { data: null, error }
+    }
+  },
+
+  /**
+   * Switch a category off or back on. One that still has listings needs
+   * somewhere to move them; the database refuses otherwise, and also refuses
+   * while it has active subcategories.
+   */
+  async setActive(
+    category: AdminCategory,
+    active: boolean,
+    moveTo?: AdminCategory | null
+  ): Promise<{ data: number | null; error: unknown }> {
+    try {
+      const { data, error } = await supabase.rpc('admin_set_category_active', {
+        p_category_id: category.id,
+        p_active: active,
+        p_move_to_id: moveTo?.id || null
+      })
+
+      if (error) {
+        console.error('Error changing category status:', error)
+        return { data: null, error }
+      }
+
+      return { data: data as number, error: null }
+
+    } catch (error) {
+      console.error('Unexpected error in setActive:', error)
+      return { data: null, error }
+    }
+  }
+}
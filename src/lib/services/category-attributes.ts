@@ -0,0 +1,498 @@
+// src/lib/services/category-attributes.ts - Per-category listing attributes and facet filters
+import { supabase } from '../supabase'
+
+export type AttributeType = 'boolean' | 'enum' | 'price_range'
+
+export interface PriceRange {
+  min: number
+  max: number
+}
+
+export type AttributeValue = boolean | string | PriceRange
+
+export type BusinessAttributeValues = Record<string, AttributeValue> // By attribute id
+
+export interface CategoryAttribute {
+  id: string
+  category_id: string
+  key: string // URL-safe, used in filter links
+  label: string
+  attribute_type: AttributeType
+  options: string[] // Choices for enum; ascending band limits for price_range
+  unit: string | null // Shown after price ranges, e.g. "for two"
+  is_filterable: boolean
+  sort_order: number
+}
+
+export interface BusinessAttribute {
+  attribute: Pick<CategoryAttribute, 'id' | 'key' | 'label' | 'attribute_type' | 'options' | 'unit'>
+  value: AttributeValue
+}
+
+// What a filter matches: yes, any of these options, or an overlapping price range
+export type AttributeFilter = true | string[] | { min?: number; max?: number }
+
+export type AttributeFilters = Record<string, AttributeFilter> // By attribute id
+
+export type FacetSelections = Record<string, string> // By attribute key, as written in URLs
+
+export interface PriceBand {
+  value: string // e.g. "200-500", "-200", "1000-"
+  label: string
+  min?: number
+  max?: number
+}
+
+export interface CategoryAttributeFormData {
+  key: string
+  label: string
+  attributeType: AttributeType
+  options: string[]
+  unit?: string | null
+  isFilterable: boolean
+}
+
+// A value as stored against a listing
+export interface BusinessAttributeValueRow {
+  attribute_id: string
+  value: AttributeValue
+}
+
+interface BusinessAttributeRow {
+  attribute_id: string
+  key: string
+  label: string
+  attribute_type: AttributeType
+  options: string[]
+  unit: string | null
+  value: AttributeValue
+}
+
+const FACET_PARAM_PREFIX = 'f.'
+const ENUM_FACET_SEPARATOR = '|'
+
+/**
+ * Rupee amount, e.g. ₹1,500
+ */
+export function formatPrice(amount: number): string {
+  return `₹${amount.toLocaleString('en-IN')}`
+}
+
+/**
+ * Readable value for detail pages and review screens
+ */
+export function formatAttributeValue(
+  attribute: Pick<CategoryAttribute, 'attribute_type' | 'unit'>,
+  value: AttributeValue
+): string {
+  if (attribute.attribute_type === 'boolean') {
+    return value === true ? 'Yes' : 'No'
+  }
+
+  if (attribute.attribute_type === 'price_range' && typeof value === 'object') {
+    const range = value.min === value.max
+      ? formatPrice(value.min)
+      : `${formatPrice(value.min)} – ${formatPrice(value.max)}`
+    return attribute.unit ? `${range} ${attribute.unit}` : range
+  }
+
+  return String(value)
+}
+
+/**
+ * Filter bands for a price range attribute, from the limits the admin set
+ */
+export function getPriceBands(attribute: Pick<CategoryAttribute, 'options'>): PriceBand[] {
+  const limits = attribute.options.map(Number).filter(limit => Number.isFinite(limit) && limit > 0)
+  if (limits.length === 0) return []
+
+  return [
+    { value: `-${limits[0]}`, label: `Under ${formatPrice(limits[0])}`, max: limits[0] },
+    ...limits.slice(1).map((limit, index) => ({
+      value: `${limits[index]}-${limit}`,
+      label: `${formatPrice(limits[index])} – ${formatPrice(limit)}`,
+      min: limits[index],
+      max: limit
+    })),
+    { value: `${limits[limits.length - 1]}-`, label: `${formatPrice(limits[limits.length - 1])}+`, min: limits[limits.length - 1] }
+  ]
+}
+
+/**
+ * Facet selections from URL params (f.<key>=<value>)
+ */
+export function parseFacetParams(params: URLSearchParams): FacetSelections {
+  const facets: FacetSelections = {}
+
+  for (const [name, value] of params.entries()) {
+    if (name.startsWith(FACET_PARAM_PREFIX) && value) {
+      facets[name.slice(FACET_PARAM_PREFIX.length)] = value
+    }
+  }
+
+  return facets
+}
+
+/**
+ * Write facet selections to URL params
+ */
+export function setFacetParams(params: URLSearchParams, facets: FacetSelections | null | undefined) {
+  for (const [key, value] of Object.entries(facets || {})) {
+    if (value) params.set(`${FACET_PARAM_PREFIX}${key}`, value)
+  }
+}
+
+/**
+ * Selected options of an enum facet
+ */
+export function getEnumSelections(facetValue: string | undefined): string[] {
+  return facetValue ? facetValue.split(ENUM_FACET_SEPARATOR).filter(Boolean) : []
+}
+
+/**
+ * Add or remove one option of an enum facet
+ */
+export function toggleEnumSelection(facetValue: string | undefined, option: string): string {
+  const selected = getEnumSelections(facetValue)
+  return (selected.includes(option)
+    ? selected.filter(value => value !== option)
+    : [...selected, option]
+  ).join(ENUM_FACET_SEPARATOR)
+}
+
+/**
+ * Turn facet selections into filters for the attributes that apply here.
+ * Unknown keys and values that aren't offered are ignored.
+ */
+export function toAttributeFilters(facets: FacetSelections, attributes: CategoryAttribute[]): AttributeFilters {
+  const filters: AttributeFilters = {}
+
+  for (const attribute of attributes) {
+    const facetValue = facets[attribute.key]
+    if (!facetValue || !attribute.is_filterable || filters[attribute.id]) continue
+
+    if (attribute.attribute_type === 'boolean' && facetValue === 'yes') {
+      filters[attribute.id] = true
+    } else if (attribute.attribute_type === 'enum') {
+      const options = getEnumSelections(facetValue).filter(option => attribute.options.includes(option))
+      if (options.length > 0) filters[attribute.id] = options
+    } else if (attribute.attribute_type === 'price_range') {
+      const band = getPriceBands(attribute).find(priceBand => priceBand.value === facetValue)
+      if (band) filters[attribute.id] = { min: band.min, max: band.max }
+    }
+  }
+
+  return filters
+}
+
+/**
+ * First problem with a listing's attribute values, if any
+ */
+export function validateAttributeValues(attributes: CategoryAttribute[], values: BusinessAttributeValues): string | null {
+  for (const attribute of attributes) {
+    const value = values[attribute.id]
+    if (attribute.attribute_type !== 'price_range' || typeof value !== 'object') continue
+
+    if (!Number.isFinite(value.min) || !Number.isFinite(value.max)) {
+      return `${attribute.label}: enter both the lowest and highest price`
+    }
+    if (value.min < 0 || value.min > value.max) {
+      return `${attribute.label}: the lowest price can't be more than the highest`
+    }
+  }
+
+  return null
+}
+
+/**
+ * Whether a form value counts as filled in
+ */
+function hasValue(attribute: CategoryAttribute, value: AttributeValue | undefined): value is AttributeValue {
+  switch (attribute.attribute_type) {
+    case 'boolean':
+      return typeof value === 'boolean'
+    case 'enum':
+      return typeof value === 'string' && attribute.options.includes(value)
+    case 'price_range':
+      return typeof value === 'object' && Number.isFinite(value.min) && Number.isFinite(value.max)
+  }
+}
+
+// Category Attribute Service
+export const categoryAttributeService = {
+  /**
+   * Attributes for listings in these categories, including those defined on
+   * their parent categories
+   */
+  async getForCategories(categoryIds: string[]): Promise<{ data: CategoryAttribute[] | null; error: unknown }> {
+    try {
+      if (categoryIds.length === 0) {
+        return { data: [], error: null }
+      }
+
+      const { data, error } = await supabase.rpc('get_category_attributes', {
+        p_category_ids: categoryIds
+      })
+
+      if (error) {
+        console.error('Error fetching category attributes:', error)
+        return { data: null, error }
+      }
+
+      return { data: data || [], error: null }
+
+    } catch (error) {
+      console.error('Unexpected error in getForCategories:', error)
+      return { data: null, error }
+    }
+  },
+
+  /**
+   * A listing's filled-in attributes with their definitions, for display
+   */
+  async getBusinessAttributes(businessId: string): Promise<{ data: BusinessAttribute[] | null; error: unknown }> {
+    try {
+      const { data, error } = await supabase.rpc('get_business_attributes', {
+        p_business_id: businessId
+      })
+
+      if (error) {
+        console.error('Error fetching business attributes:', error)
+        return { data: null, error }
+      }
+
+      const attributes: BusinessAttribute[] = ((data || []) as BusinessAttributeRow[]).map(row => ({
+        attribute: {
+          id: row.attribute_id,
+          key: row.key,
+          label: row.label,
+          attribute_type: row.attribute_type,
+          options: row.options,
+          unit: row.unit
+        },
+        value: row.value
+      }))
+
+      return { data: attributes, error: null }
+
+    } catch (error) {
+      console.error('Unexpected error in getBusinessAttributes:', error)
+      return { data: null, error }
+    }
+  },
+
+  /**
+   * A listing's attribute values keyed by attribute id, for the edit form
+   */
+  async getBusinessValues(businessId: string): Promise<{ data: BusinessAttributeValues | null; error: unknown }> {
+    try {
+      const { data, error } = await supabase
+        .from('business_attributes')
+        .select('attribute_id, value')
+        .eq('business_id', businessId)
+
+      if (error) {
+        console.error('Error fetching business attribute values:', error)
+        return { data: null, error }
+      }
+
+      const values: BusinessAttributeValues = {}
+      for (const row of data || []) {
+        values[row.attribute_id] = row.value
+      }
+
+      return { data: values, error: null }
+
+    } catch (error) {
+      console.error('Unexpected error in getBusinessValues:', error)
+      return { data: null, error }
+    }
+  },
+
+  /**
+   * The values worth storing for a listing: those for attributes that apply to
+   * its categories and aren't left blank
+   */
+  async getValuesToSave(
+    categoryIds: string[],
+    values: BusinessAttributeValues
+  ): Promise<{ data: BusinessAttributeValueRow[] | null; error: unknown }> {
+    try {
+      const { data: attributes, error } = await this.getForCategories(categoryIds)
+      if (error) {
+        return { data: null, error }
+      }
+
+      const rows = (attributes || []).flatMap(attribute => {
+        const value = values[attribute.id]
+        return hasValue(attribute, value) ? [{ attribute_id: attribute.id, value }] : []
+      })
+
+      return { data: rows, error: null }
+
+    } catch (error) {
+      console.error('Unexpected error in getValuesToSave:', error)
+      return { data: null, error }
+    }
+  },
+
+  /**
+   * Replace a listing's attribute values in one transaction. Values for
+   * attributes that don't apply to its categories, or left blank, are dropped.
+   */
+  async saveBusinessValues(
+    businessId: string,
+    categoryIds: string[],
+    values: BusinessAttributeValues
+  ): Promise<{ success: boolean; error: unknown }> {
+    try {
+      const { data: rows, error: rowsError } = await this.getValuesToSave(categoryIds, values)
+      if (rowsError) {
+        return { success: false, error: rowsError }
+      }
+
+      const { error } = await supabase.rpc('replace_business_categories', {
+        p_business_id: businessId,
+        p_attributes: rows
+      })
+
+      if (error) {
+        console.error('Error saving business attributes:', error)
+        return { success: false, error }
+      }
+
+      return { success: true, error: null }
+
+    } catch (error) {
+      console.error('Unexpected error in saveBusinessValues:', error)
+      return { success: false, error }
+    }
+  },
+
+  /**
+   * Attributes defined directly on one category (admin function)
+   */
+  async getByCategory(categoryId: string): Promise<{ data: CategoryAttribute[] | null; error: unknown }> {
+    try {
+      const { data, error } = await supabase
+        .from('category_attributes')
+        .select('id, category_id, key, label, attribute_type, options, unit, is_filterable, sort_order')
+        .eq('category_id', categoryId)
+        .order('sort_order')
+        .order('label')
+
+      if (error) {
+        console.error('Error fetching category attributes:', error)
+        return { data: null, error }
+      }
+
+      return { data: data || [], error: null }
+
+    } catch (error) {
+      console.error('Unexpected error in getByCategory:', error)
+      return { data: null, error }
+    }
+  },
+
+  /**
+   * Add an attribute to a category (admin function)
+   */
+  async create(
+    categoryId: string,
+    formData: CategoryAttributeFormData,
+    sortOrder: number
+  ): Promise<{ data: CategoryAttribute | null; error: unknown }> {
+    try {
+      const row = toAttributeRow(formData)
+
+      const { data, error } = await supabase
+        .from('category_attributes')
+        .insert({ ...row, category_id: categoryId, sort_order: sortOrder })
+        .select('id, category_id, key, label, attribute_type, options, unit, is_filterable, sort_order')
+        .single()
+
+      if (error) {
+        console.error('Error creating category attribute:', error)
+        return { data: null, error }
+      }
+
+      return { data, error: null }
+
+    } catch (error) {
+      console.error('Unexpected error in create:', error)
+      return { data: null, error }
+    }
+  },
+
+  /**
+   * Change an attribute's label, choices or filter setting (admin function).
+   * The type stays as created, since listings may already have values.
+   */
+  async update(attribute: CategoryAttribute, formData: CategoryAttributeFormData): Promise<{ success: boolean; error: unknown }> {
+    try {
+      const row = toAttributeRow({ ...formData, attributeType: attribute.attribute_type })
+
+      const { error } = await supabase
+        .from('category_attributes')
+        .update({ ...row, updated_at: new Date().toISOString() })
+        .eq('id', attribute.id)
+
+      if (error) {
+        console.error('Error updating category attribute:', error)
+        return { success: false, error }
+      }
+
+      return { success: true, error: null }
+
+    } catch (error) {
+      console.error('Unexpected error in update:', error)
+      return { success: false, error }
+    }
+  },
+
+  /**
+   * Remove an attribute and every listing's value for it (admin function)
+   */
+  async remove(attribute: CategoryAttribute): Promise<{ success: boolean; error: unknown }> {
+    try {
+      const { error } = await supabase
+        .from('category_attributes')
+        .delete()
+        .eq('id', attribute.id)
+
+      if (error) {
+        console.error('Error deleting category attribute:', error)
+        return { success: false, error }
+      }
+
+      return { success: true, error: null }
+
+    } catch (error) {
+      console.error('Unexpected error in remove:', error)
+      return { success: false, error }
+    }
+  }
+}
+
+/**
+ * Table columns from the admin form. Enum choices are trimmed and deduped;
+ * price limits are kept as ascending whole numbers.
+ */
+function toAttributeRow(formData: CategoryAttributeFormData) {
+  const options = formData.attributeType === 'enum'
+    ? [...new Set(formData.options.map(option => option.trim()).filter(Boolean))]
+    : formData.attributeType === 'price_range'
+      ? [...new Set(formData.options.map(Number).filter(limit => Number.isInteger(limit) && limit > 0))]
+          .sort((a, b) => a - b)
+          .map(String)
+      : []
+
+  return {
+    key: formData.key.trim(),
+    label: formData.label.trim(),
+    attribute_type: formData.attributeType,
+    options,
+    unit: formData.attributeType === 'price_range' ? formData.unit?.trim() || null : null,
+    is_filterable: formData.isFilterable
+  }
+}
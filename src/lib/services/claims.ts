@@ -0,0 +1,334 @@
+// src/lib/services/claims.ts - Business claims and ownership verification
+import { supabase } from '../supabase'
+import { userService } from './user'
+
+export type ClaimMethod = 'email' | 'phone' | 'document'
+export type ClaimStatus = 'pending_verification' | 'pending_review' | 'approved' | 'rejected'
+
+export interface BusinessClaim {
+  id: string
+  business_id: string
+  user_id: string
+  method: ClaimMethod
+  contact_value: string | null
+  document_path: string | null
+  message: string | null
+  status: ClaimStatus
+  verified_at: string | null
+  review_note: string | null
+  reviewed_at: string | null
+  created_at: string
+  // Related data
+  business_name?: string
+  business_slug?: string
+  claimant_name?: string | null
+  claimant_email?: string | null
+}
+
+interface ClaimRow extends Omit<BusinessClaim, 'business_name' | 'business_slug' | 'claimant_name' | 'claimant_email'> {
+  businesses: { name: string; slug: string } | null
+  profiles: { full_name: string | null; email: string } | null
+}
+
+export const CLAIM_DOCUMENT_LIMITS = {
+  maxFileSizeMb: 10,
+  acceptedTypes: ['application/pdf', 'image/jpeg', 'image/png', 'image/webp']
+}
+
+const DOCUMENT_BUCKET = 'claim-documents'
+
+// Claim code endpoints run on the server with the caller's session token
+async function callClaimApi<T = unknown>(path: string, body?: object): Promise<{ data: T | null; error: unknown }> {
+  const { data: { session } } = await supabase.auth.getSession()
+  if (!session) {
+    return { data: null, error: 'Please sign in again' }
+  }
+
+  const response = await fetch(path, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${session.access_token}`
+    },
+    body: JSON.stringify(body || {})
+  })
+
+  const result = await response.json().catch(() => ({}))
+  if (!response.ok) {
+    return { data: null, error: result.error || 'Something went wrong' }
+  }
+
+  return { data: result as T, error: null }
+}
+
+// Claim Service
+export const claimService = {
+  /**
+   * The user's most recent claim on a business, if any
+   */
+  async getMyClaim(businessId: string, userId: string): Promise<{ data: BusinessClaim | null; error: unknown }> {
+    try {
+      const { data, error } = await supabase
+        .from('business_claims')
+        .select('*')
+        .eq('business_id', businessId)
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle()
+
+      if (error) {
+        console.error('Error fetching claim:', error)
+        return { data: null, error }
+      }
+
+      return { data, error: null }
+
+    } catch (error) {
+      console.error('Unexpected error in getMyClaim:', error)
+      return { data: null, error }
+    }
+  },
+
+  /**
+   * Start a claim. Email and phone claims then need a code; document claims
+   * go straight to admin review.
+   */
+  async startClaim(
+    businessId: string,
+    userId: string,
+    options: {
+      method: ClaimMethod
+      contactValue?: string
+      document?: File
+      message?: string
+    }
+  ): Promise<{ data: BusinessClaim | null; error: unknown }> {
+    try {
+      let documentPath: string | null = null
+
+      if (options.method === 'document') {
+        const file = options.document
+        if (!file) {
+          return { data: null, error: 'Please attach a document' }
+        }
+        if (!CLAIM_DOCUMENT_LIMITS.acceptedTypes.includes(file.type)) {
+          return { data: null, error: 'Please upload a PDF or an image' }
+        }
+        if (file.size > CLAIM_DOCUMENT_LIMITS.maxFileSizeMb * 1024 * 1024) {
+          return { data: null, error: `Documents must be under ${CLAIM_DOCUMENT_LIMITS.maxFileSizeMb} MB` }
+        }
+
+        const fileExt = file.name.split('.').pop()
+        documentPath = `claims/${businessId}/${userId}/${Date.now()}.${fileExt}`
+
+        const { error: uploadError } = await supabase.storage
+          .from(DOCUMENT_BUCKET)
+          .upload(documentPath, file, { upsert: false })
+
+        if (uploadError) {
+          console.error('Error uploading claim document:', uploadError)
+          return { data: null, error: 'Failed to upload document' }
+        }
+      }
+
+      const { data, error } = await supabase
+        .from('business_claims')
+        .insert([{
+          business_id: businessId,
+          user_id: userId,
+          method: options.method,
+          contact_value: options.method === 'document' ? null : options.contactValue,
+          document_path: documentPath,
+          message: options.message?.trim() || null,
+          status: options.method === 'document' ? 'pending_review' : 'pending_verification'
+        }])
+        .select()
+        .single()
+
+      if (error) {
+        console.error('Error starting claim:', error)
+
+        if (documentPath) {
+          await supabase.storage.from(DOCUMENT_BUCKET).remove([documentPath])
+        }
+
+        if (error.code === '23505') {
+          return { data: null, error: 'You already have a claim in progress for this business' }
+        }
+        return { data: null, error: 'Failed to start claim' }
+      }
+
+      return { data, error: null }
+
+    } catch (error) {
+      console.error('Unexpected error in startClaim:', error)
+      return { data: null, error: 'Failed to start claim' }
+    }
+  },
+
+  /**
+   * Send (or resend) the one-time code for an email or phone claim
+   */
+  async sendClaimCode(claimId: string): Promise<{ data: { sentTo: string; expiresInMinutes: number } | null; error: unknown }> {
+    try {
+      return await callClaimApi<{ sentTo: string; expiresInMinutes: number }>(`/api/claims/${claimId}/code`)
+    } catch (error) {
+      console.error('Unexpected error in sendClaimCode:', error)
+      return { data: null, error: 'Failed to send code' }
+    }
+  },
+
+  /**
+   * Check the code; a match moves the claim on to admin review
+   */
+  async verifyClaimCode(claimId: string, code: string): Promise<{ success: boolean; error: unknown }> {
+    try {
+      const { error } = await callClaimApi(`/api/claims/${claimId}/verify`, { code })
+      return { success: !error, error }
+    } catch (error) {
+      console.error('Unexpected error in verifyClaimCode:', error)
+      return { success: false, error: 'Failed to verify code' }
+    }
+  },
+
+  /**
+   * Claims waiting for a decision, oldest first (admin)
+   */
+  async getClaimsForReview(status: ClaimStatus = 'pending_review'): Promise<{ data: BusinessClaim[] | null; error: unknown }> {
+    try {
+      const { data, error } = await supabase
+        .from('business_claims')
+        .select(`
+          *,
+          businesses:business_id(name, slug),
+          profiles:user_id(full_name, email)
+        `)
+        .eq('status', status)
+        .order('created_at', { ascending: status === 'pending_review' })
+        .limit(100)
+        .overrideTypes<ClaimRow[], { merge: false }>()
+
+      if (error) {
+        console.error('Error fetching claims:', error)
+        return { data: null, error }
+      }
+
+      const claims: BusinessClaim[] = (data || []).map(item => ({
+        ...item,
+        business_name: item.businesses?.name,
+        business_slug: item.businesses?.slug,
+        claimant_name: item.profiles?.full_name || null,
+        claimant_email: item.profiles?.email || null
+      }))
+
+      return { data: claims, error: null }
+
+    } catch (error) {
+      console.error('Unexpected error in getClaimsForReview:', error)
+      return { data: null, error }
+    }
+  },
+
+  /**
+   * Short-lived link to a claim document (admin)
+   */
+  async getDocumentUrl(path: string): Promise<{ data: string | null; error: unknown }> {
+    try {
+      const { data, error } = await supabase.storage
+        .from(DOCUMENT_BUCKET)
+        .createSignedUrl(path, 600)
+
+      if (error) {
+        console.error('Error creating document link:', error)
+        return { data: null, error }
+      }
+
+      return { data: data.signedUrl, error: null }
+
+    } catch (error) {
+      console.error('Unexpected error in getDocumentUrl:', error)
+      return { data: null, error }
+    }
+  },
+
+  /**
+   * Approve or reject a claim (admin). Approval hands the listing to the
+   * claimant, marks it verified and closes competing claims.
+   */
+  async reviewClaim(
+    claim: BusinessClaim,
+    adminId: string,
+    decision: 'approved' | 'rejected',
+    note?: string
+  ): Promise<{ success: boolean; error: unknown }> {
+    try {
+      const reviewedAt = new Date().toISOString()
+
+      if (decision === 'approved') {
+        const { error: businessError } = await supabase
+          .from('businesses')
+          .update({
+            owner_id: claim.user_id,
+            is_verified: true,
+            updated_at: reviewedAt
+          })
+          .eq('id', claim.business_id)
+
+        if (businessError) {
+          console.error('Error transferring business:', businessError)
+          return { success: false, error: businessError }
+        }
+
+        // Admins keep their role
+        const { data: role } = await userService.getCurrentUserRole(claim.user_id)
+        if (role !== 'admin') {
+          const { success, error: roleError } = await userService.updateUserRole(claim.user_id, 'business_owner', 'Business claim approved')
+          if (!success) {
+            return { success: false, error: roleError }
+          }
+        }
+      }
+
+      const { error } = await supabase
+        .from('business_claims')
+        .update({
+          status: decision,
+          review_note: note?.trim() || null,
+          reviewed_by: adminId,
+          reviewed_at: reviewedAt,
+          updated_at: reviewedAt
+        })
+        .eq('id', claim.id)
+
+      if (error) {
+        console.error('Error reviewing claim:', error)
+        return { success: false, error }
+      }
+
+      if (decision === 'approved') {
+        const { error: closeError } = await supabase
+          .from('business_claims')
+          .update({
+            status: 'rejected',
+            review_note: 'Another claim for this business was approved',
+            reviewed_by: adminId,
+            reviewed_at: reviewedAt,
+            updated_at: reviewedAt
+          })
+          .eq('business_id', claim.business_id)
+          .in('status', ['pending_verification', 'pending_review'])
+
+        if (closeError) {
+          console.error('Error closing other claims:', closeError)
+        }
+      }
+
+      return { success: true, error: null }
+
+    } catch (error) {
+      console.error('Unexpected error in reviewClaim:', error)
+      return { success: false, error }
+    }
+  }
+}
@@ -0,0 +1,109 @@
+// src/lib/services/directory.ts - Listing counts and ratings for the directory pages
+import { supabase } from '../supabase'
+
+export interface DirectoryStats {
+  business_count: number // Published listings
+  featured_count: number
+  review_count: number
+  average_rating: number | null // Across published reviews, null when there are none
+}
+
+export interface CityStats extends DirectoryStats {
+  id: string
+  name: string
+  slug: string
+}
+
+export interface AreaStats extends DirectoryStats {
+  id: string
+  name: string
+  slug: string
+  city_id: string
+  city_name: string
+}
+
+export interface CategoryStats extends DirectoryStats {
+  id: string
+  name: string
+  slug: string
+  parent_id: string | null
+  sort_order: number
+}
+
+export interface DirectoryOverview {
+  cities: CityStats[]
+  areas: AreaStats[]
+  categories: CategoryStats[]
+  totals: DirectoryStats // Sum over cities, so a listing is counted once
+}
+
+interface DirectoryStatsRow extends DirectoryStats {
+  entity_type: 'city' | 'area' | 'category'
+  entity_id: string
+  name: string
+  slug: string
+  city_id: string | null
+  city_name: string | null
+  parent_id: string | null
+  sort_order: number | null
+}
+
+// Directory Service
+export const directoryService = {
+  /**
+   * Every active city, area and business category with its listing count,
+   * featured count and average rating, in one request. Counts are kept up to
+   * date by the database as listings and reviews change. A category's counts
+   * include the listings of its subcategories.
+   */
+  async getOverview(): Promise<{ data: DirectoryOverview | null; error: unknown }> {
+    try {
+      const { data, error } = await supabase.rpc('get_directory_stats')
+
+      if (error) {
+        console.error('Error fetching directory stats:', error)
+        return { data: null, error }
+      }
+
+      const overview: DirectoryOverview = {
+        cities: [],
+        areas: [],
+        categories: [],
+        totals: { business_count: 0, featured_count: 0, review_count: 0, average_rating: null }
+      }
+      let ratingSum = 0
+
+      for (const row of (data || []) as DirectoryStatsRow[]) {
+        const stats: DirectoryStats = {
+          business_count: row.business_count,
+          featured_count: row.featured_count,
+          review_count: row.review_count,
+          average_rating: row.average_rating === null ? null : Number(row.average_rating)
+        }
+        const base = { id: row.entity_id, name: row.name, slug: row.slug, ...stats }
+
+        if (row.entity_type === 'city') {
+          overview.cities.push(base)
+          overview.totals.business_count += stats.business_count
+          overview.totals.featured_count += stats.featured_count
+          overview.totals.review_count += stats.review_count
+          ratingSum += (stats.average_rating || 0) * stats.review_count
+        } else if (row.entity_type === 'area') {
+          overview.areas.push({ ...base, city_id: row.city_id!, city_name: row.city_name || '' })
+        } else {
+          overview.categories.push({ ...base, parent_id: row.parent_id, sort_order: row.sort_order ?? 0 })
+        }
+      }
+
+      if (overview.totals.review_count > 0) {
+        overview.totals.average_rating = Math.round((ratingSum / overview.totals.review_count) * 100) / 100
+      }
+
+      return { data: overview, error: null }
+
+    } catch (error) {
+      console.error('Unexpected error in getOverview:', error)
+      return { data: null, error }
+    }
+  }
+}
@@ -0,0 +1,84 @@
+// src/lib/services/geo.ts - "Near me" lookups by distance from a point
+import { supabase } from '../supabase'
+
+export interface GeoPoint {
+  latitude: number
+  longitude: number
+}
+
+export interface NearbyFilter extends GeoPoint {
+  radiusKm: number
+}
+
+export interface MapBounds {
+  north: number
+  south: number
+  east: number
+  west: number
+}
+
+export interface NearbyMatch {
+  id: string
+  distance_km: number
+}
+
+export const DEFAULT_NEARBY_RADIUS_KM = 5
+export const NEARBY_RADIUS_OPTIONS = [1, 2, 5, 10, 25]
+const MAX_NEARBY_RADIUS_KM = 50
+
+/**
+ * Read a nearby filter from URL params (near=lat,lng&radius=km)
+ */
+export function parseNearbyParams(near: string | null, radius: string | null): NearbyFilter | null {
+  if (!near) return null
+
+  const [latitude, longitude] = near.split(',').map(Number)
+  if (!Number.isFinite(latitude) || !Number.isFinite(longitude)) return null
+  if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180) return null
+
+  const radiusKm = Number(radius)
+  return {
+    latitude,
+    longitude,
+    radiusKm: radiusKm > 0 ? Math.min(radiusKm, MAX_NEARBY_RADIUS_KM) : DEFAULT_NEARBY_RADIUS_KM
+  }
+}
+
+/**
+ * Write a nearby filter to URL params. Coordinates are rounded to ~100m so
+ * shared links don't pinpoint where the visitor was standing.
+ */
+export function setNearbyParams(params: URLSearchParams, nearby: NearbyFilter | null | undefined) {
+  if (!nearby) return
+
+  params.set('near', `${nearby.latitude.toFixed(3)},${nearby.longitude.toFixed(3)}`)
+  if (nearby.radiusKm !== DEFAULT_NEARBY_RADIUS_KM) params.set('radius', nearby.radiusKm.toString())
+}
+
+// Geo Service
+export const geoService = {
+  /**
+   * Published businesses or tourism places within the radius, nearest first
+   */
+  async getNearby(entityType: 'business' | 'tourism', nearby: NearbyFilter): Promise<{ data: NearbyMatch[] | null; error: unknown }> {
+    try {
+      const { data, error } = await supabase.rpc('nearby_entities', {
+        p_entity_type: entityType,
+        p_latitude: nearby.latitude,
+        p_longitude: nearby.longitude,
+        p_radius_km: nearby.radiusKm
+      })
+
+      if (error) {
+        console.error('Error fetching nearby places:', error)
+        return { data: null, error }
+      }
+
+      return { data: (data || []) as NearbyMatch[], error: null }
+
+    } catch (error) {
+      console.error('Unexpected error in getNearby:', error)
+      return { data: null, error }
+    }
+  }
+}
@@ -0,0 +1,145 @@
+// src/lib/services/media-upload.ts - Shared upload path for processed images
+import { supabase } from '../supabase'
+import { processImage, type ImagePreset, type ProcessedImageVariant } from '../image-processing'
+
+export interface StoredImageVariant {
+  url: string
+  path: string
+  width: number
+  height: number
+}
+
+export interface UploadedImage extends StoredImageVariant {
+  mimeType: string
+  fileSize: number
+  fileName: string
+  blurhash: string
+  variants: Record<string, StoredImageVariant>
+}
+
+/**
+ * The media_files columns describing an uploaded image
+ */
+export function toMediaFileColumns(image: UploadedImage) {
+  return {
+    url: image.url,
+    image_path: image.path,
+    file_name: image.fileName,
+    file_size: image.fileSize,
+    mime_type: image.mimeType,
+    width: image.width,
+    height: image.height,
+    blurhash: image.blurhash,
+    variants: image.variants
+  }
+}
+
+/**
+ * Every storage path behind a media_files row (main image and its variants)
+ */
+export function getStoredImagePaths(row: { image_path: string | null; variants?: Record<string, StoredImageVariant> | null }): string[] {
+  return [row.image_path, ...Object.values(row.variants || {}).map(variant => variant.path)]
+    .filter((path): path is string => !!path)
+}
+
+// Media Upload Service
+export const mediaUploadService = {
+  /**
+   * Process an image and upload it with its variants. basePath is the storage
+   * path without an extension; variants are stored alongside as basePath-<name>.
+   */
+  async uploadImage(
+    file: File,
+    options: {
+      bucket: string
+      basePath: string
+      preset: ImagePreset
+      upsert?: boolean
+    }
+  ): Promise<{ data: UploadedImage | null; error: unknown }> {
+    let processed
+    try {
+      processed = await processImage(file, options.preset)
+    } catch (error) {
+      return { data: null, error: error instanceof Error ? error.message : 'Failed to process image' }
+    }
+
+    const uploaded: string[] = []
+
+    const store = async (variant: ProcessedImageVariant, path: string): Promise<StoredImageVariant> => {
+      const { error } = await supabase.storage
+        .from(options.bucket)
+        .upload(path, variant.blob, {
+          cacheControl: '31536000',
+          contentType: variant.mimeType,
+          upsert: options.upsert ?? false
+        })
+
+      if (error) {
+        throw error
+      }
+      uploaded.push(path)
+
+      const { data: urlData } = supabase.storage
+        .from(options.bucket)
+        .getPublicUrl(path)
+
+      return { url: urlData.publicUrl, path, width: variant.width, height: variant.height }
+    }
+
+    try {
+      const main = await store(processed, `${options.basePath}.${processed.extension}`)
+
+      const variants: Record<string, StoredImageVariant> = {}
+      for (const variant of processed.variants) {
+        variants[variant.name] = await store(variant, `${options.basePath}-${variant.name}.${variant.extension}`)
+      }
+
+      return {
+        data: {
+          ...main,
+          mimeType: processed.mimeType,
+          fileSize: processed.blob.size,
+          fileName: processed.originalName,
+          blurhash: processed.blurhash,
+          variants
+        },
+        error: null
+      }
+
+    } catch (error) {
+      console.error('Unexpected error in uploadImage:', error)
+
+      // Don't leave a partial set of files behind
+      if (uploaded.length > 0) {
+        await supabase.storage.from(options.bucket).remove(uploaded)
+      }
+
+      return { data: null, error: 'Failed to upload image' }
+    }
+  },
+
+  /**
+   * Delete an uploaded image and its variants from storage
+   */
+  async removeImage(bucket: string, paths: string[]): Promise<{ success: boolean; error: unknown }> {
+    if (paths.length === 0) {
+      return { success: true, error: null }
+    }
+
+    try {
+      const { error } = await supabase.storage.from(bucket).remove(paths)
+
+      if (error) {
+        console.error('Error removing image files:', error)
+        return { success: false, error }
+      }
+
+      return { success: true, error: null }
+
+    } catch (error) {
+      console.error('Unexpected error in removeImage:', error)
+      return { success: false, error }
+    }
+  }
+}
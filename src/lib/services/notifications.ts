@@ -0,0 +1,388 @@
+// src/lib/services/notifications.ts - In-app notifications, email and in-app preferences, live updates
+import { supabase } from '../supabase'
+
+export type NotificationType =
+  | 'review_reply'
+  | 'new_review'
+  | 'listing_pending'
+  | 'listing_status'
+  | 'team_invitation'
+
+export interface UserNotification {
+  id: string
+  user_id: string
+  type: NotificationType
+  title: string
+  body: string | null
+  link: string | null
+  data: Record<string, unknown>
+  read_at: string | null
+  created_at: string
+}
+
+export type NotificationPreferences = Record<NotificationType, boolean>
+
+export interface NotificationTypeOption {
+  value: NotificationType
+  label: string
+  description: string
+  audience: 'everyone' | 'business' | 'admin'
+}
+
+export const NOTIFICATION_TYPE_OPTIONS: NotificationTypeOption[] = [
+  {
+    value: 'review_reply',
+    label: 'Replies to my reviews',
+    description: 'When a business responds to something you wrote',
+    audience: 'everyone'
+  },
+  {
+    value: 'team_invitation',
+    label: 'Team invitations',
+    description: 'When someone invites you to help run their business',
+    audience: 'everyone'
+  },
+  {
+    value: 'new_review',
+    label: 'New reviews',
+    description: 'When a review goes live on a business you help run',
+    audience: 'business'
+  },
+  {
+    value: 'listing_status',
+    label: 'Listing decisions',
+    description: 'When a listing you manage is approved, rejected or suspended',
+    audience: 'business'
+  },
+  {
+    value: 'listing_pending',
+    label: 'Listings awaiting approval',
+    description: 'When a new or resubmitted listing joins the review queue',
+    audience: 'admin'
+  }
+]
+
+// Email is opted out of by category, or all at once with 'all'
+export type EmailCategory = 'listing_updates' | 'new_reviews' | 'review_replies' | 'weekly_digest'
+
+export type EmailPreferences = Record<EmailCategory | 'all', boolean>
+
+export interface EmailCategoryOption {
+  value: EmailCategory
+  label: string
+  description: string
+  audience: 'everyone' | 'business'
+}
+
+export const EMAIL_CATEGORY_OPTIONS: EmailCategoryOption[] = [
+  {
+    value: 'review_replies',
+    label: 'Replies to my reviews',
+    description: 'When a business responds to something you wrote',
+    audience: 'everyone'
+  },
+  {
+    value: 'listing_updates',
+    label: 'Listing and claim updates',
+    description: 'When a listing is submitted, approved, rejected or suspended, or a claim is decided',
+    audience: 'business'
+  },
+  {
+    value: 'new_reviews',
+    label: 'New reviews',
+    description: 'When a review goes live on a business you own or manage',
+    audience: 'business'
+  },
+  {
+    value: 'weekly_digest',
+    label: 'Weekly digest',
+    description: 'A Monday summary of new reviews and rating changes for your businesses',
+    audience: 'business'
+  }
+]
+
+// Notification Service
+export const notificationService = {
+  /**
+   * A page of the user's notifications, newest first
+   */
+  async getNotifications(
+    userId: string,
+    options: { unreadOnly?: boolean; limit?: number; offset?: number } = {}
+  ): Promise<{ data: UserNotification[] | null; hasMore: boolean; error: unknown }> {
+    try {
+      const { unreadOnly = false, limit = 20, offset = 0 } = options
+
+      let query = supabase
+        .from('notifications')
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false })
+        .range(offset, offset + limit) // One extra row tells us whether there is another page
+
+      if (unreadOnly) {
+        query = query.is('read_at', null)
+      }
+
+      const { data, error } = await query
+
+      if (error) {
+        console.error('Error fetching notifications:', error)
+        return { data: null, hasMore: false, error }
+      }
+
+      const notifications = (data || []) as UserNotification[]
+
+      return { data: notifications.slice(0, limit), hasMore: notifications.length > limit, error: null }
+
+    } catch (error) {
+      console.error('Unexpected error in getNotifications:', error)
+      return { data: null, hasMore: false, error }
+    }
+  },
+
+  /**
+   * Number of unread notifications, for the bell
+   */
+  async getUnreadCount(userId: string): Promise<{ data: number; error: unknown }> {
+    try {
+      const { count, error } = await supabase
+        .from('notifications')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', userId)
+        .is('read_at', null)
+
+      if (error) {
+        console.error('Error counting unread notifications:', error)
+        return { data: 0, error }
+      }
+
+      return { data: count || 0, error: null }
+
+    } catch (error) {
+      console.error('Unexpected error in getUnreadCount:', error)
+      return { data: 0, error }
+    }
+  },
+
+  /**
+   * Mark some notifications read
+   */
+  async markAsRead(ids: string[]): Promise<{ success: boolean; error: unknown }> {
+    try {
+      if (ids.length === 0) {
+        return { success: true, error: null }
+      }
+
+      const { error } = await supabase
+        .from('notifications')
+        .update({ read_at: new Date().toISOString() })
+        .in('id', ids)
+        .is('read_at', null)
+
+      if (error) {
+        console.error('Error marking notifications read:', error)
+        return { success: false, error }
+      }
+
+      return { success: true, error: null }
+
+    } catch (error) {
+      console.error('Unexpected error in markAsRead:', error)
+      return { success: false, error }
+    }
+  },
+
+  /**
+   * Put a notification back to unread
+   */
+  async markAsUnread(id: string): Promise<{ success: boolean; error: unknown }> {
+    try {
+      const { error } = await supabase
+        .from('notifications')
+        .update({ read_at: null })
+        .eq('id', id)
+
+      if (error) {
+        console.error('Error marking notification unread:', error)
+        return { success: false, error }
+      }
+
+      return { success: true, error: null }
+
+    } catch (error) {
+      console.error('Unexpected error in markAsUnread:', error)
+      return { success: false, error }
+    }
+  },
+
+  /**
+   * Mark everything the user has read
+   */
+  async markAllAsRead(userId: string): Promise<{ success: boolean; error: unknown }> {
+    try {
+      const { error } = await supabase
+        .from('notifications')
+        .update({ read_at: new Date().toISOString() })
+        .eq('user_id', userId)
+        .is('read_at', null)
+
+      if (error) {
+        console.error('Error marking all notifications read:', error)
+        return { success: false, error }
+      }
+
+      return { success: true, error: null }
+
+    } catch (error) {
+      console.error('Unexpected error in markAllAsRead:', error)
+      return { success: false, error }
+    }
+  },
+
+  /**
+   * Which types the user gets in the app. Types without a saved row are on.
+   */
+  async getPreferences(userId: string): Promise<{ data: NotificationPreferences | null; error: unknown }> {
+    try {
+      const { data, error } = await supabase
+        .from('notification_preferences')
+        .select('type, in_app')
+        .eq('user_id', userId)
+
+      if (error) {
+        console.error('Error fetching notification preferences:', error)
+        return { data: null, error }
+      }
+
+      const preferences = Object.fromEntries(
+        NOTIFICATION_TYPE_OPTIONS.map(option => [option.value, true])
+      ) as NotificationPreferences
+
+      for (const row of data || []) {
+        if (row.type in preferences) {
+          preferences[row.type as NotificationType] = row.in_app
+        }
+      }
+
+      return { data: preferences, error: null }
+
+    } catch (error) {
+      console.error('Unexpected error in getPreferences:', error)
+      return { data: null, error }
+    }
+  },
+
+  /**
+   * Turn one type on or off
+   */
+  async updatePreference(userId: string, type: NotificationType, inApp: boolean): Promise<{ success: boolean; error: unknown }> {
+    try {
+      const { error } = await supabase
+        .from('notification_preferences')
+        .upsert({
+          user_id: userId,
+          type,
+          in_app: inApp,
+          updated_at: new Date().toISOString()
+        })
+
+      if (error) {
+        console.error('Error updating notification preference:', error)
+        return { success: false, error }
+      }
+
+      return { success: true, error: null }
+
+    } catch (error) {
+      console.error('Unexpected error in updatePreference:', error)
+      return { success: false, error }
+    }
+  },
+
+  /**
+   * Which emails the user receives. Categories without a saved row are on.
+   */
+  async getEmailPreferences(userId: string): Promise<{ data: EmailPreferences | null; error: unknown }> {
+    try {
+      const { data, error } = await supabase
+        .from('email_preferences')
+        .select('category, enabled')
+        .eq('user_id', userId)
+
+      if (error) {
+        console.error('Error fetching email preferences:', error)
+        return { data: null, error }
+      }
+
+      const preferences = Object.fromEntries(
+        [...EMAIL_CATEGORY_OPTIONS.map(option => option.value), 'all'].map(category => [category, true])
+      ) as EmailPreferences
+
+      for (const row of data || []) {
+        if (row.category in preferences) {
+          preferences[row.category as keyof EmailPreferences] = row.enabled
+        }
+      }
+
+      return { data: preferences, error: null }
+
+    } catch (error) {
+      console.error('Unexpected error in getEmailPreferences:', error)
+      return { data: null, error }
+    }
+  },
+
+  /**
+   * Turn one email category, or all email, on or off
+   */
+  async updateEmailPreference(userId: string, category: keyof EmailPreferences, enabled: boolean): Promise<{ success: boolean; error: unknown }> {
+    try {
+      const { error } = await supabase
+        .from('email_preferences')
+        .upsert({
+          user_id: userId,
+          category,
+          enabled,
+          updated_at: new Date().toISOString()
+        })
+
+      if (error) {
+        console.error('Error updating email preference:', error)
+        return { success: false, error }
+      }
+
+      return { success: true, error: null }
+
+    } catch (error) {
+      console.error('Unexpected error in updateEmailPreference:', error)
+      return { success: false, error }
+    }
+  },
+
+  /**
+   * Live inserts, updates and deletes on the user's notifications.
+   * Returns a function that stops listening.
+   */
+  subscribe(
+    userId: string,
+    onChange: (event: 'INSERT' | 'UPDATE' | 'DELETE', notification: UserNotification) => void
+  ): () => void {
+    // Each subscriber needs its own channel; the bell and the center can be mounted together
+    const channel = supabase
+      .channel(`notifications:${userId}:${Math.random().toString(36).slice(2)}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'notifications', filter: `user_id=eq.${userId}` },
+        payload => {
+          const notification = (payload.eventType === 'DELETE' ? payload.old : payload.new) as UserNotification
+          onChange(payload.eventType, notification)
+        }
+      )
+      .subscribe()
+
+    return () => {
+      supabase.removeChannel(channel)
+    }
+  }
+}
@@ -0,0 +1,294 @@
+// src/lib/services/reports.ts - User reports on reviews, replies and listings
+import { supabase } from '../supabase'
+
+export type ReportEntityType = 'review' | 'tourism_review' | 'review_reply' | 'business'
+export type ReportReason =
+  | 'spam'
+  | 'fake'
+  | 'offensive'
+  | 'harassment'
+  | 'conflict_of_interest'
+  | 'fraud'
+  | 'wrong_info'
+  | 'other'
+export type ReportStatus = 'open' | 'actioned' | 'dismissed'
+
+export interface Report {
+  id: string
+  entity_type: ReportEntityType
+  entity_id: string
+  reporter_id: string
+  reason: ReportReason
+  details: string | null
+  status: ReportStatus
+  outcome_note: string | null
+  resolved_at: string | null
+  created_at: string
+  // Related data
+  reporter_name?: string | null
+}
+
+// All reports against one item, for triage
+export interface ReportedItem {
+  entity_type: ReportEntityType
+  entity_id: string
+  title: string
+  excerpt: string | null
+  href: string | null
+  reports: Report[]
+  latest_report_at: string
+}
+
+export const REPORT_REASONS: { value: ReportReason; label: string; appliesTo: ReportEntityType[] }[] = [
+  { value: 'spam', label: 'Spam or advertising', appliesTo: ['review', 'tourism_review', 'review_reply', 'business'] },
+  { value: 'fake', label: 'Fake or paid review', appliesTo: ['review', 'tourism_review'] },
+  { value: 'conflict_of_interest', label: 'Written by the owner or a competitor', appliesTo: ['review', 'tourism_review'] },
+  { value: 'offensive', label: 'Offensive or hateful', appliesTo: ['review', 'tourism_review', 'review_reply', 'business'] },
+  { value: 'harassment', label: 'Harassment or personal attack', appliesTo: ['review', 'tourism_review', 'review_reply'] },
+  { value: 'fraud', label: 'Scam or fraudulent business', appliesTo: ['business'] },
+  { value: 'wrong_info', label: 'Closed or details are wrong', appliesTo: ['business'] },
+  { value: 'other', label: 'Something else', appliesTo: ['review', 'tourism_review', 'review_reply', 'business'] }
+]
+
+export const REPORT_ENTITY_LABELS: Record<ReportEntityType, string> = {
+  review: 'Business review',
+  tourism_review: 'Tourism review',
+  review_reply: 'Owner reply',
+  business: 'Business listing'
+}
+
+// Rows from the embedded selects below
+interface LinkedListing {
+  name: string
+  slug: string
+}
+
+interface ReportedReviewRow {
+  id: string
+  title: string | null
+  content: string
+  businesses: LinkedListing | null
+}
+
+interface ReportedTourismReviewRow {
+  id: string
+  title: string | null
+  content: string
+  tourism_places: LinkedListing | null
+}
+
+interface ReportedReplyRow {
+  id: string
+  content: string
+  businesses: LinkedListing | null
+}
+
+interface ReportedBusinessRow {
+  id: string
+  name: string
+  slug: string
+  description: string | null
+}
+
+interface ReportRow extends Report {
+  profiles: { full_name: string | null } | null
+}
+
+const excerpt = (text: string | null | undefined) =>
+  text ? (text.length > 200 ? `${text.slice(0, 200)}…` : text) : null
+
+/**
+ * Title, excerpt and public link for each reported item, one query per type
+ */
+async function describeReportedItems(
+  keys: { entity_type: ReportEntityType; entity_id: string }[]
+): Promise<Map<string, Pick<ReportedItem, 'title' | 'excerpt' | 'href'>>> {
+  const idsFor = (type: ReportEntityType) => keys.filter(key => key.entity_type === type).map(key => key.entity_id)
+  const descriptions = new Map<string, Pick<ReportedItem, 'title' | 'excerpt' | 'href'>>()
+
+  const reviewIds = idsFor('review')
+  const tourismReviewIds = idsFor('tourism_review')
+  const replyIds = idsFor('review_reply')
+  const businessIds = idsFor('business')
+
+  const [reviews, tourismReviews, replies, businesses] = await Promise.all([
+    reviewIds.length > 0
+      ? supabase.from('reviews').select('id, title, content, businesses:business_id(name, slug)').in('id', reviewIds)
+          .overrideTypes<ReportedReviewRow[], { merge: false }>()
+      : null,
+    tourismReviewIds.length > 0
+      ? supabase.from('tourism_reviews').select('id, title, content, tourism_places:tourism_place_id(name, slug)').in('id', tourismReviewIds)
+          .overrideTypes<ReportedTourismReviewRow[], { merge: false }>()
+      : null,
+    replyIds.length > 0
+      ? supabase.from('review_replies').select('id, content, businesses:business_id(name, slug)').in('id', replyIds)
+          .overrideTypes<ReportedReplyRow[], { merge: false }>()
+      : null,
+    businessIds.length > 0
+      ? supabase.from('businesses').select('id, name, slug, description').in('id', businessIds)
+          .overrideTypes<ReportedBusinessRow[], { merge: false }>()
+      : null
+  ])
+
+  for (const item of reviews?.data || []) {
+    descriptions.set(`review:${item.id}`, {
+      title: `Review of ${item.businesses?.name || 'a business'}${item.title ? `: ${item.title}` : ''}`,
+      excerpt: excerpt(item.content),
+      href: item.businesses?.slug ? `/business/${item.businesses.slug}` : null
+    })
+  }
+  for (const item of tourismReviews?.data || []) {
+    descriptions.set(`tourism_review:${item.id}`, {
+      title: `Review of ${item.tourism_places?.name || 'a place'}${item.title ? `: ${item.title}` : ''}`,
+      excerpt: excerpt(item.content),
+      href: item.tourism_places?.slug ? `/tourism/${item.tourism_places.slug}` : null
+    })
+  }
+  for (const item of replies?.data || []) {
+    descriptions.set(`review_reply:${item.id}`, {
+      title: `Reply from ${item.businesses?.name || 'a business'}`,
+      excerpt: excerpt(item.content),
+      href: item.businesses?.slug ? `/business/${item.businesses.slug}` : null
+    })
+  }
+  for (const item of businesses?.data || []) {
+    descriptions.set(`business:${item.id}`, {
+      title: item.name,
+      excerpt: excerpt(item.description),
+      href: `/business/${item.slug}`
+    })
+  }
+
+  return descriptions
+}
+
+// Report Service
+export const reportService = {
+  /**
+   * File a report. Each user can report an item once.
+   */
+  async submitReport(
+    entityType: ReportEntityType,
+    entityId: string,
+    reporterId: string,
+    reason: ReportReason,
+    details?: string
+  ): Promise<{ success: boolean; error: unknown }> {
+    try {
+      const { error } = await supabase
+        .from('reports')
+        .insert([{
+          entity_type: entityType,
+          entity_id: entityId,
+          reporter_id: reporterId,
+          reason,
+          details: details?.trim() || null
+        }])
+
+      if (error) {
+        if (error.code === '23505') {
+          return { success: false, error: 'You have already reported this' }
+        }
+
+        console.error('Error submitting report:', error)
+        return { success: false, error: 'Failed to submit report' }
+      }
+
+      return { success: true, error: null }
+
+    } catch (error) {
+      console.error('Unexpected error in submitReport:', error)
+      return { success: false, error: 'Failed to submit report' }
+    }
+  },
+
+  /**
+   * Reports grouped by the item they target, most reported first (admin)
+   */
+  async getReportedItems(
+    status: ReportStatus = 'open',
+    limit: number = 200
+  ): Promise<{ data: ReportedItem[] | null; error: unknown }> {
+    try {
+      const { data, error } = await supabase
+        .from('reports')
+        .select('*, profiles:reporter_id(full_name)')
+        .eq('status', status)
+        .order('created_at', { ascending: false })
+        .limit(limit)
+        .overrideTypes<ReportRow[], { merge: false }>()
+
+      if (error) {
+        console.error('Error fetching reports:', error)
+        return { data: null, error }
+      }
+
+      const grouped = new Map<string, Report[]>()
+      for (const { profiles, ...item } of data || []) {
+        const key = `${item.entity_type}:${item.entity_id}`
+        const report: Report = {
+          ...item,
+          reporter_name: profiles?.full_name || null
+        }
+        grouped.set(key, [...(grouped.get(key) || []), report])
+      }
+
+      const keys = [...grouped.values()].map(reports => ({
+        entity_type: reports[0].entity_type,
+        entity_id: reports[0].entity_id
+      }))
+      const descriptions = await describeReportedItems(keys)
+
+      const items: ReportedItem[] = [...grouped.entries()].map(([key, reports]) => ({
+        entity_type: reports[0].entity_type,
+        entity_id: reports[0].entity_id,
+        title: descriptions.get(key)?.title || 'Deleted content',
+        excerpt: descriptions.get(key)?.excerpt || null,
+        href: descriptions.get(key)?.href || null,
+        reports,
+        latest_report_at: reports[0].created_at
+      }))
+
+      items.sort((a, b) =>
+        b.reports.length - a.reports.length || b.latest_report_at.localeCompare(a.latest_report_at)
+      )
+
+      return { data: items, error: null }
+
+    } catch (error) {
+      console.error('Unexpected error in getReportedItems:', error)
+      return { data: null, error }
+    }
+  },
+
+  /**
+   * Close all open reports on an item (admin). 'actioned' removes the
+   * content; 'dismissed' restores anything the reports hid.
+   */
+  async resolveReports(
+    entityType: ReportEntityType,
+    entityId: string,
+    outcome: 'actioned' | 'dismissed',
+    note?: string
+  ): Promise<{ success: boolean; error: unknown }> {
+    try {
+      const { error } = await supabase.rpc('resolve_reports', {
+        p_entity_type: entityType,
+        p_entity_id: entityId,
+        p_outcome: outcome,
+        p_note: note?.trim() || null
+      })
+
+      if (error) {
+        console.error('Error resolving reports:', error)
+        return { success: false, error }
+      }
+
+      return { success: true, error: null }
+
+    } catch (error) {
+      console.error('Unexpected error in resolveReports:', error)
+      return { success: false, error }
+    }
+  }
+}
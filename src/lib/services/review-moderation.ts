@@ -0,0 +1,274 @@
+// src/lib/services/review-moderation.ts - Admin queue for business and tourism reviews
+import { supabase } from '../supabase'
+
+export type ReviewKind = 'business' | 'tourism'
+export type ReviewModerationStatus = 'pending' | 'published' | 'rejected'
+export type ReviewModerationPolicy = 'auto_publish' | 'hold_first_time' | 'hold_flagged'
+export type ReviewHeldReason = 'first_review' | 'contains_link' | 'banned_word' | 'reported'
+
+export interface ModerationReview {
+  id: string
+  kind: ReviewKind
+  entity_id: string
+  entity_name: string | null
+  entity_slug: string | null
+  user_id: string
+  user_name: string | null
+  rating: number
+  title: string | null
+  content: string | null
+  status: ReviewModerationStatus
+  held_reason: ReviewHeldReason | null
+  moderation_reason: string | null
+  moderated_at: string | null
+  report_count: number
+  created_at: string
+}
+
+interface ModerationReviewRow extends Omit<ModerationReview, 'kind' | 'entity_name' | 'entity_slug' | 'user_name'> {
+  profiles: { full_name: string | null } | null
+  entity: { name: string; slug: string } | null
+}
+
+export interface ReviewQueueFilters {
+  status?: ReviewModerationStatus | 'all'
+  kind?: ReviewKind | 'all'
+  rating?: number
+  entitySearch?: string // Business or place name
+  minReports?: number
+}
+
+export interface ReviewModerationSettings {
+  policy: ReviewModerationPolicy
+  banned_words: string[]
+  updated_at: string
+}
+
+export const REVIEW_POLICY_OPTIONS: { value: ReviewModerationPolicy; label: string; description: string }[] = [
+  { value: 'auto_publish', label: 'Publish immediately', description: 'Every review goes live as soon as it is submitted' },
+  { value: 'hold_first_time', label: 'Hold first-time reviewers', description: "A reviewer's first review waits for approval; later ones publish straight away" },
+  { value: 'hold_flagged', label: 'Hold links and banned words', description: 'Reviews containing a link or a banned word wait for approval' }
+]
+
+export const REVIEW_HELD_REASON_LABELS: Record<ReviewHeldReason, string> = {
+  first_review: 'First review',
+  contains_link: 'Contains link',
+  banned_word: 'Banned word',
+  reported: 'Hidden after reports'
+}
+
+export const REVIEW_REJECTION_REASONS = [
+  'Spam or advertising',
+  'Offensive or abusive language',
+  'Not about this business or place',
+  'Conflict of interest',
+  'Contains personal information'
+]
+
+const REVIEW_TABLES: Record<ReviewKind, { table: string; entityColumn: string; entityTable: string }> = {
+  business: { table: 'reviews', entityColumn: 'business_id', entityTable: 'businesses' },
+  tourism: { table: 'tourism_reviews', entityColumn: 'tourism_place_id', entityTable: 'tourism_places' }
+}
+
+// Review Moderation Service
+export const reviewModerationService = {
+  /**
+   * Reviews for the admin queue, newest first, across both review tables
+   */
+  async getReviewQueue(
+    filters: ReviewQueueFilters = {},
+    limit: number = 100
+  ): Promise<{ data: ModerationReview[] | null; error: unknown }> {
+    try {
+      const kinds: ReviewKind[] = filters.kind && filters.kind !== 'all' ? [filters.kind] : ['business', 'tourism']
+
+      const results = await Promise.all(kinds.map(async kind => {
+        const { table, entityColumn, entityTable } = REVIEW_TABLES[kind]
+
+        // Resolve the name search to ids first; there is no cross-table text search
+        let entityIds: string[] | null = null
+        if (filters.entitySearch?.trim()) {
+          const { data: entities, error } = await supabase
+            .from(entityTable)
+            .select('id')
+            .ilike('name', `%${filters.entitySearch.trim()}%`)
+            .limit(50)
+
+          if (error) return { rows: [], error }
+          entityIds = (entities || []).map(entity => entity.id)
+          if (entityIds.length === 0) return { rows: [], error: null }
+        }
+
+        let query = supabase
+          .from(table)
+          .select(`*, entity_id:${entityColumn}, profiles:user_id(full_name), entity:${entityColumn}(name, slug)`)
+          .order('created_at', { ascending: false })
+          .limit(limit)
+
+        if (kind === 'business') {
+          query = query.eq('is_deleted', false)
+        }
+        if (filters.status && filters.status !== 'all') {
+          query = query.eq('status', filters.status)
+        }
+        if (filters.rating) {
+          query = query.eq('rating', filters.rating)
+        }
+        if (filters.minReports) {
+          query = query.gte('report_count', filters.minReports)
+        }
+        if (entityIds) {
+          query = query.in(entityColumn, entityIds)
+        }
+
+        const { data, error } = await query.overrideTypes<ModerationReviewRow[], { merge: false }>()
+
+        const rows: ModerationReview[] = (data || []).map(item => ({
+          id: item.id,
+          kind,
+          entity_id: item.entity_id,
+          entity_name: item.entity?.name || null,
+          entity_slug: item.entity?.slug || null,
+          user_id: item.user_id,
+          user_name: item.profiles?.full_name || null,
+          rating: item.rating,
+          title: item.title,
+          content: item.content,
+          status: item.status,
+          held_reason: item.held_reason || null,
+          moderation_reason: item.moderation_reason || null,
+          moderated_at: item.moderated_at || null,
+          report_count: item.report_count || 0,
+          created_at: item.created_at
+        }))
+
+        return { rows, error }
+      }))
+
+      const failed = results.find(result => result.error)
+      if (failed) {
+        console.error('Error fetching review queue:', failed.error)
+        return { data: null, error: failed.error }
+      }
+
+      const reviews = results
+        .flatMap(result => result.rows)
+        .sort((a, b) => b.created_at.localeCompare(a.created_at))
+        .slice(0, limit)
+
+      return { data: reviews, error: null }
+
+    } catch (error) {
+      console.error('Unexpected error in getReviewQueue:', error)
+      return { data: null, error }
+    }
+  },
+
+  /**
+   * Approve or reject reviews in bulk (admin). Rejections need a reason,
+   * which is kept on the review.
+   */
+  async moderateReviews(
+    reviews: { id: string; kind: ReviewKind }[],
+    adminId: string,
+    decision: 'published' | 'rejected',
+    reason?: string
+  ): Promise<{ success: boolean; error: unknown }> {
+    try {
+      if (decision === 'rejected' && !reason?.trim()) {
+        return { success: false, error: 'Please give a reason for rejecting' }
+      }
+
+      const updateData = {
+        status: decision,
+        moderation_reason: reason?.trim() || null,
+        moderated_by: adminId,
+        moderated_at: new Date().toISOString()
+      }
+
+      const kinds = Object.keys(REVIEW_TABLES) as ReviewKind[]
+      const results = await Promise.all(kinds.map(kind => {
+        const ids = reviews.filter(review => review.kind === kind).map(review => review.id)
+        if (ids.length === 0) return { error: null }
+
+        return supabase
+          .from(REVIEW_TABLES[kind].table)
+          .update(updateData)
+          .in('id', ids)
+      }))
+
+      const failed = results.find(result => result.error)
+      if (failed) {
+        console.error('Error moderating reviews:', failed.error)
+        return { success: false, error: failed.error }
+      }
+
+      return { success: true, error: null }
+
+    } catch (error) {
+      console.error('Unexpected error in moderateReviews:', error)
+      return { success: false, error }
+    }
+  },
+
+  /**
+   * Current publishing policy (admin)
+   */
+  async getSettings(): Promise<{ data: ReviewModerationSettings | null; error: unknown }> {
+    try {
+      const { data, error } = await supabase
+        .from('review_moderation_settings')
+        .select('policy, banned_words, updated_at')
+        .maybeSingle()
+
+      if (error) {
+        console.error('Error fetching review moderation settings:', error)
+        return { data: null, error }
+      }
+
+      return {
+        data: data || { policy: 'auto_publish', banned_words: [], updated_at: new Date().toISOString() },
+        error: null
+      }
+
+    } catch (error) {
+      console.error('Unexpected error in getSettings:', error)
+      return { data: null, error }
+    }
+  },
+
+  /**
+   * Change the publishing policy for new reviews (admin)
+   */
+  async updateSettings(
+    settings: { policy: ReviewModerationPolicy; bannedWords: string[] },
+    adminId: string
+  ): Promise<{ success: boolean; error: unknown }> {
+    try {
+      const bannedWords = [...new Set(
+        settings.bannedWords.map(word => word.trim().toLowerCase()).filter(Boolean)
+      )]
+
+      const { error } = await supabase
+        .from('review_moderation_settings')
+        .upsert({
+          id: true,
+          policy: settings.policy,
+          banned_words: bannedWords,
+          updated_by: adminId,
+          updated_at: new Date().toISOString()
+        })
+
+      if (error) {
+        console.error('Error updating review moderation settings:', error)
+        return { success: false, error }
+      }
+
+      return { success: true, error: null }
+
+    } catch (error) {
+      console.error('Unexpected error in updateSettings:', error)
+      return { success: false, error }
+    }
+  }
+}
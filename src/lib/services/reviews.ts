@@ -1,4 +1,5 @@
 // src/lib/services/reviews.ts - Fixed Review Service (Simple & Robust)
+import type { SupabaseClient } from '@supabase/supabase-js'
 import { supabase } from '../supabase'
 
 export interface Review {
@@ -38,6 +39,13 @@ export interface ReviewFormData {
   content: string
 }
 
+export interface ReviewCounts {
+  pending: number
+  published: number
+  rejected: number
+  total: number
+}
+
 export interface ReviewStats {
   totalReviews: number
   averageRating: number
@@ -50,6 +58,11 @@ export interface ReviewStats {
   }
 }
 
+export interface StatsOptions {
+  before?: string // Only count reviews written before this time, for week-on-week comparisons
+  client?: SupabaseClient // Server code passes the service-role client
+}
+
 // Helper function to execute SQL with fallback
 async function executeReviewQuery(query: string, params: any[] = []) {
   try {
@@ -103,6 +116,7 @@ export const reviewService = {
             profiles:replied_by(full_name)
           `)
           .in('review_id', reviewIds)
+          .eq('is_hidden', false) // Hidden after reports
         
         replies = repliesData || []
       }
@@ -132,12 +146,13 @@ export const reviewService = {
 
   /**
    * Submit a new review - BACK TO PUBLIC VIEW (like tourism)
+   * The moderation policy may hold it as pending; the returned status says which.
    */
   async submitReview(
     businessId: string, 
     userId: string, 
     reviewData: ReviewFormData
-  ): Promise<{ success: boolean; error: any }> {
+  ): Promise<{ success: boolean; error: unknown; status?: Review['status'] }> {
     try {
       console.log('📝 Submitting review for business:', businessId, 'by user:', userId)
 
@@ -192,7 +207,7 @@ export const reviewService = {
       }
 
       console.log('✅ Review submitted successfully:', insertedReview)
-      return { success: true, error: null }
+      return { success: true, error: null, status: insertedReview.status }
 
     } catch (error) {
       console.error('💥 Unexpected error in submitReview:', error)
@@ -203,16 +218,22 @@ export const reviewService = {
   /**
    * Get review statistics - SIMPLIFIED
    */
-  async getReviewStats(businessId: string): Promise<{ data: ReviewStats | null; error: any }> {
+  async getReviewStats(businessId: string, options: StatsOptions = {}): Promise<{ data: ReviewStats | null; error: unknown }> {
     try {
       console.log('📊 Loading review stats for business:', businessId)
 
-      const { data, error } = await supabase
+      let query = (options.client || supabase)
         .from('reviews')
         .select('rating')
         .eq('business_id', businessId)
         .eq('status', 'published')
 
+      if (options.before) {
+        query = query.lt('created_at', options.before)
+      }
+
+      const { data, error } = await query
+
       if (error) {
         console.error('❌ Error fetching review stats:', error)
         return { data: null, error }
@@ -255,6 +276,46 @@ export const reviewService = {
     }
   },
 
+  /**
+   * Review totals by status across business and tourism reviews (admin)
+   */
+  async getReviewCounts(): Promise<{ data: ReviewCounts | null; error: unknown }> {
+    try {
+      const statuses = ['pending', 'published', 'rejected'] as const
+
+      const results = await Promise.all(
+        ['reviews', 'tourism_reviews'].flatMap(table =>
+          statuses.map(status =>
+            supabase
+              .from(table)
+              .select('*', { count: 'exact', head: true })
+              .eq('status', status)
+          )
+        )
+      )
+
+      const failed = results.find(result => result.error)
+      if (failed) {
+        console.error('Error getting review counts:', failed.error)
+        return { data: null, error: failed.error }
+      }
+
+      // Results are ordered table by table, then by status
+      const counts: ReviewCounts = { pending: 0, published: 0, rejected: 0, total: 0 }
+      results.forEach((result, index) => {
+        const status = statuses[index % statuses.length]
+        counts[status] += result.count || 0
+        counts.total += result.count || 0
+      })
+
+      return { data: counts, error: null }
+
+    } catch (error) {
+      console.error('Unexpected error in getReviewCounts:', error)
+      return { data: null, error }
+    }
+  },
+
   /**
    * Add business reply to review - USE PUBLIC VIEW (like tourism)
    */
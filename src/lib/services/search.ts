@@ -0,0 +1,673 @@
+// src/lib/services/search.ts - Unified, typo-tolerant search across businesses, places and blog posts
+import { supabase } from '../supabase'
+import { businessService, geoService, tourismService, type AttributeFilters, type Business, type NearbyFilter, type TourismPlace } from '../database'
+import { wordpressService } from '../wordpress'
+import { getAreaPath } from '../utils'
+import type { BlogPost } from '@/types/wordpress'
+
+export type SearchResultType = 'business' | 'tourism' | 'blog'
+
+export interface SearchResultItem {
+  type: SearchResultType
+  id: string
+  title: string
+  url: string
+  snippet: string
+  score: number
+  business?: Business
+  place?: TourismPlace
+  post?: BlogPost
+}
+
+export interface UnifiedSearchOptions {
+  type?: SearchResultType | 'all' // 'all' returns a preview of every group
+  page?: number
+  pageSize?: number
+  // Business-only filters; cityId also narrows tourism places
+  cityId?: string
+  categorySlug?: string
+  verified?: boolean
+  featured?: boolean
+  openNow?: boolean
+  attributes?: AttributeFilters
+  nearby?: NearbyFilter // Narrows businesses and tourism places; ranking stays by relevance
+}
+
+export interface UnifiedSearchResults {
+  query: string
+  terms: string[] // Typed words plus their synonyms, for highlighting
+  groups: Record<SearchResultType, SearchResultItem[]>
+  totals: Record<SearchResultType, number>
+}
+
+export type SearchSuggestionType = 'business' | 'category' | 'area' | 'tourism'
+
+export interface SearchSuggestion {
+  type: SearchSuggestionType
+  id: string
+  label: string
+  sublabel: string | null // City, for things that have one
+  url: string
+}
+
+export interface RecentSearch {
+  query: string
+  searched_at: string
+}
+
+interface SearchSuggestionRow {
+  suggestion_type: SearchSuggestionType
+  id: string
+  label: string
+  sublabel: string | null
+  slug: string
+  city_slug: string | null
+  score: number
+}
+
+interface SearchDirectoryRow {
+  entity_type: 'business' | 'tourism'
+  entity_id: string
+  score: number
+  rank: number
+  total_count: number
+}
+
+const PREVIEW_SIZE = 4
+
+const STOP_WORDS = new Set(['a', 'an', 'the', 'in', 'near', 'of', 'and', 'ka', 'ki', 'ke', 'me', 'mein', 'se'])
+
+/**
+ * Words that mean the same thing locally: spelling variants, Hindi
+ * transliterations and Devanagari. The first entry is the canonical form.
+ */
+const SEARCH_SYNONYMS: string[][] = [
+  ['chittorgarh', 'chittor', 'chitorgarh', 'chitor', 'chittaurgarh', 'chittaur', 'चित्तौड़गढ़', 'चित्तौड़'],
+  ['nimbahera', 'nimbaheda', 'nimbhera', 'निम्बाहेड़ा'],
+  ['begun', 'begu', 'begoon', 'बेगूं'],
+  ['kapasan', 'kapasen', 'कपासन'],
+  ['fort', 'kila', 'qila', 'killa', 'garh', 'किला'],
+  ['temple', 'mandir', 'mandhir', 'मंदिर'],
+  ['palace', 'mahal', 'महल'],
+  ['lake', 'talab', 'talav', 'sagar', 'तालाब'],
+  ['gate', 'pol', 'darwaza', 'दरवाज़ा'],
+  ['tower', 'stambh', 'स्तंभ'],
+  ['garden', 'bagh', 'park', 'बाग'],
+  ['restaurant', 'dhaba', 'bhojnalaya', 'khana', 'भोजनालय', 'ढाबा'],
+  ['hotel', 'lodge', 'guesthouse', 'dharamshala', 'धर्मशाला'],
+  ['shop', 'store', 'dukan', 'dukaan', 'दुकान'],
+  ['market', 'bazaar', 'bazar', 'mandi', 'बाज़ार'],
+  ['sweets', 'mithai', 'halwai', 'मिठाई'],
+  ['hospital', 'clinic', 'doctor', 'dawakhana', 'aspatal', 'अस्पताल'],
+  ['pharmacy', 'chemist', 'medical', 'dawai', 'दवाई'],
+  ['school', 'vidyalaya', 'pathshala', 'विद्यालय'],
+  ['tailor', 'darzi', 'दर्जी'],
+  ['salon', 'parlour', 'parlor', 'barber', 'nai'],
+  ['mobile', 'phone', 'cellphone']
+]
+
+/**
+ * Lowercase, strip punctuation and collapse whitespace (keeps Devanagari marks)
+ */
+export function normalizeSearchText(text: string): string {
+  return text
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{M}\p{N}\s]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+/**
+ * Levenshtein distance, giving up once it exceeds max
+ */
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    let rowMin = i
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      )
+      rowMin = Math.min(rowMin, current[j])
+    }
+    if (rowMin > max) return max + 1
+    previous = current
+  }
+  return previous[b.length]
+}
+
+/**
+ * Typos tolerated for a word of this length
+ */
+function allowedTypos(length: number): number {
+  if (length < 4) return 0
+  if (length < 8) return 1
+  return 2
+}
+
+function isFuzzyMatch(word: string, term: string): boolean {
+  return editDistance(word, term, allowedTypos(term.length)) <= allowedTypos(term.length)
+}
+
+/**
+ * Split a query into term groups: each typed word plus its synonyms.
+ * A misspelt word picks up the synonym group it is closest to.
+ */
+export function parseSearchQuery(query: string): string[][] {
+  const words = normalizeSearchText(query).split(' ').filter(Boolean)
+  const meaningful = words.filter(word => !STOP_WORDS.has(word))
+
+  return (meaningful.length > 0 ? meaningful : words).map(word => {
+    const synonyms = SEARCH_SYNONYMS.find(group => group.includes(word))
+      || SEARCH_SYNONYMS.find(group => group.some(synonym => isFuzzyMatch(word, synonym)))
+      || []
+
+    return [word, ...synonyms.filter(synonym => synonym !== word)]
+  })
+}
+
+/**
+ * Character ranges of words in text that match any term (prefix or typo-tolerant)
+ */
+export function findHighlightRanges(text: string, terms: string[]): [number, number][] {
+  const ranges: [number, number][] = []
+  const normalizedTerms = terms.map(normalizeSearchText).filter(term => term.length > 1)
+  if (normalizedTerms.length === 0) return ranges
+
+  for (const match of text.matchAll(/[\p{L}\p{M}\p{N}]+/gu)) {
+    const word = match[0].toLowerCase()
+    const isMatch = normalizedTerms.some(term =>
+      word.startsWith(term) || (word.length >= 4 && isFuzzyMatch(word, term))
+    )
+    if (isMatch && match.index !== undefined) {
+      ranges.push([match.index, match.index + match[0].length])
+    }
+  }
+
+  return ranges
+}
+
+/**
+ * Plain-text excerpt centred on the first matching word
+ */
+export function buildSnippet(text: string | null | undefined, terms: string[], maxLength: number = 160): string {
+  const plain = (text || '').replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim()
+  if (plain.length <= maxLength) return plain
+
+  const [firstMatch] = findHighlightRanges(plain, terms)
+  let start = firstMatch ? Math.max(0, firstMatch[0] - 40) : 0
+  if (start > 0) {
+    const nextSpace = plain.indexOf(' ', start)
+    start = nextSpace === -1 || nextSpace > firstMatch[0] ? start : nextSpace + 1
+  }
+
+  const excerpt = plain.slice(start, start + maxLength).trim()
+  return `${start > 0 ? '…' : ''}${excerpt}${start + maxLength < plain.length ? '…' : ''}`
+}
+
+/**
+ * Client-side relevance for sources the database doesn't rank (blog posts).
+ * Mirrors search_directory: field weight per match, +1 for an exact word, averaged over groups.
+ */
+function scoreText(groups: string[][], fields: { text: string; weight: number }[]): number {
+  if (groups.length === 0) return 0
+
+  const fieldWords = fields.map(field => ({
+    weight: field.weight,
+    words: normalizeSearchText(field.text).split(' ')
+  }))
+
+  const total = groups.reduce((sum, alternatives) => {
+    let best = 0
+    for (const { weight, words } of fieldWords) {
+      for (const term of alternatives) {
+        if (words.includes(term)) {
+          best = Math.max(best, weight + 1)
+        } else if (words.some(word => word.startsWith(term) || isFuzzyMatch(word, term))) {
+          best = Math.max(best, weight * 0.7)
+        }
+      }
+    }
+    return sum + best
+  }, 0)
+
+  return total / groups.length
+}
+
+const SUGGESTION_PATHS: Record<SearchSuggestionType, string> = {
+  business: '/business',
+  category: '/category',
+  area: '/area',
+  tourism: '/tourism'
+}
+
+/**
+ * Where a suggestion leads; areas live under their city
+ */
+function getSuggestionUrl(row: SearchSuggestionRow): string {
+  if (row.suggestion_type === 'area' && row.city_slug) {
+    return getAreaPath(row.city_slug, row.slug)
+  }
+  return `${SUGGESTION_PATHS[row.suggestion_type]}/${row.slug}`
+}
+
+const SEARCH_SESSION_KEY = 'chittor-darpan-search-session'
+
+/**
+ * Per-tab id linking a zero-result search to the query the visitor tried next
+ */
+function getSearchSessionId(): string | null {
+  if (typeof window === 'undefined') return null
+
+  let sessionId = window.sessionStorage.getItem(SEARCH_SESSION_KEY)
+  if (!sessionId) {
+    sessionId = crypto.randomUUID()
+    window.sessionStorage.setItem(SEARCH_SESSION_KEY, sessionId)
+  }
+  return sessionId
+}
+
+const emptyGroups = (): Record<SearchResultType, SearchResultItem[]> => ({ business: [], tourism: [], blog: [] })
+
+// Unified Search Service
+export const searchService = {
+  /**
+   * Search businesses, tourism places and blog posts in one go.
+   * Returns every group's total so tabs can show counts; rows are only
+   * returned for the requested type (or a short preview of each for 'all').
+   */
+  async search(query: string, options: UnifiedSearchOptions = {}): Promise<{ data: UnifiedSearchResults | null; error: unknown }> {
+    try {
+      const groups = parseSearchQuery(query)
+      const terms = [...new Set(groups.flat())]
+      const type = options.type || 'all'
+      const pageSize = options.pageSize || 12
+      const limitFor = (groupType: SearchResultType) =>
+        type === 'all' ? PREVIEW_SIZE : type === groupType ? pageSize : 1
+      const offsetFor = (groupType: SearchResultType) =>
+        type === groupType ? ((options.page || 1) - 1) * pageSize : 0
+
+      const results: UnifiedSearchResults = {
+        query,
+        terms,
+        groups: emptyGroups(),
+        totals: { business: 0, tourism: 0, blog: 0 }
+      }
+
+      if (groups.length === 0) {
+        return { data: results, error: null }
+      }
+
+      const [directoryResult, blogResult] = await Promise.all([
+        this.searchDirectory(groups, options, {
+          business: { limit: limitFor('business'), offset: offsetFor('business') },
+          tourism: { limit: limitFor('tourism'), offset: offsetFor('tourism') }
+        }),
+        this.searchBlog(query, groups, {
+          page: type === 'blog' ? options.page || 1 : 1,
+          perPage: limitFor('blog')
+        })
+      ])
+
+      if (directoryResult.error) {
+        return { data: null, error: directoryResult.error }
+      }
+
+      if (directoryResult.data) {
+        results.groups.business = directoryResult.data.business
+        results.groups.tourism = directoryResult.data.tourism
+        results.totals.business = directoryResult.data.totals.business
+        results.totals.tourism = directoryResult.data.totals.tourism
+      }
+
+      // Blog search is best-effort; WordPress being down shouldn't break directory search
+      if (blogResult.data) {
+        results.groups.blog = blogResult.data.items
+        results.totals.blog = blogResult.data.total
+      }
+
+      // Only the requested group carries rows; the others were fetched for their counts
+      if (type !== 'all') {
+        for (const groupType of Object.keys(results.groups) as SearchResultType[]) {
+          if (groupType !== type) results.groups[groupType] = []
+        }
+      }
+
+      return { data: results, error: null }
+
+    } catch (error) {
+      console.error('Unexpected error in search:', error)
+      return { data: null, error }
+    }
+  },
+
+  /**
+   * Ranked businesses and tourism places from the search_directory RPC
+   */
+  async searchDirectory(
+    groups: string[][],
+    options: UnifiedSearchOptions,
+    paging: Record<'business' | 'tourism', { limit: number; offset: number }>
+  ): Promise<{
+    data: {
+      business: SearchResultItem[]
+      tourism: SearchResultItem[]
+      totals: Record<'business' | 'tourism', number>
+    } | null
+    error: unknown
+  }> {
+    try {
+      const terms = groups.flat()
+
+      // The RPC applies the nearby filter itself; distances are only for display
+      const distances = new Map<string, number>()
+      if (options.nearby) {
+        const [nearbyBusinesses, nearbyPlaces] = await Promise.all([
+          geoService.getNearby('business', options.nearby),
+          geoService.getNearby('tourism', options.nearby)
+        ])
+        if (nearbyBusinesses.error || nearbyPlaces.error) {
+          return { data: null, error: nearbyBusinesses.error || nearbyPlaces.error }
+        }
+
+        const matches = [...(nearbyBusinesses.data || []), ...(nearbyPlaces.data || [])]
+        matches.forEach(match => distances.set(match.id, match.distance_km))
+      }
+
+      // The RPC pages both types with one limit/offset, so ask for the larger window and trim per type
+      const limit = Math.max(paging.business.limit, paging.tourism.limit)
+      const offsets = [paging.business.offset, paging.tourism.offset]
+
+      const rpcResults = await Promise.all([...new Set(offsets)].map(offset =>
+        supabase.rpc('search_directory', {
+          p_groups: groups,
+          p_city_id: options.cityId || null,
+          p_category_slug: options.categorySlug || null,
+          p_verified: !!options.verified,
+          p_featured: !!options.featured,
+          p_open_now: !!options.openNow,
+          p_attributes: options.attributes && Object.keys(options.attributes).length > 0 ? options.attributes : null,
+          p_near_latitude: options.nearby?.latitude ?? null,
+          p_near_longitude: options.nearby?.longitude ?? null,
+          p_near_radius_km: options.nearby?.radiusKm,
+          p_limit: limit,
+          p_offset: offset
+        }).then(result => ({ offset, ...result }))
+      ))
+
+      const failed = rpcResults.find(result => result.error)
+      if (failed) {
+        console.error('Error searching directory:', failed.error)
+        return { data: null, error: failed.error }
+      }
+
+      const rowsFor = (type: 'business' | 'tourism'): SearchDirectoryRow[] => {
+        const { offset, limit: typeLimit } = paging[type]
+        const rows: SearchDirectoryRow[] = rpcResults.find(result => result.offset === offset)?.data || []
+        return rows.filter(row => row.entity_type === type && row.rank > offset && row.rank <= offset + typeLimit)
+      }
+
+      const totalFor = (type: 'business' | 'tourism'): number => {
+        const rows: SearchDirectoryRow[] = rpcResults.flatMap(result => result.data || [])
+        return Number(rows.find(row => row.entity_type === type)?.total_count || 0)
+      }
+
+      const businessRows = rowsFor('business')
+      const tourismRows = rowsFor('tourism')
+
+      const [businessesResult, placesResult] = await Promise.all([
+        businessRows.length > 0
+          ? businessService.getBusinesses({ status: 'published', ids: businessRows.map(row => row.entity_id) })
+          : Promise.resolve({ data: [] as Business[], error: null }),
+        tourismRows.length > 0
+          ? tourismService.getTourismPlaces({ status: 'published', ids: tourismRows.map(row => row.entity_id) })
+          : Promise.resolve({ data: [] as TourismPlace[], error: null })
+      ])
+
+      if (businessesResult.error || placesResult.error) {
+        return { data: null, error: businessesResult.error || placesResult.error }
+      }
+
+      // Keep the RPC's ranking order
+      const business = businessRows.flatMap(row => {
+        const item = businessesResult.data?.find(b => b.id === row.entity_id)
+        return item ? [{
+          type: 'business' as const,
+          id: item.id,
+          title: item.name,
+          url: `/business/${item.slug}`,
+          snippet: buildSnippet(item.description || item.address, terms),
+          score: row.score,
+          business: { ...item, distance_km: distances.get(item.id) }
+        }] : []
+      })
+
+      const tourism = tourismRows.flatMap(row => {
+        const item = placesResult.data?.find(p => p.id === row.entity_id)
+        return item ? [{
+          type: 'tourism' as const,
+          id: item.id,
+          title: item.name,
+          url: `/tourism/${item.slug}`,
+          snippet: buildSnippet(item.short_description || item.description || item.address, terms),
+          score: row.score,
+          place: { ...item, distance_km: distances.get(item.id) }
+        }] : []
+      })
+
+      return {
+        data: {
+          business,
+          tourism,
+          totals: { business: totalFor('business'), tourism: totalFor('tourism') }
+        },
+        error: null
+      }
+
+    } catch (error) {
+      console.error('Unexpected error in searchDirectory:', error)
+      return { data: null, error }
+    }
+  },
+
+  /**
+   * Blog posts from WordPress, re-ranked locally. WordPress search is exact,
+   * so a query with no hits is retried with canonical spellings.
+   */
+  async searchBlog(
+    query: string,
+    groups: string[][],
+    paging: { page: number; perPage: number }
+  ): Promise<{ data: { items: SearchResultItem[]; total: number } | null; error: unknown }> {
+    try {
+      let { data, error } = await wordpressService.getPosts({ search: query, page: paging.page, per_page: paging.perPage })
+
+      const canonicalQuery = groups
+        .map(alternatives => alternatives.find(term => SEARCH_SYNONYMS.some(group => group[0] === term)) || alternatives[0])
+        .join(' ')
+      if (!error && data?.pagination.totalPosts === 0 && canonicalQuery !== normalizeSearchText(query)) {
+        ({ data, error } = await wordpressService.getPosts({ search: canonicalQuery, page: paging.page, per_page: paging.perPage }))
+      }
+
+      if (error || !data) {
+        return { data: null, error }
+      }
+
+      const terms = groups.flat()
+      const items: SearchResultItem[] = data.posts
+        .map(post => ({
+          type: 'blog' as const,
+          id: String(post.id),
+          title: post.title,
+          url: wordpressService.getPostUrl(post.slug),
+          snippet: buildSnippet(post.excerpt, terms),
+          score: scoreText(groups, [
+            { text: post.title, weight: 3 },
+            { text: post.categories.map(c => c.name).join(' '), weight: 2 },
+            { text: post.excerpt.replace(/<[^>]*>/g, ' '), weight: 1 }
+          ]),
+          post
+        }))
+        .sort((a, b) => b.score - a.score)
+
+      return { data: { items, total: data.pagination.totalPosts }, error: null }
+
+    } catch (error) {
+      console.error('Unexpected error in searchBlog:', error)
+      return { data: null, error }
+    }
+  },
+
+  /**
+   * Typeahead matches for businesses, categories, areas and tourism places
+   */
+  async getSuggestions(query: string, limit: number = 8): Promise<{ data: SearchSuggestion[] | null; error: unknown }> {
+    try {
+      const term = normalizeSearchText(query)
+      if (!term) {
+        return { data: [], error: null }
+      }
+
+      const { data, error } = await supabase.rpc('search_suggestions', {
+        p_query: term,
+        p_limit: limit
+      })
+
+      if (error) {
+        console.error('Error fetching search suggestions:', error)
+        return { data: null, error }
+      }
+
+      const suggestions: SearchSuggestion[] = ((data || []) as SearchSuggestionRow[]).map(row => ({
+        type: row.suggestion_type,
+        id: row.id,
+        label: row.label,
+        sublabel: row.sublabel,
+        url: getSuggestionUrl(row)
+      }))
+
+      return { data: suggestions, error: null }
+
+    } catch (error) {
+      console.error('Unexpected error in getSuggestions:', error)
+      return { data: null, error }
+    }
+  },
+
+  /**
+   * A better query for one that has come up empty before, learned from
+   * what other visitors searched next
+   */
+  async getDidYouMean(query: string): Promise<{ data: string | null; error: unknown }> {
+    try {
+      const term = normalizeSearchText(query)
+      if (!term) {
+        return { data: null, error: null }
+      }
+
+      const { data, error } = await supabase.rpc('search_did_you_mean', { p_query: term })
+
+      if (error) {
+        console.error('Error fetching did-you-mean suggestion:', error)
+        return { data: null, error }
+      }
+
+      return { data: (data as string | null) || null, error: null }
+
+    } catch (error) {
+      console.error('Unexpected error in getDidYouMean:', error)
+      return { data: null, error }
+    }
+  },
+
+  /**
+   * Record a submitted search. Feeds recent searches and "did you mean".
+   * The database counts the results and ties the search to the signed-in user.
+   */
+  async logSearch(query: string): Promise<{ success: boolean; error: unknown }> {
+    try {
+      if (!normalizeSearchText(query)) {
+        return { success: true, error: null }
+      }
+
+      const { error } = await supabase.rpc('log_search', {
+        p_query: query,
+        p_session_id: getSearchSessionId()
+      })
+
+      if (error) {
+        console.error('Error logging search:', error)
+        return { success: false, error }
+      }
+
+      return { success: true, error: null }
+
+    } catch (error) {
+      console.error('Unexpected error in logSearch:', error)
+      return { success: false, error }
+    }
+  },
+
+  /**
+   * A user's latest distinct searches, newest first
+   */
+  async getRecentSearches(userId: string, limit: number = 5): Promise<{ data: RecentSearch[] | null; error: unknown }> {
+    try {
+      const { data, error } = await supabase
+        .from('search_logs')
+        .select('query, normalized_query, created_at')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false })
+        .limit(limit * 5)
+
+      if (error) {
+        console.error('Error fetching recent searches:', error)
+        return { data: null, error }
+      }
+
+      const seen = new Set<string>()
+      const recent: RecentSearch[] = []
+      for (const row of data || []) {
+        if (seen.has(row.normalized_query)) continue
+        seen.add(row.normalized_query)
+        recent.push({ query: row.query, searched_at: row.created_at })
+        if (recent.length === limit) break
+      }
+
+      return { data: recent, error: null }
+
+    } catch (error) {
+      console.error('Unexpected error in getRecentSearches:', error)
+      return { data: null, error }
+    }
+  },
+
+  /**
+   * Forget a user's search history
+   */
+  async clearRecentSearches(userId: string): Promise<{ success: boolean; error: unknown }> {
+    try {
+      const { error } = await supabase
+        .from('search_logs')
+        .delete()
+        .eq('user_id', userId)
+
+      if (error) {
+        console.error('Error clearing recent searches:', error)
+        return { success: false, error }
+      }
+
+      return { success: true, error: null }
+
+    } catch (error) {
+      console.error('Unexpected error in clearRecentSearches:', error)
+      return { success: false, error }
+    }
+  }
+}
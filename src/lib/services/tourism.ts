@@ -1,5 +1,7 @@
 // src/lib/services/tourism.ts - Fixed with proper error handling
 import { supabase } from '../supabase'
+import { getStoredImagePaths, mediaUploadService, toMediaFileColumns } from './media-upload'
+import { geoService } from './geo'
 
 export interface TourismPlace {
   id: string
@@ -30,6 +32,7 @@ export interface TourismPlace {
   category_name?: string | null
   creator_name?: string | null
   creator_email?: string | null
+  distance_km?: number // Set for nearby searches
 }
 
 export interface TourismFormData {
@@ -68,6 +71,10 @@ export interface TourismImage {
   uploaded_by: string | null
   created_at: string
   updated_at: string
+  thumbnail_url?: string | null
+  width?: number | null
+  height?: number | null
+  blurhash?: string | null
   uploader_name?: string
   place_name?: string
   place_slug?: string
@@ -102,6 +109,7 @@ export interface TourismReviewImage {
   caption: string | null
   sort_order: number
   created_at: string
+  thumbnail_url?: string | null
 }
 
 export interface TourismReviewFormData {
@@ -167,6 +175,32 @@ export const tourismService = {
         query = query.eq('is_featured', true)
       }
 
+      if (filters.ids) {
+        query = query.in('id', filters.ids)
+      }
+
+      if (filters.bounds) {
+        query = query
+          .gte('latitude', filters.bounds.south)
+          .lte('latitude', filters.bounds.north)
+          .gte('longitude', filters.bounds.west)
+          .lte('longitude', filters.bounds.east)
+      }
+
+      // Nearby searches come back nearest first, with distance_km set
+      let distances: Map<string, number> | null = null
+      if (filters.nearby) {
+        const { data: matches, error: nearbyError } = await geoService.getNearby('tourism', filters.nearby)
+        if (nearbyError) {
+          return { data: null, error: nearbyError }
+        }
+        if (!matches || matches.length === 0) {
+          return { data: [], error: null }
+        }
+        distances = new Map(matches.map(match => [match.id, match.distance_km]))
+        query = query.in('id', [...distances.keys()])
+      }
+
       if (filters.limit) {
         query = query.limit(filters.limit)
       }
@@ -178,15 +212,20 @@ export const tourismService = {
         return { data: null, error }
       }
 
-      const tourismPlaces = (data || []).map(item => ({
+      const tourismPlaces: TourismPlace[] = (data || []).map(item => ({
         ...item,
         city_name: item.cities?.name || 'Unknown City',
         area_name: item.areas?.name || null,
         category_name: item.categories?.name || null,
         creator_name: item.profiles?.full_name || null,
-        creator_email: item.profiles?.email || null
+        creator_email: item.profiles?.email || null,
+        distance_km: distances?.get(item.id)
       }))
 
+      if (distances) {
+        tourismPlaces.sort((a, b) => (a.distance_km ?? Infinity) - (b.distance_km ?? Infinity))
+      }
+
       return { data: tourismPlaces, error: null }
 
     } catch (error) {
@@ -360,15 +399,14 @@ export const tourismService = {
   /**
    * Update tourism place status (admin function)
    */
-  async updateTourismStatus(id: string, status: string): Promise<{ success: boolean; error: any }> {
+  async updateTourismStatus(id: string, status: string, reason?: string): Promise<{ success: boolean; error: unknown }> {
     try {
-      const { error } = await supabase
-        .from('tourism_places')
-        .update({ 
-          status,
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', id)
+      // The database logs the change with this reason
+      const { error } = await supabase.rpc('admin_set_tourism_status', {
+        p_place_id: id,
+        p_status: status,
+        p_reason: reason?.trim() || null
+      })
 
       if (error) {
         console.error('Error updating tourism status:', error)
@@ -386,12 +424,12 @@ export const tourismService = {
   /**
    * Delete tourism place (admin function)
    */
-  async deleteTourismPlace(id: string): Promise<{ success: boolean; error: any }> {
+  async deleteTourismPlace(id: string, reason?: string): Promise<{ success: boolean; error: unknown }> {
     try {
-      const { error } = await supabase
-        .from('tourism_places')
-        .delete()
-        .eq('id', id)
+      const { error } = await supabase.rpc('admin_delete_tourism_place', {
+        p_place_id: id,
+        p_reason: reason?.trim() || null
+      })
 
       if (error) {
         console.error('Error deleting tourism place:', error)
@@ -448,6 +486,10 @@ export const tourismImageService = {
         is_featured: item.is_featured || false,
         sort_order: item.sort_order || 0,
         uploaded_by: item.uploaded_by,
+        thumbnail_url: item.variants?.thumb?.url || null,
+        width: item.width ?? null,
+        height: item.height ?? null,
+        blurhash: item.blurhash ?? null,
         created_at: item.created_at,
         updated_at: item.created_at, // media_files might not have updated_at
         uploader_name: item.profiles?.full_name
@@ -483,41 +525,23 @@ export const tourismImageService = {
 
       console.log('Starting image upload for place:', placeId, 'by admin:', adminId)
 
-      const fileExt = file.name.split('.').pop()
-      const fileName = `${adminId}/${Date.now()}-${Math.random().toString(36).substring(2)}.${fileExt}`
-      const filePath = `tourism/${placeId}/${fileName}`
-
-      console.log('Uploading to storage path:', filePath)
-
-      // Upload to Supabase Storage
-      const { data: uploadData, error: uploadError } = await supabase.storage
-        .from('tourism-images')
-        .upload(filePath, file, {
-          cacheControl: '3600',
-          upsert: false
-        })
+      // Resized, re-encoded and stripped of metadata before it leaves the browser
+      const { data: image, error: uploadError } = await mediaUploadService.uploadImage(file, {
+        bucket: 'tourism-images',
+        basePath: `tourism/${placeId}/${adminId}/${Date.now()}-${Math.random().toString(36).substring(2)}`,
+        preset: 'gallery'
+      })
 
-      if (uploadError) {
+      if (uploadError || !image) {
         console.error('Storage upload error:', uploadError)
-        return { data: null, error: `Failed to upload image: ${uploadError.message}` }
+        return { data: null, error: uploadError || 'Failed to upload image' }
       }
 
-      console.log('Storage upload successful:', uploadData)
-
-      // Get public URL
-      const { data: urlData } = supabase.storage
-        .from('tourism-images')
-        .getPublicUrl(filePath)
-
-      console.log('Public URL generated:', urlData.publicUrl)
+      console.log('Storage upload successful:', image.path)
 
       // Prepare image data for media_files table
       const imageData = {
-        url: urlData.publicUrl,
-        image_path: filePath,
-        file_name: file.name,
-        file_size: file.size,
-        mime_type: file.type,
+        ...toMediaFileColumns(image),
         alt_text: options.altText || null,
         caption: options.caption || null,
         image_type: options.imageType || 'gallery',
@@ -546,10 +570,8 @@ export const tourismImageService = {
           hint: error.hint
         })
 
-        // Clean up uploaded file if database insert fails
-        await supabase.storage
-          .from('tourism-images')
-          .remove([filePath])
+        // Clean up uploaded files if database insert fails
+        await mediaUploadService.removeImage('tourism-images', getStoredImagePaths({ image_path: image.path, variants: image.variants }))
         
         return { data: null, error: `Failed to save image record: ${error.message}` }
       }
@@ -569,7 +591,11 @@ export const tourismImageService = {
         sort_order: data.sort_order,
         uploaded_by: data.uploaded_by,
         created_at: data.created_at,
-        updated_at: data.created_at
+        updated_at: data.created_at,
+        thumbnail_url: data.variants?.thumb?.url || null,
+        width: data.width,
+        height: data.height,
+        blurhash: data.blurhash
       }
 
       return { data: tourismImage, error: null }
@@ -583,14 +609,14 @@ export const tourismImageService = {
   /**
    * Delete tourism image (admin only) - USING MEDIA_FILES
    */
-  async deleteTourismImage(imageId: string): Promise<{ success: boolean; error: any }> {
+  async deleteTourismImage(imageId: string, reason?: string): Promise<{ success: boolean; error: unknown }> {
     try {
       console.log('Deleting tourism image:', imageId)
 
       // Get image record first
       const { data: imageRecord, error: fetchError } = await supabase
         .from('media_files')
-        .select('image_path')
+        .select('image_path, variants')
         .eq('id', imageId)
         .eq('entity_type', 'tourism')
         .single()
@@ -606,10 +632,8 @@ export const tourismImageService = {
 
       console.log('Found image record:', imageRecord)
 
-      // Delete from storage first
-      const { error: storageError } = await supabase.storage
-        .from('tourism-images')
-        .remove([imageRecord.image_path])
+      // Delete from storage first (the image and its resized variants)
+      const { error: storageError } = await mediaUploadService.removeImage('tourism-images', getStoredImagePaths(imageRecord))
 
       if (storageError) {
         console.error('Error deleting from storage (continuing anyway):', storageError)
@@ -617,11 +641,11 @@ export const tourismImageService = {
       }
 
       // Soft delete from database (set is_active = false)
-      const { error: dbError } = await supabase
-        .from('media_files')
-        .update({ is_active: false })
-        .eq('id', imageId)
-        .eq('entity_type', 'tourism')
+      // The database logs the deletion with this reason
+      const { error: dbError } = await supabase.rpc('admin_delete_tourism_image', {
+        p_image_id: imageId,
+        p_reason: reason?.trim() || null
+      })
 
       if (dbError) {
         console.error('Error deleting image record from database:', dbError)
@@ -737,6 +761,10 @@ export const tourismImageService = {
         is_featured: item.is_featured || false,
         sort_order: item.sort_order || 0,
         uploaded_by: item.uploaded_by,
+        thumbnail_url: item.variants?.thumb?.url || null,
+        width: item.width ?? null,
+        height: item.height ?? null,
+        blurhash: item.blurhash ?? null,
         created_at: item.created_at,
         updated_at: item.created_at,
         uploader_name: item.profiles?.full_name,
@@ -800,7 +828,7 @@ export const tourismReviewService = {
       const reviewIds = reviews.map(r => r.id)
       const { data: allImages } = await supabase
         .from('media_files')
-        .select('id, url, alt_text, caption, sort_order, entity_id')
+        .select('id, url, alt_text, caption, sort_order, entity_id, variants')
         .eq('entity_type', 'tourism_review')
         .in('entity_id', reviewIds)
         .eq('is_active', true)
@@ -824,7 +852,8 @@ export const tourismReviewService = {
             alt_text: img.alt_text,
             caption: img.caption,
             sort_order: img.sort_order,
-            created_at: review.created_at
+            created_at: review.created_at,
+            thumbnail_url: img.variants?.thumb?.url || null
           }))
         }
       })
@@ -838,14 +867,15 @@ export const tourismReviewService = {
   },
 
   /**
-   * Submit review with images
+   * Submit review with images. The moderation policy may hold it as pending;
+   * the returned status says which.
    */
   async submitTourismReview(
     placeId: string,
     userId: string,
     reviewData: TourismReviewFormData,
     images?: File[]
-  ): Promise<{ success: boolean; error: any }> {
+  ): Promise<{ success: boolean; error: unknown; status?: TourismReview['status'] }> {
     try {
       // Check if user already reviewed this place - use direct table query
       const { data: existingReview } = await supabase
@@ -890,57 +920,43 @@ export const tourismReviewService = {
         console.log(`Uploading ${images.length} images for review:`, review.id)
         
         for (let i = 0; i < images.length; i++) {
-          const file = images[i]
-          const fileExt = file.name.split('.').pop()
-          const fileName = `${userId}/${Date.now()}-${i}-${Math.random().toString(36).substring(2)}.${fileExt}`
-          const filePath = `reviews/${placeId}/${fileName}`
-
-          console.log(`Uploading image ${i + 1}:`, filePath)
-
-          const { data: uploadData, error: uploadError } = await supabase.storage
-            .from('tourism-images')
-            .upload(filePath, file, {
-              cacheControl: '3600',
-              upsert: false
-            })
-
-          if (!uploadError && uploadData) {
-            const { data: urlData } = supabase.storage
-              .from('tourism-images')
-              .getPublicUrl(filePath)
-
-            console.log(`Saving image ${i + 1} to media_files:`, urlData.publicUrl)
-
-            // Insert into media_files table
-            const { error: mediaError } = await supabase
-              .from('media_files')
-              .insert([
-                {
-                  url: urlData.publicUrl,
-                  image_path: filePath,
-                  file_name: file.name,
-                  file_size: file.size,
-                  mime_type: file.type,
-                  sort_order: i,
-                  entity_type: 'tourism_review',
-                  entity_id: review.id,
-                  uploaded_by: userId,
-                  is_active: true
-                }
-              ])
-
-            if (mediaError) {
-              console.error(`Error saving image ${i + 1} to media_files:`, mediaError)
-            } else {
-              console.log(`Image ${i + 1} saved successfully`)
-            }
-          } else {
+          const { data: image, error: uploadError } = await mediaUploadService.uploadImage(images[i], {
+            bucket: 'tourism-images',
+            basePath: `reviews/${placeId}/${userId}/${Date.now()}-${i}-${Math.random().toString(36).substring(2)}`,
+            preset: 'review'
+          })
+
+          if (uploadError || !image) {
             console.error(`Error uploading image ${i + 1}:`, uploadError)
+            continue
+          }
+
+          console.log(`Saving image ${i + 1} to media_files:`, image.url)
+
+          // Insert into media_files table
+          const { error: mediaError } = await supabase
+            .from('media_files')
+            .insert([
+              {
+                ...toMediaFileColumns(image),
+                sort_order: i,
+                entity_type: 'tourism_review',
+                entity_id: review.id,
+                uploaded_by: userId,
+                is_active: true
+              }
+            ])
+
+          if (mediaError) {
+            console.error(`Error saving image ${i + 1} to media_files:`, mediaError)
+            await mediaUploadService.removeImage('tourism-images', getStoredImagePaths({ image_path: image.path, variants: image.variants }))
+          } else {
+            console.log(`Image ${i + 1} saved successfully`)
           }
         }
       }
 
-      return { success: true, error: null }
+      return { success: true, error: null, status: review.status }
 
     } catch (error) {
       console.error('Unexpected error in submitTourismReview:', error)
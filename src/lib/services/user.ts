@@ -1,5 +1,6 @@
 // src/lib/services/user.ts - User Service Layer
 import { supabase } from '../supabase'
+import { getStoredImagePaths, mediaUploadService } from './media-upload'
 
 export interface UserProfile {
   id: string
@@ -96,47 +97,39 @@ export const userService = {
    */
   async uploadAvatar(userId: string, file: File): Promise<{ data: string | null; error: any }> {
     try {
-      // Validate file
-      if (file.size > 5 * 1024 * 1024) { // 5MB limit
-        return { data: null, error: 'Image must be less than 5MB' }
-      }
-
-      if (!file.type.startsWith('image/')) {
-        return { data: null, error: 'Please select an image file' }
-      }
-
-      // Upload to Supabase Storage
-      const fileExt = file.name.split('.').pop()
-      const fileName = `${userId}/avatar.${fileExt}`
-      const filePath = `avatars/${fileName}`
-
-      const { data: uploadData, error: uploadError } = await supabase.storage
-        .from('user-avatars')
-        .upload(filePath, file, {
-          cacheControl: '3600',
-          upsert: true // Replace existing file
-        })
+      // Cropped, resized and stripped of metadata before upload. Each upload
+      // gets a fresh path so cached copies of the old avatar never linger.
+      const folder = `avatars/${userId}`
+      const { data: image, error: uploadError } = await mediaUploadService.uploadImage(file, {
+        bucket: 'user-avatars',
+        basePath: `${folder}/avatar-${Date.now()}`,
+        preset: 'avatar'
+      })
 
-      if (uploadError) {
+      if (uploadError || !image) {
         console.error('Upload error:', uploadError)
-        return { data: null, error: 'Failed to upload image' }
+        return { data: null, error: typeof uploadError === 'string' ? uploadError : 'Failed to upload image' }
       }
 
-      // Get public URL
-      const { data: urlData } = supabase.storage
-        .from('user-avatars')
-        .getPublicUrl(filePath)
-
       // Update profile with new avatar URL
       const { error: updateError } = await this.updateProfile(userId, {
-        avatar_url: urlData.publicUrl
+        avatar_url: image.url
       })
 
       if (updateError) {
+        await mediaUploadService.removeImage('user-avatars', getStoredImagePaths({ image_path: image.path, variants: image.variants }))
         return { data: null, error: 'Failed to update profile picture' }
       }
 
-      return { data: urlData.publicUrl, error: null }
+      // Clear out previous avatars
+      const current = new Set(getStoredImagePaths({ image_path: image.path, variants: image.variants }))
+      const { data: existing } = await supabase.storage.from('user-avatars').list(folder)
+      const stale = (existing || [])
+        .map(item => `${folder}/${item.name}`)
+        .filter(path => !current.has(path))
+      await mediaUploadService.removeImage('user-avatars', stale)
+
+      return { data: image.url, error: null }
 
     } catch (error) {
       console.error('Unexpected error in uploadAvatar:', error)
@@ -298,15 +291,18 @@ export const userService = {
   /**
    * Update user role (admin function)
    */
-  async updateUserRole(userId: string, userType: 'user' | 'business_owner' | 'admin'): Promise<{ success: boolean; error: any }> {
+  async updateUserRole(
+    userId: string,
+    userType: 'user' | 'business_owner' | 'admin',
+    reason?: string
+  ): Promise<{ success: boolean; error: unknown }> {
     try {
-      const { error } = await supabase
-        .from('profiles')
-        .update({ 
-          user_type: userType,
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', userId)
+      // The database logs the change with this reason
+      const { error } = await supabase.rpc('admin_set_user_role', {
+        p_user_id: userId,
+        p_user_type: userType,
+        p_reason: reason?.trim() || null
+      })
 
       if (error) {
         console.error('Error updating user role:', error)
@@ -0,0 +1,96 @@
+// src/lib/status-reasons.ts - Reason templates for rejecting or suspending a listing
+// Shared by the admin UI, the owner's dashboard and the notification email,
+// so the owner reads the same wording the admin picked.
+
+export type StatusDecision = 'rejected' | 'suspended'
+
+export type StatusReasonCode =
+  | 'incomplete_information'
+  | 'inaccurate_details'
+  | 'duplicate_listing'
+  | 'not_a_local_business'
+  | 'inappropriate_content'
+  | 'policy_violation'
+  | 'reported_closed'
+  | 'reported_by_visitors'
+  | 'other'
+
+export interface StatusReason {
+  code: StatusReasonCode
+  note?: string // Free text from the admin, shown to the owner
+}
+
+export interface StatusReasonTemplate {
+  label: string
+  message: string // What the owner is told
+  appliesTo: StatusDecision[]
+}
+
+export const STATUS_REASON_TEMPLATES: Record<StatusReasonCode, StatusReasonTemplate> = {
+  incomplete_information: {
+    label: 'Incomplete information',
+    message: 'Some required details are missing, such as a full address, contact number or description.',
+    appliesTo: ['rejected', 'suspended']
+  },
+  inaccurate_details: {
+    label: 'Inaccurate details',
+    message: 'Some of the details on the listing don’t match what we could verify about the business.',
+    appliesTo: ['rejected', 'suspended']
+  },
+  duplicate_listing: {
+    label: 'Duplicate listing',
+    message: 'This business is already listed in the directory.',
+    appliesTo: ['rejected', 'suspended']
+  },
+  not_a_local_business: {
+    label: 'Outside the directory',
+    message: 'The directory only lists businesses operating in Chittorgarh and nearby areas.',
+    appliesTo: ['rejected']
+  },
+  inappropriate_content: {
+    label: 'Inappropriate content',
+    message: 'The listing contains text or photos that aren’t allowed in the directory.',
+    appliesTo: ['rejected', 'suspended']
+  },
+  policy_violation: {
+    label: 'Policy violation',
+    message: 'The listing or the way it is being used breaks the directory guidelines.',
+    appliesTo: ['rejected', 'suspended']
+  },
+  reported_closed: {
+    label: 'Reported closed',
+    message: 'Visitors have reported that this business is no longer operating.',
+    appliesTo: ['suspended']
+  },
+  // Set by the database when enough visitors report a listing; not offered to admins
+  reported_by_visitors: {
+    label: 'Reported by visitors',
+    message: 'Several visitors reported this listing, so it is hidden while our team takes a look.',
+    appliesTo: []
+  },
+  other: {
+    label: 'Other',
+    message: 'Our team has left a note explaining what needs to change.',
+    appliesTo: ['rejected', 'suspended']
+  }
+}
+
+/**
+ * Templates an admin can pick from for a decision
+ */
+export function getStatusReasonOptions(decision: StatusDecision): { value: StatusReasonCode; label: string }[] {
+  return (Object.entries(STATUS_REASON_TEMPLATES) as [StatusReasonCode, StatusReasonTemplate][])
+    .filter(([, template]) => template.appliesTo.includes(decision))
+    .map(([value, template]) => ({ value, label: template.label }))
+}
+
+/**
+ * One-line summary for the audit log, e.g. "Duplicate listing: same shop as Meera Sweets"
+ */
+export function formatStatusReason(code: string | null, note?: string | null): string {
+  const label = code ? STATUS_REASON_TEMPLATES[code as StatusReasonCode]?.label || code : ''
+  const text = note?.trim() || ''
+
+  if (label && text) return `${label}: ${text}`
+  return label || text
+}
@@ -0,0 +1,42 @@
+// src/lib/supabase-admin.ts - Server-side Supabase access for API routes
+// Needs SUPABASE_SERVICE_ROLE_KEY alongside the public URL.
+import { createClient, type SupabaseClient } from '@supabase/supabase-js'
+
+let adminClient: SupabaseClient | null = null
+
+/**
+ * Service-role Supabase client. Bypasses row level security, so it must
+ * never be imported from client components.
+ */
+export function getSupabaseAdmin(): SupabaseClient {
+  if (adminClient) return adminClient
+
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+
+  if (!supabaseUrl || !serviceRoleKey) {
+    throw new Error('Missing NEXT_PUBLIC_SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY environment variable')
+  }
+
+  adminClient = createClient(supabaseUrl, serviceRoleKey, {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false
+    }
+  })
+
+  return adminClient
+}
+
+/**
+ * The signed-in user behind an API request, from its "Authorization: Bearer" header
+ */
+export async function getRequestUser(request: Request) {
+  const token = request.headers.get('authorization')?.replace(/^Bearer\s+/i, '')
+  if (!token) return null
+
+  const { data, error } = await getSupabaseAdmin().auth.getUser(token)
+  if (error || !data.user) return null
+
+  return data.user
+}
@@ -165,91 +165,236 @@ export function isValidEmail(email: string): boolean {
 }
 
 /**
- * Format business hours for display
+ * Hide most of an email or phone number ("ra***@gmail.com", "******4321")
  */
-export function formatBusinessHours(hours: {
+export function maskContact(value: string): string {
+  if (value.includes('@')) {
+    const [name, domain] = value.split('@')
+    return `${name.slice(0, 2)}***@${domain}`
+  }
+
+  const digits = value.replace(/\D/g, '')
+  return `${'*'.repeat(Math.max(0, digits.length - 4))}${digits.slice(-4)}`
+}
+
+/**
+ * Shape shared by weekly hours rows and the list/detail views.
+ * A day can have several rows (split shifts); closes_at before opens_at means the shift runs past midnight.
+ */
+export interface HoursSlot {
   day_of_week: number
   opens_at: string | null
   closes_at: string | null
   is_closed: boolean
-}[]): string[] {
-  const days = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
-  
-  return hours.map(hour => {
-    const day = days[hour.day_of_week]
-    
-    if (hour.is_closed || !hour.opens_at || !hour.closes_at) {
+  is_24_hours?: boolean
+}
+
+/**
+ * Date-specific override (holiday, festival, special hours) that replaces the weekly schedule for that day
+ */
+export interface HoursOverrideSlot {
+  override_date: string // YYYY-MM-DD in the app timezone
+  opens_at: string | null
+  closes_at: string | null
+  is_closed: boolean
+  is_24_hours?: boolean
+  note?: string | null
+}
+
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
+const MINUTES_PER_DAY = 24 * 60
+
+/**
+ * Format business hours for display (one line per day, split shifts joined with commas)
+ */
+export function formatBusinessHours(hours: HoursSlot[]): string[] {
+  return DAY_NAMES.map((day, dayOfWeek) => {
+    const slots = hours.filter(h => h.day_of_week === dayOfWeek)
+
+    if (slots.length === 0) {
       return `${day}: Closed`
     }
-    
-    // Format time (assuming HH:MM format)
-    const formatTime = (time: string) => {
-      const [hours, minutes] = time.split(':')
-      const hour24 = parseInt(hours)
-      const ampm = hour24 >= 12 ? 'PM' : 'AM'
-      const hour12 = hour24 % 12 || 12
-      return `${hour12}:${minutes} ${ampm}`
+
+    if (slots.some(slot => slot.is_24_hours && !slot.is_closed)) {
+      return `${day}: Open 24 hours`
     }
-    
-    return `${day}: ${formatTime(hour.opens_at)} - ${formatTime(hour.closes_at)}`
+
+    const shifts = slots
+      .filter(slot => !slot.is_closed && slot.opens_at && slot.closes_at)
+      .sort((a, b) => a.opens_at!.localeCompare(b.opens_at!))
+      .map(slot => `${formatTime(slot.opens_at!)} - ${formatTime(slot.closes_at!)}`)
+
+    return shifts.length > 0 ? `${day}: ${shifts.join(', ')}` : `${day}: Closed`
   })
 }
 
 /**
- * Get current business status
+ * Get current business status, e.g. "Closes at 9 PM" or "Opens tomorrow at 10 AM".
+ * Evaluated in the app timezone so server and browser agree regardless of where they run.
  */
-export function getBusinessStatus(hours: {
-  day_of_week: number
-  opens_at: string | null
-  closes_at: string | null
-  is_closed: boolean
-}[]): {
+export function getBusinessStatus(
+  hours: HoursSlot[],
+  options: { overrides?: HoursOverrideSlot[]; now?: Date } = {}
+): {
   isOpen: boolean
   message: string
   nextChange?: string
 } {
-  const now = new Date()
-  const currentDay = now.getDay()
-  const currentTime = `${now.getHours().toString().padStart(2, '0')}:${now.getMinutes().toString().padStart(2, '0')}`
-  
-  const todayHours = hours.find(h => h.day_of_week === currentDay)
-  
-  if (!todayHours || todayHours.is_closed || !todayHours.opens_at || !todayHours.closes_at) {
+  const now = options.now || new Date()
+  const overrides = options.overrides || []
+  const today = getZonedDateParts(now)
+
+  if (hours.length === 0 && overrides.length === 0) {
+    return { isOpen: false, message: 'Hours not available' }
+  }
+
+  // Shifts for a date offset from today, as [start, end) minute ranges relative to that day's midnight
+  const shiftsFor = (dayOffset: number) => {
+    const parts = dayOffset === 0 ? today : getZonedDateParts(new Date(now.getTime() + dayOffset * MINUTES_PER_DAY * 60000))
+    const override = overrides.find(o => o.override_date === parts.date)
+    const slots: (HoursSlot | HoursOverrideSlot)[] = override ? [override] : hours.filter(h => h.day_of_week === parts.dayOfWeek)
     return {
-      isOpen: false,
-      message: 'Closed today'
+      parts,
+      override,
+      shifts: slots.flatMap(toMinuteRange).sort((a, b) => a.start - b.start)
     }
   }
-  
-  const isCurrentlyOpen = currentTime >= todayHours.opens_at && currentTime <= todayHours.closes_at
-  
-  if (isCurrentlyOpen) {
+
+  const current = shiftsFor(0)
+  const yesterday = shiftsFor(-1)
+
+  // Still inside a shift that started yesterday and runs past midnight
+  const carriedOver = yesterday.shifts.find(shift => shift.end > MINUTES_PER_DAY && today.minutes < shift.end - MINUTES_PER_DAY)
+  const active = carriedOver
+    ? { start: 0, end: carriedOver.end - MINUTES_PER_DAY }
+    : current.shifts.find(shift => today.minutes >= shift.start && today.minutes < shift.end)
+
+  if (active) {
+    if (active.start === 0 && active.end >= MINUTES_PER_DAY) {
+      return { isOpen: true, message: 'Open 24 hours' }
+    }
+    const closesAt = minutesToTime(active.end % MINUTES_PER_DAY)
     return {
       isOpen: true,
-      message: `Open until ${formatTime(todayHours.closes_at)}`
+      message: `Closes at ${formatTime(closesAt)}`,
+      nextChange: closesAt
     }
-  } else if (currentTime < todayHours.opens_at) {
+  }
+
+  const laterToday = current.shifts.find(shift => shift.start > today.minutes)
+  if (laterToday) {
+    const opensAt = minutesToTime(laterToday.start)
     return {
       isOpen: false,
-      message: `Opens at ${formatTime(todayHours.opens_at)}`
+      message: `Opens at ${formatTime(opensAt)}`,
+      nextChange: opensAt
     }
-  } else {
-    return {
-      isOpen: false,
-      message: 'Closed for today'
+  }
+
+  // A holiday override with a reason takes precedence over "opens tomorrow"
+  const holidayNote = current.override?.is_closed && current.override.note
+    ? `Closed today · ${current.override.note}`
+    : null
+
+  for (let offset = 1; offset <= 7; offset++) {
+    const upcoming = shiftsFor(offset)
+    if (upcoming.shifts.length > 0) {
+      const opensAt = minutesToTime(upcoming.shifts[0].start)
+      const when = offset === 1 ? 'tomorrow' : DAY_NAMES[upcoming.parts.dayOfWeek].slice(0, 3)
+      return {
+        isOpen: false,
+        message: holidayNote || `Opens ${when} at ${formatTime(opensAt)}`,
+        nextChange: opensAt
+      }
     }
   }
+
+  return {
+    isOpen: false,
+    message: holidayNote || 'Closed today'
+  }
+}
+
+/**
+ * Convert a weekly or override slot into minute ranges; overnight shifts end past 1440
+ */
+function toMinuteRange(slot: HoursSlot | HoursOverrideSlot): { start: number; end: number }[] {
+  if (slot.is_closed) return []
+  if (slot.is_24_hours) return [{ start: 0, end: MINUTES_PER_DAY }]
+  if (!slot.opens_at || !slot.closes_at) return []
+
+  const start = timeToMinutes(slot.opens_at)
+  let end = timeToMinutes(slot.closes_at)
+  if (end <= start) end += MINUTES_PER_DAY
+
+  return [{ start, end }]
+}
+
+function timeToMinutes(time: string): number {
+  const [hours, minutes] = time.split(':')
+  return parseInt(hours) * 60 + parseInt(minutes || '0')
+}
+
+function minutesToTime(minutes: number): string {
+  return `${Math.floor(minutes / 60).toString().padStart(2, '0')}:${(minutes % 60).toString().padStart(2, '0')}`
+}
+
+/**
+ * Calendar date, weekday and minutes-since-midnight for an instant in the app timezone
+ */
+function getZonedDateParts(date: Date): { date: string; dayOfWeek: number; minutes: number } {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: APP_CONSTANTS.TIMEZONE,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23'
+  }).formatToParts(date)
+
+  const get = (type: Intl.DateTimeFormatPartTypes) => parts.find(p => p.type === type)?.value || ''
+
+  return {
+    date: `${get('year')}-${get('month')}-${get('day')}`,
+    dayOfWeek: ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'].indexOf(get('weekday')),
+    minutes: parseInt(get('hour')) * 60 + parseInt(get('minute'))
+  }
+}
+
+/**
+ * Today's date (YYYY-MM-DD) in the app timezone
+ */
+export function getTodayInAppTimezone(): string {
+  return getZonedDateParts(new Date()).date
 }
 
 /**
- * Helper function to format time
+ * Helper function to format time ("21:00" -> "9 PM", "09:30" -> "9:30 AM")
  */
 function formatTime(time: string): string {
   const [hours, minutes] = time.split(':')
   const hour24 = parseInt(hours)
   const ampm = hour24 >= 12 ? 'PM' : 'AM'
   const hour12 = hour24 % 12 || 12
-  return `${hour12}:${minutes} ${ampm}`
+  return minutes && minutes !== '00' ? `${hour12}:${minutes} ${ampm}` : `${hour12} ${ampm}`
+}
+
+/**
+ * Message to show for a service error, which may be a string, an Error or a
+ * Supabase error object
+ */
+export function getErrorMessage(error: unknown, fallback: string): string {
+  if (typeof error === 'string' && error) {
+    return error
+  }
+
+  if (error && typeof error === 'object' && 'message' in error && typeof error.message === 'string' && error.message) {
+    return error.message
+  }
+
+  return fallback
 }
 
 /**
@@ -357,19 +502,46 @@ export function getRatingStars(rating: number): {
   return { full, half, empty }
 }
 
+/**
+ * Format a distance for display ("350 m", "2.4 km", "12 km")
+ */
+export function formatDistance(distanceKm: number): string {
+  if (distanceKm < 1) {
+    return `${Math.max(10, Math.round(distanceKm * 100) * 10)} m`
+  }
+  return distanceKm < 10 ? `${distanceKm.toFixed(1)} km` : `${Math.round(distanceKm)} km`
+}
+
+/**
+ * City-scoped URL of an area page
+ */
+export function getAreaPath(citySlug: string, areaSlug: string): string {
+  return `/${citySlug}/area/${areaSlug}`
+}
+
+/**
+ * City-scoped URL of a landmark page
+ */
+export function getLandmarkPath(citySlug: string, landmarkSlug: string): string {
+  return `/${citySlug}/landmark/${landmarkSlug}`
+}
+
 /**
  * Constants for the application
  */
 export const APP_CONSTANTS = {
-  CITY_NAME: 'Chittorgarh',
-  CITY_SLUG: 'chittorgarh',
+  DEFAULT_CITY_NAME: 'Chittorgarh', // Until a visitor picks a city
+  DEFAULT_CITY_SLUG: 'chittorgarh',
+  CITY_COOKIE: 'chittor-darpan-city', // Chosen city slug, readable by server redirects
+  SITE_URL: 'https://chittordarpan.com',
+  TIMEZONE: 'Asia/Kolkata',
   PHONE_REGEX: /^[6-9]\d{9}$/,
   MIN_SEARCH_LENGTH: 2,
   DEBOUNCE_DELAY: 300,
   ITEMS_PER_PAGE: 20,
   MAX_IMAGE_SIZE: 5 * 1024 * 1024, // 5MB
   SUPPORTED_IMAGE_TYPES: ['image/jpeg', 'image/png', 'image/webp'],
-  DEFAULT_COORDINATES: {
+  DEFAULT_COORDINATES: { // Default city's centre, for cities without coordinates
     lat: 24.8887,
     lng: 74.6269
   }
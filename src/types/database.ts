@@ -93,6 +93,10 @@ export interface BaseEntity {
     meta_title: string | null
     meta_description: string | null
     
+    // Media (approved logo and cover, synced from media_files)
+    logo_url: string | null
+    cover_url: string | null
+    
     // Timestamps
     published_at: string | null
     
@@ -101,6 +105,7 @@ export interface BaseEntity {
     area_name?: string | null
     owner_email?: string
     owner_name?: string | null
+    distance_km?: number // Set for nearby searches
   }
   
   export interface BusinessHours extends BaseEntity {
@@ -109,6 +114,18 @@ export interface BaseEntity {
     opens_at: string | null
     closes_at: string | null
     is_closed: boolean
+    is_24_hours: boolean
+    sort_order: number // Shift position within the day (split shifts)
+  }
+
+  export interface BusinessHourOverride extends BaseEntity {
+    business_id: string
+    override_date: string // YYYY-MM-DD
+    opens_at: string | null
+    closes_at: string | null
+    is_closed: boolean
+    is_24_hours: boolean
+    note: string | null
   }
   
   export interface BusinessCategory extends BaseEntity {
@@ -135,8 +152,15 @@ export interface BaseEntity {
     cityId?: string
     areaId?: string
     categoryId?: string
+    categorySlug?: string
     featured?: boolean
     verified?: boolean
+    openNow?: boolean
+    nearby?: { latitude: number; longitude: number; radiusKm: number }
+    bounds?: { north: number; south: number; east: number; west: number }
+    sortBy?: 'newest' | 'name' | 'verified' | 'distance'
+    page?: number
+    offset?: number
   }
   
   // Stats types
@@ -243,6 +267,7 @@ export interface TourismPlace {
   category_name?: string | null
   creator_name?: string | null
   creator_email?: string | null
+  distance_km?: number // Set for nearby searches
 }
 
 export interface TourismFilters {
@@ -253,6 +278,8 @@ export interface TourismFilters {
   city?: string
   area?: string
   featured?: boolean
+  nearby?: { latitude: number; longitude: number; radiusKm: number }
+  bounds?: { north: number; south: number; east: number; west: number }
   limit?: number
 }
 
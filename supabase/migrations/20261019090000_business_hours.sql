@@ -0,0 +1,103 @@
+-- Business hours: split shifts, 24h days and date-specific overrides
+
+-- A day may now have several rows (one per shift); sort_order keeps them in sequence
+alter table public.business_hours
+  add column if not exists is_24_hours boolean not null default false,
+  add column if not exists sort_order smallint not null default 0;
+
+alter table public.business_hours
+  drop constraint if exists business_hours_business_id_day_of_week_key;
+
+create unique index if not exists business_hours_business_day_shift_idx
+  on public.business_hours (business_id, day_of_week, sort_order);
+
+-- Holidays, festivals and one-off special hours replace the weekly schedule for that date
+create table if not exists public.business_hour_overrides (
+  id uuid primary key default gen_random_uuid(),
+  business_id uuid not null references public.businesses(id) on delete cascade,
+  override_date date not null,
+  opens_at time,
+  closes_at time,
+  is_closed boolean not null default false,
+  is_24_hours boolean not null default false,
+  note text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (business_id, override_date)
+);
+
+alter table public.business_hour_overrides enable row level security;
+
+create policy "Overrides are publicly readable"
+  on public.business_hour_overrides for select
+  using (true);
+
+create policy "Owners and admins manage overrides"
+  on public.business_hour_overrides for all
+  using (
+    exists (select 1 from public.businesses b where b.id = business_id and b.owner_id = auth.uid())
+    or exists (select 1 from public.profiles p where p.id = auth.uid() and p.user_type = 'admin')
+  );
+
+-- Businesses open at a given instant, evaluated in Asia/Kolkata.
+-- Overnight shifts (closes_at <= opens_at) count for the start day after opens_at
+-- and for the following day before closes_at. A day's override replaces its
+-- regular hours, including what carries past midnight, as in getBusinessStatus.
+create or replace function public.get_open_business_ids(p_at timestamptz default now())
+returns table (business_id uuid)
+language sql
+stable
+as $$
+  with t as (
+    select
+      (p_at at time zone 'Asia/Kolkata')::date as today,
+      extract(dow from p_at at time zone 'Asia/Kolkata')::int as dow,
+      (p_at at time zone 'Asia/Kolkata')::time as now_time,
+      ((p_at at time zone 'Asia/Kolkata') - interval '1 day')::date as yesterday,
+      extract(dow from (p_at at time zone 'Asia/Kolkata') - interval '1 day')::int as prev_dow
+  )
+  select o.business_id
+  from public.business_hour_overrides o, t
+  where o.override_date = t.today
+    and not o.is_closed
+    and (
+      o.is_24_hours
+      or (o.closes_at > o.opens_at and t.now_time >= o.opens_at and t.now_time < o.closes_at)
+      or (o.closes_at <= o.opens_at and t.now_time >= o.opens_at)
+    )
+  union
+  select h.business_id
+  from public.business_hours h, t
+  where h.day_of_week = t.dow
+    and not h.is_closed
+    and not exists (
+      select 1 from public.business_hour_overrides o
+      where o.business_id = h.business_id and o.override_date = t.today
+    )
+    and (
+      h.is_24_hours
+      or (h.closes_at > h.opens_at and t.now_time >= h.opens_at and t.now_time < h.closes_at)
+      or (h.closes_at <= h.opens_at and t.now_time >= h.opens_at)
+    )
+  -- Shifts carried over from yesterday: its override if it had one, else its regular hours
+  union
+  select o.business_id
+  from public.business_hour_overrides o, t
+  where o.override_date = t.yesterday
+    and not o.is_closed
+    and not o.is_24_hours
+    and o.closes_at <= o.opens_at
+    and t.now_time < o.closes_at
+  union
+  select h.business_id
+  from public.business_hours h, t
+  where h.day_of_week = t.prev_dow
+    and not h.is_closed
+    and not h.is_24_hours
+    and h.closes_at <= h.opens_at
+    and t.now_time < h.closes_at
+    and not exists (
+      select 1 from public.business_hour_overrides o
+      where o.business_id = h.business_id and o.override_date = t.yesterday
+    )
+$$;
@@ -0,0 +1,120 @@
+-- Owner edits to published listings wait here until an admin approves them
+
+create table if not exists public.business_pending_changes (
+  id uuid primary key default gen_random_uuid(),
+  business_id uuid not null references public.businesses(id) on delete cascade,
+  submitted_by uuid not null references public.profiles(id) on delete cascade,
+  changes jsonb not null,
+  status text not null default 'pending' check (status in ('pending', 'approved', 'rejected')),
+  review_note text,
+  reviewed_by uuid references public.profiles(id) on delete set null,
+  reviewed_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+-- At most one open change set per business; resubmitting replaces it
+create unique index if not exists business_pending_changes_open_idx
+  on public.business_pending_changes (business_id)
+  where status = 'pending';
+
+create index if not exists business_pending_changes_status_idx
+  on public.business_pending_changes (status, created_at);
+
+alter table public.business_pending_changes enable row level security;
+
+create policy "Owners read changes for their businesses"
+  on public.business_pending_changes for select
+  using (
+    exists (select 1 from public.businesses b where b.id = business_id and b.owner_id = auth.uid())
+    or exists (select 1 from public.profiles p where p.id = auth.uid() and p.user_type = 'admin')
+  );
+
+create policy "Owners submit changes for their businesses"
+  on public.business_pending_changes for insert
+  with check (
+    submitted_by = auth.uid()
+    and exists (select 1 from public.businesses b where b.id = business_id and b.owner_id = auth.uid())
+  );
+
+create policy "Owners replace their open changes"
+  on public.business_pending_changes for update
+  using (
+    status = 'pending'
+    and exists (select 1 from public.businesses b where b.id = business_id and b.owner_id = auth.uid())
+  )
+  with check (status = 'pending');
+
+create policy "Admins review changes"
+  on public.business_pending_changes for all
+  using (
+    exists (select 1 from public.profiles p where p.id = auth.uid() and p.user_type = 'admin')
+  );
+
+-- Published listings only change through an approved change set, which an
+-- admin applies. Maintenance with no signed-in user (migrations, the service
+-- role) is let through; row level security already keeps visitors out.
+create or replace function public.is_published_business_locked(p_business_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select auth.uid() is not null
+    and not exists (select 1 from public.profiles p where p.id = auth.uid() and p.user_type = 'admin')
+    and exists (select 1 from public.businesses b where b.id = p_business_id and b.status = 'published');
+$$;
+
+create or replace function public.guard_published_business_content()
+returns trigger
+language plpgsql
+as $$
+declare
+  v_field text;
+begin
+  if old.status <> 'published' or not public.is_published_business_locked(old.id) then
+    return new;
+  end if;
+
+  -- The columns an owner's change set covers; see toBusinessRow
+  foreach v_field in array array[
+    'name', 'slug', 'description', 'address', 'city_id', 'area_id', 'landmark_id', 'phone',
+    'email', 'website', 'whatsapp', 'established_year', 'employee_count', 'latitude', 'longitude'
+  ] loop
+    if to_jsonb(new) -> v_field is distinct from to_jsonb(old) -> v_field then
+      raise exception 'Changes to a published listing need admin approval';
+    end if;
+  end loop;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists guard_published_business_content on public.businesses;
+create trigger guard_published_business_content
+  before update on public.businesses
+  for each row execute function public.guard_published_business_content();
+
+-- Categories are part of the change set too
+create or replace function public.guard_published_business_rows()
+returns trigger
+language plpgsql
+as $$
+begin
+  if public.is_published_business_locked(coalesce(new.business_id, old.business_id)) then
+    raise exception 'Changes to a published listing need admin approval';
+  end if;
+
+  if tg_op = 'DELETE' then
+    return old;
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists guard_published_business_categories on public.business_categories;
+create trigger guard_published_business_categories
+  before insert or update or delete on public.business_categories
+  for each row execute function public.guard_published_business_rows();
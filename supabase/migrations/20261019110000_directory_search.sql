@@ -0,0 +1,132 @@
+-- Ranked, typo-tolerant search over published businesses and tourism places
+
+create extension if not exists pg_trgm;
+
+create index if not exists businesses_name_trgm_idx
+  on public.businesses using gin (lower(name) gin_trgm_ops);
+
+create index if not exists tourism_places_name_trgm_idx
+  on public.tourism_places using gin (lower(name) gin_trgm_ops);
+
+-- p_groups is a JSON array of term groups, one per word the visitor typed:
+--   [["chittorgarh", "chittor", "chitorgarh"], ["fort", "kila", "qila"]]
+-- Alternatives inside a group are synonyms/transliterations; the best one counts.
+-- A document's score is the average of its per-group scores, so every word matters.
+--
+-- Per-term score: trigram word similarity weighted by field (name 3, categories 2,
+-- address and description 1) plus 1 when full-text search matches exactly.
+--
+-- p_limit/p_offset page each entity type independently.
+-- Business-only filters (category, verified, featured, p_business_ids) do not
+-- restrict tourism places; p_city_id applies to both.
+create or replace function public.search_directory(
+  p_groups jsonb,
+  p_city_id uuid default null,
+  p_category_slug text default null,
+  p_verified boolean default false,
+  p_featured boolean default false,
+  p_business_ids uuid[] default null,
+  p_limit int default 10,
+  p_offset int default 0,
+  p_min_score real default 0.6
+)
+returns table (entity_type text, entity_id uuid, score real, rank bigint, total_count bigint)
+language sql
+stable
+as $$
+  with groups as (
+    select g.idx, lower(t.term) as term
+    from jsonb_array_elements(p_groups) with ordinality as g(alternatives, idx),
+         jsonb_array_elements_text(g.alternatives) as t(term)
+  ),
+  group_count as (
+    select count(distinct idx) as n from groups
+  ),
+  business_docs as (
+    select
+      b.id,
+      lower(b.name) as name,
+      lower(coalesce(string_agg(c.name, ' '), '')) as category_names,
+      lower(coalesce(b.address, '')) as address,
+      lower(coalesce(b.description, '')) as description
+    from public.businesses b
+    left join public.business_categories bc on bc.business_id = b.id
+    left join public.categories c on c.id = bc.category_id
+    where b.status = 'published'
+      and (p_city_id is null or b.city_id = p_city_id)
+      and (not p_verified or b.is_verified)
+      and (not p_featured or b.is_featured)
+      and (p_business_ids is null or b.id = any(p_business_ids))
+      and (
+        p_category_slug is null
+        or exists (
+          select 1
+          from public.business_categories fbc
+          join public.categories fc on fc.id = fbc.category_id
+          where fbc.business_id = b.id and fc.slug = p_category_slug
+        )
+      )
+    group by b.id
+  ),
+  tourism_docs as (
+    select
+      tp.id,
+      lower(tp.name) as name,
+      lower(coalesce(c.name, '')) as category_names,
+      lower(coalesce(tp.address, '')) as address,
+      lower(coalesce(tp.short_description, '') || ' ' || coalesce(tp.description, '')) as description
+    from public.tourism_places tp
+    left join public.categories c on c.id = tp.category_id
+    where tp.status = 'published'
+      and (p_city_id is null or tp.city_id = p_city_id)
+  ),
+  docs as (
+    select 'business'::text as entity_type, * from business_docs
+    union all
+    select 'tourism'::text as entity_type, * from tourism_docs
+  ),
+  term_scores as (
+    select
+      d.entity_type,
+      d.id,
+      g.idx,
+      max(
+        greatest(
+          word_similarity(g.term, d.name) * 3,
+          word_similarity(g.term, d.category_names) * 2,
+          word_similarity(g.term, d.address),
+          word_similarity(g.term, d.description)
+        )
+        + case
+            when to_tsvector('simple', d.name || ' ' || d.category_names || ' ' || d.address || ' ' || d.description)
+              @@ plainto_tsquery('simple', g.term)
+            then 1 else 0
+          end
+      ) as score
+    from docs d
+    cross join groups g
+    group by d.entity_type, d.id, g.idx
+  ),
+  ranked as (
+    select
+      ts.entity_type,
+      ts.id,
+      (sum(ts.score) / (select n from group_count))::real as score
+    from term_scores ts
+    group by ts.entity_type, ts.id
+    having sum(ts.score) / (select n from group_count) >= p_min_score
+  ),
+  numbered as (
+    select
+      r.*,
+      row_number() over (partition by r.entity_type order by r.score desc, r.id) as rn,
+      count(*) over (partition by r.entity_type) as total_count
+    from ranked r
+  )
+  -- The top row of each type always comes back so callers get total_count
+  -- even when paging past the end of one type
+  select n.entity_type, n.id, n.score, n.rn, n.total_count
+  from numbered n
+  where (n.rn > p_offset and n.rn <= p_offset + p_limit) or n.rn = 1
+  order by n.entity_type, n.rn
+$$;
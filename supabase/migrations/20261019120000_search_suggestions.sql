@@ -0,0 +1,203 @@
+-- Typeahead suggestions, recent searches and "did you mean" corrections
+
+create table if not exists public.search_logs (
+  id uuid primary key default gen_random_uuid(),
+  query text not null,
+  normalized_query text not null,
+  result_count int not null default 0,
+  user_id uuid references public.profiles(id) on delete cascade,
+  -- Per-tab browser session, so a failed query can be linked to the rewrite that worked
+  session_id text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists search_logs_user_idx
+  on public.search_logs (user_id, created_at desc)
+  where user_id is not null;
+
+create index if not exists search_logs_session_idx
+  on public.search_logs (session_id, created_at);
+
+create index if not exists search_logs_normalized_trgm_idx
+  on public.search_logs using gin (normalized_query gin_trgm_ops);
+
+alter table public.search_logs enable row level security;
+
+create policy "Users read their own searches"
+  on public.search_logs for select
+  using (
+    user_id = auth.uid()
+    or exists (select 1 from public.profiles p where p.id = auth.uid() and p.user_type = 'admin')
+  );
+
+create policy "Users clear their own searches"
+  on public.search_logs for delete
+  using (user_id = auth.uid());
+
+-- Searches are logged here rather than inserted directly, so the result count
+-- and user can't be made up. The count covers businesses and places matching
+-- the words as typed, with no filters.
+create or replace function public.log_search(p_query text, p_session_id text default null)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_normalized text := trim(regexp_replace(lower(p_query), '[^[:alnum:]]+', ' ', 'g'));
+  v_groups jsonb;
+  v_count int;
+begin
+  if v_normalized = '' or length(v_normalized) > 200 then
+    return;
+  end if;
+
+  select jsonb_agg(jsonb_build_array(w)) into v_groups
+  from regexp_split_to_table(v_normalized, ' ') w;
+
+  select coalesce(sum(distinct_totals.total_count), 0) into v_count
+  from (
+    select distinct d.entity_type, d.total_count
+    from public.search_directory(p_groups => v_groups, p_limit => 1) d
+  ) distinct_totals;
+
+  insert into public.search_logs (query, normalized_query, result_count, user_id, session_id)
+  values (left(trim(p_query), 200), v_normalized, v_count, auth.uid(), left(p_session_id, 64));
+end;
+$$;
+
+create index if not exists categories_name_trgm_idx
+  on public.categories using gin (lower(name) gin_trgm_ops);
+
+create index if not exists areas_name_trgm_idx
+  on public.areas using gin (lower(name) gin_trgm_ops);
+
+-- Prefix matches first, then trigram similarity on names, across every kind
+-- of thing the search box can jump straight to.
+create or replace function public.search_suggestions(
+  p_query text,
+  p_limit int default 8
+)
+returns table (
+  suggestion_type text,
+  id uuid,
+  label text,
+  sublabel text,
+  slug text,
+  score real
+)
+language sql
+stable
+as $$
+  with q as (
+    select lower(trim(p_query)) as term
+  ),
+  candidates as (
+    select 'business'::text as suggestion_type, b.id, b.name as label, c.name as sublabel, b.slug
+    from public.businesses b
+    left join public.cities c on c.id = b.city_id
+    where b.status = 'published'
+
+    union all
+
+    select 'category', cat.id, cat.name, null, cat.slug
+    from public.categories cat
+    where cat.feature_type = 'business'
+
+    union all
+
+    select 'area', a.id, a.name, c.name, a.slug
+    from public.areas a
+    left join public.cities c on c.id = a.city_id
+
+    union all
+
+    select 'tourism', tp.id, tp.name, c.name, tp.slug
+    from public.tourism_places tp
+    left join public.cities c on c.id = tp.city_id
+    where tp.status = 'published'
+  ),
+  scored as (
+    select
+      cand.*,
+      (
+        case
+          when lower(cand.label) like q.term || '%' then 2
+          when lower(cand.label) like '% ' || q.term || '%' then 1.5
+          else 0
+        end
+        + word_similarity(q.term, lower(cand.label))
+      )::real as score
+    from candidates cand, q
+    where q.term <> ''
+  )
+  select s.suggestion_type, s.id, s.label, s.sublabel, s.slug, s.score
+  from scored s
+  where s.score >= 0.5
+  order by s.score desc, length(s.label), s.label
+  limit p_limit
+$$;
+
+-- "Did you mean" for a query that has come up empty before.
+-- Prefer what people actually searched next in the same session after the
+-- same zero-result query; otherwise fall back to the closest name in the
+-- directory. Only names of published listings, categories and areas are ever
+-- suggested, so logged searches can't plant suggestions or leak to others.
+create or replace function public.search_did_you_mean(p_query text)
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  with q as (
+    select trim(regexp_replace(lower(p_query), '[^[:alnum:]]+', ' ', 'g')) as term
+  ),
+  vetted as (
+    select distinct trim(regexp_replace(lower(names.name), '[^[:alnum:]]+', ' ', 'g')) as term
+    from (
+      select b.name from public.businesses b where b.status = 'published'
+      union all
+      select cat.name from public.categories cat where cat.is_active
+      union all
+      select a.name from public.areas a
+      union all
+      select tp.name from public.tourism_places tp where tp.status = 'published'
+    ) names
+  ),
+  failed as (
+    select l.session_id, l.created_at
+    from public.search_logs l, q
+    where l.normalized_query = q.term
+      and l.result_count = 0
+      and l.session_id is not null
+  ),
+  rewrites as (
+    select next.normalized_query as suggestion, count(*) as uses, 2 as priority
+    from failed f
+    join lateral (
+      select l2.normalized_query, l2.result_count
+      from public.search_logs l2
+      where l2.session_id = f.session_id
+        and l2.created_at > f.created_at
+        and l2.created_at <= f.created_at + interval '10 minutes'
+      order by l2.created_at
+      limit 1
+    ) next on true
+    join vetted v on v.term = next.normalized_query, q
+    where next.result_count > 0
+      and next.normalized_query <> q.term
+    group by next.normalized_query
+  ),
+  similar as (
+    select v.term as suggestion, 0::bigint as uses, 1 as priority
+    from vetted v, q
+    where v.term <> q.term
+      and similarity(v.term, q.term) >= 0.4
+      and exists (select 1 from public.search_logs z where z.normalized_query = q.term and z.result_count = 0)
+  )
+  select suggestion
+  from (select * from rewrites union all select * from similar) candidates, q
+  order by priority desc, uses desc, similarity(suggestion, q.term) desc, suggestion
+  limit 1
+$$;
@@ -0,0 +1,191 @@
+-- "Near me": published businesses and tourism places within a radius, nearest first
+
+create index if not exists businesses_coordinates_idx
+  on public.businesses (latitude, longitude)
+  where latitude is not null and longitude is not null;
+
+create index if not exists tourism_places_coordinates_idx
+  on public.tourism_places (latitude, longitude)
+  where latitude is not null and longitude is not null;
+
+-- Great-circle distance in kilometres
+create or replace function public.haversine_km(
+  lat1 double precision,
+  lng1 double precision,
+  lat2 double precision,
+  lng2 double precision
+)
+returns double precision
+language sql
+immutable
+as $$
+  select 2 * 6371 * asin(sqrt(
+    power(sin(radians(lat2 - lat1) / 2), 2)
+    + cos(radians(lat1)) * cos(radians(lat2)) * power(sin(radians(lng2 - lng1) / 2), 2)
+  ))
+$$;
+
+-- p_entity_type is 'business' or 'tourism'. A bounding box narrows the rows
+-- (and uses the coordinates index) before the exact distance check.
+create or replace function public.nearby_entities(
+  p_entity_type text,
+  p_latitude double precision,
+  p_longitude double precision,
+  p_radius_km double precision default 5
+)
+returns table (id uuid, distance_km double precision)
+language sql
+stable
+as $$
+  with bounds as (
+    select
+      p_radius_km / 111.045 as lat_delta,
+      p_radius_km / (111.045 * greatest(cos(radians(p_latitude)), 0.01)) as lng_delta
+  ),
+  points as (
+    select b.id, b.latitude, b.longitude
+    from public.businesses b
+    where p_entity_type = 'business'
+      and b.status = 'published'
+      and b.latitude is not null
+      and b.longitude is not null
+
+    union all
+
+    select tp.id, tp.latitude, tp.longitude
+    from public.tourism_places tp
+    where p_entity_type = 'tourism'
+      and tp.status = 'published'
+      and tp.latitude is not null
+      and tp.longitude is not null
+  )
+  select p.id, d.distance_km
+  from points p
+  cross join bounds
+  cross join lateral (
+    select public.haversine_km(p_latitude, p_longitude, p.latitude, p.longitude) as distance_km
+  ) d
+  where p.latitude between p_latitude - bounds.lat_delta and p_latitude + bounds.lat_delta
+    and p.longitude between p_longitude - bounds.lng_delta and p_longitude + bounds.lng_delta
+    and d.distance_km <= p_radius_km
+  order by d.distance_km
+$$;
+
+-- Let search_directory narrow tourism places to a set of ids, the way
+-- p_business_ids already narrows businesses (used by "near me" searches)
+
+drop function if exists public.search_directory(jsonb, uuid, text, boolean, boolean, uuid[], int, int, real);
+
+create or replace function public.search_directory(
+  p_groups jsonb,
+  p_city_id uuid default null,
+  p_category_slug text default null,
+  p_verified boolean default false,
+  p_featured boolean default false,
+  p_business_ids uuid[] default null,
+  p_tourism_ids uuid[] default null,
+  p_limit int default 10,
+  p_offset int default 0,
+  p_min_score real default 0.6
+)
+returns table (entity_type text, entity_id uuid, score real, rank bigint, total_count bigint)
+language sql
+stable
+as $$
+  with groups as (
+    select g.idx, lower(t.term) as term
+    from jsonb_array_elements(p_groups) with ordinality as g(alternatives, idx),
+         jsonb_array_elements_text(g.alternatives) as t(term)
+  ),
+  group_count as (
+    select count(distinct idx) as n from groups
+  ),
+  business_docs as (
+    select
+      b.id,
+      lower(b.name) as name,
+      lower(coalesce(string_agg(c.name, ' '), '')) as category_names,
+      lower(coalesce(b.address, '')) as address,
+      lower(coalesce(b.description, '')) as description
+    from public.businesses b
+    left join public.business_categories bc on bc.business_id = b.id
+    left join public.categories c on c.id = bc.category_id
+    where b.status = 'published'
+      and (p_city_id is null or b.city_id = p_city_id)
+      and (not p_verified or b.is_verified)
+      and (not p_featured or b.is_featured)
+      and (p_business_ids is null or b.id = any(p_business_ids))
+      and (
+        p_category_slug is null
+        or exists (
+          select 1
+          from public.business_categories fbc
+          join public.categories fc on fc.id = fbc.category_id
+          where fbc.business_id = b.id and fc.slug = p_category_slug
+        )
+      )
+    group by b.id
+  ),
+  tourism_docs as (
+    select
+      tp.id,
+      lower(tp.name) as name,
+      lower(coalesce(c.name, '')) as category_names,
+      lower(coalesce(tp.address, '')) as address,
+      lower(coalesce(tp.short_description, '') || ' ' || coalesce(tp.description, '')) as description
+    from public.tourism_places tp
+    left join public.categories c on c.id = tp.category_id
+    where tp.status = 'published'
+      and (p_city_id is null or tp.city_id = p_city_id)
+      and (p_tourism_ids is null or tp.id = any(p_tourism_ids))
+  ),
+  docs as (
+    select 'business'::text as entity_type, * from business_docs
+    union all
+    select 'tourism'::text as entity_type, * from tourism_docs
+  ),
+  term_scores as (
+    select
+      d.entity_type,
+      d.id,
+      g.idx,
+      max(
+        greatest(
+          word_similarity(g.term, d.name) * 3,
+          word_similarity(g.term, d.category_names) * 2,
+          word_similarity(g.term, d.address),
+          word_similarity(g.term, d.description)
+        )
+        + case
+            when to_tsvector('simple', d.name || ' ' || d.category_names || ' ' || d.address || ' ' || d.description)
+              @@ plainto_tsquery('simple', g.term)
+            then 1 else 0
+          end
+      ) as score
+    from docs d
+    cross join groups g
+    group by d.entity_type, d.id, g.idx
+  ),
+  ranked as (
+    select
+      ts.entity_type,
+      ts.id,
+      (sum(ts.score) / (select n from group_count))::real as score
+    from term_scores ts
+    group by ts.entity_type, ts.id
+    having sum(ts.score) / (select n from group_count) >= p_min_score
+  ),
+  numbered as (
+    select
+      r.*,
+      row_number() over (partition by r.entity_type order by r.score desc, r.id) as rn,
+      count(*) over (partition by r.entity_type) as total_count
+    from ranked r
+  )
+  -- The top row of each type always comes back so callers get total_count
+  -- even when paging past the end of one type
+  select n.entity_type, n.id, n.score, n.rn, n.total_count
+  from numbered n
+  where (n.rn > p_offset and n.rn <= p_offset + p_limit) or n.rn = 1
+  order by n.entity_type, n.rn
+$$;
@@ -0,0 +1,211 @@
+-- Business photos (logo, cover, gallery) in the shared media_files table.
+-- Owner uploads wait for an admin before they appear publicly; tourism images
+-- are admin-managed and keep the 'approved' default.
+
+alter table public.media_files
+  add column if not exists moderation_status text not null default 'approved'
+    check (moderation_status in ('pending', 'approved', 'rejected')),
+  add column if not exists reviewed_by uuid references public.profiles(id) on delete set null,
+  add column if not exists reviewed_at timestamptz;
+
+create index if not exists media_files_entity_idx
+  on public.media_files (entity_type, entity_id, sort_order)
+  where is_active;
+
+create index if not exists media_files_moderation_idx
+  on public.media_files (entity_type, created_at)
+  where is_active and moderation_status = 'pending';
+
+-- Approved logo and cover, denormalised so list queries get thumbnails for free
+alter table public.businesses
+  add column if not exists logo_url text,
+  add column if not exists cover_url text;
+
+create or replace function public.sync_business_media_urls()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_business_id uuid := coalesce(new.entity_id, old.entity_id);
+begin
+  if coalesce(new.entity_type, old.entity_type) <> 'business' then
+    return null;
+  end if;
+
+  update public.businesses b
+  set
+    logo_url = (
+      select m.url from public.media_files m
+      where m.entity_type = 'business' and m.entity_id = v_business_id
+        and m.image_type = 'logo' and m.is_active and m.moderation_status = 'approved'
+      order by m.created_at desc
+      limit 1
+    ),
+    cover_url = (
+      select m.url from public.media_files m
+      where m.entity_type = 'business' and m.entity_id = v_business_id
+        and m.image_type = 'cover' and m.is_active and m.moderation_status = 'approved'
+      order by m.created_at desc
+      limit 1
+    )
+  where b.id = v_business_id;
+
+  return null;
+end;
+$$;
+
+drop trigger if exists media_files_sync_business_urls on public.media_files;
+create trigger media_files_sync_business_urls
+  after insert or update or delete on public.media_files
+  for each row execute function public.sync_business_media_urls();
+
+-- Only admins decide whether a photo is approved. Everyone else may reorder
+-- and remove photos; a new caption or alt text goes back for review, and the
+-- file itself can't be swapped under an approval.
+create or replace function public.guard_media_moderation()
+returns trigger
+language plpgsql
+as $$
+declare
+  v_editable text[] := array['sort_order', 'is_active', 'caption', 'alt_text', 'updated_at'];
+begin
+  if exists (select 1 from public.profiles p where p.id = auth.uid() and p.user_type = 'admin') then
+    return new;
+  end if;
+
+  if new.moderation_status is distinct from old.moderation_status
+    or new.reviewed_by is distinct from old.reviewed_by
+    or new.reviewed_at is distinct from old.reviewed_at
+  then
+    raise exception 'Only admins can moderate photos';
+  end if;
+
+  if (to_jsonb(new) - v_editable) is distinct from (to_jsonb(old) - v_editable) then
+    raise exception 'Upload a new photo instead of changing this one';
+  end if;
+
+  if new.caption is distinct from old.caption or new.alt_text is distinct from old.alt_text then
+    new.moderation_status := 'pending';
+    new.reviewed_by := null;
+    new.reviewed_at := null;
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists media_files_guard_moderation on public.media_files;
+create trigger media_files_guard_moderation
+  before update on public.media_files
+  for each row execute function public.guard_media_moderation();
+
+alter table public.media_files enable row level security;
+
+-- Keep tourism images working now that the table has row level security
+create policy "Anyone views tourism images"
+  on public.media_files for select
+  using (entity_type = 'tourism' and is_active);
+
+create policy "Admins manage tourism images"
+  on public.media_files for all
+  using (
+    entity_type = 'tourism'
+    and exists (select 1 from public.profiles p where p.id = auth.uid() and p.user_type = 'admin')
+  );
+
+-- Tourism review photos: public, managed by the review's author or an admin
+create policy "Anyone views tourism review photos"
+  on public.media_files for select
+  using (entity_type = 'tourism_review' and is_active);
+
+create policy "Authors upload tourism review photos"
+  on public.media_files for insert
+  with check (
+    entity_type = 'tourism_review'
+    and uploaded_by = auth.uid()
+    and exists (select 1 from public.tourism_reviews r where r.id = entity_id and r.user_id = auth.uid())
+  );
+
+create policy "Authors and admins remove tourism review photos"
+  on public.media_files for delete
+  using (
+    entity_type = 'tourism_review'
+    and (
+      exists (select 1 from public.tourism_reviews r where r.id = entity_id and r.user_id = auth.uid())
+      or exists (select 1 from public.profiles p where p.id = auth.uid() and p.user_type = 'admin')
+    )
+  );
+
+create policy "Admins manage tourism review photos"
+  on public.media_files for all
+  using (
+    entity_type = 'tourism_review'
+    and exists (select 1 from public.profiles p where p.id = auth.uid() and p.user_type = 'admin')
+  );
+
+create policy "Anyone views approved business photos"
+  on public.media_files for select
+  using (entity_type = 'business' and is_active and moderation_status = 'approved');
+
+create policy "Owners view their business photos"
+  on public.media_files for select
+  using (
+    entity_type = 'business'
+    and exists (select 1 from public.businesses b where b.id = entity_id and b.owner_id = auth.uid())
+  );
+
+create policy "Owners upload business photos for review"
+  on public.media_files for insert
+  with check (
+    entity_type = 'business'
+    and uploaded_by = auth.uid()
+    and moderation_status = 'pending'
+    and exists (select 1 from public.businesses b where b.id = entity_id and b.owner_id = auth.uid())
+  );
+
+create policy "Owners manage their business photos"
+  on public.media_files for update
+  using (
+    entity_type = 'business'
+    and exists (select 1 from public.businesses b where b.id = entity_id and b.owner_id = auth.uid())
+  );
+
+create policy "Admins moderate business photos"
+  on public.media_files for all
+  using (
+    entity_type = 'business'
+    and exists (select 1 from public.profiles p where p.id = auth.uid() and p.user_type = 'admin')
+  );
+
+-- Storage: business/<business_id>/<uploader_id>/<file>
+insert into storage.buckets (id, name, public)
+values ('business-images', 'business-images', true)
+on conflict (id) do nothing;
+
+create policy "Anyone reads business images"
+  on storage.objects for select
+  using (bucket_id = 'business-images');
+
+create policy "Owners upload business images"
+  on storage.objects for insert
+  with check (
+    bucket_id = 'business-images'
+    and (storage.foldername(name))[1] = 'business'
+    and (storage.foldername(name))[3] = auth.uid()::text
+    and exists (
+      select 1 from public.businesses b
+      where b.id::text = (storage.foldername(name))[2] and b.owner_id = auth.uid()
+    )
+  );
+
+create policy "Owners and admins remove business images"
+  on storage.objects for delete
+  using (
+    bucket_id = 'business-images'
+    and (
+      (storage.foldername(name))[3] = auth.uid()::text
+      or exists (select 1 from public.profiles p where p.id = auth.uid() and p.user_type = 'admin')
+    )
+  );
@@ -0,0 +1,11 @@
+-- Details of images processed in the browser before upload: final dimensions,
+-- a blurhash placeholder and the resized variants stored next to the main file
+
+alter table public.media_files
+  add column if not exists width integer,
+  add column if not exists height integer,
+  add column if not exists blurhash text,
+  add column if not exists variants jsonb not null default '{}'::jsonb;
+
+comment on column public.media_files.variants is
+  'Resized copies keyed by name, e.g. {"thumb": {"url", "path", "width", "height"}}';
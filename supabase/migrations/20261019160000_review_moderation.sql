@@ -0,0 +1,164 @@
+-- Review moderation: a site-wide publishing policy plus an admin queue
+-- covering business reviews and tourism reviews
+
+create table if not exists public.review_moderation_settings (
+  id boolean primary key default true check (id), -- single row
+  policy text not null default 'auto_publish'
+    check (policy in ('auto_publish', 'hold_first_time', 'hold_flagged')),
+  banned_words text[] not null default '{}',
+  updated_by uuid references public.profiles(id) on delete set null,
+  updated_at timestamptz not null default now()
+);
+
+insert into public.review_moderation_settings (id) values (true)
+  on conflict (id) do nothing;
+
+alter table public.review_moderation_settings enable row level security;
+
+-- Only admins see the banned word list; the insert trigger reads it as definer
+create policy "Admins manage review moderation settings"
+  on public.review_moderation_settings for all
+  using (
+    exists (select 1 from public.profiles p where p.id = auth.uid() and p.user_type = 'admin')
+  );
+
+-- Moderation columns, shared by both review tables
+alter table public.reviews
+  add column if not exists held_reason text
+    check (held_reason in ('first_review', 'contains_link', 'banned_word')),
+  add column if not exists moderation_reason text,
+  add column if not exists moderated_by uuid references public.profiles(id) on delete set null,
+  add column if not exists moderated_at timestamptz,
+  add column if not exists report_count integer not null default 0;
+
+alter table public.tourism_reviews
+  add column if not exists held_reason text
+    check (held_reason in ('first_review', 'contains_link', 'banned_word')),
+  add column if not exists moderation_reason text,
+  add column if not exists moderated_by uuid references public.profiles(id) on delete set null,
+  add column if not exists moderated_at timestamptz,
+  add column if not exists report_count integer not null default 0;
+
+comment on column public.reviews.held_reason is 'Why the moderation policy held this review for approval';
+comment on column public.reviews.report_count is 'Number of distinct users who reported this review';
+comment on column public.tourism_reviews.held_reason is 'Why the moderation policy held this review for approval';
+comment on column public.tourism_reviews.report_count is 'Number of distinct users who reported this review';
+
+create index if not exists reviews_status_created_idx
+  on public.reviews (status, created_at);
+
+create index if not exists tourism_reviews_status_created_idx
+  on public.tourism_reviews (status, created_at);
+
+-- New reviews go through the policy no matter what status the client asked for
+create or replace function public.apply_review_moderation_policy()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  settings public.review_moderation_settings;
+  body text := lower(coalesce(new.title, '') || ' ' || coalesce(new.content, ''));
+  word text;
+begin
+  if exists (select 1 from public.profiles p where p.id = auth.uid() and p.user_type = 'admin') then
+    return new;
+  end if;
+
+  new.status := 'published';
+  new.held_reason := null;
+  new.moderation_reason := null;
+  new.moderated_by := null;
+  new.moderated_at := null;
+  new.report_count := 0;
+
+  select * into settings from public.review_moderation_settings where id;
+
+  if settings.policy = 'hold_first_time' then
+    if not exists (select 1 from public.reviews r where r.user_id = new.user_id and r.status = 'published')
+      and not exists (select 1 from public.tourism_reviews t where t.user_id = new.user_id and t.status = 'published')
+    then
+      new.status := 'pending';
+      new.held_reason := 'first_review';
+    end if;
+
+  elsif settings.policy = 'hold_flagged' then
+    if body ~ '(https?://|www\.|\m[a-z0-9-]+\.(com|net|org|io|co|info|biz)\M)' then
+      new.status := 'pending';
+      new.held_reason := 'contains_link';
+    else
+      foreach word in array settings.banned_words loop
+        if length(trim(word)) > 0 and body ~ ('\m' || regexp_replace(lower(trim(word)), '([.*+?^${}()|\[\]\\])', '\\\1', 'g') || '\M') then
+          new.status := 'pending';
+          new.held_reason := 'banned_word';
+          exit;
+        end if;
+      end loop;
+    end if;
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists reviews_apply_moderation_policy on public.reviews;
+create trigger reviews_apply_moderation_policy
+  before insert on public.reviews
+  for each row execute function public.apply_review_moderation_policy();
+
+drop trigger if exists tourism_reviews_apply_moderation_policy on public.tourism_reviews;
+create trigger tourism_reviews_apply_moderation_policy
+  before insert on public.tourism_reviews
+  for each row execute function public.apply_review_moderation_policy();
+
+-- Authors can edit their reviews, but only admins change moderation fields
+create or replace function public.guard_review_moderation()
+returns trigger
+language plpgsql
+as $$
+begin
+  if (new.status is distinct from old.status
+      or new.held_reason is distinct from old.held_reason
+      or new.moderation_reason is distinct from old.moderation_reason
+      or new.moderated_by is distinct from old.moderated_by
+      or new.moderated_at is distinct from old.moderated_at)
+    and not exists (select 1 from public.profiles p where p.id = auth.uid() and p.user_type = 'admin')
+  then
+    raise exception 'Only admins can moderate reviews';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists reviews_guard_moderation on public.reviews;
+create trigger reviews_guard_moderation
+  before update on public.reviews
+  for each row execute function public.guard_review_moderation();
+
+drop trigger if exists tourism_reviews_guard_moderation on public.tourism_reviews;
+create trigger tourism_reviews_guard_moderation
+  before update on public.tourism_reviews
+  for each row execute function public.guard_review_moderation();
+
+-- Authors see their own held reviews; admins see and moderate everything
+create policy "Authors view their own reviews"
+  on public.reviews for select
+  using (user_id = auth.uid());
+
+create policy "Admins moderate reviews"
+  on public.reviews for all
+  using (
+    exists (select 1 from public.profiles p where p.id = auth.uid() and p.user_type = 'admin')
+  );
+
+create policy "Authors view their own tourism reviews"
+  on public.tourism_reviews for select
+  using (user_id = auth.uid());
+
+create policy "Admins moderate tourism reviews"
+  on public.tourism_reviews for all
+  using (
+    exists (select 1 from public.profiles p where p.id = auth.uid() and p.user_type = 'admin')
+  );
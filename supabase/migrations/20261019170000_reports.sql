@@ -0,0 +1,264 @@
+-- User reports against reviews, owner replies and business listings.
+-- Enough reports from different users hide the content until an admin decides.
+
+create table if not exists public.reports (
+  id uuid primary key default gen_random_uuid(),
+  entity_type text not null
+    check (entity_type in ('review', 'tourism_review', 'review_reply', 'business')),
+  entity_id uuid not null,
+  reporter_id uuid not null references public.profiles(id) on delete cascade,
+  reason text not null
+    check (reason in ('spam', 'fake', 'offensive', 'harassment', 'conflict_of_interest', 'fraud', 'wrong_info', 'other')),
+  details text check (char_length(details) <= 500),
+  status text not null default 'open' check (status in ('open', 'actioned', 'dismissed')),
+  outcome_note text,
+  resolved_by uuid references public.profiles(id) on delete set null,
+  resolved_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+-- One report per user per item
+create unique index if not exists reports_reporter_entity_idx
+  on public.reports (entity_type, entity_id, reporter_id);
+
+create index if not exists reports_status_idx
+  on public.reports (status, created_at);
+
+alter table public.reports enable row level security;
+
+create policy "Users file reports"
+  on public.reports for insert
+  with check (reporter_id = auth.uid() and status = 'open');
+
+create policy "Users view their own reports"
+  on public.reports for select
+  using (reporter_id = auth.uid());
+
+create policy "Admins triage reports"
+  on public.reports for all
+  using (
+    exists (select 1 from public.profiles p where p.id = auth.uid() and p.user_type = 'admin')
+  );
+
+-- Hidden state for content that has no status of its own
+alter table public.review_replies
+  add column if not exists is_hidden boolean not null default false;
+
+alter table public.businesses
+  add column if not exists hidden_by_reports boolean not null default false;
+
+-- Reviews hidden by reports go back to pending with their own reason
+alter table public.reviews drop constraint if exists reviews_held_reason_check;
+alter table public.reviews add constraint reviews_held_reason_check
+  check (held_reason in ('first_review', 'contains_link', 'banned_word', 'reported'));
+
+alter table public.tourism_reviews drop constraint if exists tourism_reviews_held_reason_check;
+alter table public.tourism_reviews add constraint tourism_reviews_held_reason_check
+  check (held_reason in ('first_review', 'contains_link', 'banned_word', 'reported'));
+
+-- Updates made from the report triggers below run as the reporter, so only
+-- direct updates are checked
+create or replace function public.guard_review_moderation()
+returns trigger
+language plpgsql
+as $$
+begin
+  if pg_trigger_depth() = 1
+    and (new.status is distinct from old.status
+      or new.held_reason is distinct from old.held_reason
+      or new.moderation_reason is distinct from old.moderation_reason
+      or new.moderated_by is distinct from old.moderated_by
+      or new.moderated_at is distinct from old.moderated_at)
+    and not exists (select 1 from public.profiles p where p.id = auth.uid() and p.user_type = 'admin')
+  then
+    raise exception 'Only admins can moderate reviews';
+  end if;
+
+  return new;
+end;
+$$;
+
+-- Business teams can edit their replies, but a reply hidden by reports stays
+-- hidden until an admin resolves them
+create or replace function public.guard_reply_moderation()
+returns trigger
+language plpgsql
+as $$
+begin
+  if pg_trigger_depth() = 1
+    and new.is_hidden is distinct from old.is_hidden
+    and not exists (select 1 from public.profiles p where p.id = auth.uid() and p.user_type = 'admin')
+  then
+    raise exception 'Only admins can hide or restore replies';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists review_replies_guard_moderation on public.review_replies;
+create trigger review_replies_guard_moderation
+  before update on public.review_replies
+  for each row execute function public.guard_reply_moderation();
+
+-- Distinct reporters needed before content is hidden automatically
+create or replace function public.report_hide_threshold(p_entity_type text)
+returns integer
+language sql
+immutable
+as $$
+  select case when p_entity_type = 'business' then 5 else 3 end;
+$$;
+
+create or replace function public.handle_new_report()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  open_reports integer;
+  total_reports integer;
+begin
+  select count(*) filter (where status = 'open'), count(*)
+    into open_reports, total_reports
+    from public.reports
+    where entity_type = new.entity_type and entity_id = new.entity_id;
+
+  if new.entity_type = 'review' then
+    update public.reviews set report_count = total_reports where id = new.entity_id;
+  elsif new.entity_type = 'tourism_review' then
+    update public.tourism_reviews set report_count = total_reports where id = new.entity_id;
+  end if;
+
+  if open_reports < public.report_hide_threshold(new.entity_type) then
+    return new;
+  end if;
+
+  if new.entity_type = 'review' then
+    update public.reviews
+      set status = 'pending', held_reason = 'reported'
+      where id = new.entity_id and status = 'published';
+  elsif new.entity_type = 'tourism_review' then
+    update public.tourism_reviews
+      set status = 'pending', held_reason = 'reported'
+      where id = new.entity_id and status = 'published';
+  elsif new.entity_type = 'review_reply' then
+    update public.review_replies set is_hidden = true where id = new.entity_id;
+  elsif new.entity_type = 'business' then
+    -- A system change: the status history tells the owner why, and the audit
+    -- log doesn't pin it on whoever happened to report last
+    perform set_config('app.status_change', 'on', true);
+    perform set_config('app.audit_system', 'on', true);
+    perform set_config('app.audit_context', jsonb_build_object('reason_code', 'reported_by_visitors')::text, true);
+
+    update public.businesses
+      set status = 'suspended', hidden_by_reports = true
+      where id = new.entity_id and status = 'published';
+
+    if found then
+      insert into public.business_status_history (business_id, from_status, to_status, reason_code)
+      values (new.entity_id, 'published', 'suspended', 'reported_by_visitors');
+    end if;
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists reports_handle_new on public.reports;
+create trigger reports_handle_new
+  after insert on public.reports
+  for each row execute function public.handle_new_report();
+
+-- Close every open report on an item (admin). 'actioned' takes the content
+-- down for good; 'dismissed' restores anything the reports hid.
+create or replace function public.resolve_reports(
+  p_entity_type text,
+  p_entity_id uuid,
+  p_outcome text,
+  p_note text default null
+)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  resolved integer;
+  v_business_status text;
+begin
+  if not exists (select 1 from public.profiles p where p.id = auth.uid() and p.user_type = 'admin') then
+    raise exception 'Only admins can resolve reports';
+  end if;
+
+  if p_outcome not in ('actioned', 'dismissed') then
+    raise exception 'Unknown report outcome %', p_outcome;
+  end if;
+
+  update public.reports
+    set status = p_outcome,
+        outcome_note = nullif(trim(p_note), ''),
+        resolved_by = auth.uid(),
+        resolved_at = now()
+    where entity_type = p_entity_type and entity_id = p_entity_id and status = 'open';
+
+  get diagnostics resolved = row_count;
+
+  if p_entity_type = 'business' then
+    select status into v_business_status from public.businesses where id = p_entity_id for update;
+  end if;
+
+  if p_outcome = 'actioned' then
+    if p_entity_type = 'review' then
+      update public.reviews
+        set status = 'rejected', moderation_reason = coalesce(nullif(trim(p_note), ''), 'Removed after reports'),
+            moderated_by = auth.uid(), moderated_at = now()
+        where id = p_entity_id;
+    elsif p_entity_type = 'tourism_review' then
+      update public.tourism_reviews
+        set status = 'rejected', moderation_reason = coalesce(nullif(trim(p_note), ''), 'Removed after reports'),
+            moderated_by = auth.uid(), moderated_at = now()
+        where id = p_entity_id;
+    elsif p_entity_type = 'review_reply' then
+      update public.review_replies set is_hidden = true where id = p_entity_id;
+    elsif p_entity_type = 'business' then
+      update public.businesses
+        set status = 'suspended', hidden_by_reports = false
+        where id = p_entity_id;
+
+      if v_business_status is distinct from 'suspended' then
+        insert into public.business_status_history (
+          business_id, from_status, to_status, reason_code, reason_note, changed_by
+        )
+        values (p_entity_id, v_business_status, 'suspended', 'policy_violation', nullif(trim(p_note), ''), auth.uid());
+      end if;
+    end if;
+  else
+    if p_entity_type = 'review' then
+      update public.reviews
+        set status = 'published', held_reason = null
+        where id = p_entity_id and status = 'pending' and held_reason = 'reported';
+    elsif p_entity_type = 'tourism_review' then
+      update public.tourism_reviews
+        set status = 'published', held_reason = null
+        where id = p_entity_id and status = 'pending' and held_reason = 'reported';
+    elsif p_entity_type = 'review_reply' then
+      update public.review_replies set is_hidden = false where id = p_entity_id;
+    elsif p_entity_type = 'business' then
+      update public.businesses
+        set status = 'published', hidden_by_reports = false
+        where id = p_entity_id and hidden_by_reports and status = 'suspended';
+
+      if found then
+        insert into public.business_status_history (
+          business_id, from_status, to_status, reason_note, changed_by
+        )
+        values (p_entity_id, v_business_status, 'published', nullif(trim(p_note), ''), auth.uid());
+      end if;
+    end if;
+  end if;
+
+  return resolved;
+end;
+$$;
@@ -0,0 +1,103 @@
+-- Claims: a user asks to take over a listing, proves it with a one-time code
+-- sent to the listed phone/email or with a document, and an admin decides
+
+create table if not exists public.business_claims (
+  id uuid primary key default gen_random_uuid(),
+  business_id uuid not null references public.businesses(id) on delete cascade,
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  method text not null check (method in ('email', 'phone', 'document')),
+  contact_value text, -- The listed email or phone the code goes to
+  document_path text, -- In the private claim-documents bucket
+  message text check (char_length(message) <= 1000),
+  status text not null default 'pending_verification'
+    check (status in ('pending_verification', 'pending_review', 'approved', 'rejected')),
+  verified_at timestamptz,
+  review_note text,
+  reviewed_by uuid references public.profiles(id) on delete set null,
+  reviewed_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  check (method = 'document' or contact_value is not null),
+  check (method <> 'document' or document_path is not null)
+);
+
+-- One open claim per user per business
+create unique index if not exists business_claims_open_idx
+  on public.business_claims (business_id, user_id)
+  where status in ('pending_verification', 'pending_review');
+
+create index if not exists business_claims_status_idx
+  on public.business_claims (status, created_at);
+
+alter table public.business_claims enable row level security;
+
+-- Code claims start unverified; document claims go straight to review
+create policy "Users start claims"
+  on public.business_claims for insert
+  with check (
+    user_id = auth.uid()
+    and verified_at is null
+    and reviewed_by is null
+    and (
+      (method = 'document' and status = 'pending_review')
+      or (method <> 'document' and status = 'pending_verification')
+    )
+  );
+
+create policy "Users view their own claims"
+  on public.business_claims for select
+  using (user_id = auth.uid());
+
+create policy "Admins review claims"
+  on public.business_claims for all
+  using (
+    exists (select 1 from public.profiles p where p.id = auth.uid() and p.user_type = 'admin')
+  );
+
+-- Hashed one-time codes. No policies: only the server (service role) reads or writes them.
+create table if not exists public.business_claim_codes (
+  claim_id uuid primary key references public.business_claims(id) on delete cascade,
+  code_hash text not null,
+  expires_at timestamptz not null,
+  attempts integer not null default 0,
+  sent_at timestamptz not null default now()
+);
+
+alter table public.business_claim_codes enable row level security;
+
+-- Spends one attempt on a live code and returns it, or nothing once the code
+-- has expired or run out of attempts. Counting before the code is compared
+-- keeps parallel guesses within the limit.
+create or replace function public.use_claim_code_attempt(p_claim_id uuid, p_max_attempts integer)
+returns setof public.business_claim_codes
+language sql
+as $$
+  update public.business_claim_codes
+  set attempts = attempts + 1
+  where claim_id = p_claim_id
+    and attempts < p_max_attempts
+    and expires_at > now()
+  returning *;
+$$;
+
+revoke execute on function public.use_claim_code_attempt(uuid, integer) from public, anon, authenticated;
+
+-- Private bucket for ownership documents
+insert into storage.buckets (id, name, public)
+values ('claim-documents', 'claim-documents', false)
+on conflict (id) do nothing;
+
+-- Paths are claims/<business_id>/<user_id>/<file>
+create policy "Users upload their claim documents"
+  on storage.objects for insert
+  with check (
+    bucket_id = 'claim-documents'
+    and (storage.foldername(name))[3] = auth.uid()::text
+  );
+
+create policy "Admins read claim documents"
+  on storage.objects for select
+  using (
+    bucket_id = 'claim-documents'
+    and exists (select 1 from public.profiles p where p.id = auth.uid() and p.user_type = 'admin')
+  );
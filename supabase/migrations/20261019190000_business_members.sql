@@ -0,0 +1,361 @@
+-- Business members: the owner plus managers and editors who help run a listing.
+-- businesses.owner_id stays the owner of record; the owner row here mirrors it.
+--   owner   - everything, plus the team and ownership transfer
+--   manager - listing details, photos, hours and review replies
+--   editor  - hours and review replies
+
+create table if not exists public.business_members (
+  business_id uuid not null references public.businesses(id) on delete cascade,
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  role text not null check (role in ('owner', 'manager', 'editor')),
+  invited_by uuid references public.profiles(id) on delete set null,
+  created_at timestamptz not null default now(),
+  primary key (business_id, user_id)
+);
+
+create unique index if not exists business_members_owner_idx
+  on public.business_members (business_id)
+  where role = 'owner';
+
+create index if not exists business_members_user_idx
+  on public.business_members (user_id);
+
+insert into public.business_members (business_id, user_id, role)
+select id, owner_id, 'owner'
+from public.businesses
+where owner_id is not null
+on conflict (business_id, user_id) do nothing;
+
+-- Security definer so policies on business_members itself don't recurse
+create or replace function public.has_business_role(
+  p_business_id uuid,
+  p_roles text[] default array['owner', 'manager', 'editor']
+)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.business_members m
+    where m.business_id = p_business_id
+      and m.user_id = auth.uid()
+      and m.role = any(p_roles)
+  );
+$$;
+
+-- Whoever becomes owner_id gets the owner row; the previous owner loses theirs.
+-- transfer_business_ownership re-adds them as a manager.
+create or replace function public.sync_business_owner_member()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'UPDATE' then
+    if old.owner_id is not distinct from new.owner_id then
+      return new;
+    end if;
+
+    delete from public.business_members
+    where business_id = new.id and user_id = old.owner_id;
+  end if;
+
+  if new.owner_id is not null then
+    insert into public.business_members (business_id, user_id, role)
+    values (new.id, new.owner_id, 'owner')
+    on conflict (business_id, user_id) do update set role = 'owner';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists sync_business_owner_member on public.businesses;
+create trigger sync_business_owner_member
+  after insert or update of owner_id on public.businesses
+  for each row execute function public.sync_business_owner_member();
+
+-- Managers can update listings, so owner_id changes are limited to admins and the transfer RPC
+create or replace function public.guard_business_owner_change()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.owner_id is distinct from old.owner_id
+    and coalesce(current_setting('app.ownership_transfer', true), '') <> 'on'
+    and not exists (select 1 from public.profiles p where p.id = auth.uid() and p.user_type = 'admin')
+  then
+    raise exception 'Only the owner can transfer a business';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists guard_business_owner_change on public.businesses;
+create trigger guard_business_owner_change
+  before update of owner_id on public.businesses
+  for each row execute function public.guard_business_owner_change();
+
+-- Moderation columns belong to admins; set_business_status flags the changes
+-- it makes on their behalf so its reasons and history can't be skipped
+create or replace function public.guard_business_moderation()
+returns trigger
+language plpgsql
+as $$
+begin
+  if exists (select 1 from public.profiles p where p.id = auth.uid() and p.user_type = 'admin')
+    or coalesce(current_setting('app.status_change', true), '') = 'on'
+  then
+    return new;
+  end if;
+
+  if tg_op = 'INSERT' then
+    if new.status <> 'pending' or new.is_verified or new.is_featured or new.hidden_by_reports then
+      raise exception 'New listings start pending review';
+    end if;
+  elsif new.status is distinct from old.status
+    or new.is_verified is distinct from old.is_verified
+    or new.is_featured is distinct from old.is_featured
+    or new.hidden_by_reports is distinct from old.hidden_by_reports
+  then
+    raise exception 'Only admins can change a listing''s status, verification or featuring';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists guard_business_moderation on public.businesses;
+create trigger guard_business_moderation
+  before insert or update of status, is_verified, is_featured, hidden_by_reports on public.businesses
+  for each row execute function public.guard_business_moderation();
+
+alter table public.business_members enable row level security;
+
+create policy "Members view their team"
+  on public.business_members for select
+  using (public.has_business_role(business_id));
+
+create policy "Owners change member roles"
+  on public.business_members for update
+  using (role <> 'owner' and public.has_business_role(business_id, array['owner']))
+  with check (role in ('manager', 'editor'));
+
+create policy "Owners remove members and members leave"
+  on public.business_members for delete
+  using (
+    role <> 'owner'
+    and (user_id = auth.uid() or public.has_business_role(business_id, array['owner']))
+  );
+
+create policy "Admins manage members"
+  on public.business_members for all
+  using (
+    exists (select 1 from public.profiles p where p.id = auth.uid() and p.user_type = 'admin')
+  );
+
+-- Invitations go to an email; whoever signs in with it can accept
+create table if not exists public.business_invitations (
+  id uuid primary key default gen_random_uuid(),
+  business_id uuid not null references public.businesses(id) on delete cascade,
+  email text not null check (email ~* '^[^@\s]+@[^@\s]+\.[^@\s]+$'),
+  role text not null check (role in ('manager', 'editor')),
+  status text not null default 'pending' check (status in ('pending', 'accepted', 'declined', 'revoked')),
+  invited_by uuid references public.profiles(id) on delete set null,
+  accepted_by uuid references public.profiles(id) on delete set null,
+  expires_at timestamptz not null default now() + interval '14 days',
+  responded_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create unique index if not exists business_invitations_open_idx
+  on public.business_invitations (business_id, lower(email))
+  where status = 'pending';
+
+create index if not exists business_invitations_email_idx
+  on public.business_invitations (lower(email))
+  where status = 'pending';
+
+alter table public.business_invitations enable row level security;
+
+create policy "Owners manage invitations"
+  on public.business_invitations for all
+  using (public.has_business_role(business_id, array['owner']))
+  with check (public.has_business_role(business_id, array['owner']));
+
+create policy "Invitees view their invitations"
+  on public.business_invitations for select
+  using (lower(email) = lower(auth.jwt() ->> 'email'));
+
+create policy "Invitees decline invitations"
+  on public.business_invitations for update
+  using (status = 'pending' and lower(email) = lower(auth.jwt() ->> 'email'))
+  with check (status = 'declined');
+
+create policy "Admins manage invitations"
+  on public.business_invitations for all
+  using (
+    exists (select 1 from public.profiles p where p.id = auth.uid() and p.user_type = 'admin')
+  );
+
+-- Join the team from an invitation sent to the caller's email; returns the business id
+create or replace function public.accept_business_invitation(p_invitation_id uuid)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_invitation public.business_invitations%rowtype;
+begin
+  select * into v_invitation
+  from public.business_invitations
+  where id = p_invitation_id
+    and status = 'pending'
+    and lower(email) = lower(auth.jwt() ->> 'email')
+  for update;
+
+  if not found then
+    raise exception 'Invitation not found';
+  end if;
+
+  if v_invitation.expires_at < now() then
+    raise exception 'This invitation has expired';
+  end if;
+
+  -- Existing members keep their role unless the invitation is a step up
+  insert into public.business_members (business_id, user_id, role, invited_by)
+  values (v_invitation.business_id, auth.uid(), v_invitation.role, v_invitation.invited_by)
+  on conflict (business_id, user_id) do update
+    set role = excluded.role
+    where public.business_members.role = 'editor' and excluded.role = 'manager';
+
+  update public.business_invitations
+  set status = 'accepted', accepted_by = auth.uid(), responded_at = now()
+  where id = p_invitation_id;
+
+  return v_invitation.business_id;
+end;
+$$;
+
+-- Hand the listing to another member; the previous owner stays on as a manager
+create or replace function public.transfer_business_ownership(p_business_id uuid, p_new_owner_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_previous_owner uuid;
+begin
+  if not public.has_business_role(p_business_id, array['owner'])
+    and not exists (select 1 from public.profiles p where p.id = auth.uid() and p.user_type = 'admin')
+  then
+    raise exception 'Only the owner can transfer this business';
+  end if;
+
+  if not exists (
+    select 1 from public.business_members
+    where business_id = p_business_id and user_id = p_new_owner_id
+  ) then
+    raise exception 'The new owner must already be a member';
+  end if;
+
+  select owner_id into v_previous_owner from public.businesses where id = p_business_id;
+
+  perform set_config('app.ownership_transfer', 'on', true);
+
+  update public.businesses
+  set owner_id = p_new_owner_id, updated_at = now()
+  where id = p_business_id;
+
+  perform set_config('app.ownership_transfer', '', true);
+
+  if v_previous_owner is not null and v_previous_owner <> p_new_owner_id then
+    insert into public.business_members (business_id, user_id, role)
+    values (p_business_id, v_previous_owner, 'manager')
+    on conflict (business_id, user_id) do update set role = 'manager';
+  end if;
+end;
+$$;
+
+-- Members get the access owners already have, scoped by role
+
+create policy "Members view their businesses"
+  on public.businesses for select
+  using (public.has_business_role(id));
+
+create policy "Managers update their businesses"
+  on public.businesses for update
+  using (public.has_business_role(id, array['owner', 'manager']));
+
+create policy "Managers manage business categories"
+  on public.business_categories for all
+  using (public.has_business_role(business_id, array['owner', 'manager']));
+
+create policy "Members manage hours"
+  on public.business_hours for all
+  using (public.has_business_role(business_id));
+
+create policy "Members manage overrides"
+  on public.business_hour_overrides for all
+  using (public.has_business_role(business_id));
+
+create policy "Members read changes for their businesses"
+  on public.business_pending_changes for select
+  using (public.has_business_role(business_id));
+
+create policy "Managers submit changes"
+  on public.business_pending_changes for insert
+  with check (
+    submitted_by = auth.uid()
+    and public.has_business_role(business_id, array['owner', 'manager'])
+  );
+
+create policy "Managers replace open changes"
+  on public.business_pending_changes for update
+  using (status = 'pending' and public.has_business_role(business_id, array['owner', 'manager']))
+  with check (status = 'pending');
+
+create policy "Members view business photos"
+  on public.media_files for select
+  using (entity_type = 'business' and public.has_business_role(entity_id));
+
+create policy "Managers upload business photos for review"
+  on public.media_files for insert
+  with check (
+    entity_type = 'business'
+    and uploaded_by = auth.uid()
+    and moderation_status = 'pending'
+    and public.has_business_role(entity_id, array['owner', 'manager'])
+  );
+
+create policy "Managers manage business photos"
+  on public.media_files for update
+  using (entity_type = 'business' and public.has_business_role(entity_id, array['owner', 'manager']));
+
+create policy "Managers upload business images"
+  on storage.objects for insert
+  with check (
+    bucket_id = 'business-images'
+    and (storage.foldername(name))[1] = 'business'
+    and (storage.foldername(name))[3] = auth.uid()::text
+    and exists (
+      select 1 from public.business_members m
+      where m.business_id::text = (storage.foldername(name))[2]
+        and m.user_id = auth.uid()
+        and m.role in ('owner', 'manager')
+    )
+  );
+
+create policy "Members reply to reviews"
+  on public.review_replies for insert
+  with check (replied_by = auth.uid() and public.has_business_role(business_id));
+
+create policy "Members edit replies"
+  on public.review_replies for update
+  using (public.has_business_role(business_id));
@@ -0,0 +1,92 @@
+-- Append-only record of admin and owner actions: who did what to which entity, and why
+
+create table if not exists public.audit_events (
+  id uuid primary key default gen_random_uuid(),
+  actor_id uuid references public.profiles(id) on delete set null,
+  actor_role text, -- profiles.user_type at the time of the action
+  action text not null,
+  entity_type text not null check (entity_type in ('business', 'tourism_place', 'user')),
+  entity_id uuid not null,
+  entity_label text, -- Name at the time, so deleted entities stay readable
+  changes jsonb not null default '{}'::jsonb, -- { field: { from, to } }
+  reason text check (char_length(reason) <= 1000),
+  context jsonb not null default '{}'::jsonb,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists audit_events_entity_idx
+  on public.audit_events (entity_type, entity_id, created_at desc);
+
+create index if not exists audit_events_actor_idx
+  on public.audit_events (actor_id, created_at desc);
+
+create index if not exists audit_events_action_idx
+  on public.audit_events (action, created_at desc);
+
+create or replace function public.prevent_audit_event_changes()
+returns trigger
+language plpgsql
+as $$
+begin
+  raise exception 'Audit events cannot be changed or deleted';
+end;
+$$;
+
+drop trigger if exists prevent_audit_event_changes on public.audit_events;
+create trigger prevent_audit_event_changes
+  before update or delete on public.audit_events
+  for each row execute function public.prevent_audit_event_changes();
+
+alter table public.audit_events enable row level security;
+
+create policy "Admins read the audit log"
+  on public.audit_events for select
+  using (
+    exists (select 1 from public.profiles p where p.id = auth.uid() and p.user_type = 'admin')
+  );
+
+create policy "Members read their business history"
+  on public.audit_events for select
+  using (entity_type = 'business' and public.has_business_role(entity_id));
+
+-- The only way in. The actor always comes from the session, never from the caller.
+create or replace function public.record_audit_event(
+  p_action text,
+  p_entity_type text,
+  p_entity_id uuid,
+  p_entity_label text default null,
+  p_changes jsonb default '{}'::jsonb,
+  p_reason text default null,
+  p_context jsonb default '{}'::jsonb
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_id uuid;
+begin
+  if auth.uid() is null then
+    raise exception 'Not signed in';
+  end if;
+
+  insert into public.audit_events (
+    actor_id, actor_role, action, entity_type, entity_id, entity_label, changes, reason, context
+  )
+  values (
+    auth.uid(),
+    (select user_type from public.profiles where id = auth.uid()),
+    p_action,
+    p_entity_type,
+    p_entity_id,
+    p_entity_label,
+    coalesce(p_changes, '{}'::jsonb),
+    nullif(trim(p_reason), ''),
+    coalesce(p_context, '{}'::jsonb)
+  )
+  returning id into v_id;
+
+  return v_id;
+end;
+$$;
@@ -0,0 +1,103 @@
+-- Status history for business listings: every status change with the reason behind it.
+-- Rejections and suspensions need a reason template; owners and managers can send a
+-- rejected or suspended listing back to review after fixing it.
+
+create table if not exists public.business_status_history (
+  id uuid primary key default gen_random_uuid(),
+  business_id uuid not null references public.businesses(id) on delete cascade,
+  from_status text,
+  to_status text not null check (to_status in ('pending', 'published', 'rejected', 'suspended')),
+  reason_code text, -- Key of STATUS_REASON_TEMPLATES in src/lib/status-reasons.ts
+  reason_note text check (char_length(reason_note) <= 1000),
+  changed_by uuid references public.profiles(id) on delete set null,
+  notified_at timestamptz, -- When the owner was emailed about it
+  created_at timestamptz not null default now(),
+  check (to_status not in ('rejected', 'suspended') or reason_code is not null),
+  check (reason_code is distinct from 'other' or coalesce(trim(reason_note), '') <> '')
+);
+
+create index if not exists business_status_history_business_idx
+  on public.business_status_history (business_id, created_at desc);
+
+alter table public.business_status_history enable row level security;
+
+create policy "Admins read status history"
+  on public.business_status_history for select
+  using (
+    exists (select 1 from public.profiles p where p.id = auth.uid() and p.user_type = 'admin')
+  );
+
+create policy "Members read their business status history"
+  on public.business_status_history for select
+  using (public.has_business_role(business_id));
+
+-- Rows are only written by set_business_status, which checks who may make the change
+create or replace function public.set_business_status(
+  p_business_id uuid,
+  p_status text,
+  p_reason_code text default null,
+  p_reason_note text default null
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_from text;
+  v_is_admin boolean;
+  v_id uuid;
+begin
+  if auth.uid() is null then
+    raise exception 'Not signed in';
+  end if;
+
+  select status into v_from
+  from public.businesses
+  where id = p_business_id
+  for update;
+
+  if not found then
+    raise exception 'Business not found';
+  end if;
+
+  v_is_admin := exists (
+    select 1 from public.profiles p where p.id = auth.uid() and p.user_type = 'admin'
+  );
+
+  -- Owners and managers may only resubmit a listing that was turned down
+  if not v_is_admin and not (
+    p_status = 'pending'
+    and v_from in ('rejected', 'suspended')
+    and public.has_business_role(p_business_id, array['owner', 'manager'])
+  ) then
+    raise exception 'Not allowed to change this listing''s status';
+  end if;
+
+  if p_status in ('rejected', 'suspended') and p_reason_code is null then
+    raise exception 'A reason is required';
+  end if;
+
+  perform set_config('app.status_change', 'on', true);
+
+  -- A manual decision replaces any hold from reports
+  update public.businesses
+  set status = p_status, hidden_by_reports = false, updated_at = now()
+  where id = p_business_id;
+
+  insert into public.business_status_history (
+    business_id, from_status, to_status, reason_code, reason_note, changed_by
+  )
+  values (
+    p_business_id,
+    v_from,
+    p_status,
+    p_reason_code,
+    nullif(trim(p_reason_note), ''),
+    auth.uid()
+  )
+  returning id into v_id;
+
+  return v_id;
+end;
+$$;
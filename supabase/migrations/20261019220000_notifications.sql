@@ -0,0 +1,286 @@
+-- In-app notifications: replies to your review, new reviews on your business, listing
+-- decisions, team invitations, and (for admins) listings waiting for approval.
+-- Rows are written by triggers so every path that causes an event notifies the same way.
+
+create table if not exists public.notifications (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  type text not null check (type in (
+    'review_reply', 'new_review', 'listing_pending', 'listing_status', 'team_invitation'
+  )),
+  title text not null,
+  body text,
+  link text, -- App path to open, e.g. /business/some-slug
+  data jsonb not null default '{}'::jsonb,
+  read_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists notifications_user_created_idx
+  on public.notifications (user_id, created_at desc);
+
+create index if not exists notifications_user_unread_idx
+  on public.notifications (user_id)
+  where read_at is null;
+
+alter table public.notifications enable row level security;
+
+create policy "Users read their notifications"
+  on public.notifications for select
+  using (user_id = auth.uid());
+
+create policy "Users mark their notifications read"
+  on public.notifications for update
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+create policy "Users delete their notifications"
+  on public.notifications for delete
+  using (user_id = auth.uid());
+
+-- Per-type opt-outs; no row means the type is on
+create table if not exists public.notification_preferences (
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  type text not null,
+  in_app boolean not null default true,
+  updated_at timestamptz not null default now(),
+  primary key (user_id, type)
+);
+
+alter table public.notification_preferences enable row level security;
+
+create policy "Users manage their notification preferences"
+  on public.notification_preferences for all
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+-- Live updates for the bell and the notification center
+do $$
+begin
+  if exists (select 1 from pg_publication where pubname = 'supabase_realtime')
+    and not exists (
+      select 1 from pg_publication_tables
+      where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'notifications'
+    )
+  then
+    alter publication supabase_realtime add table public.notifications;
+  end if;
+end;
+$$;
+
+-- Skips people notifying themselves and types the recipient turned off
+create or replace function public.notify_user(
+  p_user_id uuid,
+  p_type text,
+  p_title text,
+  p_body text default null,
+  p_link text default null,
+  p_data jsonb default '{}'::jsonb
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if p_user_id is null or p_user_id = auth.uid() then
+    return;
+  end if;
+
+  if exists (
+    select 1 from public.notification_preferences np
+    where np.user_id = p_user_id and np.type = p_type and not np.in_app
+  ) then
+    return;
+  end if;
+
+  insert into public.notifications (user_id, type, title, body, link, data)
+  values (p_user_id, p_type, p_title, p_body, p_link, coalesce(p_data, '{}'::jsonb));
+end;
+$$;
+
+revoke execute on function public.notify_user(uuid, text, text, text, text, jsonb) from public, anon, authenticated;
+
+-- A reply to your review
+create or replace function public.notify_review_reply()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_author uuid;
+  v_business record;
+begin
+  select r.user_id into v_author from public.reviews r where r.id = new.review_id;
+  select b.name, b.slug into v_business from public.businesses b where b.id = new.business_id;
+
+  perform public.notify_user(
+    v_author,
+    'review_reply',
+    coalesce(v_business.name, 'A business') || ' replied to your review',
+    left(new.content, 200),
+    '/business/' || v_business.slug,
+    jsonb_build_object('review_id', new.review_id, 'business_id', new.business_id)
+  );
+
+  return new;
+end;
+$$;
+
+drop trigger if exists review_replies_notify on public.review_replies;
+create trigger review_replies_notify
+  after insert on public.review_replies
+  for each row execute function public.notify_review_reply();
+
+-- A review going live on a business, whether straight away or after moderation
+create or replace function public.notify_new_review()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_business record;
+  v_member record;
+begin
+  if new.status <> 'published' or (tg_op = 'UPDATE' and old.status = 'published') then
+    return new;
+  end if;
+
+  select b.name, b.slug into v_business from public.businesses b where b.id = new.business_id;
+
+  for v_member in
+    select bm.user_id from public.business_members bm
+    where bm.business_id = new.business_id and bm.user_id <> new.user_id
+  loop
+    perform public.notify_user(
+      v_member.user_id,
+      'new_review',
+      'New ' || new.rating || '-star review for ' || coalesce(v_business.name, 'your business'),
+      left(coalesce(new.title, new.content), 200),
+      '/business/' || v_business.slug,
+      jsonb_build_object('review_id', new.id, 'business_id', new.business_id)
+    );
+  end loop;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists reviews_notify_new on public.reviews;
+create trigger reviews_notify_new
+  after insert or update of status on public.reviews
+  for each row execute function public.notify_new_review();
+
+-- Listings entering the approval queue, for every admin
+create or replace function public.notify_listing_pending()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_admin record;
+begin
+  if new.status <> 'pending' or (tg_op = 'UPDATE' and old.status = 'pending') then
+    return new;
+  end if;
+
+  for v_admin in
+    select p.id from public.profiles p where p.user_type = 'admin'
+  loop
+    perform public.notify_user(
+      v_admin.id,
+      'listing_pending',
+      new.name || case when tg_op = 'INSERT' then ' is waiting for approval' else ' was resubmitted for approval' end,
+      null,
+      '/dashboard/admin/listings',
+      jsonb_build_object('business_id', new.id)
+    );
+  end loop;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists businesses_notify_pending on public.businesses;
+create trigger businesses_notify_pending
+  after insert or update of status on public.businesses
+  for each row execute function public.notify_listing_pending();
+
+-- Approvals, rejections and suspensions, for the people who can act on them
+create or replace function public.notify_listing_status()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_name text;
+  v_member record;
+begin
+  if new.to_status not in ('published', 'rejected', 'suspended') then
+    return new;
+  end if;
+
+  select b.name into v_name from public.businesses b where b.id = new.business_id;
+
+  for v_member in
+    select bm.user_id from public.business_members bm
+    where bm.business_id = new.business_id and bm.role in ('owner', 'manager')
+  loop
+    perform public.notify_user(
+      v_member.user_id,
+      'listing_status',
+      v_name || case new.to_status
+        when 'published' then ' is now live'
+        when 'rejected' then ' needs changes before it can go live'
+        else ' has been suspended'
+      end,
+      new.reason_note,
+      '/dashboard/business/my-listings',
+      jsonb_build_object('business_id', new.business_id, 'status', new.to_status, 'reason_code', new.reason_code)
+    );
+  end loop;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists business_status_history_notify on public.business_status_history;
+create trigger business_status_history_notify
+  after insert on public.business_status_history
+  for each row execute function public.notify_listing_status();
+
+-- Invitations to people who already have an account with the invited email
+create or replace function public.notify_team_invitation()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_name text;
+  v_user uuid;
+begin
+  select b.name into v_name from public.businesses b where b.id = new.business_id;
+  select p.id into v_user from public.profiles p where lower(p.email) = lower(new.email) limit 1;
+
+  perform public.notify_user(
+    v_user,
+    'team_invitation',
+    'You''re invited to help run ' || coalesce(v_name, 'a business'),
+    null,
+    '/profile',
+    jsonb_build_object('invitation_id', new.id, 'business_id', new.business_id, 'role', new.role)
+  );
+
+  return new;
+end;
+$$;
+
+drop trigger if exists business_invitations_notify on public.business_invitations;
+create trigger business_invitations_notify
+  after insert on public.business_invitations
+  for each row execute function public.notify_team_invitation();
@@ -0,0 +1,311 @@
+-- Transactional email and the weekly owner digest.
+-- Triggers queue messages in mail_outbox; /api/mail/process renders and sends them
+-- through the mail provider, skipping anything the recipient unsubscribed from.
+
+-- Per-category opt-outs ('all' turns off every email); no row means subscribed
+create table if not exists public.email_preferences (
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  category text not null check (category in (
+    'listing_updates', 'new_reviews', 'review_replies', 'weekly_digest', 'all'
+  )),
+  enabled boolean not null default true,
+  updated_at timestamptz not null default now(),
+  primary key (user_id, category)
+);
+
+alter table public.email_preferences enable row level security;
+
+create policy "Users manage their email preferences"
+  on public.email_preferences for all
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+create table if not exists public.mail_outbox (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  template text not null, -- Key of MAIL_TEMPLATES in src/lib/mail/templates.ts
+  data jsonb not null default '{}'::jsonb,
+  status text not null default 'pending'
+    check (status in ('pending', 'sending', 'sent', 'skipped', 'failed')),
+  attempts integer not null default 0,
+  last_error text,
+  send_after timestamptz not null default now(),
+  claimed_at timestamptz, -- When a sender last took it; see claim_mail_outbox
+  created_at timestamptz not null default now(),
+  sent_at timestamptz
+);
+
+create index if not exists mail_outbox_pending_idx
+  on public.mail_outbox (send_after)
+  where status = 'pending';
+
+-- Only the server (service role) reads or writes the outbox
+alter table public.mail_outbox enable row level security;
+
+create or replace function public.enqueue_mail(
+  p_user_id uuid,
+  p_template text,
+  p_data jsonb default '{}'::jsonb
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if p_user_id is null then
+    return;
+  end if;
+
+  insert into public.mail_outbox (user_id, template, data)
+  values (p_user_id, p_template, coalesce(p_data, '{}'::jsonb));
+end;
+$$;
+
+revoke execute on function public.enqueue_mail(uuid, text, jsonb) from public, anon, authenticated;
+
+-- Hands a batch to one sender; skip locked lets overlapping runs share the queue.
+-- A run that crashed or timed out leaves its batch in 'sending', so rows claimed
+-- more than p_timeout_minutes ago are claimed again, or failed once they have
+-- used p_max_attempts.
+create or replace function public.claim_mail_outbox(
+  p_limit integer default 25,
+  p_max_attempts integer default 5,
+  p_timeout_minutes integer default 15
+)
+returns setof public.mail_outbox
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_stale_before timestamptz := now() - make_interval(mins => p_timeout_minutes);
+begin
+  update public.mail_outbox
+  set status = 'failed', last_error = coalesce(last_error, 'Sending did not finish')
+  where status = 'sending' and claimed_at < v_stale_before and attempts >= p_max_attempts;
+
+  return query
+  update public.mail_outbox
+  set status = 'sending', attempts = attempts + 1, claimed_at = now()
+  where id in (
+    select id from public.mail_outbox
+    where (status = 'pending' and send_after <= now())
+      or (status = 'sending' and claimed_at < v_stale_before and attempts < p_max_attempts)
+    order by created_at
+    limit p_limit
+    for update skip locked
+  )
+  returning *;
+end;
+$$;
+
+revoke execute on function public.claim_mail_outbox(integer, integer, integer) from public, anon, authenticated;
+
+-- Decision emails now go through the outbox
+alter table public.business_status_history drop column if exists notified_at;
+
+-- New accounts
+create or replace function public.mail_welcome()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform public.enqueue_mail(new.id, 'welcome', '{}'::jsonb);
+  return new;
+end;
+$$;
+
+drop trigger if exists profiles_mail_welcome on public.profiles;
+create trigger profiles_mail_welcome
+  after insert on public.profiles
+  for each row execute function public.mail_welcome();
+
+-- A new listing joining the review queue
+create or replace function public.mail_listing_submitted()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.status = 'pending' then
+    perform public.enqueue_mail(
+      new.owner_id,
+      'listing_submitted',
+      jsonb_build_object('business_id', new.id, 'business_name', new.name)
+    );
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists businesses_mail_submitted on public.businesses;
+create trigger businesses_mail_submitted
+  after insert on public.businesses
+  for each row execute function public.mail_listing_submitted();
+
+-- Approvals, rejections and suspensions made by someone other than the owner
+create or replace function public.mail_listing_decision()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_business record;
+begin
+  if new.to_status not in ('published', 'rejected', 'suspended') then
+    return new;
+  end if;
+
+  select b.name, b.slug, b.owner_id into v_business
+  from public.businesses b where b.id = new.business_id;
+
+  if v_business.owner_id is distinct from new.changed_by then
+    perform public.enqueue_mail(
+      v_business.owner_id,
+      case new.to_status
+        when 'published' then 'listing_approved'
+        when 'rejected' then 'listing_rejected'
+        else 'listing_suspended'
+      end,
+      jsonb_build_object(
+        'business_id', new.business_id,
+        'business_name', v_business.name,
+        'business_slug', v_business.slug,
+        'reason_code', new.reason_code,
+        'reason_note', new.reason_note
+      )
+    );
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists business_status_history_mail on public.business_status_history;
+create trigger business_status_history_mail
+  after insert on public.business_status_history
+  for each row execute function public.mail_listing_decision();
+
+-- A review going live, for the owner and managers
+create or replace function public.mail_new_review()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_business record;
+  v_member record;
+begin
+  if new.status <> 'published' or (tg_op = 'UPDATE' and old.status = 'published') then
+    return new;
+  end if;
+
+  select b.name, b.slug into v_business from public.businesses b where b.id = new.business_id;
+
+  for v_member in
+    select bm.user_id from public.business_members bm
+    where bm.business_id = new.business_id
+      and bm.role in ('owner', 'manager')
+      and bm.user_id <> new.user_id
+  loop
+    perform public.enqueue_mail(
+      v_member.user_id,
+      'new_review',
+      jsonb_build_object(
+        'business_id', new.business_id,
+        'business_name', v_business.name,
+        'business_slug', v_business.slug,
+        'rating', new.rating,
+        'review_title', new.title,
+        'review_excerpt', left(new.content, 300)
+      )
+    );
+  end loop;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists reviews_mail_new on public.reviews;
+create trigger reviews_mail_new
+  after insert or update of status on public.reviews
+  for each row execute function public.mail_new_review();
+
+-- A business answering your review
+create or replace function public.mail_review_reply()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_author uuid;
+  v_business record;
+begin
+  select r.user_id into v_author from public.reviews r where r.id = new.review_id;
+  select b.name, b.slug into v_business from public.businesses b where b.id = new.business_id;
+
+  if v_author is distinct from new.replied_by then
+    perform public.enqueue_mail(
+      v_author,
+      'review_reply',
+      jsonb_build_object(
+        'business_name', v_business.name,
+        'business_slug', v_business.slug,
+        'reply_excerpt', left(new.content, 300)
+      )
+    );
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists review_replies_mail on public.review_replies;
+create trigger review_replies_mail
+  after insert on public.review_replies
+  for each row execute function public.mail_review_reply();
+
+-- The admin's decision on a business claim
+create or replace function public.mail_claim_result()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_business record;
+begin
+  if new.status not in ('approved', 'rejected') or old.status = new.status then
+    return new;
+  end if;
+
+  select b.name, b.slug into v_business from public.businesses b where b.id = new.business_id;
+
+  perform public.enqueue_mail(
+    new.user_id,
+    'claim_result',
+    jsonb_build_object(
+      'business_id', new.business_id,
+      'business_name', v_business.name,
+      'business_slug', v_business.slug,
+      'approved', new.status = 'approved',
+      'review_note', new.review_note
+    )
+  );
+
+  return new;
+end;
+$$;
+
+drop trigger if exists business_claims_mail_result on public.business_claims;
+create trigger business_claims_mail_result
+  after update of status on public.business_claims
+  for each row execute function public.mail_claim_result();
@@ -0,0 +1,217 @@
+-- Visitor activity on business listings for the owner analytics dashboard.
+-- Browsers record raw events through track_business_events; /api/analytics/rollup
+-- folds them into per-day counts, which are all the dashboard ever reads.
+
+create table if not exists public.business_events (
+  id bigint generated always as identity primary key,
+  business_id uuid not null references public.businesses(id) on delete cascade,
+  event_type text not null check (event_type in (
+    'profile_view', 'call_tap', 'whatsapp_tap', 'email_tap',
+    'directions_click', 'website_click', 'search_impression'
+  )),
+  session_id text not null, -- Per-tab id, used to drop repeats
+  created_at timestamptz not null default now()
+);
+
+create index if not exists business_events_created_idx
+  on public.business_events (created_at);
+
+create index if not exists business_events_repeat_idx
+  on public.business_events (business_id, session_id, event_type, created_at desc);
+
+create index if not exists business_events_rate_idx
+  on public.business_events (business_id, event_type, created_at desc);
+
+-- Written and read only through the functions below
+alter table public.business_events enable row level security;
+
+create table if not exists public.business_daily_stats (
+  business_id uuid not null references public.businesses(id) on delete cascade,
+  day date not null, -- In the app timezone (Asia/Kolkata)
+  event_type text not null,
+  event_count integer not null default 0,
+  primary key (business_id, day, event_type)
+);
+
+create index if not exists business_daily_stats_day_idx
+  on public.business_daily_stats (day);
+
+alter table public.business_daily_stats enable row level security;
+
+create policy "Team members and admins read daily stats"
+  on public.business_daily_stats for select
+  using (
+    public.has_business_role(business_id)
+    or exists (select 1 from public.profiles p where p.id = auth.uid() and p.user_type = 'admin')
+  );
+
+-- Takes a batch of { business_id, event_type }. Only published listings count,
+-- a team member looking at their own listing doesn't, and the same tab repeating
+-- an event on a listing within 30 minutes is counted once. Session ids come from
+-- the browser, so each listing also takes at most 30 of one kind of event a
+-- minute; a script rotating ids can't inflate its counts or its peers' averages.
+create or replace function public.track_business_events(p_session_id text, p_events jsonb)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if coalesce(length(p_session_id), 0) not between 8 and 64
+    or jsonb_typeof(p_events) <> 'array'
+    or jsonb_array_length(p_events) > 50 then
+    return;
+  end if;
+
+  insert into public.business_events (business_id, event_type, session_id)
+  select distinct e.business_id, e.event_type, p_session_id
+  from jsonb_to_recordset(p_events) as e(business_id uuid, event_type text)
+  join public.businesses b on b.id = e.business_id and b.status = 'published'
+  where e.event_type in (
+      'profile_view', 'call_tap', 'whatsapp_tap', 'email_tap',
+      'directions_click', 'website_click', 'search_impression'
+    )
+    and not public.has_business_role(e.business_id, array['owner', 'manager', 'editor'])
+    and not exists (
+      select 1 from public.business_events r
+      where r.business_id = e.business_id
+        and r.session_id = p_session_id
+        and r.event_type = e.event_type
+        and r.created_at > now() - interval '30 minutes'
+    )
+    and (
+      select count(*) from public.business_events c
+      where c.business_id = e.business_id
+        and c.event_type = e.event_type
+        and c.created_at > now() - interval '1 minute'
+    ) < 30;
+end;
+$$;
+
+-- Recount whole days from raw events, so it can be rerun safely. Raw events
+-- older than 90 days are dropped once their days have been counted.
+create or replace function public.rollup_business_events(p_from date, p_to date)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_rows integer;
+begin
+  delete from public.business_daily_stats where day between p_from and p_to;
+
+  insert into public.business_daily_stats (business_id, day, event_type, event_count)
+  select e.business_id, (e.created_at at time zone 'Asia/Kolkata')::date, e.event_type, count(*)
+  from public.business_events e
+  where e.created_at >= (p_from::timestamp at time zone 'Asia/Kolkata')
+    and e.created_at < ((p_to + 1)::timestamp at time zone 'Asia/Kolkata')
+  group by 1, 2, 3;
+
+  get diagnostics v_rows = row_count;
+
+  delete from public.business_events
+  where created_at < least(now() - interval '90 days', p_from::timestamp at time zone 'Asia/Kolkata');
+
+  return v_rows;
+end;
+$$;
+
+revoke execute on function public.rollup_business_events(date, date) from public, anon, authenticated;
+
+-- Daily counts for one listing next to the average of similar listings:
+-- other published businesses with the same primary category in the same area.
+-- The average is left out below three peers so no single competitor shows through.
+create or replace function public.get_business_analytics(p_business_id uuid, p_days integer default 30)
+returns table (
+  day date,
+  event_type text,
+  event_count integer,
+  peer_average numeric,
+  peer_count integer,
+  category_name text,
+  area_name text
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_area_id uuid;
+  v_city_id uuid;
+  v_category_id uuid;
+  v_category_name text;
+  v_area_name text;
+  v_peers uuid[];
+  v_peer_count integer;
+  v_today date := (now() at time zone 'Asia/Kolkata')::date;
+  v_start date;
+begin
+  if not (
+    public.has_business_role(p_business_id)
+    or exists (select 1 from public.profiles p where p.id = auth.uid() and p.user_type = 'admin')
+  ) then
+    raise exception 'Not allowed to view analytics for this business' using errcode = '42501';
+  end if;
+
+  v_start := v_today - (least(greatest(p_days, 1), 365) - 1);
+
+  select b.area_id, b.city_id, a.name into v_area_id, v_city_id, v_area_name
+  from public.businesses b
+  left join public.areas a on a.id = b.area_id
+  where b.id = p_business_id;
+
+  select bc.category_id, c.name into v_category_id, v_category_name
+  from public.business_categories bc
+  join public.categories c on c.id = bc.category_id
+  where bc.business_id = p_business_id
+  order by bc.is_primary desc, c.name
+  limit 1;
+
+  select coalesce(array_agg(b.id), '{}') into v_peers
+  from public.businesses b
+  where b.status = 'published'
+    and b.id <> p_business_id
+    and b.city_id is not distinct from v_city_id
+    and b.area_id is not distinct from v_area_id
+    and exists (
+      select 1 from public.business_categories bc
+      where bc.business_id = b.id and bc.category_id = v_category_id
+    );
+
+  v_peer_count := coalesce(array_length(v_peers, 1), 0);
+
+  return query
+  with days as (
+    select generate_series(v_start, v_today, interval '1 day')::date as day
+  ),
+  types as (
+    select unnest(array[
+      'profile_view', 'call_tap', 'whatsapp_tap', 'email_tap',
+      'directions_click', 'website_click', 'search_impression'
+    ]) as event_type
+  ),
+  peer_totals as (
+    select s.day, s.event_type, sum(s.event_count) as total
+    from public.business_daily_stats s
+    where s.business_id = any(v_peers) and s.day >= v_start
+    group by s.day, s.event_type
+  )
+  select
+    d.day,
+    t.event_type,
+    coalesce(own.event_count, 0),
+    case when v_peer_count >= 3 then round(coalesce(pt.total, 0)::numeric / v_peer_count, 2) end,
+    v_peer_count,
+    v_category_name,
+    v_area_name
+  from days d
+  cross join types t
+  left join public.business_daily_stats own
+    on own.business_id = p_business_id and own.day = d.day and own.event_type = t.event_type
+  left join peer_totals pt
+    on pt.day = d.day and pt.event_type = t.event_type
+  order by d.day, t.event_type;
+end;
+$$;
@@ -0,0 +1,367 @@
+-- Site-wide analytics for admins: daily activity, approval turnaround, search
+-- demand, most viewed pages and category/area coverage gaps. Tourism place
+-- views are tracked the same way as business events and share the hourly rollup.
+
+create table if not exists public.tourism_place_views (
+  id bigint generated always as identity primary key,
+  tourism_place_id uuid not null references public.tourism_places(id) on delete cascade,
+  session_id text not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists tourism_place_views_created_idx
+  on public.tourism_place_views (created_at);
+
+create index if not exists tourism_place_views_repeat_idx
+  on public.tourism_place_views (tourism_place_id, session_id, created_at desc);
+
+alter table public.tourism_place_views enable row level security;
+
+create table if not exists public.tourism_place_daily_views (
+  tourism_place_id uuid not null references public.tourism_places(id) on delete cascade,
+  day date not null, -- In the app timezone (Asia/Kolkata)
+  view_count integer not null default 0,
+  primary key (tourism_place_id, day)
+);
+
+alter table public.tourism_place_daily_views enable row level security;
+
+create policy "Admins read tourism place views"
+  on public.tourism_place_daily_views for select
+  using (exists (select 1 from public.profiles p where p.id = auth.uid() and p.user_type = 'admin'));
+
+-- Same rules as track_business_events: published places only, one view per tab per 30 minutes
+create or replace function public.track_tourism_place_view(p_session_id text, p_tourism_place_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if coalesce(length(p_session_id), 0) not between 8 and 64 then
+    return;
+  end if;
+
+  insert into public.tourism_place_views (tourism_place_id, session_id)
+  select tp.id, p_session_id
+  from public.tourism_places tp
+  where tp.id = p_tourism_place_id
+    and tp.status = 'published'
+    and not exists (
+      select 1 from public.tourism_place_views v
+      where v.tourism_place_id = tp.id
+        and v.session_id = p_session_id
+        and v.created_at > now() - interval '30 minutes'
+    );
+end;
+$$;
+
+create or replace function public.rollup_tourism_place_views(p_from date, p_to date)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_rows integer;
+begin
+  delete from public.tourism_place_daily_views where day between p_from and p_to;
+
+  insert into public.tourism_place_daily_views (tourism_place_id, day, view_count)
+  select v.tourism_place_id, (v.created_at at time zone 'Asia/Kolkata')::date, count(*)
+  from public.tourism_place_views v
+  where v.created_at >= (p_from::timestamp at time zone 'Asia/Kolkata')
+    and v.created_at < ((p_to + 1)::timestamp at time zone 'Asia/Kolkata')
+  group by 1, 2;
+
+  get diagnostics v_rows = row_count;
+
+  delete from public.tourism_place_views
+  where created_at < least(now() - interval '90 days', p_from::timestamp at time zone 'Asia/Kolkata');
+
+  return v_rows;
+end;
+$$;
+
+revoke execute on function public.rollup_tourism_place_views(date, date) from public, anon, authenticated;
+
+-- Approve/reject decisions on pending listings, with how long each waited since
+-- it was last (re)submitted. Internal: the admin functions below call it.
+create or replace function public.listing_review_decisions(p_from date, p_to date)
+returns table (business_id uuid, decided_on date, to_status text, turnaround_hours numeric)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select
+    h.business_id,
+    (h.created_at at time zone 'Asia/Kolkata')::date,
+    h.to_status,
+    extract(epoch from h.created_at - coalesce(
+      (
+        select max(h2.created_at) from public.business_status_history h2
+        where h2.business_id = h.business_id
+          and h2.to_status = 'pending'
+          and h2.created_at < h.created_at
+      ),
+      b.created_at
+    )) / 3600
+  from public.business_status_history h
+  join public.businesses b on b.id = h.business_id
+  where h.from_status = 'pending'
+    and h.to_status in ('published', 'rejected')
+    and h.created_at >= (p_from::timestamp at time zone 'Asia/Kolkata')
+    and h.created_at < ((p_to + 1)::timestamp at time zone 'Asia/Kolkata');
+$$;
+
+revoke execute on function public.listing_review_decisions(date, date) from public, anon, authenticated;
+
+create or replace function public.admin_daily_activity(p_from date, p_to date)
+returns table (
+  day date,
+  signups integer,
+  listings_submitted integer,
+  listings_approved integer,
+  listings_rejected integer,
+  avg_turnaround_hours numeric,
+  reviews integer,
+  searches integer,
+  zero_result_searches integer
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_start timestamptz := p_from::timestamp at time zone 'Asia/Kolkata';
+  v_end timestamptz := (p_to + 1)::timestamp at time zone 'Asia/Kolkata';
+begin
+  if not exists (select 1 from public.profiles p where p.id = auth.uid() and p.user_type = 'admin') then
+    raise exception 'Only admins can view site analytics' using errcode = '42501';
+  end if;
+
+  return query
+  with days as (
+    select generate_series(p_from, p_to, interval '1 day')::date as d
+  ),
+  signup_days as (
+    select (p.created_at at time zone 'Asia/Kolkata')::date as d, count(*)::integer as n
+    from public.profiles p
+    where p.created_at >= v_start and p.created_at < v_end
+    group by 1
+  ),
+  submission_days as (
+    select (b.created_at at time zone 'Asia/Kolkata')::date as d, count(*)::integer as n
+    from public.businesses b
+    where b.created_at >= v_start and b.created_at < v_end
+    group by 1
+  ),
+  decision_days as (
+    select
+      ld.decided_on as d,
+      count(*) filter (where ld.to_status = 'published')::integer as approved,
+      count(*) filter (where ld.to_status = 'rejected')::integer as rejected,
+      round(avg(ld.turnaround_hours), 1) as avg_hours
+    from public.listing_review_decisions(p_from, p_to) ld
+    group by 1
+  ),
+  review_days as (
+    select (r.created_at at time zone 'Asia/Kolkata')::date as d, count(*)::integer as n
+    from (
+      select created_at from public.reviews
+      union all
+      select created_at from public.tourism_reviews
+    ) r
+    where r.created_at >= v_start and r.created_at < v_end
+    group by 1
+  ),
+  search_days as (
+    select
+      (l.created_at at time zone 'Asia/Kolkata')::date as d,
+      count(*)::integer as n,
+      count(*) filter (where l.result_count = 0)::integer as zero
+    from public.search_logs l
+    where l.created_at >= v_start and l.created_at < v_end
+    group by 1
+  )
+  select
+    days.d,
+    coalesce(su.n, 0),
+    coalesce(sb.n, 0),
+    coalesce(dd.approved, 0),
+    coalesce(dd.rejected, 0),
+    dd.avg_hours,
+    coalesce(rv.n, 0),
+    coalesce(se.n, 0),
+    coalesce(se.zero, 0)
+  from days
+  left join signup_days su on su.d = days.d
+  left join submission_days sb on sb.d = days.d
+  left join decision_days dd on dd.d = days.d
+  left join review_days rv on rv.d = days.d
+  left join search_days se on se.d = days.d
+  order by days.d;
+end;
+$$;
+
+create or replace function public.admin_approval_turnaround(p_from date, p_to date)
+returns table (decisions integer, average_hours numeric, median_hours numeric, p90_hours numeric)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if not exists (select 1 from public.profiles p where p.id = auth.uid() and p.user_type = 'admin') then
+    raise exception 'Only admins can view site analytics' using errcode = '42501';
+  end if;
+
+  return query
+  select
+    count(*)::integer,
+    round(avg(ld.turnaround_hours), 1),
+    round(percentile_cont(0.5) within group (order by ld.turnaround_hours)::numeric, 1),
+    round(percentile_cont(0.9) within group (order by ld.turnaround_hours)::numeric, 1)
+  from public.listing_review_decisions(p_from, p_to) ld;
+end;
+$$;
+
+create or replace function public.admin_top_searches(p_from date, p_to date, p_limit integer default 20)
+returns table (query text, searches integer, zero_result_searches integer)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if not exists (select 1 from public.profiles p where p.id = auth.uid() and p.user_type = 'admin') then
+    raise exception 'Only admins can view site analytics' using errcode = '42501';
+  end if;
+
+  return query
+  select
+    l.normalized_query,
+    count(*)::integer,
+    count(*) filter (where l.result_count = 0)::integer
+  from public.search_logs l
+  where l.created_at >= (p_from::timestamp at time zone 'Asia/Kolkata')
+    and l.created_at < ((p_to + 1)::timestamp at time zone 'Asia/Kolkata')
+  group by l.normalized_query
+  order by 2 desc, 3 desc, 1
+  limit least(greatest(p_limit, 1), 100);
+end;
+$$;
+
+create or replace function public.admin_top_viewed(p_from date, p_to date, p_limit integer default 10)
+returns table (entity_type text, entity_id uuid, name text, slug text, views integer)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if not exists (select 1 from public.profiles p where p.id = auth.uid() and p.user_type = 'admin') then
+    raise exception 'Only admins can view site analytics' using errcode = '42501';
+  end if;
+
+  return query
+  (
+    select 'business'::text, b.id, b.name, b.slug, sum(s.event_count)::integer
+    from public.business_daily_stats s
+    join public.businesses b on b.id = s.business_id
+    where s.event_type = 'profile_view' and s.day between p_from and p_to
+    group by b.id
+    order by 5 desc, 3
+    limit p_limit
+  )
+  union all
+  (
+    select 'tourism'::text, tp.id, tp.name, tp.slug, sum(v.view_count)::integer
+    from public.tourism_place_daily_views v
+    join public.tourism_places tp on tp.id = v.tourism_place_id
+    where v.day between p_from and p_to
+    group by tp.id
+    order by 5 desc, 3
+    limit p_limit
+  );
+end;
+$$;
+
+-- Area and category pairs with no published listing, for categories that exist
+-- elsewhere in the city or that people searched for during the period.
+-- Most-searched and most-common categories come first.
+create or replace function public.admin_coverage_gaps(p_from date, p_to date, p_limit integer default 50)
+returns table (
+  area_id uuid,
+  area_name text,
+  city_name text,
+  category_id uuid,
+  category_name text,
+  city_listings integer,
+  searches integer
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if not exists (select 1 from public.profiles p where p.id = auth.uid() and p.user_type = 'admin') then
+    raise exception 'Only admins can view site analytics' using errcode = '42501';
+  end if;
+
+  return query
+  with listed as (
+    select b.area_id, bc.category_id
+    from public.businesses b
+    join public.business_categories bc on bc.business_id = b.id
+    where b.status = 'published' and b.area_id is not null
+    group by 1, 2
+  ),
+  category_totals as (
+    select bc.category_id, count(distinct b.id)::integer as n
+    from public.businesses b
+    join public.business_categories bc on bc.business_id = b.id
+    where b.status = 'published'
+    group by 1
+  ),
+  -- Categories are matched against each distinct query once, over at most
+  -- the last 90 days of the range
+  search_terms as (
+    select l.normalized_query, count(*)::integer as n
+    from public.search_logs l
+    where l.created_at >= (greatest(p_from, p_to - 89)::timestamp at time zone 'Asia/Kolkata')
+      and l.created_at < ((p_to + 1)::timestamp at time zone 'Asia/Kolkata')
+    group by 1
+  ),
+  category_searches as (
+    select c.id as category_id, sum(st.n)::integer as n
+    from public.categories c
+    join search_terms st on st.normalized_query like '%' || lower(c.name) || '%'
+    where c.feature_type = 'business' and c.is_active
+    group by 1
+  )
+  select
+    a.id,
+    a.name,
+    ci.name,
+    c.id,
+    c.name,
+    coalesce(ct.n, 0),
+    coalesce(cs.n, 0)
+  from public.areas a
+  left join public.cities ci on ci.id = a.city_id
+  cross join public.categories c
+  left join category_totals ct on ct.category_id = c.id
+  left join category_searches cs on cs.category_id = c.id
+  where c.feature_type = 'business'
+    and c.is_active
+    and a.is_active
+    and (coalesce(ct.n, 0) > 0 or coalesce(cs.n, 0) > 0)
+    and not exists (select 1 from listed where listed.area_id = a.id and listed.category_id = c.id)
+  order by 7 desc, 6 desc, 2, 5
+  limit least(greatest(p_limit, 1), 200);
+end;
+$$;
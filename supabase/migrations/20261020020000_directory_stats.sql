@@ -0,0 +1,270 @@
+-- Listing counts, featured counts and review averages per city, area and
+-- category, for the directory pages and the home page. Kept in a table so
+-- pages read one small result instead of counting listings on every load;
+-- triggers recount the affected rows whenever a listing is published or
+-- unpublished, moves area, is (un)featured, changes category or gets a review.
+
+create table if not exists public.directory_stats (
+  entity_type text not null check (entity_type in ('city', 'area', 'category')),
+  entity_id uuid not null,
+  business_count integer not null default 0, -- Published listings
+  featured_count integer not null default 0,
+  review_count integer not null default 0, -- Published reviews on those listings
+  average_rating numeric(3, 2),
+  updated_at timestamptz not null default now(),
+  primary key (entity_type, entity_id)
+);
+
+alter table public.directory_stats enable row level security;
+
+create policy "Anyone can read directory stats"
+  on public.directory_stats for select
+  using (true);
+
+-- Recount the given cities, areas and categories from published listings.
+-- Null recounts every row of that kind; an empty array skips it.
+create or replace function public.refresh_directory_stats(
+  p_city_ids uuid[],
+  p_area_ids uuid[],
+  p_category_ids uuid[]
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  delete from public.directory_stats s
+  where (s.entity_type = 'city' and (p_city_ids is null or s.entity_id = any(p_city_ids)))
+     or (s.entity_type = 'area' and (p_area_ids is null or s.entity_id = any(p_area_ids)))
+     or (s.entity_type = 'category' and (p_category_ids is null or s.entity_id = any(p_category_ids)));
+
+  insert into public.directory_stats (entity_type, entity_id, business_count, featured_count, review_count, average_rating)
+  select
+    'city',
+    b.city_id,
+    count(distinct b.id),
+    count(distinct b.id) filter (where b.is_featured),
+    count(r.id),
+    round(avg(r.rating), 2)
+  from public.businesses b
+  left join public.reviews r on r.business_id = b.id and r.status = 'published'
+  where b.status = 'published'
+    and b.city_id is not null
+    and (p_city_ids is null or b.city_id = any(p_city_ids))
+  group by b.city_id;
+
+  insert into public.directory_stats (entity_type, entity_id, business_count, featured_count, review_count, average_rating)
+  select
+    'area',
+    b.area_id,
+    count(distinct b.id),
+    count(distinct b.id) filter (where b.is_featured),
+    count(r.id),
+    round(avg(r.rating), 2)
+  from public.businesses b
+  left join public.reviews r on r.business_id = b.id and r.status = 'published'
+  where b.status = 'published'
+    and b.area_id is not null
+    and (p_area_ids is null or b.area_id = any(p_area_ids))
+  group by b.area_id;
+
+  insert into public.directory_stats (entity_type, entity_id, business_count, featured_count, review_count, average_rating)
+  select
+    'category',
+    bc.category_id,
+    count(distinct b.id),
+    count(distinct b.id) filter (where b.is_featured),
+    count(r.id),
+    round(avg(r.rating), 2)
+  from public.business_categories bc
+  join public.businesses b on b.id = bc.business_id and b.status = 'published'
+  left join public.reviews r on r.business_id = b.id and r.status = 'published'
+  where p_category_ids is null or bc.category_id = any(p_category_ids)
+  group by bc.category_id;
+end;
+$$;
+
+revoke execute on function public.refresh_directory_stats(uuid[], uuid[], uuid[]) from public, anon, authenticated;
+
+-- Everything a published listing counts towards
+create or replace function public.refresh_directory_stats_for_business(p_business_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_city_id uuid;
+  v_area_id uuid;
+  v_category_ids uuid[];
+begin
+  select b.city_id, b.area_id into v_city_id, v_area_id
+  from public.businesses b
+  where b.id = p_business_id;
+
+  select coalesce(array_agg(bc.category_id), '{}') into v_category_ids
+  from public.business_categories bc
+  where bc.business_id = p_business_id;
+
+  perform public.refresh_directory_stats(
+    array_remove(array[v_city_id], null),
+    array_remove(array[v_area_id], null),
+    v_category_ids
+  );
+end;
+$$;
+
+revoke execute on function public.refresh_directory_stats_for_business(uuid) from public, anon, authenticated;
+
+create or replace function public.businesses_refresh_directory_stats()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_category_ids uuid[];
+begin
+  -- Only published listings are counted, so drafts and the review queue never need a recount
+  if tg_op = 'INSERT' and new.status <> 'published' then
+    return null;
+  elsif tg_op = 'DELETE' and old.status <> 'published' then
+    return null;
+  elsif tg_op = 'UPDATE' and not (
+    (old.status = 'published' or new.status = 'published')
+    and (
+      old.status is distinct from new.status
+      or old.city_id is distinct from new.city_id
+      or old.area_id is distinct from new.area_id
+      or old.is_featured is distinct from new.is_featured
+    )
+  ) then
+    return null;
+  end if;
+
+  -- On delete the categories are already gone; their own trigger recounts them
+  select coalesce(array_agg(bc.category_id), '{}') into v_category_ids
+  from public.business_categories bc
+  where bc.business_id = coalesce(new.id, old.id);
+
+  perform public.refresh_directory_stats(
+    array_remove(array[old.city_id, new.city_id], null),
+    array_remove(array[old.area_id, new.area_id], null),
+    v_category_ids
+  );
+
+  return null;
+end;
+$$;
+
+create trigger businesses_refresh_directory_stats
+  after insert or update or delete on public.businesses
+  for each row execute function public.businesses_refresh_directory_stats();
+
+create or replace function public.business_categories_refresh_directory_stats()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  -- A listing that still exists but isn't published doesn't count anywhere
+  if exists (
+    select 1 from public.businesses b
+    where b.id = coalesce(new.business_id, old.business_id) and b.status <> 'published'
+  ) then
+    return null;
+  end if;
+
+  perform public.refresh_directory_stats(
+    '{}',
+    '{}',
+    array_remove(array[old.category_id, new.category_id], null)
+  );
+
+  return null;
+end;
+$$;
+
+create trigger business_categories_refresh_directory_stats
+  after insert or update or delete on public.business_categories
+  for each row execute function public.business_categories_refresh_directory_stats();
+
+create or replace function public.reviews_refresh_directory_stats()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'INSERT' and new.status <> 'published' then
+    return null;
+  elsif tg_op = 'DELETE' and old.status <> 'published' then
+    return null;
+  elsif tg_op = 'UPDATE' and not (
+    (old.status = 'published' or new.status = 'published')
+    and (old.status is distinct from new.status or old.rating is distinct from new.rating)
+  ) then
+    return null;
+  end if;
+
+  if exists (
+    select 1 from public.businesses b
+    where b.id = coalesce(new.business_id, old.business_id) and b.status = 'published'
+  ) then
+    perform public.refresh_directory_stats_for_business(coalesce(new.business_id, old.business_id));
+  end if;
+
+  return null;
+end;
+$$;
+
+create trigger reviews_refresh_directory_stats
+  after insert or update of status, rating or delete on public.reviews
+  for each row execute function public.reviews_refresh_directory_stats();
+
+-- Every active city, area and business category with its counts, in one call.
+-- Places without published listings come back with zeros.
+create or replace function public.get_directory_stats()
+returns table (
+  entity_type text,
+  entity_id uuid,
+  name text,
+  slug text,
+  city_id uuid,
+  city_name text,
+  business_count integer,
+  featured_count integer,
+  review_count integer,
+  average_rating numeric
+)
+language sql
+stable
+set search_path = public
+as $$
+  select
+    'city', c.id, c.name, c.slug, c.id, c.name,
+    coalesce(s.business_count, 0), coalesce(s.featured_count, 0), coalesce(s.review_count, 0), s.average_rating
+  from public.cities c
+  left join public.directory_stats s on s.entity_type = 'city' and s.entity_id = c.id
+  where c.is_active
+  union all
+  select
+    'area', a.id, a.name, a.slug, c.id, c.name,
+    coalesce(s.business_count, 0), coalesce(s.featured_count, 0), coalesce(s.review_count, 0), s.average_rating
+  from public.areas a
+  join public.cities c on c.id = a.city_id and c.is_active
+  left join public.directory_stats s on s.entity_type = 'area' and s.entity_id = a.id
+  where a.is_active
+  union all
+  select
+    'category', cat.id, cat.name, cat.slug, null, null,
+    coalesce(s.business_count, 0), coalesce(s.featured_count, 0), coalesce(s.review_count, 0), s.average_rating
+  from public.categories cat
+  left join public.directory_stats s on s.entity_type = 'category' and s.entity_id = cat.id
+  where cat.feature_type = 'business' and cat.is_active;
+$$;
+
+-- Initial counts
+select public.refresh_directory_stats(null, null, null);
@@ -0,0 +1,409 @@
+-- Category hierarchy: subcategories via parent_id, ordered by sort_order.
+-- Admins create, reorder, merge and deactivate categories; listings are always
+-- moved somewhere first so business_categories never points at a dead category.
+-- Directory counts for a category now include its subcategories.
+
+alter table public.categories
+  add column if not exists merged_into_id uuid references public.categories(id) on delete set null;
+
+comment on column public.categories.merged_into_id is 'Set when merged away, so old links can redirect';
+
+create index if not exists categories_parent_idx
+  on public.categories (parent_id, sort_order);
+
+create policy "Admins manage categories"
+  on public.categories for all
+  using (exists (select 1 from public.profiles p where p.id = auth.uid() and p.user_type = 'admin'))
+  with check (exists (select 1 from public.profiles p where p.id = auth.uid() and p.user_type = 'admin'));
+
+-- The category and everything below it
+create or replace function public.category_descendants(p_category_id uuid)
+returns setof uuid
+language sql
+stable
+set search_path = public
+as $$
+  with recursive tree as (
+    select c.id from public.categories c where c.id = p_category_id
+    union
+    select c.id from public.categories c join tree t on c.parent_id = t.id
+  )
+  select id from tree;
+$$;
+
+-- Parents must be of the same feature type and a category can't end up under itself
+create or replace function public.guard_category_hierarchy()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if new.parent_id is null then
+    return new;
+  end if;
+
+  if new.parent_id = new.id then
+    raise exception 'A category cannot be its own parent';
+  end if;
+
+  if not exists (
+    select 1 from public.categories p
+    where p.id = new.parent_id and p.feature_type = new.feature_type
+  ) then
+    raise exception 'The parent category must be of the same type';
+  end if;
+
+  if tg_op = 'UPDATE' and new.parent_id in (select public.category_descendants(new.id)) then
+    raise exception 'A category cannot be moved under one of its own subcategories';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists guard_category_hierarchy on public.categories;
+create trigger guard_category_hierarchy
+  before insert or update of parent_id, feature_type on public.categories
+  for each row execute function public.guard_category_hierarchy();
+
+-- Same as before, except a category counts every published listing in it or
+-- any subcategory once, and recounting a category also recounts its parents.
+create or replace function public.refresh_directory_stats(
+  p_city_ids uuid[],
+  p_area_ids uuid[],
+  p_category_ids uuid[]
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_category_ids uuid[] := p_category_ids;
+begin
+  if p_category_ids is not null and cardinality(p_category_ids) > 0 then
+    with recursive up as (
+      select c.id, c.parent_id from public.categories c where c.id = any(p_category_ids)
+      union
+      select c.id, c.parent_id from public.categories c join up on c.id = up.parent_id
+    )
+    select array_agg(distinct ids.id) into v_category_ids
+    from (
+      select unnest(p_category_ids) as id
+      union
+      select up.id from up
+    ) ids;
+  end if;
+
+  delete from public.directory_stats s
+  where (s.entity_type = 'city' and (p_city_ids is null or s.entity_id = any(p_city_ids)))
+     or (s.entity_type = 'area' and (p_area_ids is null or s.entity_id = any(p_area_ids)))
+     or (s.entity_type = 'category' and (v_category_ids is null or s.entity_id = any(v_category_ids)));
+
+  insert into public.directory_stats (entity_type, entity_id, business_count, featured_count, review_count, average_rating)
+  select
+    'city',
+    b.city_id,
+    count(distinct b.id),
+    count(distinct b.id) filter (where b.is_featured),
+    count(r.id),
+    round(avg(r.rating), 2)
+  from public.businesses b
+  left join public.reviews r on r.business_id = b.id and r.status = 'published'
+  where b.status = 'published'
+    and b.city_id is not null
+    and (p_city_ids is null or b.city_id = any(p_city_ids))
+  group by b.city_id;
+
+  insert into public.directory_stats (entity_type, entity_id, business_count, featured_count, review_count, average_rating)
+  select
+    'area',
+    b.area_id,
+    count(distinct b.id),
+    count(distinct b.id) filter (where b.is_featured),
+    count(r.id),
+    round(avg(r.rating), 2)
+  from public.businesses b
+  left join public.reviews r on r.business_id = b.id and r.status = 'published'
+  where b.status = 'published'
+    and b.area_id is not null
+    and (p_area_ids is null or b.area_id = any(p_area_ids))
+  group by b.area_id;
+
+  insert into public.directory_stats (entity_type, entity_id, business_count, featured_count, review_count, average_rating)
+  with recursive tree as (
+    select c.id as root_id, c.id as category_id
+    from public.categories c
+    where v_category_ids is null or c.id = any(v_category_ids)
+    union
+    select t.root_id, c.id
+    from public.categories c
+    join tree t on c.parent_id = t.category_id
+  ),
+  -- One row per listing per counted category, however many subcategories it's in
+  members as (
+    select distinct t.root_id, b.id as business_id, b.is_featured
+    from tree t
+    join public.business_categories bc on bc.category_id = t.category_id
+    join public.businesses b on b.id = bc.business_id and b.status = 'published'
+  )
+  select
+    'category',
+    m.root_id,
+    count(distinct m.business_id),
+    count(distinct m.business_id) filter (where m.is_featured),
+    count(r.id),
+    round(avg(r.rating), 2)
+  from members m
+  left join public.reviews r on r.business_id = m.business_id and r.status = 'published'
+  group by m.root_id;
+end;
+$$;
+
+-- Moving a subtree or switching a category on or off changes every count above it
+create or replace function public.categories_refresh_directory_stats()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform public.refresh_directory_stats('{}', '{}', null);
+  return null;
+end;
+$$;
+
+drop trigger if exists categories_refresh_directory_stats on public.categories;
+create trigger categories_refresh_directory_stats
+  after update of parent_id, is_active or delete on public.categories
+  for each statement execute function public.categories_refresh_directory_stats();
+
+drop function if exists public.get_directory_stats();
+
+-- Every active city, area and business category with its counts, in one call.
+-- Places without published listings come back with zeros.
+create or replace function public.get_directory_stats()
+returns table (
+  entity_type text,
+  entity_id uuid,
+  name text,
+  slug text,
+  city_id uuid,
+  city_name text,
+  parent_id uuid,
+  sort_order integer,
+  business_count integer,
+  featured_count integer,
+  review_count integer,
+  average_rating numeric
+)
+language sql
+stable
+set search_path = public
+as $$
+  select
+    'city', c.id, c.name, c.slug, c.id, c.name, null::uuid, 0,
+    coalesce(s.business_count, 0), coalesce(s.featured_count, 0), coalesce(s.review_count, 0), s.average_rating
+  from public.cities c
+  left join public.directory_stats s on s.entity_type = 'city' and s.entity_id = c.id
+  where c.is_active
+  union all
+  select
+    'area', a.id, a.name, a.slug, c.id, c.name, null::uuid, 0,
+    coalesce(s.business_count, 0), coalesce(s.featured_count, 0), coalesce(s.review_count, 0), s.average_rating
+  from public.areas a
+  join public.cities c on c.id = a.city_id and c.is_active
+  left join public.directory_stats s on s.entity_type = 'area' and s.entity_id = a.id
+  where a.is_active
+  union all
+  select
+    'category', cat.id, cat.name, cat.slug, null, null, cat.parent_id, cat.sort_order,
+    coalesce(s.business_count, 0), coalesce(s.featured_count, 0), coalesce(s.review_count, 0), s.average_rating
+  from public.categories cat
+  left join public.directory_stats s on s.entity_type = 'category' and s.entity_id = cat.id
+  where cat.feature_type = 'business' and cat.is_active;
+$$;
+
+-- Re-point listings and tourism places from one category to another. A listing
+-- already in both keeps a single row, and stays primary if either row was.
+-- Internal: the admin functions below call it.
+create or replace function public.move_category_listings(p_source_id uuid, p_target_id uuid)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_moved integer;
+begin
+  update public.business_categories t
+  set is_primary = true
+  from public.business_categories s
+  where s.category_id = p_source_id
+    and s.is_primary
+    and t.business_id = s.business_id
+    and t.category_id = p_target_id;
+
+  insert into public.business_categories (business_id, category_id, is_primary)
+  select s.business_id, p_target_id, s.is_primary
+  from public.business_categories s
+  where s.category_id = p_source_id
+    and not exists (
+      select 1 from public.business_categories t
+      where t.business_id = s.business_id and t.category_id = p_target_id
+    );
+
+  get diagnostics v_moved = row_count;
+
+  delete from public.business_categories where category_id = p_source_id;
+
+  update public.tourism_places set category_id = p_target_id where category_id = p_source_id;
+
+  return v_moved;
+end;
+$$;
+
+revoke execute on function public.move_category_listings(uuid, uuid) from public, anon, authenticated;
+
+-- Checks shared by merge and deactivate: the target must be a different,
+-- active category of the same type and not inside the source's own subtree
+create or replace function public.check_category_target(p_source_id uuid, p_target_id uuid)
+returns void
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if not exists (
+    select 1 from public.categories t
+    join public.categories s on s.id = p_source_id
+    where t.id = p_target_id and t.is_active and t.feature_type = s.feature_type
+  ) then
+    raise exception 'Pick an active category of the same type to move listings to';
+  end if;
+
+  if p_target_id in (select public.category_descendants(p_source_id)) then
+    raise exception 'Listings can''t be moved into the category itself or one of its subcategories';
+  end if;
+end;
+$$;
+
+revoke execute on function public.check_category_target(uuid, uuid) from public, anon, authenticated;
+
+-- Fold one category into another: listings, tourism places and subcategories
+-- move to the target, and the source is kept inactive so old links can redirect.
+-- Returns how many listings were added to the target.
+create or replace function public.admin_merge_categories(p_source_id uuid, p_target_id uuid)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_moved integer;
+begin
+  if not exists (select 1 from public.profiles p where p.id = auth.uid() and p.user_type = 'admin') then
+    raise exception 'Only admins can merge categories' using errcode = '42501';
+  end if;
+
+  perform public.check_category_target(p_source_id, p_target_id);
+
+  v_moved := public.move_category_listings(p_source_id, p_target_id);
+
+  update public.categories set parent_id = p_target_id where parent_id = p_source_id;
+  update public.categories set merged_into_id = p_target_id where merged_into_id = p_source_id;
+
+  update public.categories
+  set is_active = false, merged_into_id = p_target_id, parent_id = null
+  where id = p_source_id;
+
+  return v_moved;
+end;
+$$;
+
+-- Switch a category off or back on. A category with active subcategories can't
+-- be switched off, and its listings must go somewhere: pass p_move_to_id when
+-- it still has any. Reactivating needs an active parent.
+create or replace function public.admin_set_category_active(
+  p_category_id uuid,
+  p_active boolean,
+  p_move_to_id uuid default null
+)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_listings integer;
+  v_moved integer := 0;
+begin
+  if not exists (select 1 from public.profiles p where p.id = auth.uid() and p.user_type = 'admin') then
+    raise exception 'Only admins can change categories' using errcode = '42501';
+  end if;
+
+  if p_active then
+    if exists (
+      select 1 from public.categories c
+      join public.categories parent on parent.id = c.parent_id
+      where c.id = p_category_id and not parent.is_active
+    ) then
+      raise exception 'Reactivate the parent category first';
+    end if;
+
+    update public.categories set is_active = true, merged_into_id = null where id = p_category_id;
+    return 0;
+  end if;
+
+  if exists (select 1 from public.categories c where c.parent_id = p_category_id and c.is_active) then
+    raise exception 'Move or deactivate its subcategories first';
+  end if;
+
+  select
+    (select count(*) from public.business_categories bc where bc.category_id = p_category_id)
+    + (select count(*) from public.tourism_places tp where tp.category_id = p_category_id)
+  into v_listings;
+
+  if v_listings > 0 then
+    if p_move_to_id is null then
+      raise exception '% listing(s) are still in this category. Choose a category to move them to.', v_listings;
+    end if;
+
+    perform public.check_category_target(p_category_id, p_move_to_id);
+    v_moved := public.move_category_listings(p_category_id, p_move_to_id);
+  end if;
+
+  update public.categories set is_active = false where id = p_category_id;
+
+  return v_moved;
+end;
+$$;
+
+-- Set sort_order to each id's position in the list (siblings, top first)
+create or replace function public.admin_reorder_categories(p_category_ids uuid[])
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not exists (select 1 from public.profiles p where p.id = auth.uid() and p.user_type = 'admin') then
+    raise exception 'Only admins can reorder categories' using errcode = '42501';
+  end if;
+
+  update public.categories c
+  set sort_order = o.position
+  from unnest(p_category_ids) with ordinality as o(id, position)
+  where c.id = o.id;
+end;
+$$;
+
+-- Category changes go in the audit log too
+alter table public.audit_events drop constraint if exists audit_events_entity_type_check;
+alter table public.audit_events
+  add constraint audit_events_entity_type_check
+  check (entity_type in ('business', 'tourism_place', 'user', 'category'));
+
+-- Recount with subcategories rolled up
+select public.refresh_directory_stats('{}', '{}', null);
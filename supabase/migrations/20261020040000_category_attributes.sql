@@ -0,0 +1,235 @@
+-- Primary categories and category-specific attributes.
+-- Each listing has one primary category. Admins define attributes per category
+-- (yes/no, one of a list, or a price range) and they apply to the category's
+-- subcategories too; owners fill them in and visitors filter by them.
+
+-- One primary category per listing; existing listings get their first category
+create unique index if not exists business_categories_one_primary_idx
+  on public.business_categories (business_id)
+  where is_primary;
+
+update public.business_categories bc
+set is_primary = true
+from (
+  select distinct on (bc2.business_id) bc2.business_id, bc2.category_id
+  from public.business_categories bc2
+  join public.categories c on c.id = bc2.category_id
+  where not exists (
+    select 1 from public.business_categories p
+    where p.business_id = bc2.business_id and p.is_primary
+  )
+  order by bc2.business_id, c.sort_order, c.name
+) first_category
+where bc.business_id = first_category.business_id
+  and bc.category_id = first_category.category_id;
+
+create table if not exists public.category_attributes (
+  id uuid primary key default gen_random_uuid(),
+  category_id uuid not null references public.categories(id) on delete cascade,
+  key text not null, -- URL-safe, used in filter links
+  label text not null,
+  attribute_type text not null check (attribute_type in ('boolean', 'enum', 'price_range')),
+  options text[] not null default '{}', -- Choices for enum; ascending band limits for price_range
+  unit text, -- Shown after price ranges, e.g. "for two"
+  is_filterable boolean not null default true,
+  sort_order integer not null default 0,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (category_id, key),
+  check (attribute_type <> 'enum' or cardinality(options) > 0)
+);
+
+create index if not exists category_attributes_category_idx
+  on public.category_attributes (category_id, sort_order);
+
+alter table public.category_attributes enable row level security;
+
+create policy "Category attributes are publicly readable"
+  on public.category_attributes for select
+  using (true);
+
+create policy "Admins manage category attributes"
+  on public.category_attributes for all
+  using (exists (select 1 from public.profiles p where p.id = auth.uid() and p.user_type = 'admin'))
+  with check (exists (select 1 from public.profiles p where p.id = auth.uid() and p.user_type = 'admin'));
+
+-- Values are jsonb: true/false, the chosen option, or {"min": n, "max": n}
+create table if not exists public.business_attributes (
+  business_id uuid not null references public.businesses(id) on delete cascade,
+  attribute_id uuid not null references public.category_attributes(id) on delete cascade,
+  value jsonb not null,
+  updated_at timestamptz not null default now(),
+  primary key (business_id, attribute_id)
+);
+
+create index if not exists business_attributes_attribute_idx
+  on public.business_attributes (attribute_id);
+
+alter table public.business_attributes enable row level security;
+
+create policy "Business attributes are publicly readable"
+  on public.business_attributes for select
+  using (true);
+
+create policy "Managers manage business attributes"
+  on public.business_attributes for all
+  using (public.has_business_role(business_id, array['owner', 'manager']))
+  with check (public.has_business_role(business_id, array['owner', 'manager']));
+
+create policy "Admins manage business attributes"
+  on public.business_attributes for all
+  using (exists (select 1 from public.profiles p where p.id = auth.uid() and p.user_type = 'admin'))
+  with check (exists (select 1 from public.profiles p where p.id = auth.uid() and p.user_type = 'admin'));
+
+-- Reject values that don't fit the attribute's type
+create or replace function public.validate_business_attribute()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_attribute public.category_attributes;
+begin
+  select * into v_attribute from public.category_attributes a where a.id = new.attribute_id;
+
+  if v_attribute.attribute_type = 'boolean' and jsonb_typeof(new.value) <> 'boolean' then
+    raise exception '% must be yes or no', v_attribute.label;
+  end if;
+
+  if v_attribute.attribute_type = 'enum'
+    and (jsonb_typeof(new.value) <> 'string' or not ((new.value #>> '{}') = any(v_attribute.options))) then
+    raise exception '% must be one of: %', v_attribute.label, array_to_string(v_attribute.options, ', ');
+  end if;
+
+  if v_attribute.attribute_type = 'price_range' and (
+    jsonb_typeof(new.value) <> 'object'
+    or jsonb_typeof(new.value -> 'min') <> 'number'
+    or jsonb_typeof(new.value -> 'max') <> 'number'
+    or (new.value ->> 'min')::numeric < 0
+    or (new.value ->> 'min')::numeric > (new.value ->> 'max')::numeric
+  ) then
+    raise exception '% needs a lowest and highest price, lowest first', v_attribute.label;
+  end if;
+
+  new.updated_at := now();
+  return new;
+end;
+$$;
+
+drop trigger if exists business_attributes_validate on public.business_attributes;
+create trigger business_attributes_validate
+  before insert or update on public.business_attributes
+  for each row execute function public.validate_business_attribute();
+
+-- Like categories, answers on a published listing change through its change set
+drop trigger if exists guard_published_business_attributes on public.business_attributes;
+create trigger guard_published_business_attributes
+  before insert or update or delete on public.business_attributes
+  for each row execute function public.guard_published_business_rows();
+
+-- Attributes that apply to listings in these categories: those defined on the
+-- categories themselves or on any category above them
+create or replace function public.get_category_attributes(p_category_ids uuid[])
+returns setof public.category_attributes
+language sql
+stable
+set search_path = public
+as $$
+  with recursive up as (
+    select c.id, c.parent_id
+    from public.categories c
+    where c.id = any(p_category_ids)
+    union
+    select c.id, c.parent_id
+    from public.categories c
+    join up on c.id = up.parent_id
+  )
+  select a.*
+  from public.category_attributes a
+  where a.category_id in (select up.id from up)
+  order by a.sort_order, a.label;
+$$;
+
+-- A listing's attribute values, limited to attributes that still apply to its
+-- categories (values outlive a category change until the listing is next saved)
+create or replace function public.get_business_attributes(p_business_id uuid)
+returns table (
+  attribute_id uuid,
+  key text,
+  label text,
+  attribute_type text,
+  options text[],
+  unit text,
+  sort_order integer,
+  value jsonb
+)
+language sql
+stable
+set search_path = public
+as $$
+  select a.id, a.key, a.label, a.attribute_type, a.options, a.unit, a.sort_order, ba.value
+  from public.business_attributes ba
+  join public.get_category_attributes(
+    array(select bc.category_id from public.business_categories bc where bc.business_id = p_business_id)
+  ) a on a.id = ba.attribute_id
+  where ba.business_id = p_business_id
+  order by a.sort_order, a.label;
+$$;
+
+-- Listings matching every filter. p_filters maps attribute ids to what to match:
+-- true for yes/no attributes, an array of options for enums, and
+-- {"min": n, "max": n} (either optional) for price ranges, which match when
+-- the listing's range overlaps.
+create or replace function public.filter_businesses_by_attributes(p_filters jsonb)
+returns setof uuid
+language sql
+stable
+set search_path = public
+as $$
+  select ba.business_id
+  from public.business_attributes ba
+  join jsonb_each(p_filters) f on f.key::uuid = ba.attribute_id
+  join public.category_attributes a on a.id = ba.attribute_id
+  where
+    case a.attribute_type
+      when 'boolean' then ba.value = f.value
+      when 'enum' then f.value ? (ba.value #>> '{}')
+      else (f.value ->> 'max' is null or (ba.value ->> 'min')::numeric <= (f.value ->> 'max')::numeric)
+        and (f.value ->> 'min' is null or (ba.value ->> 'max')::numeric >= (f.value ->> 'min')::numeric)
+    end
+  group by ba.business_id
+  having count(*) = (select count(*) from jsonb_object_keys(p_filters));
+$$;
+
+-- Replace a listing's categories and/or attribute values in one transaction,
+-- so a failed insert can't leave it with none. A null argument leaves that set
+-- as it is. Runs as the caller, so the usual policies and checks apply.
+--   p_categories: [{"category_id": uuid, "is_primary": bool}, ...]
+--   p_attributes: [{"attribute_id": uuid, "value": jsonb}, ...]
+create or replace function public.replace_business_categories(
+  p_business_id uuid,
+  p_categories jsonb default null,
+  p_attributes jsonb default null
+)
+returns void
+language plpgsql
+set search_path = public
+as $$
+begin
+  if p_categories is not null then
+    delete from public.business_categories where business_id = p_business_id;
+
+    insert into public.business_categories (business_id, category_id, is_primary)
+    select p_business_id, c.category_id, coalesce(c.is_primary, false)
+    from jsonb_to_recordset(p_categories) as c(category_id uuid, is_primary boolean);
+  end if;
+
+  if p_attributes is not null then
+    delete from public.business_attributes where business_id = p_business_id;
+
+    insert into public.business_attributes (business_id, attribute_id, value)
+    select p_business_id, a.attribute_id, a.value
+    from jsonb_to_recordset(p_attributes) as a(attribute_id uuid, value jsonb);
+  end if;
+end;
+$$;
@@ -0,0 +1,41 @@
+-- Landmark browsing: listings are tagged "near <landmark>" and each landmark
+-- gets a page of the businesses and places around it.
+
+create index if not exists businesses_landmark_idx
+  on public.businesses (landmark_id)
+  where landmark_id is not null;
+
+create index if not exists landmarks_area_idx
+  on public.landmarks (area_id)
+  where is_active;
+
+-- A listing's landmark must be in the listing's own area; clear any that aren't
+update public.businesses b
+set landmark_id = null
+where b.landmark_id is not null
+  and not exists (
+    select 1 from public.landmarks l
+    where l.id = b.landmark_id and l.area_id is not distinct from b.area_id
+  );
+
+create or replace function public.validate_business_landmark()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if new.landmark_id is not null and not exists (
+    select 1 from public.landmarks l
+    where l.id = new.landmark_id and l.area_id is not distinct from new.area_id
+  ) then
+    raise exception 'The landmark must be in the business''s area';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists businesses_validate_landmark on public.businesses;
+create trigger businesses_validate_landmark
+  before insert or update of landmark_id, area_id on public.businesses
+  for each row execute function public.validate_business_landmark();
@@ -0,0 +1,93 @@
+-- Multi-city: the directory grows from Chittorgarh to the nearby towns.
+-- Area and landmark pages move under their city (/[city]/area/[slug]), so
+-- area slugs only need to be unique within a city.
+
+alter table public.cities
+  add column if not exists latitude double precision,
+  add column if not exists longitude double precision;
+
+update public.cities
+set latitude = 24.8887, longitude = 74.6269
+where slug = 'chittorgarh' and latitude is null;
+
+insert into public.cities (name, slug, state, latitude, longitude, is_active)
+select v.name, v.slug, 'Rajasthan', v.latitude, v.longitude, true
+from (values
+  ('Nimbahera', 'nimbahera', 24.6216, 74.6790),
+  ('Begun', 'begun', 24.9830, 75.0050),
+  ('Kapasan', 'kapasan', 24.8837, 74.3177)
+) as v(name, slug, latitude, longitude)
+where not exists (select 1 from public.cities c where c.slug = v.slug);
+
+create unique index if not exists areas_city_slug_key
+  on public.areas (city_id, slug);
+
+-- Area suggestions link to the city-scoped page, so they need the city slug.
+-- The return type changes, which create or replace can't do.
+drop function if exists public.search_suggestions(text, int);
+
+create function public.search_suggestions(
+  p_query text,
+  p_limit int default 8
+)
+returns table (
+  suggestion_type text,
+  id uuid,
+  label text,
+  sublabel text,
+  slug text,
+  city_slug text,
+  score real
+)
+language sql
+stable
+as $$
+  with q as (
+    select lower(trim(p_query)) as term
+  ),
+  candidates as (
+    select 'business'::text as suggestion_type, b.id, b.name as label, c.name as sublabel, b.slug, c.slug as city_slug
+    from public.businesses b
+    left join public.cities c on c.id = b.city_id
+    where b.status = 'published'
+
+    union all
+
+    select 'category', cat.id, cat.name, null, cat.slug, null
+    from public.categories cat
+    where cat.feature_type = 'business' and cat.is_active
+
+    union all
+
+    select 'area', a.id, a.name, c.name, a.slug, c.slug
+    from public.areas a
+    left join public.cities c on c.id = a.city_id
+    where a.is_active
+
+    union all
+
+    select 'tourism', tp.id, tp.name, c.name, tp.slug, c.slug
+    from public.tourism_places tp
+    left join public.cities c on c.id = tp.city_id
+    where tp.status = 'published'
+  ),
+  scored as (
+    select
+      cand.*,
+      (
+        case
+          when lower(cand.label) like q.term || '%' then 2
+          when lower(cand.label) like '% ' || q.term || '%' then 1.5
+          else 0
+        end
+        + word_similarity(q.term, lower(cand.label))
+      )::real as score
+    from candidates cand, q
+    where q.term <> ''
+  )
+  select s.suggestion_type, s.id, s.label, s.sublabel, s.slug, s.city_slug, s.score
+  from scored s
+  where s.score >= 0.5
+  order by s.score desc, length(s.label), s.label
+  limit p_limit
+$$;
@@ -0,0 +1,540 @@
+-- Audit events are written by triggers on the audited tables, in the same
+-- transaction as the change, so they can't be skipped or forged from the
+-- client. A reason or extra context reaches the trigger through the
+-- transaction-local settings app.audit_reason and app.audit_context, which
+-- only the admin functions below set.
+
+drop function if exists public.record_audit_event(text, text, uuid, text, jsonb, text, jsonb);
+
+-- { field: { from, to } } for the fields that differ
+create or replace function public.audit_diff(p_old jsonb, p_new jsonb, p_fields text[])
+returns jsonb
+language sql
+immutable
+as $$
+  select coalesce(jsonb_object_agg(f, jsonb_build_object('from', p_old -> f, 'to', p_new -> f)), '{}'::jsonb)
+  from unnest(p_fields) as f
+  where coalesce(p_old -> f, 'null'::jsonb) is distinct from coalesce(p_new -> f, 'null'::jsonb)
+$$;
+
+-- The actor always comes from the session; null means a system change, such
+-- as a listing held automatically after reports (app.audit_system)
+create or replace function public.write_audit_event(
+  p_action text,
+  p_entity_type text,
+  p_entity_id uuid,
+  p_entity_label text,
+  p_changes jsonb default '{}'::jsonb,
+  p_context jsonb default '{}'::jsonb
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_actor uuid := case
+    when coalesce(current_setting('app.audit_system', true), '') = 'on' then null
+    else auth.uid()
+  end;
+begin
+  insert into public.audit_events (
+    actor_id, actor_role, action, entity_type, entity_id, entity_label, changes, reason, context
+  )
+  values (
+    v_actor,
+    (select user_type from public.profiles where id = v_actor),
+    p_action,
+    p_entity_type,
+    p_entity_id,
+    p_entity_label,
+    coalesce(p_changes, '{}'::jsonb),
+    left(nullif(trim(current_setting('app.audit_reason', true)), ''), 1000),
+    coalesce(p_context, '{}'::jsonb)
+      || coalesce(nullif(current_setting('app.audit_context', true), '')::jsonb, '{}'::jsonb)
+  );
+end;
+$$;
+
+revoke execute on function public.write_audit_event(text, text, uuid, text, jsonb, jsonb) from public, anon, authenticated;
+
+-- Businesses: status changes and deletions
+create or replace function public.audit_business_changes()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'DELETE' then
+    perform public.write_audit_event(
+      'business.deleted', 'business', old.id, old.name,
+      public.audit_diff(to_jsonb(old), null, array['name', 'slug', 'status', 'owner_id'])
+    );
+    return old;
+  end if;
+
+  if new.status is distinct from old.status then
+    perform public.write_audit_event(
+      'business.status_changed', 'business', new.id, new.name,
+      public.audit_diff(to_jsonb(old), to_jsonb(new), array['status'])
+    );
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists businesses_audit on public.businesses;
+create trigger businesses_audit
+  after update of status or delete on public.businesses
+  for each row execute function public.audit_business_changes();
+
+-- Tourism places: status changes and deletions
+create or replace function public.audit_tourism_place_changes()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'DELETE' then
+    perform public.write_audit_event(
+      'tourism_place.deleted', 'tourism_place', old.id, old.name,
+      public.audit_diff(to_jsonb(old), null, array['name', 'slug', 'status'])
+    );
+    return old;
+  end if;
+
+  if new.status is distinct from old.status then
+    perform public.write_audit_event(
+      'tourism_place.status_changed', 'tourism_place', new.id, new.name,
+      public.audit_diff(to_jsonb(old), to_jsonb(new), array['status'])
+    );
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists tourism_places_audit on public.tourism_places;
+create trigger tourism_places_audit
+  after update of status or delete on public.tourism_places
+  for each row execute function public.audit_tourism_place_changes();
+
+-- Tourism images are soft-deleted
+create or replace function public.audit_tourism_image_changes()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.entity_type = 'tourism' and old.is_active and not new.is_active then
+    perform public.write_audit_event(
+      'tourism_place.image_deleted', 'tourism_place', new.entity_id,
+      (select tp.name from public.tourism_places tp where tp.id = new.entity_id),
+      jsonb_build_object('image_path', jsonb_build_object('from', old.image_path, 'to', null)),
+      jsonb_build_object('image_id', new.id, 'alt_text', new.alt_text)
+    );
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists media_files_audit on public.media_files;
+create trigger media_files_audit
+  after update of is_active on public.media_files
+  for each row execute function public.audit_tourism_image_changes();
+
+-- User roles
+create or replace function public.audit_profile_changes()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.user_type is distinct from old.user_type then
+    perform public.write_audit_event(
+      'user.role_changed', 'user', new.id, coalesce(new.full_name, new.email),
+      public.audit_diff(to_jsonb(old), to_jsonb(new), array['user_type'])
+    );
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists profiles_audit on public.profiles;
+create trigger profiles_audit
+  after update of user_type on public.profiles
+  for each row execute function public.audit_profile_changes();
+
+-- Categories: creation, edits, merges and switching on or off. Reordering isn't logged.
+create or replace function public.audit_category_changes()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_changes jsonb;
+begin
+  if tg_op = 'INSERT' then
+    perform public.write_audit_event(
+      'category.created', 'category', new.id, new.name, '{}'::jsonb,
+      jsonb_build_object('feature_type', new.feature_type, 'parent_id', new.parent_id)
+    );
+    return new;
+  end if;
+
+  if new.merged_into_id is not null and new.merged_into_id is distinct from old.merged_into_id and not new.is_active then
+    perform public.write_audit_event(
+      'category.merged', 'category', new.id, new.name,
+      jsonb_build_object('merged_into', jsonb_build_object(
+        'from', null,
+        'to', (select c.name from public.categories c where c.id = new.merged_into_id)
+      ))
+    );
+    return new;
+  end if;
+
+  if new.is_active is distinct from old.is_active then
+    perform public.write_audit_event(
+      case when new.is_active then 'category.reactivated' else 'category.deactivated' end,
+      'category', new.id, new.name,
+      public.audit_diff(to_jsonb(old), to_jsonb(new), array['is_active'])
+    );
+  end if;
+
+  v_changes := public.audit_diff(to_jsonb(old), to_jsonb(new), array['name', 'slug', 'description', 'parent_id']);
+  if v_changes <> '{}'::jsonb then
+    perform public.write_audit_event('category.updated', 'category', new.id, new.name, v_changes);
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists categories_audit on public.categories;
+create trigger categories_audit
+  after insert or update on public.categories
+  for each row execute function public.audit_category_changes();
+
+-- Category attributes are logged against their category
+create or replace function public.audit_category_attribute_changes()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_row public.category_attributes := case when tg_op = 'DELETE' then old else new end;
+  v_changes jsonb;
+begin
+  if tg_op = 'INSERT' then
+    v_changes := jsonb_build_object('attribute:' || new.key, jsonb_build_object('from', null, 'to', new.label));
+  elsif tg_op = 'DELETE' then
+    v_changes := jsonb_build_object('attribute:' || old.key, jsonb_build_object('from', old.label, 'to', null));
+  else
+    v_changes := public.audit_diff(to_jsonb(old), to_jsonb(new), array['label', 'options', 'unit', 'is_filterable']);
+  end if;
+
+  if v_changes <> '{}'::jsonb then
+    perform public.write_audit_event(
+      'category.updated', 'category', v_row.category_id,
+      (select c.name from public.categories c where c.id = v_row.category_id),
+      v_changes,
+      jsonb_build_object('attribute_id', v_row.id)
+    );
+  end if;
+
+  return null;
+end;
+$$;
+
+drop trigger if exists category_attributes_audit on public.category_attributes;
+create trigger category_attributes_audit
+  after insert or update or delete on public.category_attributes
+  for each row execute function public.audit_category_attribute_changes();
+
+-- Admin changes that carry a reason. Each sets app.audit_reason for the
+-- triggers above, then makes the change.
+
+create or replace function public.admin_delete_business(p_business_id uuid, p_reason text default null)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not exists (select 1 from public.profiles p where p.id = auth.uid() and p.user_type = 'admin') then
+    raise exception 'Only admins can delete listings' using errcode = '42501';
+  end if;
+
+  perform set_config('app.audit_reason', coalesce(p_reason, ''), true);
+
+  delete from public.businesses where id = p_business_id;
+
+  if not found then
+    raise exception 'Business not found';
+  end if;
+end;
+$$;
+
+create or replace function public.admin_set_tourism_status(p_place_id uuid, p_status text, p_reason text default null)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not exists (select 1 from public.profiles p where p.id = auth.uid() and p.user_type = 'admin') then
+    raise exception 'Only admins can change place status' using errcode = '42501';
+  end if;
+
+  perform set_config('app.audit_reason', coalesce(p_reason, ''), true);
+
+  update public.tourism_places
+  set status = p_status, updated_at = now()
+  where id = p_place_id;
+
+  if not found then
+    raise exception 'Tourism place not found';
+  end if;
+end;
+$$;
+
+create or replace function public.admin_delete_tourism_place(p_place_id uuid, p_reason text default null)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not exists (select 1 from public.profiles p where p.id = auth.uid() and p.user_type = 'admin') then
+    raise exception 'Only admins can delete places' using errcode = '42501';
+  end if;
+
+  perform set_config('app.audit_reason', coalesce(p_reason, ''), true);
+
+  delete from public.tourism_places where id = p_place_id;
+
+  if not found then
+    raise exception 'Tourism place not found';
+  end if;
+end;
+$$;
+
+create or replace function public.admin_delete_tourism_image(p_image_id uuid, p_reason text default null)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not exists (select 1 from public.profiles p where p.id = auth.uid() and p.user_type = 'admin') then
+    raise exception 'Only admins can delete place images' using errcode = '42501';
+  end if;
+
+  perform set_config('app.audit_reason', coalesce(p_reason, ''), true);
+
+  update public.media_files
+  set is_active = false
+  where id = p_image_id and entity_type = 'tourism';
+
+  if not found then
+    raise exception 'Image not found';
+  end if;
+end;
+$$;
+
+create or replace function public.admin_set_user_role(p_user_id uuid, p_user_type text, p_reason text default null)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not exists (select 1 from public.profiles p where p.id = auth.uid() and p.user_type = 'admin') then
+    raise exception 'Only admins can change roles' using errcode = '42501';
+  end if;
+
+  perform set_config('app.audit_reason', coalesce(p_reason, ''), true);
+
+  update public.profiles
+  set user_type = p_user_type, updated_at = now()
+  where id = p_user_id;
+
+  if not found then
+    raise exception 'User not found';
+  end if;
+end;
+$$;
+
+-- Status changes record their reason template; the log formats it like the owner sees it
+create or replace function public.set_business_status(
+  p_business_id uuid,
+  p_status text,
+  p_reason_code text default null,
+  p_reason_note text default null
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_from text;
+  v_is_admin boolean;
+  v_id uuid;
+begin
+  if auth.uid() is null then
+    raise exception 'Not signed in';
+  end if;
+
+  select status into v_from
+  from public.businesses
+  where id = p_business_id
+  for update;
+
+  if not found then
+    raise exception 'Business not found';
+  end if;
+
+  v_is_admin := exists (
+    select 1 from public.profiles p where p.id = auth.uid() and p.user_type = 'admin'
+  );
+
+  -- Owners and managers may only resubmit a listing that was turned down
+  if not v_is_admin and not (
+    p_status = 'pending'
+    and v_from in ('rejected', 'suspended')
+    and public.has_business_role(p_business_id, array['owner', 'manager'])
+  ) then
+    raise exception 'Not allowed to change this listing''s status';
+  end if;
+
+  if p_status in ('rejected', 'suspended') and p_reason_code is null then
+    raise exception 'A reason is required';
+  end if;
+
+  perform set_config('app.audit_reason', coalesce(trim(p_reason_note), ''), true);
+  perform set_config('app.audit_context', jsonb_build_object('reason_code', p_reason_code)::text, true);
+  perform set_config('app.status_change', 'on', true);
+
+  -- A manual decision replaces any hold from reports
+  update public.businesses
+  set status = p_status, hidden_by_reports = false, updated_at = now()
+  where id = p_business_id;
+
+  insert into public.business_status_history (
+    business_id, from_status, to_status, reason_code, reason_note, changed_by
+  )
+  values (
+    p_business_id,
+    v_from,
+    p_status,
+    p_reason_code,
+    nullif(trim(p_reason_note), ''),
+    auth.uid()
+  )
+  returning id into v_id;
+
+  return v_id;
+end;
+$$;
+
+-- Merges and deactivations note where the listings went
+create or replace function public.admin_merge_categories(p_source_id uuid, p_target_id uuid)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_moved integer;
+begin
+  if not exists (select 1 from public.profiles p where p.id = auth.uid() and p.user_type = 'admin') then
+    raise exception 'Only admins can merge categories' using errcode = '42501';
+  end if;
+
+  perform public.check_category_target(p_source_id, p_target_id);
+
+  v_moved := public.move_category_listings(p_source_id, p_target_id);
+
+  update public.categories set parent_id = p_target_id where parent_id = p_source_id;
+  update public.categories set merged_into_id = p_target_id where merged_into_id = p_source_id;
+
+  perform set_config('app.audit_context', jsonb_build_object('target_id', p_target_id, 'listings_moved', v_moved)::text, true);
+
+  update public.categories
+  set is_active = false, merged_into_id = p_target_id, parent_id = null
+  where id = p_source_id;
+
+  return v_moved;
+end;
+$$;
+
+create or replace function public.admin_set_category_active(
+  p_category_id uuid,
+  p_active boolean,
+  p_move_to_id uuid default null
+)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_listings integer;
+  v_moved integer := 0;
+begin
+  if not exists (select 1 from public.profiles p where p.id = auth.uid() and p.user_type = 'admin') then
+    raise exception 'Only admins can change categories' using errcode = '42501';
+  end if;
+
+  if p_active then
+    if exists (
+      select 1 from public.categories c
+      join public.categories parent on parent.id = c.parent_id
+      where c.id = p_category_id and not parent.is_active
+    ) then
+      raise exception 'Reactivate the parent category first';
+    end if;
+
+    update public.categories set is_active = true, merged_into_id = null where id = p_category_id;
+    return 0;
+  end if;
+
+  if exists (select 1 from public.categories c where c.parent_id = p_category_id and c.is_active) then
+    raise exception 'Move or deactivate its subcategories first';
+  end if;
+
+  select
+    (select count(*) from public.business_categories bc where bc.category_id = p_category_id)
+    + (select count(*) from public.tourism_places tp where tp.category_id = p_category_id)
+  into v_listings;
+
+  if v_listings > 0 then
+    if p_move_to_id is null then
+      raise exception '% listing(s) are still in this category. Choose a category to move them to.', v_listings;
+    end if;
+
+    perform public.check_category_target(p_category_id, p_move_to_id);
+    v_moved := public.move_category_listings(p_category_id, p_move_to_id);
+
+    perform set_config('app.audit_context', jsonb_build_object(
+      'moved_to_id', p_move_to_id,
+      'moved_to', (select c.name from public.categories c where c.id = p_move_to_id),
+      'listings_moved', v_moved
+    )::text, true);
+  end if;
+
+  update public.categories set is_active = false where id = p_category_id;
+
+  return v_moved;
+end;
+$$;
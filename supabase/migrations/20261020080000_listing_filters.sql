@@ -0,0 +1,155 @@
+-- Open-now, attribute and "near me" filters run inside the listing and search
+-- queries rather than coming back as id lists for the client to send again,
+-- which grew the request URL with the directory.
+
+-- Businesses passing those filters, as rows, so callers can select, embed,
+-- filter, sort and page them like the table itself. Row level security still
+-- applies. p_attributes takes the same shape as filter_businesses_by_attributes.
+create or replace function public.filter_businesses(
+  p_open_now boolean default false,
+  p_attributes jsonb default null,
+  p_near_latitude double precision default null,
+  p_near_longitude double precision default null,
+  p_near_radius_km double precision default 5
+)
+returns setof public.businesses
+language sql
+stable
+as $$
+  select b.*
+  from public.businesses b
+  where (not p_open_now or b.id in (select o.business_id from public.get_open_business_ids() o))
+    and (p_attributes is null or b.id in (select public.filter_businesses_by_attributes(p_attributes)))
+    and (
+      p_near_latitude is null
+      or b.id in (select n.id from public.nearby_entities('business', p_near_latitude, p_near_longitude, p_near_radius_km) n)
+    )
+$$;
+
+-- The same filters for search; they replace the id lists search_directory took
+drop function if exists public.search_directory(jsonb, uuid, text, boolean, boolean, uuid[], uuid[], int, int, real);
+
+create or replace function public.search_directory(
+  p_groups jsonb,
+  p_city_id uuid default null,
+  p_category_slug text default null,
+  p_verified boolean default false,
+  p_featured boolean default false,
+  p_open_now boolean default false,
+  p_attributes jsonb default null,
+  p_near_latitude double precision default null,
+  p_near_longitude double precision default null,
+  p_near_radius_km double precision default 5,
+  p_limit int default 10,
+  p_offset int default 0,
+  p_min_score real default 0.6
+)
+returns table (entity_type text, entity_id uuid, score real, rank bigint, total_count bigint)
+language sql
+stable
+as $$
+  with groups as (
+    select g.idx, lower(t.term) as term
+    from jsonb_array_elements(p_groups) with ordinality as g(alternatives, idx),
+         jsonb_array_elements_text(g.alternatives) as t(term)
+  ),
+  group_count as (
+    select count(distinct idx) as n from groups
+  ),
+  business_docs as (
+    select
+      b.id,
+      lower(b.name) as name,
+      lower(coalesce(string_agg(c.name, ' '), '')) as category_names,
+      lower(coalesce(b.address, '')) as address,
+      lower(coalesce(b.description, '')) as description
+    from public.businesses b
+    left join public.business_categories bc on bc.business_id = b.id
+    left join public.categories c on c.id = bc.category_id
+    where b.status = 'published'
+      and (p_city_id is null or b.city_id = p_city_id)
+      and (not p_verified or b.is_verified)
+      and (not p_featured or b.is_featured)
+      and (not p_open_now or b.id in (select o.business_id from public.get_open_business_ids() o))
+      and (p_attributes is null or b.id in (select public.filter_businesses_by_attributes(p_attributes)))
+      and (
+        p_near_latitude is null
+        or b.id in (select n.id from public.nearby_entities('business', p_near_latitude, p_near_longitude, p_near_radius_km) n)
+      )
+      and (
+        p_category_slug is null
+        or exists (
+          select 1
+          from public.business_categories fbc
+          join public.categories fc on fc.id = fbc.category_id
+          where fbc.business_id = b.id and fc.slug = p_category_slug
+        )
+      )
+    group by b.id
+  ),
+  tourism_docs as (
+    select
+      tp.id,
+      lower(tp.name) as name,
+      lower(coalesce(c.name, '')) as category_names,
+      lower(coalesce(tp.address, '')) as address,
+      lower(coalesce(tp.short_description, '') || ' ' || coalesce(tp.description, '')) as description
+    from public.tourism_places tp
+    left join public.categories c on c.id = tp.category_id
+    where tp.status = 'published'
+      and (p_city_id is null or tp.city_id = p_city_id)
+      and (
+        p_near_latitude is null
+        or tp.id in (select n.id from public.nearby_entities('tourism', p_near_latitude, p_near_longitude, p_near_radius_km) n)
+      )
+  ),
+  docs as (
+    select 'business'::text as entity_type, * from business_docs
+    union all
+    select 'tourism'::text as entity_type, * from tourism_docs
+  ),
+  term_scores as (
+    select
+      d.entity_type,
+      d.id,
+      g.idx,
+      max(
+        greatest(
+          word_similarity(g.term, d.name) * 3,
+          word_similarity(g.term, d.category_names) * 2,
+          word_similarity(g.term, d.address),
+          word_similarity(g.term, d.description)
+        )
+        + case
+            when to_tsvector('simple', d.name || ' ' || d.category_names || ' ' || d.address || ' ' || d.description)
+              @@ plainto_tsquery('simple', g.term)
+            then 1 else 0
+          end
+      ) as score
+    from docs d
+    cross join groups g
+    group by d.entity_type, d.id, g.idx
+  ),
+  ranked as (
+    select
+      ts.entity_type,
+      ts.id,
+      (sum(ts.score) / (select n from group_count))::real as score
+    from term_scores ts
+    group by ts.entity_type, ts.id
+    having sum(ts.score) / (select n from group_count) >= p_min_score
+  ),
+  numbered as (
+    select
+      r.*,
+      row_number() over (partition by r.entity_type order by r.score desc, r.id) as rn,
+      count(*) over (partition by r.entity_type) as total_count
+    from ranked r
+  )
+  -- The top row of each type always comes back so callers get total_count
+  -- even when paging past the end of one type
+  select n.entity_type, n.id, n.score, n.rn, n.total_count
+  from numbered n
+  where (n.rn > p_offset and n.rn <= p_offset + p_limit) or n.rn = 1
+  order by n.entity_type, n.rn
+$$;